@@ -0,0 +1,47 @@
+import express from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import compression from 'compression';
+import morgan from 'morgan';
+import { api } from './routes';
+import { errorHandler } from './routes/errors';
+
+export const PORT = Number(process.env.PORT || 8250);
+
+export const app = express();
+
+app.use(helmet());
+app.use(cors({ origin: true, credentials: true }));
+app.use(compression());
+// Request logs are noise in the test runs, which start the app on a temp database
+if (process.env.NODE_ENV !== 'test') app.use(morgan('dev'));
+app.use(express.json());
+
+app.get('/health', (_req, res) => {
+  res.json({ status: 'ok', port: PORT, time: new Date().toISOString() });
+});
+
+// API endpoints used by the frontend
+app.get('/api/health', (_req, res) => {
+  res.json({
+    status: 'ok',
+    time: new Date().toISOString(),
+    server: {
+      platform: process.platform,
+      node_version: process.version,
+      uptime: process.uptime()
+    },
+    database: { connected: true, type: 'memory' },
+    printer: { installed: false, default: '', name: '', available: false },
+    environment: {
+      NODE_ENV: process.env.NODE_ENV || 'development',
+      PORT: String(PORT)
+    }
+  });
+});
+
+// Mount real API routes
+app.use('/api', api);
+
+// Render body-parser and other app-level failures with the API error shape
+app.use(errorHandler);
@@ -0,0 +1,183 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Hash chain and signatures for the audit log.
+ *
+ * Every audit_logs row stores the hash of the row before it (prev_hash) and its own hash, a
+ * SHA-256 over prev_hash and the row's fields; the first row chains from GENESIS_HASH. Editing a
+ * row changes its hash, and deleting or inserting one breaks the link of the row after it.
+ * Bundles exported for auditors and archives of expired rows are signed with an Ed25519 key kept
+ * in data/, so they can be checked away from the server against its public key.
+ */
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+/** Fields covered by an entry's hash, in the order they are hashed after prev_hash */
+export const HASHED_FIELDS = [
+  'id',
+  'action',
+  'actor_id',
+  'actor_name',
+  'terminal',
+  'entity',
+  'entity_id',
+  'meta',
+  'created_at'
+] as const;
+
+export interface AuditEntry {
+  id: number;
+  action: string;
+  actor_id: number | null;
+  actor_name: string | null;
+  terminal: string | null;
+  entity: string | null;
+  entity_id: string | null;
+  meta: string | null; // JSON text as stored
+  created_at: string;
+  prev_hash: string | null;
+  hash: string | null;
+}
+
+export interface ChainBreak {
+  id: number;
+  /**
+   * LINK_BROKEN: prev_hash is not the hash of the entry before (entries deleted or inserted);
+   * CONTENT_CHANGED: the entry no longer matches its own hash (edited);
+   * UNHASHED: written with the chain triggers removed
+   */
+  reason: 'LINK_BROKEN' | 'CONTENT_CHANGED' | 'UNHASHED';
+  /** Entry checked just before this one; null at the start of the range */
+  previous_id: number | null;
+  expected: string;
+  found: string | null;
+}
+
+export interface ChainCheck {
+  ok: boolean;
+  checked: number;
+  first_id: number | null;
+  last_id: number | null;
+  /** Hash the first entry must chain from */
+  anchor_hash: string;
+  /** Hash of the last entry, which the next one must chain from */
+  head_hash: string;
+  breaks: ChainBreak[];
+}
+
+export function auditHash(prevHash: string, entry: Pick<AuditEntry, typeof HASHED_FIELDS[number]>): string {
+  const fields = HASHED_FIELDS.map(field => entry[field] ?? null);
+  return crypto.createHash('sha256').update(JSON.stringify([prevHash, ...fields])).digest('hex');
+}
+
+/**
+ * Walk entries in id order from `anchor`. Each entry is checked against its own stored hash, so
+ * one edited entry is reported once rather than breaking everything after it.
+ */
+export function verifyEntries(entries: Iterable<AuditEntry>, anchor = GENESIS_HASH): ChainCheck {
+  const breaks: ChainBreak[] = [];
+  let prev = anchor;
+  let previousId: number | null = null;
+  let checked = 0;
+  let firstId: number | null = null;
+
+  for (const entry of entries) {
+    checked++;
+    if (firstId === null) firstId = entry.id;
+    if (!entry.hash) {
+      const expected = auditHash(prev, entry);
+      breaks.push({ id: entry.id, reason: 'UNHASHED', previous_id: previousId, expected, found: null });
+      prev = expected;
+    } else {
+      if (entry.prev_hash !== prev) {
+        breaks.push({ id: entry.id, reason: 'LINK_BROKEN', previous_id: previousId, expected: prev, found: entry.prev_hash });
+      }
+      const expected = auditHash(entry.prev_hash ?? prev, entry);
+      if (expected !== entry.hash) {
+        breaks.push({ id: entry.id, reason: 'CONTENT_CHANGED', previous_id: previousId, expected, found: entry.hash });
+      }
+      prev = entry.hash;
+    }
+    previousId = entry.id;
+  }
+
+  return {
+    ok: breaks.length === 0,
+    checked,
+    first_id: firstId,
+    last_id: previousId,
+    anchor_hash: anchor,
+    head_hash: prev,
+    breaks
+  };
+}
+
+const KEY_FILE = path.join(process.cwd(), 'data', 'audit-signing-key.pem');
+
+let signingKey: crypto.KeyObject | null = null;
+
+let archiving = false;
+
+/**
+ * Run `fn` as the archiver. Only while it runs do the audit_archives triggers accept a new
+ * archive row and let audit_logs entries it covers be deleted; nothing sent through /api/sql can.
+ */
+export function asArchiver<T>(fn: () => T): T {
+  archiving = true;
+  try {
+    return fn();
+  } finally {
+    archiving = false;
+  }
+}
+
+export const isArchiving = () => archiving;
+
+// Created on first use; losing it only means later bundles are signed with a new key
+function privateKey(): crypto.KeyObject {
+  if (!signingKey) {
+    if (fs.existsSync(KEY_FILE)) {
+      signingKey = crypto.createPrivateKey(fs.readFileSync(KEY_FILE));
+    } else {
+      const { privateKey: key } = crypto.generateKeyPairSync('ed25519');
+      fs.mkdirSync(path.dirname(KEY_FILE), { recursive: true });
+      fs.writeFileSync(KEY_FILE, key.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+      signingKey = key;
+    }
+  }
+  return signingKey;
+}
+
+/** The server's audit signing key, PEM encoded, with the SHA-256 fingerprint auditors record */
+export function auditPublicKey(): { public_key: string; fingerprint: string } {
+  const publicKey = crypto.createPublicKey(privateKey());
+  const der = publicKey.export({ type: 'spki', format: 'der' });
+  return {
+    public_key: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    fingerprint: crypto.createHash('sha256').update(der).digest('hex')
+  };
+}
+
+/** Add the public key and an Ed25519 signature over the JSON of everything else */
+export function signBundle<T extends object>(bundle: T) {
+  const unsigned = { ...bundle, ...auditPublicKey() };
+  const signature = crypto.sign(null, Buffer.from(JSON.stringify(unsigned)), privateKey()).toString('base64');
+  return { ...unsigned, signature };
+}
+
+/** Check a bundle's signature against the public key it carries; compare its fingerprint separately */
+export function verifyBundleSignature(bundle: { public_key: string; signature: string }): boolean {
+  const { signature, ...unsigned } = bundle;
+  try {
+    return crypto.verify(
+      null,
+      Buffer.from(JSON.stringify(unsigned)),
+      crypto.createPublicKey(unsigned.public_key),
+      Buffer.from(signature, 'base64')
+    );
+  } catch {
+    return false;
+  }
+}
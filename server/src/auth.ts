@@ -0,0 +1,145 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+
+/**
+ * PIN hashing and signed session tokens.
+ *
+ * PINs are stored as `scrypt$N$r$p$<salt>$<hash>` with a random salt per user, so the same PIN
+ * never hashes the same way twice and a copied users table is slow to brute-force. Sessions are
+ * `<claims>.<signature>`, base64url JSON signed with HMAC-SHA256 under AUTH_SECRET.
+ *
+ * Approvals are a manager's sign-off on one limited operation, e.g. charging beyond a credit
+ * limit, handed to the terminal that asked for it and checked by the route that does the work.
+ * They are signed under their own prefix, so an approval never passes for a session or back, and
+ * carry an id so the route can refuse one it has already used.
+ *
+ * The session behind a request is also kept for the statements it runs, so triggers can check
+ * a permission or record the user without every route passing them along (see db.ts).
+ */
+
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_BYTES = 32;
+
+export const SESSION_TTL_MS = Number(process.env.AUTH_SESSION_MINUTES || 30) * 60 * 1000;
+export const APPROVAL_TTL_MS = Number(process.env.AUTH_APPROVAL_MINUTES || 5) * 60 * 1000;
+
+export interface SessionClaims {
+  sub: number;
+  name: string;
+  roles: string[];
+  iat: number; // ms since epoch
+  exp: number;
+}
+
+export interface ApprovalClaims {
+  id: string; // recorded once a route uses the approval, so it cannot be used twice
+  sub: number; // the signed-in user the approval was given to
+  approver: number;
+  permission: string;
+  amount?: number;
+  percent?: number;
+  customer_id?: number; // the account, sale or charge it was given for, when it is for one
+  reference?: string;
+  iat: number;
+  exp: number;
+}
+
+const APPROVAL_PREFIX = 'approval.';
+
+/** Hash a PIN for storage; empty input has no hash */
+export function hashPin(pin: string): string | null {
+  if (!pin) return null;
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(pin, salt, KEY_BYTES, { N: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P });
+  return ['scrypt', SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString('base64'), hash.toString('base64')].join('$');
+}
+
+/** Check a PIN against a stored hash; malformed hashes never match */
+export function verifyPinHash(pin: string, stored: string): Promise<boolean> {
+  const [scheme, n, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return Promise.resolve(false);
+  const expected = Buffer.from(hash, 'base64');
+  return new Promise(resolve => {
+    crypto.scrypt(
+      pin,
+      Buffer.from(salt, 'base64'),
+      expected.length,
+      { N: Number(n), r: Number(r), p: Number(p) },
+      (err, derived) => resolve(!err && crypto.timingSafeEqual(derived, expected))
+    );
+  });
+}
+
+let secret: Buffer | null = null;
+
+// Without AUTH_SECRET every restart signs with a new key, which ends all open sessions
+function sessionSecret(): Buffer {
+  if (!secret) {
+    if (process.env.AUTH_SECRET) {
+      secret = Buffer.from(process.env.AUTH_SECRET);
+    } else {
+      console.warn('AUTH_SECRET is not set; sessions will not survive a server restart');
+      secret = crypto.randomBytes(32);
+    }
+  }
+  return secret;
+}
+
+const sign = (body: string) => crypto.createHmac('sha256', sessionSecret()).update(body).digest('base64url');
+
+function signClaims(claims: object, prefix = '') {
+  const body = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${body}.${sign(prefix + body)}`;
+}
+
+// Claims of a token signed here under `prefix` and not yet expired; null otherwise
+function verifyClaims<T extends { exp: number }>(token: string, now: number, prefix = ''): T | null {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+  const expected = Buffer.from(sign(prefix + body));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) return null;
+  try {
+    const claims = JSON.parse(Buffer.from(body, 'base64url').toString()) as T;
+    return typeof claims.exp === 'number' && claims.exp > now ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+export function signSession(user: { id: number; name: string; roles: string[] }, now = Date.now()) {
+  const claims: SessionClaims = { sub: user.id, name: user.name, roles: user.roles, iat: now, exp: now + SESSION_TTL_MS };
+  return { token: signClaims(claims), claims };
+}
+
+/** Claims of a token signed here and not yet expired; null otherwise */
+export function verifySession(token: string, now = Date.now()): SessionClaims | null {
+  return verifyClaims<SessionClaims>(token, now);
+}
+
+export function signApproval(approval: Omit<ApprovalClaims, 'id' | 'iat' | 'exp'>, now = Date.now()): string {
+  return signClaims({ id: crypto.randomUUID(), ...approval, iat: now, exp: now + APPROVAL_TTL_MS }, APPROVAL_PREFIX);
+}
+
+/** Claims of an approval signed here and not yet expired; null otherwise */
+export function verifyApproval(token: string, now = Date.now()): ApprovalClaims | null {
+  return verifyClaims<ApprovalClaims>(token, now, APPROVAL_PREFIX);
+}
+
+/** The signed-in user a request runs as, and whether its roles grant a permission */
+export interface ActingSession {
+  claims: SessionClaims;
+  may(permission: string): boolean;
+}
+
+const acting = new AsyncLocalStorage<ActingSession>();
+
+/** Run `fn`, and everything it goes on to do asynchronously, as `session` */
+export function runAsSession<T>(session: ActingSession, fn: () => T): T {
+  return acting.run(session, fn);
+}
+
+/** The session the current statement runs for; undefined for the server's own jobs */
+export const actingSession = (): ActingSession | undefined => acting.getStore();
@@ -0,0 +1,61 @@
+import readline from 'readline';
+import { db } from './db';
+
+/**
+ * The first sign-in on a new server. Terminals only sign in with the PIN of a user the server
+ * already has, so `npm run create-admin -- "<name>"` asks for a PIN and adds an ADMIN, who then
+ * adds everyone else from the Users page. It refuses once an active admin exists, so it cannot be
+ * used to take over a server that is already set up.
+ */
+
+const USAGE = 'Usage: npm run create-admin -- "<name>"';
+const PIN_PATTERN = /^\d{4,6}$/;
+
+export class CreateAdminError extends Error {
+  constructor(public code: string, message: string) {
+    super(message);
+    this.name = 'CreateAdminError';
+  }
+}
+
+/** Add the first admin; the users triggers hash the PIN into user_pins */
+export function createAdmin(name: string, pin: string): number {
+  if (!name.trim()) throw new CreateAdminError('USAGE', USAGE);
+  if (!PIN_PATTERN.test(pin)) throw new CreateAdminError('INVALID_PIN', 'PIN must be 4 to 6 digits');
+  return db.transaction(() => {
+    if (db.get("SELECT 1 FROM users WHERE role = 'ADMIN' AND active = 1")) {
+      throw new CreateAdminError('ADMIN_EXISTS', 'An active admin already exists; add users from the Users page');
+    }
+    if (db.get('SELECT 1 FROM users WHERE name = ?', [name.trim()])) {
+      throw new CreateAdminError('NAME_TAKEN', `A user named ${name.trim()} already exists`);
+    }
+    const result = db.run("INSERT INTO users (name, role, pin, active) VALUES (?, 'ADMIN', ?, 1)", [name.trim(), pin]);
+    return Number(result.lastInsertRowid);
+  });
+}
+
+function ask(prompt: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise(resolve =>
+    rl.question(prompt, answer => {
+      rl.close();
+      resolve(answer.trim());
+    })
+  );
+}
+
+async function main(args: string[]) {
+  const [name] = args;
+  if (!name) throw new CreateAdminError('USAGE', USAGE);
+  const pin = await ask('PIN (4-6 digits): ');
+  if ((await ask('Repeat the PIN: ')) !== pin) throw new CreateAdminError('PIN_MISMATCH', 'The PINs do not match');
+  const id = createAdmin(name, pin);
+  console.log(`Admin ${name.trim()} created (user ${id}); sign in with this PIN from any terminal`);
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  });
+}
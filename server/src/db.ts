@@ -1,6 +1,9 @@
 import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
+import { auditHash, isArchiving } from './audit';
+import { actingSession, hashPin } from './auth';
+import { runMigrations } from './migrations';
 
 const DB_DIR = path.join(process.cwd(), 'data');
 const DB_PATH = path.join(DB_DIR, 'pos.db');
@@ -14,6 +17,40 @@ sqlite.pragma('journal_mode = WAL');
 sqlite.pragma('synchronous = NORMAL');
 sqlite.pragma('foreign_keys = ON');
 
+// Used by the users triggers so a PIN written by any route is stored hashed
+sqlite.function('hash_pin', (pin: unknown) => (typeof pin === 'string' ? hashPin(pin) : null));
+
+// Used by the audit_logs trigger that links each new entry to the one before it
+sqlite.function(
+  'audit_hash',
+  { deterministic: true },
+  (prevHash: any, id: any, action: any, actorId: any, actorName: any, terminal: any, entity: any, entityId: any, meta: any, createdAt: any) =>
+    auditHash(prevHash, {
+      id,
+      action,
+      actor_id: actorId,
+      actor_name: actorName,
+      terminal,
+      entity,
+      entity_id: entityId,
+      meta,
+      created_at: createdAt
+    })
+);
+
+// Checked by the audit_archives and audit_logs delete triggers; see asArchiver
+sqlite.function('audit_archiving', () => (isArchiving() ? 1 : 0));
+
+// Checked by triggers guarding single columns, e.g. credit limits; the server's own jobs may do anything
+sqlite.function('session_may', (permission: unknown) => {
+  const session = actingSession();
+  return !session || session.may(String(permission)) ? 1 : 0;
+});
+
+// Who a statement runs for, recorded by triggers that audit a change; NULL for the server's own jobs
+sqlite.function('session_user_id', () => actingSession()?.claims.sub ?? null);
+sqlite.function('session_user_name', () => actingSession()?.claims.name ?? null);
+
 export const db = {
   query<T = any>(sql: string, params: any[] = []): T[] {
     const stmt = sqlite.prepare(sql);
@@ -26,6 +63,12 @@ export const db = {
   run(sql: string, params: any[] = []): Database.RunResult {
     const stmt = sqlite.prepare(sql);
     return stmt.run(...params);
+  },
+  prepare(sql: string): Database.Statement {
+    return sqlite.prepare(sql);
+  },
+  transaction<T>(fn: () => T): T {
+    return sqlite.transaction(fn)();
   }
 };
 
@@ -387,4 +430,4 @@ CREATE TABLE IF NOT EXISTS transfer_lines (
 );
 `);
 
-
+runMigrations(sqlite);
@@ -1,52 +1,21 @@
-import express from 'express';
-import cors from 'cors';
-import helmet from 'helmet';
-import compression from 'compression';
-import morgan from 'morgan';
-import { api } from './routes';
+import { app, PORT } from './app';
+import { startAuditArchiver } from './jobs/auditArchive';
+import { startBackupScheduler } from './jobs/backupScheduler';
+import { startReminderDispatcher } from './jobs/reminderDispatcher';
 
-const app = express();
-const PORT = Number(process.env.PORT || 8250);
-
-app.use(helmet());
-app.use(cors({ origin: true, credentials: true }));
-app.use(compression());
-app.use(morgan('dev'));
-app.use(express.json());
-
-app.get('/health', (_req, res) => {
-  res.json({ status: 'ok', port: PORT, time: new Date().toISOString() });
-});
-
-// API endpoints used by the frontend
-app.get('/api/health', (_req, res) => {
-  res.json({
-    status: 'ok',
-    time: new Date().toISOString(),
-    server: {
-      platform: process.platform,
-      node_version: process.version,
-      uptime: process.uptime()
-    },
-    database: { connected: true, type: 'memory' },
-    printer: { installed: false, default: '', name: '', available: false },
-    environment: {
-      NODE_ENV: process.env.NODE_ENV || 'development',
-      PORT: String(PORT)
-    }
-  });
-});
+app.listen(PORT, () => {
+  console.log(`Server listening on http://localhost:${PORT}`);
 
-app.get('/api/customers', (req, res) => {
-  const active = req.query.active;
-  res.json({ customers: [], total: 0, active: active === 'true' });
-});
+  // Payment reminders; set REMINDERS_ENABLED=false on servers that should not send them
+  if (process.env.REMINDERS_ENABLED !== 'false') {
+    startReminderDispatcher();
+  }
 
-// Mount real API routes
-app.use('/api', api);
+  // Daily encrypted backups, when enabled from the web Backups page
+  startBackupScheduler();
 
-app.listen(PORT, () => {
-  console.log(`Server listening on http://localhost:${PORT}`);
+  // Audit entries past AUDIT_RETENTION_DAYS move to signed archive files
+  startAuditArchiver();
 });
 
 
@@ -0,0 +1,206 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { db } from '../db';
+import { acquire } from '../lease';
+import { AuditEntry, ChainCheck, GENESIS_HASH, HASHED_FIELDS, asArchiver, signBundle, verifyEntries } from '../audit';
+
+/**
+ * Verification, signed export and archiving of the hash-chained audit log.
+ *
+ * Entries older than AUDIT_RETENTION_DAYS are archived rather than deleted: the oldest run of
+ * them is written as a signed bundle to data/audit-archive, recorded in audit_archives, and only
+ * then removed from audit_logs. The live chain carries on from the archive's last hash, so the
+ * whole history still verifies end to end. AUDIT_RETENTION_DAYS=0 keeps every entry in the database.
+ */
+
+const ARCHIVE_DIR = path.join(process.cwd(), 'data', 'audit-archive');
+const BUNDLE_FORMAT = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const RETENTION_DAYS = Number(process.env.AUDIT_RETENTION_DAYS ?? 365);
+const INTERVAL_MS = Number(process.env.AUDIT_ARCHIVE_INTERVAL_MS || 6 * 60 * 60 * 1000);
+
+const ENTRY_COLUMNS = 'id, action, actor_id, actor_name, terminal, entity, entity_id, meta, created_at, prev_hash, hash';
+
+export interface AuditArchive {
+  id: number;
+  file: string;
+  first_id: number;
+  last_id: number;
+  entries: number;
+  first_prev_hash: string;
+  last_hash: string;
+  file_sha256: string;
+  created_at: string;
+}
+
+export interface ArchiveCheck {
+  file: string;
+  ok: boolean;
+  error?: string;
+}
+
+export interface AuditVerification extends ChainCheck {
+  /** Each archive file is present, unchanged, and continues from the one before it */
+  archives: ArchiveCheck[];
+  verified_at: string;
+}
+
+interface Actor {
+  id: number | null;
+  name: string;
+}
+
+// SQLite CURRENT_TIMESTAMP is UTC without a zone marker
+const sqliteTime = (date: Date) => date.toISOString().replace('T', ' ').slice(0, 19);
+
+const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+
+function entries(where = '', params: unknown[] = []): AuditEntry[] {
+  return db.query<AuditEntry>(`SELECT ${ENTRY_COLUMNS} FROM audit_logs ${where} ORDER BY id`, params);
+}
+
+function record(action: string, actor: Actor, meta: Record<string, unknown>) {
+  db.run('INSERT INTO audit_logs (action, actor_id, actor_name, meta) VALUES (?, ?, ?, ?)', [
+    action,
+    actor.id,
+    actor.name,
+    JSON.stringify(meta)
+  ]);
+}
+
+export function listArchives(): AuditArchive[] {
+  return db.query<AuditArchive>('SELECT * FROM audit_archives ORDER BY first_id');
+}
+
+function checkArchives(archives: AuditArchive[]): ArchiveCheck[] {
+  let prev = GENESIS_HASH;
+  return archives.map(archive => {
+    const check = (error?: string): ArchiveCheck => ({ file: archive.file, ok: !error, ...(error ? { error } : {}) });
+    const expectedPrev = prev;
+    prev = archive.last_hash;
+    if (archive.first_prev_hash !== expectedPrev) return check('does not continue from the archive before it');
+    const file = path.join(ARCHIVE_DIR, archive.file);
+    if (!fs.existsSync(file)) return check('file is missing');
+    if (sha256(fs.readFileSync(file)) !== archive.file_sha256) return check('file has been changed');
+    return check();
+  });
+}
+
+/** Check the archives and every live entry, reporting where the chain breaks */
+export function verifyAuditChain(): AuditVerification {
+  const archives = listArchives();
+  const archiveChecks = checkArchives(archives);
+  const chain = verifyEntries(entries(), archives.length ? archives[archives.length - 1].last_hash : GENESIS_HASH);
+  return {
+    ...chain,
+    ok: chain.ok && archiveChecks.every(a => a.ok),
+    archives: archiveChecks,
+    verified_at: new Date().toISOString()
+  };
+}
+
+// A signed, self-verifying bundle of consecutive entries; the chain result is part of what is signed
+function bundle(rows: AuditEntry[], details: Record<string, unknown>) {
+  const chain = verifyEntries(rows, rows[0]?.prev_hash ?? GENESIS_HASH);
+  return signBundle({
+    format: BUNDLE_FORMAT,
+    ...details,
+    generated_at: new Date().toISOString(),
+    hash: {
+      algorithm: 'sha256',
+      input: `JSON array of prev_hash, ${HASHED_FIELDS.join(', ')}`,
+      genesis: GENESIS_HASH
+    },
+    chain: {
+      ok: chain.ok,
+      checked: chain.checked,
+      first_id: chain.first_id,
+      last_id: chain.last_id,
+      anchor_hash: chain.anchor_hash,
+      head_hash: chain.head_hash,
+      breaks: chain.breaks
+    },
+    entries: rows
+  });
+}
+
+/** Signed export of the live entries written between `from` and `to` (ISO dates or times), for auditors */
+export function exportAuditBundle(range: { from?: string; to?: string }, actor: Actor) {
+  const where: string[] = [];
+  const params: string[] = [];
+  if (range.from) {
+    where.push('created_at >= ?');
+    params.push(sqliteTime(new Date(range.from)));
+  }
+  if (range.to) {
+    // A bare date includes the whole day
+    const to = /^\d{4}-\d{2}-\d{2}$/.test(range.to) ? new Date(Date.parse(range.to) + DAY_MS - 1000) : new Date(range.to);
+    where.push('created_at <= ?');
+    params.push(sqliteTime(to));
+  }
+  const rows = entries(where.length ? `WHERE ${where.join(' AND ')}` : '', params);
+  const result = bundle(rows, { kind: 'audit-export', generated_by: actor.name, range });
+  record('AUDIT_EXPORT', actor, { format: 'signed-bundle', range, entries: rows.length, head_hash: result.chain.head_hash });
+  return result;
+}
+
+/**
+ * Move entries older than `olderThanDays` into a signed archive file. Returns null when there is
+ * nothing to archive. The file is written before any row is removed, and the rows are removed
+ * in the same transaction that records the archive.
+ */
+export function archiveAuditLogs(olderThanDays = RETENTION_DAYS, actor: Actor = { id: null, name: 'system' }): AuditArchive | null {
+  const cutoff = sqliteTime(new Date(Date.now() - olderThanDays * DAY_MS));
+  const last = db.get<{ id: number | null }>('SELECT MAX(id) AS id FROM audit_logs WHERE created_at < ?', [cutoff]);
+  if (!last?.id) return null;
+
+  const rows = entries('WHERE id <= ?', [last.id]);
+  const archived = bundle(rows, { kind: 'audit-archive', generated_by: actor.name, retention_days: olderThanDays, cutoff });
+  const first = rows[0];
+  const name = `audit_${first.id}-${last.id}_${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+  const content = JSON.stringify(archived);
+  fs.mkdirSync(ARCHIVE_DIR, { recursive: true });
+  fs.writeFileSync(path.join(ARCHIVE_DIR, name), content);
+
+  try {
+    asArchiver(() => db.transaction(() => {
+      db.run(
+        `INSERT INTO audit_archives (file, first_id, last_id, entries, first_prev_hash, last_hash, file_sha256)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [name, first.id, last.id, rows.length, first.prev_hash ?? GENESIS_HASH, archived.chain.head_hash, sha256(content)]
+      );
+      db.run('DELETE FROM audit_logs WHERE id <= ?', [last.id]);
+    }));
+  } catch (error) {
+    fs.rmSync(path.join(ARCHIVE_DIR, name), { force: true });
+    throw error;
+  }
+
+  record('AUDIT_ARCHIVE', actor, {
+    file: name,
+    first_id: first.id,
+    last_id: last.id,
+    entries: rows.length,
+    retention_days: olderThanDays
+  });
+  return db.get<AuditArchive>('SELECT * FROM audit_archives WHERE file = ?', [name]) ?? null;
+}
+
+/** Archive expired entries now and every AUDIT_ARCHIVE_INTERVAL_MS; returns a function that stops it */
+export function startAuditArchiver(): () => void {
+  if (!(RETENTION_DAYS > 0)) return () => undefined;
+  const tick = () => {
+    acquire(undefined)
+      .then(() => {
+        const archive = archiveAuditLogs();
+        if (archive) console.log(`Archived ${archive.entries} audit entries to ${archive.file}`);
+      })
+      .catch(error => console.error('Audit archiving failed:', error));
+  };
+  const timer = setInterval(tick, INTERVAL_MS);
+  timer.unref();
+  tick();
+  return () => clearInterval(timer);
+}
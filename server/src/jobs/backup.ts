@@ -0,0 +1,380 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { pipeline } from 'stream/promises';
+import Database from 'better-sqlite3';
+import { SCHEMA_VERSION } from '../migrations';
+
+/**
+ * Encrypted backups of the server database, kept in data/backups.
+ *
+ * Each backup is a consistent snapshot taken with SQLite's online backup API (safe while the
+ * server is writing), encrypted with AES-256-GCM under a key derived from BACKUP_PASSPHRASE
+ * with scrypt. The file is a header (magic, format, salt, IV; also authenticated), the
+ * ciphertext and the GCM tag. A manifest next to it records the schema version and checksums
+ * of the snapshot and the encrypted file, so a backup can be verified without restoring it.
+ *
+ * Restoring replaces pos.db and must be done with the server stopped:
+ *   npm run backup -- restore <file>
+ */
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const DB_PATH = path.join(DATA_DIR, 'pos.db');
+const BACKUP_DIR = path.join(DATA_DIR, 'backups');
+const BACKUP_PREFIX = 'pos_backup_';
+const BACKUP_SUFFIX = '.db.enc';
+const MANIFEST_SUFFIX = '.manifest.json';
+
+const MAGIC = Buffer.from('POSBAK');
+const FORMAT = 1;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const HEADER_BYTES = MAGIC.length + 1 + SALT_BYTES + IV_BYTES;
+const KDF = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+export const DEFAULT_KEEP = Number(process.env.BACKUP_KEEP || 7);
+
+export interface BackupManifest {
+  format: number;
+  file: string;
+  created_at: string;
+  schema_version: number;
+  cipher: 'aes-256-gcm';
+  kdf: 'scrypt';
+  db_bytes: number;
+  db_sha256: string;
+  file_bytes: number;
+  file_sha256: string;
+}
+
+export interface BackupEntry {
+  file: string;
+  bytes: number;
+  created_at: string;
+  /** Null for files without a manifest, such as backups taken before manifests were written */
+  manifest: BackupManifest | null;
+}
+
+export interface VerifyResult {
+  file: string;
+  ok: boolean;
+  schema_version: number | null;
+  error?: string;
+}
+
+export class BackupError extends Error {
+  constructor(public code: string, message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+function ensureDir(p: string) {
+  if (!fs.existsSync(p)) fs.mkdirSync(p, { recursive: true });
+}
+
+function passphrase(): string {
+  const value = process.env.BACKUP_PASSPHRASE;
+  if (!value) throw new BackupError('PASSPHRASE_MISSING', 'BACKUP_PASSPHRASE is not set');
+  return value;
+}
+
+function deriveKey(salt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase(), salt, 32, KDF);
+}
+
+async function sha256File(file: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  await pipeline(fs.createReadStream(file), hash);
+  return hash.digest('hex');
+}
+
+function removeQuietly(file: string) {
+  fs.rmSync(file, { force: true });
+}
+
+/** Resolve a backup name to its path, refusing anything that is not a backup in BACKUP_DIR */
+function backupPath(file: string): string {
+  const name = path.basename(file);
+  if (!name.startsWith(BACKUP_PREFIX) || !name.endsWith(BACKUP_SUFFIX)) {
+    throw new BackupError('INVALID_NAME', `${file} is not a backup file`);
+  }
+  const p = path.join(BACKUP_DIR, name);
+  if (!fs.existsSync(p)) throw new BackupError('NOT_FOUND', `Backup ${name} not found`);
+  return p;
+}
+
+const manifestPath = (backupFile: string) => backupFile.slice(0, -BACKUP_SUFFIX.length) + MANIFEST_SUFFIX;
+
+function readManifest(backupFile: string): BackupManifest | null {
+  const p = manifestPath(backupFile);
+  return fs.existsSync(p) ? JSON.parse(fs.readFileSync(p, 'utf8')) as BackupManifest : null;
+}
+
+async function encryptFile(source: string, dest: string) {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const iv = crypto.randomBytes(IV_BYTES);
+  const header = Buffer.concat([MAGIC, Buffer.from([FORMAT]), salt, iv]);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(salt), iv);
+  cipher.setAAD(header);
+
+  fs.writeFileSync(dest, header);
+  await pipeline(fs.createReadStream(source), cipher, fs.createWriteStream(dest, { flags: 'a' }));
+  // The tag only exists once the whole stream has been encrypted
+  fs.appendFileSync(dest, cipher.getAuthTag());
+}
+
+/** Decrypt a backup to `dest`; rejects, leaving nothing behind, when the passphrase is wrong or the file was altered */
+async function decryptFile(source: string, dest: string) {
+  const size = fs.statSync(source).size;
+  if (size <= HEADER_BYTES + TAG_BYTES) throw new BackupError('CORRUPT', `${path.basename(source)} is truncated`);
+
+  const fd = fs.openSync(source, 'r');
+  const header = Buffer.alloc(HEADER_BYTES);
+  const tag = Buffer.alloc(TAG_BYTES);
+  try {
+    fs.readSync(fd, header, 0, HEADER_BYTES, 0);
+    fs.readSync(fd, tag, 0, TAG_BYTES, size - TAG_BYTES);
+  } finally {
+    fs.closeSync(fd);
+  }
+  if (!header.subarray(0, MAGIC.length).equals(MAGIC) || header[MAGIC.length] !== FORMAT) {
+    throw new BackupError('UNSUPPORTED_FORMAT', `${path.basename(source)} is not a format ${FORMAT} backup`);
+  }
+
+  const salt = header.subarray(MAGIC.length + 1, MAGIC.length + 1 + SALT_BYTES);
+  const iv = header.subarray(MAGIC.length + 1 + SALT_BYTES);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', deriveKey(salt), iv);
+  decipher.setAAD(header);
+  decipher.setAuthTag(tag);
+
+  try {
+    await pipeline(
+      fs.createReadStream(source, { start: HEADER_BYTES, end: size - TAG_BYTES - 1 }),
+      decipher,
+      fs.createWriteStream(dest)
+    );
+  } catch {
+    removeQuietly(dest);
+    throw new BackupError('DECRYPT_FAILED', `${path.basename(source)} could not be decrypted; wrong passphrase or damaged file`);
+  }
+}
+
+/** Schema version of a database file, after checking it is intact */
+function checkDatabase(file: string): number {
+  const sqlite = new Database(file, { readonly: true, fileMustExist: true });
+  try {
+    const result = sqlite.pragma('integrity_check', { simple: true });
+    if (result !== 'ok') throw new BackupError('INTEGRITY_FAILED', `Integrity check failed: ${result}`);
+    return sqlite.pragma('user_version', { simple: true }) as number;
+  } finally {
+    sqlite.close();
+  }
+}
+
+/**
+ * Decrypt a backup to a temporary file and check it against its manifest: file and snapshot
+ * checksums, SQLite integrity and schema version. Returns the path of the decrypted copy.
+ */
+async function decryptAndCheck(backupFile: string): Promise<{ snapshot: string; manifest: BackupManifest }> {
+  const manifest = readManifest(backupFile);
+  if (!manifest) throw new BackupError('MANIFEST_MISSING', `${path.basename(backupFile)} has no manifest and cannot be verified`);
+  if (await sha256File(backupFile) !== manifest.file_sha256) {
+    throw new BackupError('CHECKSUM_MISMATCH', `${manifest.file} does not match the checksum in its manifest`);
+  }
+
+  const snapshot = path.join(BACKUP_DIR, `.verify-${process.pid}-${Date.now()}.db`);
+  await decryptFile(backupFile, snapshot);
+  try {
+    if (await sha256File(snapshot) !== manifest.db_sha256) {
+      throw new BackupError('CHECKSUM_MISMATCH', `The database in ${manifest.file} does not match its manifest`);
+    }
+    const version = checkDatabase(snapshot);
+    if (version !== manifest.schema_version) {
+      throw new BackupError('SCHEMA_MISMATCH', `${manifest.file} is at schema ${version}, its manifest says ${manifest.schema_version}`);
+    }
+    return { snapshot, manifest };
+  } catch (error) {
+    removeQuietly(snapshot);
+    throw error;
+  }
+}
+
+/** Keep the newest `keep` backups and delete the rest, manifests included */
+function rotate(keep: number) {
+  const files = fs.readdirSync(BACKUP_DIR)
+    .filter(f => f.startsWith(BACKUP_PREFIX) && f.endsWith(BACKUP_SUFFIX))
+    .sort();
+  for (const file of files.slice(0, Math.max(0, files.length - keep))) {
+    const p = path.join(BACKUP_DIR, file);
+    removeQuietly(p);
+    removeQuietly(manifestPath(p));
+  }
+}
+
+let running = false;
+
+/**
+ * Snapshot, encrypt and rotate. The backup only appears under its final name once it is
+ * complete, and older backups are only rotated out after that.
+ */
+export async function createBackup(keep = DEFAULT_KEEP): Promise<BackupManifest> {
+  if (running) throw new BackupError('BACKUP_RUNNING', 'A backup is already running');
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const snapshot = path.join(BACKUP_DIR, `.snapshot-${stamp}.db`);
+  const file = `${BACKUP_PREFIX}${stamp}${BACKUP_SUFFIX}`;
+  const dest = path.join(BACKUP_DIR, file);
+  const partial = `${dest}.partial`;
+
+  // Everything after this point must reach the finally, or no backup could run until restart
+  running = true;
+  try {
+    ensureDir(BACKUP_DIR);
+    passphrase();
+    if (!fs.existsSync(DB_PATH)) throw new BackupError('DB_NOT_FOUND', `Database not found at ${DB_PATH}`);
+
+    const source = new Database(DB_PATH, { readonly: true, fileMustExist: true });
+    try {
+      await source.backup(snapshot);
+    } finally {
+      source.close();
+    }
+    // The copy inherits WAL mode; a single self-contained file is what gets encrypted and restored
+    const copy = new Database(snapshot, { fileMustExist: true });
+    try {
+      copy.pragma('journal_mode = DELETE');
+    } finally {
+      copy.close();
+    }
+    const schemaVersion = checkDatabase(snapshot);
+
+    await encryptFile(snapshot, partial);
+    fs.renameSync(partial, dest);
+
+    const manifest: BackupManifest = {
+      format: FORMAT,
+      file,
+      created_at: new Date().toISOString(),
+      schema_version: schemaVersion,
+      cipher: 'aes-256-gcm',
+      kdf: 'scrypt',
+      db_bytes: fs.statSync(snapshot).size,
+      db_sha256: await sha256File(snapshot),
+      file_bytes: fs.statSync(dest).size,
+      file_sha256: await sha256File(dest)
+    };
+    fs.writeFileSync(manifestPath(dest), JSON.stringify(manifest, null, 2));
+
+    rotate(keep);
+    return manifest;
+  } catch (error) {
+    removeQuietly(partial);
+    throw error;
+  } finally {
+    ['', '-wal', '-shm'].forEach(suffix => removeQuietly(snapshot + suffix));
+    running = false;
+  }
+}
+
+export function backupRunning(): boolean {
+  return running;
+}
+
+export function listBackups(): BackupEntry[] {
+  ensureDir(BACKUP_DIR);
+  return fs.readdirSync(BACKUP_DIR)
+    .filter(f => f.startsWith(BACKUP_PREFIX) && f.endsWith(BACKUP_SUFFIX))
+    .map(f => {
+      const p = path.join(BACKUP_DIR, f);
+      const st = fs.statSync(p);
+      const manifest = readManifest(p);
+      return { file: f, bytes: st.size, created_at: manifest?.created_at ?? st.mtime.toISOString(), manifest };
+    })
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+/** Check a backup can be decrypted and restored, without touching the live database */
+export async function verifyBackup(file: string): Promise<VerifyResult> {
+  const name = path.basename(file);
+  try {
+    const { snapshot, manifest } = await decryptAndCheck(backupPath(file));
+    removeQuietly(snapshot);
+    return { file: name, ok: true, schema_version: manifest.schema_version };
+  } catch (error) {
+    if (error instanceof BackupError && ['INVALID_NAME', 'NOT_FOUND', 'PASSPHRASE_MISSING'].includes(error.code)) throw error;
+    return { file: name, ok: false, schema_version: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Replace the live database with a verified backup. The current database (with its WAL) is
+ * kept beside it as pos.db.pre-restore-<time>. Run with the server stopped; migrations bring
+ * an older backup up to date on the next start, but a backup from a newer server is refused.
+ */
+export async function restoreBackup(file: string): Promise<{ file: string; schema_version: number; previous: string | null }> {
+  const { snapshot, manifest } = await decryptAndCheck(backupPath(file));
+  try {
+    if (manifest.schema_version > SCHEMA_VERSION) {
+      throw new BackupError(
+        'SCHEMA_TOO_NEW',
+        `${manifest.file} is at schema ${manifest.schema_version}; this server only knows up to ${SCHEMA_VERSION}`
+      );
+    }
+
+    let previous: string | null = null;
+    if (fs.existsSync(DB_PATH)) {
+      previous = `${DB_PATH}.pre-restore-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+      for (const suffix of ['', '-wal', '-shm']) {
+        if (fs.existsSync(DB_PATH + suffix)) fs.renameSync(DB_PATH + suffix, previous + suffix);
+      }
+    }
+    fs.renameSync(snapshot, DB_PATH);
+    return { file: manifest.file, schema_version: manifest.schema_version, previous };
+  } finally {
+    removeQuietly(snapshot);
+  }
+}
+
+const USAGE = 'Usage: npm run backup -- run | list | verify <file> | restore <file>';
+
+async function main(args: string[]) {
+  const [command, file] = args;
+  switch (command) {
+    case 'run': {
+      const manifest = await createBackup();
+      console.log(`Backup written: ${manifest.file} (schema ${manifest.schema_version}, ${manifest.file_bytes} bytes)`);
+      break;
+    }
+    case 'list':
+      for (const entry of listBackups()) {
+        const schema = entry.manifest ? `schema ${entry.manifest.schema_version}` : 'no manifest';
+        console.log(`${entry.file}  ${entry.bytes} bytes  ${schema}`);
+      }
+      break;
+    case 'verify': {
+      if (!file) throw new BackupError('USAGE', USAGE);
+      const result = await verifyBackup(file);
+      console.log(result.ok ? `${result.file}: OK (schema ${result.schema_version})` : `${result.file}: FAILED - ${result.error}`);
+      if (!result.ok) process.exitCode = 1;
+      break;
+    }
+    case 'restore': {
+      if (!file) throw new BackupError('USAGE', USAGE);
+      const result = await restoreBackup(file);
+      console.log(`Restored ${result.file} (schema ${result.schema_version})`);
+      if (result.previous) console.log(`Previous database kept at ${result.previous}`);
+      break;
+    }
+    default:
+      throw new BackupError('USAGE', USAGE);
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,117 @@
+import { db } from '../db';
+import { acquire } from '../lease';
+import { createBackup } from './backup';
+
+const INTERVAL_MS = Number(process.env.BACKUP_CHECK_INTERVAL_MS || 60000);
+
+export interface BackupSchedule {
+  enabled: boolean;
+  daily_time: string; // HH:MM, server local time
+  keep: number;
+  last_run_at: string | null;
+  last_file: string | null;
+  last_error: string | null;
+  updated_at: string | null;
+}
+
+interface ScheduleRow extends Omit<BackupSchedule, 'enabled'> {
+  enabled: number;
+}
+
+// SQLite CURRENT_TIMESTAMP is UTC without a zone marker
+const sqliteTime = (date: Date) => date.toISOString().replace('T', ' ').slice(0, 19);
+const fromSqliteTime = (value: string) => new Date(`${value.replace(' ', 'T')}Z`);
+
+export function backupSchedule(): BackupSchedule {
+  const row = db.get<ScheduleRow>('SELECT * FROM backup_schedule WHERE id = 1');
+  return {
+    enabled: !!row?.enabled,
+    daily_time: row?.daily_time ?? '02:00',
+    keep: row?.keep ?? 7,
+    last_run_at: row?.last_run_at ?? null,
+    last_file: row?.last_file ?? null,
+    last_error: row?.last_error ?? null,
+    updated_at: row?.updated_at ?? null
+  };
+}
+
+export function updateBackupSchedule(values: Partial<Pick<BackupSchedule, 'enabled' | 'daily_time' | 'keep'>>): BackupSchedule {
+  const columns = Object.keys(values);
+  db.run(
+    `UPDATE backup_schedule SET ${columns.map(c => `${c} = ?`).join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = 1`,
+    columns.map(c => {
+      const value = values[c as keyof typeof values];
+      return typeof value === 'boolean' ? Number(value) : value;
+    })
+  );
+  return backupSchedule();
+}
+
+// Today's run time in server local time
+function slotOn(day: Date, dailyTime: string): Date {
+  const [hours, minutes] = dailyTime.split(':').map(Number);
+  const slot = new Date(day);
+  slot.setHours(hours, minutes, 0, 0);
+  return slot;
+}
+
+/**
+ * Today's run is due once its time has passed, unless a backup already ran after it. Changing
+ * the schedule also counts, so enabling it late in the day waits for tomorrow's run.
+ */
+function isDue(schedule: BackupSchedule, now: Date): boolean {
+  if (!schedule.enabled) return false;
+  const slot = slotOn(now, schedule.daily_time);
+  const since = [schedule.last_run_at, schedule.updated_at]
+    .filter((value): value is string => !!value)
+    .map(value => fromSqliteTime(value).getTime());
+  return now >= slot && Math.max(0, ...since) < slot.getTime();
+}
+
+/** When the scheduler will next take a backup; null while disabled */
+export function nextBackupAt(schedule: BackupSchedule, now = new Date()): Date | null {
+  if (!schedule.enabled) return null;
+  if (isDue(schedule, now)) return now;
+  const slot = slotOn(now, schedule.daily_time);
+  if (slot > now) return slot;
+  slot.setDate(slot.getDate() + 1);
+  return slot;
+}
+
+/**
+ * Take a backup now with the scheduled retention, recording the outcome on the schedule. The
+ * snapshot reads committed data through its own connection; the outcome waits for the lease.
+ */
+export async function runScheduledBackup() {
+  const schedule = backupSchedule();
+  try {
+    const manifest = await createBackup(schedule.keep);
+    await acquire(undefined);
+    db.run(
+      'UPDATE backup_schedule SET last_run_at = ?, last_file = ?, last_error = NULL WHERE id = 1',
+      [sqliteTime(new Date()), manifest.file]
+    );
+    return manifest;
+  } catch (error) {
+    await acquire(undefined);
+    db.run(
+      'UPDATE backup_schedule SET last_run_at = ?, last_error = ? WHERE id = 1',
+      [sqliteTime(new Date()), error instanceof Error ? error.message : String(error)]
+    );
+    throw error;
+  }
+}
+
+/** Check every BACKUP_CHECK_INTERVAL_MS whether the daily backup is due; returns a function that stops it */
+export function startBackupScheduler(): () => void {
+  const tick = () => {
+    if (!isDue(backupSchedule(), new Date())) return;
+    runScheduledBackup()
+      .then(manifest => console.log(`Backup written: ${manifest.file}`))
+      .catch(error => console.error('Scheduled backup failed:', error));
+  };
+  const timer = setInterval(tick, INTERVAL_MS);
+  timer.unref();
+  tick();
+  return () => clearInterval(timer);
+}
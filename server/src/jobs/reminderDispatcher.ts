@@ -0,0 +1,219 @@
+import { db } from '../db';
+import { acquire } from '../lease';
+import { updateRow } from '../routes/crud';
+import { reminderQueue } from '../routes/resources';
+import { Channel, PermanentDeliveryError, ReminderTransport, createTransports } from './reminderTransports';
+
+const MAX_ATTEMPTS = Number(process.env.REMINDER_MAX_ATTEMPTS || 5);
+const BACKOFF_BASE_MS = Number(process.env.REMINDER_BACKOFF_BASE_MS || 60000);
+const BACKOFF_MAX_MS = Number(process.env.REMINDER_BACKOFF_MAX_MS || 6 * 60 * 60 * 1000);
+const BATCH_SIZE = Number(process.env.REMINDER_BATCH_SIZE || 25);
+const INTERVAL_MS = Number(process.env.REMINDER_INTERVAL_MS || 60000);
+
+/** Template used when a reminder does not name one */
+export const DEFAULT_TEMPLATES: Record<Channel, string> = {
+  email: 'payment_reminder_email',
+  sms: 'payment_reminder_sms'
+};
+
+interface DueReminder {
+  id: number;
+  customer_id: number;
+  invoice_id: number;
+  channel: Channel;
+  template_id: number | null;
+  attempts: number;
+}
+
+interface Template {
+  id: number;
+  name: string;
+  subject: string | null;
+  body: string;
+}
+
+export interface DispatchSummary {
+  processed: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+const PLACEHOLDER = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+/**
+ * Replace `{{name}}` placeholders. Unknown names are reported rather than silently blanked,
+ * so a typo in a template fails the reminder instead of sending a half-empty message.
+ */
+export function renderTemplate(text: string, values: Record<string, string>): { text: string; missing: string[] } {
+  const missing = new Set<string>();
+  const rendered = text.replace(PLACEHOLDER, (match, name: string) => {
+    if (name in values) return values[name];
+    missing.add(name);
+    return match;
+  });
+  return { text: rendered, missing: [...missing] };
+}
+
+const money = (value: number) => Number(value || 0).toFixed(2);
+
+// SQLite CURRENT_TIMESTAMP is UTC without a zone marker
+const sqliteTime = (date: Date) => date.toISOString().replace('T', ' ').slice(0, 19);
+
+/** Placeholder values for a reminder; throws PermanentDeliveryError when the records are gone */
+export function placeholderValues(customerId: number, invoiceId: number): Record<string, string> {
+  const customer = db.get<Record<string, any>>('SELECT * FROM customers WHERE id = ?', [customerId]);
+  if (!customer) throw new PermanentDeliveryError(`Customer ${customerId} not found`);
+  const invoice = db.get<Record<string, any>>('SELECT * FROM invoices WHERE id = ?', [invoiceId]);
+  if (!invoice) throw new PermanentDeliveryError(`Invoice ${invoiceId} not found`);
+  const balance = db.get<{ balance: number }>(
+    'SELECT COALESCE(SUM(amount), 0) AS balance FROM customer_ledger WHERE customer_id = ?',
+    [customerId]
+  );
+
+  return {
+    customer_name: customer.customer_name ?? '',
+    customer_phone: customer.phone ?? '',
+    customer_email: customer.email ?? '',
+    invoice_id: String(invoice.id),
+    invoice_no: invoice.receipt_no ?? String(invoice.id),
+    invoice_date: String(invoice.created_at ?? '').slice(0, 10),
+    invoice_total: money(invoice.grand_total),
+    balance_due: money(balance?.balance ?? 0)
+  };
+}
+
+/** Delay before the next attempt: base * 2^(attempt - 1), capped */
+export function backoffDelay(attempts: number): number {
+  return Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+function findTemplate(reminder: DueReminder): Template {
+  const template = reminder.template_id
+    ? db.get<Template>('SELECT * FROM message_templates WHERE id = ? AND channel = ?', [reminder.template_id, reminder.channel])
+    : db.get<Template>('SELECT * FROM message_templates WHERE name = ?', [DEFAULT_TEMPLATES[reminder.channel]]);
+  if (!template) {
+    throw new PermanentDeliveryError(
+      reminder.template_id
+        ? `Template ${reminder.template_id} not found for ${reminder.channel}`
+        : `Default ${reminder.channel} template "${DEFAULT_TEMPLATES[reminder.channel]}" not found`
+    );
+  }
+  return template;
+}
+
+async function deliver(reminder: DueReminder, transports: Record<Channel, ReminderTransport>): Promise<string> {
+  const values = placeholderValues(reminder.customer_id, reminder.invoice_id);
+  const to = reminder.channel === 'email' ? values.customer_email : values.customer_phone;
+  if (!to) throw new PermanentDeliveryError(`Customer has no ${reminder.channel === 'email' ? 'email address' : 'phone number'}`);
+
+  const template = findTemplate(reminder);
+  const subject = renderTemplate(template.subject ?? '', values);
+  const body = renderTemplate(template.body, values);
+  const missing = [...new Set([...subject.missing, ...body.missing])];
+  if (missing.length > 0) {
+    throw new PermanentDeliveryError(`Template "${template.name}" uses unknown placeholders: ${missing.join(', ')}`);
+  }
+
+  await transports[reminder.channel].send({
+    channel: reminder.channel,
+    to,
+    subject: reminder.channel === 'email' ? subject.text : undefined,
+    body: body.text,
+    reference: String(reminder.id)
+  });
+  return to;
+}
+
+let transports: Record<Channel, ReminderTransport> | null = null;
+let running = false;
+let lastRun: (DispatchSummary & { at: string; error?: string }) | null = null;
+
+/** Transports built from the environment on first use; throws when the configuration is incomplete */
+export function reminderTransports(): Record<Channel, ReminderTransport> {
+  return (transports ??= createTransports());
+}
+
+export function lastDispatch() {
+  return lastRun;
+}
+
+/**
+ * Send every queued reminder that is due. Transient failures are rescheduled with exponential
+ * backoff until REMINDER_MAX_ATTEMPTS; permanent ones are marked failed at once.
+ * Overlapping calls return an empty summary instead of sending twice.
+ */
+export async function dispatchDueReminders(
+  options: { now?: Date; transports?: Record<Channel, ReminderTransport> } = {}
+): Promise<DispatchSummary> {
+  const summary: DispatchSummary = { processed: 0, sent: 0, retrying: 0, failed: 0 };
+  if (running) return summary;
+  running = true;
+
+  try {
+    const now = options.now ?? new Date();
+    const channels = options.transports ?? reminderTransports();
+    await acquire(undefined);
+    const due = db.query<DueReminder>(
+      `SELECT id, customer_id, invoice_id, channel, template_id, attempts
+         FROM reminder_queue
+        WHERE status = 'queued' AND (scheduled_at IS NULL OR datetime(scheduled_at) <= datetime(?))
+        ORDER BY datetime(scheduled_at), id
+        LIMIT ?`,
+      [sqliteTime(now), BATCH_SIZE]
+    );
+
+    for (const reminder of due) {
+      summary.processed++;
+      const attempts = reminder.attempts + 1;
+      let outcome: Record<string, unknown>;
+      await acquire(undefined);
+      try {
+        const recipient = await deliver(reminder, channels);
+        outcome = { status: 'sent', attempts, recipient, sent_at: sqliteTime(new Date()), last_error: null };
+        summary.sent++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (error instanceof PermanentDeliveryError || attempts >= MAX_ATTEMPTS) {
+          outcome = { status: 'failed', attempts, last_error: message };
+          summary.failed++;
+        } else {
+          outcome = {
+            attempts,
+            last_error: message,
+            scheduled_at: sqliteTime(new Date(now.getTime() + backoffDelay(attempts)))
+          };
+          summary.retrying++;
+        }
+      }
+      // Sending takes a while; a terminal may have begun a transaction meanwhile
+      await acquire(undefined);
+      updateRow(reminderQueue, reminder.id, outcome);
+    }
+    lastRun = { ...summary, at: new Date().toISOString() };
+  } catch (error) {
+    lastRun = { ...summary, at: new Date().toISOString(), error: error instanceof Error ? error.message : String(error) };
+    throw error;
+  } finally {
+    running = false;
+  }
+
+  return summary;
+}
+
+/** Run the dispatcher every REMINDER_INTERVAL_MS; returns a function that stops it */
+export function startReminderDispatcher(): () => void {
+  const tick = () => {
+    dispatchDueReminders()
+      .then(summary => {
+        if (summary.processed > 0) {
+          console.log(`Reminders: ${summary.sent} sent, ${summary.retrying} retrying, ${summary.failed} failed`);
+        }
+      })
+      .catch(error => console.error('Reminder dispatch failed:', error));
+  };
+  const timer = setInterval(tick, INTERVAL_MS);
+  timer.unref();
+  tick();
+  return () => clearInterval(timer);
+}
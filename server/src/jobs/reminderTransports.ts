@@ -0,0 +1,299 @@
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import tls from 'tls';
+
+export type Channel = 'email' | 'sms';
+
+export interface OutgoingMessage {
+  channel: Channel;
+  to: string;
+  subject?: string;
+  body: string;
+  /** reminder_queue id, passed on so gateways can de-duplicate */
+  reference: string;
+}
+
+export interface ReminderTransport {
+  readonly name: string;
+  send(message: OutgoingMessage): Promise<void>;
+}
+
+/**
+ * A failure that retrying will not fix (bad address, rejected credentials). The dispatcher
+ * marks the reminder failed straight away instead of backing off.
+ */
+export class PermanentDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentDeliveryError';
+  }
+}
+
+const SOCKET_TIMEOUT_MS = Number(process.env.REMINDER_SEND_TIMEOUT_MS || 20000);
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /**
+   * Implicit TLS (port 465); otherwise STARTTLS is used when the server offers it. Credentials
+   * are only ever sent over TLS, so with `user` set a server without STARTTLS is refused.
+   */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+// An address with a line break would end the RCPT command or the To: header and start another
+const LINE_BREAK = /[\r\n]/;
+
+/**
+ * Minimal SMTP client: EHLO, optional STARTTLS and AUTH PLAIN, one message per connection.
+ * Reminders are low volume, so connection reuse is not worth the complexity.
+ */
+export class SmtpTransport implements ReminderTransport {
+  readonly name = 'smtp';
+
+  constructor(private config: SmtpConfig) {}
+
+  async send(message: OutgoingMessage): Promise<void> {
+    if (LINE_BREAK.test(message.to)) {
+      throw new PermanentDeliveryError('Recipient address contains a line break');
+    }
+
+    let socket: net.Socket = this.config.secure
+      ? tls.connect({ host: this.config.host, port: this.config.port, servername: this.config.host })
+      : net.connect({ host: this.config.host, port: this.config.port });
+    let reader = this.replyReader(socket);
+
+    try {
+      await this.waitConnected(socket);
+      await this.expect(reader, 220);
+
+      const features = await this.command(socket, reader, `EHLO ${os.hostname()}`, 250);
+      const startTls = !this.config.secure && /STARTTLS/i.test(features.text);
+      if (this.config.user && !this.config.secure && !startTls) {
+        throw new PermanentDeliveryError('SMTP server does not offer STARTTLS; credentials are not sent unencrypted');
+      }
+      if (startTls) {
+        await this.command(socket, reader, 'STARTTLS', 220);
+        // From here on the TLS socket reads the raw one; the plain-text reader must let go
+        socket.removeAllListeners('data');
+        socket = tls.connect({ socket, servername: this.config.host });
+        reader = this.replyReader(socket);
+        await this.waitConnected(socket, 'secureConnect');
+        await this.command(socket, reader, `EHLO ${os.hostname()}`, 250);
+      }
+
+      if (this.config.user) {
+        const token = Buffer.from(`\0${this.config.user}\0${this.config.pass ?? ''}`).toString('base64');
+        await this.command(socket, reader, `AUTH PLAIN ${token}`, 235);
+      }
+
+      await this.command(socket, reader, `MAIL FROM:<${this.config.from}>`, 250);
+      await this.command(socket, reader, `RCPT TO:<${message.to}>`, [250, 251]);
+      await this.command(socket, reader, 'DATA', 354);
+      await this.command(socket, reader, `${this.formatMessage(message)}\r\n.`, 250);
+      await this.command(socket, reader, 'QUIT', 221).catch(() => undefined);
+    } finally {
+      socket.destroy();
+    }
+  }
+
+  private formatMessage(message: OutgoingMessage): string {
+    const headers = [
+      `From: ${this.config.from}`,
+      `To: ${message.to}`,
+      `Subject: ${this.encodeHeader(message.subject ?? '')}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <reminder-${message.reference}-${Date.now()}@${os.hostname()}>`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit'
+    ];
+    // Dot-stuffing: a line starting with "." would otherwise end the DATA section
+    const body = message.body.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+    return `${headers.join('\r\n')}\r\n\r\n${body}`;
+  }
+
+  private encodeHeader(value: string): string {
+    return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+  }
+
+  private waitConnected(socket: net.Socket, event: 'connect' | 'secureConnect' = 'connect'): Promise<void> {
+    const ready = this.config.secure && event === 'connect' ? 'secureConnect' : event;
+    return new Promise((resolve, reject) => {
+      socket.setTimeout(SOCKET_TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+      socket.once(ready, () => resolve());
+      socket.once('error', reject);
+    });
+  }
+
+  // Collects CRLF-terminated lines and yields complete (possibly multi-line) replies
+  private replyReader(socket: net.Socket): () => Promise<SmtpReply> {
+    let buffer = '';
+    let lines: string[] = [];
+    const replies: SmtpReply[] = [];
+    const waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = [];
+    let failure: Error | null = null;
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        lines.push(line);
+        // "250-..." continues a reply, "250 ..." ends it
+        if (/^\d{3}(?: |$)/.test(line)) {
+          const reply = { code: Number(line.slice(0, 3)), text: lines.map(l => l.slice(4)).join('\n') };
+          lines = [];
+          const next = waiting.shift();
+          if (next) next.resolve(reply);
+          else replies.push(reply);
+        }
+      }
+    });
+    const fail = (error: Error) => {
+      failure = error;
+      waiting.splice(0).forEach(w => w.reject(error));
+    };
+    socket.on('error', fail);
+    socket.on('close', () => fail(new Error('SMTP connection closed')));
+
+    return () => {
+      const reply = replies.shift();
+      if (reply) return Promise.resolve(reply);
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+    };
+  }
+
+  private async expect(reader: () => Promise<SmtpReply>, expected: number | number[]): Promise<SmtpReply> {
+    const reply = await reader();
+    const codes = Array.isArray(expected) ? expected : [expected];
+    if (!codes.includes(reply.code)) {
+      const text = `SMTP ${reply.code}: ${reply.text}`;
+      // 5xx replies are permanent per RFC 5321
+      throw reply.code >= 500 ? new PermanentDeliveryError(text) : new Error(text);
+    }
+    return reply;
+  }
+
+  private command(
+    socket: net.Socket,
+    reader: () => Promise<SmtpReply>,
+    line: string,
+    expected: number | number[]
+  ): Promise<SmtpReply> {
+    socket.write(`${line}\r\n`);
+    return this.expect(reader, expected);
+  }
+}
+
+export interface HttpSmsConfig {
+  url: string;
+  token?: string;
+  sender?: string;
+}
+
+/**
+ * Generic HTTP SMS gateway: POSTs `{ to, from, message, reference }` as JSON with an optional
+ * bearer token. Any 2xx is success; 4xx other than 408/429 is treated as permanent.
+ */
+export class HttpSmsTransport implements ReminderTransport {
+  readonly name = 'http-sms';
+
+  constructor(private config: HttpSmsConfig) {}
+
+  async send(message: OutgoingMessage): Promise<void> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), SOCKET_TIMEOUT_MS);
+
+    let response: Response;
+    try {
+      response = await fetch(this.config.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.config.token ? { Authorization: `Bearer ${this.config.token}` } : {})
+        },
+        body: JSON.stringify({
+          to: message.to,
+          from: this.config.sender,
+          message: message.body,
+          reference: message.reference
+        }),
+        signal: controller.signal
+      });
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (response.ok) return;
+    const detail = (await response.text().catch(() => '')).slice(0, 200);
+    const text = `SMS gateway responded ${response.status}${detail ? `: ${detail}` : ''}`;
+    const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+    throw retryable ? new Error(text) : new PermanentDeliveryError(text);
+  }
+}
+
+/**
+ * Appends each message as a JSON line to `<dir>/<channel>.jsonl` instead of sending it.
+ * Used for testing templates and the queue without a mail server or SMS gateway.
+ */
+export class FileSinkTransport implements ReminderTransport {
+  readonly name = 'file';
+
+  constructor(private dir: string) {}
+
+  async send(message: OutgoingMessage): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const entry = { ...message, at: new Date().toISOString() };
+    await fs.promises.appendFile(path.join(this.dir, `${message.channel}.jsonl`), `${JSON.stringify(entry)}\n`);
+  }
+}
+
+/**
+ * Build the transport for each channel from the environment:
+ *   REMINDER_EMAIL_TRANSPORT=smtp|file  (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS, SMTP_FROM)
+ *   REMINDER_SMS_TRANSPORT=http|file    (SMS_GATEWAY_URL, SMS_GATEWAY_TOKEN, SMS_SENDER_ID)
+ * Both default to the file sink under data/outbox so nothing leaves the shop until configured.
+ */
+export function createTransports(env: NodeJS.ProcessEnv = process.env): Record<Channel, ReminderTransport> {
+  const outbox = env.REMINDER_OUTBOX_DIR || path.join(process.cwd(), 'data', 'outbox');
+
+  const email: ReminderTransport = env.REMINDER_EMAIL_TRANSPORT === 'smtp'
+    ? new SmtpTransport({
+      host: required(env, 'SMTP_HOST'),
+      port: Number(env.SMTP_PORT || (env.SMTP_SECURE === 'true' ? 465 : 587)),
+      secure: env.SMTP_SECURE === 'true',
+      user: env.SMTP_USER || undefined,
+      pass: env.SMTP_PASS || undefined,
+      from: required(env, 'SMTP_FROM')
+    })
+    : new FileSinkTransport(outbox);
+
+  const sms: ReminderTransport = env.REMINDER_SMS_TRANSPORT === 'http'
+    ? new HttpSmsTransport({
+      url: required(env, 'SMS_GATEWAY_URL'),
+      token: env.SMS_GATEWAY_TOKEN || undefined,
+      sender: env.SMS_SENDER_ID || undefined
+    })
+    : new FileSinkTransport(outbox);
+
+  return { email, sms };
+}
+
+function required(env: NodeJS.ProcessEnv, name: string): string {
+  const value = env[name];
+  if (!value) throw new Error(`${name} must be set for the configured reminder transport`);
+  return value;
+}
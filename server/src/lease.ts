@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+import { db } from './db';
+import { HttpError } from './routes/errors';
+
+/**
+ * The transaction lease over the server's one database connection. A terminal's multi-statement
+ * work over the SQL bridge (routes/sql.ts) runs in a BEGIN IMMEDIATE that its session holds the
+ * lease for. Everything else that touches the database, REST routes, sign-in and the server's own
+ * jobs alike, awaits acquire() first, so none of it lands inside that transaction or is rolled
+ * back with it. Only the session that began a transaction may use or end it.
+ */
+
+const LEASE_TIMEOUT_MS = Number(process.env.SQL_TX_TIMEOUT_MS || 15000);
+const LEASE_WAIT_MS = Number(process.env.SQL_TX_WAIT_MS || 5000);
+
+interface Lease {
+  id: string;
+  owner: number; // user id of the session that began it
+  timer: NodeJS.Timeout;
+}
+
+let lease: Lease | null = null;
+let waiters: Array<() => void> = [];
+
+function releaseLease() {
+  if (!lease) return;
+  clearTimeout(lease.timer);
+  lease = null;
+  const pending = waiters;
+  waiters = [];
+  pending.forEach(wake => wake());
+}
+
+function ownLease(txId: string, owner: number | undefined): Lease {
+  if (!lease || lease.id !== txId || lease.owner !== owner) {
+    throw new HttpError(409, 'TX_NOT_FOUND', 'Transaction expired or does not exist');
+  }
+  return lease;
+}
+
+/**
+ * Resolve once the caller may touch the database: no lease, or `owner`'s own transaction `txId`.
+ * Writes that follow another await must acquire again first.
+ */
+export async function acquire(txId: string | undefined, owner?: number) {
+  if (txId) ownLease(txId, owner);
+  const deadline = Date.now() + LEASE_WAIT_MS;
+  while (lease && lease.id !== txId) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) throw new HttpError(503, 'DB_BUSY', 'Database is busy with another transaction');
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, remaining);
+      waiters.push(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+  }
+}
+
+/** Open a transaction for `owner` and hold the lease until it ends or times out */
+export async function beginTransaction(owner: number): Promise<{ txId: string; timeoutMs: number }> {
+  await acquire(undefined);
+  db.run('BEGIN IMMEDIATE');
+  const id = crypto.randomUUID();
+  const timer = setTimeout(() => {
+    console.warn(`SQL transaction ${id} timed out; rolling back`);
+    db.run('ROLLBACK');
+    releaseLease();
+  }, LEASE_TIMEOUT_MS);
+  lease = { id, owner, timer };
+  return { txId: id, timeoutMs: LEASE_TIMEOUT_MS };
+}
+
+/** Commit or roll back `owner`'s transaction `txId` and release the lease */
+export function endTransaction(txId: string, owner: number, action: 'commit' | 'rollback') {
+  ownLease(txId, owner);
+  try {
+    db.run(action === 'commit' ? 'COMMIT' : 'ROLLBACK');
+  } catch (err) {
+    // A failed COMMIT leaves the transaction open; never hand it to the next caller
+    try {
+      db.run('ROLLBACK');
+    } catch {
+      // already rolled back
+    }
+    throw err;
+  } finally {
+    releaseLease();
+  }
+}
@@ -0,0 +1,761 @@
+import type Database from 'better-sqlite3';
+import { AuditEntry, GENESIS_HASH, auditHash } from './audit';
+
+/**
+ * Versioned schema changes applied on top of the base schema in db.ts.
+ * The applied version is tracked in `PRAGMA user_version`; append new steps, never reorder.
+ */
+type Migration = (sqlite: Database.Database) => void;
+
+function columnNames(sqlite: Database.Database, table: string): string[] {
+  return (sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(c => c.name);
+}
+
+// Add nullable columns that are missing; existing data is left untouched
+export function ensureColumns(sqlite: Database.Database, table: string, columns: Record<string, string>) {
+  const existing = new Set(columnNames(sqlite, table));
+  for (const [name, definition] of Object.entries(columns)) {
+    if (!existing.has(name)) sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition}`);
+  }
+}
+
+/**
+ * Recreate a table with a new definition, copying the columns both versions share.
+ * Needed when a constraint (NOT NULL, FOREIGN KEY) has to change, which SQLite cannot ALTER.
+ * Must run with foreign keys disabled.
+ */
+export function rebuildTable(sqlite: Database.Database, table: string, createSql: string) {
+  const tmp = `${table}__rebuild`;
+  const before = columnNames(sqlite, table);
+  sqlite.exec(createSql.replace(`CREATE TABLE ${table}`, `CREATE TABLE ${tmp}`));
+  const shared = columnNames(sqlite, tmp).filter(c => before.includes(c)).join(', ');
+  sqlite.exec(`INSERT INTO ${tmp} (${shared}) SELECT ${shared} FROM ${table}`);
+  sqlite.exec(`DROP TABLE ${table}`);
+  sqlite.exec(`ALTER TABLE ${tmp} RENAME TO ${table}`);
+}
+
+const CASHIER_GRANTS = [
+  'VIEW_SALES', 'TAKE_PAYMENT', 'RETURNS_CREATE', 'VOID_UNFINALIZED', 'SHIFTS_VIEW', 'SHIFT_START', 'SHIFT_X_REPORT',
+  'HOLD_CREATE', 'HOLD_RESUME', 'REPORTS_VIEW_BASIC'
+];
+const MANAGER_GRANTS = [
+  ...CASHIER_GRANTS, 'PRICE_OVERRIDE', 'DISCOUNT_OVERRIDE', 'CREDIT_LIMIT_OVERRIDE', 'RETURNS_APPROVE', 'VOID_FINALIZED',
+  'SHIFT_Z_CLOSE', 'STOCKTAKE_CREATE', 'STOCKTAKE_FINALIZE', 'GRN_CREATE', 'GRN_POST', 'HOLD_DELETE', 'SETTINGS_VIEW',
+  'SETTINGS_WRITE', 'BACKUP_CREATE', 'REPORTS_VIEW_ALL', 'EXPORT_CSV', 'AUDIT_VIEW', 'HEALTH_VIEW'
+];
+
+// Grants of the built-in roles when roles became editable (DEFAULT_PERMISSIONS in the web app)
+const BUILTIN_ROLE_GRANTS: Record<string, string[]> = {
+  CASHIER: CASHIER_GRANTS,
+  MANAGER: MANAGER_GRANTS,
+  ADMIN: [...MANAGER_GRANTS, 'BACKUP_RESTORE', 'AUDIT_EXPORT', 'USER_MANAGEMENT', 'HEALTH_EXPORT'],
+  AUDITOR: ['VIEW_SALES', 'REPORTS_VIEW_BASIC', 'REPORTS_VIEW_ALL', 'EXPORT_CSV', 'AUDIT_VIEW', 'AUDIT_EXPORT']
+};
+
+const migrations: Migration[] = [
+  // 1: tables and columns used by the web terminals' DatabaseService in LAN-server mode
+  sqlite => {
+    ensureColumns(sqlite, 'products', {
+      name_si: 'TEXT',
+      name_ta: 'TEXT',
+      is_scale_item: 'INTEGER NOT NULL DEFAULT 0',
+      tax_code: 'TEXT',
+      cost: 'REAL',
+      reorder_level: 'REAL',
+      preferred_supplier_id: 'INTEGER',
+      updated_at: 'TEXT'
+    });
+    ensureColumns(sqlite, 'suppliers', { updated_at: 'TEXT' });
+    ensureColumns(sqlite, 'users', { created_at: 'TEXT', updated_at: 'TEXT' });
+    ensureColumns(sqlite, 'terminals', { active: 'INTEGER NOT NULL DEFAULT 1' });
+
+    // Server and terminal shapes differ; the merged tables keep every column and relax NOT NULLs
+    rebuildTable(sqlite, 'shifts', `
+      CREATE TABLE shifts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        operator_id INTEGER,
+        cashier_id INTEGER,
+        terminal_name TEXT,
+        opened_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        closed_at TEXT,
+        starting_cash REAL NOT NULL DEFAULT 0,
+        ending_cash REAL,
+        opening_cash REAL NOT NULL DEFAULT 0,
+        declared_cash REAL,
+        variance_cash REAL,
+        note TEXT,
+        status TEXT NOT NULL DEFAULT 'OPEN'
+      )`);
+    rebuildTable(sqlite, 'returns', `
+      CREATE TABLE returns (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        receipt_no_return TEXT UNIQUE,
+        original_invoice_id INTEGER REFERENCES invoices(id),
+        sale_id INTEGER,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        datetime TEXT DEFAULT CURRENT_TIMESTAMP,
+        total_refund REAL NOT NULL DEFAULT 0,
+        reason TEXT,
+        operator_id INTEGER,
+        cashier_id INTEGER,
+        manager_id INTEGER,
+        refund_cash REAL NOT NULL DEFAULT 0,
+        refund_card REAL NOT NULL DEFAULT 0,
+        refund_wallet REAL NOT NULL DEFAULT 0,
+        refund_store_credit REAL NOT NULL DEFAULT 0,
+        reason_summary TEXT,
+        language TEXT DEFAULT 'EN',
+        terminal_name TEXT
+      )`);
+    // grn_id may point at either grn_receipts (PO receiving) or grn (terminal GRNs)
+    rebuildTable(sqlite, 'grn_lines', `
+      CREATE TABLE grn_lines (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        grn_id INTEGER NOT NULL,
+        product_id INTEGER NOT NULL REFERENCES products(id),
+        uom TEXT NOT NULL DEFAULT 'pc',
+        qty_received REAL,
+        qty REAL,
+        unit_cost REAL NOT NULL,
+        mrp REAL,
+        batch_no TEXT,
+        expiry_date TEXT,
+        line_total REAL,
+        batch_id INTEGER
+      )`);
+
+    sqlite.exec(`
+      CREATE TABLE IF NOT EXISTS customers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        customer_name TEXT NOT NULL,
+        phone TEXT,
+        customer_type TEXT NOT NULL DEFAULT 'Retail',
+        note TEXT,
+        active INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS sessions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        cashier_id INTEGER NOT NULL,
+        terminal TEXT NOT NULL,
+        started_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        ended_at TEXT,
+        opening_float REAL NOT NULL DEFAULT 0,
+        closing_cash REAL,
+        notes TEXT,
+        status TEXT NOT NULL DEFAULT 'OPEN',
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS cash_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id INTEGER NOT NULL REFERENCES sessions(id),
+        type TEXT NOT NULL,
+        amount REAL NOT NULL,
+        reason TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        created_by INTEGER
+      );
+
+      CREATE TABLE IF NOT EXISTS discounts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        value REAL NOT NULL,
+        active INTEGER NOT NULL DEFAULT 1
+      );
+
+      CREATE TABLE IF NOT EXISTS sales (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        datetime TEXT DEFAULT CURRENT_TIMESTAMP,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT,
+        type TEXT NOT NULL DEFAULT 'SALE',
+        status TEXT,
+        invoice_number TEXT,
+        hold_name TEXT,
+        hold_note TEXT,
+        expires_at TEXT,
+        cashier_id INTEGER,
+        customer_id INTEGER,
+        shift_id INTEGER,
+        price_tier TEXT NOT NULL DEFAULT 'Retail',
+        gross REAL NOT NULL DEFAULT 0,
+        discount REAL NOT NULL DEFAULT 0,
+        tax REAL NOT NULL DEFAULT 0,
+        net REAL NOT NULL DEFAULT 0,
+        total_amount REAL,
+        tax_amount REAL,
+        discount_amount REAL,
+        pay_cash REAL NOT NULL DEFAULT 0,
+        pay_card REAL NOT NULL DEFAULT 0,
+        pay_wallet REAL NOT NULL DEFAULT 0,
+        language TEXT NOT NULL DEFAULT 'EN',
+        terminal_name TEXT,
+        original_sale_id INTEGER,
+        voided_at TEXT,
+        voided_by INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS idx_sales_datetime ON sales(datetime);
+      CREATE INDEX IF NOT EXISTS idx_sales_shift ON sales(shift_id);
+
+      CREATE TABLE IF NOT EXISTS sale_lines (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        sale_id INTEGER NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+        product_id INTEGER NOT NULL,
+        qty REAL NOT NULL,
+        unit_price REAL NOT NULL,
+        line_discount REAL NOT NULL DEFAULT 0,
+        tax REAL NOT NULL DEFAULT 0,
+        total REAL NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_sale_lines_sale ON sale_lines(sale_id);
+
+      CREATE TABLE IF NOT EXISTS sale_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        sale_id INTEGER NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+        product_id INTEGER NOT NULL,
+        quantity REAL NOT NULL,
+        unit_price REAL NOT NULL,
+        discount_amount REAL NOT NULL DEFAULT 0,
+        tax_amount REAL NOT NULL DEFAULT 0,
+        total_amount REAL NOT NULL,
+        original_line_id INTEGER,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_sale_items_sale ON sale_items(sale_id);
+
+      CREATE TABLE IF NOT EXISTS return_lines (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        return_id INTEGER NOT NULL REFERENCES returns(id) ON DELETE CASCADE,
+        sale_line_id INTEGER,
+        product_id INTEGER NOT NULL,
+        qty REAL NOT NULL,
+        unit_price REAL NOT NULL,
+        line_refund REAL NOT NULL,
+        reason_code TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS grn (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        supplier_id INTEGER NOT NULL,
+        grn_no TEXT UNIQUE,
+        datetime TEXT DEFAULT CURRENT_TIMESTAMP,
+        received_by INTEGER,
+        note TEXT,
+        status TEXT NOT NULL DEFAULT 'OPEN',
+        subtotal REAL NOT NULL DEFAULT 0,
+        tax REAL NOT NULL DEFAULT 0,
+        other REAL NOT NULL DEFAULT 0,
+        total REAL NOT NULL DEFAULT 0
+      );
+
+      CREATE TABLE IF NOT EXISTS inventory_movements (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        product_id INTEGER NOT NULL,
+        qty REAL NOT NULL,
+        type TEXT NOT NULL,
+        reason TEXT,
+        note TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_inventory_movements_product ON inventory_movements(product_id);
+
+      CREATE TABLE IF NOT EXISTS shift_movements (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        shift_id INTEGER NOT NULL REFERENCES shifts(id) ON DELETE CASCADE,
+        datetime TEXT DEFAULT CURRENT_TIMESTAMP,
+        type TEXT NOT NULL,
+        amount REAL NOT NULL,
+        reason TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS company_profile (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        address TEXT,
+        taxId TEXT,
+        contactEmail TEXT,
+        contactPhone TEXT,
+        logoUrl TEXT,
+        updatedAt TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS license_info (
+        id INTEGER PRIMARY KEY,
+        productName TEXT NOT NULL,
+        licensee TEXT,
+        fullName TEXT,
+        locked INTEGER NOT NULL DEFAULT 1,
+        issuedAt TEXT
+      );
+    `);
+  },
+
+  // 2: idempotency receipts for sales replayed from terminals' offline queues
+  sqlite => {
+    sqlite.exec(`
+      CREATE TABLE IF NOT EXISTS sale_sync_receipts (
+        idempotency_key TEXT PRIMARY KEY,
+        sale_id INTEGER NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+        terminal_name TEXT,
+        received_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+  },
+
+  // 3: tax codes (VAT, SSCL, zero-rated, exempt) and the code each sale line was taxed under
+  sqlite => {
+    sqlite.exec(`
+      CREATE TABLE IF NOT EXISTS tax_codes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        code TEXT UNIQUE NOT NULL,
+        name TEXT NOT NULL,
+        rate REAL NOT NULL DEFAULT 0 CHECK (rate >= 0 AND rate < 1),
+        kind TEXT NOT NULL DEFAULT 'STANDARD' CHECK (kind IN ('STANDARD','ZERO_RATED','EXEMPT')),
+        inclusive INTEGER NOT NULL DEFAULT 0,
+        active INTEGER NOT NULL DEFAULT 1
+      );
+      INSERT OR IGNORE INTO tax_codes (code, name, rate, kind, inclusive) VALUES
+        ('VAT', 'VAT', 0.15, 'STANDARD', 0),
+        ('SSCL', 'SSCL', 0.025, 'STANDARD', 0),
+        ('ZERO', 'Zero-rated', 0, 'ZERO_RATED', 0),
+        ('EXEMPT', 'Exempt', 0, 'EXEMPT', 0);
+    `);
+    ensureColumns(sqlite, 'sale_lines', { tax_code: 'TEXT' });
+    sqlite.exec('CREATE INDEX IF NOT EXISTS idx_sale_lines_tax_code ON sale_lines(tax_code)');
+  },
+
+  // 4: the promotion that discounted each sale line, for the discount audit report
+  sqlite => {
+    ensureColumns(sqlite, 'sale_lines', { applied_promotion_id: 'INTEGER REFERENCES promotions(id)' });
+    sqlite.exec('CREATE INDEX IF NOT EXISTS idx_sale_lines_promotion ON sale_lines(applied_promotion_id)');
+  },
+
+  // 5: customer credit accounts; ledger amounts are positive for charges, negative for payments
+  sqlite => {
+    ensureColumns(sqlite, 'customers', { credit_limit: 'REAL NOT NULL DEFAULT 0' });
+    ensureColumns(sqlite, 'customer_ledger', {
+      type: "TEXT NOT NULL DEFAULT 'CHARGE'",
+      method: 'TEXT',
+      reference: 'TEXT',
+      note: 'TEXT',
+      approved_by: 'INTEGER',
+      created_by: 'INTEGER'
+    });
+    sqlite.exec(`
+      UPDATE customer_ledger SET type = 'PAYMENT' WHERE amount < 0;
+      CREATE INDEX IF NOT EXISTS idx_customer_ledger_customer ON customer_ledger(customer_id, at);
+
+      -- A manager's approval to charge beyond the limit allows one charge
+      CREATE TABLE IF NOT EXISTS used_approvals (
+        id TEXT PRIMARY KEY,
+        customer_id INTEGER,
+        reference TEXT,
+        used_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Whichever route or /api/sql statement sets a limit, only CREDIT_LIMIT_OVERRIDE may
+      CREATE TRIGGER IF NOT EXISTS trg_customers_credit_limit_insert BEFORE INSERT ON customers
+      WHEN NEW.credit_limit != 0 AND session_may('CREDIT_LIMIT_OVERRIDE') = 0
+      BEGIN
+        SELECT RAISE(ABORT, 'PERMISSION_REQUIRED: CREDIT_LIMIT_OVERRIDE permission required to set a credit limit');
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS trg_customers_credit_limit_update BEFORE UPDATE OF credit_limit ON customers
+      WHEN NEW.credit_limit IS NOT OLD.credit_limit AND session_may('CREDIT_LIMIT_OVERRIDE') = 0
+      BEGIN
+        SELECT RAISE(ABORT, 'PERMISSION_REQUIRED: CREDIT_LIMIT_OVERRIDE permission required to set a credit limit');
+      END;
+    `);
+  },
+
+  // 6: payment reminders; a reminder may pin its template, otherwise the channel default is used
+  sqlite => {
+    ensureColumns(sqlite, 'customers', { email: 'TEXT' });
+    ensureColumns(sqlite, 'reminder_queue', {
+      template_id: 'INTEGER REFERENCES message_templates(id)',
+      recipient: 'TEXT'
+    });
+    sqlite.exec(`
+      CREATE INDEX IF NOT EXISTS idx_reminder_queue_due ON reminder_queue(status, scheduled_at);
+      INSERT OR IGNORE INTO message_templates (name, channel, subject, body) VALUES
+        ('payment_reminder_email', 'email', 'Payment reminder for invoice {{invoice_no}}',
+         'Dear {{customer_name}},
+
+This is a reminder that invoice {{invoice_no}} dated {{invoice_date}} for {{invoice_total}} is awaiting payment. Your account balance is {{balance_due}}.
+
+Thank you.'),
+        ('payment_reminder_sms', 'sms', NULL,
+         'Dear {{customer_name}}, invoice {{invoice_no}} ({{invoice_total}}) is due. Account balance: {{balance_due}}.');
+    `);
+  },
+
+  // 7: purchase order workflow; what a PO has received is summed from the POSTED grn rows linked to it
+  sqlite => {
+    ensureColumns(sqlite, 'purchase_orders', {
+      po_no: 'TEXT',
+      expected_date: 'TEXT',
+      note: 'TEXT',
+      tolerance_pct: 'REAL NOT NULL DEFAULT 0',
+      sent_at: 'TEXT',
+      closed_at: 'TEXT'
+    });
+    ensureColumns(sqlite, 'grn', { po_id: 'INTEGER REFERENCES purchase_orders(id)' });
+    sqlite.exec(`
+      UPDATE purchase_orders SET po_no = 'PO-' || printf('%06d', id) WHERE po_no IS NULL;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_purchase_orders_po_no ON purchase_orders(po_no);
+      CREATE INDEX IF NOT EXISTS idx_grn_po ON grn(po_id);
+    `);
+  },
+
+  // 8: replenishment inputs; NULL lead time falls back to the terminal's default, orders round up to pack_size
+  sqlite => {
+    ensureColumns(sqlite, 'suppliers', { lead_time_days: 'INTEGER' });
+    ensureColumns(sqlite, 'products', { pack_size: 'REAL' });
+  },
+
+  // 9: batch/expiry tracking; sales draw on batches first-expiry-first-out and remember the batches each line used
+  sqlite => {
+    ensureColumns(sqlite, 'batches', {
+      grn_id: 'INTEGER REFERENCES grn(id)',
+      received_at: 'TEXT',
+      markdown_rule_id: 'INTEGER REFERENCES discount_rules(id)'
+    });
+    sqlite.exec(`
+      CREATE TABLE IF NOT EXISTS sale_line_batches (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        sale_line_id INTEGER NOT NULL REFERENCES sale_lines(id) ON DELETE CASCADE,
+        batch_id INTEGER NOT NULL REFERENCES batches(id),
+        qty REAL NOT NULL,
+        qty_returned REAL NOT NULL DEFAULT 0
+      );
+      CREATE INDEX IF NOT EXISTS idx_sale_line_batches_line ON sale_line_batches(sale_line_id);
+      CREATE INDEX IF NOT EXISTS idx_batches_product_expiry ON batches(product_id, expiry);
+    `);
+  },
+
+  // 10: multi-store; a store's stock is the sum of its inventory_movements, transfers move stock between stores
+  sqlite => {
+    ensureColumns(sqlite, 'inventory_movements', { store_id: 'INTEGER REFERENCES stores(id)' });
+    ensureColumns(sqlite, 'grn', { store_id: 'INTEGER REFERENCES stores(id)' });
+    ensureColumns(sqlite, 'transfers', {
+      transfer_no: 'TEXT',
+      note: 'TEXT',
+      dispatched_at: 'TEXT',
+      received_at: 'TEXT'
+    });
+    ensureColumns(sqlite, 'transfer_lines', { qty_dispatched: 'REAL', qty_received: 'REAL' });
+    // Everything recorded before stores existed belongs to the one shop there was
+    sqlite.exec(`
+      INSERT INTO stores (name, code) SELECT 'Main Store', 'MAIN' WHERE NOT EXISTS (SELECT 1 FROM stores);
+      UPDATE inventory_movements SET store_id = (SELECT MIN(id) FROM stores) WHERE store_id IS NULL;
+      UPDATE grn SET store_id = (SELECT MIN(id) FROM stores) WHERE store_id IS NULL;
+      UPDATE transfers SET transfer_no = 'TR-' || printf('%06d', id) WHERE transfer_no IS NULL;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_transfers_transfer_no ON transfers(transfer_no);
+      CREATE INDEX IF NOT EXISTS idx_inventory_movements_store ON inventory_movements(store_id, product_id);
+      CREATE INDEX IF NOT EXISTS idx_terminals_name ON terminals(name);
+
+      -- Terminals not yet assigned to a store keep writing to the first store
+      CREATE TRIGGER IF NOT EXISTS trg_inventory_movements_store AFTER INSERT ON inventory_movements
+      WHEN NEW.store_id IS NULL
+      BEGIN
+        UPDATE inventory_movements SET store_id = (SELECT MIN(id) FROM stores) WHERE id = NEW.id;
+      END;
+      CREATE TRIGGER IF NOT EXISTS trg_grn_store AFTER INSERT ON grn
+      WHEN NEW.store_id IS NULL
+      BEGIN
+        UPDATE grn SET store_id = (SELECT MIN(id) FROM stores) WHERE id = NEW.id;
+      END;
+    `);
+  },
+
+  // 11: units of measure; stock stays in base units, lines sold or received in a pack record its conversion
+  sqlite => {
+    ensureColumns(sqlite, 'product_uom', { barcode: 'TEXT' });
+    ensureColumns(sqlite, 'grn_lines', { conv_to_base: 'REAL NOT NULL DEFAULT 1' });
+    ensureColumns(sqlite, 'sale_lines', { uom: 'TEXT', uom_qty: 'REAL' });
+    sqlite.exec(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_product_uom_barcode ON product_uom(barcode) WHERE barcode IS NOT NULL;
+      INSERT OR IGNORE INTO uoms (code, name) VALUES ('case', 'Case'), ('hdz', 'Half-dozen'), ('pack', 'Pack');
+    `);
+  },
+
+  // 12: supplier returns (debit notes); posting takes the goods out of stock, credits from the supplier settle the note
+  sqlite => {
+    ensureColumns(sqlite, 'supplier_returns', {
+      return_no: 'TEXT',
+      grn_id: 'INTEGER REFERENCES grn(id)',
+      store_id: 'INTEGER REFERENCES stores(id)',
+      status: "TEXT NOT NULL DEFAULT 'draft'",
+      note: 'TEXT',
+      total: 'REAL NOT NULL DEFAULT 0',
+      credit_received: 'REAL NOT NULL DEFAULT 0',
+      posted_at: 'TEXT',
+      credited_at: 'TEXT'
+    });
+    ensureColumns(sqlite, 'supplier_return_lines', { batch_id: 'INTEGER REFERENCES batches(id)' });
+    sqlite.exec(`
+      UPDATE supplier_returns SET return_no = 'RTV-' || printf('%06d', id) WHERE return_no IS NULL;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_supplier_returns_return_no ON supplier_returns(return_no);
+      CREATE INDEX IF NOT EXISTS idx_supplier_return_lines_return ON supplier_return_lines(supplier_return_id);
+
+      CREATE TABLE IF NOT EXISTS supplier_return_credits (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        supplier_return_id INTEGER NOT NULL REFERENCES supplier_returns(id),
+        amount REAL NOT NULL,
+        ref TEXT,
+        note TEXT,
+        received_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_supplier_return_credits_return ON supplier_return_credits(supplier_return_id);
+    `);
+  },
+
+  // 13: landed cost; a GRN's other charges are spread over its lines by value, weight or quantity when posted
+  sqlite => {
+    ensureColumns(sqlite, 'grn', { landed_cost_method: 'TEXT' });
+    ensureColumns(sqlite, 'grn_lines', { weight_kg: 'REAL', landed_cost: 'REAL NOT NULL DEFAULT 0' });
+    sqlite.exec('CREATE INDEX IF NOT EXISTS idx_cost_history_product ON cost_history(product_id, at)');
+  },
+
+  // 14: costing; receipts carry their cost per base unit, sale and return lines the cost they went out or came back at
+  sqlite => {
+    ensureColumns(sqlite, 'inventory_movements', { unit_cost: 'REAL' });
+    ensureColumns(sqlite, 'sale_lines', { unit_cost: 'REAL' });
+    ensureColumns(sqlite, 'return_lines', { unit_cost: 'REAL' });
+    // GRN receipts already posted were costed onto their batches
+    sqlite.exec(`
+      UPDATE inventory_movements
+         SET unit_cost = (
+           SELECT b.cost FROM batches b JOIN grn g ON g.id = b.grn_id
+            WHERE g.grn_no = inventory_movements.note AND b.product_id = inventory_movements.product_id
+            ORDER BY b.id LIMIT 1
+         )
+       WHERE type = 'RECEIVE' AND reason = 'GRN' AND unit_cost IS NULL;
+      CREATE INDEX IF NOT EXISTS idx_sale_lines_product ON sale_lines(product_id);
+    `);
+  },
+
+  // 15: nightly encrypted backups; one schedule row, set from the web Backups page
+  sqlite => {
+    sqlite.exec(`
+      CREATE TABLE IF NOT EXISTS backup_schedule (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        enabled INTEGER NOT NULL DEFAULT 0,
+        daily_time TEXT NOT NULL DEFAULT '02:00',
+        keep INTEGER NOT NULL DEFAULT 7,
+        last_run_at TEXT,
+        last_file TEXT,
+        last_error TEXT,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+      INSERT OR IGNORE INTO backup_schedule (id) VALUES (1);
+    `);
+  },
+
+  // 16: hashed PINs, kept in user_pins where the SQL bridge cannot reach them; a PIN written to
+  // users.pin is moved there by hash_pin() (registered in db.ts) and users only records that one is set
+  sqlite => {
+    ensureColumns(sqlite, 'users', { pin_set: 'INTEGER NOT NULL DEFAULT 0' });
+    sqlite.exec(`
+      CREATE TABLE IF NOT EXISTS user_pins (
+        user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+        pin_hash TEXT NOT NULL
+      );
+
+      CREATE TRIGGER IF NOT EXISTS trg_users_hash_pin_insert AFTER INSERT ON users
+      WHEN NEW.pin IS NOT NULL AND NEW.pin != ''
+      BEGIN
+        INSERT OR REPLACE INTO user_pins (user_id, pin_hash) VALUES (NEW.id, hash_pin(NEW.pin));
+        UPDATE users SET pin = NULL, pin_set = 1 WHERE id = NEW.id;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS trg_users_hash_pin_update AFTER UPDATE OF pin ON users
+      WHEN NEW.pin IS NOT NULL AND NEW.pin != ''
+      BEGIN
+        INSERT OR REPLACE INTO user_pins (user_id, pin_hash) VALUES (NEW.id, hash_pin(NEW.pin));
+        UPDATE users SET pin = NULL, pin_set = 1 WHERE id = NEW.id;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS trg_users_pin_delete AFTER DELETE ON users
+      BEGIN
+        DELETE FROM user_pins WHERE user_id = OLD.id;
+      END;
+
+      INSERT OR REPLACE INTO user_pins (user_id, pin_hash)
+        SELECT id, hash_pin(pin) FROM users WHERE pin IS NOT NULL AND pin != '';
+      UPDATE users SET pin = NULL, pin_set = 1 WHERE pin IS NOT NULL AND pin != '';
+
+      -- Failed PIN attempts per terminal address; a source is locked out once it reaches the limit
+      CREATE TABLE IF NOT EXISTS pin_lockouts (
+        source TEXT PRIMARY KEY,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        locked_until TEXT,
+        last_attempt_at TEXT
+      );
+    `);
+  },
+
+  // 17: editable roles; built-in roles start with the grants the terminals used to hardcode
+  sqlite => {
+    ensureColumns(sqlite, 'roles', { description: 'TEXT', builtin: 'INTEGER NOT NULL DEFAULT 0' });
+    ensureColumns(sqlite, 'role_permissions', { max_amount: 'REAL' });
+    const insertRole = sqlite.prepare('INSERT OR IGNORE INTO roles (name) VALUES (?)');
+    const grant = sqlite.prepare(
+      'INSERT OR IGNORE INTO role_permissions (role_id, permission) SELECT id, ? FROM roles WHERE name = ?'
+    );
+    for (const [role, permissions] of Object.entries(BUILTIN_ROLE_GRANTS)) {
+      insertRole.run(role);
+      permissions.forEach(permission => grant.run(permission, role));
+    }
+    sqlite.exec(`
+      UPDATE roles SET builtin = 1 WHERE name IN ('CASHIER', 'MANAGER', 'ADMIN', 'AUDITOR');
+      CREATE INDEX IF NOT EXISTS idx_user_roles_user ON user_roles(user_id);
+
+      -- Whichever route or /api/sql statement changes a user's role, the server records who did
+      CREATE TRIGGER IF NOT EXISTS trg_users_role_change AFTER UPDATE OF role ON users
+      WHEN NEW.role IS NOT OLD.role
+      BEGIN
+        INSERT INTO audit_logs (action, actor_id, meta) VALUES ('USER_ROLE_CHANGE', session_user_id(), json_object(
+          'user_id', NEW.id, 'user_name', NEW.name, 'from_role', OLD.role, 'to_role', NEW.role, 'by', session_user_name()
+        ));
+      END;
+    `);
+  },
+
+  // 18: percentage caps beside amount caps; cashiers discount and refund small amounts on their own
+  sqlite => {
+    ensureColumns(sqlite, 'role_permissions', { max_percent: 'REAL' });
+    const grant = sqlite.prepare(
+      `INSERT OR IGNORE INTO role_permissions (role_id, permission, max_amount, max_percent)
+        SELECT id, ?, ?, ? FROM roles WHERE name = 'CASHIER'`
+    );
+    grant.run('DISCOUNT_OVERRIDE', 500, 5);
+    grant.run('RETURNS_APPROVE', 2000, null);
+  },
+
+  // 19: hash-chained audit log (see audit.ts); rows can only be deleted once archived, and archive
+  // rows come only from the archiver and are as permanent as the entries they cover
+  sqlite => {
+    ensureColumns(sqlite, 'audit_logs', {
+      actor_name: 'TEXT',
+      terminal: 'TEXT',
+      entity: 'TEXT',
+      entity_id: 'TEXT',
+      prev_hash: 'TEXT',
+      hash: 'TEXT'
+    });
+    sqlite.exec(`
+      -- Signed files holding audit entries moved out of audit_logs when their retention expired
+      CREATE TABLE IF NOT EXISTS audit_archives (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file TEXT NOT NULL UNIQUE,
+        first_id INTEGER NOT NULL,
+        last_id INTEGER NOT NULL,
+        entries INTEGER NOT NULL,
+        first_prev_hash TEXT NOT NULL,
+        last_hash TEXT NOT NULL,
+        file_sha256 TEXT NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    // Chain the entries written so far, oldest first
+    const rows = sqlite.prepare('SELECT * FROM audit_logs ORDER BY id').all() as AuditEntry[];
+    const setHash = sqlite.prepare('UPDATE audit_logs SET prev_hash = ?, hash = ? WHERE id = ?');
+    let prev = GENESIS_HASH;
+    for (const row of rows) {
+      const hash = auditHash(prev, row);
+      setHash.run(prev, hash, row.id);
+      prev = hash;
+    }
+
+    sqlite.exec(`
+      CREATE TRIGGER IF NOT EXISTS trg_audit_logs_chain AFTER INSERT ON audit_logs
+      BEGIN
+        UPDATE audit_logs SET prev_hash = COALESCE(
+          (SELECT hash FROM audit_logs WHERE id < NEW.id ORDER BY id DESC LIMIT 1),
+          (SELECT last_hash FROM audit_archives ORDER BY last_id DESC LIMIT 1),
+          '${GENESIS_HASH}'
+        ) WHERE id = NEW.id;
+        UPDATE audit_logs SET hash = audit_hash(
+          prev_hash, id, action, actor_id, actor_name, terminal, entity, entity_id, meta, created_at
+        ) WHERE id = NEW.id;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS trg_audit_logs_no_update BEFORE UPDATE ON audit_logs
+      WHEN OLD.hash IS NOT NULL
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_logs is append-only');
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS trg_audit_logs_no_delete BEFORE DELETE ON audit_logs
+      WHEN audit_archiving() = 0
+        OR NOT EXISTS (SELECT 1 FROM audit_archives WHERE OLD.id BETWEEN first_id AND last_id)
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_logs entries can only be removed by archiving');
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS trg_audit_archives_insert BEFORE INSERT ON audit_archives
+      WHEN audit_archiving() = 0
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_archives rows are only recorded by the archiver');
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS trg_audit_archives_no_update BEFORE UPDATE ON audit_archives
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_archives is append-only');
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS trg_audit_archives_no_delete BEFORE DELETE ON audit_archives
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_archives is append-only');
+      END;
+    `);
+  },
+
+  // 20: drawer counts by denomination for the opening float, safe drops and the closing count
+  sqlite => {
+    sqlite.exec(`
+      CREATE TABLE IF NOT EXISTS shift_cash_counts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        shift_id INTEGER NOT NULL REFERENCES shifts(id) ON DELETE CASCADE,
+        kind TEXT NOT NULL CHECK (kind IN ('OPENING', 'DROP', 'CLOSING')),
+        movement_id INTEGER REFERENCES shift_movements(id) ON DELETE CASCADE,
+        denomination REAL NOT NULL CHECK (denomination > 0),
+        quantity INTEGER NOT NULL CHECK (quantity >= 0),
+        counted_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_shift_cash_counts_shift ON shift_cash_counts(shift_id);
+    `);
+  },
+
+  // 21: customer tags, as a JSON array of ids, for promotions scoped to customer_tag
+  sqlite => {
+    ensureColumns(sqlite, 'customers', { tag_ids: 'TEXT' });
+  }
+];
+
+/** Schema version a database is at once every migration has run */
+export const SCHEMA_VERSION = migrations.length;
+
+export function runMigrations(sqlite: Database.Database) {
+  const current = sqlite.pragma('user_version', { simple: true }) as number;
+  if (current >= migrations.length) return;
+
+  // Table rebuilds require foreign keys off; the pragma is a no-op inside a transaction
+  sqlite.pragma('foreign_keys = OFF');
+  try {
+    for (let version = current; version < migrations.length; version++) {
+      sqlite.transaction(() => {
+        migrations[version](sqlite);
+        sqlite.pragma(`user_version = ${version + 1}`);
+      })();
+    }
+  } finally {
+    sqlite.pragma('foreign_keys = ON');
+  }
+}
@@ -0,0 +1,85 @@
+import { Router, Response } from 'express';
+import { SessionClaims } from '../auth';
+import { auditPublicKey } from '../audit';
+import { db } from '../db';
+import { RETENTION_DAYS, archiveAuditLogs, exportAuditBundle, listArchives, verifyAuditChain } from '../jobs/auditArchive';
+import { requirePermission, requireSession } from './auth';
+import { requireById } from './crud';
+import { HttpError, handle } from './errors';
+import { auditLogs } from './resources';
+import { FieldMap, parseParam, validateBody } from './validation';
+
+/**
+ * Tamper evidence for the audit log, used by the web Audit page: verify the hash chain, export a
+ * signed bundle for auditors, and archive expired entries. Terminals add entries through
+ * /audit/entries as the signed-in user, except manager approvals, which /auth/escalate writes;
+ * they are listed through /audit-logs.
+ */
+export const auditRouter = Router();
+
+const archiveFields: FieldMap = {
+  older_than_days: { type: 'integer', required: true, min: 30, max: 3650 }
+};
+
+const entryFields: FieldMap = {
+  action: { type: 'text', required: true, maxLength: 64 },
+  terminal: { type: 'text', maxLength: 100 },
+  entity: { type: 'text', maxLength: 64 },
+  entity_id: { type: 'text', maxLength: 64 },
+  meta: { type: 'json' }
+};
+
+// Written by the server itself when it does or approves the thing being recorded
+const SERVER_ACTIONS = new Set(['AUDIT_EXPORT', 'AUDIT_ARCHIVE', 'USER_ROLE_CHANGE']);
+
+const actorOf = (res: Response) => {
+  const session = res.locals.session as SessionClaims;
+  return { id: session.sub, name: session.name };
+};
+
+auditRouter.post('/entries', requireSession(), handle((req, res) => {
+  const values = validateBody(entryFields, req.body, 'create');
+  if (SERVER_ACTIONS.has(values.action as string)) {
+    throw new HttpError(403, 'ACTION_RESERVED', `${values.action} entries are only written by the server`);
+  }
+  // Manager approvals are recorded by /auth/escalate when the approver's PIN is checked
+  if (values.meta && JSON.parse(values.meta as string)?.escalated) {
+    throw new HttpError(403, 'ACTION_RESERVED', 'Escalated entries are only written by the server');
+  }
+  const actor = actorOf(res);
+  const result = db.run(
+    'INSERT INTO audit_logs (action, actor_id, actor_name, terminal, entity, entity_id, meta) VALUES (?, ?, ?, ?, ?, ?, ?)',
+    [values.action, actor.id, actor.name, values.terminal ?? null, values.entity ?? null, values.entity_id ?? null, values.meta ?? null]
+  );
+  res.status(201).json({ success: true, log: requireById(auditLogs, Number(result.lastInsertRowid)) });
+}));
+
+auditRouter.get('/verify', requirePermission('AUDIT_VIEW'), handle((_req, res) => {
+  res.json({ success: true, result: verifyAuditChain() });
+}));
+
+auditRouter.get('/public-key', requireSession(), handle((_req, res) => {
+  res.json({ success: true, ...auditPublicKey() });
+}));
+
+auditRouter.get('/bundle', requirePermission('AUDIT_EXPORT'), handle((req, res) => {
+  const range = {
+    from: req.query.from ? String(parseParam('from', { type: 'datetime' }, req.query.from)) : undefined,
+    to: req.query.to ? String(parseParam('to', { type: 'datetime' }, req.query.to)) : undefined
+  };
+  const bundle = exportAuditBundle(range, actorOf(res));
+  const stamp = bundle.generated_at.replace(/[:.]/g, '-');
+  res.setHeader('Content-Disposition', `attachment; filename="audit_bundle_${stamp}.json"`);
+  res.json(bundle);
+}));
+
+auditRouter.get('/archives', requirePermission('AUDIT_VIEW'), handle((_req, res) => {
+  res.json({ success: true, archives: listArchives(), retention_days: RETENTION_DAYS });
+}));
+
+// Archive now instead of waiting for the retention job; nothing newer than 30 days can be archived
+auditRouter.post('/archive', requirePermission('AUDIT_EXPORT'), handle((req, res) => {
+  const { older_than_days } = validateBody(archiveFields, req.body, 'create');
+  const archive = archiveAuditLogs(older_than_days as number, actorOf(res));
+  res.status(archive ? 201 : 200).json({ success: true, archive });
+}));
@@ -0,0 +1,385 @@
+import { NextFunction, Request, Response, Router } from 'express';
+import { SessionClaims, runAsSession, signApproval, signSession, verifyPinHash, verifySession } from '../auth';
+import { db } from '../db';
+import { acquire } from '../lease';
+import { HttpError, ValidationError, handle } from './errors';
+import { FieldMap, parseParam, validateBody } from './validation';
+
+/**
+ * PIN login and manager escalation, verified against the hashed PINs in user_pins. A successful
+ * login returns a short-lived signed session; terminals send it back as `Authorization: Bearer`
+ * and refresh it before it expires. Failed PINs are counted per terminal address and lock that
+ * terminal out for AUTH_LOCKOUT_MINUTES once AUTH_MAX_ATTEMPTS is reached. An escalation names its
+ * approver, so only that user's PIN is checked and failures also lock that account out.
+ *
+ * An escalation for a limited permission is checked against the approver's own grants and limits
+ * and recorded in the audit log here, so terminals never write who approved what.
+ */
+export const authRouter = Router();
+
+const MAX_ATTEMPTS = Number(process.env.AUTH_MAX_ATTEMPTS || 5);
+const LOCKOUT_MS = Number(process.env.AUTH_LOCKOUT_MINUTES || 15) * 60 * 1000;
+
+interface LockoutRow {
+  source: string;
+  attempts: number;
+  locked_until: string | null;
+}
+
+export interface SessionUser {
+  id: number;
+  name: string;
+  role: string;
+  roles: string[];
+  permissions: string[];
+  /** Highest amount allowed for limited permissions; absent when any role grants it unlimited */
+  limits: Record<string, number>;
+  /** Highest percentage allowed, e.g. for discounts; absent the same way */
+  percent_limits: Record<string, number>;
+}
+
+interface GrantRow {
+  permission: string;
+  max_amount: number | null;
+  max_percent: number | null;
+}
+
+// Per permission, the highest cap any row sets, unless some row leaves it uncapped
+function mostGenerous(rows: GrantRow[], cap: 'max_amount' | 'max_percent'): Record<string, number> {
+  const unlimited = new Set(rows.filter(r => r[cap] === null).map(r => r.permission));
+  const limits: Record<string, number> = {};
+  for (const row of rows) {
+    const value = row[cap];
+    if (value === null || unlimited.has(row.permission)) continue;
+    limits[row.permission] = Math.max(limits[row.permission] ?? 0, value);
+  }
+  return limits;
+}
+
+/** Grants of all of these roles, merged per permission keeping the most generous limits */
+export function grantsOf(roles: string[]): {
+  permissions: string[];
+  limits: Record<string, number>;
+  percent_limits: Record<string, number>;
+} {
+  const rows = roles.length
+    ? db.query<GrantRow>(
+        `SELECT rp.permission, rp.max_amount, rp.max_percent FROM role_permissions rp JOIN roles r ON r.id = rp.role_id
+          WHERE r.name IN (${roles.map(() => '?').join(', ')}) ORDER BY rp.permission`,
+        roles
+      )
+    : [];
+  return {
+    permissions: [...new Set(rows.map(r => r.permission))],
+    limits: mostGenerous(rows, 'max_amount'),
+    percent_limits: mostGenerous(rows, 'max_percent')
+  };
+}
+
+// The legacy users.role plus any roles granted through user_roles
+function rolesOf(user: { id: number; role: string | null }): string[] {
+  const granted = db.query<{ name: string }>(
+    'SELECT r.name FROM user_roles ur JOIN roles r ON r.id = ur.role_id WHERE ur.user_id = ?',
+    [user.id]
+  );
+  return [...new Set([user.role, ...granted.map(g => g.name)].filter((r): r is string => !!r))];
+}
+
+function sessionUser(user: { id: number; name: string; role: string | null }): SessionUser {
+  const roles = rolesOf(user);
+  return { id: user.id, name: user.name, role: user.role ?? roles[0] ?? 'CASHIER', roles, ...grantsOf(roles) };
+}
+
+const hasRole = (user: SessionUser, role: string) => user.roles.includes(role) || user.roles.includes('ADMIN');
+
+/** A limited permission and the value it is used for, e.g. a discount's amount and percentage */
+export interface Grant {
+  permission: string;
+  amount?: number;
+  percent?: number;
+}
+
+// Granted, and within every cap the user has on it; ADMIN holds every permission without limit
+function withinGrant(user: Pick<SessionUser, 'roles' | 'permissions' | 'limits' | 'percent_limits'>, grant: Grant): boolean {
+  if (user.roles.includes('ADMIN')) return true;
+  if (!user.permissions.includes(grant.permission)) return false;
+  const amountCap = user.limits[grant.permission];
+  const percentCap = user.percent_limits[grant.permission];
+  return (grant.amount === undefined || amountCap === undefined || grant.amount <= amountCap)
+    && (grant.percent === undefined || percentCap === undefined || grant.percent <= percentCap);
+}
+
+function sourceOf(req: Request): string {
+  return req.ip || req.socket.remoteAddress || 'unknown';
+}
+
+function assertNotLocked(source: string) {
+  const row = db.get<LockoutRow>('SELECT * FROM pin_lockouts WHERE source = ?', [source]);
+  if (row?.locked_until && new Date(row.locked_until).getTime() > Date.now()) {
+    throw new HttpError(429, 'PIN_LOCKED', 'Too many failed PIN attempts; try again later', {
+      locked_until: row.locked_until
+    });
+  }
+}
+
+// Count a failed attempt; returns how many remain before this source is locked out
+function recordFailure(source: string): number {
+  const row = db.get<LockoutRow>('SELECT * FROM pin_lockouts WHERE source = ?', [source]);
+  const attempts = (row?.locked_until ? 0 : row?.attempts ?? 0) + 1;
+  const lockedUntil = attempts >= MAX_ATTEMPTS ? new Date(Date.now() + LOCKOUT_MS).toISOString() : null;
+  db.run(
+    `INSERT INTO pin_lockouts (source, attempts, locked_until, last_attempt_at) VALUES (?, ?, ?, ?)
+     ON CONFLICT(source) DO UPDATE SET attempts = excluded.attempts, locked_until = excluded.locked_until,
+       last_attempt_at = excluded.last_attempt_at`,
+    [source, attempts, lockedUntil, new Date().toISOString()]
+  );
+  return Math.max(0, MAX_ATTEMPTS - attempts);
+}
+
+const clearFailures = (source: string) => db.run('DELETE FROM pin_lockouts WHERE source = ?', [source]);
+
+function readPin(body: any): string {
+  const pin = body?.pin;
+  if (typeof pin !== 'string' || !/^\d{4,12}$/.test(pin)) {
+    throw new ValidationError([{ field: 'pin', message: 'must be 4-12 digits' }]);
+  }
+  return pin;
+}
+
+type PinUser = { id: number; name: string; role: string | null; pin_hash: string };
+
+const PIN_USERS = `SELECT u.id, u.name, u.role, p.pin_hash FROM users u JOIN user_pins p ON p.user_id = u.id
+  WHERE u.active = 1`;
+
+// Login is by PIN alone, so it is checked against every active user's hash
+async function userByPin(pin: string) {
+  const candidates = db.query<PinUser>(`${PIN_USERS} ORDER BY u.id`);
+  const matches = await Promise.all(candidates.map(c => verifyPinHash(pin, c.pin_hash)));
+  return candidates.find((_, i) => matches[i]) ?? null;
+}
+
+// An approver is picked by id, so only their hash is checked
+async function approverByPin(userId: number, pin: string) {
+  const candidate = db.get<PinUser>(`${PIN_USERS} AND u.id = ?`, [userId]);
+  return candidate && (await verifyPinHash(pin, candidate.pin_hash)) ? candidate : null;
+}
+
+// Verify a PIN for this source, counting failures toward its lockout and, when the approver is
+// named, toward that account's; a PIN whose user lacks the role or cannot grant `grant` counts as
+// a failure too
+async function checkPin(req: Request, requiredRole?: string, grant?: Grant, approverId?: number): Promise<SessionUser> {
+  const sources = approverId === undefined ? [sourceOf(req)] : [sourceOf(req), `user:${approverId}`];
+  const pin = readPin(req.body);
+  sources.forEach(assertNotLocked);
+
+  const match = approverId === undefined ? await userByPin(pin) : await approverByPin(approverId, pin);
+  // The lockout is written after hashing, by when a terminal may have begun a transaction
+  await acquire(undefined);
+  const user = match ? sessionUser(match) : null;
+  const fail = () => Math.min(...sources.map(recordFailure));
+  if (!user) {
+    throw new HttpError(401, 'INVALID_PIN', 'Invalid PIN', { attempts_left: fail() });
+  }
+  if (requiredRole && !hasRole(user, requiredRole)) {
+    throw new HttpError(403, 'ROLE_REQUIRED', `${requiredRole} access required`, { attempts_left: fail() });
+  }
+  if (grant && !withinGrant(user, grant)) {
+    throw new HttpError(403, 'LIMIT_EXCEEDED', `${user.name} cannot approve this ${grant.permission}`, {
+      attempts_left: fail()
+    });
+  }
+  sources.forEach(clearFailures);
+  return user;
+}
+
+function issue(res: Response, user: SessionUser) {
+  const { token, claims } = signSession(user);
+  res.json({ success: true, token, expires_at: new Date(claims.exp).toISOString(), user });
+}
+
+/**
+ * Attach the caller's session, if it sent a valid one, as res.locals.session, and run the rest of
+ * the request as it so triggers can see who is writing. Requests without one carry on
+ * unauthenticated; routes that need a session use requireSession.
+ */
+export function authenticate(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization;
+  const claims = header?.startsWith('Bearer ') ? verifySession(header.slice(7).trim()) : null;
+  if (!claims) return next();
+  res.locals.session = claims;
+  // Read up front: triggers ask mid-statement, when the connection cannot run another query
+  const { permissions } = grantsOf(claims.roles);
+  const admin = claims.roles.includes('ADMIN');
+  runAsSession({ claims, may: permission => admin || permissions.includes(permission) }, next);
+}
+
+/** Reject callers without a live session, or without `role` (ADMIN holds every role) */
+export function requireSession(role?: string) {
+  return (_req: Request, res: Response, next: NextFunction) => {
+    const session = res.locals.session as SessionClaims | undefined;
+    if (!session) return next(new HttpError(401, 'SESSION_REQUIRED', 'Sign in again to continue'));
+    if (role && !session.roles.includes(role) && !session.roles.includes('ADMIN')) {
+      return next(new HttpError(403, 'ROLE_REQUIRED', `${role} access required`));
+    }
+    next();
+  };
+}
+
+/** Whether the session's roles grant `permission`, read fresh from role_permissions */
+export function hasPermission(session: SessionClaims, permission: string): boolean {
+  return session.roles.includes('ADMIN') || grantsOf(session.roles).permissions.includes(permission);
+}
+
+/** Whether the session's own grants cover `grant`, read fresh from role_permissions */
+export function canGrant(session: SessionClaims, grant: Grant): boolean {
+  return withinGrant({ roles: session.roles, ...grantsOf(session.roles) }, grant);
+}
+
+/** Reject callers whose session lacks `permission` (ADMIN holds every permission) */
+export function requirePermission(permission: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    requireSession()(req, res, err => {
+      if (err) return next(err);
+      if (hasPermission(res.locals.session as SessionClaims, permission)) return next();
+      next(new HttpError(403, 'PERMISSION_REQUIRED', `${permission} permission required`));
+    });
+  };
+}
+
+authRouter.post('/login', handle(async (req, res) => {
+  issue(res, await checkPin(req));
+}));
+
+const escalateFields: FieldMap = {
+  // The approver, as listed by /approvers
+  user_id: { type: 'integer', required: true, min: 1 },
+  pin: { type: 'text', required: true },
+  role: { type: 'text', maxLength: 64 },
+  permission: { type: 'text', maxLength: 64 },
+  amount: { type: 'real', min: 0 },
+  percent: { type: 'real', min: 0, max: 100 },
+  action: { type: 'text', maxLength: 64 },
+  // What the approval is for, e.g. a credit charge's customer and the sale's Idempotency-Key
+  customer_id: { type: 'integer', min: 1 },
+  reference: { type: 'text', maxLength: 128 },
+  reason: { type: 'text', maxLength: 500 },
+  terminal: { type: 'text', maxLength: 100 },
+  meta: { type: 'json' }
+};
+
+// Extra context for the audit entry, e.g. the product a line discount is on
+function readMeta(raw: unknown): Record<string, unknown> {
+  const meta = typeof raw === 'string' ? JSON.parse(raw) : {};
+  if (meta === null || typeof meta !== 'object' || Array.isArray(meta)) {
+    throw new ValidationError([{ field: 'meta', message: 'must be an object' }]);
+  }
+  return meta;
+}
+
+// The caller's own caps on the permission, as the terminal shows them; null when not granted
+function limitOf(session: SessionClaims, permission: string): { amount?: number; percent?: number } | null {
+  if (session.roles.includes('ADMIN')) return {};
+  const grants = grantsOf(session.roles);
+  if (!grants.permissions.includes(permission)) return null;
+  const limit: { amount?: number; percent?: number } = {};
+  if (grants.limits[permission] !== undefined) limit.amount = grants.limits[permission];
+  if (grants.percent_limits[permission] !== undefined) limit.percent = grants.percent_limits[permission];
+  return limit;
+}
+
+// Users a terminal may ask to approve: active, with a PIN, and holding `permission` or else `role`
+authRouter.get('/approvers', requireSession(), handle((req, res) => {
+  const role = req.query.role === undefined
+    ? undefined
+    : parseParam('role', { type: 'text', maxLength: 64 }, req.query.role) as string;
+  const permission = req.query.permission === undefined
+    ? undefined
+    : parseParam('permission', { type: 'text', maxLength: 64 }, req.query.permission) as string;
+  const approvers = db.query<PinUser>(`${PIN_USERS} ORDER BY u.name`)
+    .map(sessionUser)
+    .filter(user => (permission ? withinGrant(user, { permission }) : !role || hasRole(user, role)));
+  res.json({ success: true, approvers: approvers.map(({ id, name, role }) => ({ id, name, role })) });
+}));
+
+/**
+ * Approve a sensitive action with the PIN of `user_id`; the caller's own session is unchanged.
+ * With a `permission`, the approver must hold it for `amount`/`percent`, and the approval is
+ * written to the audit log as `action` with the caller as actor. The
+ * signed `approval` returned with it is what routes accept in place of the caller's own grant, for
+ * the `customer_id` and `reference` it names and only once.
+ */
+authRouter.post('/escalate', requireSession(), handle(async (req, res) => {
+  const values = validateBody(escalateFields, req.body, 'create');
+  const approverId = values.user_id as number;
+  const permission = values.permission as string | undefined;
+  if (!permission) {
+    const role = (values.role as string | undefined) || 'MANAGER';
+    return res.json({ success: true, user: await checkPin(req, role, undefined, approverId) });
+  }
+
+  const session = res.locals.session as SessionClaims;
+  const meta = readMeta(values.meta);
+  const grant: Grant = {
+    permission,
+    amount: values.amount as number | undefined,
+    percent: values.percent as number | undefined
+  };
+  const approver = await checkPin(req, (values.role as string | undefined) || undefined, grant, approverId);
+
+  const value: { amount?: number; percent?: number } = {};
+  if (grant.amount !== undefined) value.amount = grant.amount;
+  if (grant.percent !== undefined) value.percent = grant.percent;
+  const result = db.run(
+    'INSERT INTO audit_logs (action, actor_id, actor_name, terminal, meta) VALUES (?, ?, ?, ?, ?)',
+    [
+      (values.action as string | undefined) || permission,
+      session.sub,
+      session.name,
+      values.terminal ?? null,
+      JSON.stringify({
+        ...meta,
+        permission,
+        value,
+        limit: limitOf(session, permission),
+        escalated: true,
+        reason: values.reason ?? null,
+        cashier_id: session.sub,
+        approved_by_id: approver.id,
+        approved_by: approver.name
+      })
+    ]
+  );
+  res.json({
+    success: true,
+    user: approver,
+    approval: signApproval({
+      sub: session.sub,
+      approver: approver.id,
+      ...grant,
+      customer_id: values.customer_id as number | undefined,
+      reference: values.reference as string | undefined
+    }),
+    audit_log_id: Number(result.lastInsertRowid)
+  });
+}));
+
+// Yes or no on a manager PIN for screens that only need the check, e.g. a large return
+authRouter.post('/verify-pin', requireSession(), handle(async (req, res) => {
+  res.json({ success: true, valid: true, user: await checkPin(req, 'MANAGER') });
+}));
+
+// A fresh token for a still-active user; deactivated users cannot extend their session
+authRouter.post('/refresh', requireSession(), handle((_req, res) => {
+  const session = res.locals.session as SessionClaims;
+  const user = db.get<{ id: number; name: string; role: string | null }>(
+    'SELECT id, name, role FROM users WHERE id = ? AND active = 1',
+    [session.sub]
+  );
+  if (!user) throw new HttpError(401, 'SESSION_REQUIRED', 'Sign in again to continue');
+  issue(res, sessionUser(user));
+}));
+
+authRouter.get('/me', requireSession(), handle((_req, res) => {
+  const session = res.locals.session as SessionClaims;
+  res.json({ success: true, session: { ...session, expires_at: new Date(session.exp).toISOString() } });
+}));
@@ -0,0 +1,73 @@
+import { Router } from 'express';
+import { BackupError, backupRunning, listBackups, verifyBackup } from '../jobs/backup';
+import { backupSchedule, nextBackupAt, runScheduledBackup, updateBackupSchedule } from '../jobs/backupScheduler';
+import { requirePermission, requireSession } from './auth';
+import { HttpError, ValidationError, handle } from './errors';
+import { FieldMap, validateBody } from './validation';
+
+/**
+ * Encrypted server backups for the web Backups page: list, back up now, verify, and the daily
+ * schedule. Restoring replaces the live database, so it is only done from the command line
+ * with the server stopped (npm run backup -- restore <file>). Backing up and scheduling need
+ * BACKUP_CREATE; anyone signed in can list and verify.
+ */
+export const backupsRouter = Router();
+
+const scheduleFields: FieldMap = {
+  enabled: { type: 'boolean' },
+  daily_time: { type: 'text', maxLength: 5 },
+  keep: { type: 'integer', min: 1, max: 90 }
+};
+
+const STATUS_BY_CODE: Record<string, number> = {
+  INVALID_NAME: 400,
+  NOT_FOUND: 404,
+  BACKUP_RUNNING: 409,
+  PASSPHRASE_MISSING: 503
+};
+
+// Render backup failures with the API error shape
+function backupCall<T>(fn: () => Promise<T>): Promise<T> {
+  return fn().catch(error => {
+    if (error instanceof BackupError) throw new HttpError(STATUS_BY_CODE[error.code] ?? 500, error.code, error.message);
+    throw error;
+  });
+}
+
+function scheduleStatus() {
+  const schedule = backupSchedule();
+  return {
+    ...schedule,
+    next_run_at: nextBackupAt(schedule)?.toISOString() ?? null,
+    running: backupRunning(),
+    passphrase_set: !!process.env.BACKUP_PASSPHRASE
+  };
+}
+
+backupsRouter.get('/', requireSession(), handle((_req, res) => {
+  res.json({ success: true, backups: listBackups(), schedule: scheduleStatus() });
+}));
+
+// Back up now, keeping as many backups as the schedule does
+backupsRouter.post('/', requirePermission('BACKUP_CREATE'), handle(async (_req, res) => {
+  const manifest = await backupCall(() => runScheduledBackup());
+  res.status(201).json({ success: true, backup: manifest, schedule: scheduleStatus() });
+}));
+
+backupsRouter.get('/schedule', requireSession(), handle((_req, res) => {
+  res.json({ success: true, schedule: scheduleStatus() });
+}));
+
+backupsRouter.put('/schedule', requirePermission('BACKUP_CREATE'), handle((req, res) => {
+  const values = validateBody(scheduleFields, req.body, 'update');
+  if (values.daily_time !== undefined && !/^([01]\d|2[0-3]):[0-5]\d$/.test(String(values.daily_time))) {
+    throw new ValidationError([{ field: 'daily_time', message: 'must be a time as HH:MM' }]);
+  }
+  updateBackupSchedule(values);
+  res.json({ success: true, schedule: scheduleStatus() });
+}));
+
+backupsRouter.post('/:file/verify', requireSession(), handle(async (req, res) => {
+  const result = await backupCall(() => verifyBackup(req.params.file));
+  res.json({ success: true, result });
+}));
@@ -0,0 +1,208 @@
+import { Router } from 'express';
+import { db } from '../db';
+import { acquire } from '../lease';
+import { requirePermission } from './auth';
+import { HttpError, handle } from './errors';
+import { createCrudRouter, insertRow, requireById, updateRow } from './crud';
+import { batches, discountRules, products } from './resources';
+import { FieldMap, parseId, parseParam, validateBody } from './validation';
+
+/**
+ * Stock per batch. Terminals create a batch for every GRN line they post; every POS checkout
+ * reaches the server through /api/sales/sync (straight away, or replayed from the terminal's sale
+ * queue) and draws on the batches its store received first-expiry-first-out (FEFO), recording which
+ * batches each line used in sale_line_batches, so refunds can put stock back where it came from.
+ */
+
+export interface BatchAllocation {
+  batch_id: number;
+  qty: number;
+}
+
+const markdownFields: FieldMap = {
+  percent: { type: 'real', required: true, min: 1, max: 90 }
+};
+
+const DEFAULT_EXPIRY_DAYS = 14;
+const MARKDOWN_PRIORITY = 10;
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Take `qty` of a product out of the selling store's batches, earliest expiry first; batches
+ * without an expiry go last, oldest receipt first. Stock received before batch tracking is in no
+ * batch, so whatever the batches cannot cover is left unallocated. Must run inside the caller's
+ * transaction.
+ */
+export function depleteFefo(saleLineId: number, productId: number, qty: number, storeId: number | null): BatchAllocation[] {
+  const open = db.query<{ id: number; qty_on_hand: number; markdown_rule_id: number | null }>(
+    `SELECT id, qty_on_hand, markdown_rule_id
+       FROM batches
+      WHERE product_id = ? AND qty_on_hand > 0
+        AND (? IS NULL OR grn_id IN (SELECT id FROM grn WHERE store_id = ?))
+      ORDER BY expiry IS NULL, expiry, id`,
+    [productId, storeId, storeId]
+  );
+
+  const allocations: BatchAllocation[] = [];
+  let remaining = round3(qty);
+  for (const batch of open) {
+    if (remaining <= 0) break;
+    const take = round3(Math.min(remaining, batch.qty_on_hand));
+    const left = round3(batch.qty_on_hand - take);
+
+    db.run('UPDATE batches SET qty_on_hand = ? WHERE id = ?', [left, batch.id]);
+    db.run('INSERT INTO sale_line_batches (sale_line_id, batch_id, qty) VALUES (?, ?, ?)', [saleLineId, batch.id, take]);
+    db.run(`INSERT INTO stock_movements (product_id, batch_id, qty, reason) VALUES (?, ?, ?, 'SALE')`, [
+      productId,
+      batch.id,
+      -take
+    ]);
+    // A sold-out batch's markdown must not carry over to fresher stock
+    if (left <= 0 && batch.markdown_rule_id) {
+      db.run('UPDATE discount_rules SET active = 0 WHERE id = ?', [batch.markdown_rule_id]);
+    }
+
+    allocations.push({ batch_id: batch.id, qty: take });
+    remaining = round3(remaining - take);
+  }
+  return allocations;
+}
+
+/**
+ * Put `qty` of a refunded product back into the batches sale `saleId` took it from, most recently
+ * used first, never more than each line took. Quantity sold from stock outside any batch stays
+ * untracked. Must run inside the caller's transaction.
+ */
+export function restockBatches(saleId: number, productId: number, qty: number): BatchAllocation[] {
+  const used = db.query<{ id: number; batch_id: number; qty: number; qty_returned: number }>(
+    `SELECT slb.id, slb.batch_id, slb.qty, slb.qty_returned
+       FROM sale_line_batches slb
+       JOIN sale_lines sl ON sl.id = slb.sale_line_id
+      WHERE sl.sale_id = ? AND sl.product_id = ?
+      ORDER BY slb.id DESC`,
+    [saleId, productId]
+  );
+
+  const allocations: BatchAllocation[] = [];
+  let remaining = round3(qty);
+  for (const row of used) {
+    if (remaining <= 0) break;
+    const back = round3(Math.min(remaining, row.qty - row.qty_returned));
+    if (back <= 0) continue;
+
+    db.run('UPDATE batches SET qty_on_hand = qty_on_hand + ? WHERE id = ?', [back, row.batch_id]);
+    db.run('UPDATE sale_line_batches SET qty_returned = qty_returned + ? WHERE id = ?', [back, row.id]);
+    db.run(`INSERT INTO stock_movements (product_id, batch_id, qty, reason) VALUES (?, ?, ?, 'RETURN')`, [
+      productId,
+      row.batch_id,
+      back
+    ]);
+    allocations.push({ batch_id: row.batch_id, qty: back });
+    remaining = round3(remaining - back);
+  }
+  return allocations;
+}
+
+// A batch belongs to the store whose GRN received it
+function nearExpiry(days: number, batchId?: number, storeId?: number) {
+  return db.query(
+    `SELECT b.id, b.product_id, p.sku, p.name_en, p.unit, p.price_retail,
+            b.batch_code, b.expiry, b.qty_on_hand, b.cost,
+            CAST(julianday(date(b.expiry)) - julianday(date('now')) AS INTEGER) AS days_to_expiry,
+            dr.id AS markdown_rule_id, dr.value AS markdown_pct
+       FROM batches b
+       JOIN products p ON p.id = b.product_id
+       LEFT JOIN discount_rules dr ON dr.id = b.markdown_rule_id AND dr.active = 1
+      WHERE b.qty_on_hand > 0 AND b.expiry IS NOT NULL AND date(b.expiry) <= date('now', ?)
+        AND (? IS NULL OR b.id = ?)
+        AND (? IS NULL OR b.grn_id IN (SELECT id FROM grn WHERE store_id = ?))
+      ORDER BY date(b.expiry), p.name_en, b.id`,
+    [`+${days} days`, batchId ?? null, batchId ?? null, storeId ?? null, storeId ?? null]
+  );
+}
+
+function extend(router: Router) {
+  // Batches in stock that expire within `days` (already expired ones included), with any markdown;
+  // `store_id` narrows them to one store's receipts
+  router.get('/near-expiry', handle((req, res) => {
+    const days = req.query.days === undefined
+      ? DEFAULT_EXPIRY_DAYS
+      : parseParam('days', { type: 'integer', min: 0, max: 365 }, req.query.days) as number;
+    const storeId = req.query.store_id === undefined
+      ? undefined
+      : parseParam('store_id', { type: 'integer', min: 1 }, req.query.store_id) as number;
+    res.json({ success: true, days, batches: nearExpiry(days, undefined, storeId) });
+  }));
+
+  /**
+   * Mark a batch down until it expires. The markdown is a PRODUCT discount rule the terminals
+   * already apply; it ends at the batch's expiry or when the batch sells out.
+   */
+  router.post('/:id/markdown', requirePermission('GRN_POST'), handle(async (req, res) => {
+    const id = parseId(req.params.id);
+    const values = validateBody(markdownFields, req.body, 'create');
+
+    await acquire(undefined);
+    const row = db.transaction(() => {
+      const batch = requireById(batches, id);
+      if (!(batch.qty_on_hand > 0) || !batch.expiry || String(batch.expiry).slice(0, 10) < new Date().toISOString().slice(0, 10)) {
+        throw new HttpError(409, 'BATCH_NOT_MARKABLE', 'Only unexpired batches in stock can be marked down');
+      }
+
+      const other = db.get<{ id: number; batch_code: string | null }>(
+        `SELECT b.id, b.batch_code
+           FROM batches b
+           JOIN discount_rules dr ON dr.id = b.markdown_rule_id AND dr.active = 1
+          WHERE b.product_id = ? AND b.id != ?`,
+        [batch.product_id, batch.id]
+      );
+      if (other) {
+        throw new HttpError(
+          409,
+          'MARKDOWN_EXISTS',
+          `Batch ${other.batch_code ?? `#${other.id}`} of this product is already marked down; change that markdown instead`
+        );
+      }
+
+      const current = batch.markdown_rule_id
+        ? db.get<{ id: number; active: number }>('SELECT id, active FROM discount_rules WHERE id = ?', [batch.markdown_rule_id])
+        : undefined;
+      if (current?.active) {
+        updateRow(discountRules, current.id, { value: values.percent });
+      } else {
+        const product = requireById(products, batch.product_id);
+        const rule = insertRow(discountRules, {
+          name: `Markdown ${product.sku} batch ${batch.batch_code ?? `#${batch.id}`}`,
+          applies_to: 'PRODUCT',
+          target_id: batch.product_id,
+          type: 'PERCENT',
+          value: values.percent,
+          priority: MARKDOWN_PRIORITY,
+          active_from: new Date().toISOString(),
+          active_to: `${String(batch.expiry).slice(0, 10)}T23:59:59`,
+          active: 1
+        });
+        updateRow(batches, batch.id, { markdown_rule_id: rule.id });
+      }
+      return nearExpiry(365, batch.id)[0];
+    });
+    res.json({ success: true, batch: row });
+  }));
+
+  router.delete('/:id/markdown', requirePermission('GRN_POST'), handle(async (req, res) => {
+    const id = parseId(req.params.id);
+
+    await acquire(undefined);
+    db.transaction(() => {
+      const batch = requireById(batches, id);
+      if (batch.markdown_rule_id) {
+        db.run('UPDATE discount_rules SET active = 0 WHERE id = ?', [batch.markdown_rule_id]);
+        updateRow(batches, batch.id, { markdown_rule_id: null });
+      }
+    });
+    res.json({ success: true });
+  }));
+}
+
+export const batchesRouter = createCrudRouter({ ...batches, extend });
@@ -0,0 +1,197 @@
+import { Router } from 'express';
+import { db } from '../db';
+import { handle } from './errors';
+import { parseParam } from './validation';
+
+/**
+ * Cost of stock, replayed from the stock ledger: inventory movements (GRN receipts, adjustments,
+ * customer and supplier returns) and synced sale lines, which take stock out without a movement
+ * of their own. Receipts carry their landed cost per base unit in inventory_movements.unit_cost;
+ * stock that comes in without one (a stocktake gain) comes in at the running cost. Costing is
+ * company-wide, so transfers between stores are left out.
+ *
+ * Moving average and FIFO layers are kept side by side. COSTING_METHOD picks the one synced sale
+ * lines are costed at: 'average' (the default) or 'fifo'.
+ */
+
+export type CostingMethod = 'average' | 'fifo';
+
+export const COSTING_METHOD: CostingMethod = process.env.COSTING_METHOD === 'fifo' ? 'fifo' : 'average';
+
+interface CostLayer {
+  qty: number;
+  unit_cost: number;
+}
+
+export interface CostPosition {
+  qty: number;
+  avg_cost: number | null;
+  layers: CostLayer[]; // oldest first
+}
+
+interface LedgerEntry {
+  product_id: number;
+  qty: number;
+  unit_cost: number | null;
+  fallback_cost: number | null;
+}
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+const emptyPosition = (): CostPosition => ({ qty: 0, avg_cost: null, layers: [] });
+
+function receive(position: CostPosition, qty: number, unitCost: number) {
+  const onHand = Math.max(position.qty, 0);
+  position.avg_cost = round4((onHand * (position.avg_cost ?? unitCost) + qty * unitCost) / (onHand + qty));
+  // Stock sold before it was received has already gone out at the average; only the rest is a layer
+  const layerQty = round3(qty + Math.min(position.qty, 0));
+  if (layerQty > 0) position.layers.push({ qty: layerQty, unit_cost: unitCost });
+  position.qty = round3(position.qty + qty);
+}
+
+/** Take `qty` out of a position; returns the unit cost it went out at under each method */
+function issue(position: CostPosition, qty: number): Record<CostingMethod, number | null> {
+  let remaining = round3(qty);
+  let value = 0;
+  let costed = 0;
+  while (remaining > 0 && position.layers.length > 0) {
+    const layer = position.layers[0];
+    const take = Math.min(remaining, layer.qty);
+    value += take * layer.unit_cost;
+    costed += take;
+    layer.qty = round3(layer.qty - take);
+    if (layer.qty <= 0) position.layers.shift();
+    remaining = round3(remaining - take);
+  }
+  // Stock going out beyond the layers (oversold, or held before costs were kept) goes at the average
+  if (remaining > 0 && position.avg_cost !== null) {
+    value += remaining * position.avg_cost;
+    costed += remaining;
+  }
+  position.qty = round3(position.qty - qty);
+  return { average: position.avg_cost, fifo: costed > 0 ? round4(value / costed) : position.avg_cost };
+}
+
+/**
+ * The stock ledger in the order it happened, up to `until` (server time, YYYY-MM-DD HH:MM:SS)
+ * when given. Terminals write some timestamps as ISO strings, so every one is normalised.
+ */
+function ledger(productId?: number, until?: string): LedgerEntry[] {
+  return db.query<LedgerEntry>(
+    `SELECT l.product_id, l.qty, l.unit_cost, p.cost AS fallback_cost
+       FROM (
+         SELECT product_id, qty, unit_cost, datetime(created_at) AS at, 0 AS source, id
+           FROM inventory_movements
+          WHERE type <> 'TRANSFER'
+         UNION ALL
+         SELECT sl.product_id, -sl.qty, NULL, datetime(s.created_at), 1, sl.id
+           FROM sale_lines sl
+           JOIN sales s ON s.id = sl.sale_id
+          WHERE s.type <> 'REFUND' AND COALESCE(s.status, 'COMPLETED') = 'COMPLETED' AND sl.qty > 0
+       ) l
+       LEFT JOIN products p ON p.id = l.product_id
+      WHERE (? IS NULL OR l.product_id = ?) AND (? IS NULL OR l.at <= ?)
+      ORDER BY l.product_id, l.at, l.source, l.id`,
+    [productId ?? null, productId ?? null, until ?? null, until ?? null]
+  );
+}
+
+/** Cost positions of every product with stock history (or just `productId`'s), as of `until` */
+export function costPositions(until?: string, productId?: number): Map<number, CostPosition> {
+  const positions = new Map<number, CostPosition>();
+  for (const entry of ledger(productId, until)) {
+    let position = positions.get(entry.product_id);
+    if (!position) {
+      position = emptyPosition();
+      positions.set(entry.product_id, position);
+    }
+    if (entry.qty > 0) {
+      receive(position, entry.qty, entry.unit_cost ?? position.avg_cost ?? entry.fallback_cost ?? 0);
+    } else if (entry.qty < 0) {
+      issue(position, -entry.qty);
+    }
+  }
+  return positions;
+}
+
+function fallbackCost(productId: number): number | null {
+  return db.get<{ cost: number | null }>('SELECT cost FROM products WHERE id = ?', [productId])?.cost ?? null;
+}
+
+/**
+ * Unit cost of selling `qty` of a product now. Must run inside the caller's transaction, before
+ * the sale line is written, so lines earlier in the same sale are already in the ledger.
+ */
+export function costOfSale(productId: number, qty: number, method: CostingMethod = COSTING_METHOD): number | null {
+  const position = costPositions(undefined, productId).get(productId);
+  if (!position) return fallbackCost(productId);
+  return issue(position, qty)[method] ?? fallbackCost(productId);
+}
+
+/** Unit cost the next unit out would carry, without taking it out */
+export function currentUnitCost(productId: number, method: CostingMethod = COSTING_METHOD): number | null {
+  const position = costPositions(undefined, productId).get(productId);
+  if (!position) return fallbackCost(productId);
+  const cost = method === 'fifo' ? position.layers[0]?.unit_cost ?? position.avg_cost : position.avg_cost;
+  return cost ?? fallbackCost(productId);
+}
+
+interface ValuationRow {
+  product_id: number;
+  sku: string;
+  name_en: string;
+  unit: string;
+  category_name: string | null;
+  qty: number;
+  unit_cost: number | null;
+  value: number;
+}
+
+function valuation(until: string, method: CostingMethod, categoryId?: number): ValuationRow[] {
+  const positions = costPositions(until);
+  const products = db.query<Omit<ValuationRow, 'qty' | 'unit_cost' | 'value'>>(
+    `SELECT p.id AS product_id, p.sku, p.name_en, p.unit, c.name AS category_name
+       FROM products p
+       LEFT JOIN categories c ON c.id = p.category_id
+      WHERE (? IS NULL OR p.category_id = ?)
+      ORDER BY c.name, p.name_en`,
+    [categoryId ?? null, categoryId ?? null]
+  );
+
+  return products.flatMap(product => {
+    const position = positions.get(product.product_id);
+    if (!position || position.qty <= 0) return [];
+    const value = method === 'fifo'
+      ? position.layers.reduce((sum, layer) => sum + layer.qty * layer.unit_cost, 0)
+      : position.qty * (position.avg_cost ?? 0);
+    return [{ ...product, qty: position.qty, unit_cost: round4(value / position.qty), value: Math.round(value * 100) / 100 }];
+  });
+}
+
+export const costingRouter = Router();
+
+// Stock on hand and its cost as of `as_of` (now by default), under `method` (COSTING_METHOD by default)
+costingRouter.get('/valuation', handle((req, res) => {
+  const asOf = req.query.as_of !== undefined
+    ? new Date(parseParam('as_of', { type: 'datetime' }, req.query.as_of) as string)
+    : new Date();
+  const method = req.query.method === undefined
+    ? COSTING_METHOD
+    : parseParam('method', { type: 'text', enum: ['average', 'fifo'] }, req.query.method) as CostingMethod;
+  const categoryId = req.query.category_id === undefined
+    ? undefined
+    : parseParam('category_id', { type: 'integer', min: 1 }, req.query.category_id) as number;
+
+  const rows = valuation(asOf.toISOString().replace('T', ' ').slice(0, 19), method, categoryId);
+  res.json({
+    success: true,
+    as_of: asOf.toISOString(),
+    method,
+    rows,
+    totals: {
+      products: rows.length,
+      value: Math.round(rows.reduce((sum, row) => sum + row.value, 0) * 100) / 100
+    }
+  });
+}));
@@ -0,0 +1,184 @@
+import { Router } from 'express';
+import { db } from '../db';
+import { requirePermission } from './auth';
+import { NotFoundError, ValidationError, handle } from './errors';
+import { FieldMap, parseId, parseParam, serializeRow, validateBody } from './validation';
+
+export type Operation = 'list' | 'get' | 'create' | 'update' | 'delete';
+
+export interface ResourceConfig {
+  table: string;
+  /** Response keys, e.g. `{ product }` / `{ products }` */
+  singular: string;
+  plural: string;
+  fields: FieldMap;
+  /** Columns that may be matched exactly via query string, e.g. `?supplier_id=3` */
+  filters?: string[];
+  /** Columns searched with LIKE for `?q=` */
+  search?: string[];
+  /** Column used for `?from=` / `?to=` date windows */
+  dateColumn?: string;
+  defaultSort?: string;
+  defaultOrder?: 'asc' | 'desc';
+  operations?: Operation[];
+  /** Permission needed to create, update or delete; reads only need a session */
+  writePermission?: string;
+  /** Register bespoke routes before the generic `/:id` handlers */
+  extend?: (router: Router) => void;
+}
+
+const ALL_OPERATIONS: Operation[] = ['list', 'get', 'create', 'update', 'delete'];
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+export interface ListResult {
+  rows: Record<string, any>[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export function findById(config: ResourceConfig, id: number): Record<string, any> | undefined {
+  const row = db.get(`SELECT * FROM ${config.table} WHERE id = ?`, [id]);
+  return row ? serializeRow(config.fields, row) : undefined;
+}
+
+export function requireById(config: ResourceConfig, id: number): Record<string, any> {
+  const row = findById(config, id);
+  if (!row) throw new NotFoundError(config.singular, id);
+  return row;
+}
+
+export function insertRow(config: ResourceConfig, values: Record<string, unknown>): Record<string, any> {
+  const columns = Object.keys(values);
+  const sql = columns.length
+    ? `INSERT INTO ${config.table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`
+    : `INSERT INTO ${config.table} DEFAULT VALUES`;
+  const result = db.run(sql, columns.map(c => values[c]));
+  return requireById(config, Number(result.lastInsertRowid));
+}
+
+export function updateRow(config: ResourceConfig, id: number, values: Record<string, unknown>): Record<string, any> {
+  const columns = Object.keys(values);
+  const result = db.run(
+    `UPDATE ${config.table} SET ${columns.map(c => `${c} = ?`).join(', ')} WHERE id = ?`,
+    [...columns.map(c => values[c]), id]
+  );
+  if (result.changes === 0) throw new NotFoundError(config.singular, id);
+  return requireById(config, id);
+}
+
+/**
+ * Run a filtered, sorted and paginated list query for a resource.
+ * Supported query keys: `q`, `from`, `to`, `sort`, `order`, `limit`, `offset`, `page`
+ * plus any column named in `config.filters`.
+ */
+export function listRows(config: ResourceConfig, query: Record<string, unknown>): ListResult {
+  const where: string[] = [];
+  const params: unknown[] = [];
+
+  for (const column of config.filters ?? []) {
+    const raw = query[column];
+    if (raw === undefined || raw === '') continue;
+    const spec = column === 'id' ? { type: 'integer' as const } : config.fields[column];
+    where.push(`${column} = ?`);
+    params.push(parseParam(column, spec, raw));
+  }
+
+  const q = typeof query.q === 'string' ? query.q.trim() : '';
+  if (q && config.search?.length) {
+    where.push(`(${config.search.map(c => `${c} LIKE ?`).join(' OR ')})`);
+    config.search.forEach(() => params.push(`%${q}%`));
+  }
+
+  if (config.dateColumn) {
+    if (query.from) {
+      where.push(`${config.dateColumn} >= ?`);
+      params.push(parseParam('from', { type: 'datetime' }, query.from));
+    }
+    if (query.to) {
+      where.push(`${config.dateColumn} <= ?`);
+      params.push(parseParam('to', { type: 'datetime' }, query.to));
+    }
+  }
+
+  const sort = typeof query.sort === 'string' ? query.sort : config.defaultSort ?? 'id';
+  if (sort !== 'id' && (!(sort in config.fields) || config.fields[sort].writeOnly)) {
+    throw new ValidationError([{ field: 'sort', message: `cannot sort by ${sort}` }]);
+  }
+  const orderRaw = typeof query.order === 'string' ? query.order.toLowerCase() : config.defaultOrder ?? 'asc';
+  if (orderRaw !== 'asc' && orderRaw !== 'desc') {
+    throw new ValidationError([{ field: 'order', message: 'must be asc or desc' }]);
+  }
+
+  const limit = query.limit !== undefined
+    ? (parseParam('limit', { type: 'integer', min: 1, max: MAX_LIMIT }, query.limit) as number)
+    : DEFAULT_LIMIT;
+  let offset = query.offset !== undefined
+    ? (parseParam('offset', { type: 'integer', min: 0 }, query.offset) as number)
+    : 0;
+  if (query.page !== undefined && query.offset === undefined) {
+    const page = parseParam('page', { type: 'integer', min: 1 }, query.page) as number;
+    offset = (page - 1) * limit;
+  }
+
+  const whereSql = where.length ? `WHERE ${where.join(' AND ')}` : '';
+  const total = db.get<{ n: number }>(`SELECT COUNT(*) AS n FROM ${config.table} ${whereSql}`, params)?.n ?? 0;
+  const rows = db
+    .query(
+      `SELECT * FROM ${config.table} ${whereSql} ORDER BY ${sort} ${orderRaw.toUpperCase()} LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    )
+    .map(row => serializeRow(config.fields, row));
+
+  return { rows, total, limit, offset };
+}
+
+export function createCrudRouter(config: ResourceConfig): Router {
+  const router = Router();
+  const ops = new Set(config.operations ?? ALL_OPERATIONS);
+  const guard = config.writePermission ? [requirePermission(config.writePermission)] : [];
+
+  config.extend?.(router);
+
+  if (ops.has('list')) {
+    router.get('/', handle((req, res) => {
+      const { rows, total, limit, offset } = listRows(config, req.query as Record<string, unknown>);
+      res.json({ success: true, [config.plural]: rows, total, limit, offset });
+    }));
+  }
+
+  if (ops.has('get')) {
+    router.get('/:id', handle((req, res) => {
+      res.json({ success: true, [config.singular]: requireById(config, parseId(req.params.id)) });
+    }));
+  }
+
+  if (ops.has('create')) {
+    router.post('/', ...guard, handle((req, res) => {
+      const values = validateBody(config.fields, req.body, 'create');
+      res.status(201).json({ success: true, [config.singular]: insertRow(config, values) });
+    }));
+  }
+
+  if (ops.has('update')) {
+    const update = handle((req, res) => {
+      const id = parseId(req.params.id);
+      const values = validateBody(config.fields, req.body, req.method === 'PUT' ? 'create' : 'update');
+      res.json({ success: true, [config.singular]: updateRow(config, id, values) });
+    });
+    router.put('/:id', ...guard, update);
+    router.patch('/:id', ...guard, update);
+  }
+
+  if (ops.has('delete')) {
+    router.delete('/:id', ...guard, handle((req, res) => {
+      const id = parseId(req.params.id);
+      const result = db.run(`DELETE FROM ${config.table} WHERE id = ?`, [id]);
+      if (result.changes === 0) throw new NotFoundError(config.singular, id);
+      res.json({ success: true, id });
+    }));
+  }
+
+  return router;
+}
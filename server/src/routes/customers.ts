@@ -0,0 +1,271 @@
+import { Router } from 'express';
+import { SessionClaims, verifyApproval } from '../auth';
+import { db } from '../db';
+import { acquire } from '../lease';
+import { canGrant } from './auth';
+import { HttpError, handle } from './errors';
+import { createCrudRouter, insertRow, requireById } from './crud';
+import { customerLedger, customers } from './resources';
+import { FieldMap, parseId, parseParam, serializeRow, validateBody } from './validation';
+
+const chargeFields: FieldMap = {
+  amount: { type: 'real', required: true, min: 0.01 },
+  invoice_id: { type: 'integer', min: 1 },
+  reference: { type: 'text', maxLength: 64 },
+  note: { type: 'text', maxLength: 255 },
+  // A manager's signed approval from /auth/escalate to charge beyond the credit limit
+  approval: { type: 'text', maxLength: 2048 },
+  created_by: { type: 'integer', min: 1 }
+};
+
+const paymentFields: FieldMap = {
+  amount: { type: 'real', required: true, min: 0.01 },
+  method: { type: 'text', required: true, enum: ['CASH', 'CARD', 'WALLET', 'BANK'] },
+  reference: { type: 'text', maxLength: 64 },
+  note: { type: 'text', maxLength: 255 },
+  created_by: { type: 'integer', min: 1 }
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function balanceOf(customerId: number): number {
+  const row = db.get<{ balance: number }>(
+    'SELECT COALESCE(SUM(amount), 0) AS balance FROM customer_ledger WHERE customer_id = ?',
+    [customerId]
+  );
+  return round2(row?.balance ?? 0);
+}
+
+function accountOf(customer: Record<string, any>) {
+  const balance = balanceOf(customer.id);
+  const creditLimit = Number(customer.credit_limit ?? 0);
+  return {
+    customer_id: customer.id,
+    customer_name: customer.customer_name,
+    credit_limit: creditLimit,
+    balance,
+    available: round2(Math.max(0, creditLimit - balance))
+  };
+}
+
+interface AgedRow {
+  customer_id: number;
+  customer_name: string;
+  days_0_30: number;
+  days_31_60: number;
+  days_61_90: number;
+  days_90_plus: number;
+  balance: number;
+}
+
+/**
+ * Age each customer's open balance. Payments settle the oldest charges first, so whatever is
+ * left of a charge is aged from the day it was posted.
+ */
+function ageReceivables(asOf: Date): AgedRow[] {
+  const entries = db.query<{ customer_id: number; customer_name: string; amount: number; at: string }>(
+    `SELECT l.customer_id, c.customer_name, l.amount, l.at
+       FROM customer_ledger l
+       JOIN customers c ON c.id = l.customer_id
+      WHERE l.at <= ?
+      ORDER BY l.customer_id, l.at, l.id`,
+    [asOf.toISOString().replace('T', ' ').slice(0, 19)]
+  );
+
+  const byCustomer = new Map<number, typeof entries>();
+  for (const entry of entries) {
+    const list = byCustomer.get(entry.customer_id) ?? [];
+    list.push(entry);
+    byCustomer.set(entry.customer_id, list);
+  }
+
+  const rows: AgedRow[] = [];
+  for (const [customerId, list] of byCustomer) {
+    let credit = -list.filter(e => e.amount < 0).reduce((sum, e) => sum + e.amount, 0);
+    const row: AgedRow = {
+      customer_id: customerId,
+      customer_name: list[0].customer_name,
+      days_0_30: 0,
+      days_31_60: 0,
+      days_61_90: 0,
+      days_90_plus: 0,
+      balance: 0
+    };
+
+    for (const charge of list.filter(e => e.amount > 0)) {
+      const settled = Math.min(credit, charge.amount);
+      credit -= settled;
+      const open = charge.amount - settled;
+      if (open <= 0) continue;
+
+      // SQLite CURRENT_TIMESTAMP is UTC without a zone marker
+      const postedAt = new Date(charge.at.includes('T') ? charge.at : `${charge.at.replace(' ', 'T')}Z`);
+      const age = Math.floor((asOf.getTime() - postedAt.getTime()) / DAY_MS);
+      if (age <= 30) row.days_0_30 += open;
+      else if (age <= 60) row.days_31_60 += open;
+      else if (age <= 90) row.days_61_90 += open;
+      else row.days_90_plus += open;
+      row.balance += open;
+    }
+
+    if (row.balance > 0) {
+      rows.push({
+        ...row,
+        days_0_30: round2(row.days_0_30),
+        days_31_60: round2(row.days_31_60),
+        days_61_90: round2(row.days_61_90),
+        days_90_plus: round2(row.days_90_plus),
+        balance: round2(row.balance)
+      });
+    }
+  }
+
+  return rows.sort((a, b) => b.balance - a.balance);
+}
+
+// Who allows this charge beyond the available credit: the signed-in user if their own grant covers
+// it, otherwise the manager whose approval for at least the amount, this customer and this sale or
+// charge was given to them. An approval is used up by the charge it allows.
+function overLimitApprover(
+  session: SessionClaims,
+  amount: number,
+  token: unknown,
+  customerId: number,
+  reference: string | undefined
+): number | null {
+  const grant = { permission: 'CREDIT_LIMIT_OVERRIDE', amount };
+  if (canGrant(session, grant)) return session.sub;
+  const approval = typeof token === 'string' ? verifyApproval(token) : null;
+  if (
+    !approval ||
+    approval.sub !== session.sub ||
+    approval.permission !== grant.permission ||
+    (approval.amount ?? 0) < amount ||
+    approval.customer_id !== customerId ||
+    !reference ||
+    approval.reference !== reference
+  ) {
+    return null;
+  }
+  if (db.get('SELECT 1 FROM used_approvals WHERE id = ?', [approval.id])) {
+    throw new HttpError(409, 'APPROVAL_USED', 'This approval has already been used; ask a manager to approve the charge again');
+  }
+  db.run('INSERT INTO used_approvals (id, customer_id, reference) VALUES (?, ?, ?)', [approval.id, customerId, reference]);
+  return approval.approver;
+}
+
+/**
+ * Post a charge to the customer's account; call inside a transaction. Charges beyond the
+ * available credit are refused unless overLimitApprover finds who allows them; `reference` is the
+ * sale or charge an approval must have been given for.
+ */
+export function chargeAccount(
+  customerId: number,
+  values: Record<string, unknown>,
+  session: SessionClaims,
+  reference = values.reference as string | undefined
+) {
+  const { approval, ...charge } = values;
+  const account = accountOf(requireById(customers, customerId));
+  const amount = charge.amount as number;
+  const approvedBy = amount > account.available ? overLimitApprover(session, amount, approval, customerId, reference) : null;
+  if (amount > account.available && approvedBy === null) {
+    throw new HttpError(
+      409,
+      'CREDIT_LIMIT_EXCEEDED',
+      `Charge of ${amount.toFixed(2)} exceeds the available credit of ${account.available.toFixed(2)}`,
+      account
+    );
+  }
+  const entry = insertRow(customerLedger, { ...charge, approved_by: approvedBy, customer_id: customerId, type: 'CHARGE' });
+  return { entry, account: accountOf(requireById(customers, customerId)) };
+}
+
+// Credit accounts on top of the generic customer CRUD routes
+function extend(router: Router) {
+  router.get('/aged-receivables', handle((req, res) => {
+    const asOf = req.query.as_of !== undefined
+      ? new Date(parseParam('as_of', { type: 'datetime' }, req.query.as_of) as string)
+      : new Date();
+    const rows = ageReceivables(asOf);
+    const totals = rows.reduce(
+      (sum, row) => ({
+        days_0_30: round2(sum.days_0_30 + row.days_0_30),
+        days_31_60: round2(sum.days_31_60 + row.days_31_60),
+        days_61_90: round2(sum.days_61_90 + row.days_61_90),
+        days_90_plus: round2(sum.days_90_plus + row.days_90_plus),
+        balance: round2(sum.balance + row.balance)
+      }),
+      { days_0_30: 0, days_31_60: 0, days_61_90: 0, days_90_plus: 0, balance: 0 }
+    );
+    res.json({ success: true, as_of: asOf.toISOString(), rows, totals });
+  }));
+
+  router.get('/:id/account', handle((req, res) => {
+    const customer = requireById(customers, parseId(req.params.id));
+    res.json({ success: true, account: accountOf(customer) });
+  }));
+
+  // Oldest first, with the balance after each entry
+  router.get('/:id/ledger', handle((req, res) => {
+    const customer = requireById(customers, parseId(req.params.id));
+    const rows = db.query<Record<string, any>>(
+      'SELECT * FROM customer_ledger WHERE customer_id = ? ORDER BY at, id',
+      [customer.id]
+    );
+    let running = 0;
+    const entries = rows.map(row => {
+      running = round2(running + Number(row.amount));
+      return { ...serializeRow(customerLedger.fields, row), running_balance: running };
+    });
+    res.json({ success: true, account: accountOf(customer), entries });
+  }));
+
+  router.post('/:id/charges', handle(async (req, res) => {
+    const id = parseId(req.params.id);
+    const values = validateBody(chargeFields, req.body, 'create');
+
+    await acquire(undefined);
+    const result = db.transaction(() => chargeAccount(id, values, res.locals.session));
+
+    res.status(201).json({ success: true, ...result });
+  }));
+
+  router.post('/:id/payments', handle(async (req, res) => {
+    const id = parseId(req.params.id);
+    const values = validateBody(paymentFields, req.body, 'create');
+
+    await acquire(undefined);
+    const result = db.transaction(() => {
+      const before = accountOf(requireById(customers, id));
+      const entry = insertRow(customerLedger, {
+        ...values,
+        amount: -(values.amount as number),
+        customer_id: id,
+        type: 'PAYMENT'
+      });
+      const after = accountOf(requireById(customers, id));
+      return {
+        entry,
+        account: after,
+        receipt: {
+          receipt_no: `PAY-${String(entry.id).padStart(6, '0')}`,
+          customer_id: id,
+          customer_name: after.customer_name,
+          amount: values.amount,
+          method: values.method,
+          reference: values.reference ?? null,
+          balance_before: before.balance,
+          balance_after: after.balance,
+          at: entry.at
+        }
+      };
+    });
+
+    res.status(201).json({ success: true, ...result });
+  }));
+}
+
+export const customersRouter = createCrudRouter({ ...customers, extend });
@@ -0,0 +1,105 @@
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * Error carrying an HTTP status and a stable machine-readable code.
+ * Every API failure is rendered as `{ success: false, error, code, details? }`.
+ */
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export class ValidationError extends HttpError {
+  constructor(details: FieldError[], message = 'Validation failed') {
+    super(400, 'VALIDATION_ERROR', message, details);
+    this.name = 'ValidationError';
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(resource: string, id?: string | number) {
+    super(404, 'NOT_FOUND', id !== undefined ? `${resource} ${id} not found` : `${resource} not found`);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message: string, details?: unknown) {
+    super(409, 'CONFLICT', message, details);
+    this.name = 'ConflictError';
+  }
+}
+
+// Wrap a handler so thrown errors reach the error middleware
+export function handle(fn: (req: Request, res: Response) => unknown): RequestHandler {
+  return (req, res, next) => {
+    try {
+      const result = fn(req, res);
+      if (result instanceof Promise) result.catch(next);
+    } catch (err) {
+      next(err);
+    }
+  };
+}
+
+// Translate better-sqlite3 constraint failures into client errors
+function fromSqliteError(err: any): HttpError | null {
+  const code: string | undefined = err?.code;
+  if (!code || !code.startsWith('SQLITE_CONSTRAINT')) return null;
+  if (code === 'SQLITE_CONSTRAINT_UNIQUE' || code === 'SQLITE_CONSTRAINT_PRIMARYKEY') {
+    return new ConflictError('A record with the same unique value already exists');
+  }
+  if (code === 'SQLITE_CONSTRAINT_FOREIGNKEY') {
+    return new ConflictError('Referenced record does not exist or is still in use');
+  }
+  if (code === 'SQLITE_CONSTRAINT_CHECK' || code === 'SQLITE_CONSTRAINT_NOTNULL') {
+    return new HttpError(400, 'CONSTRAINT_VIOLATION', err.message);
+  }
+  // Triggers that check the acting session's permissions; see session_may in db.ts
+  const denied = /^PERMISSION_REQUIRED: (.*)$/.exec(err.message ?? '');
+  if (code === 'SQLITE_CONSTRAINT_TRIGGER' && denied) {
+    return new HttpError(403, 'PERMISSION_REQUIRED', denied[1]);
+  }
+  return new ConflictError(err.message);
+}
+
+export function notFoundHandler(req: Request, _res: Response, next: NextFunction) {
+  next(new HttpError(404, 'ROUTE_NOT_FOUND', `No route for ${req.method} ${req.baseUrl}${req.path}`));
+}
+
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+export function errorHandler(err: any, _req: Request, res: Response, _next: NextFunction) {
+  const httpError =
+    err instanceof HttpError
+      ? err
+      : fromSqliteError(err) ??
+        (err?.type === 'entity.parse.failed'
+          ? new HttpError(400, 'INVALID_JSON', 'Request body is not valid JSON')
+          : null);
+
+  if (!httpError) {
+    console.error('Unhandled API error:', err);
+    res.status(500).json({ success: false, error: 'Internal server error', code: 'INTERNAL_ERROR' });
+    return;
+  }
+
+  const body: Record<string, unknown> = {
+    success: false,
+    error: httpError.message,
+    code: httpError.code
+  };
+  if (httpError.details !== undefined) body.details = httpError.details;
+  res.status(httpError.status).json(body);
+}
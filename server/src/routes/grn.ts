@@ -0,0 +1,203 @@
+import { Router } from 'express';
+import { db } from '../db';
+import { acquire } from '../lease';
+import { requirePermission } from './auth';
+import { HttpError, NotFoundError, handle } from './errors';
+import { requireById } from './crud';
+import { checkReceipt, syncStatus } from './purchaseOrders';
+import { purchaseOrders } from './resources';
+import { FieldMap, parseId, validateBody } from './validation';
+
+/**
+ * Posting of terminal GRNs (the grn table). The terminal keys the GRN in; posting is done here so
+ * stock, batches, product cost and its history only ever change together, and a GRN against a
+ * purchase order is held to the order's tolerance at the moment it is posted.
+ *
+ * Other charges (freight, duty) are landed onto the lines by value, weight or quantity, so
+ * batches and product cost carry what the goods cost to bring in.
+ */
+
+export type LandedCostMethod = 'value' | 'weight' | 'qty';
+export type CostUpdatePolicy = 'none' | 'average' | 'latest';
+
+export interface AllocatableLine {
+  qty: number;
+  unit_cost: number;
+  conv_to_base?: number | null;
+  weight_kg?: number | null;
+  unit?: string | null; // the product's base unit; kg and g lines weigh their quantity
+}
+
+const postFields: FieldMap = {
+  update_cost_policy: { type: 'text', enum: ['none', 'average', 'latest'] },
+  landed_cost_method: { type: 'text', enum: ['value', 'weight', 'qty'] }
+};
+
+const METHOD_LABELS: Record<LandedCostMethod, string> = { value: 'by value', weight: 'by weight', qty: 'by quantity' };
+
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+const roundCurrency = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const baseQtyOf = (line: AllocatableLine) => line.qty * (line.conv_to_base ?? 1);
+
+function allocationBasis(line: AllocatableLine, method: LandedCostMethod): number {
+  switch (method) {
+    case 'weight':
+      if (line.weight_kg !== null && line.weight_kg !== undefined) return line.weight_kg;
+      if (line.unit === 'kg') return baseQtyOf(line);
+      if (line.unit === 'g') return baseQtyOf(line) / 1000;
+      return 0;
+    case 'qty':
+      return baseQtyOf(line);
+    default:
+      return line.qty * line.unit_cost;
+  }
+}
+
+/**
+ * Each line's share of `charges`, in line order, rounded to cents with the remainder on the
+ * largest line. The terminal previews the same split with src/lib/landedCost.ts.
+ */
+export function allocateLandedCost(lines: AllocatableLine[], charges: number, method: LandedCostMethod): number[] {
+  if (!(charges > 0) || lines.length === 0) return lines.map(() => 0);
+
+  const bases = lines.map(line => Math.max(allocationBasis(line, method), 0));
+  const totalBasis = bases.reduce((sum, basis) => sum + basis, 0);
+  if (!(totalBasis > 0)) {
+    throw new HttpError(
+      422,
+      'NOTHING_TO_ALLOCATE',
+      `No line has a ${method === 'qty' ? 'quantity' : method} to allocate the other charges by`
+    );
+  }
+
+  const shares = bases.map(basis => roundCurrency((charges * basis) / totalBasis));
+  const remainder = roundCurrency(charges - shares.reduce((sum, share) => sum + share, 0));
+  if (remainder !== 0) {
+    const largest = bases.indexOf(Math.max(...bases));
+    shares[largest] = roundCurrency(shares[largest] + remainder);
+  }
+  return shares;
+}
+
+/** Cost of one base unit of a line once its share of the charges is added */
+export function landedUnitCost(line: AllocatableLine, share: number): number {
+  const baseQty = baseQtyOf(line);
+  if (!(baseQty > 0)) return round4(line.unit_cost / (line.conv_to_base ?? 1));
+  return round4((line.qty * line.unit_cost + share) / baseQty);
+}
+
+/** Product cost after receiving at `receivedCost`; 'average' is the mean of the old and received cost */
+export function nextProductCost(current: number | null, receivedCost: number, policy: CostUpdatePolicy): number | null {
+  switch (policy) {
+    case 'latest':
+      return receivedCost;
+    case 'average':
+      return current === null ? receivedCost : round4((current + receivedCost) / 2);
+    default:
+      return current;
+  }
+}
+
+interface GrnLineRow extends AllocatableLine {
+  id: number;
+  product_id: number;
+  batch_no: string | null;
+  expiry_date: string | null;
+  line_total: number | null;
+}
+
+function postGrn(id: number, policy: CostUpdatePolicy, requestedMethod?: LandedCostMethod) {
+  const grn = db.get<Record<string, any>>('SELECT * FROM grn WHERE id = ?', [id]);
+  if (!grn) throw new NotFoundError('grn', id);
+  if (grn.status !== 'OPEN') {
+    throw new HttpError(409, 'GRN_NOT_OPEN', `GRN ${grn.grn_no} is ${String(grn.status).toLowerCase()}; only OPEN GRNs can be posted`);
+  }
+  if (grn.po_id) checkReceipt(requireById(purchaseOrders, grn.po_id), id);
+
+  const lines = db.query<GrnLineRow>(
+    `SELECT gl.id, gl.product_id, gl.qty, gl.unit_cost, gl.conv_to_base, gl.weight_kg, gl.batch_no,
+            gl.expiry_date, gl.line_total, p.unit
+       FROM grn_lines gl
+       JOIN products p ON p.id = gl.product_id
+      WHERE gl.grn_id = ?
+      ORDER BY gl.id`,
+    [id]
+  );
+
+  // Tax is recoverable; other charges are landed onto the lines
+  const subtotal = lines.reduce((sum, line) => sum + (line.line_total ?? line.qty * line.unit_cost), 0);
+  const tax = Number(grn.tax) || 0;
+  const other = Number(grn.other) || 0;
+  const method: LandedCostMethod = requestedMethod ?? grn.landed_cost_method ?? 'value';
+  const shares = allocateLandedCost(lines, other, method);
+  const receivedAt = new Date().toISOString();
+
+  lines.forEach((line, index) => {
+    const baseQty = baseQtyOf(line);
+    const unitCost = landedUnitCost(line, shares[index]);
+
+    db.run(
+      `INSERT INTO inventory_movements (product_id, qty, type, reason, note, store_id, unit_cost)
+       VALUES (?, ?, 'RECEIVE', 'GRN', ?, ?, ?)`,
+      [line.product_id, baseQty, grn.grn_no, grn.store_id ?? null, unitCost]
+    );
+    const batch = db.run(
+      `INSERT INTO batches (product_id, batch_code, expiry, qty_on_hand, cost, grn_id, received_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [line.product_id, line.batch_no, line.expiry_date, baseQty, unitCost, id, receivedAt]
+    );
+    db.run('UPDATE grn_lines SET batch_id = ?, landed_cost = ? WHERE id = ?', [
+      Number(batch.lastInsertRowid),
+      shares[index],
+      line.id
+    ]);
+    db.run(`INSERT INTO stock_movements (product_id, batch_id, qty, reason) VALUES (?, ?, ?, 'GRN')`, [
+      line.product_id,
+      Number(batch.lastInsertRowid),
+      baseQty
+    ]);
+
+    // Lines are costed in order, so a product on several lines averages each one in
+    const oldCost = db.get<{ cost: number | null }>('SELECT cost FROM products WHERE id = ?', [line.product_id])?.cost ?? null;
+    const newCost = nextProductCost(oldCost, unitCost, policy);
+    if (newCost !== null && newCost !== oldCost) {
+      db.run('UPDATE products SET cost = ? WHERE id = ?', [newCost, line.product_id]);
+      const landed = shares[index] > 0 ? `, incl. ${shares[index].toFixed(2)} other charges ${METHOD_LABELS[method]}` : '';
+      db.run('INSERT INTO cost_history (product_id, old_cost, new_cost, reason) VALUES (?, ?, ?, ?)', [
+        line.product_id,
+        oldCost,
+        newCost,
+        `GRN ${grn.grn_no} (${policy} cost${landed})`
+      ]);
+    }
+  });
+
+  db.run(
+    `UPDATE grn SET subtotal = ?, tax = ?, other = ?, total = ?, landed_cost_method = ?, status = 'POSTED' WHERE id = ?`,
+    [subtotal, tax, other, subtotal + tax + other, method, id]
+  );
+  if (grn.po_id) syncStatus(grn.po_id);
+
+  return {
+    grn: db.get('SELECT * FROM grn WHERE id = ?', [id]),
+    lines: db.query('SELECT * FROM grn_lines WHERE grn_id = ? ORDER BY id', [id])
+  };
+}
+
+export const grnRouter = Router();
+
+grnRouter.post('/:id/post', requirePermission('GRN_POST'), handle(async (req, res) => {
+  const id = parseId(req.params.id);
+  const values = validateBody(postFields, req.body ?? {}, 'create');
+
+  await acquire(undefined);
+  const result = db.transaction(() =>
+    postGrn(
+      id,
+      (values.update_cost_policy as CostUpdatePolicy | undefined) ?? 'latest',
+      values.landed_cost_method as LandedCostMethod | undefined
+    )
+  );
+  res.json({ success: true, ...result });
+}));
@@ -0,0 +1,104 @@
+import { Router } from 'express';
+import { auditRouter } from './audit';
+import { authRouter, authenticate, requireSession } from './auth';
+import { backupsRouter } from './backups';
+import { batchesRouter } from './batches';
+import { costingRouter } from './costing';
+import { createCrudRouter } from './crud';
+import { customersRouter } from './customers';
+import { errorHandler, notFoundHandler } from './errors';
+import { grnRouter } from './grn';
+import { printersRouter } from './printers';
+import { productsRouter } from './products';
+import { purchaseOrdersRouter } from './purchaseOrders';
+import { rbacRouter } from './rbac';
+import { remindersRouter } from './reminders';
+import { reportsRouter } from './reports';
+import * as resources from './resources';
+import { returnsRouter } from './returns';
+import { salesRouter } from './sales';
+import { sqlPing, sqlRouter, waitForLease } from './sql';
+import { supplierReturnsRouter } from './supplierReturns';
+import { terminalsRouter } from './terminals';
+import { transfersRouter } from './transfers';
+
+export const api = Router();
+
+// Signed terminal sessions; PIN login and manager escalation
+api.use(authenticate);
+api.use(waitForLease);
+api.use('/auth', authRouter);
+api.get('/sql/ping', sqlPing);
+
+// Everything else needs a signed-in terminal
+api.use(requireSession());
+
+api.use('/products', productsRouter);
+api.use('/categories', createCrudRouter(resources.categories));
+api.use('/suppliers', createCrudRouter(resources.suppliers));
+api.use('/discount-rules', createCrudRouter(resources.discountRules));
+api.use('/tax-codes', createCrudRouter(resources.taxCodes));
+
+// Sales
+api.use('/sales', salesRouter);
+api.use('/sale-lines', createCrudRouter(resources.saleLines));
+api.use('/invoices', createCrudRouter(resources.invoices));
+api.use('/invoice-payments', createCrudRouter(resources.invoicePayments));
+api.use('/returns', returnsRouter);
+api.use('/return-items', createCrudRouter(resources.returnItems));
+api.use('/shifts', createCrudRouter(resources.shifts));
+api.use('/cash-movements', createCrudRouter(resources.cashMovements));
+api.use('/audit-logs', createCrudRouter(resources.auditLogs));
+api.use('/audit', auditRouter);
+api.use('/reports', reportsRouter);
+
+// Purchasing & stock
+api.use('/purchase-orders', purchaseOrdersRouter);
+api.use('/po-lines', createCrudRouter(resources.poLines));
+api.use('/grns', createCrudRouter(resources.grnReceipts));
+api.use('/grn-lines', createCrudRouter(resources.grnLines));
+api.use('/grn', grnRouter);
+api.use('/supplier-returns', supplierReturnsRouter);
+api.use('/supplier-return-lines', createCrudRouter(resources.supplierReturnLines));
+api.use('/supplier-return-credits', createCrudRouter(resources.supplierReturnCredits));
+api.use('/cost-history', createCrudRouter(resources.costHistory));
+api.use('/costing', costingRouter);
+api.use('/batches', batchesRouter);
+api.use('/stock-movements', createCrudRouter(resources.stockMovements));
+api.use('/uoms', createCrudRouter(resources.uoms));
+api.use('/product-uoms', createCrudRouter(resources.productUoms));
+
+// Customers, messaging & promotions
+api.use('/customers', customersRouter);
+api.use('/customer-ledger', createCrudRouter(resources.customerLedger));
+api.use('/message-templates', createCrudRouter(resources.messageTemplates));
+api.use('/reminders', remindersRouter);
+api.use('/promotions', createCrudRouter(resources.promotions));
+api.use('/promotion-rules', createCrudRouter(resources.promotionRules));
+api.use('/promotion-scopes', createCrudRouter(resources.promotionScopes));
+
+// Users & RBAC
+api.use('/users', createCrudRouter(resources.users));
+api.use('/roles', createCrudRouter(resources.roles));
+api.use('/user-roles', createCrudRouter(resources.userRoles));
+api.use('/role-permissions', createCrudRouter(resources.rolePermissions));
+api.use('/rbac', rbacRouter);
+
+// Multi-store
+api.use('/stores', createCrudRouter(resources.stores));
+api.use('/terminals', terminalsRouter);
+api.use('/store-stock', createCrudRouter(resources.storeStock));
+api.use('/transfers', transfersRouter);
+api.use('/transfer-lines', createCrudRouter(resources.transferLines));
+
+// Raw ESC/POS jobs for network receipt printers
+api.use('/printers', printersRouter);
+
+// Encrypted database backups
+api.use('/backups', backupsRouter);
+
+// Statement-level provider for terminals in LAN-server mode
+api.use('/sql', sqlRouter);
+
+api.use(notFoundHandler);
+api.use(errorHandler);
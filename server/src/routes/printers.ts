@@ -0,0 +1,70 @@
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+import express, { Router } from 'express';
+import { HttpError, handle } from './errors';
+import { parseParam } from './validation';
+
+const SEND_TIMEOUT_MS = Number(process.env.PRINTER_SEND_TIMEOUT_MS || 10000);
+const MAX_JOB_SIZE = process.env.PRINTER_MAX_JOB_SIZE || '2mb';
+
+/**
+ * Raw print jobs for network receipt and label printers. Terminals encode receipts as ESC/POS
+ * and labels as ZPL or TSPL, and the server forwards the bytes unchanged to the printer's raw
+ * TCP port (9100), since browsers cannot open sockets. PRINTER_TRANSPORT=file writes each job
+ * to PRINTER_CAPTURE_DIR (default data/print-capture) instead, so it can be checked without a
+ * printer.
+ */
+export const printersRouter = Router();
+
+printersRouter.post(
+  '/raw',
+  express.raw({ type: 'application/octet-stream', limit: MAX_JOB_SIZE }),
+  handle(async (req, res) => {
+    const host = parseParam('host', { type: 'text', required: true, maxLength: 255 }, req.query.host) as string;
+    const port = req.query.port === undefined
+      ? 9100
+      : parseParam('port', { type: 'integer', min: 1, max: 65535 }, req.query.port) as number;
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      throw new HttpError(400, 'EMPTY_PRINT_JOB', 'Send the print job as an application/octet-stream body');
+    }
+
+    if (process.env.PRINTER_TRANSPORT === 'file') {
+      const file = await captureJob(host, port, req.body);
+      res.json({ success: true, transport: 'file', bytes: req.body.length, file });
+      return;
+    }
+
+    await sendRaw(host, port, req.body);
+    res.json({ success: true, transport: 'tcp', bytes: req.body.length });
+  })
+);
+
+function sendRaw(host: string, port: number, job: Buffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect({ host, port });
+    socket.setTimeout(SEND_TIMEOUT_MS);
+
+    socket.once('connect', () => socket.end(job));
+    socket.once('timeout', () => {
+      socket.destroy();
+      reject(new HttpError(504, 'PRINTER_TIMEOUT', `Printer ${host}:${port} did not respond`));
+    });
+    socket.once('error', error => {
+      reject(new HttpError(502, 'PRINTER_UNREACHABLE', `Printer ${host}:${port} unreachable: ${error.message}`));
+    });
+    // Raw-port printers close their end once the job is spooled
+    socket.once('close', hadError => {
+      if (!hadError) resolve();
+    });
+  });
+}
+
+async function captureJob(host: string, port: number, job: Buffer): Promise<string> {
+  const dir = process.env.PRINTER_CAPTURE_DIR || path.join(process.cwd(), 'data', 'print-capture');
+  await fs.promises.mkdir(dir, { recursive: true });
+  const name = `${new Date().toISOString().replace(/[:.]/g, '-')}_${host.replace(/[^\w.-]/g, '_')}_${port}.bin`;
+  const file = path.join(dir, name);
+  await fs.promises.writeFile(file, job);
+  return file;
+}
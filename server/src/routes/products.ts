@@ -0,0 +1,62 @@
+import { Router } from 'express';
+import { db } from '../db';
+import { NotFoundError, handle } from './errors';
+import { createCrudRouter, listRows, requireById } from './crud';
+import { products } from './resources';
+import { parseId, serializeRow } from './validation';
+
+// A product's alternate units with their codes, e.g. a case of 24 or a 500 g pack
+const PACKS_SQL = `
+  SELECT pu.id, pu.product_id, pu.uom_id, u.code, u.name, pu.conv_to_base, pu.price_override, pu.barcode
+    FROM product_uom pu
+    JOIN uoms u ON u.id = pu.uom_id`;
+
+function packsOf(productIds: number[]): Map<number, Record<string, unknown>[]> {
+  const byProduct = new Map<number, Record<string, unknown>[]>();
+  if (productIds.length === 0) return byProduct;
+  const rows = db.query<Record<string, any>>(
+    `${PACKS_SQL} WHERE pu.product_id IN (${productIds.map(() => '?').join(', ')}) ORDER BY pu.conv_to_base`,
+    productIds
+  );
+  rows.forEach(row => byProduct.set(row.product_id, [...(byProduct.get(row.product_id) ?? []), row]));
+  return byProduct;
+}
+
+// Search results and scans carry their packs so the till can sell in any of them
+function withPacks(rows: Record<string, any>[]) {
+  const packs = packsOf(rows.map(row => row.id));
+  return rows.map(row => ({ ...row, uoms: packs.get(row.id) ?? [] }));
+}
+
+// POS lookups used by the scan/search box on top of the generic CRUD routes
+function extend(router: Router) {
+  router.get('/search', handle((req, res) => {
+    const { rows, total } = listRows(products, { ...req.query, sort: req.query.sort ?? 'name_en' });
+    res.json({ success: true, products: withPacks(rows), total });
+  }));
+
+  /**
+   * A product's own barcode or SKU resolves to the product in its base unit; a pack barcode
+   * resolves to the product together with the pack (`uom`) that was scanned.
+   */
+  router.get('/barcode/:code', handle((req, res) => {
+    const code = String(req.params.code).trim();
+    const row = db.get('SELECT * FROM products WHERE barcode = ? OR sku = ? LIMIT 1', [code, code]);
+    if (row) {
+      res.json({ success: true, product: withPacks([serializeRow(products.fields, row)])[0], uom: null });
+      return;
+    }
+
+    const pack = db.get<Record<string, any>>(`${PACKS_SQL} WHERE pu.barcode = ? LIMIT 1`, [code]);
+    if (!pack) throw new NotFoundError('product', code);
+    const product = serializeRow(products.fields, requireById(products, pack.product_id));
+    res.json({ success: true, product: withPacks([product])[0], uom: pack });
+  }));
+
+  router.get('/:id/uoms', handle((req, res) => {
+    const product = requireById(products, parseId(req.params.id));
+    res.json({ success: true, uoms: packsOf([product.id]).get(product.id) ?? [] });
+  }));
+}
+
+export const productsRouter = createCrudRouter({ ...products, extend });
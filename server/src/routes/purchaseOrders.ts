@@ -0,0 +1,341 @@
+import { Router } from 'express';
+import { db } from '../db';
+import { acquire } from '../lease';
+import { reminderTransports } from '../jobs/reminderDispatcher';
+import { requirePermission } from './auth';
+import { FieldError, HttpError, ValidationError, handle } from './errors';
+import { createCrudRouter, insertRow, requireById, updateRow } from './crud';
+import { poLines, purchaseOrders, suppliers } from './resources';
+import { FieldMap, parseId, parseParam, validateBody } from './validation';
+
+export type LineReceiptStatus = 'PENDING' | 'PARTIAL' | 'COMPLETE' | 'OVER';
+
+const lineFields: FieldMap = {
+  product_id: poLines.fields.product_id,
+  uom: poLines.fields.uom,
+  qty: { type: 'real', required: true, min: 0.001 },
+  unit_cost: poLines.fields.unit_cost
+};
+
+// A line of a GRN still being keyed in, in base units
+const receiptLineFields: FieldMap = {
+  product_id: poLines.fields.product_id,
+  qty: { type: 'real', required: true, min: 0 }
+};
+
+const closeFields: FieldMap = {
+  reason: { type: 'text', maxLength: 255 }
+};
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+const money = (value: number) => Number(value || 0).toFixed(2);
+
+// SQLite CURRENT_TIMESTAMP is UTC without a zone marker
+const sqliteTime = (date: Date) => date.toISOString().replace('T', ' ').slice(0, 19);
+
+/**
+ * Where a line stands against what was ordered. Anything within `tolerancePct` of the ordered
+ * quantity counts as complete, so a short delivery inside tolerance still closes the line.
+ */
+export function lineReceiptStatus(ordered: number, received: number, tolerancePct: number): LineReceiptStatus {
+  const tolerance = round3((ordered * tolerancePct) / 100);
+  const qty = round3(received);
+  if (qty > round3(ordered + tolerance)) return 'OVER';
+  if (qty >= round3(ordered - tolerance)) return 'COMPLETE';
+  return qty > 0 ? 'PARTIAL' : 'PENDING';
+}
+
+function nextPoNo(): string {
+  const prefix = `PO-${new Date().getFullYear()}-`;
+  const last = db.get<{ po_no: string }>(
+    'SELECT po_no FROM purchase_orders WHERE po_no LIKE ? ORDER BY po_no DESC LIMIT 1',
+    [`${prefix}%`]
+  );
+  const next = last ? Number(last.po_no.slice(prefix.length)) + 1 : 1;
+  return `${prefix}${String(next).padStart(6, '0')}`;
+}
+
+// Quantities already received per product in base units: the POSTED terminal GRNs that reference the PO
+function receivedByProduct(poId: number, excludeGrnId?: number): Map<number, number> {
+  const rows = db.query<{ product_id: number; qty: number }>(
+    `SELECT gl.product_id, SUM(gl.qty * gl.conv_to_base) AS qty
+       FROM grn_lines gl
+       JOIN grn g ON g.id = gl.grn_id
+      WHERE g.po_id = ? AND g.status = 'POSTED' AND g.id != ?
+      GROUP BY gl.product_id`,
+    [poId, excludeGrnId ?? 0]
+  );
+  return new Map(rows.map(row => [row.product_id, round3(row.qty)]));
+}
+
+function receivingOf(po: Record<string, any>) {
+  const received = receivedByProduct(po.id);
+  const tolerancePct = Number(po.tolerance_pct ?? 0);
+  const lines = db.query<Record<string, any>>(
+    `SELECT l.*, p.sku, p.name_en AS product_name, p.barcode
+       FROM po_lines l
+       LEFT JOIN products p ON p.id = l.product_id
+      WHERE l.po_id = ?
+      ORDER BY l.id`,
+    [po.id]
+  ).map(line => {
+    const qtyReceived = received.get(line.product_id) ?? 0;
+    return {
+      ...line,
+      qty_received: qtyReceived,
+      qty_outstanding: round3(Math.max(0, line.qty - qtyReceived)),
+      receipt_status: lineReceiptStatus(line.qty, qtyReceived, tolerancePct)
+    };
+  });
+  const receipts = db.query(
+    `SELECT id, grn_no, datetime, status, total FROM grn WHERE po_id = ? ORDER BY id`,
+    [po.id]
+  );
+  const supplier = db.get('SELECT * FROM suppliers WHERE id = ?', [po.supplier_id]) ?? null;
+  return { purchase_order: po, supplier, lines, receipts };
+}
+
+/**
+ * The order as emailed to the supplier, signed off with the company profile's name and address
+ * (or the first store's name when no profile has been set up)
+ */
+function renderOrderEmail({ purchase_order: po, supplier, lines }: {
+  purchase_order: Record<string, any>;
+  supplier: Record<string, any> | null;
+  lines: Record<string, any>[];
+}) {
+  const sender =
+    db.get<{ name: string; address: string | null }>('SELECT name, address FROM company_profile WHERE id = 1') ??
+    db.get<{ name: string; address: string | null }>('SELECT name, NULL AS address FROM stores ORDER BY id LIMIT 1');
+  const from = sender?.name ?? 'Purchasing';
+  const total = lines.reduce((sum, line) => sum + line.qty * line.unit_cost, 0);
+  const body = [
+    `Dear ${supplier?.supplier_name ?? 'Supplier'},`,
+    '',
+    `Please supply the following against purchase order ${po.po_no}` +
+      (po.expected_date ? `, for delivery by ${String(po.expected_date).slice(0, 10)}.` : '.'),
+    '',
+    ...lines.map((line, index) =>
+      `${index + 1}. ${line.sku ? `[${line.sku}] ` : ''}${line.product_name || 'Unknown Product'} - ` +
+      `${line.qty} ${line.uom} @ ${money(line.unit_cost)} = ${money(line.qty * line.unit_cost)}`
+    ),
+    '',
+    `Order total: ${money(total)}`,
+    ...(po.note ? ['', `Notes: ${po.note}`] : []),
+    '',
+    `Please quote ${po.po_no} on your delivery note and invoice.`,
+    '',
+    'Thank you,',
+    from,
+    ...(sender?.address ? [sender.address] : [])
+  ].join('\n');
+  return { subject: `Purchase Order ${po.po_no} from ${from}`, body };
+}
+
+/**
+ * Move an OPEN or PARTIAL order along from what has been received. It closes automatically
+ * once every line is complete within tolerance; closed and cancelled orders are left alone.
+ */
+export function syncStatus(poId: number) {
+  const po = requireById(purchaseOrders, poId);
+  if (po.status === 'CLOSED' || po.status === 'CANCELLED') return receivingOf(po);
+
+  const { lines } = receivingOf(po);
+  const complete = lines.length > 0 && lines.every(l => l.receipt_status === 'COMPLETE' || l.receipt_status === 'OVER');
+  const status = complete ? 'CLOSED' : lines.some(l => l.qty_received > 0) ? 'PARTIAL' : 'OPEN';
+  if (status === po.status) return receivingOf(po);
+
+  return receivingOf(updateRow(purchaseOrders, poId, {
+    status,
+    closed_at: status === 'CLOSED' ? sqliteTime(new Date()) : null
+  }));
+}
+
+function requireReceivable(po: Record<string, any>) {
+  if (po.status === 'CLOSED' || po.status === 'CANCELLED') {
+    throw new HttpError(409, 'PO_NOT_RECEIVABLE', `Purchase order ${po.po_no} is ${po.status.toLowerCase()}`);
+  }
+}
+
+// Each item of a `lines` array checked against `fields`; item errors are added to `errors` as lines[i].field
+function validateLines(rawLines: unknown, fields: FieldMap, errors: FieldError[]): Record<string, unknown>[] {
+  if (!Array.isArray(rawLines) || rawLines.length === 0) {
+    throw new ValidationError([{ field: 'lines', message: 'must be a non-empty array' }]);
+  }
+  return rawLines.map((raw, index) => {
+    try {
+      return validateBody(fields, raw, 'create');
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      errors.push(...(error.details as FieldError[]).map(e => ({ ...e, field: `lines[${index}].${e.field}` })));
+      return {};
+    }
+  });
+}
+
+// Incoming quantities per product against the order and what earlier GRNs already brought in
+function receiptLines(po: Record<string, any>, incoming: Array<{ product_id: number; qty: number }>, excludeGrnId?: number) {
+  const ordered = new Map(
+    db.query<{ product_id: number; qty: number }>('SELECT product_id, qty FROM po_lines WHERE po_id = ?', [po.id])
+      .map(line => [line.product_id, line.qty])
+  );
+  const received = receivedByProduct(po.id, excludeGrnId);
+  const tolerancePct = Number(po.tolerance_pct ?? 0);
+  return incoming.map(line => {
+    const qtyOrdered = ordered.get(line.product_id);
+    const qtyAfter = round3((received.get(line.product_id) ?? 0) + line.qty);
+    return {
+      product_id: line.product_id,
+      qty_ordered: qtyOrdered ?? 0,
+      qty_receiving: round3(line.qty),
+      qty_received_after: qtyAfter,
+      receipt_status: qtyOrdered === undefined ? 'NOT_ORDERED' : lineReceiptStatus(qtyOrdered, qtyAfter, tolerancePct)
+    };
+  });
+}
+
+/**
+ * A GRN's lines against what is still outstanding on `po`. Over-receipt beyond the order's
+ * tolerance, or a product that was not ordered, is refused with the offending lines.
+ */
+export function checkReceipt(po: Record<string, any>, grnId: number) {
+  requireReceivable(po);
+  const grn = db.get<Record<string, any>>('SELECT id, po_id, status FROM grn WHERE id = ?', [grnId]);
+  if (!grn) throw new HttpError(404, 'NOT_FOUND', `grn ${grnId} not found`);
+  if (grn.po_id !== po.id) {
+    throw new HttpError(409, 'GRN_PO_MISMATCH', `GRN ${grnId} is not linked to purchase order ${po.po_no}`);
+  }
+
+  const incoming = db.query<{ product_id: number; qty: number }>(
+    'SELECT product_id, SUM(qty * conv_to_base) AS qty FROM grn_lines WHERE grn_id = ? GROUP BY product_id',
+    [grnId]
+  );
+  const lines = receiptLines(po, incoming, grnId);
+  const tolerancePct = Number(po.tolerance_pct ?? 0);
+  const rejected = lines.filter(l => l.receipt_status === 'OVER' || l.receipt_status === 'NOT_ORDERED');
+  if (rejected.length > 0) {
+    throw new HttpError(
+      409,
+      'RECEIPT_OUTSIDE_TOLERANCE',
+      `${rejected.length} line(s) exceed purchase order ${po.po_no} beyond its ${tolerancePct}% tolerance`,
+      rejected
+    );
+  }
+  return lines;
+}
+
+// Creation with lines, receiving and supplier delivery on top of the generic PO routes
+function extend(router: Router) {
+  router.post('/', requirePermission('GRN_CREATE'), handle(async (req, res) => {
+    const { lines: rawLines, ...header } = (req.body ?? {}) as Record<string, unknown>;
+    const values = validateBody(purchaseOrders.fields, header, 'create');
+
+    const errors: FieldError[] = [];
+    const lines = validateLines(rawLines, lineFields, errors);
+    // Receipts are matched to lines by product, so each product may appear once
+    const seen = new Set<unknown>();
+    lines.forEach((line, index) => {
+      if (line.product_id === undefined) return;
+      if (seen.has(line.product_id)) errors.push({ field: `lines[${index}].product_id`, message: 'appears more than once' });
+      seen.add(line.product_id);
+    });
+    if (errors.length > 0) throw new ValidationError(errors);
+
+    await acquire(undefined);
+    const result = db.transaction(() => {
+      requireById(suppliers, values.supplier_id as number);
+      const po = insertRow(purchaseOrders, { ...values, po_no: nextPoNo(), status: 'OPEN' });
+      lines.forEach(line => insertRow(poLines, { ...line, po_id: po.id }));
+      return receivingOf(po);
+    });
+
+    res.status(201).json({ success: true, ...result });
+  }));
+
+  router.get('/:id/receiving', handle((req, res) => {
+    const po = requireById(purchaseOrders, parseId(req.params.id));
+    res.json({ success: true, ...receivingOf(po) });
+  }));
+
+  // Check a GRN against what is still outstanding before it is posted
+  router.post('/:id/check-receipt', handle((req, res) => {
+    const po = requireById(purchaseOrders, parseId(req.params.id));
+    const grnId = parseParam('grn_id', { type: 'integer', min: 1 }, req.body?.grn_id) as number;
+    res.json({ success: true, lines: checkReceipt(po, grnId) });
+  }));
+
+  // Where each line of a GRN still being keyed in would leave the order; nothing is refused here
+  router.post('/:id/preview-receipt', handle((req, res) => {
+    const po = requireById(purchaseOrders, parseId(req.params.id));
+    const errors: FieldError[] = [];
+    const lines = validateLines(req.body?.lines, receiptLineFields, errors);
+    if (errors.length > 0) throw new ValidationError(errors);
+
+    const totals = new Map<number, number>();
+    lines.forEach(line => {
+      const productId = line.product_id as number;
+      totals.set(productId, (totals.get(productId) ?? 0) + (line.qty as number));
+    });
+    const incoming = [...totals].map(([product_id, qty]) => ({ product_id, qty }));
+    res.json({ success: true, lines: receiptLines(po, incoming) });
+  }));
+
+  // Called after a linked GRN is posted; closes the order when everything has arrived
+  router.post('/:id/sync', requirePermission('GRN_CREATE'), handle(async (req, res) => {
+    const id = parseId(req.params.id);
+    await acquire(undefined);
+    res.json({ success: true, ...db.transaction(() => syncStatus(id)) });
+  }));
+
+  // Short-close: nothing more is expected against the order
+  router.post('/:id/close', requirePermission('GRN_CREATE'), handle(async (req, res) => {
+    const id = parseId(req.params.id);
+    const { reason } = validateBody(closeFields, req.body ?? {}, 'create');
+
+    await acquire(undefined);
+    const result = db.transaction(() => {
+      const po = requireById(purchaseOrders, id);
+      requireReceivable(po);
+      const note = reason ? [po.note, `Closed: ${reason}`].filter(Boolean).join(' | ') : po.note;
+      return receivingOf(updateRow(purchaseOrders, id, { status: 'CLOSED', closed_at: sqliteTime(new Date()), note }));
+    });
+    res.json({ success: true, ...result });
+  }));
+
+  router.post('/:id/cancel', requirePermission('GRN_CREATE'), handle(async (req, res) => {
+    const id = parseId(req.params.id);
+    await acquire(undefined);
+    const result = db.transaction(() => {
+      const po = requireById(purchaseOrders, id);
+      requireReceivable(po);
+      if (receivedByProduct(id).size > 0) {
+        throw new HttpError(409, 'PO_HAS_RECEIPTS', `Purchase order ${po.po_no} has received goods; close it instead`);
+      }
+      return receivingOf(updateRow(purchaseOrders, id, { status: 'CANCELLED', closed_at: sqliteTime(new Date()) }));
+    });
+    res.json({ success: true, ...result });
+  }));
+
+  // Send the order to the supplier's address on file through the server's email transport
+  router.post('/:id/email', requirePermission('GRN_CREATE'), handle(async (req, res) => {
+    const po = requireById(purchaseOrders, parseId(req.params.id));
+    const supplier = requireById(suppliers, po.supplier_id);
+    const to = supplier.contact_email as string | null;
+    if (!to) {
+      throw new HttpError(400, 'NO_EMAIL', `Supplier ${supplier.supplier_name} has no email address`);
+    }
+
+    const { subject, body } = renderOrderEmail(receivingOf(po));
+    try {
+      await reminderTransports().email.send({ channel: 'email', to, subject, body, reference: `po-${po.id}` });
+    } catch (error) {
+      throw new HttpError(502, 'EMAIL_FAILED', error instanceof Error ? error.message : String(error));
+    }
+
+    const updated = updateRow(purchaseOrders, po.id, { sent_at: sqliteTime(new Date()) });
+    res.json({ success: true, purchase_order: updated, to });
+  }));
+}
+
+export const purchaseOrdersRouter = createCrudRouter({ ...purchaseOrders, extend });
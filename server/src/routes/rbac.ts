@@ -0,0 +1,224 @@
+import { Router } from 'express';
+import { SessionClaims } from '../auth';
+import { db } from '../db';
+import { requirePermission, requireSession } from './auth';
+import { ConflictError, HttpError, NotFoundError, ValidationError, handle } from './errors';
+import { FieldMap, parseId, validateBody } from './validation';
+
+/**
+ * Roles and their permission grants, edited from the Users page. Anyone signed in can read the
+ * matrix; changes need USER_MANAGEMENT and each one is written to audit_logs as USER_ROLE_CHANGE.
+ * Built-in roles can be regranted but not renamed or deleted, and ADMIN always holds everything.
+ */
+export const rbacRouter = Router();
+
+const roleFields: FieldMap = {
+  name: { type: 'text', required: true, maxLength: 60 },
+  description: { type: 'text', maxLength: 200 }
+};
+
+interface RoleRow {
+  id: number;
+  name: string;
+  description: string | null;
+  builtin: number;
+}
+
+interface Grant {
+  permission: string;
+  max_amount: number | null;
+  max_percent: number | null;
+}
+
+function roleOr404(id: number): RoleRow {
+  const role = db.get<RoleRow>('SELECT id, name, description, builtin FROM roles WHERE id = ?', [id]);
+  if (!role) throw new NotFoundError('Role', id);
+  return role;
+}
+
+function grantsOfRole(roleId: number): Grant[] {
+  return db.query<Grant>(
+    'SELECT permission, max_amount, max_percent FROM role_permissions WHERE role_id = ? ORDER BY permission',
+    [roleId]
+  );
+}
+
+function serializeRole(role: RoleRow) {
+  const { count } = db.get<{ count: number }>(
+    `SELECT COUNT(*) AS count FROM users u
+      WHERE u.active = 1 AND (u.role = ? OR EXISTS (SELECT 1 FROM user_roles ur WHERE ur.user_id = u.id AND ur.role_id = ?))`,
+    [role.name, role.id]
+  )!;
+  return { ...role, builtin: !!role.builtin, grants: grantsOfRole(role.id), user_count: count };
+}
+
+function audit(actor: SessionClaims, meta: Record<string, unknown>) {
+  db.run('INSERT INTO audit_logs (action, actor_id, meta) VALUES (?, ?, ?)', [
+    'USER_ROLE_CHANGE',
+    actor.sub,
+    JSON.stringify({ ...meta, by: actor.name })
+  ]);
+}
+
+// A cap is a number from 0 to `max`, or null for no cap
+const isCap = (value: unknown, max = Infinity): value is number | null =>
+  value === null || (typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= max);
+
+function readGrants(raw: unknown): Grant[] {
+  if (!Array.isArray(raw)) throw new ValidationError([{ field: 'grants', message: 'must be an array' }]);
+  const errors: { field: string; message: string }[] = [];
+  const grants = new Map<string, Grant>();
+  raw.forEach((item: unknown, i) => {
+    const entry: Record<string, unknown> = item !== null && typeof item === 'object' ? { ...item } : {};
+    const permission = entry.permission;
+    if (typeof permission !== 'string' || !/^[A-Z][A-Z0-9_]{1,63}$/.test(permission)) {
+      errors.push({ field: `grants[${i}].permission`, message: 'must be a permission name' });
+      return;
+    }
+    const limit = entry.max_amount ?? null;
+    if (!isCap(limit)) {
+      errors.push({ field: `grants[${i}].max_amount`, message: 'must be a non-negative number or null' });
+      return;
+    }
+    const percent = entry.max_percent ?? null;
+    if (!isCap(percent, 100)) {
+      errors.push({ field: `grants[${i}].max_percent`, message: 'must be a number from 0 to 100 or null' });
+      return;
+    }
+    grants.set(permission, { permission, max_amount: limit, max_percent: percent });
+  });
+  if (errors.length) throw new ValidationError(errors);
+  return [...grants.values()];
+}
+
+rbacRouter.get('/', requireSession(), handle((_req, res) => {
+  const roles = db.query<RoleRow>('SELECT id, name, description, builtin FROM roles ORDER BY builtin DESC, name');
+  const assignments = db.query<{ user_id: number; role_id: number }>(
+    'SELECT user_id, role_id FROM user_roles ORDER BY user_id, role_id'
+  );
+  res.json({ success: true, roles: roles.map(serializeRole), assignments });
+}));
+
+rbacRouter.post('/roles', requirePermission('USER_MANAGEMENT'), handle((req, res) => {
+  const values = validateBody(roleFields, req.body, 'create');
+  if (db.get('SELECT 1 FROM roles WHERE name = ?', [values.name])) {
+    throw new ConflictError(`Role ${values.name} already exists`);
+  }
+  const { lastInsertRowid } = db.run('INSERT INTO roles (name, description) VALUES (?, ?)', [
+    values.name,
+    values.description ?? null
+  ]);
+  const role = roleOr404(Number(lastInsertRowid));
+  audit(res.locals.session, { change: 'role_created', role: role.name });
+  res.status(201).json({ success: true, role: serializeRole(role) });
+}));
+
+rbacRouter.patch('/roles/:id', requirePermission('USER_MANAGEMENT'), handle((req, res) => {
+  const role = roleOr404(parseId(req.params.id));
+  const values = validateBody(roleFields, req.body, 'update');
+  if (role.builtin && values.name !== undefined && values.name !== role.name) {
+    throw new HttpError(409, 'BUILTIN_ROLE', `Built-in role ${role.name} cannot be renamed`);
+  }
+  if (values.name !== undefined && db.get('SELECT 1 FROM roles WHERE name = ? AND id <> ?', [values.name, role.id])) {
+    throw new ConflictError(`Role ${values.name} already exists`);
+  }
+  db.transaction(() => {
+    const columns = Object.keys(values);
+    db.run(`UPDATE roles SET ${columns.map(c => `${c} = ?`).join(', ')} WHERE id = ?`, [
+      ...columns.map(c => values[c]),
+      role.id
+    ]);
+    // Users holding the role as their main role follow the rename
+    if (values.name !== undefined && values.name !== role.name) {
+      db.run('UPDATE users SET role = ? WHERE role = ?', [values.name, role.name]);
+    }
+  });
+  audit(res.locals.session, { change: 'role_updated', role: role.name, ...values });
+  res.json({ success: true, role: serializeRole(roleOr404(role.id)) });
+}));
+
+rbacRouter.delete('/roles/:id', requirePermission('USER_MANAGEMENT'), handle((req, res) => {
+  const role = roleOr404(parseId(req.params.id));
+  if (role.builtin) throw new HttpError(409, 'BUILTIN_ROLE', `Built-in role ${role.name} cannot be deleted`);
+  if (db.get('SELECT 1 FROM users WHERE role = ?', [role.name])) {
+    throw new ConflictError(`Role ${role.name} is the main role of some users; change their role first`);
+  }
+  const holders = db.query<{ user_id: number }>('SELECT user_id FROM user_roles WHERE role_id = ?', [role.id]);
+  db.transaction(() => {
+    db.run('DELETE FROM user_roles WHERE role_id = ?', [role.id]);
+    db.run('DELETE FROM role_permissions WHERE role_id = ?', [role.id]);
+    db.run('DELETE FROM roles WHERE id = ?', [role.id]);
+  });
+  audit(res.locals.session, { change: 'role_deleted', role: role.name, removed_from_users: holders.map(h => h.user_id) });
+  res.json({ success: true });
+}));
+
+// Replace a role's grants; the audit entry lists what was added, removed or re-limited
+rbacRouter.put('/roles/:id/grants', requirePermission('USER_MANAGEMENT'), handle((req, res) => {
+  const role = roleOr404(parseId(req.params.id));
+  if (role.name === 'ADMIN') throw new HttpError(409, 'BUILTIN_ROLE', 'ADMIN always holds every permission');
+  const grants = readGrants(req.body?.grants);
+  const before = new Map(grantsOfRole(role.id).map(g => [g.permission, g]));
+  const after = new Set(grants.map(g => g.permission));
+
+  db.transaction(() => {
+    db.run('DELETE FROM role_permissions WHERE role_id = ?', [role.id]);
+    grants.forEach(g =>
+      db.run('INSERT INTO role_permissions (role_id, permission, max_amount, max_percent) VALUES (?, ?, ?, ?)', [
+        role.id,
+        g.permission,
+        g.max_amount,
+        g.max_percent
+      ])
+    );
+  });
+
+  const added = grants.filter(g => !before.has(g.permission));
+  const removed = [...before.keys()].filter(p => !after.has(p));
+  const relimited = grants
+    .filter(g => {
+      const was = before.get(g.permission);
+      return was && (was.max_amount !== g.max_amount || was.max_percent !== g.max_percent);
+    })
+    .map(g => {
+      const was = before.get(g.permission)!;
+      return {
+        permission: g.permission,
+        from: { max_amount: was.max_amount, max_percent: was.max_percent },
+        to: { max_amount: g.max_amount, max_percent: g.max_percent }
+      };
+    });
+  if (added.length || removed.length || relimited.length) {
+    audit(res.locals.session, { change: 'grants_updated', role: role.name, added, removed, relimited });
+  }
+  res.json({ success: true, role: serializeRole(role) });
+}));
+
+// Replace the extra roles a user holds beside their main users.role
+rbacRouter.put('/users/:id/roles', requirePermission('USER_MANAGEMENT'), handle((req, res) => {
+  const userId = parseId(req.params.id);
+  const user = db.get<{ id: number; name: string }>('SELECT id, name FROM users WHERE id = ?', [userId]);
+  if (!user) throw new NotFoundError('User', userId);
+  const raw = req.body?.role_ids;
+  if (!Array.isArray(raw) || raw.some(id => !Number.isInteger(id) || id < 1)) {
+    throw new ValidationError([{ field: 'role_ids', message: 'must be an array of role ids' }]);
+  }
+  const roleIds = [...new Set<number>(raw)];
+  const roles = new Map(roleIds.map(id => [id, roleOr404(id).name]));
+  const before = db.query<{ role_id: number; name: string }>(
+    'SELECT ur.role_id, r.name FROM user_roles ur JOIN roles r ON r.id = ur.role_id WHERE ur.user_id = ?',
+    [userId]
+  );
+
+  db.transaction(() => {
+    db.run('DELETE FROM user_roles WHERE user_id = ?', [userId]);
+    roleIds.forEach(id => db.run('INSERT INTO user_roles (user_id, role_id) VALUES (?, ?)', [userId, id]));
+  });
+
+  const added = roleIds.filter(id => !before.some(b => b.role_id === id)).map(id => roles.get(id));
+  const removed = before.filter(b => !roles.has(b.role_id)).map(b => b.name);
+  if (added.length || removed.length) {
+    audit(res.locals.session, { change: 'user_roles_updated', user_id: userId, user_name: user.name, added, removed });
+  }
+  res.json({ success: true, user_id: userId, role_ids: roleIds });
+}));
@@ -0,0 +1,78 @@
+import { Router } from 'express';
+import { db } from '../db';
+import { dispatchDueReminders, lastDispatch, reminderTransports } from '../jobs/reminderDispatcher';
+import { HttpError, handle } from './errors';
+import { createCrudRouter, requireById, updateRow } from './crud';
+import { reminderQueue } from './resources';
+import { parseId } from './validation';
+
+function transportStatus() {
+  try {
+    const { email, sms } = reminderTransports();
+    return { email: email.name, sms: sms.name, error: null };
+  } catch (error) {
+    return { email: null, sms: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Dispatcher status and manual controls on top of the generic queue routes
+function extend(router: Router) {
+  router.get('/status', handle((_req, res) => {
+    const counts = db.query<{ status: string; count: number }>(
+      'SELECT status, COUNT(*) AS count FROM reminder_queue GROUP BY status'
+    );
+    const next = db.get<{ scheduled_at: string | null }>(
+      `SELECT MIN(datetime(scheduled_at)) AS scheduled_at FROM reminder_queue WHERE status = 'queued'`
+    );
+    const retrying = db.get<{ count: number }>(
+      `SELECT COUNT(*) AS count FROM reminder_queue WHERE status = 'queued' AND attempts > 0`
+    );
+    const recentFailures = db.query(
+      `SELECT r.id, r.customer_id, c.customer_name, r.invoice_id, r.channel, r.status, r.attempts,
+              r.scheduled_at, r.last_error
+         FROM reminder_queue r
+         LEFT JOIN customers c ON c.id = r.customer_id
+        WHERE r.last_error IS NOT NULL AND r.status != 'sent'
+        ORDER BY r.id DESC
+        LIMIT 20`
+    );
+
+    const byStatus = Object.fromEntries(counts.map(row => [row.status, row.count]));
+    res.json({
+      success: true,
+      counts: {
+        queued: byStatus.queued ?? 0,
+        sent: byStatus.sent ?? 0,
+        failed: byStatus.failed ?? 0,
+        retrying: retrying?.count ?? 0
+      },
+      next_scheduled_at: next?.scheduled_at ?? null,
+      last_run: lastDispatch(),
+      transports: transportStatus(),
+      recent_failures: recentFailures
+    });
+  }));
+
+  router.post('/dispatch', handle(async (_req, res) => {
+    const summary = await dispatchDueReminders();
+    res.json({ success: true, summary });
+  }));
+
+  // Put a failed reminder back in the queue with a fresh set of attempts
+  router.post('/:id/retry', handle((req, res) => {
+    const id = parseId(req.params.id);
+    const reminder = requireById(reminderQueue, id);
+    if (reminder.status === 'sent') {
+      throw new HttpError(409, 'ALREADY_SENT', `Reminder ${id} has already been sent`);
+    }
+    const updated = updateRow(reminderQueue, id, {
+      status: 'queued',
+      attempts: 0,
+      last_error: null,
+      scheduled_at: new Date().toISOString().replace('T', ' ').slice(0, 19)
+    });
+    res.json({ success: true, reminder: updated });
+  }));
+}
+
+export const remindersRouter = createCrudRouter({ ...reminderQueue, extend });
@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import { db } from '../db';
+import { requirePermission } from './auth';
+import { handle } from './errors';
+import { parseParam } from './validation';
+
+export const reportsRouter = Router();
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** End-of-day takings from the invoices recorded on `date` (YYYY-MM-DD, today when omitted) */
+reportsRouter.get('/z', requirePermission('REPORTS_VIEW_BASIC'), handle((req, res) => {
+  const date = req.query.date === undefined
+    ? new Date().toISOString().slice(0, 10)
+    : (parseParam('date', { type: 'datetime' }, req.query.date) as string).slice(0, 10);
+
+  const methods = db.query<{ method: string; amount: number }>(
+    `SELECT ip.method, SUM(ip.amount) AS amount
+       FROM invoice_payments ip
+       JOIN invoices i ON i.id = ip.invoice_id
+      WHERE date(i.created_at) = ?
+      GROUP BY ip.method
+      ORDER BY ip.method`,
+    [date]
+  );
+  const totals = db.get<{ invoices: number; net: number }>(
+    'SELECT COUNT(*) AS invoices, COALESCE(SUM(grand_total), 0) AS net FROM invoices WHERE date(created_at) = ?',
+    [date]
+  );
+
+  res.json({
+    success: true,
+    date,
+    invoices: totals?.invoices ?? 0,
+    totalsByMethod: Object.fromEntries(methods.map(m => [m.method, round2(m.amount)])),
+    net: round2(totals?.net ?? 0)
+  });
+}));
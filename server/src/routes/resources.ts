@@ -0,0 +1,775 @@
+import type { ResourceConfig } from './crud';
+
+// Field maps mirror the columns created in ../db.ts; `id` is always server-assigned.
+
+export const categories: ResourceConfig = {
+  table: 'categories',
+  singular: 'category',
+  plural: 'categories',
+  fields: {
+    name: { type: 'text', required: true, maxLength: 120 }
+  },
+  search: ['name'],
+  defaultSort: 'name',
+  writePermission: 'SETTINGS_WRITE'
+};
+
+export const suppliers: ResourceConfig = {
+  table: 'suppliers',
+  singular: 'supplier',
+  plural: 'suppliers',
+  fields: {
+    supplier_name: { type: 'text', required: true, maxLength: 200 },
+    contact_phone: { type: 'text', maxLength: 40 },
+    contact_email: { type: 'text', maxLength: 200 },
+    address: { type: 'text' },
+    tax_id: { type: 'text', maxLength: 60 },
+    lead_time_days: { type: 'integer', min: 0, max: 365, nullable: true },
+    active: { type: 'boolean' },
+    created_at: { type: 'datetime', readOnly: true }
+  },
+  filters: ['active'],
+  search: ['supplier_name', 'contact_phone', 'contact_email'],
+  defaultSort: 'supplier_name',
+  writePermission: 'SETTINGS_WRITE'
+};
+
+export const products: ResourceConfig = {
+  table: 'products',
+  singular: 'product',
+  plural: 'products',
+  fields: {
+    sku: { type: 'text', required: true, maxLength: 64 },
+    name_en: { type: 'text', required: true, maxLength: 200 },
+    unit: { type: 'text', maxLength: 16 },
+    category_id: { type: 'integer', min: 1 },
+    price_retail: { type: 'real', min: 0 },
+    price_wholesale: { type: 'real', min: 0 },
+    price_credit: { type: 'real', min: 0 },
+    price_other: { type: 'real', min: 0 },
+    barcode: { type: 'text', maxLength: 64 },
+    pack_size: { type: 'real', min: 0, nullable: true },
+    is_active: { type: 'boolean' },
+    created_at: { type: 'datetime', readOnly: true }
+  },
+  filters: ['category_id', 'is_active', 'barcode', 'sku'],
+  search: ['name_en', 'sku', 'barcode'],
+  defaultSort: 'name_en',
+  writePermission: 'SETTINGS_WRITE'
+};
+
+export const discountRules: ResourceConfig = {
+  table: 'discount_rules',
+  singular: 'rule',
+  plural: 'rules',
+  fields: {
+    name: { type: 'text', required: true, maxLength: 120 },
+    applies_to: { type: 'text', required: true, enum: ['PRODUCT', 'CATEGORY'] },
+    target_id: { type: 'integer', required: true, min: 1 },
+    type: { type: 'text', required: true, enum: ['PERCENT', 'AMOUNT'] },
+    value: { type: 'real', required: true, min: 0 },
+    priority: { type: 'integer', min: 0 },
+    active_from: { type: 'datetime' },
+    active_to: { type: 'datetime' },
+    active: { type: 'boolean' }
+  },
+  filters: ['applies_to', 'target_id', 'type', 'active'],
+  search: ['name'],
+  defaultSort: 'priority',
+  writePermission: 'SETTINGS_WRITE'
+};
+
+export const invoices: ResourceConfig = {
+  table: 'invoices',
+  singular: 'invoice',
+  plural: 'invoices',
+  fields: {
+    receipt_no: { type: 'text', maxLength: 64 },
+    created_at: { type: 'datetime' },
+    grand_total: { type: 'real' },
+    payment_type: { type: 'text', maxLength: 32 },
+    customer_id: { type: 'integer', min: 1 }
+  },
+  filters: ['receipt_no', 'payment_type', 'customer_id'],
+  search: ['receipt_no'],
+  dateColumn: 'created_at',
+  defaultSort: 'created_at',
+  defaultOrder: 'desc'
+};
+
+// Terminal sales (DatabaseService shape); POS checkouts arrive through POST /sales/sync
+export const sales: ResourceConfig = {
+  table: 'sales',
+  singular: 'sale',
+  plural: 'sales',
+  fields: {
+    datetime: { type: 'datetime' },
+    type: { type: 'text', enum: ['SALE', 'REFUND'] },
+    status: { type: 'text', maxLength: 32 },
+    invoice_number: { type: 'text', maxLength: 64 },
+    cashier_id: { type: 'integer', min: 1 },
+    customer_id: { type: 'integer', min: 1 },
+    shift_id: { type: 'integer', min: 1 },
+    price_tier: { type: 'text', enum: ['Retail', 'Wholesale', 'Credit', 'Other'] },
+    gross: { type: 'real' },
+    discount: { type: 'real' },
+    tax: { type: 'real' },
+    net: { type: 'real' },
+    pay_cash: { type: 'real', min: 0 },
+    pay_card: { type: 'real', min: 0 },
+    pay_wallet: { type: 'real', min: 0 },
+    language: { type: 'text', enum: ['EN', 'SI', 'TA'] },
+    terminal_name: { type: 'text', maxLength: 64 },
+    // The sale a REFUND gives back goods from
+    original_sale_id: { type: 'integer', min: 1 },
+    created_at: { type: 'datetime', readOnly: true }
+  },
+  filters: ['status', 'type', 'cashier_id', 'customer_id', 'shift_id', 'terminal_name'],
+  search: ['invoice_number'],
+  dateColumn: 'datetime',
+  defaultSort: 'datetime',
+  defaultOrder: 'desc'
+};
+
+export const saleLines: ResourceConfig = {
+  table: 'sale_lines',
+  singular: 'line',
+  plural: 'lines',
+  fields: {
+    sale_id: { type: 'integer', required: true, min: 1 },
+    product_id: { type: 'integer', required: true, min: 1 },
+    qty: { type: 'real', required: true },
+    unit_price: { type: 'real', required: true, min: 0 },
+    line_discount: { type: 'real', min: 0 },
+    tax: { type: 'real' },
+    tax_code: { type: 'text', maxLength: 16 },
+    total: { type: 'real', required: true },
+    applied_promotion_id: { type: 'integer', min: 1, nullable: true },
+    // qty is always in the product's base unit; a line sold by the pack also keeps the pack and its count
+    uom: { type: 'text', maxLength: 16, nullable: true },
+    uom_qty: { type: 'real', min: 0, nullable: true },
+    // Cost of one base unit when the line synced, under the server's costing method
+    unit_cost: { type: 'real', readOnly: true }
+  },
+  filters: ['sale_id', 'product_id', 'tax_code', 'applied_promotion_id']
+};
+
+export const taxCodes: ResourceConfig = {
+  table: 'tax_codes',
+  singular: 'tax_code',
+  plural: 'tax_codes',
+  fields: {
+    code: { type: 'text', required: true, maxLength: 16 },
+    name: { type: 'text', required: true, maxLength: 80 },
+    rate: { type: 'real', required: true, min: 0, max: 0.99 },
+    kind: { type: 'text', enum: ['STANDARD', 'ZERO_RATED', 'EXEMPT'] },
+    inclusive: { type: 'boolean' },
+    active: { type: 'boolean' }
+  },
+  filters: ['kind', 'active'],
+  search: ['code', 'name'],
+  defaultSort: 'code',
+  writePermission: 'SETTINGS_WRITE'
+};
+
+export const invoicePayments: ResourceConfig = {
+  table: 'invoice_payments',
+  singular: 'payment',
+  plural: 'payments',
+  fields: {
+    invoice_id: { type: 'integer', required: true, min: 1 },
+    method: { type: 'text', required: true, maxLength: 32 },
+    amount: { type: 'real', required: true },
+    created_at: { type: 'datetime', readOnly: true }
+  },
+  filters: ['invoice_id', 'method'],
+  dateColumn: 'created_at'
+};
+
+export const returns: ResourceConfig = {
+  table: 'returns',
+  singular: 'return',
+  plural: 'returns',
+  fields: {
+    receipt_no_return: { type: 'text', maxLength: 64 },
+    original_invoice_id: { type: 'integer', required: true, min: 1 },
+    created_at: { type: 'datetime', readOnly: true },
+    total_refund: { type: 'real', min: 0 },
+    reason: { type: 'text' },
+    operator_id: { type: 'integer', min: 1 }
+  },
+  filters: ['original_invoice_id', 'operator_id', 'receipt_no_return'],
+  search: ['receipt_no_return', 'reason'],
+  dateColumn: 'created_at',
+  defaultSort: 'created_at',
+  defaultOrder: 'desc'
+};
+
+export const returnItems: ResourceConfig = {
+  table: 'return_items',
+  singular: 'item',
+  plural: 'items',
+  fields: {
+    return_id: { type: 'integer', required: true, min: 1 },
+    item_id: { type: 'integer', required: true, min: 1 },
+    qty: { type: 'real', required: true, min: 0 },
+    refund_amount: { type: 'real', min: 0 },
+    restock_flag: { type: 'boolean' },
+    reason: { type: 'text' }
+  },
+  filters: ['return_id', 'item_id']
+};
+
+// Audit entries are append-only; triggers chain each one to the one before (see audit.ts).
+// Terminals add entries through /audit/entries, which takes the actor from their session.
+export const auditLogs: ResourceConfig = {
+  table: 'audit_logs',
+  singular: 'log',
+  plural: 'logs',
+  fields: {
+    action: { type: 'text', required: true, maxLength: 64 },
+    actor_id: { type: 'integer', min: 1 },
+    actor_name: { type: 'text', maxLength: 100 },
+    terminal: { type: 'text', maxLength: 100 },
+    entity: { type: 'text', maxLength: 64 },
+    entity_id: { type: 'text', maxLength: 64 },
+    meta: { type: 'json' },
+    created_at: { type: 'datetime', readOnly: true },
+    prev_hash: { type: 'text', readOnly: true },
+    hash: { type: 'text', readOnly: true }
+  },
+  filters: ['action', 'actor_id', 'entity'],
+  search: ['action', 'actor_name', 'entity'],
+  dateColumn: 'created_at',
+  defaultSort: 'created_at',
+  defaultOrder: 'desc',
+  operations: ['list', 'get']
+};
+
+export const shifts: ResourceConfig = {
+  table: 'shifts',
+  singular: 'shift',
+  plural: 'shifts',
+  fields: {
+    operator_id: { type: 'integer', required: true, min: 1 },
+    opened_at: { type: 'datetime' },
+    closed_at: { type: 'datetime' },
+    starting_cash: { type: 'real', min: 0 },
+    ending_cash: { type: 'real', min: 0 }
+  },
+  filters: ['operator_id'],
+  dateColumn: 'opened_at',
+  defaultSort: 'opened_at',
+  defaultOrder: 'desc'
+};
+
+export const cashMovements: ResourceConfig = {
+  table: 'cash_movements',
+  singular: 'movement',
+  plural: 'movements',
+  fields: {
+    shift_id: { type: 'integer', required: true, min: 1 },
+    type: {
+      type: 'text',
+      required: true,
+      enum: ['sale', 'refund', 'cash_in', 'cash_out', 'safe_drop', 'opening_float', 'closing_float']
+    },
+    amount: { type: 'real', required: true },
+    note: { type: 'text' },
+    at: { type: 'datetime' }
+  },
+  filters: ['shift_id', 'type'],
+  dateColumn: 'at',
+  defaultSort: 'at'
+};
+
+export const purchaseOrders: ResourceConfig = {
+  table: 'purchase_orders',
+  singular: 'purchase_order',
+  plural: 'purchase_orders',
+  fields: {
+    po_no: { type: 'text', readOnly: true },
+    supplier_id: { type: 'integer', required: true, min: 1 },
+    // Moved along by receiving and the close/cancel routes, never written directly
+    status: { type: 'text', readOnly: true },
+    expected_date: { type: 'datetime', nullable: true },
+    note: { type: 'text', maxLength: 255, nullable: true },
+    // Percentage of each line's quantity that may be over- or under-received
+    tolerance_pct: { type: 'real', min: 0, max: 100 },
+    sent_at: { type: 'datetime', readOnly: true },
+    closed_at: { type: 'datetime', readOnly: true },
+    created_at: { type: 'datetime', readOnly: true }
+  },
+  filters: ['supplier_id', 'status'],
+  search: ['po_no', 'note'],
+  dateColumn: 'created_at',
+  defaultSort: 'created_at',
+  defaultOrder: 'desc',
+  writePermission: 'GRN_CREATE'
+};
+
+export const poLines: ResourceConfig = {
+  table: 'po_lines',
+  singular: 'line',
+  plural: 'lines',
+  fields: {
+    po_id: { type: 'integer', required: true, min: 1 },
+    product_id: { type: 'integer', required: true, min: 1 },
+    uom: { type: 'text', maxLength: 16 },
+    qty: { type: 'real', required: true, min: 0 },
+    unit_cost: { type: 'real', required: true, min: 0 }
+  },
+  filters: ['po_id', 'product_id'],
+  writePermission: 'GRN_CREATE'
+};
+
+export const grnReceipts: ResourceConfig = {
+  table: 'grn_receipts',
+  singular: 'grn',
+  plural: 'grns',
+  fields: {
+    po_id: { type: 'integer', min: 1 },
+    created_at: { type: 'datetime', readOnly: true }
+  },
+  filters: ['po_id'],
+  dateColumn: 'created_at',
+  defaultSort: 'created_at',
+  defaultOrder: 'desc',
+  writePermission: 'GRN_CREATE'
+};
+
+export const grnLines: ResourceConfig = {
+  table: 'grn_lines',
+  singular: 'line',
+  plural: 'lines',
+  fields: {
+    grn_id: { type: 'integer', required: true, min: 1 },
+    product_id: { type: 'integer', required: true, min: 1 },
+    uom: { type: 'text', maxLength: 16 },
+    qty_received: { type: 'real', required: true, min: 0 },
+    unit_cost: { type: 'real', required: true, min: 0 },
+    // Base units per received uom; quantities and costs are per received uom
+    conv_to_base: { type: 'real', min: 0.000001 },
+    batch_id: { type: 'integer', min: 1 },
+    weight_kg: { type: 'real', min: 0, nullable: true },
+    // Share of the GRN's other charges, allocated when the GRN is posted
+    landed_cost: { type: 'real', readOnly: true }
+  },
+  filters: ['grn_id', 'product_id', 'batch_id'],
+  writePermission: 'GRN_CREATE'
+};
+
+export const supplierReturns: ResourceConfig = {
+  table: 'supplier_returns',
+  singular: 'supplier_return',
+  plural: 'supplier_returns',
+  fields: {
+    return_no: { type: 'text', readOnly: true },
+    supplier_id: { type: 'integer', required: true, min: 1 },
+    // The GRN the goods came in on, when returned against one
+    grn_id: { type: 'integer', min: 1, nullable: true },
+    store_id: { type: 'integer', min: 1, nullable: true },
+    // Moved along by the post and credit routes, never written directly
+    status: { type: 'text', readOnly: true },
+    note: { type: 'text', maxLength: 255, nullable: true },
+    total: { type: 'real', readOnly: true },
+    credit_received: { type: 'real', readOnly: true },
+    posted_at: { type: 'datetime', readOnly: true },
+    credited_at: { type: 'datetime', readOnly: true },
+    created_at: { type: 'datetime', readOnly: true }
+  },
+  filters: ['supplier_id', 'grn_id', 'store_id', 'status'],
+  search: ['return_no', 'note'],
+  dateColumn: 'created_at',
+  defaultSort: 'created_at',
+  defaultOrder: 'desc',
+  writePermission: 'GRN_POST'
+};
+
+export const supplierReturnLines: ResourceConfig = {
+  table: 'supplier_return_lines',
+  singular: 'line',
+  plural: 'lines',
+  fields: {
+    supplier_return_id: { type: 'integer', required: true, min: 1 },
+    product_id: { type: 'integer', required: true, min: 1 },
+    uom: { type: 'text', maxLength: 16 },
+    // Base units
+    qty: { type: 'real', required: true, min: 0 },
+    unit_cost: { type: 'real', required: true, min: 0 },
+    reason: { type: 'text', enum: ['damaged', 'expired', 'recalled', 'other'] },
+    batch_id: { type: 'integer', min: 1, nullable: true }
+  },
+  filters: ['supplier_return_id', 'product_id'],
+  operations: ['list', 'get']
+};
+
+export const supplierReturnCredits: ResourceConfig = {
+  table: 'supplier_return_credits',
+  singular: 'credit',
+  plural: 'credits',
+  fields: {
+    supplier_return_id: { type: 'integer', required: true, min: 1 },
+    amount: { type: 'real', required: true, min: 0.01 },
+    ref: { type: 'text', maxLength: 64, nullable: true },
+    note: { type: 'text', maxLength: 255, nullable: true },
+    received_at: { type: 'datetime', readOnly: true }
+  },
+  filters: ['supplier_return_id'],
+  dateColumn: 'received_at',
+  defaultSort: 'received_at',
+  operations: ['list', 'get']
+};
+
+export const costHistory: ResourceConfig = {
+  table: 'cost_history',
+  singular: 'entry',
+  plural: 'entries',
+  fields: {
+    product_id: { type: 'integer', required: true, min: 1 },
+    old_cost: { type: 'real' },
+    new_cost: { type: 'real', required: true, min: 0 },
+    reason: { type: 'text' },
+    at: { type: 'datetime', readOnly: true }
+  },
+  filters: ['product_id'],
+  dateColumn: 'at',
+  defaultSort: 'at',
+  defaultOrder: 'desc',
+  operations: ['list', 'get']
+};
+
+export const batches: ResourceConfig = {
+  table: 'batches',
+  singular: 'batch',
+  plural: 'batches',
+  fields: {
+    product_id: { type: 'integer', required: true, min: 1 },
+    batch_code: { type: 'text', maxLength: 64 },
+    expiry: { type: 'datetime' },
+    qty_on_hand: { type: 'real' },
+    cost: { type: 'real', min: 0 },
+    grn_id: { type: 'integer', min: 1 },
+    received_at: { type: 'datetime' },
+    markdown_rule_id: { type: 'integer', readOnly: true }
+  },
+  filters: ['product_id', 'batch_code', 'grn_id'],
+  search: ['batch_code'],
+  dateColumn: 'expiry',
+  defaultSort: 'expiry',
+  writePermission: 'GRN_POST'
+};
+
+export const stockMovements: ResourceConfig = {
+  table: 'stock_movements',
+  singular: 'movement',
+  plural: 'movements',
+  fields: {
+    product_id: { type: 'integer', required: true, min: 1 },
+    batch_id: { type: 'integer', min: 1 },
+    qty: { type: 'real', required: true },
+    reason: { type: 'text' },
+    at: { type: 'datetime', readOnly: true }
+  },
+  filters: ['product_id', 'batch_id', 'reason'],
+  dateColumn: 'at',
+  defaultSort: 'at',
+  defaultOrder: 'desc',
+  operations: ['list', 'get']
+};
+
+export const uoms: ResourceConfig = {
+  table: 'uoms',
+  singular: 'uom',
+  plural: 'uoms',
+  fields: {
+    code: { type: 'text', required: true, maxLength: 16 },
+    name: { type: 'text', required: true, maxLength: 60 }
+  },
+  filters: ['code'],
+  search: ['code', 'name'],
+  defaultSort: 'code',
+  writePermission: 'SETTINGS_WRITE'
+};
+
+export const productUoms: ResourceConfig = {
+  table: 'product_uom',
+  singular: 'product_uom',
+  plural: 'product_uoms',
+  fields: {
+    product_id: { type: 'integer', required: true, min: 1 },
+    uom_id: { type: 'integer', required: true, min: 1 },
+    conv_to_base: { type: 'real', required: true, min: 0.000001 },
+    price_override: { type: 'real', min: 0, nullable: true },
+    // Printed on the pack itself; scanning it sells or receives one pack
+    barcode: { type: 'text', maxLength: 64, nullable: true }
+  },
+  filters: ['product_id', 'uom_id', 'barcode'],
+  writePermission: 'SETTINGS_WRITE'
+};
+
+export const customers: ResourceConfig = {
+  table: 'customers',
+  singular: 'customer',
+  plural: 'customers',
+  fields: {
+    customer_name: { type: 'text', required: true, maxLength: 255 },
+    phone: { type: 'text', maxLength: 50 },
+    email: { type: 'text', maxLength: 255 },
+    customer_type: { type: 'text', enum: ['Retail', 'Wholesale', 'Credit', 'Other'] },
+    note: { type: 'text' },
+    active: { type: 'boolean' },
+    credit_limit: { type: 'real', min: 0 },
+    // Tag ids matched by promotion scopes of type customer_tag, e.g. [2, 5]
+    tag_ids: { type: 'json' },
+    created_at: { type: 'datetime', readOnly: true }
+  },
+  filters: ['customer_type', 'active'],
+  search: ['customer_name', 'phone', 'email'],
+  defaultSort: 'customer_name'
+};
+
+// Append-only: entries are posted through /customers/:id/charges and /customers/:id/payments
+export const customerLedger: ResourceConfig = {
+  table: 'customer_ledger',
+  singular: 'entry',
+  plural: 'entries',
+  fields: {
+    customer_id: { type: 'integer', required: true, min: 1 },
+    type: { type: 'text', enum: ['CHARGE', 'PAYMENT'] },
+    invoice_id: { type: 'integer', min: 1 },
+    payment_id: { type: 'integer', min: 1 },
+    amount: { type: 'real', required: true },
+    method: { type: 'text', maxLength: 16 },
+    reference: { type: 'text', maxLength: 64 },
+    note: { type: 'text', maxLength: 255 },
+    approved_by: { type: 'integer', min: 1 },
+    created_by: { type: 'integer', min: 1 },
+    at: { type: 'datetime', readOnly: true }
+  },
+  filters: ['customer_id', 'invoice_id', 'type'],
+  dateColumn: 'at',
+  defaultSort: 'at',
+  defaultOrder: 'desc',
+  operations: ['list', 'get']
+};
+
+export const messageTemplates: ResourceConfig = {
+  table: 'message_templates',
+  singular: 'template',
+  plural: 'templates',
+  fields: {
+    name: { type: 'text', required: true, maxLength: 120 },
+    channel: { type: 'text', required: true, enum: ['email', 'sms'] },
+    subject: { type: 'text', maxLength: 200 },
+    body: { type: 'text', required: true }
+  },
+  filters: ['channel', 'name'],
+  search: ['name', 'subject'],
+  defaultSort: 'name',
+  writePermission: 'SETTINGS_WRITE'
+};
+
+export const reminderQueue: ResourceConfig = {
+  table: 'reminder_queue',
+  singular: 'reminder',
+  plural: 'reminders',
+  fields: {
+    customer_id: { type: 'integer', required: true, min: 1 },
+    invoice_id: { type: 'integer', required: true, min: 1 },
+    channel: { type: 'text', required: true, enum: ['email', 'sms'] },
+    template_id: { type: 'integer', min: 1 },
+    status: { type: 'text', enum: ['queued', 'sent', 'failed'] },
+    attempts: { type: 'integer', min: 0 },
+    scheduled_at: { type: 'datetime' },
+    // Address the dispatcher last sent to; filled in from the customer when sending
+    recipient: { type: 'text', readOnly: true },
+    sent_at: { type: 'datetime', readOnly: true },
+    last_error: { type: 'text', readOnly: true }
+  },
+  filters: ['customer_id', 'invoice_id', 'channel', 'status', 'template_id'],
+  dateColumn: 'scheduled_at',
+  defaultSort: 'scheduled_at'
+};
+
+export const promotions: ResourceConfig = {
+  table: 'promotions',
+  singular: 'promotion',
+  plural: 'promotions',
+  fields: {
+    name: { type: 'text', required: true, maxLength: 120 },
+    priority: { type: 'integer', min: 0 },
+    active: { type: 'boolean' },
+    days_of_week: { type: 'text', maxLength: 13 },
+    start_at: { type: 'datetime' },
+    end_at: { type: 'datetime' }
+  },
+  filters: ['active'],
+  search: ['name'],
+  defaultSort: 'priority',
+  writePermission: 'SETTINGS_WRITE'
+};
+
+export const promotionRules: ResourceConfig = {
+  table: 'promotion_rules',
+  singular: 'rule',
+  plural: 'rules',
+  fields: {
+    promotion_id: { type: 'integer', required: true, min: 1 },
+    type: { type: 'text', required: true, enum: ['BUY_X_GET_Y', 'MIX_AND_MATCH_BUNDLE_PRICE', 'CHEAPEST_FREE'] },
+    params: { type: 'json', required: true }
+  },
+  filters: ['promotion_id', 'type'],
+  writePermission: 'SETTINGS_WRITE'
+};
+
+export const promotionScopes: ResourceConfig = {
+  table: 'promotion_scopes',
+  singular: 'scope',
+  plural: 'scopes',
+  fields: {
+    promotion_id: { type: 'integer', required: true, min: 1 },
+    scope_type: { type: 'text', required: true, enum: ['product', 'category', 'customer_tag'] },
+    target_id: { type: 'integer', required: true, min: 1 }
+  },
+  filters: ['promotion_id', 'scope_type', 'target_id'],
+  writePermission: 'SETTINGS_WRITE'
+};
+
+export const users: ResourceConfig = {
+  table: 'users',
+  singular: 'user',
+  plural: 'users',
+  fields: {
+    name: { type: 'text', required: true, maxLength: 120 },
+    role: { type: 'text', maxLength: 32 },
+    pin: { type: 'text', maxLength: 12, writeOnly: true },
+    // Set by the users triggers when a PIN is hashed into user_pins
+    pin_set: { type: 'boolean', readOnly: true },
+    active: { type: 'boolean' }
+  },
+  filters: ['role', 'active'],
+  search: ['name'],
+  defaultSort: 'name',
+  writePermission: 'USER_MANAGEMENT'
+};
+
+export const roles: ResourceConfig = {
+  table: 'roles',
+  singular: 'role',
+  plural: 'roles',
+  fields: {
+    name: { type: 'text', required: true, maxLength: 60 },
+    description: { type: 'text', maxLength: 200 },
+    builtin: { type: 'boolean', readOnly: true }
+  },
+  search: ['name'],
+  defaultSort: 'name',
+  // Edited through /rbac, which keeps built-in roles intact and audits every change
+  operations: ['list', 'get']
+};
+
+export const userRoles: ResourceConfig = {
+  table: 'user_roles',
+  singular: 'user_role',
+  plural: 'user_roles',
+  fields: {
+    user_id: { type: 'integer', required: true, min: 1 },
+    role_id: { type: 'integer', required: true, min: 1 }
+  },
+  filters: ['user_id', 'role_id'],
+  operations: ['list', 'get']
+};
+
+export const rolePermissions: ResourceConfig = {
+  table: 'role_permissions',
+  singular: 'role_permission',
+  plural: 'role_permissions',
+  fields: {
+    role_id: { type: 'integer', required: true, min: 1 },
+    permission: { type: 'text', required: true, maxLength: 64 },
+    max_amount: { type: 'real', min: 0 },
+    max_percent: { type: 'real', min: 0, max: 100 }
+  },
+  filters: ['role_id', 'permission'],
+  operations: ['list', 'get']
+};
+
+export const stores: ResourceConfig = {
+  table: 'stores',
+  singular: 'store',
+  plural: 'stores',
+  fields: {
+    name: { type: 'text', required: true, maxLength: 120 },
+    code: { type: 'text', maxLength: 16 }
+  },
+  filters: ['code'],
+  search: ['name', 'code'],
+  defaultSort: 'name',
+  writePermission: 'SETTINGS_WRITE'
+};
+
+export const terminals: ResourceConfig = {
+  table: 'terminals',
+  singular: 'terminal',
+  plural: 'terminals',
+  fields: {
+    store_id: { type: 'integer', required: true, min: 1 },
+    name: { type: 'text', required: true, maxLength: 120 },
+    code: { type: 'text', maxLength: 16 }
+  },
+  filters: ['store_id', 'code'],
+  search: ['name', 'code'],
+  defaultSort: 'name'
+};
+
+export const storeStock: ResourceConfig = {
+  table: 'store_stock',
+  singular: 'stock',
+  plural: 'stock',
+  fields: {
+    product_id: { type: 'integer', required: true, min: 1 },
+    store_id: { type: 'integer', required: true, min: 1 },
+    qty: { type: 'real' }
+  },
+  filters: ['product_id', 'store_id'],
+  writePermission: 'GRN_POST'
+};
+
+export const transfers: ResourceConfig = {
+  table: 'transfers',
+  singular: 'transfer',
+  plural: 'transfers',
+  fields: {
+    transfer_no: { type: 'text', readOnly: true },
+    from_store: { type: 'integer', required: true, min: 1 },
+    to_store: { type: 'integer', required: true, min: 1 },
+    // Moved along by the dispatch and receive routes, never written directly
+    status: { type: 'text', readOnly: true },
+    note: { type: 'text', maxLength: 255, nullable: true },
+    dispatched_at: { type: 'datetime', readOnly: true },
+    received_at: { type: 'datetime', readOnly: true },
+    created_at: { type: 'datetime', readOnly: true }
+  },
+  filters: ['from_store', 'to_store', 'status'],
+  search: ['transfer_no', 'note'],
+  dateColumn: 'created_at',
+  defaultSort: 'created_at',
+  defaultOrder: 'desc',
+  writePermission: 'GRN_POST'
+};
+
+export const transferLines: ResourceConfig = {
+  table: 'transfer_lines',
+  singular: 'line',
+  plural: 'lines',
+  fields: {
+    transfer_id: { type: 'integer', required: true, min: 1 },
+    product_id: { type: 'integer', required: true, min: 1 },
+    qty: { type: 'real', required: true, min: 0 },
+    qty_dispatched: { type: 'real', readOnly: true },
+    qty_received: { type: 'real', readOnly: true }
+  },
+  filters: ['transfer_id', 'product_id'],
+  writePermission: 'GRN_POST'
+};
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { db } from '../db';
+import { NotFoundError, handle } from './errors';
+import { createCrudRouter } from './crud';
+import { invoices, returns } from './resources';
+import { parseParam, serializeRow } from './validation';
+
+/**
+ * Customer returns against an invoice. The lookup finds a receipt and the lines sold on it, which
+ * come from the synced sale carrying the receipt's number; quantities are in base units.
+ */
+function extend(router: Router) {
+  router.get('/lookup', handle((req, res) => {
+    const receipt = parseParam('receipt', { type: 'text', required: true, maxLength: 64 }, req.query.receipt) as string;
+    const invoice = db.get<Record<string, any>>('SELECT * FROM invoices WHERE receipt_no = ?', [receipt.trim()]);
+    if (!invoice) throw new NotFoundError('invoice', receipt);
+
+    const lines = db.query(
+      `SELECT sl.id, sl.product_id, p.name_en AS name, p.sku, sl.qty, sl.unit_price, sl.line_discount,
+              sl.tax, sl.total AS line_total, sl.uom, sl.uom_qty
+         FROM sale_lines sl
+         JOIN sales s ON s.id = sl.sale_id
+         LEFT JOIN products p ON p.id = sl.product_id
+        WHERE s.invoice_number = ?
+        ORDER BY sl.id`,
+      [invoice.receipt_no]
+    );
+    res.json({ success: true, invoice: serializeRow(invoices.fields, invoice), lines });
+  }));
+}
+
+export const returnsRouter = createCrudRouter({ ...returns, extend });
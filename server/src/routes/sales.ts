@@ -0,0 +1,164 @@
+import { Router } from 'express';
+import { db } from '../db';
+import { acquire } from '../lease';
+import { FieldError, ValidationError, handle } from './errors';
+import { createCrudRouter, insertRow, requireById } from './crud';
+import { invoicePayments, invoices, saleLines, sales } from './resources';
+import { FieldMap, parseParam, serializeRow, validateBody } from './validation';
+import { depleteFefo, restockBatches } from './batches';
+import { costOfSale, currentUnitCost } from './costing';
+import { storeOfTerminal } from './terminals';
+import { chargeAccount } from './customers';
+
+// Lines arrive carrying the terminal's local sale id; the server assigns its own
+const syncLineFields: FieldMap = { ...saleLines.fields, sale_id: { type: 'integer', readOnly: true } };
+// Payments go on the invoice the server records for the sale
+const syncPaymentFields: FieldMap = { ...invoicePayments.fields, invoice_id: { type: 'integer', readOnly: true } };
+
+function validateEach(field: string, fields: FieldMap, raw: unknown[]): Record<string, unknown>[] {
+  const errors: FieldError[] = [];
+  const rows = raw.map((row, index) => {
+    try {
+      return validateBody(fields, row, 'create');
+    } catch (err) {
+      if (!(err instanceof ValidationError)) throw err;
+      (err.details as FieldError[]).forEach(d => errors.push({ ...d, field: `${field}[${index}].${d.field}` }));
+      return {};
+    }
+  });
+  if (errors.length > 0) throw new ValidationError(errors);
+  return rows;
+}
+
+function validateLines(raw: unknown): Record<string, unknown>[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new ValidationError([{ field: 'lines', message: 'must be a non-empty array' }]);
+  }
+  return validateEach('lines', syncLineFields, raw);
+}
+
+// Sales queued before payments were sent along only carry the pay_* split
+function validatePayments(raw: unknown, sale: Record<string, unknown>): Record<string, unknown>[] {
+  if (raw === undefined) {
+    return (['cash', 'card', 'wallet'] as const)
+      .map(method => ({ method: method.toUpperCase(), amount: Number(sale[`pay_${method}`] ?? 0) }))
+      .filter(payment => payment.amount > 0);
+  }
+  if (!Array.isArray(raw)) throw new ValidationError([{ field: 'payments', message: 'must be an array' }]);
+  return validateEach('payments', syncPaymentFields, raw);
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// A CREDIT payment is charged against the invoice the sale records, so it needs both an invoice and an account
+function validateCredit(sale: Record<string, unknown>, payments: Record<string, unknown>[]) {
+  if (!payments.some(p => p.method === 'CREDIT')) return;
+  const errors: FieldError[] = [];
+  if (sale.type === 'REFUND') errors.push({ field: 'payments', message: 'CREDIT cannot be used on a refund' });
+  if (!sale.customer_id) errors.push({ field: 'sale.customer_id', message: 'is required for CREDIT payments' });
+  if (!sale.invoice_number) errors.push({ field: 'sale.invoice_number', message: 'is required for CREDIT payments' });
+  if (errors.length > 0) throw new ValidationError(errors);
+}
+
+// Only a refund names the sale it gives goods back from, and that must be a sale
+function refundedSale(sale: Record<string, unknown>) {
+  const original = db.get<{ type: string }>('SELECT type FROM sales WHERE id = ?', [sale.original_sale_id]);
+  const message = sale.type !== 'REFUND' ? 'is only for refunds' : original?.type !== 'SALE' ? 'must be a recorded sale' : null;
+  if (message) throw new ValidationError([{ field: 'sale.original_sale_id', message }]);
+}
+
+// The receipt the sale is reprinted, looked up for returns and charged to an account under
+function recordInvoice(sale: Record<string, any>, payments: Record<string, unknown>[]): Record<string, any> {
+  const methods = [...new Set(payments.map(p => p.method))];
+  const invoice = insertRow(invoices, {
+    receipt_no: sale.invoice_number,
+    created_at: sale.datetime ?? new Date().toISOString(),
+    grand_total: sale.net ?? 0,
+    payment_type: methods.length === 1 ? methods[0] : 'SPLIT',
+    customer_id: sale.customer_id ?? null
+  });
+  payments.forEach(payment => insertRow(invoicePayments, { ...payment, invoice_id: invoice.id }));
+  return invoice;
+}
+
+const invoiceOf = (sale: Record<string, any>) =>
+  sale.invoice_number ? db.get<Record<string, any>>('SELECT * FROM invoices WHERE receipt_no = ?', [sale.invoice_number]) ?? null : null;
+
+/**
+ * Where every POS checkout is recorded: credit sales are sent straight away, the rest are replayed
+ * from the terminal's offline sale queue.
+ * The Idempotency-Key header identifies one finalized sale; repeating a request returns the
+ * sale recorded the first time instead of posting it again.
+ * Sold quantities are taken out of the selling terminal's store's batches first-expiry-first-out,
+ * and each line is stamped with its unit cost at the time of sale; a REFUND naming its
+ * `original_sale_id` puts its quantities back into the batches that sale drew on. A sale with an
+ * invoice number is also recorded as an invoice with its payments, which receipts, returns and
+ * accounts refer to.
+ * CREDIT payments need the sale's customer and invoice number, and are charged to the customer's
+ * account as the signed-in user in the same transaction, so a charge the account refuses
+ * (CREDIT_LIMIT_EXCEEDED without a manager's `approval` for this customer and Idempotency-Key)
+ * records nothing at all.
+ */
+function extend(router: Router) {
+  router.post('/sync', handle(async (req, res) => {
+    const key = parseParam('Idempotency-Key', { type: 'text', required: true, maxLength: 128 }, req.get('Idempotency-Key')) as string;
+    const saleValues = validateBody(sales.fields, req.body?.sale, 'create');
+    const lines = validateLines(req.body?.lines);
+    const payments = validatePayments(req.body?.payments, saleValues);
+    validateCredit(saleValues, payments);
+    const approval = req.body?.approval === undefined
+      ? undefined
+      : parseParam('approval', { type: 'text', maxLength: 2048 }, req.body.approval);
+
+    await acquire(undefined);
+    const result = db.transaction(() => {
+      const receipt = db.get<{ sale_id: number }>('SELECT sale_id FROM sale_sync_receipts WHERE idempotency_key = ?', [key]);
+      if (receipt) {
+        const sale = requireById(sales, receipt.sale_id);
+        return { sale, invoice: invoiceOf(sale), duplicate: true };
+      }
+
+      if (saleValues.original_sale_id) refundedSale(saleValues);
+      const sale = insertRow(sales, { status: 'COMPLETED', ...saleValues });
+      const storeId = storeOfTerminal(sale.terminal_name);
+      lines.forEach(line => {
+        // Refunded goods are costed at what the next unit out would carry; sales take stock out at cost
+        const productId = line.product_id as number;
+        const unitCost = sale.type === 'REFUND' || (line.qty as number) <= 0
+          ? currentUnitCost(productId)
+          : costOfSale(productId, line.qty as number);
+        const saleLine = insertRow(saleLines, { ...line, sale_id: sale.id, unit_cost: unitCost });
+        if (sale.type === 'REFUND') {
+          if (sale.original_sale_id) restockBatches(sale.original_sale_id, saleLine.product_id, Math.abs(saleLine.qty));
+        } else if (saleLine.qty > 0) {
+          depleteFefo(saleLine.id, saleLine.product_id, saleLine.qty, storeId);
+        }
+      });
+      db.run('INSERT INTO sale_sync_receipts (idempotency_key, sale_id, terminal_name) VALUES (?, ?, ?)', [
+        key,
+        sale.id,
+        saleValues.terminal_name ?? null
+      ]);
+      const invoice = sale.type !== 'REFUND' && sale.invoice_number ? recordInvoice(sale, payments) : null;
+      const charged = round2(payments.filter(p => p.method === 'CREDIT').reduce((sum, p) => sum + Number(p.amount), 0));
+      if (invoice && charged > 0) {
+        chargeAccount(
+          sale.customer_id,
+          { amount: charged, invoice_id: invoice.id, reference: sale.invoice_number, approval, created_by: res.locals.session.sub },
+          res.locals.session,
+          key
+        );
+      }
+      return { sale, invoice, duplicate: false };
+    });
+
+    res.status(result.duplicate ? 200 : 201).json({
+      success: true,
+      sale: serializeRow(sales.fields, result.sale),
+      invoice: result.invoice && serializeRow(invoices.fields, result.invoice),
+      duplicate: result.duplicate
+    });
+  }));
+}
+
+export const salesRouter = createCrudRouter({ ...sales, extend });
@@ -0,0 +1,166 @@
+import { NextFunction, Request, Response, Router } from 'express';
+import { SessionClaims } from '../auth';
+import { db } from '../db';
+import { acquire, beginTransaction, endTransaction } from '../lease';
+import { hasPermission } from './auth';
+import type { ResourceConfig } from './crud';
+import { HttpError, ValidationError, handle } from './errors';
+import * as resources from './resources';
+
+/**
+ * Statement-level data provider for terminals running DatabaseService in LAN-server mode.
+ * Only DML/queries are accepted; schema changes stay in migrations.ts. Statements that mention the
+ * PIN hashes in user_pins are refused outright, and so are those naming users.pin: PINs are set
+ * over /api/users, which hashes them, so a PIN never travels here. Writes follow the REST resources
+ * in resources.ts: tables REST only lists, and those the server keeps itself, are never written
+ * here, and the others need the same permission their REST route checks.
+ *
+ * Multi-statement work (BEGIN ... COMMIT in the services) is served by a transaction lease (see
+ * lease.ts): while a terminal holds it, statements from other callers wait until it is released.
+ * Holding it stalls every other terminal, so only the work that needs it may take it.
+ */
+
+const ALLOWED_VERBS = new Set(['SELECT', 'WITH', 'INSERT', 'UPDATE', 'DELETE', 'REPLACE']);
+const TX_HEADER = 'x-tx-id';
+
+// Terminal work that needs several statements in one transaction: shift cash counts (shiftService)
+// and returns (refundService)
+const TX_PERMISSIONS = ['SHIFT_START', 'RETURNS_CREATE'];
+
+// Never named in a bridge statement, read or write; a column alias or CTE cannot rename a table
+const SECRET_TABLES = ['user_pins'];
+
+// Kept by the server's own routes and jobs; readable here but never written
+const SERVER_ONLY_TABLES = [
+  'audit_logs',
+  'audit_archives',
+  'pin_lockouts',
+  'sale_sync_receipts',
+  'sale_line_batches',
+  'backup_schedule',
+  'used_approvals'
+];
+
+const RESOURCES = Object.values(resources) as ResourceConfig[];
+
+// Listed and fetched over REST but changed only as a side effect of its routes, e.g. the ledger
+const READ_ONLY_TABLES = RESOURCES
+  .filter(r => r.operations && !r.operations.some(op => op === 'create' || op === 'update' || op === 'delete'))
+  .map(r => r.table);
+
+// Writable here only by sessions holding the permission the REST route checks
+const TABLE_PERMISSIONS: Record<string, string> = Object.fromEntries(
+  RESOURCES.filter(r => r.writePermission).map(r => [r.table, r.writePermission as string])
+);
+
+/**
+ * Hold REST requests until no terminal has a /sql transaction open, so their statements never run
+ * inside another terminal's BEGIN IMMEDIATE. The /sql routes take the lease themselves.
+ */
+export function waitForLease(req: Request, _res: Response, next: NextFunction) {
+  if (req.path.startsWith('/sql/')) return next();
+  acquire(undefined).then(() => next(), next);
+}
+
+function normalizeParams(raw: unknown): unknown[] {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) throw new ValidationError([{ field: 'params', message: 'must be an array' }]);
+  // better-sqlite3 binds numbers, strings, bigints, buffers and null only
+  return raw.map(value => {
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (value !== null && typeof value === 'object') return JSON.stringify(value);
+    return value ?? null;
+  });
+}
+
+function checkStatement(raw: unknown): string {
+  if (typeof raw !== 'string' || raw.trim() === '') {
+    throw new ValidationError([{ field: 'sql', message: 'is required' }]);
+  }
+  const sql = raw.trim();
+  const verb = sql.split(/\s+/)[0].toUpperCase();
+  if (!ALLOWED_VERBS.has(verb)) {
+    throw new HttpError(403, 'STATEMENT_NOT_ALLOWED', `${verb} statements are not allowed`);
+  }
+  const secret = SECRET_TABLES.find(table => new RegExp(`\\b${table}\\b`, 'i').test(sql));
+  if (secret) {
+    throw new HttpError(403, 'STATEMENT_NOT_ALLOWED', `${secret} is only read by /api/auth`);
+  }
+  if (/\bpin\b/i.test(sql)) {
+    throw new HttpError(403, 'STATEMENT_NOT_ALLOWED', 'PINs are only set through /api/users');
+  }
+  return sql;
+}
+
+// Any mention of a guarded table in a write counts, including in subqueries and CTEs
+function checkWrite(sql: string, session: SessionClaims) {
+  const mentions = (table: string) => new RegExp(`\\b${table}\\b`, 'i').test(sql);
+  const serverOnly = [...SERVER_ONLY_TABLES, ...READ_ONLY_TABLES].find(mentions);
+  if (serverOnly) {
+    throw new HttpError(403, 'STATEMENT_NOT_ALLOWED', `${serverOnly} is only written by the server`);
+  }
+  for (const [table, permission] of Object.entries(TABLE_PERMISSIONS)) {
+    if (mentions(table) && !hasPermission(session, permission)) {
+      throw new HttpError(403, 'PERMISSION_REQUIRED', `${permission} permission required to change ${table}`);
+    }
+  }
+}
+
+function runStatement(rawSql: unknown, rawParams: unknown, session: SessionClaims) {
+  const sql = checkStatement(rawSql);
+  const params = normalizeParams(rawParams);
+  const stmt = db.prepare(sql);
+  if (stmt.reader) {
+    return { rows: stmt.all(...params) };
+  }
+  checkWrite(sql, session);
+  const result = stmt.run(...params);
+  return { lastInsertRowid: Number(result.lastInsertRowid), changes: result.changes };
+}
+
+function txIdOf(header: string | string[] | undefined): string | undefined {
+  return typeof header === 'string' && header ? header : undefined;
+}
+
+export const sqlRouter = Router();
+
+sqlRouter.post('/query', handle(async (req, res) => {
+  await acquire(txIdOf(req.headers[TX_HEADER]), res.locals.session.sub);
+  const result = runStatement(req.body?.sql, req.body?.params, res.locals.session);
+  res.json({ success: true, rows: result.rows ?? [] });
+}));
+
+sqlRouter.post('/execute', handle(async (req, res) => {
+  await acquire(txIdOf(req.headers[TX_HEADER]), res.locals.session.sub);
+  res.json({ success: true, ...runStatement(req.body?.sql, req.body?.params, res.locals.session) });
+}));
+
+// Run several statements atomically in one round trip
+sqlRouter.post('/batch', handle(async (req, res) => {
+  const statements = req.body?.statements;
+  if (!Array.isArray(statements) || statements.length === 0) {
+    throw new ValidationError([{ field: 'statements', message: 'must be a non-empty array' }]);
+  }
+  await acquire(txIdOf(req.headers[TX_HEADER]), res.locals.session.sub);
+  const results = db.transaction(() => statements.map((s: any) => runStatement(s?.sql, s?.params, res.locals.session)));
+  res.json({ success: true, results });
+}));
+
+sqlRouter.post('/tx/begin', handle(async (_req, res) => {
+  const session = res.locals.session as SessionClaims;
+  if (!TX_PERMISSIONS.some(permission => hasPermission(session, permission))) {
+    throw new HttpError(403, 'PERMISSION_REQUIRED', 'Transactions are only for shift counts and returns');
+  }
+  res.json({ success: true, ...(await beginTransaction(session.sub)) });
+}));
+
+sqlRouter.post('/tx/:id/:action(commit|rollback)', handle((req, res) => {
+  endTransaction(req.params.id, (res.locals.session as SessionClaims).sub, req.params.action as 'commit' | 'rollback');
+  res.json({ success: true });
+}));
+
+/** Schema version probe; mounted ahead of the session check so Data Source settings can test a server */
+export function sqlPing(_req: Request, res: Response) {
+  const version = db.get<{ user_version: number }>('PRAGMA user_version');
+  res.json({ success: true, schemaVersion: version?.user_version ?? 0, time: new Date().toISOString() });
+}
@@ -0,0 +1,280 @@
+import { Router } from 'express';
+import { db } from '../db';
+import { acquire } from '../lease';
+import { requirePermission } from './auth';
+import { FieldError, HttpError, NotFoundError, ValidationError, handle } from './errors';
+import { createCrudRouter, insertRow, requireById, updateRow } from './crud';
+import { supplierReturnCredits, supplierReturnLines, supplierReturns, suppliers } from './resources';
+import { FieldMap, parseId, validateBody } from './validation';
+
+/**
+ * Returns to vendor (debit notes). A return is drafted against a supplier, optionally against the
+ * GRN the goods came in on; posting takes the goods out of stock, and the supplier settles the
+ * debit note with one or more credits. Quantities and costs are per base unit.
+ */
+
+export type SupplierReturnStatus = 'draft' | 'posted' | 'credited';
+
+const lineFields: FieldMap = {
+  product_id: supplierReturnLines.fields.product_id,
+  qty: { type: 'real', required: true, min: 0.001 },
+  // Defaults to the GRN's cost per base unit when returned against a GRN
+  unit_cost: { type: 'real', min: 0 },
+  reason: { ...supplierReturnLines.fields.reason, required: true }
+};
+
+const creditFields: FieldMap = {
+  amount: supplierReturnCredits.fields.amount,
+  ref: supplierReturnCredits.fields.ref,
+  note: supplierReturnCredits.fields.note
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+// SQLite CURRENT_TIMESTAMP is UTC without a zone marker
+const sqliteTime = (date: Date) => date.toISOString().replace('T', ' ').slice(0, 19);
+
+function nextReturnNo(): string {
+  const prefix = `RTV-${new Date().getFullYear()}-`;
+  const last = db.get<{ return_no: string }>(
+    'SELECT return_no FROM supplier_returns WHERE return_no LIKE ? ORDER BY return_no DESC LIMIT 1',
+    [`${prefix}%`]
+  );
+  const next = last ? Number(last.return_no.slice(prefix.length)) + 1 : 1;
+  return `${prefix}${String(next).padStart(6, '0')}`;
+}
+
+function validateLines(raw: unknown): Record<string, unknown>[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new ValidationError([{ field: 'lines', message: 'must be a non-empty array' }]);
+  }
+
+  const errors: FieldError[] = [];
+  const lines = raw.map((line, index) => {
+    try {
+      return validateBody(lineFields, line, 'create');
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      errors.push(...(error.details as FieldError[]).map(e => ({ ...e, field: `lines[${index}].${e.field}` })));
+      return {};
+    }
+  });
+  if (errors.length > 0) throw new ValidationError(errors);
+  return lines;
+}
+
+function detailsOf(supplierReturn: Record<string, any>) {
+  const lines = db.query<Record<string, any>>(
+    `SELECT l.*, p.sku, p.name_en AS product_name, p.barcode, p.unit, b.batch_code, b.expiry
+       FROM supplier_return_lines l
+       LEFT JOIN products p ON p.id = l.product_id
+       LEFT JOIN batches b ON b.id = l.batch_id
+      WHERE l.supplier_return_id = ?
+      ORDER BY l.id`,
+    [supplierReturn.id]
+  );
+  return {
+    supplier_return: supplierReturn,
+    supplier: db.get('SELECT * FROM suppliers WHERE id = ?', [supplierReturn.supplier_id]) ?? null,
+    grn: supplierReturn.grn_id
+      ? db.get('SELECT id, grn_no, datetime, status FROM grn WHERE id = ?', [supplierReturn.grn_id]) ?? null
+      : null,
+    lines,
+    credits: db.query(
+      'SELECT * FROM supplier_return_credits WHERE supplier_return_id = ? ORDER BY received_at, id',
+      [supplierReturn.id]
+    )
+  };
+}
+
+function requireStatus(supplierReturn: Record<string, any>, status: SupplierReturnStatus, action: string) {
+  if (supplierReturn.status !== status) {
+    throw new HttpError(
+      409,
+      'RETURN_STATUS',
+      `Return ${supplierReturn.return_no} is ${supplierReturn.status} and cannot be ${action}`
+    );
+  }
+}
+
+/**
+ * Cost and batch for each line returned against a GRN, in base units. A product can only go back
+ * in the quantity the GRN received less what earlier returns against it already sent back.
+ */
+function againstGrn(grnId: number, supplierId: number, lines: Record<string, unknown>[]) {
+  const grn = db.get<Record<string, any>>('SELECT id, grn_no, supplier_id, status, store_id FROM grn WHERE id = ?', [grnId]);
+  if (!grn) throw new NotFoundError('grn', grnId);
+  if (grn.status !== 'POSTED') {
+    throw new HttpError(409, 'GRN_NOT_POSTED', `GRN ${grn.grn_no} is ${grn.status} and its goods cannot be returned`);
+  }
+  if (grn.supplier_id !== supplierId) {
+    throw new ValidationError([{ field: 'grn_id', message: `GRN ${grn.grn_no} was received from another supplier` }]);
+  }
+
+  const received = new Map(db.query<{ product_id: number; qty: number; unit_cost: number; batch_id: number | null }>(
+    `SELECT product_id, SUM(qty * conv_to_base) AS qty, SUM(qty * unit_cost) / SUM(qty * conv_to_base) AS unit_cost,
+            MIN(batch_id) AS batch_id
+       FROM grn_lines WHERE grn_id = ? GROUP BY product_id`,
+    [grnId]
+  ).map(row => [row.product_id, row]));
+  const returned = new Map(db.query<{ product_id: number; qty: number }>(
+    `SELECT l.product_id, SUM(l.qty) AS qty
+       FROM supplier_return_lines l
+       JOIN supplier_returns r ON r.id = l.supplier_return_id
+      WHERE r.grn_id = ? AND r.status <> 'draft'
+      GROUP BY l.product_id`,
+    [grnId]
+  ).map(row => [row.product_id, row.qty]));
+
+  const requested = new Map<number, number>();
+  lines.forEach(line => requested.set(line.product_id as number, (requested.get(line.product_id as number) ?? 0) + (line.qty as number)));
+
+  const over = [...requested].flatMap(([productId, qty]) => {
+    const available = round3((received.get(productId)?.qty ?? 0) - (returned.get(productId) ?? 0));
+    return round3(qty) > available ? [{ product_id: productId, qty, available }] : [];
+  });
+  if (over.length > 0) {
+    throw new HttpError(
+      409,
+      'RETURN_EXCEEDS_RECEIPT',
+      `${over.length} line(s) return more than GRN ${grn.grn_no} received`,
+      over
+    );
+  }
+
+  return {
+    storeId: grn.store_id as number | null,
+    lines: lines.map(line => {
+      const receipt = received.get(line.product_id as number)!;
+      return {
+        ...line,
+        unit_cost: line.unit_cost ?? Math.round(receipt.unit_cost * 10000) / 10000,
+        batch_id: receipt.batch_id
+      };
+    })
+  };
+}
+
+// Drafting with lines, posting and credits on top of the generic supplier return routes
+function extend(router: Router) {
+  router.post('/', requirePermission('GRN_POST'), handle(async (req, res) => {
+    const { lines: rawLines, ...header } = (req.body ?? {}) as Record<string, unknown>;
+    const values = validateBody(supplierReturns.fields, header, 'create');
+    let lines = validateLines(rawLines);
+
+    await acquire(undefined);
+    const result = db.transaction(() => {
+      requireById(suppliers, values.supplier_id as number);
+      let storeId = (values.store_id as number | undefined) ?? null;
+      if (values.grn_id) {
+        const checked = againstGrn(values.grn_id as number, values.supplier_id as number, lines);
+        lines = checked.lines;
+        storeId = storeId ?? checked.storeId;
+      } else if (lines.some(line => line.unit_cost === undefined)) {
+        throw new ValidationError(lines.flatMap((line, index) =>
+          line.unit_cost === undefined ? [{ field: `lines[${index}].unit_cost`, message: 'is required without a GRN' }] : []
+        ));
+      }
+
+      const total = round2(lines.reduce((sum, line) => sum + (line.qty as number) * (line.unit_cost as number), 0));
+      const supplierReturn = insertRow(supplierReturns, {
+        ...values,
+        store_id: storeId ?? db.get<{ id: number }>('SELECT MIN(id) AS id FROM stores')?.id ?? null,
+        return_no: nextReturnNo(),
+        status: 'draft',
+        total,
+        credit_received: 0
+      });
+      lines.forEach(line => insertRow(supplierReturnLines, { ...line, supplier_return_id: supplierReturn.id }));
+      return detailsOf(supplierReturn);
+    });
+
+    res.status(201).json({ success: true, ...result });
+  }));
+
+  router.get('/:id/details', handle((req, res) => {
+    const supplierReturn = requireById(supplierReturns, parseId(req.params.id));
+    res.json({ success: true, ...detailsOf(supplierReturn) });
+  }));
+
+  // Only drafts can be thrown away; once posted the stock has left and the debit note is out
+  router.delete('/:id', requirePermission('GRN_POST'), handle(async (req, res) => {
+    const id = parseId(req.params.id);
+
+    await acquire(undefined);
+    db.transaction(() => {
+      requireStatus(requireById(supplierReturns, id), 'draft', 'deleted');
+      db.run('DELETE FROM supplier_return_lines WHERE supplier_return_id = ?', [id]);
+      db.run('DELETE FROM supplier_returns WHERE id = ?', [id]);
+    });
+    res.json({ success: true });
+  }));
+
+  // The goods go back to the supplier: out of the store's stock and out of the batch they came in
+  router.post('/:id/post', requirePermission('GRN_POST'), handle(async (req, res) => {
+    const id = parseId(req.params.id);
+
+    await acquire(undefined);
+    const result = db.transaction(() => {
+      const supplierReturn = requireById(supplierReturns, id);
+      requireStatus(supplierReturn, 'draft', 'posted');
+      // A return drafted against a GRN is checked again in case another was posted since
+      const lines = db.query<Record<string, any>>('SELECT * FROM supplier_return_lines WHERE supplier_return_id = ?', [id]);
+      if (supplierReturn.grn_id) againstGrn(supplierReturn.grn_id, supplierReturn.supplier_id, lines);
+
+      for (const line of lines) {
+        db.run(
+          `INSERT INTO inventory_movements (product_id, qty, type, reason, note, store_id) VALUES (?, ?, 'RETURN', 'SUPPLIER_RETURN', ?, ?)`,
+          [line.product_id, -line.qty, supplierReturn.return_no, supplierReturn.store_id]
+        );
+        if (!line.batch_id) continue;
+        const batch = db.get<{ qty_on_hand: number }>('SELECT qty_on_hand FROM batches WHERE id = ?', [line.batch_id]);
+        const take = round3(Math.min(line.qty, Math.max(batch?.qty_on_hand ?? 0, 0)));
+        if (take <= 0) continue;
+        db.run('UPDATE batches SET qty_on_hand = ? WHERE id = ?', [round3(batch!.qty_on_hand - take), line.batch_id]);
+        db.run(`INSERT INTO stock_movements (product_id, batch_id, qty, reason) VALUES (?, ?, ?, 'SUPPLIER_RETURN')`, [
+          line.product_id,
+          line.batch_id,
+          -take
+        ]);
+      }
+      return detailsOf(updateRow(supplierReturns, id, { status: 'posted', posted_at: sqliteTime(new Date()) }));
+    });
+    res.json({ success: true, ...result });
+  }));
+
+  /**
+   * Credit received from the supplier against a posted return, as a credit note or a refund.
+   * Credits add up to the return's total at most; reaching it settles the return.
+   */
+  router.post('/:id/credits', requirePermission('GRN_POST'), handle(async (req, res) => {
+    const id = parseId(req.params.id);
+    const values = validateBody(creditFields, req.body, 'create');
+
+    await acquire(undefined);
+    const result = db.transaction(() => {
+      const supplierReturn = requireById(supplierReturns, id);
+      requireStatus(supplierReturn, 'posted', 'credited');
+
+      const outstanding = round2(supplierReturn.total - supplierReturn.credit_received);
+      if (round2(values.amount as number) > outstanding) {
+        throw new HttpError(
+          409,
+          'CREDIT_EXCEEDS_OUTSTANDING',
+          `Only ${outstanding.toFixed(2)} is outstanding on return ${supplierReturn.return_no}`,
+          { outstanding }
+        );
+      }
+
+      insertRow(supplierReturnCredits, { ...values, supplier_return_id: id });
+      const creditReceived = round2(supplierReturn.credit_received + (values.amount as number));
+      return detailsOf(updateRow(supplierReturns, id, creditReceived >= supplierReturn.total
+        ? { credit_received: creditReceived, status: 'credited', credited_at: sqliteTime(new Date()) }
+        : { credit_received: creditReceived }));
+    });
+    res.status(201).json({ success: true, ...result });
+  }));
+}
+
+export const supplierReturnsRouter = createCrudRouter({ ...supplierReturns, extend });
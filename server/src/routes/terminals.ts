@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import { db } from '../db';
+import { acquire } from '../lease';
+import { handle } from './errors';
+import { createCrudRouter, insertRow, requireById, updateRow } from './crud';
+import { stores, terminals } from './resources';
+import { FieldMap, validateBody } from './validation';
+
+const registerFields: FieldMap = {
+  name: terminals.fields.name,
+  store_id: terminals.fields.store_id
+};
+
+/** The store a terminal sells from; terminals not yet assigned to one sell from the first store */
+export function storeOfTerminal(name: string | null | undefined): number | null {
+  const terminal = name
+    ? db.get<{ store_id: number }>('SELECT store_id FROM terminals WHERE name = ? ORDER BY id LIMIT 1', [name])
+    : undefined;
+  return terminal?.store_id ?? db.get<{ id: number | null }>('SELECT MIN(id) AS id FROM stores')?.id ?? null;
+}
+
+// Terminals know themselves by name; registering assigns the store they sell and move stock from
+function extend(router: Router) {
+  router.put('/register', handle(async (req, res) => {
+    const values = validateBody(registerFields, req.body ?? {}, 'create');
+
+    await acquire(undefined);
+    const terminal = db.transaction(() => {
+      const store = requireById(stores, values.store_id as number);
+      const existing = db.get<{ id: number }>('SELECT id FROM terminals WHERE name = ? ORDER BY id LIMIT 1', [values.name]);
+      return existing
+        ? updateRow(terminals, existing.id, { store_id: store.id, active: 1 })
+        : insertRow(terminals, { name: values.name, store_id: store.id });
+    });
+    res.json({ success: true, terminal });
+  }));
+}
+
+export const terminalsRouter = createCrudRouter({ ...terminals, extend });
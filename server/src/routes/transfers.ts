@@ -0,0 +1,210 @@
+import { Router } from 'express';
+import { db } from '../db';
+import { acquire } from '../lease';
+import { requirePermission } from './auth';
+import { FieldError, HttpError, ValidationError, handle } from './errors';
+import { createCrudRouter, insertRow, requireById, updateRow } from './crud';
+import { stores, transferLines, transfers } from './resources';
+import { FieldMap, parseId, validateBody } from './validation';
+
+/**
+ * Stock transfers between stores: requested by the receiving side, dispatched by the sending
+ * store (stock leaves it and is in transit) and received at the other end (stock arrives).
+ * A store's stock is the sum of its inventory_movements, so each step writes TRANSFER movements.
+ */
+
+export type TransferStatus = 'requested' | 'in_transit' | 'received';
+
+const lineFields: FieldMap = {
+  product_id: transferLines.fields.product_id,
+  qty: { type: 'real', required: true, min: 0.001 }
+};
+
+// Dispatch and receive may send or count a different quantity per product than was asked for
+const quantityFields: FieldMap = {
+  product_id: transferLines.fields.product_id,
+  qty: { type: 'real', required: true, min: 0 }
+};
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+// SQLite CURRENT_TIMESTAMP is UTC without a zone marker
+const sqliteTime = (date: Date) => date.toISOString().replace('T', ' ').slice(0, 19);
+
+function nextTransferNo(): string {
+  const prefix = `TR-${new Date().getFullYear()}-`;
+  const last = db.get<{ transfer_no: string }>(
+    'SELECT transfer_no FROM transfers WHERE transfer_no LIKE ? ORDER BY transfer_no DESC LIMIT 1',
+    [`${prefix}%`]
+  );
+  const next = last ? Number(last.transfer_no.slice(prefix.length)) + 1 : 1;
+  return `${prefix}${String(next).padStart(6, '0')}`;
+}
+
+function validateLines(raw: unknown, fields: FieldMap, required: boolean): Record<string, unknown>[] {
+  if (raw === undefined && !required) return [];
+  if (!Array.isArray(raw) || (required && raw.length === 0)) {
+    throw new ValidationError([{ field: 'lines', message: 'must be a non-empty array' }]);
+  }
+
+  const errors: FieldError[] = [];
+  const lines = raw.map((line, index) => {
+    try {
+      return validateBody(fields, line, 'create');
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      errors.push(...(error.details as FieldError[]).map(e => ({ ...e, field: `lines[${index}].${e.field}` })));
+      return {};
+    }
+  });
+  // Lines are matched by product, so each product may appear once
+  const seen = new Set<unknown>();
+  lines.forEach((line, index) => {
+    if (line.product_id === undefined) return;
+    if (seen.has(line.product_id)) errors.push({ field: `lines[${index}].product_id`, message: 'appears more than once' });
+    seen.add(line.product_id);
+  });
+  if (errors.length > 0) throw new ValidationError(errors);
+  return lines;
+}
+
+function detailsOf(transfer: Record<string, any>) {
+  const lines = db.query<Record<string, any>>(
+    `SELECT l.*, p.sku, p.name_en AS product_name, p.barcode, p.unit
+       FROM transfer_lines l
+       LEFT JOIN products p ON p.id = l.product_id
+      WHERE l.transfer_id = ?
+      ORDER BY l.id`,
+    [transfer.id]
+  );
+  return {
+    transfer,
+    from_store: db.get('SELECT * FROM stores WHERE id = ?', [transfer.from_store]) ?? null,
+    to_store: db.get('SELECT * FROM stores WHERE id = ?', [transfer.to_store]) ?? null,
+    lines
+  };
+}
+
+function requireStatus(transfer: Record<string, any>, status: TransferStatus, action: string) {
+  if (transfer.status !== status) {
+    throw new HttpError(
+      409,
+      'TRANSFER_STATUS',
+      `Transfer ${transfer.transfer_no} is ${transfer.status.replace('_', ' ')} and cannot be ${action}`
+    );
+  }
+}
+
+/**
+ * Quantity per transfer line for a dispatch or receipt: what the caller counted where given,
+ * otherwise `fallback` of the line. Products that are not on the transfer are refused.
+ */
+function quantitiesFor(
+  transfer: Record<string, any>,
+  counted: Record<string, unknown>[],
+  fallback: 'qty' | 'qty_dispatched'
+) {
+  const lines = db.query<Record<string, any>>('SELECT * FROM transfer_lines WHERE transfer_id = ? ORDER BY id', [transfer.id]);
+  const byProduct = new Map(counted.map(line => [line.product_id as number, line.qty as number]));
+
+  const unknown = [...byProduct.keys()].filter(productId => !lines.some(line => line.product_id === productId));
+  if (unknown.length > 0) {
+    throw new HttpError(
+      409,
+      'NOT_ON_TRANSFER',
+      `${unknown.length} product(s) are not on transfer ${transfer.transfer_no}`,
+      unknown.map(product_id => ({ product_id }))
+    );
+  }
+  return lines.map(line => ({ line, qty: round3(byProduct.get(line.product_id) ?? line[fallback] ?? 0) }));
+}
+
+function recordMovement(productId: number, qty: number, storeId: number, reason: 'TRANSFER_OUT' | 'TRANSFER_IN', transferNo: string) {
+  if (qty === 0) return;
+  db.run(
+    `INSERT INTO inventory_movements (product_id, qty, type, reason, note, store_id) VALUES (?, ?, 'TRANSFER', ?, ?, ?)`,
+    [productId, qty, reason, transferNo, storeId]
+  );
+}
+
+// Creation with lines, dispatch and receipt on top of the generic transfer routes
+function extend(router: Router) {
+  router.post('/', requirePermission('GRN_POST'), handle(async (req, res) => {
+    const { lines: rawLines, ...header } = (req.body ?? {}) as Record<string, unknown>;
+    const values = validateBody(transfers.fields, header, 'create');
+    const lines = validateLines(rawLines, lineFields, true);
+    if (values.from_store === values.to_store) {
+      throw new ValidationError([{ field: 'to_store', message: 'must differ from from_store' }]);
+    }
+
+    await acquire(undefined);
+    const result = db.transaction(() => {
+      requireById(stores, values.from_store as number);
+      requireById(stores, values.to_store as number);
+      const transfer = insertRow(transfers, { ...values, transfer_no: nextTransferNo(), status: 'requested' });
+      lines.forEach(line => insertRow(transferLines, { ...line, transfer_id: transfer.id }));
+      return detailsOf(transfer);
+    });
+
+    res.status(201).json({ success: true, ...result });
+  }));
+
+  router.get('/:id/details', handle((req, res) => {
+    const transfer = requireById(transfers, parseId(req.params.id));
+    res.json({ success: true, ...detailsOf(transfer) });
+  }));
+
+  // The sending store ships the goods; stock leaves it now and is in transit until received
+  router.post('/:id/dispatch', requirePermission('GRN_POST'), handle(async (req, res) => {
+    const id = parseId(req.params.id);
+    const counted = validateLines(req.body?.lines, quantityFields, false);
+
+    await acquire(undefined);
+    const result = db.transaction(() => {
+      const transfer = requireById(transfers, id);
+      requireStatus(transfer, 'requested', 'dispatched');
+
+      for (const { line, qty } of quantitiesFor(transfer, counted, 'qty')) {
+        db.run('UPDATE transfer_lines SET qty_dispatched = ? WHERE id = ?', [qty, line.id]);
+        recordMovement(line.product_id, -qty, transfer.from_store, 'TRANSFER_OUT', transfer.transfer_no);
+      }
+      return detailsOf(updateRow(transfers, id, { status: 'in_transit', dispatched_at: sqliteTime(new Date()) }));
+    });
+    res.json({ success: true, ...result });
+  }));
+
+  /**
+   * The receiving store counts what arrived. More than was dispatched is refused; less is
+   * recorded as received, and the difference stays visible on the transfer as a shortfall.
+   */
+  router.post('/:id/receive', requirePermission('GRN_POST'), handle(async (req, res) => {
+    const id = parseId(req.params.id);
+    const counted = validateLines(req.body?.lines, quantityFields, false);
+
+    await acquire(undefined);
+    const result = db.transaction(() => {
+      const transfer = requireById(transfers, id);
+      requireStatus(transfer, 'in_transit', 'received');
+
+      const receipts = quantitiesFor(transfer, counted, 'qty_dispatched');
+      const over = receipts.filter(({ line, qty }) => qty > round3(line.qty_dispatched ?? 0));
+      if (over.length > 0) {
+        throw new HttpError(
+          409,
+          'RECEIPT_EXCEEDS_DISPATCH',
+          `${over.length} line(s) received more than was dispatched on transfer ${transfer.transfer_no}`,
+          over.map(({ line, qty }) => ({ product_id: line.product_id, qty_dispatched: line.qty_dispatched, qty_received: qty }))
+        );
+      }
+
+      for (const { line, qty } of receipts) {
+        db.run('UPDATE transfer_lines SET qty_received = ? WHERE id = ?', [qty, line.id]);
+        recordMovement(line.product_id, qty, transfer.to_store, 'TRANSFER_IN', transfer.transfer_no);
+      }
+      return detailsOf(updateRow(transfers, id, { status: 'received', received_at: sqliteTime(new Date()) }));
+    });
+    res.json({ success: true, ...result });
+  }));
+}
+
+export const transfersRouter = createCrudRouter({ ...transfers, extend });
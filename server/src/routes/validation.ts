@@ -0,0 +1,156 @@
+import { FieldError, ValidationError } from './errors';
+
+export type FieldType = 'text' | 'integer' | 'real' | 'boolean' | 'datetime' | 'json';
+
+export interface FieldSpec {
+  type: FieldType;
+  required?: boolean;
+  nullable?: boolean;
+  enum?: readonly string[];
+  min?: number;
+  max?: number;
+  maxLength?: number;
+  /** Accepted on write but never returned (e.g. PINs) */
+  writeOnly?: boolean;
+  /** Returned but never accepted from clients (e.g. server timestamps) */
+  readOnly?: boolean;
+}
+
+export type FieldMap = Record<string, FieldSpec>;
+
+function coerce(name: string, spec: FieldSpec, raw: unknown, errors: FieldError[]): unknown {
+  switch (spec.type) {
+    case 'text': {
+      if (typeof raw !== 'string' && typeof raw !== 'number') {
+        errors.push({ field: name, message: 'must be a string' });
+        return undefined;
+      }
+      const value = String(raw).trim();
+      if (spec.required && value === '') errors.push({ field: name, message: 'must not be empty' });
+      if (spec.maxLength !== undefined && value.length > spec.maxLength) {
+        errors.push({ field: name, message: `must be at most ${spec.maxLength} characters` });
+      }
+      if (spec.enum && !spec.enum.includes(value)) {
+        errors.push({ field: name, message: `must be one of ${spec.enum.join(', ')}` });
+      }
+      return value;
+    }
+    case 'integer':
+    case 'real': {
+      const value = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push({ field: name, message: 'must be a number' });
+        return undefined;
+      }
+      if (spec.type === 'integer' && !Number.isInteger(value)) {
+        errors.push({ field: name, message: 'must be an integer' });
+      }
+      if (spec.min !== undefined && value < spec.min) errors.push({ field: name, message: `must be >= ${spec.min}` });
+      if (spec.max !== undefined && value > spec.max) errors.push({ field: name, message: `must be <= ${spec.max}` });
+      return value;
+    }
+    case 'boolean': {
+      if (raw === true || raw === 1 || raw === '1' || raw === 'true') return 1;
+      if (raw === false || raw === 0 || raw === '0' || raw === 'false') return 0;
+      errors.push({ field: name, message: 'must be a boolean' });
+      return undefined;
+    }
+    case 'datetime': {
+      const value = raw instanceof Date ? raw.toISOString() : raw;
+      if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+        errors.push({ field: name, message: 'must be an ISO date/time' });
+        return undefined;
+      }
+      return value;
+    }
+    case 'json': {
+      if (typeof raw === 'string') {
+        try {
+          JSON.parse(raw);
+          return raw;
+        } catch {
+          errors.push({ field: name, message: 'must be valid JSON' });
+          return undefined;
+        }
+      }
+      return JSON.stringify(raw);
+    }
+  }
+}
+
+/**
+ * Validate a request body against a field map and return the column values to persist.
+ * In `update` mode only supplied fields are checked and required fields may be omitted.
+ */
+export function validateBody(fields: FieldMap, body: unknown, mode: 'create' | 'update'): Record<string, unknown> {
+  if (body === null || typeof body !== 'object' || Array.isArray(body)) {
+    throw new ValidationError([{ field: '(body)', message: 'must be a JSON object' }]);
+  }
+
+  const input = body as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  const values: Record<string, unknown> = {};
+
+  for (const [name, spec] of Object.entries(fields)) {
+    if (spec.readOnly) continue;
+    const raw = input[name];
+
+    if (raw === undefined) {
+      if (mode === 'create' && spec.required) errors.push({ field: name, message: 'is required' });
+      continue;
+    }
+    if (raw === null || raw === '') {
+      if (spec.required || spec.nullable === false) {
+        errors.push({ field: name, message: 'is required' });
+      } else {
+        values[name] = null;
+      }
+      continue;
+    }
+
+    const value = coerce(name, spec, raw, errors);
+    if (value !== undefined) values[name] = value;
+  }
+
+  const unknownFields = Object.keys(input).filter(k => k !== 'id' && !(k in fields));
+  unknownFields.forEach(field => errors.push({ field, message: 'is not a known field' }));
+
+  if (errors.length > 0) throw new ValidationError(errors);
+  if (mode === 'update' && Object.keys(values).length === 0) {
+    throw new ValidationError([{ field: '(body)', message: 'no updatable fields supplied' }]);
+  }
+  return values;
+}
+
+/** Validate a scalar query/path value, e.g. `:id` or `?supplier_id=` */
+export function parseParam(name: string, spec: FieldSpec, raw: unknown): unknown {
+  const errors: FieldError[] = [];
+  const value = coerce(name, spec, raw, errors);
+  if (errors.length > 0) throw new ValidationError(errors, `Invalid parameter: ${name}`);
+  return value;
+}
+
+export function parseId(raw: unknown): number {
+  return parseParam('id', { type: 'integer', min: 1 }, raw) as number;
+}
+
+/** Convert a stored row into its API shape (booleans, parsed JSON, hidden columns) */
+export function serializeRow(fields: FieldMap, row: Record<string, any>): Record<string, any> {
+  const out: Record<string, any> = {};
+  for (const [key, value] of Object.entries(row)) {
+    const spec = fields[key];
+    if (spec?.writeOnly) continue;
+    if (spec?.type === 'boolean' && value !== null) {
+      out[key] = Boolean(value);
+    } else if (spec?.type === 'json' && typeof value === 'string') {
+      try {
+        out[key] = JSON.parse(value);
+      } catch {
+        out[key] = value;
+      }
+    } else {
+      out[key] = value;
+    }
+  }
+  return out;
+}
@@ -20,6 +20,9 @@ import StocktakeSession from '@/pages/StocktakeSession';
 import Grn from '@/pages/Grn';
 import GRNList from '@/pages/GRNList';
 import GRNReceive from '@/pages/GRNReceive';
+import { PurchaseOrders } from '@/pages/PurchaseOrders';
+import { Transfers } from '@/pages/Transfers';
+import { SupplierReturns } from '@/pages/SupplierReturns';
 import ShiftList from '@/pages/ShiftList';
 import ShiftSession from '@/pages/ShiftSession';
 import NewShift from '@/pages/NewShift';
@@ -83,6 +86,9 @@ function App() {
         <Route path="grn" element={<GRNList />} />
         <Route path="grn/new" element={<GRNReceive />} />
         <Route path="grn/:id" element={<GRNReceive />} />
+        <Route path="purchase-orders" element={<PurchaseOrders />} />
+        <Route path="transfers" element={<Transfers />} />
+        <Route path="supplier-returns" element={<SupplierReturns />} />
         <Route path="shifts" element={<ShiftList />} />
         <Route path="shifts/new" element={<NewShift />} />
         <Route path="shifts/:id" element={<ShiftSession />} />
@@ -1,3 +1,6 @@
+import { SCALE_PROTOCOLS, ScaleFrame, ScaleProtocol, ScaleProtocolId, convertWeight } from './scale/protocols';
+import { SerialPortLike } from './scale/SimulatedSerialPort';
+
 export interface ScaleReading {
   weight: number;
   unit: string;
@@ -12,6 +15,10 @@ export interface ScaleConfig {
   timeout: number;
   unit: 'kg' | 'g' | 'lb' | 'oz';
   precision: number;
+  // Serial protocol spoken by the scale (default CAS continuous output)
+  protocol?: ScaleProtocolId;
+  // Unit the scale is set to, for protocols whose frames carry none (default kg)
+  scaleUnit?: 'kg' | 'g' | 'lb' | 'oz';
 }
 
 export abstract class ScaleAdapter {
@@ -29,6 +36,8 @@ export abstract class ScaleAdapter {
   abstract getReading(): Promise<ScaleReading | null>;
   abstract startContinuousReading(): Promise<void>;
   abstract stopContinuousReading(): Promise<void>;
+  abstract tare(): Promise<void>;
+  abstract zero(): Promise<void>;
 
   onReading(callback: (reading: ScaleReading) => void): () => void {
     this.listeners.add(callback);
@@ -44,94 +53,93 @@ export abstract class ScaleAdapter {
   }
 }
 
+/**
+ * Fallback for browsers without Web Serial. There is no scale to read, so it never reports a
+ * weight and the scale panel stays on manual entry.
+ */
 export class WebScaleAdapter extends ScaleAdapter {
-  private continuousInterval?: NodeJS.Timeout;
-
   async connect(): Promise<void> {
     if (!this.config.enabled) return;
-    
-    // In a real implementation, this would connect to a serial port or USB scale
-    // For now, we'll simulate the connection
-    this.isConnected = true;
-    console.log('Scale connected (simulated)');
+    console.warn('Web Serial is not available; enter weights manually');
   }
 
   async disconnect(): Promise<void> {
     this.isConnected = false;
-    if (this.continuousInterval) {
-      clearInterval(this.continuousInterval);
-      this.continuousInterval = undefined;
-    }
-    console.log('Scale disconnected');
   }
 
   async isAvailable(): Promise<boolean> {
-    // Check if Web Serial API is available
-    return typeof window !== 'undefined' && 'serial' in navigator;
+    return false;
   }
 
   async getReading(): Promise<ScaleReading | null> {
-    if (!this.isConnected) return null;
-
-    // Simulate scale reading
-    const weight = Math.random() * 5 + 0.1; // Random weight between 0.1 and 5.1
-    const stable = Math.random() > 0.1; // 90% chance of stable reading
-
-    return {
-      weight: parseFloat(weight.toFixed(this.config.precision)),
-      unit: this.config.unit,
-      stable,
-      timestamp: new Date(),
-    };
+    return null;
   }
 
   async startContinuousReading(): Promise<void> {
-    if (!this.isConnected) return;
-
-    this.continuousInterval = setInterval(async () => {
-      const reading = await this.getReading();
-      if (reading) {
-        this.emitReading(reading);
-      }
-    }, 1000); // Read every second
+    // Nothing to read
   }
 
   async stopContinuousReading(): Promise<void> {
-    if (this.continuousInterval) {
-      clearInterval(this.continuousInterval);
-      this.continuousInterval = undefined;
-    }
+    // Nothing to read
+  }
+
+  async tare(): Promise<void> {
+    // Nothing to tare
+  }
+
+  async zero(): Promise<void> {
+    // Nothing to zero
   }
 }
 
+/** Weigh-command interval for request/response scales while reading continuously */
+const POLL_INTERVAL_MS = 500;
+
+/**
+ * Scale on a USB or RS-232 serial port through Web Serial, speaking one of SCALE_PROTOCOLS.
+ * Weights are converted to `config.unit` and rounded to `config.precision`. A continuous
+ * reading is stable only when the scale flags it stable and it repeats the previous weight,
+ * since some scales flag ST before the platter has settled. Scales without a tare command
+ * get a software tare taken from the last gross weight.
+ */
 export class SerialScaleAdapter extends ScaleAdapter {
-  private port?: any; // SerialPort type not available in browser
-  private reader?: ReadableStreamDefaultReader;
-  private continuousInterval?: NodeJS.Timeout;
+  private port?: SerialPortLike;
+  private reader?: ReadableStreamDefaultReader<Uint8Array>;
+  private readLoop?: Promise<void>;
+  private pollInterval?: ReturnType<typeof setInterval>;
+  private streaming = false;
+  private waiters: Array<(reading: ScaleReading | null) => void> = [];
+  private lastGross: number | null = null;
+  private softwareTare = 0;
+  private previous: ScaleReading | null = null;
+
+  constructor(
+    config: ScaleConfig,
+    private requestPort: () => Promise<SerialPortLike> = () => (navigator as any).serial.requestPort()
+  ) {
+    super(config);
+  }
+
+  get protocol(): ScaleProtocol {
+    return SCALE_PROTOCOLS[this.config.protocol || 'cas'];
+  }
 
   async connect(): Promise<void> {
-    if (!this.config.enabled) return;
-    
-    try {
-      // Request access to serial port
-      this.port = await (navigator as any).serial.requestPort({
-        filters: [
-          { usbVendorId: 0x1234 }, // Example vendor ID
-          { usbProductId: 0x5678 }, // Example product ID
-        ],
-      });
+    if (!this.config.enabled || this.isConnected) return;
 
-      // Open the port
-      await this.port.open({
-        baudRate: this.config.baudRate || 9600,
-        dataBits: 8,
-        stopBits: 1,
-        parity: 'none',
-        flowControl: 'none',
+    try {
+      // USB-serial adapters carry no scale vendor ID, so let the cashier pick the port
+      const port = await this.requestPort();
+      await port.open({
+        ...this.protocol.serial,
+        baudRate: this.config.baudRate || this.protocol.serial.baudRate,
+        flowControl: 'none'
       });
 
+      this.port = port;
       this.isConnected = true;
-      console.log('Serial scale connected');
+      this.readLoop = this.read(port);
+      console.log(`Serial scale connected (${this.protocol.name})`);
     } catch (error) {
       console.error('Failed to connect to scale:', error);
       throw error;
@@ -139,22 +147,23 @@ export class SerialScaleAdapter extends ScaleAdapter {
   }
 
   async disconnect(): Promise<void> {
+    await this.stopContinuousReading();
+    this.isConnected = false;
+
     if (this.reader) {
-      await this.reader.cancel();
-      this.reader = undefined;
+      await this.reader.cancel().catch(() => undefined);
     }
+    await this.readLoop;
+    this.readLoop = undefined;
 
     if (this.port) {
       await this.port.close();
       this.port = undefined;
     }
 
-    if (this.continuousInterval) {
-      clearInterval(this.continuousInterval);
-      this.continuousInterval = undefined;
-    }
-
-    this.isConnected = false;
+    this.flushWaiters(null);
+    this.previous = null;
+    this.lastGross = null;
     console.log('Serial scale disconnected');
   }
 
@@ -162,62 +171,134 @@ export class SerialScaleAdapter extends ScaleAdapter {
     return typeof window !== 'undefined' && 'serial' in navigator;
   }
 
+  /** The next weight from the scale; null if it reports no weight or none arrives within `config.timeout` */
   async getReading(): Promise<ScaleReading | null> {
     if (!this.isConnected || !this.port) return null;
 
-    try {
-      const writer = this.port.writable?.getWriter();
-      if (!writer) return null;
+    const next = new Promise<ScaleReading | null>(resolve => {
+      const waiter = (reading: ScaleReading | null) => {
+        clearTimeout(timer);
+        resolve(reading);
+      };
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter(other => other !== waiter);
+        resolve(null);
+      }, this.config.timeout);
+      this.waiters.push(waiter);
+    });
+
+    if (this.protocol.mode === 'request') {
+      await this.send(this.protocol.commands.weigh);
+    }
+    return next;
+  }
 
-      // Send command to get weight (example command)
-      const command = new TextEncoder().encode('W\r\n');
-      await writer.write(command);
-      writer.releaseLock();
+  async startContinuousReading(): Promise<void> {
+    if (!this.isConnected || this.streaming) return;
 
-      // Read response
-      const reader = this.port.readable?.getReader();
-      if (!reader) return null;
+    this.streaming = true;
+    if (this.protocol.mode === 'request') {
+      this.pollInterval = setInterval(() => {
+        this.send(this.protocol.commands.weigh).catch(error => console.error('Error polling scale:', error));
+      }, POLL_INTERVAL_MS);
+    }
+  }
 
-      const { value, done } = await reader.read();
-      reader.releaseLock();
+  async stopContinuousReading(): Promise<void> {
+    this.streaming = false;
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = undefined;
+    }
+  }
 
-      if (done || !value) return null;
-
-      const response = new TextDecoder().decode(value);
-      const match = response.match(/(\d+\.?\d*)/);
-      
-      if (match) {
-        const weight = parseFloat(match[1]);
-        return {
-          weight: parseFloat(weight.toFixed(this.config.precision)),
-          unit: this.config.unit,
-          stable: true,
-          timestamp: new Date(),
-        };
-      }
+  async tare(): Promise<void> {
+    if (!this.isConnected) return;
 
-      return null;
-    } catch (error) {
-      console.error('Error reading from scale:', error);
-      return null;
+    if (this.protocol.commands.tare) {
+      this.softwareTare = 0;
+      await this.send(this.protocol.commands.tare);
+    } else {
+      this.softwareTare = this.lastGross ?? 0;
     }
+    this.previous = null;
   }
 
-  async startContinuousReading(): Promise<void> {
+  async zero(): Promise<void> {
     if (!this.isConnected) return;
 
-    this.continuousInterval = setInterval(async () => {
-      const reading = await this.getReading();
-      if (reading) {
-        this.emitReading(reading);
+    if (!this.protocol.commands.zero) {
+      throw new Error(`${this.protocol.name} scales cannot be zeroed from the POS`);
+    }
+    this.softwareTare = 0;
+    this.previous = null;
+    await this.send(this.protocol.commands.zero);
+  }
+
+  private async read(port: SerialPortLike): Promise<void> {
+    if (!port.readable) return;
+
+    const reader = port.readable.getReader();
+    this.reader = reader;
+    let buffer = '';
+    try {
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        buffer += String.fromCharCode(...value);
+        const { frames, rest } = this.protocol.parse(buffer);
+        // A scale talking another protocol never completes a frame; don't let that grow forever
+        buffer = rest.slice(-256);
+        frames.forEach(frame => this.handleFrame(frame));
       }
-    }, 2000); // Read every 2 seconds
+    } catch (error) {
+      if (this.isConnected) console.error('Error reading from scale:', error);
+    } finally {
+      reader.releaseLock();
+      this.reader = undefined;
+    }
   }
 
-  async stopContinuousReading(): Promise<void> {
-    if (this.continuousInterval) {
-      clearInterval(this.continuousInterval);
-      this.continuousInterval = undefined;
+  private handleFrame(frame: ScaleFrame): void {
+    if (frame.weight === null) {
+      // In motion or out of range: no weight to report yet
+      this.previous = null;
+      this.flushWaiters(null);
+      return;
+    }
+
+    const gross = convertWeight(frame.weight, frame.unit ?? this.config.scaleUnit ?? 'kg', this.config.unit);
+    this.lastGross = gross;
+
+    const weight = Number((gross - this.softwareTare).toFixed(this.config.precision));
+    const settled = this.protocol.mode === 'request' || this.previous?.weight === weight;
+    const reading: ScaleReading = {
+      weight,
+      unit: this.config.unit,
+      stable: frame.stable && settled,
+      timestamp: new Date(),
+    };
+    this.previous = reading;
+
+    this.flushWaiters(reading);
+    if (this.streaming) this.emitReading(reading);
+  }
+
+  private flushWaiters(reading: ScaleReading | null): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(waiter => waiter(reading));
+  }
+
+  private async send(command: string | undefined): Promise<void> {
+    if (!command || !this.port?.writable) return;
+
+    const writer = this.port.writable.getWriter();
+    try {
+      await writer.write(Uint8Array.from(command, char => char.charCodeAt(0)));
+    } finally {
+      writer.releaseLock();
     }
   }
 }
@@ -252,6 +333,14 @@ export class ElectronScaleAdapter extends ScaleAdapter {
   async stopContinuousReading(): Promise<void> {
     // Implementation for Electron
   }
+
+  async tare(): Promise<void> {
+    // Implementation for Electron
+  }
+
+  async zero(): Promise<void> {
+    // Implementation for Electron
+  }
 }
 
 // Factory function to get the appropriate adapter
@@ -262,7 +351,7 @@ export function createScaleAdapter(config: ScaleConfig): ScaleAdapter {
       return new SerialScaleAdapter(config);
     }
     
-    // Fallback to simulated adapter
+    // No Web Serial: weights are entered by hand
     return new WebScaleAdapter(config);
   }
   
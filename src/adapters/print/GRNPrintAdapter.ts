@@ -1,4 +1,5 @@
 import { GRN, GRNLine, Supplier } from '../../types';
+import { SupplierReturnDetails, RETURN_REASON_LABELS } from '../../services/supplierReturnService';
 
 export interface GRNPrintData {
   header: GRN;
@@ -12,29 +13,10 @@ export interface GRNPrintData {
   };
 }
 
-export class GRNPrintAdapter {
-  /**
-   * Render GRN as A4 HTML for printing
-   */
-  renderA4(data: GRNPrintData): string {
-    const { header, lines, supplier, totals } = data;
-    
-    const formatCurrency = (amount: number) => 
-      `LKR ${amount.toLocaleString('en-LK', { minimumFractionDigits: 2 })}`;
-    
-    const formatDate = (dateString: string) => 
-      new Date(dateString).toLocaleDateString('en-LK');
-    
-    const formatDateTime = (dateString: string) => 
-      new Date(dateString).toLocaleString('en-LK');
+export type DebitNotePrintData = SupplierReturnDetails;
 
-    return `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="utf-8">
-    <title>GRN - ${header.grn_no}</title>
-    <style>
+// Shared by the GRN and the debit note for goods sent back against it
+const A4_STYLES = `
         @page {
             size: A4;
             margin: 20mm;
@@ -196,7 +178,34 @@ export class GRNPrintAdapter {
             margin: 0;
             font-size: 11px;
         }
-    </style>
+`;
+
+const formatCurrency = (amount: number) =>
+  `LKR ${amount.toLocaleString('en-LK', { minimumFractionDigits: 2 })}`;
+
+// Server timestamps are UTC without a zone marker
+const parseDate = (value: string) => new Date(value.includes('T') || value.length <= 10 ? value : `${value.replace(' ', 'T')}Z`);
+
+export class GRNPrintAdapter {
+  /**
+   * Render GRN as A4 HTML for printing
+   */
+  renderA4(data: GRNPrintData): string {
+    const { header, lines, supplier, totals } = data;
+    
+    const formatDate = (dateString: string) => 
+      new Date(dateString).toLocaleDateString('en-LK');
+    
+    const formatDateTime = (dateString: string) => 
+      new Date(dateString).toLocaleString('en-LK');
+
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <title>GRN - ${header.grn_no}</title>
+    <style>${A4_STYLES}</style>
 </head>
 <body>
     <div class="grn-container">
@@ -324,8 +333,149 @@ export class GRNPrintAdapter {
    * Print GRN to printer
    */
   async print(data: GRNPrintData): Promise<void> {
-    const html = this.renderA4(data);
-    
+    this.printHtml(this.renderA4(data));
+  }
+
+  /**
+   * Render a supplier return as an A4 debit note: what went back, why, and what the supplier owes
+   */
+  renderDebitNote(data: DebitNotePrintData): string {
+    const { supplier_return: header, supplier, grn, lines, credits } = data;
+    const formatDate = (value: string) => parseDate(value).toLocaleDateString('en-LK');
+    const outstanding = Math.max(header.total - header.credit_received, 0);
+
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <title>Debit Note - ${header.return_no}</title>
+    <style>${A4_STYLES}</style>
+</head>
+<body>
+    <div class="grn-container">
+        <div class="header">
+            <div class="company-info">
+                <div class="company-name">Grocery Store</div>
+                <div class="company-address">123 Main Street, Colombo 01, Sri Lanka</div>
+            </div>
+            
+            <div class="grn-title">DEBIT NOTE</div>
+            
+            <div class="grn-details">
+                <div class="grn-info">
+                    <h3>Return Details</h3>
+                    <div class="info-row">
+                        <div class="info-label">Debit Note No:</div>
+                        <div class="info-value">${header.return_no}</div>
+                    </div>
+                    <div class="info-row">
+                        <div class="info-label">Date:</div>
+                        <div class="info-value">${formatDate(header.posted_at || header.created_at)}</div>
+                    </div>
+                    <div class="info-row">
+                        <div class="info-label">Against GRN:</div>
+                        <div class="info-value">${grn ? `${grn.grn_no} (${formatDate(grn.datetime)})` : 'N/A'}</div>
+                    </div>
+                    <div class="info-row">
+                        <div class="info-label">Status:</div>
+                        <div class="info-value">${header.status.toUpperCase()}</div>
+                    </div>
+                </div>
+                
+                <div class="supplier-info">
+                    <h3>Supplier Details</h3>
+                    <div class="info-row">
+                        <div class="info-label">Name:</div>
+                        <div class="info-value">${supplier?.supplier_name || 'N/A'}</div>
+                    </div>
+                    <div class="info-row">
+                        <div class="info-label">Phone:</div>
+                        <div class="info-value">${supplier?.contact_phone || 'N/A'}</div>
+                    </div>
+                    <div class="info-row">
+                        <div class="info-label">Address:</div>
+                        <div class="info-value">${supplier?.address || 'N/A'}</div>
+                    </div>
+                </div>
+            </div>
+        </div>
+        
+        <table class="lines-table">
+            <thead>
+                <tr>
+                    <th style="width: 5%;">#</th>
+                    <th style="width: 15%;">SKU</th>
+                    <th style="width: 28%;">Product Name</th>
+                    <th style="width: 12%;">Batch</th>
+                    <th style="width: 10%;">Reason</th>
+                    <th style="width: 8%;">Qty</th>
+                    <th style="width: 10%;">Unit Cost</th>
+                    <th style="width: 12%;">Total</th>
+                </tr>
+            </thead>
+            <tbody>
+                ${lines.map((line, index) => `
+                    <tr>
+                        <td class="text-center">${index + 1}</td>
+                        <td>${line.sku || 'N/A'}</td>
+                        <td>${line.product_name || 'Unknown Product'}</td>
+                        <td class="text-center">${line.batch_code || 'N/A'}</td>
+                        <td class="text-center">${RETURN_REASON_LABELS[line.reason] ?? line.reason}</td>
+                        <td class="text-right">${line.qty} ${line.unit || ''}</td>
+                        <td class="text-right">${formatCurrency(line.unit_cost)}</td>
+                        <td class="text-right">${formatCurrency(line.qty * line.unit_cost)}</td>
+                    </tr>
+                `).join('')}
+            </tbody>
+        </table>
+        
+        <div class="totals-section">
+            <table class="totals-table">
+                <tr class="total-row">
+                    <td class="label">Amount Due:</td>
+                    <td class="text-right">${formatCurrency(header.total)}</td>
+                </tr>
+                ${credits.map(credit => `
+                <tr>
+                    <td class="label">Credit ${credit.ref || ''} (${formatDate(credit.received_at)}):</td>
+                    <td class="text-right">-${formatCurrency(credit.amount)}</td>
+                </tr>
+                `).join('')}
+                ${credits.length > 0 ? `
+                <tr class="total-row">
+                    <td class="label">Outstanding:</td>
+                    <td class="text-right">${formatCurrency(outstanding)}</td>
+                </tr>
+                ` : ''}
+            </table>
+        </div>
+        
+        ${header.note ? `
+            <div class="notes">
+                <h4>Notes:</h4>
+                <p>${header.note}</p>
+            </div>
+        ` : ''}
+        
+        <div class="footer">
+            <p>Please credit our account with the amount above</p>
+            <p>Printed on: ${new Date().toLocaleString('en-LK')}</p>
+        </div>
+    </div>
+</body>
+</html>
+    `;
+  }
+
+  /**
+   * Print a supplier return's debit note
+   */
+  async printDebitNote(data: DebitNotePrintData): Promise<void> {
+    this.printHtml(this.renderDebitNote(data));
+  }
+
+  private printHtml(html: string): void {
     // Open print dialog
     const printWindow = window.open('', '_blank');
     if (!printWindow) {
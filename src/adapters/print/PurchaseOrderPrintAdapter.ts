@@ -0,0 +1,312 @@
+import { PurchaseOrderDetails } from '../../services/purchaseOrderService';
+
+export interface PurchaseOrderPrintData extends PurchaseOrderDetails {
+  store: {
+    name: string;
+    address?: string;
+  };
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+
+const formatCurrency = (amount: number) =>
+  `LKR ${amount.toLocaleString('en-LK', { minimumFractionDigits: 2 })}`;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-LK');
+
+export class PurchaseOrderPrintAdapter {
+  /**
+   * Render purchase order as A4 HTML for printing
+   */
+  renderA4(data: PurchaseOrderPrintData): string {
+    const { purchase_order: po, supplier, lines, store } = data;
+    const total = lines.reduce((sum, line) => sum + line.qty * line.unit_cost, 0);
+
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <title>Purchase Order - ${escapeHtml(po.po_no)}</title>
+    <style>
+        @page {
+            size: A4;
+            margin: 20mm;
+        }
+
+        body {
+            font-family: Arial, sans-serif;
+            font-size: 12px;
+            line-height: 1.4;
+            color: #000;
+            margin: 0;
+            padding: 0;
+        }
+
+        .header {
+            border-bottom: 2px solid #333;
+            padding-bottom: 20px;
+            margin-bottom: 30px;
+        }
+
+        .company-info {
+            text-align: center;
+            margin-bottom: 20px;
+        }
+
+        .company-name {
+            font-size: 24px;
+            font-weight: bold;
+            margin-bottom: 5px;
+        }
+
+        .company-address {
+            font-size: 14px;
+            color: #666;
+        }
+
+        .po-title {
+            font-size: 20px;
+            font-weight: bold;
+            text-align: center;
+            margin: 20px 0;
+            text-transform: uppercase;
+        }
+
+        .po-details {
+            display: flex;
+            justify-content: space-between;
+            gap: 30px;
+        }
+
+        .po-info, .supplier-info {
+            flex: 1;
+        }
+
+        .po-info h3, .supplier-info h3 {
+            margin: 0 0 10px 0;
+            font-size: 14px;
+            font-weight: bold;
+            border-bottom: 1px solid #ccc;
+            padding-bottom: 5px;
+        }
+
+        .info-row {
+            display: flex;
+            margin-bottom: 5px;
+        }
+
+        .info-label {
+            font-weight: bold;
+            width: 120px;
+        }
+
+        .info-value {
+            flex: 1;
+        }
+
+        .lines-table {
+            width: 100%;
+            border-collapse: collapse;
+            margin-bottom: 20px;
+        }
+
+        .lines-table th,
+        .lines-table td {
+            border: 1px solid #333;
+            padding: 8px;
+            text-align: left;
+        }
+
+        .lines-table th {
+            background-color: #f5f5f5;
+            font-weight: bold;
+            text-align: center;
+        }
+
+        .lines-table .text-right {
+            text-align: right;
+        }
+
+        .lines-table .text-center {
+            text-align: center;
+        }
+
+        .lines-table .total-row td {
+            font-weight: bold;
+            background-color: #e0e0e0;
+        }
+
+        .notes {
+            margin-top: 20px;
+            padding: 10px;
+            background-color: #f9f9f9;
+            border: 1px solid #ddd;
+        }
+
+        .notes h4 {
+            margin: 0 0 10px 0;
+            font-size: 12px;
+            font-weight: bold;
+        }
+
+        .notes p {
+            margin: 0;
+            font-size: 11px;
+        }
+
+        .signature {
+            margin-top: 60px;
+            display: flex;
+            justify-content: flex-end;
+        }
+
+        .signature div {
+            width: 200px;
+            border-top: 1px solid #333;
+            text-align: center;
+            padding-top: 5px;
+        }
+
+        .footer {
+            margin-top: 40px;
+            text-align: center;
+            font-size: 10px;
+            color: #666;
+            border-top: 1px solid #ccc;
+            padding-top: 10px;
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <div class="company-info">
+            <div class="company-name">${escapeHtml(store.name)}</div>
+            ${store.address ? `<div class="company-address">${escapeHtml(store.address)}</div>` : ''}
+        </div>
+
+        <div class="po-title">Purchase Order</div>
+
+        <div class="po-details">
+            <div class="po-info">
+                <h3>Order Details</h3>
+                <div class="info-row">
+                    <div class="info-label">PO No:</div>
+                    <div class="info-value">${escapeHtml(po.po_no)}</div>
+                </div>
+                <div class="info-row">
+                    <div class="info-label">Date:</div>
+                    <div class="info-value">${formatDate(po.created_at)}</div>
+                </div>
+                <div class="info-row">
+                    <div class="info-label">Deliver By:</div>
+                    <div class="info-value">${po.expected_date ? formatDate(po.expected_date) : 'N/A'}</div>
+                </div>
+            </div>
+
+            <div class="supplier-info">
+                <h3>Supplier</h3>
+                <div class="info-row">
+                    <div class="info-label">Name:</div>
+                    <div class="info-value">${escapeHtml(supplier?.supplier_name ?? 'N/A')}</div>
+                </div>
+                <div class="info-row">
+                    <div class="info-label">Phone:</div>
+                    <div class="info-value">${escapeHtml(supplier?.contact_phone || 'N/A')}</div>
+                </div>
+                <div class="info-row">
+                    <div class="info-label">Email:</div>
+                    <div class="info-value">${escapeHtml(supplier?.contact_email || 'N/A')}</div>
+                </div>
+                <div class="info-row">
+                    <div class="info-label">Address:</div>
+                    <div class="info-value">${escapeHtml(supplier?.address || 'N/A')}</div>
+                </div>
+            </div>
+        </div>
+    </div>
+
+    <table class="lines-table">
+        <thead>
+            <tr>
+                <th style="width: 5%;">#</th>
+                <th style="width: 15%;">SKU</th>
+                <th style="width: 35%;">Product Name</th>
+                <th style="width: 10%;">UOM</th>
+                <th style="width: 10%;">Qty</th>
+                <th style="width: 12%;">Unit Cost</th>
+                <th style="width: 13%;">Total</th>
+            </tr>
+        </thead>
+        <tbody>
+            ${lines.map((line, index) => `
+                <tr>
+                    <td class="text-center">${index + 1}</td>
+                    <td>${escapeHtml(line.sku || 'N/A')}</td>
+                    <td>${escapeHtml(line.product_name || 'Unknown Product')}</td>
+                    <td class="text-center">${escapeHtml(line.uom)}</td>
+                    <td class="text-right">${line.qty}</td>
+                    <td class="text-right">${formatCurrency(line.unit_cost)}</td>
+                    <td class="text-right">${formatCurrency(line.qty * line.unit_cost)}</td>
+                </tr>
+            `).join('')}
+            <tr class="total-row">
+                <td colspan="6" class="text-right">Order Total:</td>
+                <td class="text-right">${formatCurrency(total)}</td>
+            </tr>
+        </tbody>
+    </table>
+
+    ${po.note ? `
+        <div class="notes">
+            <h4>Notes:</h4>
+            <p>${escapeHtml(po.note)}</p>
+        </div>
+    ` : ''}
+
+    <div class="signature">
+        <div>Authorised Signature</div>
+    </div>
+
+    <div class="footer">
+        <p>Please quote ${escapeHtml(po.po_no)} on your delivery note and invoice.</p>
+        <p>Printed on: ${new Date().toLocaleString('en-LK')}</p>
+    </div>
+</body>
+</html>
+    `;
+  }
+
+  /**
+   * Print purchase order to printer
+   */
+  async print(data: PurchaseOrderPrintData): Promise<void> {
+    const html = this.renderA4(data);
+
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      throw new Error('Unable to open print window');
+    }
+
+    printWindow.document.write(html);
+    printWindow.document.close();
+
+    // Auto-print after a short delay
+    setTimeout(() => {
+      printWindow.print();
+      printWindow.close();
+    }, 100);
+  }
+
+  /**
+   * Generate preview HTML
+   */
+  preview(data: PurchaseOrderPrintData): string {
+    return this.renderA4(data);
+  }
+}
+
+// Export singleton instance
+export const purchaseOrderPrintAdapter = new PurchaseOrderPrintAdapter();
@@ -1,4 +1,5 @@
-import { ShiftSummary } from '../../types';
+import { CashCountSummary, ShiftSummary, TaxBreakdownLine } from '../../types';
+import { formatTaxLabel } from '../../lib/tax';
 
 export interface ShiftPrintData {
   summary: ShiftSummary;
@@ -48,7 +49,7 @@ export class ShiftPrintAdapter {
    */
   renderZ(data: ShiftPrintData): string {
     const { summary, storeInfo } = data;
-    const { shift, sales, payments, cashDrawer } = summary;
+    const { shift, sales, taxBreakdown, payments, cashDrawer, cashCount } = summary;
     
     const closeTime = shift.closed_at ? new Date(shift.closed_at).toLocaleString() : new Date().toLocaleString();
     
@@ -66,8 +67,10 @@ export class ShiftPrintAdapter {
             ${this.renderHeader(storeInfo, 'Z REPORT', shift.terminal_name, closeTime)}
             ${this.renderShiftInfo(shift, 'Z')}
             ${this.renderSalesSection(sales)}
+            ${this.renderTaxSection(taxBreakdown)}
             ${this.renderPaymentsSection(payments)}
             ${this.renderCashDrawerSection(cashDrawer, 'Z')}
+            ${this.renderCashCountSection(cashCount)}
             ${this.renderFooter(storeInfo, 'Z')}
           </div>
         </body>
@@ -150,6 +153,26 @@ export class ShiftPrintAdapter {
     `;
   }
 
+  private renderTaxSection(taxBreakdown: TaxBreakdownLine[] = []): string {
+    if (taxBreakdown.length === 0) return '';
+
+    return `
+      <div class="section">
+        <div class="section-title">TAX BREAKDOWN</div>
+        ${taxBreakdown.map(line => `
+          <div class="info-row">
+            <span>${formatTaxLabel(line)}:</span>
+            <span>${this.formatCurrency(line.tax)}</span>
+          </div>
+          <div class="info-row">
+            <span>&nbsp;&nbsp;Taxable:</span>
+            <span>${this.formatCurrency(line.taxable)}</span>
+          </div>
+        `).join('')}
+      </div>
+    `;
+  }
+
   private renderPaymentsSection(payments: { cash: number; card: number; wallet: number; other?: number }): string {
     return `
       <div class="section">
@@ -222,6 +245,58 @@ export class ShiftPrintAdapter {
     `;
   }
 
+  private renderCashCountSection(cashCount?: CashCountSummary | null): string {
+    if (!cashCount) return '';
+
+    const signed = (amount: number) => `${amount >= 0 ? '+' : ''}${this.formatCurrency(amount)}`;
+
+    return `
+      <div class="section">
+        <div class="section-title">CASH COUNT</div>
+        <div class="info-row count-head">
+          <span>Denom</span>
+          <span>Open / Drop / Count</span>
+          <span>Diff</span>
+        </div>
+        ${cashCount.lines.map(line => `
+          <div class="info-row">
+            <span>${line.denomination}</span>
+            <span>${line.opening} / ${line.dropped} / ${line.counted}</span>
+            <span>${signed(line.difference)}</span>
+          </div>
+        `).join('')}
+        ${cashCount.openingTotal !== null ? `
+          <div class="info-row">
+            <span>Opening Count:</span>
+            <span>${this.formatCurrency(cashCount.openingTotal)}</span>
+          </div>
+        ` : ''}
+        ${cashCount.droppedTotal > 0 ? `
+          <div class="info-row">
+            <span>Counted Drops:</span>
+            <span>${this.formatCurrency(cashCount.droppedTotal)}</span>
+          </div>
+        ` : ''}
+        <div class="info-row">
+          <span>Expected Takings:</span>
+          <span>${this.formatCurrency(cashCount.expectedTakings)}</span>
+        </div>
+        ${cashCount.countedTotal !== null ? `
+          <div class="info-row total">
+            <span>Closing Count:</span>
+            <span>${this.formatCurrency(cashCount.countedTotal)}</span>
+          </div>
+        ` : ''}
+        ${cashCount.variance !== null ? `
+          <div class="info-row ${cashCount.variance === 0 ? 'variance-zero' : cashCount.variance > 0 ? 'variance-positive' : 'variance-negative'}">
+            <span>Variance:</span>
+            <span>${signed(cashCount.variance)}</span>
+          </div>
+        ` : ''}
+      </div>
+    `;
+  }
+
   private renderFooter(storeInfo: { name: string; address: string; phone?: string }, reportType: string): string {
     const footerText = reportType === 'X' ? 'Thank you' : 'End of Day';
     
@@ -326,6 +401,12 @@ export class ShiftPrintAdapter {
         font-size: 11px;
       }
       
+      .count-head {
+        font-weight: bold;
+        border-bottom: 1px solid #000;
+        padding-bottom: 2px;
+      }
+      
       .info-row.total {
         font-weight: bold;
         border-top: 1px solid #000;
@@ -392,6 +473,27 @@ export class ShiftPrintAdapter {
       }
     `;
   }
+
+  /**
+   * Print an X or Z report in a new window
+   */
+  async print(data: ShiftPrintData): Promise<void> {
+    const html = data.reportType === 'Z' ? this.renderZ(data) : this.renderX(data);
+
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      throw new Error('Unable to open print window');
+    }
+
+    printWindow.document.write(html);
+    printWindow.document.close();
+
+    // Auto-print after a short delay
+    setTimeout(() => {
+      printWindow.print();
+      printWindow.close();
+    }, 100);
+  }
 }
 
 export const shiftPrintAdapter = new ShiftPrintAdapter();
@@ -0,0 +1,318 @@
+import { TransferDetails, transferShortfall } from '../../services/transferService';
+
+export interface TransferNotePrintData extends TransferDetails {
+  company: {
+    name: string;
+    address?: string;
+  };
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+
+// Server timestamps are UTC without a zone marker
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`).toLocaleString('en-LK') : '-';
+
+const formatQty = (value: number | null) => (value === null ? '' : String(value));
+
+const STATUS_TITLES = {
+  requested: 'Stock Transfer Request',
+  in_transit: 'Stock Transfer Note',
+  received: 'Stock Transfer Receipt'
+} as const;
+
+export class TransferNotePrintAdapter {
+  /**
+   * Render the transfer as an A4 note: a pick list while requested, the delivery note that
+   * travels with the goods once dispatched, and the receipt with any shortfall once received
+   */
+  renderA4(data: TransferNotePrintData): string {
+    const { transfer, from_store: from, to_store: to, lines, company } = data;
+    const showReceived = transfer.status === 'received';
+
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <title>${STATUS_TITLES[transfer.status]} - ${escapeHtml(transfer.transfer_no)}</title>
+    <style>
+        @page {
+            size: A4;
+            margin: 20mm;
+        }
+
+        body {
+            font-family: Arial, sans-serif;
+            font-size: 12px;
+            line-height: 1.4;
+            color: #000;
+            margin: 0;
+            padding: 0;
+        }
+
+        .header {
+            border-bottom: 2px solid #333;
+            padding-bottom: 20px;
+            margin-bottom: 30px;
+        }
+
+        .company-info {
+            text-align: center;
+            margin-bottom: 20px;
+        }
+
+        .company-name {
+            font-size: 24px;
+            font-weight: bold;
+            margin-bottom: 5px;
+        }
+
+        .company-address {
+            font-size: 14px;
+            color: #666;
+        }
+
+        .title {
+            font-size: 20px;
+            font-weight: bold;
+            text-align: center;
+            margin: 20px 0;
+            text-transform: uppercase;
+        }
+
+        .details {
+            display: flex;
+            justify-content: space-between;
+            gap: 30px;
+        }
+
+        .details > div {
+            flex: 1;
+        }
+
+        .details h3 {
+            margin: 0 0 10px 0;
+            font-size: 14px;
+            font-weight: bold;
+            border-bottom: 1px solid #ccc;
+            padding-bottom: 5px;
+        }
+
+        .info-row {
+            display: flex;
+            margin-bottom: 5px;
+        }
+
+        .info-label {
+            font-weight: bold;
+            width: 120px;
+        }
+
+        .info-value {
+            flex: 1;
+        }
+
+        .lines-table {
+            width: 100%;
+            border-collapse: collapse;
+            margin-bottom: 20px;
+        }
+
+        .lines-table th,
+        .lines-table td {
+            border: 1px solid #333;
+            padding: 8px;
+            text-align: left;
+        }
+
+        .lines-table th {
+            background-color: #f5f5f5;
+            font-weight: bold;
+            text-align: center;
+        }
+
+        .lines-table .text-right {
+            text-align: right;
+        }
+
+        .lines-table .text-center {
+            text-align: center;
+        }
+
+        .lines-table .short {
+            color: #b00;
+            font-weight: bold;
+        }
+
+        .notes {
+            margin-top: 20px;
+            padding: 10px;
+            background-color: #f9f9f9;
+            border: 1px solid #ddd;
+        }
+
+        .notes h4 {
+            margin: 0 0 10px 0;
+            font-size: 12px;
+            font-weight: bold;
+        }
+
+        .notes p {
+            margin: 0;
+            font-size: 11px;
+        }
+
+        .signatures {
+            margin-top: 60px;
+            display: flex;
+            justify-content: space-between;
+        }
+
+        .signatures div {
+            width: 200px;
+            border-top: 1px solid #333;
+            text-align: center;
+            padding-top: 5px;
+        }
+
+        .footer {
+            margin-top: 40px;
+            text-align: center;
+            font-size: 10px;
+            color: #666;
+            border-top: 1px solid #ccc;
+            padding-top: 10px;
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <div class="company-info">
+            <div class="company-name">${escapeHtml(company.name)}</div>
+            ${company.address ? `<div class="company-address">${escapeHtml(company.address)}</div>` : ''}
+        </div>
+
+        <div class="title">${STATUS_TITLES[transfer.status]}</div>
+
+        <div class="details">
+            <div>
+                <h3>Transfer Details</h3>
+                <div class="info-row">
+                    <div class="info-label">Transfer No:</div>
+                    <div class="info-value">${escapeHtml(transfer.transfer_no)}</div>
+                </div>
+                <div class="info-row">
+                    <div class="info-label">Requested:</div>
+                    <div class="info-value">${formatDateTime(transfer.created_at)}</div>
+                </div>
+                <div class="info-row">
+                    <div class="info-label">Dispatched:</div>
+                    <div class="info-value">${formatDateTime(transfer.dispatched_at)}</div>
+                </div>
+                <div class="info-row">
+                    <div class="info-label">Received:</div>
+                    <div class="info-value">${formatDateTime(transfer.received_at)}</div>
+                </div>
+            </div>
+
+            <div>
+                <h3>Stores</h3>
+                <div class="info-row">
+                    <div class="info-label">From:</div>
+                    <div class="info-value">${escapeHtml(from?.name ?? `#${transfer.from_store}`)}</div>
+                </div>
+                <div class="info-row">
+                    <div class="info-label">To:</div>
+                    <div class="info-value">${escapeHtml(to?.name ?? `#${transfer.to_store}`)}</div>
+                </div>
+            </div>
+        </div>
+    </div>
+
+    <table class="lines-table">
+        <thead>
+            <tr>
+                <th style="width: 5%;">#</th>
+                <th style="width: 15%;">SKU</th>
+                <th>Product Name</th>
+                <th style="width: 8%;">Unit</th>
+                <th style="width: 11%;">Requested</th>
+                <th style="width: 11%;">Dispatched</th>
+                <th style="width: 11%;">Received</th>
+                ${showReceived ? '<th style="width: 9%;">Short</th>' : ''}
+            </tr>
+        </thead>
+        <tbody>
+            ${lines.map((line, index) => {
+              const short = transferShortfall(line);
+              return `
+                <tr>
+                    <td class="text-center">${index + 1}</td>
+                    <td>${escapeHtml(line.sku || 'N/A')}</td>
+                    <td>${escapeHtml(line.product_name || 'Unknown Product')}</td>
+                    <td class="text-center">${escapeHtml(line.unit || '')}</td>
+                    <td class="text-right">${line.qty}</td>
+                    <td class="text-right">${formatQty(line.qty_dispatched)}</td>
+                    <td class="text-right">${formatQty(line.qty_received)}</td>
+                    ${showReceived ? `<td class="text-right${short > 0 ? ' short' : ''}">${short > 0 ? short : ''}</td>` : ''}
+                </tr>
+            `;
+            }).join('')}
+        </tbody>
+    </table>
+
+    ${transfer.note ? `
+        <div class="notes">
+            <h4>Notes:</h4>
+            <p>${escapeHtml(transfer.note)}</p>
+        </div>
+    ` : ''}
+
+    <div class="signatures">
+        <div>Dispatched By</div>
+        <div>Delivered By</div>
+        <div>Received By</div>
+    </div>
+
+    <div class="footer">
+        <p>Quote ${escapeHtml(transfer.transfer_no)} on any query about this transfer.</p>
+        <p>Printed on: ${new Date().toLocaleString('en-LK')}</p>
+    </div>
+</body>
+</html>
+    `;
+  }
+
+  /**
+   * Print transfer note to printer
+   */
+  async print(data: TransferNotePrintData): Promise<void> {
+    const html = this.renderA4(data);
+
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      throw new Error('Unable to open print window');
+    }
+
+    printWindow.document.write(html);
+    printWindow.document.close();
+
+    // Auto-print after a short delay
+    setTimeout(() => {
+      printWindow.print();
+      printWindow.close();
+    }, 100);
+  }
+
+  /**
+   * Generate preview HTML
+   */
+  preview(data: TransferNotePrintData): string {
+    return this.renderA4(data);
+  }
+}
+
+// Export singleton instance
+export const transferNotePrintAdapter = new TransferNotePrintAdapter();
@@ -1,4 +1,6 @@
 import { ReceiptAdapter, ReceiptPayload } from '@/types/receipt';
+import { formatTaxLabel } from '@/lib/tax';
+import { unitSuffix } from '@/lib/uom';
 
 export class A4PreviewAdapter implements ReceiptAdapter {
   name = 'A4Preview';
@@ -69,7 +71,7 @@ export class A4PreviewAdapter implements ReceiptAdapter {
       return `
         <tr>
           <td>${localizedName}</td>
-          <td class="text-center">${qtyFormatted}${item.unit}</td>
+          <td class="text-center">${qtyFormatted}${unitSuffix(item.unit)}</td>
           <td class="text-right">${unitPriceFormatted}</td>
           <td class="text-right">${discountFormatted}</td>
           <td class="text-right">${totalFormatted}</td>
@@ -380,7 +382,12 @@ export class A4PreviewAdapter implements ReceiptAdapter {
                     <td class="text-right">${totals.discount}</td>
                 </tr>
                 ` : ''}
-                ${invoice.totals.tax > 0 ? `
+                ${invoice.totals.taxBreakdown?.length ? invoice.totals.taxBreakdown.filter(t => t.tax > 0).map(t => `
+                <tr>
+                    <td class="label">${formatTaxLabel(t)}:</td>
+                    <td class="text-right">${formatCurrency(applyRounding(t.tax))}</td>
+                </tr>
+                `).join('') : invoice.totals.tax > 0 ? `
                 <tr>
                     <td class="label">${localizedContent.tax}:</td>
                     <td class="text-right">${totals.tax}</td>
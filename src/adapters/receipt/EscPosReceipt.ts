@@ -0,0 +1,128 @@
+import { ReceiptPayload } from '@/types/receipt';
+import { formatTaxLabel } from '@/lib/tax';
+import { unitSuffix } from '@/lib/uom';
+import { EscPosEncoder, TextRasterizer } from '@/lib/escpos';
+
+/** Receipt wording in the invoice language, as the thermal adapters localize it */
+export interface EscPosReceiptLabels {
+  invoice: string;
+  returnId: string;
+  returnReceipt: string;
+  taxId: string;
+  gross: string;
+  discount: string;
+  tax: string;
+  net: string;
+  cash: string;
+  card: string;
+  wallet: string;
+  change: string;
+  priceTier: string;
+  retail: string;
+  wholesale: string;
+  credit: string;
+  other: string;
+  thankYou: string;
+  defaultFooter: string;
+}
+
+export interface EscPosReceiptOptions {
+  columns: number;
+  widthDots: number;
+  labels: EscPosReceiptLabels;
+  rasterize?: TextRasterizer | null;
+}
+
+/**
+ * Encode a receipt as an ESC/POS byte stream: text, native CODE128 and QR codes, a partial cut
+ * and, for cash sales when enabled, a cash drawer kick.
+ */
+export function renderEscPosReceipt(payload: ReceiptPayload, options: EscPosReceiptOptions): Uint8Array {
+  const { store, terminalName, invoice, options: receipt } = payload;
+  const labels = options.labels;
+  const printer = new EscPosEncoder(options);
+
+  // Amounts print as "Rs." so they stay text; "රු" would turn every amount row into an image
+  const money = (amount: number) =>
+    `Rs.${applyRounding(amount, receipt.roundingMode).toLocaleString('en-LK', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  const quantity = (qty: number, unit: string) =>
+    unit === 'kg' ? qty.toFixed(receipt.decimalPlacesKg || 3) : qty.toFixed(0);
+  const itemName = (item: ReceiptPayload['invoice']['items'][number]) =>
+    (invoice.language === 'SI' ? item.name_si : invoice.language === 'TA' ? item.name_ta : undefined) || item.name_en;
+
+  printer.initialize();
+
+  if (invoice.isReprint) {
+    printer.align('center').bold().line('*** REPRINT ***').bold(false);
+  }
+
+  printer.align('center').bold().size(2).line(store.name).size(1).bold(false);
+  if (store.address) printer.line(store.address);
+  if (store.taxId) printer.line(`${labels.taxId}: ${store.taxId}`);
+  if (payload.type === 'return') printer.bold().line(labels.returnReceipt).bold(false);
+
+  const datetime = new Date(invoice.datetime);
+  const tierLabels = { Retail: labels.retail, Wholesale: labels.wholesale, Credit: labels.credit, Other: labels.other };
+  printer
+    .align('left')
+    .row(`${payload.type === 'return' ? labels.returnId : labels.invoice}: ${invoice.id}`, terminalName)
+    .row(datetime.toLocaleDateString(), datetime.toLocaleTimeString())
+    .align('center')
+    .line(`${labels.priceTier}: ${tierLabels[invoice.priceTier] ?? invoice.priceTier}`)
+    .align('left')
+    .rule();
+
+  for (const item of invoice.items) {
+    printer
+      .line(itemName(item))
+      .row(`  ${quantity(item.qty, item.unit)}${unitSuffix(item.unit)} x ${money(item.unitPrice)}`, money(item.total));
+    if (item.lineDiscount > 0) {
+      printer.row(`  ${labels.discount}`, `-${money(item.lineDiscount)}`);
+    }
+  }
+  printer.rule();
+
+  printer.row(`${labels.gross}:`, money(invoice.totals.gross));
+  if (invoice.totals.discount > 0) printer.row(`${labels.discount}:`, money(invoice.totals.discount));
+  if (invoice.totals.taxBreakdown?.length) {
+    invoice.totals.taxBreakdown
+      .filter(line => line.tax > 0)
+      .forEach(line => printer.row(`${formatTaxLabel(line)}:`, money(line.tax)));
+  } else if (invoice.totals.tax > 0) {
+    printer.row(`${labels.tax}:`, money(invoice.totals.tax));
+  }
+  printer.bold().size(1, 2).row(`${labels.net}:`, money(invoice.totals.net)).size(1).bold(false).rule();
+
+  const payments = [
+    { label: labels.cash, amount: invoice.payments.cash },
+    { label: labels.card, amount: invoice.payments.card },
+    { label: labels.wallet, amount: invoice.payments.wallet }
+  ].filter(payment => Number(payment.amount) > 0);
+  payments.forEach(payment => printer.row(`${payment.label}:`, money(payment.amount)));
+  if (invoice.payments.change > 0) printer.row(`${labels.change}:`, money(invoice.payments.change));
+
+  printer.align('center');
+  if (receipt.showBarcode) printer.feed(1).barcode(invoice.id);
+  if (receipt.showQRCode) printer.feed(1).qrcode(invoice.id);
+
+  printer
+    .feed(1)
+    .line(receipt.footerText[invoice.language] || labels.defaultFooter)
+    .line(labels.thankYou)
+    .cut();
+
+  if (receipt.openCashDrawerOnCash && invoice.payments.cash > 0) printer.pulse();
+
+  return printer.encode();
+}
+
+function applyRounding(amount: number, mode: ReceiptPayload['options']['roundingMode']): number {
+  switch (mode) {
+    case 'NEAREST_0_10':
+      return Math.round(amount * 10) / 10;
+    case 'NEAREST_0_50':
+      return Math.round(amount * 2) / 2;
+    default:
+      return Math.round(amount);
+  }
+}
@@ -0,0 +1,67 @@
+import { AppSettings } from '@/types';
+import { apiRequest, getServerBaseUrl } from '@/utils/api';
+
+/** Where an encoded ESC/POS job goes */
+export interface EscPosTransport {
+  readonly name: string;
+  send(bytes: Uint8Array): Promise<void>;
+}
+
+export interface NetworkPrinter {
+  host: string;
+  port: number;
+}
+
+/**
+ * Raw TCP printing (port 9100) through the POS server; browsers cannot open sockets.
+ * A server started with PRINTER_TRANSPORT=file writes the job to a capture file instead.
+ */
+export class ServerRawTransport implements EscPosTransport {
+  readonly name = 'network';
+
+  constructor(private printer: NetworkPrinter, private serverUrl: string) {}
+
+  async send(bytes: Uint8Array): Promise<void> {
+    const query = new URLSearchParams({ host: this.printer.host, port: String(this.printer.port) });
+
+    let response: Response;
+    try {
+      response = await apiRequest(`${this.serverUrl}/api/printers/raw?${query}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: bytes.slice().buffer
+      });
+    } catch {
+      throw new Error(`POS server unreachable at ${this.serverUrl}`);
+    }
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || data.success === false) {
+      throw new Error(data.error || `Printer error (${response.status})`);
+    }
+  }
+}
+
+/** Keeps every job in memory, for tests and for inspecting what would be printed */
+export class CaptureTransport implements EscPosTransport {
+  readonly name = 'capture';
+  readonly jobs: Uint8Array[] = [];
+
+  async send(bytes: Uint8Array): Promise<void> {
+    this.jobs.push(bytes);
+  }
+
+  get last(): Uint8Array | undefined {
+    return this.jobs[this.jobs.length - 1];
+  }
+}
+
+/** The configured receipt printer, or null when receipts go through the browser print dialog */
+export function createEscPosTransport(settings: AppSettings | undefined): EscPosTransport | null {
+  const printer = settings?.devices?.receiptPrinter;
+  if (printer?.connection !== 'network' || !printer.host) return null;
+  return new ServerRawTransport(
+    { host: printer.host, port: printer.port || 9100 },
+    getServerBaseUrl(settings?.dataSource)
+  );
+}
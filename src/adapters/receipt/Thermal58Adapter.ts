@@ -1,10 +1,35 @@
 import { ReceiptAdapter, ReceiptPayload } from '@/types/receipt';
+import { formatTaxLabel } from '@/lib/tax';
+import { unitSuffix } from '@/lib/uom';
+import { EscPosEncoder, TextRasterizer, canvasRasterizer } from '@/lib/escpos';
+import { useAppStore } from '@/store/appStore';
+import { renderEscPosReceipt } from './EscPosReceipt';
+import { EscPosTransport, createEscPosTransport } from './EscPosTransport';
+
+const COLUMNS = 32;
+const WIDTH_DOTS = 384;
 
 export class Thermal58Adapter implements ReceiptAdapter {
   name = 'Thermal58';
   supportsCashDrawer = true;
 
+  /**
+   * `transport` defaults to the receipt printer in Settings → Devices; with none configured
+   * receipts go through the browser print dialog.
+   */
+  constructor(
+    private transport?: EscPosTransport | null,
+    private rasterize: TextRasterizer | null = canvasRasterizer
+  ) {}
+
   async print(payload: ReceiptPayload): Promise<void> {
+    const transport = this.getTransport();
+    if (transport) {
+      // The byte stream includes the drawer kick when one is due
+      await transport.send(this.encode(payload));
+      return;
+    }
+
     const receiptHtml = await this.generateReceiptHtml(payload);
     
     // Open print dialog for thermal printer
@@ -32,6 +57,16 @@ export class Thermal58Adapter implements ReceiptAdapter {
     return this.generateReceiptHtml(payload, true);
   }
 
+  /** The receipt as an ESC/POS byte stream */
+  encode(payload: ReceiptPayload): Uint8Array {
+    return renderEscPosReceipt(payload, {
+      columns: COLUMNS,
+      widthDots: WIDTH_DOTS,
+      labels: this.getLocalizedContent(payload.invoice.language),
+      rasterize: this.rasterize
+    });
+  }
+
   private async generateReceiptHtml(payload: ReceiptPayload, isPreview = false): Promise<string> {
     const { store, terminalName, invoice, options } = payload;
     
@@ -74,7 +109,7 @@ export class Thermal58Adapter implements ReceiptAdapter {
         <div class="item-row">
           <div class="item-name">${this.truncateText(localizedName, 20)}</div>
           <div class="item-details">
-            ${qtyFormatted}${item.unit} × ${unitPriceFormatted}
+            ${qtyFormatted}${unitSuffix(item.unit)} × ${unitPriceFormatted}
           </div>
           <div class="item-total">${totalFormatted}</div>
       `;
@@ -323,7 +358,12 @@ export class Thermal58Adapter implements ReceiptAdapter {
             <span>${totals.discount}</span>
         </div>
         ` : ''}
-        ${invoice.totals.tax > 0 ? `
+        ${invoice.totals.taxBreakdown?.length ? invoice.totals.taxBreakdown.filter(t => t.tax > 0).map(t => `
+        <div class="total-row">
+            <span>${formatTaxLabel(t)}:</span>
+            <span>${formatCurrency(applyRounding(t.tax))}</span>
+        </div>
+        `).join('') : invoice.totals.tax > 0 ? `
         <div class="total-row">
             <span>${localizedContent.tax}:</span>
             <span>${totals.tax}</span>
@@ -485,9 +525,17 @@ export class Thermal58Adapter implements ReceiptAdapter {
     `;
   }
 
-  private async pulseCashDrawer(): Promise<void> {
-    // In a real implementation, this would send ESC/POS commands to the thermal printer
-    // For now, we'll just log it
-    console.log('Cash drawer pulse sent');
+  private getTransport(): EscPosTransport | null {
+    return this.transport !== undefined ? this.transport : createEscPosTransport(useAppStore.getState().settings);
+  }
+
+  /** Open the cash drawer on its own, e.g. for a no-sale */
+  async pulseCashDrawer(): Promise<void> {
+    const transport = this.getTransport();
+    if (!transport) {
+      console.warn('Cash drawer not opened: no network receipt printer is configured');
+      return;
+    }
+    await transport.send(new EscPosEncoder({ columns: COLUMNS, widthDots: WIDTH_DOTS }).initialize().pulse().encode());
   }
 }
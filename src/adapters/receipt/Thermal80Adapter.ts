@@ -1,10 +1,34 @@
 import { ReceiptAdapter, ReceiptPayload } from '@/types/receipt';
+import { formatTaxLabel } from '@/lib/tax';
+import { EscPosEncoder, TextRasterizer, canvasRasterizer } from '@/lib/escpos';
+import { useAppStore } from '@/store/appStore';
+import { renderEscPosReceipt } from './EscPosReceipt';
+import { EscPosTransport, createEscPosTransport } from './EscPosTransport';
+
+const COLUMNS = 48;
+const WIDTH_DOTS = 576;
 
 export class Thermal80Adapter implements ReceiptAdapter {
   name = 'Thermal80';
   supportsCashDrawer = true;
 
+  /**
+   * `transport` defaults to the receipt printer in Settings → Devices; with none configured
+   * receipts go through the browser print dialog.
+   */
+  constructor(
+    private transport?: EscPosTransport | null,
+    private rasterize: TextRasterizer | null = canvasRasterizer
+  ) {}
+
   async print(payload: ReceiptPayload): Promise<void> {
+    const transport = this.getTransport();
+    if (transport) {
+      // The byte stream includes the drawer kick when one is due
+      await transport.send(this.encode(payload));
+      return;
+    }
+
     const receiptHtml = await this.generateReceiptHtml(payload);
 
     // Use hidden iframe to allow Chrome print preview instead of system-only dialog
@@ -50,6 +74,16 @@ export class Thermal80Adapter implements ReceiptAdapter {
     return this.generateReceiptHtml(payload, true);
   }
 
+  /** The receipt as an ESC/POS byte stream */
+  encode(payload: ReceiptPayload): Uint8Array {
+    return renderEscPosReceipt(payload, {
+      columns: COLUMNS,
+      widthDots: WIDTH_DOTS,
+      labels: this.getLocalizedContent(payload.invoice.language),
+      rasterize: this.rasterize
+    });
+  }
+
   private async generateReceiptHtml(payload: ReceiptPayload, isPreview = false): Promise<string> {
     const { store, terminalName, invoice, options } = payload;
     
@@ -351,7 +385,12 @@ export class Thermal80Adapter implements ReceiptAdapter {
             <span>${totals.discount}</span>
         </div>
         ` : ''}
-        ${invoice.totals.tax > 0 ? `
+        ${invoice.totals.taxBreakdown?.length ? invoice.totals.taxBreakdown.filter(t => t.tax > 0).map(t => `
+        <div class="total-row">
+            <span>${formatTaxLabel(t)}:</span>
+            <span>${formatCurrency(applyRounding(t.tax))}</span>
+        </div>
+        `).join('') : invoice.totals.tax > 0 ? `
         <div class="total-row">
             <span>${localizedContent.tax}:</span>
             <span>${totals.tax}</span>
@@ -511,7 +550,17 @@ export class Thermal80Adapter implements ReceiptAdapter {
     `;
   }
 
-  private async pulseCashDrawer(): Promise<void> {
-    console.log('Cash drawer pulse sent');
+  private getTransport(): EscPosTransport | null {
+    return this.transport !== undefined ? this.transport : createEscPosTransport(useAppStore.getState().settings);
+  }
+
+  /** Open the cash drawer on its own, e.g. for a no-sale */
+  async pulseCashDrawer(): Promise<void> {
+    const transport = this.getTransport();
+    if (!transport) {
+      console.warn('Cash drawer not opened: no network receipt printer is configured');
+      return;
+    }
+    await transport.send(new EscPosEncoder({ columns: COLUMNS, widthDots: WIDTH_DOTS }).initialize().pulse().encode());
   }
 }
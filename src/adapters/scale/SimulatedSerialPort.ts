@@ -0,0 +1,58 @@
+import type { SerialOptions } from './protocols';
+
+/** The part of the Web Serial `SerialPort` the scale adapter uses */
+export interface SerialPortLike {
+  readonly readable: ReadableStream<Uint8Array> | null;
+  readonly writable: WritableStream<Uint8Array> | null;
+  open(options: SerialOptions & { flowControl?: 'none' | 'hardware' }): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * In-memory serial port for tests and demos. `emit` plays scale output into the read stream;
+ * `respond` answers commands the adapter writes, as a request/response scale would.
+ */
+export class SimulatedSerialPort implements SerialPortLike {
+  readable: ReadableStream<Uint8Array> | null = null;
+  writable: WritableStream<Uint8Array> | null = null;
+  readonly written: string[] = [];
+  openedWith?: SerialOptions;
+
+  private controller?: ReadableStreamDefaultController<Uint8Array>;
+
+  constructor(private respond?: (command: string) => string | undefined) {}
+
+  async open(options: SerialOptions): Promise<void> {
+    if (this.readable) throw new Error('Port is already open');
+    this.openedWith = options;
+    this.readable = new ReadableStream<Uint8Array>({
+      start: controller => {
+        this.controller = controller;
+      }
+    });
+    this.writable = new WritableStream<Uint8Array>({
+      write: chunk => {
+        const command = String.fromCharCode(...chunk);
+        this.written.push(command);
+        const reply = this.respond?.(command);
+        if (reply) this.emit(reply);
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    try {
+      this.controller?.close();
+    } catch {
+      // Already closed by a cancelled reader
+    }
+    this.controller = undefined;
+    this.readable = null;
+    this.writable = null;
+  }
+
+  emit(data: string): void {
+    if (!this.controller) throw new Error('Port is not open');
+    this.controller.enqueue(Uint8Array.from(data, char => char.charCodeAt(0)));
+  }
+}
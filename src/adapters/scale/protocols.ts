@@ -0,0 +1,140 @@
+import type { ScaleConfig } from '../ScaleAdapter';
+
+export type ScaleUnit = ScaleConfig['unit'];
+export type ScaleProtocolId = 'cas' | 'toledo-8217' | 'avery-nci';
+
+/** One weight message from the scale, in the scale's own unit */
+export interface ScaleFrame {
+  /** Null when the scale sent only status, e.g. a Toledo scale still in motion or over capacity */
+  weight: number | null;
+  /** Null for protocols that never send a unit; the scale's configured unit applies */
+  unit: ScaleUnit | null;
+  stable: boolean;
+}
+
+export interface SerialOptions {
+  baudRate: number;
+  dataBits: 7 | 8;
+  stopBits: 1 | 2;
+  parity: 'none' | 'even' | 'odd';
+}
+
+export interface ScaleProtocol {
+  id: ScaleProtocolId;
+  name: string;
+  /** Continuous scales stream frames on their own; request scales answer each weigh command */
+  mode: 'continuous' | 'request';
+  serial: SerialOptions;
+  commands: { weigh?: string; tare?: string; zero?: string };
+  /** Split buffered input into complete frames, returning the unfinished tail */
+  parse(buffer: string): { frames: ScaleFrame[]; rest: string };
+}
+
+const STX = '\x02';
+const ETX = '\x03';
+
+/**
+ * CAS continuous output (PD-II, ER, DB-II): `ST,GS,+  1.234kg` CR LF, where the header is
+ * ST (stable), US (unstable) or OL (overload) and GS/NT marks gross or net weight.
+ */
+const cas: ScaleProtocol = {
+  id: 'cas',
+  name: 'CAS continuous',
+  mode: 'continuous',
+  serial: { baudRate: 9600, dataBits: 8, stopBits: 1, parity: 'none' },
+  commands: { tare: 'T', zero: 'Z' },
+  parse(buffer) {
+    const lines = buffer.split(/\r?\n/);
+    const rest = lines.pop() ?? '';
+    const frames: ScaleFrame[] = [];
+    for (const line of lines) {
+      if (/^OL,/i.test(line)) {
+        frames.push({ weight: null, unit: null, stable: false });
+        continue;
+      }
+      const match = line.match(/^(ST|US),\s*(?:GS|NT|TR),\s*([+-]?)\s*([\d.]+)\s*(kg|g|lb|oz)\s*$/i);
+      if (!match) continue;
+      const [, header, sign, value, unit] = match;
+      frames.push({
+        weight: Number(value) * (sign === '-' ? -1 : 1),
+        unit: parseUnit(unit),
+        stable: header.toUpperCase() === 'ST'
+      });
+    }
+    return { frames, rest };
+  }
+};
+
+/**
+ * Mettler Toledo 8217: `W` returns STX + weight + CR once the scale is settled, or
+ * STX `?` + status byte + CR while it is moving, over capacity or below zero. Frames carry
+ * no unit and the protocol has no tare command.
+ */
+const toledo8217: ScaleProtocol = {
+  id: 'toledo-8217',
+  name: 'Toledo 8217',
+  mode: 'request',
+  serial: { baudRate: 9600, dataBits: 7, stopBits: 1, parity: 'even' },
+  commands: { weigh: 'W', zero: 'Z' },
+  parse(buffer) {
+    const frames: ScaleFrame[] = [];
+    let rest = buffer;
+    for (;;) {
+      const start = rest.indexOf(STX);
+      const end = start < 0 ? -1 : rest.indexOf('\r', start);
+      if (end < 0) break;
+      const body = rest.slice(start + 1, end);
+      rest = rest.slice(end + 1);
+
+      if (body.startsWith('?')) {
+        frames.push({ weight: null, unit: null, stable: false });
+      } else if (/^\d+(\.\d+)?$/.test(body.trim())) {
+        frames.push({ weight: Number(body.trim()), unit: null, stable: true });
+      }
+    }
+    return { frames, rest: rest.includes(STX) ? rest.slice(rest.indexOf(STX)) : '' };
+  }
+};
+
+/**
+ * Avery Weigh-Tronix NCI standard: `W` CR returns LF + weight + unit + CR LF + two status
+ * bytes + CR + ETX. Status bit 0 of the first byte is set while the scale is in motion; an
+ * over- or under-capacity scale sends dashes or carets instead of a weight.
+ */
+const averyNci: ScaleProtocol = {
+  id: 'avery-nci',
+  name: 'Avery Weigh-Tronix NCI',
+  mode: 'request',
+  serial: { baudRate: 9600, dataBits: 7, stopBits: 1, parity: 'even' },
+  commands: { weigh: 'W\r', tare: 'T\r', zero: 'Z\r' },
+  parse(buffer) {
+    const messages = buffer.split(ETX);
+    const rest = messages.pop() ?? '';
+    const frames: ScaleFrame[] = [];
+    for (const message of messages) {
+      const [weightLine = '', statusLine = ''] = message.split('\n').map(line => line.replace(/\r/g, '')).filter(Boolean);
+      const match = weightLine.match(/^\s*([+-]?)\s*([\d.]+)\s*(kg|g|lb|oz)\s*$/i);
+      const moving = statusLine.length > 0 && (statusLine.charCodeAt(0) & 0x01) === 1;
+      frames.push(match
+        ? { weight: Number(match[2]) * (match[1] === '-' ? -1 : 1), unit: parseUnit(match[3]), stable: !moving }
+        : { weight: null, unit: null, stable: false });
+    }
+    return { frames, rest };
+  }
+};
+
+export const SCALE_PROTOCOLS: Record<ScaleProtocolId, ScaleProtocol> = {
+  cas,
+  'toledo-8217': toledo8217,
+  'avery-nci': averyNci
+};
+
+const GRAMS_PER_UNIT: Record<ScaleUnit, number> = { kg: 1000, g: 1, lb: 453.59237, oz: 28.349523125 };
+
+export function convertWeight(value: number, from: ScaleUnit, to: ScaleUnit): number {
+  return from === to ? value : (value * GRAMS_PER_UNIT[from]) / GRAMS_PER_UNIT[to];
+}
+
+function parseUnit(unit: string): ScaleUnit {
+  return unit.toLowerCase() as ScaleUnit;
+}
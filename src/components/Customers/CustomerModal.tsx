@@ -2,6 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { X } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import { dataService, Customer } from '@/services/dataService';
+import { customerAccountService } from '@/services/customerAccountService';
+import { authService } from '@/services/authService';
 
 interface CustomerModalProps {
   customer?: Customer | null;
@@ -12,26 +14,34 @@ interface CustomerModalProps {
 interface FormData {
   customer_name: string;
   phone: string;
+  email: string;
   customer_type: 'Retail' | 'Wholesale' | 'Credit' | 'Other';
   note: string;
   active: boolean;
+  credit_limit: string;
 }
 
 interface ValidationErrors {
   customer_name?: string;
+  email?: string;
+  credit_limit?: string;
 }
 
 export function CustomerModal({ customer, onClose, onSave }: CustomerModalProps) {
   const [formData, setFormData] = useState<FormData>({
     customer_name: '',
     phone: '',
+    email: '',
     customer_type: 'Retail',
     note: '',
-    active: true
+    active: true,
+    credit_limit: '0'
   });
 
   const [errors, setErrors] = useState<ValidationErrors>({});
   const [loading, setLoading] = useState(false);
+  // The server refuses limit changes from anyone else, so the field is only offered to them
+  const canSetCreditLimit = authService.hasPermission('CREDIT_LIMIT_OVERRIDE');
 
   // Initialize form data when customer prop changes
   useEffect(() => {
@@ -39,9 +49,11 @@ export function CustomerModal({ customer, onClose, onSave }: CustomerModalProps)
       setFormData({
         customer_name: customer.customer_name,
         phone: customer.phone || '',
+        email: customer.email || '',
         customer_type: customer.customer_type,
         note: customer.note || '',
-        active: customer.active
+        active: customer.active,
+        credit_limit: String(customer.credit_limit ?? 0)
       });
     }
   }, [customer]);
@@ -60,6 +72,16 @@ export function CustomerModal({ customer, onClose, onSave }: CustomerModalProps)
       }
     }
 
+    // Needed for email payment reminders
+    if (formData.email.trim() && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email.trim())) {
+      newErrors.email = 'Enter a valid email address';
+    }
+
+    const creditLimit = Number(formData.credit_limit);
+    if (formData.credit_limit.trim() === '' || isNaN(creditLimit) || creditLimit < 0) {
+      newErrors.credit_limit = 'Credit limit must be zero or a positive amount';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -76,13 +98,19 @@ export function CustomerModal({ customer, onClose, onSave }: CustomerModalProps)
       const customerData: Omit<Customer, 'id' | 'created_at'> = {
         customer_name: formData.customer_name.trim(),
         phone: formData.phone.trim() || undefined,
+        email: formData.email.trim() || undefined,
         customer_type: formData.customer_type,
         note: formData.note.trim() || undefined,
-        active: formData.active
+        active: formData.active,
+        credit_limit: Number(formData.credit_limit)
       };
 
       if (customer?.id) {
         await dataService.updateCustomer(customer.id, customerData);
+        // Limits are enforced by the server ledger, so they are saved there
+        if (customerData.credit_limit !== (customer.credit_limit ?? 0)) {
+          await customerAccountService.setCreditLimit(customer.id, customerData.credit_limit!);
+        }
         toast.success('Customer updated successfully');
       } else {
         await dataService.createCustomer(customerData);
@@ -157,6 +185,25 @@ export function CustomerModal({ customer, onClose, onSave }: CustomerModalProps)
             />
           </div>
 
+          {/* Email */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Email
+            </label>
+            <input
+              type="email"
+              value={formData.email}
+              onChange={(e) => handleInputChange('email', e.target.value)}
+              className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-500 ${
+                errors.email ? 'border-red-500' : 'border-gray-300'
+              }`}
+              placeholder="Used for payment reminders"
+            />
+            {errors.email && (
+              <p className="text-red-500 text-sm mt-1">{errors.email}</p>
+            )}
+          </div>
+
           {/* Customer Type */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -177,6 +224,32 @@ export function CustomerModal({ customer, onClose, onSave }: CustomerModalProps)
             </p>
           </div>
 
+          {/* Credit Limit */}
+          {canSetCreditLimit && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Credit Limit
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.credit_limit}
+                onChange={(e) => handleInputChange('credit_limit', e.target.value)}
+                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-500 ${
+                  errors.credit_limit ? 'border-red-500' : 'border-gray-300'
+                }`}
+              />
+              {errors.credit_limit ? (
+                <p className="text-red-500 text-sm mt-1">{errors.credit_limit}</p>
+              ) : (
+                <p className="text-xs text-gray-500 mt-1">
+                  Maximum balance the customer may charge to account. 0 disables account sales without a manager override
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Note */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
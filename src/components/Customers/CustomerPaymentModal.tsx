@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Customer } from '@/services/dataService';
+import {
+  customerAccountService,
+  CustomerAccount,
+  AccountPaymentMethod
+} from '@/services/customerAccountService';
+import { accountPaymentReceiptAdapter } from '@/services/print/AccountPaymentReceiptAdapter';
+import { authService } from '@/services/authService';
+import { useAppStore } from '@/store/appStore';
+import { formatCurrency } from '@/lib/currency';
+
+interface CustomerPaymentModalProps {
+  customer: Customer;
+  account: CustomerAccount;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export function CustomerPaymentModal({ customer, account, onClose, onSaved }: CustomerPaymentModalProps) {
+  const { settings } = useAppStore();
+  const [amount, setAmount] = useState(account.balance > 0 ? account.balance.toFixed(2) : '');
+  const [method, setMethod] = useState<AccountPaymentMethod>('CASH');
+  const [reference, setReference] = useState('');
+  const [note, setNote] = useState('');
+  const [printReceipt, setPrintReceipt] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = Number(amount);
+    if (!amount || isNaN(value) || value <= 0) {
+      setError('Enter a payment amount greater than zero');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const user = authService.getCurrentUser();
+      const receipt = await customerAccountService.recordPayment(customer.id, {
+        amount: Math.round(value * 100) / 100,
+        method,
+        reference: reference.trim(),
+        note: note.trim(),
+        createdBy: user?.id
+      });
+      toast.success(`Payment ${receipt.receipt_no} recorded`);
+
+      if (printReceipt) {
+        try {
+          await accountPaymentReceiptAdapter.printReceipt({
+            receipt,
+            cashier_name: user?.name,
+            store_info: {
+              name: settings.storeInfo.name,
+              address: settings.storeInfo.address
+            }
+          }, { printerWidth: settings.devices.receiptPaper === '58mm' ? '58mm' : '80mm' });
+        } catch (printError) {
+          console.error('Failed to print payment receipt:', printError);
+          toast.error('Payment saved but the receipt could not be printed');
+        }
+      }
+
+      onSaved();
+    } catch (error) {
+      console.error('Failed to record payment:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to record payment');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-semibold text-gray-900">Receive Payment</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="bg-gray-50 rounded-lg p-3 text-sm">
+            <div className="font-medium text-gray-900">{customer.customer_name}</div>
+            <div className="flex justify-between text-gray-600 mt-1">
+              <span>Balance owed</span>
+              <span className="font-medium text-gray-900">{formatCurrency(account.balance)}</span>
+            </div>
+            <div className="flex justify-between text-gray-600">
+              <span>Credit limit</span>
+              <span>{formatCurrency(account.credit_limit)}</span>
+            </div>
+          </div>
+
+          {/* Amount */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Amount <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={amount}
+              onChange={(e) => {
+                setAmount(e.target.value);
+                setError(null);
+              }}
+              className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white ${
+                error ? 'border-red-500' : 'border-gray-300'
+              }`}
+              autoFocus
+            />
+            {error && <p className="text-red-500 text-sm mt-1">{error}</p>}
+          </div>
+
+          {/* Method */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Method
+            </label>
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as AccountPaymentMethod)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white"
+            >
+              <option value="CASH">Cash</option>
+              <option value="CARD">Card</option>
+              <option value="WALLET">Wallet</option>
+              <option value="BANK">Bank Transfer</option>
+            </select>
+          </div>
+
+          {/* Reference */}
+          {method !== 'CASH' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Reference
+              </label>
+              <input
+                type="text"
+                maxLength={64}
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-500"
+                placeholder="Card slip, wallet or transfer reference"
+              />
+            </div>
+          )}
+
+          {/* Note */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Note
+            </label>
+            <input
+              type="text"
+              maxLength={255}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-500"
+            />
+          </div>
+
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={printReceipt}
+              onChange={(e) => setPrintReceipt(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="ml-2 text-sm text-gray-700">Print receipt</span>
+          </label>
+
+          {/* Actions */}
+          <div className="flex items-center justify-end space-x-3 pt-6 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              disabled={loading}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+              disabled={loading}
+            >
+              {loading ? 'Saving...' : 'Record Payment'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -3,9 +3,8 @@ import { X, AlertTriangle, TestTube } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import { dataService, DiscountRule, Product, Category } from '@/services/dataService';
 import { discountEngine } from '@/services/discountEngine';
-import ManagerPinDialog from '@/components/Security/ManagerPinDialog';
 import { authService } from '@/services/authService';
-import { auditService, AUDIT_ACTIONS } from '@/services/auditService';
+import { AUDIT_ACTIONS } from '@/services/auditService';
 
 interface DiscountModalProps {
   rule?: DiscountRule | null;
@@ -58,8 +57,6 @@ export function DiscountModal({ rule, products, categories, onClose, onSave }: D
   const [conflictingRules, setConflictingRules] = useState<DiscountRule[]>([]);
   const [loading, setLoading] = useState(false);
   const [testResult, setTestResult] = useState<any>(null);
-  const [showManagerPin, setShowManagerPin] = useState(false);
-  const [pendingOverrideReason, setPendingOverrideReason] = useState('');
 
   // Initialize form data when rule prop changes
   useEffect(() => {
@@ -152,11 +149,18 @@ export function DiscountModal({ rule, products, categories, onClose, onSave }: D
       return;
     }
 
-    // Enforce manager override when discount percent exceeds cap (example cap: 10%)
-    const cashierCapPct = 10;
-    if (formData.type === 'PERCENT' && formData.value > cashierCapPct) {
-      setPendingOverrideReason(`Discount ${formData.value}% exceeds cap ${cashierCapPct}%`);
-      setShowManagerPin(true);
+    // Over the user's own discount limit a manager approves with their PIN
+    const approval = await authService.requireWithinLimit(
+      'DISCOUNT_OVERRIDE',
+      formData.type === 'PERCENT' ? { percent: formData.value } : { amount: formData.value },
+      `Discount rule of ${formData.type === 'PERCENT' ? `${formData.value}%` : formData.value.toFixed(2)} is over your limit`,
+      {
+        action: AUDIT_ACTIONS.DISCOUNT_OVERRIDE,
+        payload: { rule_preview: { name: formData.name, type: formData.type, value: formData.value } }
+      }
+    );
+    if (!approval.approved) {
+      toast.error('Manager authorization required');
       return;
     }
 
@@ -178,10 +182,14 @@ export function DiscountModal({ rule, products, categories, onClose, onSave }: D
 
       if (rule?.id) {
         await dataService.updateDiscountRule(rule.id, ruleData);
-        toast.success('Discount rule updated successfully');
       } else {
         await dataService.createDiscountRule(ruleData);
-        toast.success('Discount rule created successfully');
+      }
+
+      if (approval.escalated) {
+        toast.success('Discount rule saved with manager override');
+      } else {
+        toast.success(rule?.id ? 'Discount rule updated successfully' : 'Discount rule created successfully');
       }
 
       onSave();
@@ -573,62 +581,6 @@ export function DiscountModal({ rule, products, categories, onClose, onSave }: D
             </div>
           </div>
         </form>
-
-        {/* Manager PIN Dialog */}
-        <ManagerPinDialog
-          isOpen={showManagerPin}
-          onClose={() => setShowManagerPin(false)}
-          permissions={[ 'DISCOUNT_OVERRIDE' as any ]}
-          reason={pendingOverrideReason}
-          requiredRole={'MANAGER' as any}
-          onSuccess={async (manager) => {
-            setShowManagerPin(false);
-            setLoading(true);
-            try {
-              const ruleData: Omit<DiscountRule, 'id'> = {
-                name: formData.name.trim(),
-                applies_to: formData.applies_to,
-                target_id: formData.target_id,
-                type: formData.type,
-                value: formData.value,
-                max_qty_or_weight: formData.max_qty_or_weight,
-                active_from: new Date(formData.active_from),
-                active_to: new Date(formData.active_to),
-                priority: formData.priority,
-                reason_required: formData.reason_required,
-                active: formData.active
-              };
-
-              if (rule?.id) {
-                await dataService.updateDiscountRule(rule.id, ruleData);
-              } else {
-                await dataService.createDiscountRule(ruleData);
-              }
-
-              await auditService.log({
-                action: AUDIT_ACTIONS.DISCOUNT_OVERRIDE,
-                payload: {
-                  cashier_id: authService.getCurrentUser()?.id || null,
-                  manager_id: manager?.id || null,
-                  reason: pendingOverrideReason,
-                  rule_preview: { name: formData.name, type: formData.type, value: formData.value }
-                }
-              });
-
-              toast.success('Discount rule saved with manager override');
-              onSave();
-            } catch (error) {
-              console.error('Error saving discount rule with override:', error);
-              toast.error('Failed to save rule');
-            } finally {
-              setLoading(false);
-            }
-          }}
-          onError={() => {
-            setShowManagerPin(false);
-            toast.error('Manager authorization required');
-          }}
-        />
       </div>
     </div>
   );
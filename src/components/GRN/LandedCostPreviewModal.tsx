@@ -0,0 +1,152 @@
+import React, { useMemo } from 'react';
+import { X, CheckCircle, AlertTriangle } from 'lucide-react';
+import {
+  CostUpdatePolicy,
+  LANDED_COST_METHOD_LABELS,
+  MarginImpact,
+  marginImpact
+} from '@/lib/landedCost';
+import { formatCurrency } from '@/lib/currency';
+import { GRNLine, LandedCostMethod, Product } from '@/types';
+
+interface LandedCostPreviewModalProps {
+  lines: Array<GRNLine & { product?: Product }>;
+  other: number;
+  method: LandedCostMethod;
+  policy: CostUpdatePolicy;
+  posting: boolean;
+  onClose: () => void;
+  onConfirm: () => void;
+}
+
+// Margins falling by more than this many points are flagged
+const MARGIN_DROP_WARNING = 5;
+
+const formatMargin = (value: number | null) => (value === null ? '-' : `${value.toFixed(1)}%`);
+
+const formatCost = (value: number | null) => (value === null ? '-' : formatCurrency(value));
+
+export function LandedCostPreviewModal({
+  lines,
+  other,
+  method,
+  policy,
+  posting,
+  onClose,
+  onConfirm
+}: LandedCostPreviewModalProps) {
+  const preview = useMemo((): { rows: MarginImpact[]; error: string | null } => {
+    try {
+      const rows = marginImpact(
+        lines.map(line => ({
+          ...line,
+          unit: line.product?.unit,
+          price: line.product?.price_retail ?? line.product?.price ?? null,
+          cost: line.product?.cost ?? null
+        })),
+        other,
+        method,
+        policy
+      );
+      return { rows, error: null };
+    } catch (error) {
+      return { rows: [], error: error instanceof Error ? error.message : 'Failed to allocate the other charges' };
+    }
+  }, [lines, other, method, policy]);
+
+  const marginDrop = (row: MarginImpact) =>
+    row.marginBefore !== null && row.marginAfter !== null ? row.marginBefore - row.marginAfter : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Review Costs Before Posting</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              {other > 0
+                ? `${formatCurrency(other)} of other charges allocated ${LANDED_COST_METHOD_LABELS[method].toLowerCase()}`
+                : 'No other charges to allocate'}
+              {' · '}
+              {policy === 'none' ? 'Product costs unchanged' : `Product costs updated to the ${policy} cost`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {preview.error ? (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4" />
+              {preview.error}
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Charges</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Landed Unit Cost</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Cost Now</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Cost After</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Price</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Margin</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {preview.rows.map((row, index) => {
+                  const line = lines[index];
+                  const warn = marginDrop(row) > MARGIN_DROP_WARNING || (row.marginAfter !== null && row.marginAfter < 0);
+                  return (
+                    <tr key={line.id ?? index} className={warn ? 'bg-yellow-50' : ''}>
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-gray-900">{line.product?.name ?? `#${line.product_id}`}</div>
+                        <div className="text-xs text-gray-500">{line.product?.sku}</div>
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-900">{formatCurrency(row.share)}</td>
+                      <td className="px-3 py-2 text-right text-gray-900">{formatCurrency(row.landedCost)}</td>
+                      <td className="px-3 py-2 text-right text-gray-900">{formatCost(row.currentCost)}</td>
+                      <td className="px-3 py-2 text-right text-gray-900">{formatCost(row.newCost)}</td>
+                      <td className="px-3 py-2 text-right text-gray-900">{formatCost(row.price)}</td>
+                      <td className="px-3 py-2 text-right">
+                        <span className="text-gray-500">{formatMargin(row.marginBefore)}</span>
+                        {' → '}
+                        <span className={warn ? 'font-medium text-red-600' : 'font-medium text-gray-900'}>
+                          {formatMargin(row.marginAfter)}
+                        </span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+
+          <div className="flex items-center justify-end space-x-3 pt-6 mt-6 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Back
+            </button>
+            <button
+              type="button"
+              onClick={onConfirm}
+              disabled={posting || !!preview.error}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <CheckCircle className="w-4 h-4 mr-2" />
+              {posting ? 'Posting...' : 'Post GRN'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
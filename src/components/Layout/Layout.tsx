@@ -2,6 +2,7 @@ import React, { useEffect } from 'react';
 import { Outlet, useNavigate } from 'react-router-dom';
 import { Sidebar } from './Sidebar';
 import { Header } from './Header';
+import ManagerPinPrompt from '@/components/Security/ManagerPinPrompt';
 import { useAppStore } from '@/store/appStore';
 import { cn } from '@/utils/cn';
 
@@ -66,6 +67,21 @@ export function Layout() {
         e.preventDefault();
         navigate('/settings');
       }
+      // Ctrl+Shift+G for Purchase Orders
+      else if (e.ctrlKey && e.shiftKey && e.key.toLowerCase() === 'g') {
+        e.preventDefault();
+        navigate('/purchase-orders');
+      }
+      // Ctrl+Shift+T for Transfers
+      else if (e.ctrlKey && e.shiftKey && e.key.toLowerCase() === 't') {
+        e.preventDefault();
+        navigate('/transfers');
+      }
+      // Ctrl+Shift+D for Supplier Returns (debit notes)
+      else if (e.ctrlKey && e.shiftKey && e.key.toLowerCase() === 'd') {
+        e.preventDefault();
+        navigate('/supplier-returns');
+      }
       // Ctrl+G for GRN
       else if (e.ctrlKey && e.key.toLowerCase() === 'g') {
         e.preventDefault();
@@ -120,6 +136,8 @@ export function Layout() {
           </div>
         </main>
       </div>
+
+      <ManagerPinPrompt />
     </div>
   );
 }
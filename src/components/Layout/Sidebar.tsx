@@ -15,6 +15,7 @@ import {
   Menu,
   X,
   ClipboardCheck,
+  ClipboardList,
   FileInput,
   Shield,
   UserCog,
@@ -129,6 +130,7 @@ import {
   MoveRight,
   ArrowUpDown,
   ArrowLeftRight,
+  PackageMinus,
   ArrowUpLeft,
   ArrowUpRight,
   ArrowDownLeft,
@@ -256,6 +258,9 @@ const navigationSections: NavigationSection[] = [
       { name: 'Labels', href: '/labels', icon: Tag, shortcut: 'Ctrl+L' },
       { name: 'Stocktake', href: '/stocktake', icon: ClipboardCheck, shortcut: 'F12' },
       { name: 'GRN', href: '/grn', icon: FileInput, shortcut: 'Ctrl+G' },
+      { name: 'Purchase Orders', href: '/purchase-orders', icon: ClipboardList, shortcut: 'Ctrl+Shift+G' },
+      { name: 'Transfers', href: '/transfers', icon: ArrowLeftRight, shortcut: 'Ctrl+Shift+T' },
+      { name: 'Supplier Returns', href: '/supplier-returns', icon: PackageMinus, shortcut: 'Ctrl+Shift+D' },
     ]
   },
   {
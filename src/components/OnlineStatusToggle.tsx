@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { Wifi, WifiOff, RefreshCw, CheckCircle, XCircle } from 'lucide-react';
+import { Wifi, WifiOff, RefreshCw, CheckCircle, XCircle, UploadCloud, AlertTriangle } from 'lucide-react';
 import { toast } from 'react-hot-toast';
+import { saleQueueService, SaleQueueStatus } from '@/services/saleQueueService';
+import { RejectedSalesDialog } from './RejectedSalesDialog';
 
 interface OnlineStatusToggleProps {
   onStatusChange?: (isOnline: boolean) => void;
@@ -10,6 +12,8 @@ export function OnlineStatusToggle({ onStatusChange }: OnlineStatusToggleProps)
   const [isOnline, setIsOnline] = useState(false);
   const [isChecking, setIsChecking] = useState(false);
   const [lastChecked, setLastChecked] = useState<Date | null>(null);
+  const [queue, setQueue] = useState<SaleQueueStatus>(saleQueueService.getStatus());
+  const [showRejected, setShowRejected] = useState(false);
 
   const checkOnlineStatus = async () => {
     setIsChecking(true);
@@ -29,6 +33,8 @@ export function OnlineStatusToggle({ onStatusChange }: OnlineStatusToggleProps)
         if (wasOffline) {
           toast.success('System is now online!');
         }
+        // Send any sales finalized while offline
+        saleQueueService.flush().catch(() => undefined);
       } else {
         throw new Error('Server not responding');
       }
@@ -68,6 +74,8 @@ export function OnlineStatusToggle({ onStatusChange }: OnlineStatusToggleProps)
     return () => clearInterval(interval);
   }, []);
 
+  useEffect(() => saleQueueService.subscribe(setQueue), []);
+
   return (
     <div className="flex items-center space-x-2">
       {/* Status Indicator */}
@@ -114,6 +122,39 @@ export function OnlineStatusToggle({ onStatusChange }: OnlineStatusToggleProps)
         <RefreshCw className={`w-4 h-4 ${isChecking ? 'animate-spin' : ''}`} />
       </button>
 
+      {/* Offline Sale Queue */}
+      {(queue.depth > 0 || queue.lastError) && (
+        <button
+          onClick={() => saleQueueService.flush().catch(() => undefined)}
+          disabled={queue.isSyncing}
+          className={`flex items-center space-x-1 px-2 py-1 rounded-md text-xs font-medium ${
+            queue.lastError
+              ? 'bg-red-100 text-red-700 dark:bg-red-900/20 dark:text-red-400'
+              : 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/20 dark:text-yellow-400'
+          }`}
+          title={queue.lastError ? `Last sync error: ${queue.lastError}` : 'Sales waiting to sync - click to retry'}
+        >
+          <UploadCloud className={`w-4 h-4 ${queue.isSyncing ? 'animate-pulse' : ''}`} />
+          <span>{queue.depth} queued</span>
+          {queue.lastError && (
+            <span className="max-w-[12rem] truncate">· {queue.lastError}</span>
+          )}
+        </button>
+      )}
+
+      {/* Sales the server rejected */}
+      {queue.rejected > 0 && (
+        <button
+          onClick={() => setShowRejected(true)}
+          className="flex items-center space-x-1 px-2 py-1 rounded-md text-xs font-medium bg-red-100 text-red-700 dark:bg-red-900/20 dark:text-red-400"
+          title="Sales the server rejected - click to review"
+        >
+          <AlertTriangle className="w-4 h-4" />
+          <span>{queue.rejected} rejected</span>
+        </button>
+      )}
+      <RejectedSalesDialog isOpen={showRejected} onClose={() => setShowRejected(false)} />
+
       {/* Last Checked Time */}
       {lastChecked && (
         <span className="text-xs text-gray-500 dark:text-gray-400">
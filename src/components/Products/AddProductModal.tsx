@@ -3,6 +3,8 @@ import { X, Plus } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import { dataService, Category, Supplier } from '@/services/dataService';
 import { useAppStore } from '@/store/appStore';
+import { taxService } from '@/services/taxService';
+import { DEFAULT_TAX_CODE, formatTaxLabel } from '@/lib/tax';
 
 interface AddProductModalProps {
   categories: Category[];
@@ -537,13 +539,19 @@ export function AddProductModal({ categories, suppliers, onClose, onSave, produc
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Tax Code
                 </label>
-                <input
-                  type="text"
+                <select
                   value={formData.tax_code}
                   onChange={(e) => handleInputChange('tax_code', e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 placeholder-gray-500 bg-white"
-                  placeholder="e.g., TAX001"
-                />
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white"
+                >
+                  <option value="">Default ({DEFAULT_TAX_CODE})</option>
+                  {taxService.getTaxCodes().filter(code => code.active).map(code => (
+                    <option key={code.code} value={code.code}>{formatTaxLabel(code)}</option>
+                  ))}
+                  {formData.tax_code && !taxService.getTaxCodes().some(code => code.code === formData.tax_code) && (
+                    <option value={formData.tax_code}>{formData.tax_code} (unknown)</option>
+                  )}
+                </select>
               </div>
 
               <div>
@@ -0,0 +1,268 @@
+import React, { useEffect, useState } from 'react';
+import { X, Edit3, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Product } from '@/services/dataService';
+import { uomService } from '@/services/uomService';
+import { packPrice } from '@/lib/uom';
+import { formatCurrency } from '@/lib/currency';
+import { ProductUom, Uom } from '@/types';
+
+interface ProductPacksModalProps {
+  product: Product;
+  onClose: () => void;
+}
+
+interface PackForm {
+  id?: number;
+  uomId: string;
+  convToBase: string;
+  priceOverride: string;
+  barcode: string;
+}
+
+const EMPTY_FORM: PackForm = { uomId: '', convToBase: '', priceOverride: '', barcode: '' };
+
+/**
+ * The packs a product is sold and received in (a case of 24, a half-dozen), each with its size
+ * in the product's base unit, an optional retail price and its own barcode
+ */
+export function ProductPacksModal({ product, onClose }: ProductPacksModalProps) {
+  const [packs, setPacks] = useState<ProductUom[]>([]);
+  const [uoms, setUoms] = useState<Uom[]>([]);
+  const [form, setForm] = useState<PackForm>(EMPTY_FORM);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    Promise.all([uomService.listForProduct(product.id), uomService.listUoms()])
+      .then(([productPacks, allUoms]) => {
+        setPacks(productPacks);
+        setUoms(allUoms);
+      })
+      .catch(error => {
+        console.error('Failed to load packs:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to load packs');
+      });
+  }, [product.id]);
+
+  const validate = (): boolean => {
+    const next: Record<string, string> = {};
+    if (!form.uomId) next.uomId = 'Select a unit';
+    if (!(Number(form.convToBase) > 0)) next.convToBase = `Enter how many ${product.unit} are in one pack`;
+    if (form.priceOverride && !(Number(form.priceOverride) >= 0)) next.priceOverride = 'Enter a valid price';
+    setErrors(next);
+    return Object.keys(next).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    setLoading(true);
+    try {
+      setPacks(await uomService.savePack({
+        productId: product.id,
+        uomId: Number(form.uomId),
+        convToBase: Number(form.convToBase),
+        priceOverride: form.priceOverride ? Number(form.priceOverride) : null,
+        barcode: form.barcode.trim() || null
+      }, form.id));
+      toast.success(form.id ? 'Pack updated' : 'Pack added');
+      setForm(EMPTY_FORM);
+    } catch (error) {
+      console.error('Failed to save pack:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save pack');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (pack: ProductUom) => {
+    setForm({
+      id: pack.id,
+      uomId: String(pack.uom_id),
+      convToBase: String(pack.conv_to_base),
+      priceOverride: pack.price_override === null ? '' : String(pack.price_override),
+      barcode: pack.barcode ?? ''
+    });
+    setErrors({});
+  };
+
+  const handleRemove = async (pack: ProductUom) => {
+    if (!confirm(`Remove the ${pack.name} pack from ${product.name_en}?`)) return;
+    try {
+      await uomService.removePack(pack.id);
+      setPacks(packs.filter(p => p.id !== pack.id));
+      if (form.id === pack.id) setForm(EMPTY_FORM);
+    } catch (error) {
+      console.error('Failed to remove pack:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to remove pack');
+    }
+  };
+
+  const inputClass = (field: string) =>
+    `w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white ${
+      errors[field] ? 'border-red-500' : 'border-gray-300'
+    }`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Packs</h2>
+            <p className="text-sm text-gray-500">
+              {product.name_en} · stocked in {product.unit} at {formatCurrency(product.price_retail)}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Unit</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Size</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Retail Price</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Barcode</th>
+                <th className="px-3 py-2 w-16"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {packs.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-3 py-6 text-center text-gray-500">
+                    Sold in {product.unit} only
+                  </td>
+                </tr>
+              ) : (
+                packs.map(pack => (
+                  <tr key={pack.id}>
+                    <td className="px-3 py-2 font-medium text-gray-900">{pack.name}</td>
+                    <td className="px-3 py-2 text-right text-gray-900">{pack.conv_to_base} {product.unit}</td>
+                    <td className="px-3 py-2 text-right text-gray-900">
+                      {formatCurrency(packPrice(product.price_retail, pack))}
+                      {pack.price_override === null && <span className="ml-1 text-xs text-gray-500">(by size)</span>}
+                    </td>
+                    <td className="px-3 py-2 text-gray-900">{pack.barcode || '-'}</td>
+                    <td className="px-3 py-2">
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => handleEdit(pack)}
+                          className="text-blue-600 hover:text-blue-900"
+                          title="Edit"
+                        >
+                          <Edit3 className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleRemove(pack)}
+                          className="text-red-600 hover:text-red-800"
+                          title="Remove"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+
+          <form onSubmit={handleSubmit} className="space-y-4 border-t pt-4">
+            <h3 className="text-sm font-semibold text-gray-900">{form.id ? 'Edit Pack' : 'Add Pack'}</h3>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Unit <span className="text-red-500">*</span>
+                </label>
+                <select
+                  value={form.uomId}
+                  onChange={(e) => setForm({ ...form, uomId: e.target.value })}
+                  className={inputClass('uomId')}
+                >
+                  <option value="">Select unit</option>
+                  {uoms.map(uom => (
+                    <option key={uom.id} value={uom.id}>{uom.name} ({uom.code})</option>
+                  ))}
+                </select>
+                {errors.uomId && <p className="text-red-500 text-sm mt-1">{errors.uomId}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {product.unit} per pack <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="number"
+                  min="0.001"
+                  step="0.001"
+                  value={form.convToBase}
+                  onChange={(e) => setForm({ ...form, convToBase: e.target.value })}
+                  className={inputClass('convToBase')}
+                />
+                {errors.convToBase && <p className="text-red-500 text-sm mt-1">{errors.convToBase}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Retail Price
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.priceOverride}
+                  onChange={(e) => setForm({ ...form, priceOverride: e.target.value })}
+                  placeholder={form.convToBase ? String(packPrice(product.price_retail, {
+                    code: '',
+                    name: '',
+                    conv_to_base: Number(form.convToBase) || 1,
+                    price_override: null
+                  })) : 'By size'}
+                  className={inputClass('priceOverride')}
+                />
+                {errors.priceOverride && <p className="text-red-500 text-sm mt-1">{errors.priceOverride}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Barcode
+                </label>
+                <input
+                  type="text"
+                  maxLength={64}
+                  value={form.barcode}
+                  onChange={(e) => setForm({ ...form, barcode: e.target.value })}
+                  className={inputClass('barcode')}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              {form.id && (
+                <button
+                  type="button"
+                  onClick={() => setForm(EMPTY_FORM)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel Edit
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                {loading ? 'Saving...' : form.id ? 'Save Pack' : 'Add Pack'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { X, Printer, Mail, PackagePlus, Lock, Ban, RefreshCw } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { purchaseOrderService, PurchaseOrderDetails } from '@/services/purchaseOrderService';
+import { purchaseOrderPrintAdapter, PurchaseOrderPrintData } from '@/adapters/print/PurchaseOrderPrintAdapter';
+import { useAppStore } from '@/store/appStore';
+import { formatCurrency } from '@/lib/currency';
+import { POLineReceiptStatus, PurchaseOrderStatus } from '@/types';
+
+interface PurchaseOrderDetailsModalProps {
+  poId: number;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export const PO_STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  OPEN: 'bg-blue-100 text-blue-800',
+  PARTIAL: 'bg-yellow-100 text-yellow-800',
+  CLOSED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-gray-100 text-gray-600'
+};
+
+const LINE_STATUS_STYLES: Record<POLineReceiptStatus, string> = {
+  PENDING: 'text-gray-500',
+  PARTIAL: 'text-yellow-700',
+  COMPLETE: 'text-green-700',
+  OVER: 'text-red-600'
+};
+
+export function PurchaseOrderDetailsModal({ poId, onClose, onChanged }: PurchaseOrderDetailsModalProps) {
+  const navigate = useNavigate();
+  const { settings } = useAppStore();
+  const [details, setDetails] = useState<PurchaseOrderDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      setDetails(await purchaseOrderService.get(poId));
+    } catch (error) {
+      console.error('Failed to load purchase order:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load purchase order');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [poId]);
+
+  const printData = (): PurchaseOrderPrintData | null => details && {
+    ...details,
+    store: { name: settings.storeInfo.name, address: settings.storeInfo.address }
+  };
+
+  const handlePrint = async () => {
+    const data = printData();
+    if (!data) return;
+    try {
+      await purchaseOrderPrintAdapter.print(data);
+    } catch (error) {
+      console.error('Failed to print purchase order:', error);
+      toast.error('Failed to print purchase order');
+    }
+  };
+
+  const handleEmail = async () => {
+    if (!details) return;
+    if (!details.supplier?.contact_email) {
+      toast.error(`Add an email address to ${details.supplier?.supplier_name ?? 'the supplier'} before emailing the order`);
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const sentTo = await purchaseOrderService.email(poId);
+      toast.success(`Purchase order emailed to ${sentTo}`);
+      await load();
+      onChanged();
+    } catch (error) {
+      console.error('Failed to email purchase order:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to email purchase order');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleClose = async () => {
+    const reason = window.prompt('Close this order? Nothing more will be received against it.\nReason (optional):');
+    if (reason === null) return;
+    setBusy(true);
+    try {
+      setDetails(await purchaseOrderService.close(poId, reason.trim()));
+      toast.success('Purchase order closed');
+      onChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to close purchase order');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!window.confirm('Cancel this purchase order?')) return;
+    setBusy(true);
+    try {
+      setDetails(await purchaseOrderService.cancel(poId));
+      toast.success('Purchase order cancelled');
+      onChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel purchase order');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const po = details?.purchase_order;
+  const receivable = po?.status === 'OPEN' || po?.status === 'PARTIAL';
+  const hasReceipts = details?.lines.some(line => line.qty_received > 0) ?? false;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center space-x-3">
+            <h2 className="text-xl font-semibold text-gray-900">
+              {po ? `Purchase Order ${po.po_no}` : 'Purchase Order'}
+            </h2>
+            {po && (
+              <span className={`px-2 py-1 rounded-full text-xs font-medium ${PO_STATUS_STYLES[po.status]}`}>
+                {po.status}
+              </span>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {loading && !details ? (
+          <div className="p-8 text-center text-gray-500">
+            <RefreshCw className="w-6 h-6 animate-spin mx-auto mb-2" />
+            Loading purchase order...
+          </div>
+        ) : details && po ? (
+          <div className="p-6 space-y-6">
+            <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <dt className="text-gray-500">Supplier</dt>
+                <dd className="font-medium text-gray-900">{details.supplier?.supplier_name ?? `#${po.supplier_id}`}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Deliver By</dt>
+                <dd className="text-gray-900">{po.expected_date ? new Date(po.expected_date).toLocaleDateString('en-GB') : '-'}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Tolerance</dt>
+                <dd className="text-gray-900">{po.tolerance_pct}%</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Emailed</dt>
+                <dd className="text-gray-900">{po.sent_at ? new Date(`${po.sent_at.replace(' ', 'T')}Z`).toLocaleString() : 'Not sent'}</dd>
+              </div>
+            </dl>
+
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Ordered</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Received</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Outstanding</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Unit Cost</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {details.lines.map(line => (
+                  <tr key={line.id}>
+                    <td className="px-3 py-2">
+                      <div className="font-medium text-gray-900">{line.product_name ?? `#${line.product_id}`}</div>
+                      <div className="text-xs text-gray-500">{line.sku}</div>
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-900">{line.qty} {line.uom}</td>
+                    <td className="px-3 py-2 text-right text-gray-900">{line.qty_received}</td>
+                    <td className="px-3 py-2 text-right text-gray-900">{line.qty_outstanding}</td>
+                    <td className="px-3 py-2 text-right text-gray-900">{formatCurrency(line.unit_cost)}</td>
+                    <td className={`px-3 py-2 text-xs font-medium ${LINE_STATUS_STYLES[line.receipt_status]}`}>
+                      {line.receipt_status}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {details.receipts.length > 0 && (
+              <div>
+                <h3 className="text-sm font-semibold text-gray-900 mb-2">Goods Received</h3>
+                <ul className="text-sm divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                  {details.receipts.map(receipt => (
+                    <li key={receipt.id} className="flex items-center justify-between px-3 py-2">
+                      <button
+                        onClick={() => navigate(`/grn/${receipt.id}`)}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        {receipt.grn_no}
+                      </button>
+                      <span className="text-gray-500">{receipt.status}</span>
+                      <span className="text-gray-900">{formatCurrency(receipt.total ?? 0)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {po.note && (
+              <p className="text-sm text-gray-600"><span className="font-medium">Note:</span> {po.note}</p>
+            )}
+
+            <div className="flex flex-wrap items-center justify-end gap-3 pt-6 border-t">
+              <button
+                onClick={handlePrint}
+                className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <Printer className="w-4 h-4 mr-2" />
+                Print
+              </button>
+              <button
+                onClick={handleEmail}
+                disabled={busy || po.status === 'CANCELLED'}
+                className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                <Mail className="w-4 h-4 mr-2" />
+                Email Supplier
+              </button>
+              {receivable && !hasReceipts && (
+                <button
+                  onClick={handleCancel}
+                  disabled={busy}
+                  className="flex items-center px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50"
+                >
+                  <Ban className="w-4 h-4 mr-2" />
+                  Cancel Order
+                </button>
+              )}
+              {receivable && hasReceipts && (
+                <button
+                  onClick={handleClose}
+                  disabled={busy}
+                  className="flex items-center px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50"
+                >
+                  <Lock className="w-4 h-4 mr-2" />
+                  Close Short
+                </button>
+              )}
+              {receivable && (
+                <button
+                  onClick={() => navigate(`/grn/new?po=${po.id}`)}
+                  className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                >
+                  <PackagePlus className="w-4 h-4 mr-2" />
+                  Receive
+                </button>
+              )}
+            </div>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
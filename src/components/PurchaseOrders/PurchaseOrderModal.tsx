@@ -0,0 +1,340 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Search, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { dataService, Product, Supplier } from '@/services/dataService';
+import { purchaseOrderService, PurchaseOrderDetails } from '@/services/purchaseOrderService';
+import { useAppStore } from '@/store/appStore';
+import { formatCurrency } from '@/lib/currency';
+
+interface PurchaseOrderModalProps {
+  onClose: () => void;
+  onSaved: (details: PurchaseOrderDetails) => void;
+}
+
+interface DraftLine {
+  product: Product;
+  qty: string;
+  unitCost: string;
+}
+
+export function PurchaseOrderModal({ onClose, onSaved }: PurchaseOrderModalProps) {
+  const { settings } = useAppStore();
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [supplierId, setSupplierId] = useState('');
+  const [expectedDate, setExpectedDate] = useState('');
+  const [tolerancePct, setTolerancePct] = useState(String(settings.grnSettings?.receiveTolerancePercent ?? 0));
+  const [note, setNote] = useState('');
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const [search, setSearch] = useState('');
+  const [results, setResults] = useState<Product[]>([]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const debounceRef = useRef<NodeJS.Timeout>();
+
+  useEffect(() => {
+    dataService.getSuppliers()
+      .then(setSuppliers)
+      .catch(error => {
+        console.error('Failed to load suppliers:', error);
+        toast.error('Failed to load suppliers');
+      });
+  }, []);
+
+  useEffect(() => {
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+    if (!search.trim()) {
+      setResults([]);
+      return;
+    }
+    debounceRef.current = setTimeout(() => {
+      dataService.getProducts({ search: search.trim(), active_filter: 'active' })
+        .then(products => setResults(products.slice(0, 10)))
+        .catch(error => console.error('Failed to search products:', error));
+    }, 250);
+  }, [search]);
+
+  const handleAddProduct = (product: Product) => {
+    if (!lines.some(line => line.product.id === product.id)) {
+      setLines([...lines, { product, qty: '1', unitCost: String(product.cost ?? 0) }]);
+    }
+    setSearch('');
+    setResults([]);
+    setErrors(prev => ({ ...prev, lines: '' }));
+  };
+
+  const handleUpdateLine = (index: number, field: 'qty' | 'unitCost', value: string) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, [field]: value } : line)));
+  };
+
+  const orderTotal = lines.reduce((sum, line) => sum + (Number(line.qty) || 0) * (Number(line.unitCost) || 0), 0);
+
+  const validate = (): boolean => {
+    const next: Record<string, string> = {};
+    if (!supplierId) next.supplier = 'Select a supplier';
+
+    const tolerance = Number(tolerancePct);
+    if (tolerancePct === '' || isNaN(tolerance) || tolerance < 0 || tolerance > 100) {
+      next.tolerance = 'Tolerance must be between 0 and 100';
+    }
+
+    if (lines.length === 0) {
+      next.lines = 'Add at least one product';
+    } else if (lines.some(line => !(Number(line.qty) > 0) || !(Number(line.unitCost) >= 0) || line.unitCost === '')) {
+      next.lines = 'Every line needs a quantity above zero and a unit cost';
+    }
+
+    setErrors(next);
+    return Object.keys(next).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    setLoading(true);
+    try {
+      const details = await purchaseOrderService.create({
+        supplierId: Number(supplierId),
+        expectedDate: expectedDate || undefined,
+        note: note.trim(),
+        tolerancePct: Number(tolerancePct),
+        lines: lines.map(line => ({
+          productId: line.product.id,
+          qty: Number(line.qty),
+          unitCost: Math.round(Number(line.unitCost) * 100) / 100,
+          uom: line.product.unit
+        }))
+      });
+      toast.success(`Purchase order ${details.purchase_order.po_no} created`);
+      onSaved(details);
+    } catch (error) {
+      console.error('Failed to create purchase order:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create purchase order');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass = (field?: string) =>
+    `w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white ${
+      field && errors[field] ? 'border-red-500' : 'border-gray-300'
+    }`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-semibold text-gray-900">New Purchase Order</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {/* Supplier */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Supplier <span className="text-red-500">*</span>
+              </label>
+              <select
+                value={supplierId}
+                onChange={(e) => {
+                  setSupplierId(e.target.value);
+                  setErrors(prev => ({ ...prev, supplier: '' }));
+                }}
+                className={inputClass('supplier')}
+              >
+                <option value="">Select supplier</option>
+                {suppliers.map(supplier => (
+                  <option key={supplier.id} value={supplier.id}>{supplier.supplier_name}</option>
+                ))}
+              </select>
+              {errors.supplier && <p className="text-red-500 text-sm mt-1">{errors.supplier}</p>}
+            </div>
+
+            {/* Expected date */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Deliver By
+              </label>
+              <input
+                type="date"
+                value={expectedDate}
+                onChange={(e) => setExpectedDate(e.target.value)}
+                className={inputClass()}
+              />
+            </div>
+
+            {/* Tolerance */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Receiving Tolerance (%)
+              </label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="0.1"
+                value={tolerancePct}
+                onChange={(e) => {
+                  setTolerancePct(e.target.value);
+                  setErrors(prev => ({ ...prev, tolerance: '' }));
+                }}
+                className={inputClass('tolerance')}
+              />
+              {errors.tolerance && <p className="text-red-500 text-sm mt-1">{errors.tolerance}</p>}
+            </div>
+          </div>
+
+          {/* Product search */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Add Product
+            </label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search by SKU, barcode, or name..."
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-500"
+              />
+            </div>
+            {results.length > 0 && (
+              <div className="mt-1 max-h-40 overflow-y-auto border border-gray-200 rounded-lg">
+                {results.map(product => (
+                  <button
+                    key={product.id}
+                    type="button"
+                    onClick={() => handleAddProduct(product)}
+                    className="w-full text-left px-3 py-2 hover:bg-gray-50 border-b last:border-b-0"
+                  >
+                    <div className="text-sm font-medium text-gray-900">{product.name_en}</div>
+                    <div className="text-xs text-gray-500">
+                      SKU: {product.sku} | Cost: {formatCurrency(product.cost ?? 0)}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Lines */}
+          <div>
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase w-28">Qty</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase w-32">Unit Cost</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Total</th>
+                  <th className="px-3 py-2 w-10"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {lines.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-3 py-6 text-center text-gray-500">
+                      No products added yet
+                    </td>
+                  </tr>
+                ) : (
+                  lines.map((line, index) => (
+                    <tr key={line.product.id}>
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-gray-900">{line.product.name_en}</div>
+                        <div className="text-xs text-gray-500">{line.product.sku}</div>
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="number"
+                          min="0.001"
+                          step="0.001"
+                          value={line.qty}
+                          onChange={(e) => handleUpdateLine(index, 'qty', e.target.value)}
+                          className={inputClass()}
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={line.unitCost}
+                          onChange={(e) => handleUpdateLine(index, 'unitCost', e.target.value)}
+                          className={inputClass()}
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-900">
+                        {formatCurrency((Number(line.qty) || 0) * (Number(line.unitCost) || 0))}
+                      </td>
+                      <td className="px-3 py-2">
+                        <button
+                          type="button"
+                          onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                          className="text-red-600 hover:text-red-800"
+                          title="Remove"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+              {lines.length > 0 && (
+                <tfoot>
+                  <tr>
+                    <td colSpan={3} className="px-3 py-2 text-right font-medium text-gray-700">Order Total</td>
+                    <td className="px-3 py-2 text-right font-bold text-gray-900">{formatCurrency(orderTotal)}</td>
+                    <td></td>
+                  </tr>
+                </tfoot>
+              )}
+            </table>
+            {errors.lines && <p className="text-red-500 text-sm mt-1">{errors.lines}</p>}
+          </div>
+
+          {/* Note */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Note
+            </label>
+            <input
+              type="text"
+              maxLength={255}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-500"
+              placeholder="Printed on the order"
+            />
+          </div>
+
+          {/* Actions */}
+          <div className="flex items-center justify-end space-x-3 pt-6 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              disabled={loading}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              disabled={loading}
+            >
+              {loading ? 'Saving...' : 'Create Order'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react';
+import { X, RefreshCw, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { dataService, Supplier } from '@/services/dataService';
+import {
+  replenishmentService,
+  DraftPurchaseOrder,
+  ReplenishmentOptions,
+  DEFAULT_REPLENISHMENT_OPTIONS
+} from '@/services/replenishmentService';
+import { useAppStore } from '@/store/appStore';
+import { formatCurrency } from '@/lib/currency';
+
+interface ReorderSuggestionsModalProps {
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+interface EditableDraft extends DraftPurchaseOrder {
+  include: boolean;
+}
+
+export function ReorderSuggestionsModal({ onClose, onCreated }: ReorderSuggestionsModalProps) {
+  const { settings } = useAppStore();
+  const [options, setOptions] = useState<ReplenishmentOptions>(DEFAULT_REPLENISHMENT_OPTIONS);
+  const [drafts, setDrafts] = useState<EditableDraft[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const suggested = await replenishmentService.getDraftOrders(options);
+      setDrafts(suggested.map(draft => ({ ...draft, include: draft.supplier_id !== null })));
+    } catch (error) {
+      console.error('Failed to build reorder suggestions:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to build reorder suggestions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+    dataService.getSuppliers()
+      .then(setSuppliers)
+      .catch(error => console.error('Failed to load suppliers:', error));
+  }, []);
+
+  const updateDraft = (index: number, changes: Partial<EditableDraft>) => {
+    setDrafts(drafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const handleSupplierChange = (index: number, value: string) => {
+    const supplier = suppliers.find(s => s.id === Number(value));
+    if (!supplier) return;
+
+    // Fold into that supplier's own draft so it still gets a single order
+    const existing = drafts.findIndex(draft => draft.supplier_id === supplier.id);
+    if (existing !== -1) {
+      const moved = drafts[index].lines.filter(line => !drafts[existing].lines.some(l => l.product_id === line.product_id));
+      setDrafts(drafts
+        .map((draft, i) => (i === existing ? { ...draft, lines: [...draft.lines, ...moved], include: true } : draft))
+        .filter((_, i) => i !== index));
+      return;
+    }
+
+    updateDraft(index, {
+      supplier_id: supplier.id,
+      supplier_name: supplier.supplier_name,
+      lead_time_days: supplier.lead_time_days ?? options.defaultLeadTimeDays,
+      include: true
+    });
+  };
+
+  const handleQtyChange = (draftIndex: number, lineIndex: number, value: string) => {
+    const lines = drafts[draftIndex].lines.map((line, i) =>
+      i === lineIndex ? { ...line, suggested_qty: Math.max(0, Number(value) || 0) } : line
+    );
+    updateDraft(draftIndex, { lines });
+  };
+
+  const handleRemoveLine = (draftIndex: number, lineIndex: number) => {
+    const lines = drafts[draftIndex].lines.filter((_, i) => i !== lineIndex);
+    updateDraft(draftIndex, { lines, include: drafts[draftIndex].include && lines.length > 0 });
+  };
+
+  const selected = drafts.filter(draft => draft.include && draft.supplier_id !== null && draft.lines.some(line => line.suggested_qty > 0));
+
+  const handleConfirm = async () => {
+    if (selected.length === 0) return;
+    setSaving(true);
+    try {
+      const results = await replenishmentService.confirmDraftOrders(selected, {
+        tolerancePct: settings.grnSettings?.receiveTolerancePercent ?? 0,
+        note: 'Raised from reorder suggestions'
+      });
+      const created = results.filter(result => result.details);
+      const failed = results.filter(result => result.error);
+
+      if (created.length > 0) {
+        toast.success(`Created ${created.map(result => result.details!.purchase_order.po_no).join(', ')}`);
+        onCreated();
+      }
+      failed.forEach(result => toast.error(`${result.draft.supplier_name}: ${result.error}`));
+
+      // Keep only what still needs attention
+      const done = new Set(created.map(result => result.draft));
+      const remaining = drafts.filter(draft => !done.has(draft));
+      setDrafts(remaining);
+      if (failed.length === 0 && remaining.length === 0) onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const numberInput = (field: keyof ReplenishmentOptions, label: string) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <input
+        type="number"
+        min="1"
+        step="1"
+        value={options[field]}
+        onChange={(e) => setOptions(prev => ({ ...prev, [field]: Math.max(1, parseInt(e.target.value) || 1) }))}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white"
+      />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Reorder Suggestions</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Based on reorder levels, average daily sales, supplier lead times and pack sizes
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            {numberInput('windowDays', 'Sales History (days)')}
+            {numberInput('coverDays', 'Cover (days)')}
+            {numberInput('defaultLeadTimeDays', 'Default Lead Time (days)')}
+            <button
+              onClick={load}
+              disabled={loading}
+              className="flex items-center justify-center px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Recalculate
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="p-8 text-center text-gray-500">
+              <RefreshCw className="w-6 h-6 animate-spin mx-auto mb-2" />
+              Checking stock levels...
+            </div>
+          ) : drafts.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">
+              Nothing needs reordering right now.
+            </div>
+          ) : (
+            drafts.map((draft, draftIndex) => (
+              <div key={`${draft.supplier_id ?? 'none'}-${draftIndex}`} className="border border-gray-200 rounded-lg">
+                <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 bg-gray-50 border-b">
+                  <label className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      checked={draft.include}
+                      disabled={draft.supplier_id === null}
+                      onChange={(e) => updateDraft(draftIndex, { include: e.target.checked })}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    {draft.supplier_id === null ? (
+                      <select
+                        value=""
+                        onChange={(e) => handleSupplierChange(draftIndex, e.target.value)}
+                        className="px-3 py-1 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white"
+                      >
+                        <option value="">No preferred supplier - choose one</option>
+                        {suppliers.map(supplier => (
+                          <option key={supplier.id} value={supplier.id}>{supplier.supplier_name}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="font-medium text-gray-900">{draft.supplier_name}</span>
+                    )}
+                  </label>
+                  <span className="text-sm text-gray-600">
+                    Lead time {draft.lead_time_days} day(s) | Total{' '}
+                    {formatCurrency(draft.lines.reduce((sum, line) => sum + line.suggested_qty * line.unit_cost, 0))}
+                  </span>
+                </div>
+
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead>
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">In Stock</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">On Order</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Reorder Point</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Sold / Day</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Pack</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase w-28">Order Qty</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Unit Cost</th>
+                      <th className="px-3 py-2 w-10"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {draft.lines.map((line, lineIndex) => (
+                      <tr key={line.product_id}>
+                        <td className="px-3 py-2">
+                          <div className="font-medium text-gray-900">{line.name_en}</div>
+                          <div className="text-xs text-gray-500">{line.sku}</div>
+                        </td>
+                        <td className={`px-3 py-2 text-right ${line.current_stock <= line.reorder_level ? 'text-red-600' : 'text-gray-900'}`}>
+                          {line.current_stock} {line.unit}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-900">{line.on_order}</td>
+                        <td className="px-3 py-2 text-right text-gray-900">{line.reorder_point}</td>
+                        <td className="px-3 py-2 text-right text-gray-900">{line.avg_daily_sales}</td>
+                        <td className="px-3 py-2 text-right text-gray-900">{line.pack_size ?? '-'}</td>
+                        <td className="px-3 py-2">
+                          <input
+                            type="number"
+                            min="0"
+                            step={line.pack_size ?? (line.unit === 'kg' ? 0.001 : 1)}
+                            value={line.suggested_qty}
+                            onChange={(e) => handleQtyChange(draftIndex, lineIndex, e.target.value)}
+                            className="w-full px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white"
+                          />
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-900">{formatCurrency(line.unit_cost)}</td>
+                        <td className="px-3 py-2">
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveLine(draftIndex, lineIndex)}
+                            className="text-red-600 hover:text-red-800"
+                            title="Remove"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))
+          )}
+
+          <div className="flex items-center justify-end space-x-3 pt-6 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              disabled={saving}
+            >
+              Close
+            </button>
+            <button
+              type="button"
+              onClick={handleConfirm}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              disabled={saving || loading || selected.length === 0}
+            >
+              {saving ? 'Creating...' : `Create ${selected.length} Order(s)`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+/**
+ * Rejected Sales Dialog
+ * Sales the server refused outright, for staff to retry once the cause is fixed or discard
+ */
+
+import React, { useEffect, useState } from 'react';
+import { X, AlertTriangle, RotateCcw, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { saleQueueService, QueuedSale } from '@/services/saleQueueService';
+
+interface RejectedSalesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function RejectedSalesDialog({ isOpen, onClose }: RejectedSalesDialogProps) {
+  const [sales, setSales] = useState<QueuedSale[]>([]);
+
+  const load = () =>
+    saleQueueService
+      .listRejected()
+      .then(setSales)
+      .catch(error => console.error('Failed to load rejected sales:', error));
+
+  useEffect(() => {
+    if (isOpen) load();
+  }, [isOpen]);
+
+  const retry = async (entry: QueuedSale) => {
+    await saleQueueService.retryRejected(entry.idempotencyKey);
+    toast.success('Sale queued to send again');
+    await load();
+  };
+
+  const discard = async (entry: QueuedSale) => {
+    if (!window.confirm('Discard this sale? It will never reach the server.')) return;
+    await saleQueueService.discardRejected(entry.idempotencyKey);
+    await load();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-2xl mx-4 border border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-red-100 dark:bg-red-900/20 rounded-lg">
+              <AlertTriangle className="w-5 h-5 text-red-600 dark:text-red-400" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Rejected Sales</h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                The server refused these sales; fix the cause and retry, or discard them
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 max-h-[60vh] overflow-y-auto">
+          {sales.length === 0 ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400">No rejected sales</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {sales.map(entry => (
+                <li key={entry.idempotencyKey} className="py-3 flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">
+                      {entry.sale.invoice_number || `Sale ${entry.sale.id}`} · {entry.sale.net.toFixed(2)}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Finalized {new Date(entry.queuedAt).toLocaleString()}
+                      {entry.rejectedAt && ` · rejected ${new Date(entry.rejectedAt).toLocaleString()}`}
+                    </p>
+                    <p className="text-sm text-red-600 dark:text-red-400 break-words">{entry.lastError}</p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      onClick={() => retry(entry)}
+                      className="flex items-center gap-1 px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Retry
+                    </button>
+                    <button
+                      onClick={() => discard(entry)}
+                      className="flex items-center gap-1 px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      Discard
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,8 @@ import { Permission } from '@/security/permissions';
 
 interface IfPermProps {
   can: Permission;
+  /** For limited permissions, the amount the user must be allowed (e.g. a refund total) */
+  amount?: number;
   children: React.ReactNode;
   fallback?: React.ReactNode;
   disabled?: boolean;
@@ -16,11 +18,12 @@ interface IfPermProps {
 
 const IfPerm: React.FC<IfPermProps> = ({ 
   can, 
+  amount,
   children, 
   fallback = null,
   disabled = false 
 }) => {
-  const hasPermission = authService.hasPermission(can);
+  const hasPermission = authService.hasPermission(can, amount);
 
   if (!hasPermission) {
     return <>{fallback}</>;
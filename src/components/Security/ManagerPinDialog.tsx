@@ -5,7 +5,7 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { X, Shield, AlertTriangle, Clock } from 'lucide-react';
-import { authService } from '@/services/authService';
+import { authService, Approver, EscalationGrant } from '@/services/authService';
 import { Permission, Role } from '@/security/permissions';
 import { useAppStore } from '@/store/appStore';
 import { toast } from 'react-hot-toast';
@@ -16,7 +16,10 @@ interface ManagerPinDialogProps {
   permissions: Permission[];
   reason?: string;
   requiredRole?: Role;
-  onSuccess: (user: any) => void;
+  /** The limited permission being approved; the approver's own limits must cover it */
+  grant?: EscalationGrant;
+  /** With a grant and a server, `approval` is the server's signed approval of it */
+  onSuccess: (user: any, approval?: string) => void;
   onError: (error: string) => void;
 }
 
@@ -26,11 +29,15 @@ const ManagerPinDialog: React.FC<ManagerPinDialogProps> = ({
   permissions,
   reason,
   requiredRole = 'MANAGER',
+  grant,
   onSuccess,
   onError
 }) => {
   const { securitySettings } = useAppStore();
   const [pin, setPin] = useState('');
+  // With a server the approver is picked by name, so only their PIN is checked
+  const [approvers, setApprovers] = useState<Approver[]>([]);
+  const [approverId, setApproverId] = useState<number | undefined>();
   const [loading, setLoading] = useState(false);
   const [attempts, setAttempts] = useState(0);
   const [lockoutEnd, setLockoutEnd] = useState<Date | null>(null);
@@ -45,6 +52,25 @@ const ManagerPinDialog: React.FC<ManagerPinDialogProps> = ({
     }
   }, [isOpen]);
 
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    authService
+      .listApprovers(requiredRole, grant)
+      .then(list => {
+        if (cancelled) return;
+        setApprovers(list);
+        setApproverId(list.length === 1 ? list[0].id : undefined);
+      })
+      .catch(error => {
+        console.error('Failed to load approvers:', error);
+        if (!cancelled) toast.error('Could not load approvers');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, requiredRole, grant]);
+
   // Handle lockout countdown
   useEffect(() => {
     if (lockoutEnd) {
@@ -67,6 +93,8 @@ const ManagerPinDialog: React.FC<ManagerPinDialogProps> = ({
   useEffect(() => {
     if (!isOpen) {
       setPin('');
+      setApprovers([]);
+      setApproverId(undefined);
       setLoading(false);
       setAttempts(0);
       setLockoutEnd(null);
@@ -77,18 +105,18 @@ const ManagerPinDialog: React.FC<ManagerPinDialogProps> = ({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!pin.trim() || loading || lockoutEnd) {
+    if (!pin.trim() || loading || lockoutEnd || (approvers.length > 0 && !approverId)) {
       return;
     }
 
     setLoading(true);
 
     try {
-      const result = await authService.verifyPinForEscalation(pin, requiredRole);
+      const result = await authService.verifyPinForEscalation(pin, requiredRole, grant, approverId);
       
       if (result.success && result.user) {
         toast.success(`Access granted by ${result.user.name}`);
-        onSuccess(result.user);
+        onSuccess(result.user, result.approval);
         onClose();
       } else {
         const newAttempts = attempts + 1;
@@ -212,6 +240,30 @@ const ManagerPinDialog: React.FC<ManagerPinDialogProps> = ({
 
           {/* PIN Input */}
           <form onSubmit={handleSubmit}>
+            {approvers.length > 0 && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Approved by
+                </label>
+                <select
+                  value={approverId ?? ''}
+                  onChange={(e) => {
+                    setApproverId(e.target.value ? Number(e.target.value) : undefined);
+                    pinInputRef.current?.focus();
+                  }}
+                  disabled={loading || isLocked}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
+                >
+                  <option value="">Select approver...</option>
+                  {approvers.map((approver) => (
+                    <option key={approver.id} value={approver.id}>
+                      {approver.name} ({approver.role.toLowerCase()})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <div className="mb-6">
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 {requiredRole} PIN
@@ -242,7 +294,7 @@ const ManagerPinDialog: React.FC<ManagerPinDialogProps> = ({
               
               <button
                 type="submit"
-                disabled={!pin.trim() || loading || isLocked}
+                disabled={!pin.trim() || loading || isLocked || (approvers.length > 0 && !approverId)}
                 className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg transition-colors disabled:cursor-not-allowed"
               >
                 {loading ? 'Verifying...' : 'Authorize'}
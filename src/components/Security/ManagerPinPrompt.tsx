@@ -0,0 +1,57 @@
+/**
+ * Manager PIN Prompt
+ * Answers authService.escalateWithManagerPin from anywhere in the app with a ManagerPinDialog
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import ManagerPinDialog from './ManagerPinDialog';
+import { Permission } from '@/security/permissions';
+import type { EscalationGrant, LoginResult } from '@/services/authService';
+
+interface EscalationRequest {
+  permissions: Permission[];
+  reason?: string;
+  grant?: EscalationGrant;
+  callback: (result: LoginResult) => void;
+}
+
+const ManagerPinPrompt: React.FC = () => {
+  const [request, setRequest] = useState<EscalationRequest | null>(null);
+  // Request still waiting for an answer; the dialog also closes after a success, which must not count twice
+  const pending = useRef<EscalationRequest | null>(null);
+
+  const answer = (result: LoginResult) => {
+    const waiting = pending.current;
+    if (!waiting) return;
+    pending.current = null;
+    setRequest(null);
+    waiting.callback(result);
+  };
+
+  useEffect(() => {
+    const handleRequest = (e: Event) => {
+      const detail = (e as CustomEvent<EscalationRequest>).detail;
+      // A newer request replaces one still waiting, which is refused
+      pending.current?.callback({ success: false, error: 'Superseded by another authorization request' });
+      pending.current = detail;
+      setRequest(detail);
+    };
+
+    window.addEventListener('manager-pin-required', handleRequest);
+    return () => window.removeEventListener('manager-pin-required', handleRequest);
+  }, []);
+
+  return (
+    <ManagerPinDialog
+      isOpen={request !== null}
+      permissions={request?.permissions ?? []}
+      reason={request?.reason}
+      grant={request?.grant}
+      onSuccess={(user, approval) => answer({ success: true, user, approval })}
+      onClose={() => answer({ success: false, error: 'Manager authorization cancelled' })}
+      onError={() => undefined}
+    />
+  );
+};
+
+export default ManagerPinPrompt;
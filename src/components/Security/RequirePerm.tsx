@@ -10,6 +10,8 @@ import { Lock, AlertTriangle } from 'lucide-react';
 
 interface RequirePermProps {
   permission: Permission;
+  /** For limited permissions, the amount the user must be allowed (e.g. a refund total) */
+  amount?: number;
   children: React.ReactNode;
   fallback?: React.ReactNode;
   showFallback?: boolean;
@@ -17,11 +19,12 @@ interface RequirePermProps {
 
 const RequirePerm: React.FC<RequirePermProps> = ({ 
   permission, 
+  amount,
   children, 
   fallback,
   showFallback = true 
 }) => {
-  const hasPermission = authService.hasPermission(permission);
+  const hasPermission = authService.hasPermission(permission, amount);
 
   if (!hasPermission) {
     if (fallback) {
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { Database, Server, Monitor, Activity } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { AppSettings, DataSourceMode } from '@/types';
+import { getApiBaseUrl, getServerBaseUrl } from '@/utils/api';
+import { RemoteDatabaseService } from '@/services/remoteDatabase';
+import { StoreAssignment } from './StoreAssignment';
+
+interface DataSourceSectionProps {
+  settings: AppSettings;
+  updateSettings: (settings: Partial<AppSettings>) => void;
+  onSettingsChange: () => void;
+}
+
+const modes = [
+  {
+    key: 'local' as DataSourceMode,
+    name: 'This terminal only',
+    description: 'Data is kept in this browser. Other tills will not see these sales or stock changes.',
+    icon: Monitor,
+  },
+  {
+    key: 'server' as DataSourceMode,
+    name: 'Shared POS server (LAN)',
+    description: 'All tills read and write the same SQLite database on the shop server.',
+    icon: Server,
+  },
+];
+
+export function DataSourceSection({ settings, updateSettings, onSettingsChange }: DataSourceSectionProps) {
+  const [isTesting, setIsTesting] = useState(false);
+  const dataSource = settings.dataSource ?? { mode: 'local' as DataSourceMode, serverUrl: '' };
+
+  const handleInputChange = (field: keyof NonNullable<AppSettings['dataSource']>, value: any) => {
+    updateSettings({
+      dataSource: {
+        ...dataSource,
+        [field]: value,
+      },
+    });
+    onSettingsChange();
+  };
+
+  const testConnection = async () => {
+    const baseUrl = getServerBaseUrl(dataSource);
+    setIsTesting(true);
+    try {
+      const { schemaVersion } = await new RemoteDatabaseService(baseUrl).ping();
+      toast.success(`Connected to POS server (schema v${schemaVersion})`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'POS server not reachable');
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl">
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Data Source</h2>
+        <p className="text-gray-600 dark:text-gray-400">
+          Choose where this terminal stores products, sales and stock.
+        </p>
+      </div>
+
+      <div className="space-y-8">
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+          <div className="flex items-center mb-4">
+            <Database className="w-5 h-5 text-blue-600 mr-3" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Storage Mode</h3>
+          </div>
+
+          <div className="space-y-3">
+            {modes.map((mode) => {
+              const Icon = mode.icon;
+              const isSelected = dataSource.mode === mode.key;
+
+              return (
+                <label
+                  key={mode.key}
+                  className={`relative flex items-start p-4 border-2 rounded-lg cursor-pointer transition-colors ${
+                    isSelected
+                      ? 'bg-blue-50 border-blue-200 dark:bg-blue-900/20 dark:border-blue-700'
+                      : 'border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="dataSourceMode"
+                    value={mode.key}
+                    checked={isSelected}
+                    onChange={(e) => handleInputChange('mode', e.target.value)}
+                    className="sr-only"
+                  />
+                  <div className="flex items-start">
+                    <Icon className={`w-5 h-5 mt-0.5 mr-3 ${isSelected ? 'text-blue-600' : 'text-gray-400'}`} />
+                    <div className="flex-1">
+                      <div className={`text-sm font-medium ${isSelected ? 'text-blue-900 dark:text-blue-100' : 'text-gray-700 dark:text-gray-300'}`}>
+                        {mode.name}
+                      </div>
+                      <div className={`text-xs mt-1 ${isSelected ? 'text-blue-700 dark:text-blue-300' : 'text-gray-500 dark:text-gray-400'}`}>
+                        {mode.description}
+                      </div>
+                    </div>
+                  </div>
+                </label>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+          <div className="flex items-center mb-4">
+            <Activity className="w-5 h-5 text-yellow-600 mr-3" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Offline Sales</h3>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Maximum queue age (minutes)
+            </label>
+            <input
+              type="number"
+              min="1"
+              max="1440"
+              value={dataSource.syncQueueMaxAgeMinutes ?? 15}
+              onChange={(e) => handleInputChange('syncQueueMaxAgeMinutes', parseInt(e.target.value) || 15)}
+              className="w-32 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Sales finalized while the server is unreachable are queued on this terminal. Health Check fails when one waits longer than this.
+            </p>
+          </div>
+        </div>
+
+        {dataSource.mode === 'server' && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+            <div className="flex items-center mb-4">
+              <Server className="w-5 h-5 text-green-600 mr-3" />
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">POS Server</h3>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Server URL
+                </label>
+                <input
+                  type="text"
+                  value={dataSource.serverUrl}
+                  onChange={(e) => handleInputChange('serverUrl', e.target.value.trim())}
+                  placeholder={getApiBaseUrl()}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Leave empty to use the default API address. Changes apply when settings are saved.
+                </p>
+              </div>
+
+              <button
+                onClick={testConnection}
+                disabled={isTesting}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Activity className="w-4 h-4 mr-2" />
+                {isTesting ? 'Testing...' : 'Test Connection'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {dataSource.mode === 'server' && (
+          <StoreAssignment dataSource={dataSource} onChange={(storeId) => handleInputChange('storeId', storeId)} />
+        )}
+      </div>
+    </div>
+  );
+}
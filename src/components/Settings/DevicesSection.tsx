@@ -1,6 +1,9 @@
 import React from 'react';
-import { Printer, CreditCard, Scan, Scale, Info } from 'lucide-react';
-import { AppSettings } from '@/types';
+import { Printer, Tag, CreditCard, Scan, Scale, Info } from 'lucide-react';
+import { AppSettings, LabelSettings } from '@/types';
+import { useAppStore } from '@/store/appStore';
+import { getEmbeddedBarcodeSettings } from '@/lib/embeddedBarcode';
+import { EmbeddedBarcodeSchemes } from './EmbeddedBarcodeSchemes';
 
 interface DevicesSectionProps {
   settings: AppSettings;
@@ -9,6 +12,8 @@ interface DevicesSectionProps {
 }
 
 export function DevicesSection({ settings, updateSettings, onSettingsChange }: DevicesSectionProps) {
+  const { labelSettings, updateLabelSettings } = useAppStore();
+
   // Safety check for settings.devices
   if (!settings || !settings.devices) {
     return (
@@ -30,6 +35,17 @@ export function DevicesSection({ settings, updateSettings, onSettingsChange }: D
     onSettingsChange();
   };
 
+  const receiptPrinter = settings.devices.receiptPrinter ?? { connection: 'browser' as const, host: '', port: 9100 };
+  const handlePrinterChange = (changes: Partial<typeof receiptPrinter>) => {
+    handleInputChange('receiptPrinter', { ...receiptPrinter, ...changes });
+  };
+
+  const handleLabelPrinterChange = (changes: Partial<LabelSettings>) => {
+    updateLabelSettings(changes);
+    onSettingsChange();
+  };
+  const labelLanguage = labelSettings.thermalLanguage ?? 'browser';
+
   return (
     <div className="max-w-4xl">
       <div className="mb-8">
@@ -65,6 +81,126 @@ export function DevicesSection({ settings, updateSettings, onSettingsChange }: D
                 Select the paper size for your receipt printer
               </p>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Connection
+              </label>
+              <select
+                value={receiptPrinter.connection}
+                onChange={(e) => handlePrinterChange({ connection: e.target.value as 'browser' | 'network' })}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="browser">Browser print dialog</option>
+                <option value="network">Network ESC/POS printer</option>
+              </select>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Network printers receive ESC/POS commands through the POS server, with native barcodes, paper cut and drawer kick
+              </p>
+            </div>
+
+            {receiptPrinter.connection === 'network' && settings.devices.receiptPaper !== 'A4' && (
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Printer Address
+                  </label>
+                  <input
+                    type="text"
+                    value={receiptPrinter.host}
+                    onChange={(e) => handlePrinterChange({ host: e.target.value.trim() })}
+                    placeholder="192.168.1.50"
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Port
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="65535"
+                    value={receiptPrinter.port}
+                    onChange={(e) => handlePrinterChange({ port: parseInt(e.target.value) || 9100 })}
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Label Printer */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+          <div className="flex items-center mb-4">
+            <Tag className="w-5 h-5 text-teal-600 mr-3" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Label Printer</h3>
+          </div>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Printer Language
+                </label>
+                <select
+                  value={labelLanguage}
+                  onChange={(e) => handleLabelPrinterChange({ thermalLanguage: e.target.value as LabelSettings['thermalLanguage'] })}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="browser">Browser print dialog</option>
+                  <option value="ZPL">ZPL (Zebra)</option>
+                  <option value="TSPL">TSPL (TSC)</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Resolution
+                </label>
+                <select
+                  value={labelSettings.defaultDPI}
+                  onChange={(e) => handleLabelPrinterChange({ defaultDPI: parseInt(e.target.value) === 300 ? 300 : 203 })}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="203">203 dpi</option>
+                  <option value="300">300 dpi</option>
+                </select>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              ZPL and TSPL printers receive native label commands through the POS server instead of the browser print dialog
+            </p>
+
+            {labelLanguage !== 'browser' && (
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Printer Address
+                  </label>
+                  <input
+                    type="text"
+                    value={labelSettings.thermalPrinterHost ?? ''}
+                    onChange={(e) => handleLabelPrinterChange({ thermalPrinterHost: e.target.value.trim() })}
+                    placeholder="192.168.1.60"
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Port
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="65535"
+                    value={labelSettings.thermalPrinterPort ?? 9100}
+                    onChange={(e) => handleLabelPrinterChange({ thermalPrinterPort: parseInt(e.target.value) || 9100 })}
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+            )}
           </div>
         </div>
 
@@ -159,50 +295,17 @@ export function DevicesSection({ settings, updateSettings, onSettingsChange }: D
                 className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               >
                 <option value="off">Off - No scale integration</option>
-                <option value="weight_embedded">Weight Embedded - PLU + Weight</option>
-                <option value="price_embedded">Price Embedded - PLU + Weight + Price</option>
+                <option value="weight_embedded">Weight Embedded - Item code + weight</option>
+                <option value="price_embedded">Price Embedded - Item code + price</option>
               </select>
             </div>
 
             {settings.devices.scaleMode !== 'off' && (
-              <div className="space-y-3">
-                <div className="p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
-                  <div className="flex items-start">
-                    <Info className="w-4 h-4 text-blue-600 mt-0.5 mr-2" />
-                    <div className="text-xs text-blue-800 dark:text-blue-200">
-                      <p className="font-medium">Scale Adapter Information</p>
-                      {settings.devices.scaleMode === 'weight_embedded' && (
-                        <div className="mt-1 space-y-1">
-                          <p>• Format: PLU + Weight (e.g., "SUGAR10001.250")</p>
-                          <p>• PLU: Product lookup code</p>
-                          <p>• Weight: In kg with decimal places</p>
-                        </div>
-                      )}
-                      {settings.devices.scaleMode === 'price_embedded' && (
-                        <div className="mt-1 space-y-1">
-                          <p>• Format: PLU + Weight + Price (e.g., "SUGAR10001.250125.00")</p>
-                          <p>• PLU: Product lookup code</p>
-                          <p>• Weight: In kg with decimal places</p>
-                          <p>• Price: Total price for the weight</p>
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                </div>
-
-                <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg">
-                  <div className="flex items-start">
-                    <Info className="w-4 h-4 text-yellow-600 mt-0.5 mr-2" />
-                    <div className="text-xs text-yellow-800 dark:text-yellow-200">
-                      <p className="font-medium">Setup Required</p>
-                      <p className="mt-1">
-                        Configure your scale to send data in the specified format. 
-                        The system will automatically parse weight and price information from scanned barcodes.
-                      </p>
-                    </div>
-                  </div>
-                </div>
-              </div>
+              <EmbeddedBarcodeSchemes
+                mode={settings.devices.scaleMode}
+                value={getEmbeddedBarcodeSettings(settings.devices)}
+                onChange={(value) => handleInputChange('embeddedBarcodes', value)}
+              />
             )}
           </div>
         </div>
@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, RotateCcw } from 'lucide-react';
+import { AppSettings, EmbeddedBarcodeScheme, EmbeddedBarcodeSettings } from '@/types';
+import {
+  DEFAULT_PRICE_SCHEME,
+  DEFAULT_WEIGHT_SCHEME,
+  EmbeddedBarcodeError,
+  defaultEmbeddedBarcodeSettings,
+  parseEmbeddedBarcode,
+  validateScheme
+} from '@/lib/embeddedBarcode';
+
+interface EmbeddedBarcodeSchemesProps {
+  mode: AppSettings['devices']['scaleMode'];
+  value: EmbeddedBarcodeSettings;
+  onChange: (value: EmbeddedBarcodeSettings | undefined) => void;
+}
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm';
+
+export function EmbeddedBarcodeSchemes({ mode, value, onChange }: EmbeddedBarcodeSchemesProps) {
+  const [testCode, setTestCode] = useState('');
+
+  const updateScheme = (index: number, changes: Partial<EmbeddedBarcodeScheme>) => {
+    onChange({ ...value, schemes: value.schemes.map((scheme, i) => (i === index ? { ...scheme, ...changes } : scheme)) });
+  };
+  const removeScheme = (index: number) => {
+    onChange({ ...value, schemes: value.schemes.filter((_, i) => i !== index) });
+  };
+  const addScheme = () => {
+    const template = mode === 'price_embedded' ? DEFAULT_PRICE_SCHEME : DEFAULT_WEIGHT_SCHEME;
+    onChange({ ...value, schemes: [...value.schemes, { ...template, prefix: '' }] });
+  };
+
+  const testResult = () => {
+    if (!testCode) return null;
+    try {
+      const parsed = parseEmbeddedBarcode(testCode.trim(), value);
+      if (!parsed) return { ok: false, text: 'Not an embedded barcode for these schemes' };
+      return {
+        ok: true,
+        text: parsed.weightKg !== undefined
+          ? `Item ${parsed.itemCode}, weight ${parsed.weightKg.toFixed(3)} kg`
+          : `Item ${parsed.itemCode}, price Rs. ${parsed.price!.toFixed(2)}`
+      };
+    } catch (error) {
+      return { ok: false, text: error instanceof EmbeddedBarcodeError ? error.message : 'Could not parse barcode' };
+    }
+  };
+  const result = testResult();
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Barcode Schemes</label>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => onChange(undefined)}
+            className="flex items-center px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded text-gray-700 dark:text-gray-300"
+            title={`Use the default ${defaultEmbeddedBarcodeSettings(mode).schemes[0].kind} scheme`}
+          >
+            <RotateCcw className="w-3 h-3 mr-1" /> Defaults
+          </button>
+          <button
+            type="button"
+            onClick={addScheme}
+            className="flex items-center px-2 py-1 text-xs bg-blue-600 text-white rounded"
+          >
+            <Plus className="w-3 h-3 mr-1" /> Add Scheme
+          </button>
+        </div>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+            <th className="pb-1 pr-2">Prefix</th>
+            <th className="pb-1 pr-2">Item Code Digits</th>
+            <th className="pb-1 pr-2">Value</th>
+            <th className="pb-1 pr-2">Decimals</th>
+            <th className="pb-1 pr-2">Value Check Digit</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {value.schemes.map((scheme, index) => {
+            const problem = scheme.prefix ? validateScheme(scheme) : 'Enter a prefix';
+            return (
+              <React.Fragment key={index}>
+                <tr>
+                  <td className="pr-2 py-1">
+                    <input
+                      type="text"
+                      value={scheme.prefix}
+                      onChange={(e) => updateScheme(index, { prefix: e.target.value.trim() })}
+                      placeholder="21 or 20-29"
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="pr-2 py-1">
+                    <input
+                      type="number"
+                      min="1"
+                      max="8"
+                      value={scheme.itemCodeLength}
+                      onChange={(e) => updateScheme(index, { itemCodeLength: parseInt(e.target.value) || 0 })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="pr-2 py-1">
+                    <select
+                      value={scheme.kind}
+                      onChange={(e) => {
+                        const kind = e.target.value as EmbeddedBarcodeScheme['kind'];
+                        updateScheme(index, { kind, decimals: kind === 'weight' ? 3 : 2 });
+                      }}
+                      className={inputClass}
+                    >
+                      <option value="weight">Weight (kg)</option>
+                      <option value="price">Price</option>
+                    </select>
+                  </td>
+                  <td className="pr-2 py-1">
+                    <input
+                      type="number"
+                      min="0"
+                      max="5"
+                      value={scheme.decimals}
+                      onChange={(e) => updateScheme(index, { decimals: parseInt(e.target.value) || 0 })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="pr-2 py-1 text-center">
+                    <input
+                      type="checkbox"
+                      checked={scheme.valueCheckDigit}
+                      onChange={(e) => updateScheme(index, { valueCheckDigit: e.target.checked })}
+                    />
+                  </td>
+                  <td className="py-1 text-right">
+                    <button type="button" onClick={() => removeScheme(index)} className="text-red-600" title="Remove scheme">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+                {problem && (
+                  <tr>
+                    <td colSpan={6} className="text-xs text-red-600 pb-1">{problem}</td>
+                  </tr>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+      {value.schemes.length === 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">No schemes: scale barcodes are looked up like any other barcode</p>
+      )}
+
+      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={value.validateCheckDigit}
+          onChange={(e) => onChange({ ...value, validateCheckDigit: e.target.checked })}
+        />
+        Reject labels with a wrong EAN-13 check digit
+      </label>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Test a label</label>
+        <input
+          type="text"
+          value={testCode}
+          onChange={(e) => setTestCode(e.target.value)}
+          placeholder="Scan or type a 13-digit scale label"
+          className={inputClass}
+        />
+        {result && (
+          <p className={`text-xs mt-1 ${result.ok ? 'text-green-700 dark:text-green-400' : 'text-red-600'}`}>{result.text}</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Bell, Send, RefreshCw, AlertTriangle, RotateCcw } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { reminderService, ReminderQueueStatus } from '@/services/reminderService';
+
+const TRANSPORT_LABELS: Record<string, string> = {
+  smtp: 'SMTP',
+  'http-sms': 'HTTP SMS gateway',
+  file: 'File sink (testing)'
+};
+
+// Server timestamps are UTC without a zone marker
+function formatTime(value: string | null | undefined): string {
+  if (!value) return '-';
+  const date = new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+export function RemindersSection() {
+  const [status, setStatus] = useState<ReminderQueueStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [dispatching, setDispatching] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    setLoading(true);
+    try {
+      setStatus(await reminderService.getStatus());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load reminder status');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const handleDispatch = async () => {
+    setDispatching(true);
+    try {
+      const summary = await reminderService.dispatchNow();
+      toast.success(`${summary.sent} sent, ${summary.retrying} retrying, ${summary.failed} failed`);
+      await loadStatus();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to send reminders');
+    } finally {
+      setDispatching(false);
+    }
+  };
+
+  const handleRetry = async (id: number) => {
+    try {
+      await reminderService.retry(id);
+      toast.success('Reminder queued again');
+      await loadStatus();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to retry reminder');
+    }
+  };
+
+  const counts = status?.counts;
+
+  return (
+    <div className="max-w-4xl">
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Payment Reminders</h2>
+        <p className="text-gray-600 dark:text-gray-400">
+          Email and SMS reminders sent by the POS server from the reminder queue.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 flex items-start p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <AlertTriangle className="w-5 h-5 mr-3 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-8">
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center">
+              <Bell className="w-5 h-5 text-blue-600 mr-3" />
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Queue</h3>
+            </div>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={loadStatus}
+                disabled={loading}
+                className="flex items-center px-3 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 disabled:opacity-50"
+              >
+                <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                Refresh
+              </button>
+              <button
+                onClick={handleDispatch}
+                disabled={dispatching || !status}
+                className="flex items-center px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Send className="w-4 h-4 mr-2" />
+                {dispatching ? 'Sending...' : 'Send Due Now'}
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Queued', value: counts?.queued, className: 'text-blue-700' },
+              { label: 'Retrying', value: counts?.retrying, className: 'text-yellow-700' },
+              { label: 'Sent', value: counts?.sent, className: 'text-green-700' },
+              { label: 'Failed', value: counts?.failed, className: 'text-red-700' }
+            ].map(item => (
+              <div key={item.label} className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                <div className="text-xs text-gray-500 dark:text-gray-400 uppercase">{item.label}</div>
+                <div className={`text-2xl font-bold ${item.className}`}>{item.value ?? '-'}</div>
+              </div>
+            ))}
+          </div>
+
+          <dl className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+            <div className="flex justify-between">
+              <dt className="text-gray-500 dark:text-gray-400">Next due</dt>
+              <dd className="text-gray-900 dark:text-white">{formatTime(status?.next_scheduled_at)}</dd>
+            </div>
+            <div className="flex justify-between">
+              <dt className="text-gray-500 dark:text-gray-400">Last run</dt>
+              <dd className="text-gray-900 dark:text-white">
+                {status?.last_run
+                  ? `${formatTime(status.last_run.at)} (${status.last_run.sent} sent, ${status.last_run.failed} failed)`
+                  : 'Not run yet'}
+              </dd>
+            </div>
+            <div className="flex justify-between">
+              <dt className="text-gray-500 dark:text-gray-400">Email via</dt>
+              <dd className="text-gray-900 dark:text-white">
+                {status?.transports.email ? TRANSPORT_LABELS[status.transports.email] ?? status.transports.email : '-'}
+              </dd>
+            </div>
+            <div className="flex justify-between">
+              <dt className="text-gray-500 dark:text-gray-400">SMS via</dt>
+              <dd className="text-gray-900 dark:text-white">
+                {status?.transports.sms ? TRANSPORT_LABELS[status.transports.sms] ?? status.transports.sms : '-'}
+              </dd>
+            </div>
+          </dl>
+
+          {(status?.transports.error || status?.last_run?.error) && (
+            <p className="mt-4 text-sm text-red-600">
+              {status.transports.error || status.last_run?.error}
+            </p>
+          )}
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+          <div className="flex items-center mb-4">
+            <AlertTriangle className="w-5 h-5 text-red-600 mr-3" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Recent Problems</h3>
+          </div>
+
+          {!status || status.recent_failures.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No failed or retrying reminders.</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="py-2">Customer</th>
+                  <th className="py-2">Invoice</th>
+                  <th className="py-2">Channel</th>
+                  <th className="py-2">Attempts</th>
+                  <th className="py-2">Error</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {status.recent_failures.map(failure => (
+                  <tr key={failure.id}>
+                    <td className="py-2 text-gray-900 dark:text-white">{failure.customer_name ?? `#${failure.customer_id}`}</td>
+                    <td className="py-2 text-gray-900 dark:text-white">#{failure.invoice_id}</td>
+                    <td className="py-2 text-gray-900 dark:text-white uppercase">{failure.channel}</td>
+                    <td className="py-2 text-gray-900 dark:text-white">
+                      {failure.attempts}
+                      {failure.status === 'queued' && (
+                        <span className="ml-2 text-xs text-yellow-700">next {formatTime(failure.scheduled_at)}</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-red-600 max-w-xs truncate" title={failure.last_error}>{failure.last_error}</td>
+                    <td className="py-2 text-right">
+                      {failure.status === 'failed' && (
+                        <button
+                          onClick={() => handleRetry(failure.id)}
+                          className="flex items-center text-blue-600 hover:text-blue-800"
+                          title="Retry"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
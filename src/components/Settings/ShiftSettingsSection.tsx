@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Banknote, RotateCcw } from 'lucide-react';
+import { AppSettings, CashDenominations } from '@/types';
+import { DEFAULT_DENOMINATIONS } from '@/lib/cashCount';
+
+interface ShiftSettingsSectionProps {
+  settings: AppSettings;
+  updateSettings: (settings: Partial<AppSettings>) => void;
+  onSettingsChange: () => void;
+}
+
+const toText = (values: number[]) => values.join(', ');
+
+// Positive values only, largest first; anything that is not a number is ignored
+const parseValues = (text: string) =>
+  [...new Set(text.split(/[\s,]+/).map(Number).filter(v => Number.isFinite(v) && v > 0))].sort((a, b) => b - a);
+
+export function ShiftSettingsSection({ settings, updateSettings, onSettingsChange }: ShiftSettingsSectionProps) {
+  const denominations = settings.shiftSettings?.cashDenominations ?? DEFAULT_DENOMINATIONS;
+  const [notes, setNotes] = useState(toText(denominations.notes));
+  const [coins, setCoins] = useState(toText(denominations.coins));
+
+  const save = (next: CashDenominations) => {
+    updateSettings({
+      shiftSettings: {
+        ...settings.shiftSettings,
+        cashDenominations: next,
+      },
+    });
+    onSettingsChange();
+  };
+
+  const handleBlur = () => {
+    const next = { notes: parseValues(notes), coins: parseValues(coins) };
+    setNotes(toText(next.notes));
+    setCoins(toText(next.coins));
+    save(next);
+  };
+
+  const handleReset = () => {
+    setNotes(toText(DEFAULT_DENOMINATIONS.notes));
+    setCoins(toText(DEFAULT_DENOMINATIONS.coins));
+    save(DEFAULT_DENOMINATIONS);
+  };
+
+  return (
+    <div className="max-w-4xl">
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Shifts & Cash</h2>
+        <p className="text-gray-600 dark:text-gray-400">
+          Configure how cashiers count the drawer when opening a shift, making safe drops and closing.
+        </p>
+      </div>
+
+      <div className="space-y-8">
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center">
+              <Banknote className="w-5 h-5 text-green-600 mr-3" />
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Cash Denominations</h3>
+            </div>
+            <button
+              type="button"
+              onClick={handleReset}
+              className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+            >
+              <RotateCcw className="w-4 h-4" />
+              LKR defaults
+            </button>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Notes
+              </label>
+              <input
+                type="text"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                onBlur={handleBlur}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Coins
+              </label>
+              <input
+                type="text"
+                value={coins}
+                onChange={(e) => setCoins(e.target.value)}
+                onBlur={handleBlur}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Face values separated by commas. The opening float, safe drops and closing count are entered per denomination.
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
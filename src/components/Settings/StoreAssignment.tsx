@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { Building2, Plus, RefreshCw } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { DataSourceSettings, Store } from '@/types';
+import { useAppStore } from '@/store/appStore';
+import { storeService } from '@/services/storeService';
+
+interface StoreAssignmentProps {
+  dataSource: DataSourceSettings;
+  onChange: (storeId: number) => void;
+}
+
+const inputClass = 'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+/** Which server store this terminal sells and moves stock from */
+export function StoreAssignment({ dataSource, onChange }: StoreAssignmentProps) {
+  const { terminal, setTerminal } = useAppStore();
+  const [stores, setStores] = useState<Store[]>([]);
+  const [storeId, setStoreId] = useState(dataSource.storeId ? String(dataSource.storeId) : '');
+  const [newStore, setNewStore] = useState({ name: '', code: '' });
+  const [busy, setBusy] = useState(false);
+
+  const loadStores = async () => {
+    try {
+      setStores(await storeService.list());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load stores');
+    }
+  };
+
+  useEffect(() => {
+    loadStores();
+  }, [dataSource.serverUrl]);
+
+  const handleAssign = async () => {
+    if (!terminal.trim() || !storeId) return;
+    setBusy(true);
+    try {
+      await storeService.registerTerminal(terminal.trim(), Number(storeId));
+      onChange(Number(storeId));
+      toast.success(`${terminal.trim()} now belongs to ${stores.find(store => store.id === Number(storeId))?.name}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to assign store');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAddStore = async () => {
+    if (!newStore.name.trim()) return;
+    setBusy(true);
+    try {
+      const store = await storeService.create({ name: newStore.name.trim(), code: newStore.code.trim() });
+      setStores(prev => [...prev, store].sort((a, b) => a.name.localeCompare(b.name)));
+      setStoreId(String(store.id));
+      setNewStore({ name: '', code: '' });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add store');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const assigned = stores.find(store => store.id === dataSource.storeId);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+      <div className="flex items-center mb-4">
+        <Building2 className="w-5 h-5 text-purple-600 mr-3" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Store</h3>
+      </div>
+
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Terminal Name
+            </label>
+            <input
+              type="text"
+              value={terminal}
+              onChange={(e) => setTerminal(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Store
+            </label>
+            <div className="flex gap-2">
+              <select value={storeId} onChange={(e) => setStoreId(e.target.value)} className={inputClass}>
+                <option value="">Select store</option>
+                {stores.map(store => (
+                  <option key={store.id} value={store.id}>
+                    {store.name}{store.code ? ` (${store.code})` : ''}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={loadStores}
+                className="px-3 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300"
+                title="Reload stores"
+              >
+                <RefreshCw className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {assigned
+              ? `Sales, stock movements and GRNs from this terminal count against ${assigned.name}.`
+              : 'Until a store is assigned, this terminal counts against the first store on the server.'}
+          </p>
+          <button
+            type="button"
+            onClick={handleAssign}
+            disabled={busy || !storeId || !terminal.trim()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            Assign Store
+          </button>
+        </div>
+
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Add Store</label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newStore.name}
+              onChange={(e) => setNewStore(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="Name"
+              maxLength={120}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={newStore.code}
+              onChange={(e) => setNewStore(prev => ({ ...prev, code: e.target.value }))}
+              placeholder="Code"
+              maxLength={16}
+              className={`${inputClass} w-32`}
+            />
+            <button
+              type="button"
+              onClick={handleAddStore}
+              disabled={busy || !newStore.name.trim()}
+              className="flex items-center px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4 mr-1" /> Add
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * Cash Count Grid
+ * Quantity per note and coin with running subtotals, used for the opening float, safe drops and
+ * the closing count
+ */
+
+import React from 'react';
+import { Input } from '../ui/Input';
+import { CashCountLine, CashDenominations } from '@/types';
+import { countTotal, denominationList } from '@/lib/cashCount';
+import { formatCurrency } from '@/lib/currency';
+
+/** Quantities as typed, keyed by denomination */
+export type CashCountDraft = Record<string, string>;
+
+/** Lines for the quantities entered; null while any of them is not a whole number of zero or more */
+export function draftToCount(draft: CashCountDraft): CashCountLine[] | null {
+  const lines: CashCountLine[] = [];
+  for (const [denomination, text] of Object.entries(draft)) {
+    if (text.trim() === '') continue;
+    const quantity = Number(text);
+    if (!Number.isInteger(quantity) || quantity < 0) return null;
+    lines.push({ denomination: Number(denomination), quantity });
+  }
+  return lines;
+}
+
+interface CashCountGridProps {
+  denominations?: CashDenominations;
+  value: CashCountDraft;
+  onChange: (value: CashCountDraft) => void;
+  disabled?: boolean;
+}
+
+export function CashCountGrid({ denominations, value, onChange, disabled }: CashCountGridProps) {
+  const coins = new Set(denominations?.coins ?? []);
+  const list = denominationList(denominations);
+  const count = draftToCount(value);
+
+  const renderRow = (denomination: number) => {
+    const quantity = Number(value[denomination] || 0);
+    const valid = Number.isInteger(quantity) && quantity >= 0;
+    return (
+      <div key={denomination} className="grid grid-cols-3 items-center gap-3">
+        <span className="text-sm font-medium text-gray-700">{formatCurrency(denomination)}</span>
+        <Input
+          type="number"
+          min="0"
+          step="1"
+          inputSize="sm"
+          value={value[denomination] ?? ''}
+          onChange={(e) => onChange({ ...value, [denomination]: e.target.value })}
+          placeholder="0"
+          disabled={disabled}
+          aria-label={`Count of ${denomination}`}
+        />
+        <span className={`text-sm text-right ${valid ? 'text-gray-600' : 'text-red-600'}`}>
+          {valid ? formatCurrency(quantity * denomination) : 'Whole number'}
+        </span>
+      </div>
+    );
+  };
+
+  // Without a configured split, values of 10 and below are counted as coins
+  const isCoin = (denomination: number) => (denominations ? coins.has(denomination) : denomination <= 10);
+  const noteValues = list.filter(d => !isCoin(d));
+  const coinValues = list.filter(isCoin);
+
+  return (
+    <div className="space-y-4">
+      {noteValues.length > 0 && (
+        <div className="space-y-2">
+          <h5 className="text-xs font-semibold uppercase tracking-wide text-gray-500">Notes</h5>
+          {noteValues.map(renderRow)}
+        </div>
+      )}
+      {coinValues.length > 0 && (
+        <div className="space-y-2">
+          <h5 className="text-xs font-semibold uppercase tracking-wide text-gray-500">Coins</h5>
+          {coinValues.map(renderRow)}
+        </div>
+      )}
+      <div className="flex justify-between border-t pt-3 font-semibold">
+        <span>Total</span>
+        <span>{count ? formatCurrency(countTotal(count)) : '-'}</span>
+      </div>
+    </div>
+  );
+}
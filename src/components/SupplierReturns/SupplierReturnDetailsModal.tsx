@@ -0,0 +1,304 @@
+import React, { useEffect, useState } from 'react';
+import { X, Printer, Send, Trash2, RefreshCw, BadgeDollarSign } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import {
+  supplierReturnService,
+  creditOutstanding,
+  RETURN_REASON_LABELS,
+  SupplierReturnDetails
+} from '@/services/supplierReturnService';
+import { grnPrintAdapter } from '@/adapters/print/GRNPrintAdapter';
+import { formatCurrency } from '@/lib/currency';
+import { SupplierReturnStatus } from '@/types';
+
+interface SupplierReturnDetailsModalProps {
+  returnId: number;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export const RETURN_STATUS_STYLES: Record<SupplierReturnStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  posted: 'bg-yellow-100 text-yellow-800',
+  credited: 'bg-green-100 text-green-800'
+};
+
+export const RETURN_STATUS_LABELS: Record<SupplierReturnStatus, string> = {
+  draft: 'Draft',
+  posted: 'Awaiting Credit',
+  credited: 'Credited'
+};
+
+// Server timestamps are UTC without a zone marker
+const formatDateTime = (value: string | null) =>
+  value ? new Date(`${value.replace(' ', 'T')}Z`).toLocaleString() : '-';
+
+export function SupplierReturnDetailsModal({ returnId, onClose, onChanged }: SupplierReturnDetailsModalProps) {
+  const [details, setDetails] = useState<SupplierReturnDetails | null>(null);
+  const [credit, setCredit] = useState({ amount: '', ref: '' });
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const show = (next: SupplierReturnDetails) => {
+    setDetails(next);
+    const outstanding = creditOutstanding(next.supplier_return);
+    setCredit({ amount: outstanding > 0 ? outstanding.toFixed(2) : '', ref: '' });
+  };
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      show(await supplierReturnService.get(returnId));
+    } catch (error) {
+      console.error('Failed to load supplier return:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load supplier return');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [returnId]);
+
+  const handlePrint = async (data: SupplierReturnDetails | null = details) => {
+    if (!data) return;
+    try {
+      await grnPrintAdapter.printDebitNote(data);
+    } catch (error) {
+      console.error('Failed to print debit note:', error);
+      toast.error('Failed to print debit note');
+    }
+  };
+
+  const handlePost = async () => {
+    if (!confirm('Post this return? The goods will be taken out of stock.')) return;
+    setBusy(true);
+    try {
+      const next = await supplierReturnService.post(returnId);
+      show(next);
+      onChanged();
+      toast.success('Return posted');
+      // The debit note goes to the supplier with the goods
+      await handlePrint(next);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to post return');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm('Delete this draft return?')) return;
+    setBusy(true);
+    try {
+      await supplierReturnService.remove(returnId);
+      onChanged();
+      onClose();
+      toast.success('Draft deleted');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete return');
+      setBusy(false);
+    }
+  };
+
+  const handleCredit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = Number(credit.amount);
+    if (!(amount > 0)) {
+      toast.error('Enter the amount credited by the supplier');
+      return;
+    }
+    setBusy(true);
+    try {
+      show(await supplierReturnService.recordCredit(returnId, { amount, ref: credit.ref.trim() }));
+      onChanged();
+      toast.success('Credit recorded');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to record credit');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const supplierReturn = details?.supplier_return;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center space-x-3">
+            <h2 className="text-xl font-semibold text-gray-900">
+              {supplierReturn ? `Return ${supplierReturn.return_no}` : 'Supplier Return'}
+            </h2>
+            {supplierReturn && (
+              <span className={`px-2 py-1 rounded-full text-xs font-medium ${RETURN_STATUS_STYLES[supplierReturn.status]}`}>
+                {RETURN_STATUS_LABELS[supplierReturn.status]}
+              </span>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {loading && !details ? (
+          <div className="p-8 text-center text-gray-500">
+            <RefreshCw className="w-6 h-6 animate-spin mx-auto mb-2" />
+            Loading return...
+          </div>
+        ) : details && supplierReturn ? (
+          <div className="p-6 space-y-6">
+            <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <dt className="text-gray-500">Supplier</dt>
+                <dd className="font-medium text-gray-900">{details.supplier?.supplier_name ?? `#${supplierReturn.supplier_id}`}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Against GRN</dt>
+                <dd className="text-gray-900">{details.grn?.grn_no ?? '-'}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Posted</dt>
+                <dd className="text-gray-900">{formatDateTime(supplierReturn.posted_at)}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Credited</dt>
+                <dd className="text-gray-900">{formatDateTime(supplierReturn.credited_at)}</dd>
+              </div>
+            </dl>
+
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Batch</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Reason</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Qty</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Unit Cost</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {details.lines.map(line => (
+                  <tr key={line.id}>
+                    <td className="px-3 py-2">
+                      <div className="font-medium text-gray-900">{line.product_name ?? `#${line.product_id}`}</div>
+                      <div className="text-xs text-gray-500">{line.sku}</div>
+                    </td>
+                    <td className="px-3 py-2 text-gray-900">{line.batch_code ?? '-'}</td>
+                    <td className="px-3 py-2 text-gray-900">{RETURN_REASON_LABELS[line.reason] ?? line.reason}</td>
+                    <td className="px-3 py-2 text-right text-gray-900">{line.qty} {line.unit}</td>
+                    <td className="px-3 py-2 text-right text-gray-900">{formatCurrency(line.unit_cost)}</td>
+                    <td className="px-3 py-2 text-right text-gray-900">{formatCurrency(line.qty * line.unit_cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr>
+                  <td colSpan={5} className="px-3 py-2 text-right font-medium text-gray-900">Total</td>
+                  <td className="px-3 py-2 text-right font-medium text-gray-900">{formatCurrency(supplierReturn.total)}</td>
+                </tr>
+              </tfoot>
+            </table>
+
+            {supplierReturn.note && (
+              <p className="text-sm text-gray-600"><span className="font-medium">Note:</span> {supplierReturn.note}</p>
+            )}
+
+            {/* Credits */}
+            {supplierReturn.status !== 'draft' && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-gray-900">Credits from Supplier</h3>
+                  <span className="text-sm text-gray-600">
+                    {formatCurrency(supplierReturn.credit_received)} of {formatCurrency(supplierReturn.total)} received
+                  </span>
+                </div>
+                {details.credits.length > 0 && (
+                  <ul className="divide-y divide-gray-200 text-sm border rounded-lg">
+                    {details.credits.map(entry => (
+                      <li key={entry.id} className="flex justify-between px-3 py-2">
+                        <span className="text-gray-900">
+                          {formatDateTime(entry.received_at)}{entry.ref && ` · ${entry.ref}`}
+                        </span>
+                        <span className="font-medium text-gray-900">{formatCurrency(entry.amount)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {supplierReturn.status === 'posted' && (
+                  <form onSubmit={handleCredit} className="flex flex-wrap items-end gap-3">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Amount</label>
+                      <input
+                        type="number"
+                        min="0.01"
+                        step="0.01"
+                        max={creditOutstanding(supplierReturn)}
+                        value={credit.amount}
+                        onChange={(e) => setCredit(prev => ({ ...prev, amount: e.target.value }))}
+                        className="w-36 px-3 py-2 border border-gray-300 rounded-lg text-gray-900 bg-white"
+                      />
+                    </div>
+                    <div className="flex-1 min-w-[10rem]">
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Credit Note / Reference</label>
+                      <input
+                        type="text"
+                        maxLength={64}
+                        value={credit.ref}
+                        onChange={(e) => setCredit(prev => ({ ...prev, ref: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 bg-white"
+                      />
+                    </div>
+                    <button
+                      type="submit"
+                      disabled={busy}
+                      className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                    >
+                      <BadgeDollarSign className="w-4 h-4 mr-2" />
+                      Record Credit
+                    </button>
+                  </form>
+                )}
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center justify-end gap-3 pt-6 border-t">
+              {supplierReturn.status === 'draft' && (
+                <button
+                  onClick={handleDelete}
+                  disabled={busy}
+                  className="flex items-center px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete Draft
+                </button>
+              )}
+              <button
+                onClick={() => handlePrint()}
+                className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <Printer className="w-4 h-4 mr-2" />
+                Print Debit Note
+              </button>
+              {supplierReturn.status === 'draft' && (
+                <button
+                  onClick={handlePost}
+                  disabled={busy}
+                  className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  <Send className="w-4 h-4 mr-2" />
+                  Post Return
+                </button>
+              )}
+            </div>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
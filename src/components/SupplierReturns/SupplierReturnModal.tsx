@@ -0,0 +1,382 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Search, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { dataService, Product, Supplier } from '@/services/dataService';
+import { grnService } from '@/services/grnService';
+import {
+  supplierReturnService,
+  RETURN_REASON_LABELS,
+  SupplierReturnDetails
+} from '@/services/supplierReturnService';
+import { toBaseQty, baseUnitCost } from '@/lib/uom';
+import { formatCurrency } from '@/lib/currency';
+import { GRN, SupplierReturnReason } from '@/types';
+
+interface SupplierReturnModalProps {
+  suppliers: Supplier[];
+  /** Start from the goods received on this GRN */
+  initialGrnId?: number | null;
+  onClose: () => void;
+  onSaved: (details: SupplierReturnDetails) => void;
+}
+
+interface DraftLine {
+  productId: number;
+  name: string;
+  sku: string;
+  unit: string;
+  qty: string;
+  unitCost: string;
+  reason: SupplierReturnReason;
+  // Base units received on the GRN, when returning against one
+  received?: number;
+}
+
+const REASONS = Object.keys(RETURN_REASON_LABELS) as SupplierReturnReason[];
+
+export function SupplierReturnModal({ suppliers, initialGrnId, onClose, onSaved }: SupplierReturnModalProps) {
+  const [supplierId, setSupplierId] = useState('');
+  const [grnId, setGrnId] = useState(initialGrnId ? String(initialGrnId) : '');
+  const [grns, setGrns] = useState<GRN[]>([]);
+  const [note, setNote] = useState('');
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const [search, setSearch] = useState('');
+  const [results, setResults] = useState<Product[]>([]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const debounceRef = useRef<NodeJS.Timeout>();
+
+  // Posted GRNs from the supplier the goods can be returned against
+  useEffect(() => {
+    if (!supplierId) {
+      setGrns([]);
+      return;
+    }
+    grnService.listGRN({ supplier_id: Number(supplierId), status: 'POSTED', limit: 100 })
+      .then(setGrns)
+      .catch(error => console.error('Failed to load GRNs:', error));
+  }, [supplierId]);
+
+  // Returning against a GRN offers its lines at the cost they were received at
+  useEffect(() => {
+    if (!grnId) {
+      setLines([]);
+      return;
+    }
+    grnService.getGRN(Number(grnId))
+      .then(({ header, lines: grnLines }) => {
+        setSupplierId(String(header.supplier_id));
+        setLines(grnLines.map(line => ({
+          productId: line.product_id,
+          name: line.product?.name ?? `#${line.product_id}`,
+          sku: line.product?.sku ?? '',
+          unit: line.product?.unit ?? '',
+          qty: '0',
+          unitCost: String(baseUnitCost(line.unit_cost, line.conv_to_base ?? 1)),
+          reason: 'damaged',
+          received: toBaseQty(line.qty, { conv_to_base: line.conv_to_base ?? 1 })
+        })));
+      })
+      .catch(error => {
+        console.error('Failed to load GRN:', error);
+        toast.error('Failed to load GRN');
+      });
+  }, [grnId]);
+
+  useEffect(() => {
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+    if (!search.trim()) {
+      setResults([]);
+      return;
+    }
+    debounceRef.current = setTimeout(() => {
+      dataService.getProducts({ search: search.trim(), active_filter: 'all' })
+        .then(products => setResults(products.slice(0, 10)))
+        .catch(error => console.error('Failed to search products:', error));
+    }, 250);
+  }, [search]);
+
+  const handleAddProduct = (product: Product) => {
+    if (!lines.some(line => line.productId === product.id)) {
+      setLines([...lines, {
+        productId: product.id,
+        name: product.name_en,
+        sku: product.sku,
+        unit: product.unit,
+        qty: '1',
+        unitCost: String(product.cost ?? 0),
+        reason: 'damaged'
+      }]);
+    }
+    setSearch('');
+    setResults([]);
+    setErrors(prev => ({ ...prev, lines: '' }));
+  };
+
+  const updateLine = (index: number, changes: Partial<DraftLine>) =>
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+
+  const returning = lines.filter(line => Number(line.qty) > 0);
+  const total = returning.reduce((sum, line) => sum + Number(line.qty) * Number(line.unitCost || 0), 0);
+
+  const validate = (): boolean => {
+    const next: Record<string, string> = {};
+    if (!supplierId) next.supplier = 'Select the supplier the goods go back to';
+
+    if (returning.length === 0) {
+      next.lines = grnId ? 'Enter a quantity on at least one line' : 'Add at least one product';
+    } else if (lines.some(line => line.qty === '' || Number(line.qty) < 0)) {
+      next.lines = 'Quantities cannot be negative';
+    } else if (returning.some(line => line.received !== undefined && Number(line.qty) > line.received)) {
+      next.lines = 'A line returns more than the GRN received';
+    } else if (returning.some(line => !(Number(line.unitCost) >= 0) || line.unitCost === '')) {
+      next.lines = 'Every line needs a unit cost';
+    }
+
+    setErrors(next);
+    return Object.keys(next).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    setLoading(true);
+    try {
+      const details = await supplierReturnService.create({
+        supplierId: Number(supplierId),
+        grnId: grnId ? Number(grnId) : null,
+        note: note.trim(),
+        lines: returning.map(line => ({
+          productId: line.productId,
+          qty: Number(line.qty),
+          // Against a GRN the server returns the goods at the cost they were received at
+          unitCost: grnId ? undefined : Number(line.unitCost),
+          reason: line.reason
+        }))
+      });
+      toast.success(`Return ${details.supplier_return.return_no} drafted`);
+      onSaved(details);
+    } catch (error) {
+      console.error('Failed to draft supplier return:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to draft supplier return');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass = (field?: string) =>
+    `w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white ${
+      field && errors[field] ? 'border-red-500' : 'border-gray-300'
+    }`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-semibold text-gray-900">Return to Supplier</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Supplier <span className="text-red-500">*</span>
+              </label>
+              <select
+                value={supplierId}
+                onChange={(e) => {
+                  setSupplierId(e.target.value);
+                  setGrnId('');
+                  setErrors(prev => ({ ...prev, supplier: '' }));
+                }}
+                className={inputClass('supplier')}
+              >
+                <option value="">Select supplier</option>
+                {suppliers.map(supplier => (
+                  <option key={supplier.id} value={supplier.id}>{supplier.supplier_name}</option>
+                ))}
+              </select>
+              {errors.supplier && <p className="text-red-500 text-sm mt-1">{errors.supplier}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Against GRN
+              </label>
+              <select
+                value={grnId}
+                onChange={(e) => setGrnId(e.target.value)}
+                disabled={!supplierId}
+                className={inputClass()}
+              >
+                <option value="">No GRN - pick products</option>
+                {grns.map(grn => (
+                  <option key={grn.id} value={grn.id}>
+                    {grn.grn_no} · {grn.datetime ? new Date(grn.datetime).toLocaleDateString('en-GB') : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Product search, when not returning against a GRN */}
+          {!grnId && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Add Product
+              </label>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+                <input
+                  type="text"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search by SKU, barcode, or name..."
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-500"
+                />
+              </div>
+              {results.length > 0 && (
+                <div className="mt-1 max-h-40 overflow-y-auto border border-gray-200 rounded-lg">
+                  {results.map(product => (
+                    <button
+                      key={product.id}
+                      type="button"
+                      onClick={() => handleAddProduct(product)}
+                      className="w-full text-left px-3 py-2 hover:bg-gray-50 border-b last:border-b-0"
+                    >
+                      <div className="text-sm font-medium text-gray-900">{product.name_en}</div>
+                      <div className="text-xs text-gray-500">SKU: {product.sku}</div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Lines */}
+          <div>
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                  {grnId && <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Received</th>}
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase w-28">Qty</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase w-28">Unit Cost</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase w-32">Reason</th>
+                  {!grnId && <th className="px-3 py-2 w-10"></th>}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {lines.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-3 py-6 text-center text-gray-500">
+                      {grnId ? 'Loading GRN lines...' : 'No products added yet'}
+                    </td>
+                  </tr>
+                ) : (
+                  lines.map((line, index) => (
+                    <tr key={`${line.productId}-${index}`}>
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-gray-900">{line.name}</div>
+                        <div className="text-xs text-gray-500">{line.sku}</div>
+                      </td>
+                      {grnId && <td className="px-3 py-2 text-right text-gray-900">{line.received} {line.unit}</td>}
+                      <td className="px-3 py-2">
+                        <input
+                          type="number"
+                          min="0"
+                          max={line.received}
+                          step="0.001"
+                          value={line.qty}
+                          onChange={(e) => updateLine(index, { qty: e.target.value })}
+                          className={inputClass()}
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={line.unitCost}
+                          onChange={(e) => updateLine(index, { unitCost: e.target.value })}
+                          disabled={!!grnId}
+                          title={grnId ? 'Returned at the cost it was received at' : undefined}
+                          className={inputClass()}
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <select
+                          value={line.reason}
+                          onChange={(e) => updateLine(index, { reason: e.target.value as SupplierReturnReason })}
+                          className={inputClass()}
+                        >
+                          {REASONS.map(reason => (
+                            <option key={reason} value={reason}>{RETURN_REASON_LABELS[reason]}</option>
+                          ))}
+                        </select>
+                      </td>
+                      {!grnId && (
+                        <td className="px-3 py-2">
+                          <button
+                            type="button"
+                            onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                            className="text-red-600 hover:text-red-800"
+                            title="Remove"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+            {errors.lines && <p className="text-red-500 text-sm mt-1">{errors.lines}</p>}
+            <p className="text-right text-sm font-medium text-gray-900 mt-2">Debit total: {formatCurrency(total)}</p>
+          </div>
+
+          {/* Note */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Note
+            </label>
+            <input
+              type="text"
+              maxLength={255}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-500"
+              placeholder="Printed on the debit note"
+            />
+          </div>
+
+          {/* Actions */}
+          <div className="flex items-center justify-end space-x-3 pt-6 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              disabled={loading}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              disabled={loading}
+            >
+              {loading ? 'Saving...' : 'Draft Return'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
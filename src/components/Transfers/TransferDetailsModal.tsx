@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from 'react';
+import { X, Printer, Truck, PackageCheck, RefreshCw } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { transferService, transferShortfall, TransferDetails } from '@/services/transferService';
+import { transferNotePrintAdapter } from '@/adapters/print/TransferNotePrintAdapter';
+import { useAppStore } from '@/store/appStore';
+import { TransferStatus } from '@/types';
+
+interface TransferDetailsModalProps {
+  transferId: number;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export const TRANSFER_STATUS_STYLES: Record<TransferStatus, string> = {
+  requested: 'bg-blue-100 text-blue-800',
+  in_transit: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-green-100 text-green-800'
+};
+
+export const TRANSFER_STATUS_LABELS: Record<TransferStatus, string> = {
+  requested: 'Requested',
+  in_transit: 'In Transit',
+  received: 'Received'
+};
+
+export function TransferDetailsModal({ transferId, onClose, onChanged }: TransferDetailsModalProps) {
+  const { settings } = useAppStore();
+  const [details, setDetails] = useState<TransferDetails | null>(null);
+  // Quantities being counted for the next step, by product
+  const [counts, setCounts] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const show = (next: TransferDetails) => {
+    setDetails(next);
+    const expected = (line: TransferDetails['lines'][number]) =>
+      next.transfer.status === 'requested' ? line.qty : line.qty_dispatched ?? 0;
+    setCounts(Object.fromEntries(next.lines.map(line => [line.product_id, String(expected(line))])));
+  };
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      show(await transferService.get(transferId));
+    } catch (error) {
+      console.error('Failed to load transfer:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load transfer');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [transferId]);
+
+  const handlePrint = async (data: TransferDetails | null = details) => {
+    if (!data) return;
+    try {
+      await transferNotePrintAdapter.print({
+        ...data,
+        company: { name: settings.storeInfo.name, address: settings.storeInfo.address }
+      });
+    } catch (error) {
+      console.error('Failed to print transfer note:', error);
+      toast.error('Failed to print transfer note');
+    }
+  };
+
+  const counted = () => {
+    const lines = details?.lines.map(line => ({ productId: line.product_id, qty: Number(counts[line.product_id]) })) ?? [];
+    return lines.some(line => !(line.qty >= 0) || counts[line.productId] === '') ? null : lines;
+  };
+
+  const handleStep = async (step: 'dispatch' | 'receive') => {
+    const lines = counted();
+    if (!lines) {
+      toast.error('Enter a quantity of zero or more on every line');
+      return;
+    }
+    setBusy(true);
+    try {
+      const next = step === 'dispatch'
+        ? await transferService.dispatch(transferId, lines)
+        : await transferService.receive(transferId, lines);
+      show(next);
+      onChanged();
+      toast.success(step === 'dispatch' ? 'Transfer dispatched' : 'Transfer received');
+      // The dispatched note travels with the goods
+      if (step === 'dispatch') await handlePrint(next);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Failed to ${step} transfer`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const transfer = details?.transfer;
+  const counting = transfer?.status === 'requested' || transfer?.status === 'in_transit';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center space-x-3">
+            <h2 className="text-xl font-semibold text-gray-900">
+              {transfer ? `Transfer ${transfer.transfer_no}` : 'Transfer'}
+            </h2>
+            {transfer && (
+              <span className={`px-2 py-1 rounded-full text-xs font-medium ${TRANSFER_STATUS_STYLES[transfer.status]}`}>
+                {TRANSFER_STATUS_LABELS[transfer.status]}
+              </span>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {loading && !details ? (
+          <div className="p-8 text-center text-gray-500">
+            <RefreshCw className="w-6 h-6 animate-spin mx-auto mb-2" />
+            Loading transfer...
+          </div>
+        ) : details && transfer ? (
+          <div className="p-6 space-y-6">
+            <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <dt className="text-gray-500">From</dt>
+                <dd className="font-medium text-gray-900">{details.from_store?.name ?? `#${transfer.from_store}`}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">To</dt>
+                <dd className="font-medium text-gray-900">{details.to_store?.name ?? `#${transfer.to_store}`}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Dispatched</dt>
+                <dd className="text-gray-900">{transfer.dispatched_at ? new Date(`${transfer.dispatched_at.replace(' ', 'T')}Z`).toLocaleString() : '-'}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Received</dt>
+                <dd className="text-gray-900">{transfer.received_at ? new Date(`${transfer.received_at.replace(' ', 'T')}Z`).toLocaleString() : '-'}</dd>
+              </div>
+            </dl>
+
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Requested</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Dispatched</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Received</th>
+                  {counting && (
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase w-32">
+                      {transfer.status === 'requested' ? 'Sending' : 'Counted'}
+                    </th>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {details.lines.map(line => {
+                  const short = transferShortfall(line);
+                  return (
+                    <tr key={line.id}>
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-gray-900">{line.product_name ?? `#${line.product_id}`}</div>
+                        <div className="text-xs text-gray-500">{line.sku}</div>
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-900">{line.qty} {line.unit}</td>
+                      <td className="px-3 py-2 text-right text-gray-900">{line.qty_dispatched ?? '-'}</td>
+                      <td className={`px-3 py-2 text-right ${short > 0 ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
+                        {line.qty_received ?? '-'}{short > 0 && ` (${short} short)`}
+                      </td>
+                      {counting && (
+                        <td className="px-3 py-2">
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.001"
+                            value={counts[line.product_id] ?? ''}
+                            onChange={(e) => setCounts(prev => ({ ...prev, [line.product_id]: e.target.value }))}
+                            className="w-full px-3 py-1 border border-gray-300 rounded-lg text-gray-900 bg-white"
+                          />
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            {transfer.note && (
+              <p className="text-sm text-gray-600"><span className="font-medium">Note:</span> {transfer.note}</p>
+            )}
+
+            <div className="flex flex-wrap items-center justify-end gap-3 pt-6 border-t">
+              <button
+                onClick={() => handlePrint()}
+                className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <Printer className="w-4 h-4 mr-2" />
+                Print Note
+              </button>
+              {transfer.status === 'requested' && (
+                <button
+                  onClick={() => handleStep('dispatch')}
+                  disabled={busy}
+                  className="flex items-center px-4 py-2 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors disabled:opacity-50"
+                >
+                  <Truck className="w-4 h-4 mr-2" />
+                  Dispatch
+                </button>
+              )}
+              {transfer.status === 'in_transit' && (
+                <button
+                  onClick={() => handleStep('receive')}
+                  disabled={busy}
+                  className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                >
+                  <PackageCheck className="w-4 h-4 mr-2" />
+                  Receive
+                </button>
+              )}
+            </div>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
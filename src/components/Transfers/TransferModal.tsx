@@ -0,0 +1,265 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Search, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { dataService, Product } from '@/services/dataService';
+import { storeService } from '@/services/storeService';
+import { transferService, TransferDetails } from '@/services/transferService';
+import { Store } from '@/types';
+
+interface TransferModalProps {
+  stores: Store[];
+  onClose: () => void;
+  onSaved: (details: TransferDetails) => void;
+}
+
+interface DraftLine {
+  product: Product;
+  qty: string;
+}
+
+export function TransferModal({ stores, onClose, onSaved }: TransferModalProps) {
+  // Requests usually come from the store that needs the stock, i.e. this terminal's store
+  const [toStoreId, setToStoreId] = useState(String(storeService.currentStoreId() ?? ''));
+  const [fromStoreId, setFromStoreId] = useState('');
+  const [note, setNote] = useState('');
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const [search, setSearch] = useState('');
+  const [results, setResults] = useState<Product[]>([]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const debounceRef = useRef<NodeJS.Timeout>();
+
+  useEffect(() => {
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+    if (!search.trim()) {
+      setResults([]);
+      return;
+    }
+    debounceRef.current = setTimeout(() => {
+      dataService.getProducts({ search: search.trim(), active_filter: 'active' })
+        .then(products => setResults(products.slice(0, 10)))
+        .catch(error => console.error('Failed to search products:', error));
+    }, 250);
+  }, [search]);
+
+  const handleAddProduct = (product: Product) => {
+    if (!lines.some(line => line.product.id === product.id)) {
+      setLines([...lines, { product, qty: '1' }]);
+    }
+    setSearch('');
+    setResults([]);
+    setErrors(prev => ({ ...prev, lines: '' }));
+  };
+
+  const validate = (): boolean => {
+    const next: Record<string, string> = {};
+    if (!fromStoreId) next.from = 'Select the store sending the stock';
+    if (!toStoreId) next.to = 'Select the store receiving the stock';
+    if (fromStoreId && fromStoreId === toStoreId) next.to = 'Choose a different store';
+
+    if (lines.length === 0) {
+      next.lines = 'Add at least one product';
+    } else if (lines.some(line => !(Number(line.qty) > 0))) {
+      next.lines = 'Every line needs a quantity above zero';
+    }
+
+    setErrors(next);
+    return Object.keys(next).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    setLoading(true);
+    try {
+      const details = await transferService.create({
+        fromStoreId: Number(fromStoreId),
+        toStoreId: Number(toStoreId),
+        note: note.trim(),
+        lines: lines.map(line => ({ productId: line.product.id, qty: Number(line.qty) }))
+      });
+      toast.success(`Transfer ${details.transfer.transfer_no} requested`);
+      onSaved(details);
+    } catch (error) {
+      console.error('Failed to request transfer:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to request transfer');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass = (field?: string) =>
+    `w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white ${
+      field && errors[field] ? 'border-red-500' : 'border-gray-300'
+    }`;
+
+  const storeSelect = (field: 'from' | 'to', value: string, onChange: (value: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => {
+        onChange(e.target.value);
+        setErrors(prev => ({ ...prev, [field]: '' }));
+      }}
+      className={inputClass(field)}
+    >
+      <option value="">Select store</option>
+      {stores.map(store => (
+        <option key={store.id} value={store.id}>{store.name}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-semibold text-gray-900">Request Transfer</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                From Store <span className="text-red-500">*</span>
+              </label>
+              {storeSelect('from', fromStoreId, setFromStoreId)}
+              {errors.from && <p className="text-red-500 text-sm mt-1">{errors.from}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                To Store <span className="text-red-500">*</span>
+              </label>
+              {storeSelect('to', toStoreId, setToStoreId)}
+              {errors.to && <p className="text-red-500 text-sm mt-1">{errors.to}</p>}
+            </div>
+          </div>
+
+          {/* Product search */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Add Product
+            </label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search by SKU, barcode, or name..."
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-500"
+              />
+            </div>
+            {results.length > 0 && (
+              <div className="mt-1 max-h-40 overflow-y-auto border border-gray-200 rounded-lg">
+                {results.map(product => (
+                  <button
+                    key={product.id}
+                    type="button"
+                    onClick={() => handleAddProduct(product)}
+                    className="w-full text-left px-3 py-2 hover:bg-gray-50 border-b last:border-b-0"
+                  >
+                    <div className="text-sm font-medium text-gray-900">{product.name_en}</div>
+                    <div className="text-xs text-gray-500">SKU: {product.sku}</div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Lines */}
+          <div>
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase w-32">Qty</th>
+                  <th className="px-3 py-2 w-10"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {lines.length === 0 ? (
+                  <tr>
+                    <td colSpan={3} className="px-3 py-6 text-center text-gray-500">
+                      No products added yet
+                    </td>
+                  </tr>
+                ) : (
+                  lines.map((line, index) => (
+                    <tr key={line.product.id}>
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-gray-900">{line.product.name_en}</div>
+                        <div className="text-xs text-gray-500">{line.product.sku}</div>
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="number"
+                          min="0.001"
+                          step="0.001"
+                          value={line.qty}
+                          onChange={(e) => setLines(lines.map((l, i) => (i === index ? { ...l, qty: e.target.value } : l)))}
+                          className={inputClass()}
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <button
+                          type="button"
+                          onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                          className="text-red-600 hover:text-red-800"
+                          title="Remove"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+            {errors.lines && <p className="text-red-500 text-sm mt-1">{errors.lines}</p>}
+          </div>
+
+          {/* Note */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Note
+            </label>
+            <input
+              type="text"
+              maxLength={255}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-500"
+              placeholder="Printed on the transfer note"
+            />
+          </div>
+
+          {/* Actions */}
+          <div className="flex items-center justify-end space-x-3 pt-6 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              disabled={loading}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              disabled={loading}
+            >
+              {loading ? 'Saving...' : 'Request Transfer'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
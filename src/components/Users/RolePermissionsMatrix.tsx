@@ -0,0 +1,389 @@
+/**
+ * Role Permissions Matrix
+ * Roles as columns, permissions as rows. Grants are edited per role and saved to the POS server;
+ * limited permissions take an optional maximum amount and percentage. Below, extra roles can be given to users
+ * beside their main role.
+ */
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Plus, Save, Trash2, RefreshCw, Shield, Lock } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { cn } from '@/utils/cn';
+import { authService } from '@/services/authService';
+import { roleService, RoleWithGrants, RoleAssignment, RoleGrant } from '@/services/roleService';
+import { UserWithStatus } from '@/services/userService';
+import { useAppStore } from '@/store/appStore';
+import {
+  DEFAULT_LIMITS,
+  DEFAULT_PERMISSIONS,
+  LIMITED_PERMISSIONS,
+  PERMISSION_GROUPS,
+  Permission,
+  ROLES,
+  getRolePermissions
+} from '@/security/permissions';
+
+interface RolePermissionsMatrixProps {
+  users: UserWithStatus[];
+}
+
+type Cap = 'max_amount' | 'max_percent';
+
+// permission -> limits (null for none) for each role being edited
+type GrantDraft = Record<string, Omit<RoleGrant, 'permission'>>;
+
+const toDraft = (grants: RoleGrant[]): GrantDraft =>
+  Object.fromEntries(grants.map(g => [g.permission, { max_amount: g.max_amount, max_percent: g.max_percent }]));
+
+const label = (permission: string) => permission.replace(/_/g, ' ').toLowerCase();
+
+// The built-in grants, shown read-only when there is no POS server to keep custom roles
+const DEFAULT_ROLES: RoleWithGrants[] = ROLES.map((name, i) => ({
+  id: -(i + 1),
+  name,
+  description: null,
+  builtin: true,
+  grants: getRolePermissions(name).map(permission => ({
+    permission,
+    max_amount: DEFAULT_LIMITS[name]?.[permission]?.amount ?? null,
+    max_percent: DEFAULT_LIMITS[name]?.[permission]?.percent ?? null
+  })),
+  user_count: 0
+}));
+
+const RolePermissionsMatrix: React.FC<RolePermissionsMatrixProps> = ({ users }) => {
+  const { settings } = useAppStore();
+  const serverMode = settings?.dataSource?.mode === 'server';
+  const canEdit = serverMode && authService.hasPermission('USER_MANAGEMENT');
+
+  const [roles, setRoles] = useState<RoleWithGrants[]>(serverMode ? [] : DEFAULT_ROLES);
+  const [assignments, setAssignments] = useState<RoleAssignment[]>([]);
+  const [drafts, setDrafts] = useState<Record<number, GrantDraft>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [newRoleName, setNewRoleName] = useState('');
+
+  const load = useCallback(async () => {
+    if (!serverMode) {
+      setRoles(DEFAULT_ROLES);
+      return;
+    }
+    setLoading(true);
+    try {
+      const data = await roleService.list();
+      setRoles(data.roles);
+      setAssignments(data.assignments);
+      setDrafts({});
+    } catch (error) {
+      console.error('Failed to load roles:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load roles');
+    } finally {
+      setLoading(false);
+    }
+  }, [serverMode]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const grantsFor = (role: RoleWithGrants): GrantDraft => drafts[role.id] ?? toDraft(role.grants);
+  const dirtyRoles = roles.filter(role => drafts[role.id] !== undefined);
+  // Permissions granted on the server that this build does not know, so they are not lost from view
+  const otherPermissions = useMemo(() => {
+    const known = new Set(Object.keys(DEFAULT_PERMISSIONS));
+    return [...new Set(roles.flatMap(r => r.grants.map(g => g.permission)))].filter(p => !known.has(p)).sort();
+  }, [roles]);
+
+  const editable = (role: RoleWithGrants) => canEdit && role.name !== 'ADMIN';
+
+  const toggleGrant = (role: RoleWithGrants, permission: string) => {
+    const draft = { ...grantsFor(role) };
+    if (permission in draft) {
+      delete draft[permission];
+    } else {
+      draft[permission] = { max_amount: null, max_percent: null };
+    }
+    setDrafts(prev => ({ ...prev, [role.id]: draft }));
+  };
+
+  const setLimit = (role: RoleWithGrants, permission: string, cap: Cap, value: string) => {
+    const limit = value.trim() === '' ? null : Number(value);
+    if (limit !== null && (!Number.isFinite(limit) || limit < 0 || (cap === 'max_percent' && limit > 100))) return;
+    const draft = grantsFor(role);
+    setDrafts(prev => ({ ...prev, [role.id]: { ...draft, [permission]: { ...draft[permission], [cap]: limit } } }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      for (const role of dirtyRoles) {
+        const grants = Object.entries(drafts[role.id]).map(([permission, limits]) => ({ permission, ...limits }));
+        await roleService.setGrants(role.id, grants);
+      }
+      toast.success(`Saved permissions for ${dirtyRoles.map(r => r.name).join(', ')}`);
+      await load();
+    } catch (error) {
+      console.error('Failed to save grants:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save permissions');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddRole = async () => {
+    const name = newRoleName.trim().toUpperCase().replace(/\s+/g, '_');
+    if (!name) return;
+    try {
+      await roleService.createRole(name);
+      setNewRoleName('');
+      toast.success(`Role ${name} created`);
+      await load();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create role');
+    }
+  };
+
+  const handleDeleteRole = async (role: RoleWithGrants) => {
+    if (!confirm(`Delete role ${role.name}? Users holding it as an extra role will lose it.`)) return;
+    try {
+      await roleService.deleteRole(role.id);
+      toast.success(`Role ${role.name} deleted`);
+      await load();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete role');
+    }
+  };
+
+  const toggleUserRole = async (user: UserWithStatus, role: RoleWithGrants) => {
+    const current = assignments.filter(a => a.user_id === user.id).map(a => a.role_id);
+    const next = current.includes(role.id) ? current.filter(id => id !== role.id) : [...current, role.id];
+    try {
+      await roleService.setUserRoles(user.id, next);
+      setAssignments(prev => [
+        ...prev.filter(a => a.user_id !== user.id),
+        ...next.map(role_id => ({ user_id: user.id, role_id }))
+      ]);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update user roles');
+    }
+  };
+
+  const renderRow = (permission: string) => (
+    <tr key={permission} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+      <td className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 capitalize">{label(permission)}</td>
+      {roles.map(role => {
+        const draft = grantsFor(role);
+        const granted = role.name === 'ADMIN' || permission in draft;
+        const limited = LIMITED_PERMISSIONS.includes(permission as Permission);
+        return (
+          <td key={role.id} className="px-3 py-2 text-center">
+            <div className="flex flex-col items-center gap-1">
+              <input
+                type="checkbox"
+                checked={granted}
+                disabled={!editable(role)}
+                onChange={() => toggleGrant(role, permission)}
+                aria-label={`${role.name} ${label(permission)}`}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 disabled:opacity-60"
+              />
+              {limited && granted && role.name !== 'ADMIN' && (
+                <>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder="No limit"
+                    value={draft[permission]?.max_amount ?? ''}
+                    disabled={!editable(role)}
+                    onChange={(e) => setLimit(role, permission, 'max_amount', e.target.value)}
+                    title="Highest amount this role may give or approve; empty for no limit"
+                    className="w-24 px-2 py-0.5 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="0.1"
+                    placeholder="No % limit"
+                    value={draft[permission]?.max_percent ?? ''}
+                    disabled={!editable(role)}
+                    onChange={(e) => setLimit(role, permission, 'max_percent', e.target.value)}
+                    title="Highest percentage this role may give, e.g. of a discount; empty for no limit"
+                    className="w-24 px-2 py-0.5 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  />
+                </>
+              )}
+            </div>
+          </td>
+        );
+      })}
+    </tr>
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            <Shield className="h-5 w-5" />
+            Roles & Permissions
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {serverMode
+              ? 'Changes apply when users next sign in and are recorded in the audit log. ADMIN always holds every permission.'
+              : 'Custom roles are kept on the POS server. Without one, the built-in roles below apply.'}
+          </p>
+        </div>
+
+        {serverMode && (
+          <div className="flex items-center gap-2">
+            {canEdit && (
+              <>
+                <input
+                  type="text"
+                  placeholder="New role, e.g. Senior cashier"
+                  value={newRoleName}
+                  onChange={(e) => setNewRoleName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAddRole()}
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+                <button
+                  onClick={handleAddRole}
+                  disabled={!newRoleName.trim()}
+                  className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg transition-colors"
+                >
+                  <Plus className="h-4 w-4" />
+                  Add Role
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={saving || dirtyRoles.length === 0}
+                  className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white rounded-lg transition-colors"
+                >
+                  <Save className="h-4 w-4" />
+                  Save{dirtyRoles.length > 0 ? ` (${dirtyRoles.length})` : ''}
+                </button>
+              </>
+            )}
+            <button
+              onClick={load}
+              disabled={loading}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className={cn('h-4 w-4', loading && 'animate-spin')} />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {serverMode && !canEdit && (
+        <div className="flex items-center gap-2 text-sm text-amber-700 dark:text-amber-300">
+          <Lock className="h-4 w-4" />
+          Editing roles requires the user management permission.
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50 dark:bg-gray-700">
+            <tr>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-900 dark:text-white">Permission</th>
+              {roles.map(role => (
+                <th key={role.id} className="px-3 py-3 text-center text-sm font-medium text-gray-900 dark:text-white">
+                  <div className="flex items-center justify-center gap-1">
+                    <span>{role.name}</span>
+                    {canEdit && !role.builtin && (
+                      <button
+                        onClick={() => handleDeleteRole(role)}
+                        className="p-0.5 text-red-600 hover:text-red-700"
+                        title={`Delete ${role.name}`}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </button>
+                    )}
+                  </div>
+                  {serverMode && (
+                    <div className="text-xs font-normal text-gray-500 dark:text-gray-400">
+                      {role.user_count} user{role.user_count === 1 ? '' : 's'}
+                      {drafts[role.id] !== undefined && ' · unsaved'}
+                    </div>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {Object.entries(PERMISSION_GROUPS).map(([group, permissions]) => (
+              <React.Fragment key={group}>
+                <tr className="bg-gray-50/50 dark:bg-gray-700/30">
+                  <td colSpan={roles.length + 1} className="px-4 py-2 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                    {group}
+                  </td>
+                </tr>
+                {permissions.map(renderRow)}
+              </React.Fragment>
+            ))}
+            {otherPermissions.length > 0 && (
+              <>
+                <tr className="bg-gray-50/50 dark:bg-gray-700/30">
+                  <td colSpan={roles.length + 1} className="px-4 py-2 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                    Other
+                  </td>
+                </tr>
+                {otherPermissions.map(renderRow)}
+              </>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {serverMode && users.length > 0 && (
+        <div>
+          <h4 className="text-md font-semibold text-gray-900 dark:text-white mb-2">Extra roles</h4>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+            Roles held beside each user's main role; a user has every permission of all their roles.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-900 dark:text-white">User</th>
+                  {roles.map(role => (
+                    <th key={role.id} className="px-3 py-3 text-center text-sm font-medium text-gray-900 dark:text-white">
+                      {role.name}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {users.map(user => (
+                  <tr key={user.id}>
+                    <td className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300">{user.name}</td>
+                    {roles.map(role => {
+                      const main = user.role === role.name;
+                      return (
+                        <td key={role.id} className="px-3 py-2 text-center">
+                          <input
+                            type="checkbox"
+                            checked={main || assignments.some(a => a.user_id === user.id && a.role_id === role.id)}
+                            disabled={!canEdit || main}
+                            onChange={() => toggleUserRole(user, role)}
+                            title={main ? 'Main role; change it from Edit User' : undefined}
+                            aria-label={`${user.name} ${role.name}`}
+                            className="h-4 w-4 rounded border-gray-300 text-blue-600 disabled:opacity-60"
+                          />
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RolePermissionsMatrix;
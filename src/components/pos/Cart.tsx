@@ -1,8 +1,12 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { Trash2, Tag, Lock } from 'lucide-react';
 import { useCartStore } from '@/store/cartStore';
-import { formatCurrency } from '@/lib/currency';
+import { formatCurrency, roundCurrency } from '@/lib/currency';
 import { validateQuantity } from '@/lib/validation';
+import { toast } from 'react-hot-toast';
+import { authService } from '@/services/authService';
+import { AUDIT_ACTIONS } from '@/services/auditService';
+import type { ProductUom } from '@/types';
 
 interface CartProps {
   onItemUpdate?: (item: any) => void;
@@ -14,6 +18,7 @@ export function Cart({ onItemUpdate, onItemRemove }: CartProps) {
     items, 
     priceTier, 
     updateItemQuantity, 
+    changeItemUom,
     removeItem, 
     updateItemDiscount 
   } = useCartStore();
@@ -47,10 +52,27 @@ export function Cart({ onItemUpdate, onItemRemove }: CartProps) {
     timers.set(itemId, t);
   };
 
-  // Handle discount change
-  const handleDiscountChange = (itemId: string, type: 'FIXED_AMOUNT' | 'PERCENTAGE', value: number) => {
+  // Handle discount change; over the cashier's discount limit a manager approves it first
+  const handleDiscountChange = async (itemId: string, type: 'FIXED_AMOUNT' | 'PERCENTAGE', value: number) => {
     if (!isRetailTier) return;
-    
+
+    const item = items.find(i => i.id === itemId);
+    if (item && value > 0) {
+      const approval = await authService.requireWithinLimit(
+        'DISCOUNT_OVERRIDE',
+        type === 'PERCENTAGE' ? { percent: value } : { amount: value },
+        `Line discount of ${type === 'PERCENTAGE' ? `${value}%` : formatCurrency(value)} on ${item.name}`,
+        {
+          action: AUDIT_ACTIONS.DISCOUNT_OVERRIDE,
+          payload: { product_id: item.product_id, line_total: roundCurrency(item.qty * item.current_price) }
+        }
+      );
+      if (!approval.approved) {
+        toast.error('Discount not applied: manager authorization required');
+        return;
+      }
+    }
+
     updateItemDiscount(itemId, type, value);
     onItemUpdate?.(items.find(i => i.id === itemId));
   };
@@ -97,7 +119,28 @@ export function Cart({ onItemUpdate, onItemRemove }: CartProps) {
               <tr key={item.id} className="border-t border-gray-700">
                 <td className="px-3 py-2">
                   <div className="font-medium text-white">{item.name}</div>
-                  <div className="text-xs text-gray-400">{item.sku} • {item.unit} • {formatCurrency(item.current_price)} ea</div>
+                  <div className="text-xs text-gray-400">
+                    {item.sku} •{' '}
+                    {item.product?.uoms?.length > 0 ? (
+                      // Packs the product is sold in, e.g. a case of 24; stock is still taken in the base unit
+                      <select
+                        value={item.uom?.code ?? ''}
+                        onChange={(e) => changeItemUom(item.id, item.product.uoms.find((u: ProductUom) => u.code === e.target.value) ?? null)}
+                        className="px-1 bg-gray-800 border border-gray-600 rounded"
+                      >
+                        <option value="">{item.product.unit}</option>
+                        {item.product.uoms.map((u: ProductUom) => (
+                          <option key={u.code} value={u.code}>{u.name} ({u.conv_to_base} {item.product.unit})</option>
+                        ))}
+                      </select>
+                    ) : item.unit}
+                    {' '}• {formatCurrency(item.current_price)} ea
+                  </div>
+                  {item.applied_rules && item.applied_rules.length > 0 && (
+                    <div className="text-xs text-green-400" data-testid="promo-message">
+                      Promo applied: {item.applied_rules.map(rule => rule.rule_name).join(', ')}
+                    </div>
+                  )}
                 </td>
                 <td className="px-3 py-2 align-middle text-right">
                   <input
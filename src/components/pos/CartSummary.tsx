@@ -5,6 +5,8 @@ import { useUIStore } from '@/store/uiStore';
 import { formatCurrency } from '@/lib/currency';
 import { validatePercentageDiscount, validateFixedDiscount } from '@/lib/validation';
 import { toast } from 'react-hot-toast';
+import { authService } from '@/services/authService';
+import { AUDIT_ACTIONS } from '@/services/auditService';
 
 interface CartSummaryProps {
   onPayment?: (paymentType: string) => void;
@@ -46,8 +48,8 @@ export function CartSummary({
     setManualDiscount({ type, value: 0 });
   };
 
-  // Handle manual discount value change
-  const handleDiscountValueChange = (value: number) => {
+  // Handle manual discount value change; over the cashier's discount limit a manager approves it first
+  const handleDiscountValueChange = async (value: number) => {
     let validation;
     
     if (manualDiscount.type === 'PERCENTAGE') {
@@ -57,11 +59,26 @@ export function CartSummary({
       validation = validateFixedDiscount(value, maxAmount);
     }
     
-    if (validation.isValid) {
-      setManualDiscount({ type: manualDiscount.type, value });
-    } else {
+    if (!validation.isValid) {
       toast.error(validation.error || 'Invalid discount value');
+      return;
     }
+
+    const isPercent = manualDiscount.type === 'PERCENTAGE';
+    if (value > 0) {
+      const approval = await authService.requireWithinLimit(
+        'DISCOUNT_OVERRIDE',
+        isPercent ? { percent: value } : { amount: value },
+        `Sale discount of ${isPercent ? `${value}%` : formatCurrency(value)}`,
+        { action: AUDIT_ACTIONS.DISCOUNT_OVERRIDE, payload: { subtotal: totals.gross - totals.item_discounts_total } }
+      );
+      if (!approval.approved) {
+        toast.error('Discount not applied: manager authorization required');
+        return;
+      }
+    }
+
+    setManualDiscount({ type: manualDiscount.type, value });
   };
 
   // Handle payment
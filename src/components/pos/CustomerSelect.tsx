@@ -9,6 +9,7 @@ interface Customer {
   customer_email?: string;
   default_price_tier?: 'Retail' | 'Wholesale' | 'Credit' | 'Other';
   credit_limit?: number;
+  tag_ids?: number[];
 }
 
 interface CustomerSelectProps {
@@ -52,7 +53,7 @@ export function CustomerSelect({ onCustomerChange }: CustomerSelectProps) {
   // Handle customer selection
   const handleCustomerSelect = (customer: Customer | null) => {
     setSelectedCustomer(customer);
-    setCustomer(customer?.id || null, customer?.customer_name || 'Walk-in Customer (Retail)');
+    setCustomer(customer?.id || null, customer?.customer_name || 'Walk-in Customer (Retail)', customer?.tag_ids ?? []);
     
     // Switch price tier if customer has default tier
     if (customer?.default_price_tier && customer.default_price_tier !== priceTier) {
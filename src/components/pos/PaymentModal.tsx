@@ -4,6 +4,9 @@ import { formatCurrency, calculateChange } from '@/lib/currency';
 import { validateTenderedAmount, validatePaymentReference, validateCustomerForCredit } from '@/lib/validation';
 import { useCartStore } from '@/store/cartStore';
 import { toast } from 'react-hot-toast';
+import { customerAccountService, CustomerAccount } from '@/services/customerAccountService';
+import { AUDIT_ACTIONS } from '@/services/auditService';
+import { authService } from '@/services/authService';
 
 type PaymentMethod = 'CASH' | 'CARD' | 'WALLET' | 'CREDIT';
 
@@ -16,6 +19,8 @@ interface PaymentRow {
 interface PaymentData {
   payments: PaymentRow[];
   notes: string;
+  creditApproval?: string; // manager's signed approval to charge beyond the credit limit
+  saleKey?: string; // Idempotency-Key the approval was given for; the sale must be sent with it
 }
 
 interface PaymentModalProps {
@@ -35,6 +40,43 @@ export function PaymentModal({ paymentType, total, onClose, onConfirm }: Payment
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isProcessing, setIsProcessing] = useState(false);
+  const [account, setAccount] = useState<CustomerAccount | null>(null);
+  const [accountError, setAccountError] = useState<string | null>(null);
+
+  const hasCreditRow = (paymentData.payments || []).some(p => p.method === 'CREDIT');
+  const creditAmount = Number((paymentData.payments || [])
+    .filter(p => p.method === 'CREDIT')
+    .reduce((s, p) => s + (p.amount || 0), 0)
+    .toFixed(2));
+  const overLimit = Boolean(account && creditAmount > account.available);
+  // The server refuses a CREDIT payment without an account to charge, so it never reaches checkout
+  const missingCustomer = (paymentType === 'CREDIT' || hasCreditRow) && !customerId;
+
+  // Charge-to-account rows need the customer's balance and limit
+  useEffect(() => {
+    if (!hasCreditRow || !customerId) {
+      setAccount(null);
+      setAccountError(null);
+      return;
+    }
+    let cancelled = false;
+    customerAccountService.getAccount(customerId)
+      .then(result => {
+        if (!cancelled) {
+          setAccount(result);
+          setAccountError(null);
+        }
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setAccount(null);
+          setAccountError(error instanceof Error ? error.message : 'Customer account unavailable');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [hasCreditRow, customerId]);
 
   const remaining = Math.max(0, Number((total - (paymentData.payments?.reduce((s, p) => s + (p.amount || 0), 0) || 0)).toFixed(2)));
 
@@ -71,10 +113,12 @@ export function PaymentModal({ paymentType, total, onClose, onConfirm }: Payment
     }
 
     // Validate customer for credit
-    if (paymentType === 'CREDIT') {
-      const customerValidation = validateCustomerForCredit(customerId);
+    if (paymentType === 'CREDIT' || hasCreditRow) {
+      const customerValidation = validateCustomerForCredit(customerId ?? null);
       if (!customerValidation.isValid) {
         newErrors.customer = customerValidation.error || 'Customer required';
+      } else if (hasCreditRow && !account) {
+        newErrors.account = accountError || 'Loading customer account...';
       }
     }
 
@@ -90,9 +134,34 @@ export function PaymentModal({ paymentType, total, onClose, onConfirm }: Payment
       return;
     }
 
+    // Charging beyond the credit limit needs a manager; the server checks their approval with the sale
+    if (overLimit && account) {
+      const saleKey = crypto.randomUUID();
+      const approval = await authService.requireWithinLimit(
+        'CREDIT_LIMIT_OVERRIDE',
+        { amount: creditAmount },
+        `Charge ${formatCurrency(creditAmount)} with ${formatCurrency(account.available)} credit available`,
+        {
+          action: AUDIT_ACTIONS.CREDIT_LIMIT_OVERRIDE,
+          payload: { customer_id: customerId, amount: creditAmount, available: account.available }
+        },
+        { customerId: customerId ?? undefined, reference: saleKey }
+      );
+      if (!approval.approved) {
+        toast.error('Manager authorization required to exceed the credit limit');
+        return;
+      }
+      await confirmPayment({ ...paymentData, creditApproval: approval.approval, saleKey });
+      return;
+    }
+
+    await confirmPayment(paymentData);
+  };
+
+  const confirmPayment = async (data: PaymentData) => {
     setIsProcessing(true);
     try {
-      await onConfirm(paymentData);
+      await onConfirm(data);
     } catch (error) {
       console.error('Payment confirmation error:', error);
       toast.error('Payment failed');
@@ -125,7 +194,7 @@ export function PaymentModal({ paymentType, total, onClose, onConfirm }: Payment
       case 'WALLET':
         return { color: 'purple', icon: '📱', label: 'Wallet/QR Payment' };
       case 'CREDIT':
-        return { color: 'yellow', icon: '📋', label: 'Credit Payment' };
+        return { color: 'yellow', icon: '📋', label: 'Charge to Account' };
       default:
         return { color: 'gray', icon: '💰', label: 'Payment' };
     }
@@ -170,7 +239,7 @@ export function PaymentModal({ paymentType, total, onClose, onConfirm }: Payment
           </div>
 
           {/* Customer Validation for Credit */}
-          {paymentType === 'CREDIT' && (!customerId || customerId === 0) && (
+          {missingCustomer && (
             <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
               <div className="flex items-center">
                 <AlertCircle className="w-5 h-5 text-red-500 mr-2" />
@@ -181,6 +250,33 @@ export function PaymentModal({ paymentType, total, onClose, onConfirm }: Payment
             </div>
           )}
 
+          {/* Customer credit account */}
+          {hasCreditRow && customerId && (account || accountError) && (
+            <div className={`rounded-lg p-4 border ${overLimit || accountError
+              ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
+              : 'bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600'}`}>
+              {account ? (
+                <div className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+                  <div className="flex justify-between"><span>Account balance</span><span>{formatCurrency(account.balance)}</span></div>
+                  <div className="flex justify-between"><span>Credit limit</span><span>{formatCurrency(account.credit_limit)}</span></div>
+                  <div className="flex justify-between font-medium"><span>Available</span><span>{formatCurrency(account.available)}</span></div>
+                  {overLimit && (
+                    <div className="flex items-center pt-1 text-red-700 dark:text-red-300">
+                      <AlertCircle className="w-4 h-4 mr-2" />
+                      Charge exceeds the credit limit; manager approval required
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="flex items-center text-red-700 dark:text-red-300 text-sm">
+                  <AlertCircle className="w-4 h-4 mr-2" />
+                  {accountError}
+                </div>
+              )}
+            </div>
+          )}
+          {errors.account && !accountError && <div className="text-red-500 text-xs">{errors.account}</div>}
+
           {/* Split Payments */}
           <div>
             <div className="flex items-center justify-between mb-2">
@@ -207,7 +303,7 @@ export function PaymentModal({ paymentType, total, onClose, onConfirm }: Payment
                     <option value="CASH">Cash</option>
                     <option value="CARD">Card</option>
                     <option value="WALLET">Wallet/QR</option>
-                    <option value="CREDIT">Credit</option>
+                    <option value="CREDIT">Charge to account</option>
                   </select>
                   <input
                     type="number"
@@ -280,7 +376,7 @@ export function PaymentModal({ paymentType, total, onClose, onConfirm }: Payment
             </button>
             <button
               type="submit"
-              disabled={isProcessing}
+              disabled={isProcessing || missingCustomer}
               className={`flex-1 px-4 py-3 bg-${paymentInfo.color}-600 hover:bg-${paymentInfo.color}-700 text-white rounded-lg transition-all duration-200 flex items-center justify-center gap-2 font-medium shadow-lg hover:shadow-xl focus:outline-none focus:ring-2 focus:ring-${paymentInfo.color}-500/50 transform hover:scale-[1.02] active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed`}
             >
               {isProcessing ? (
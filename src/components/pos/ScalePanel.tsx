@@ -1,21 +1,50 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { ScaleAdapter, ScaleReading } from '@/adapters/ScaleAdapter';
+import { ScaleUnit, convertWeight } from '@/adapters/scale/protocols';
 
 interface ScalePanelProps {
   parsedWeightKg?: number | null;
   onUseWeight?: (weightKg: number) => void;
+  // Connected scale; without one the weight is typed in
+  scale?: ScaleAdapter | null;
 }
 
-export default function ScalePanel({ parsedWeightKg = null, onUseWeight }: ScalePanelProps) {
+export default function ScalePanel({ parsedWeightKg = null, onUseWeight, scale = null }: ScalePanelProps) {
   const [locked, setLocked] = useState(false);
   const [tare, setTare] = useState(0);
   const [manualWeight, setManualWeight] = useState<string>(parsedWeightKg?.toFixed(3) || '');
+  const [reading, setReading] = useState<ScaleReading | null>(null);
+  const [scaleError, setScaleError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!scale || locked) return;
+
+    const unsubscribe = scale.onReading(setReading);
+    scale.startContinuousReading();
+    return () => {
+      unsubscribe();
+      scale.stopContinuousReading();
+    };
+  }, [scale, locked]);
+
+  const scaleWeightKg = reading ? convertWeight(reading.weight, reading.unit as ScaleUnit, 'kg') : null;
 
   const effectiveWeight = () => {
-    const raw = (parsedWeightKg ?? (parseFloat(manualWeight) || 0));
+    const raw = (parsedWeightKg ?? scaleWeightKg ?? (parseFloat(manualWeight) || 0));
     const net = Math.max(0, raw - tare);
     return Number(net.toFixed(3));
   };
 
+  const runScaleCommand = async (command: 'tare' | 'zero') => {
+    if (!scale) return;
+    try {
+      setScaleError(null);
+      await scale[command]();
+    } catch (error) {
+      setScaleError(error instanceof Error ? error.message : `Scale ${command} failed`);
+    }
+  };
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
       <div className="flex items-center justify-between mb-3">
@@ -34,22 +63,47 @@ export default function ScalePanel({ parsedWeightKg = null, onUseWeight }: Scale
         </div>
         <div>
           <label className="block text-xs text-gray-600 mb-1">Weight (kg)</label>
-          <input type="number" step="0.001" min="0" value={manualWeight}
-            onChange={(e) => setManualWeight(e.target.value)}
-            disabled={locked}
-            className="w-full px-2 py-1 border rounded bg-white dark:bg-gray-700 disabled:opacity-60" />
+          {scale ? (
+            <div className="px-2 py-1 border rounded bg-gray-50 dark:bg-gray-700 font-mono">
+              {scaleWeightKg !== null ? scaleWeightKg.toFixed(3) : '—'}
+            </div>
+          ) : (
+            <input type="number" step="0.001" min="0" value={manualWeight}
+              onChange={(e) => setManualWeight(e.target.value)}
+              disabled={locked}
+              className="w-full px-2 py-1 border rounded bg-white dark:bg-gray-700 disabled:opacity-60" />
+          )}
         </div>
         <div className="text-right">
-          <div className="text-xs text-gray-600 mb-1">Net</div>
+          <div className="text-xs text-gray-600 mb-1">
+            Net{scale && reading && !reading.stable ? ' (settling)' : ''}
+          </div>
           <div className="text-lg font-semibold">{effectiveWeight().toFixed(3)} kg</div>
         </div>
       </div>
+      {scaleError && <p className="mt-2 text-xs text-red-600">{scaleError}</p>}
       <div className="mt-3 flex items-center justify-between">
-        <button type="button" onClick={() => setTare(0)} className="px-3 py-1 text-sm border rounded">Tare</button>
-        <button type="button" onClick={() => onUseWeight?.(effectiveWeight())} className="px-3 py-1 text-sm bg-blue-600 text-white rounded">Use Weight</button>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => (scale ? runScaleCommand('tare') : setTare(0))}
+            className="px-3 py-1 text-sm border rounded"
+          >
+            Tare
+          </button>
+          {scale && (
+            <button type="button" onClick={() => runScaleCommand('zero')} className="px-3 py-1 text-sm border rounded">Zero</button>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={() => onUseWeight?.(effectiveWeight())}
+          disabled={!!scale && !!reading && !reading.stable && !locked}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded disabled:opacity-50"
+        >
+          Use Weight
+        </button>
       </div>
     </div>
   );
 }
-
-
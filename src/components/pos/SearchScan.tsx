@@ -4,7 +4,10 @@ import { useCartStore } from '@/store/cartStore';
 import { validateBarcode, validateSearchQuery } from '@/lib/validation';
 import { toast } from 'react-hot-toast';
 import { getApiBaseUrl } from '@/utils/api';
-import { ScannerBuffer, parseWeightedBarcode } from '@/utils/scannerBuffer';
+import { ScannerBuffer } from '@/utils/scannerBuffer';
+import { useAppStore } from '@/store/appStore';
+import { EmbeddedBarcodeError, getEmbeddedBarcodeSettings, parseEmbeddedBarcode } from '@/lib/embeddedBarcode';
+import type { PackUnit } from '@/lib/uom';
 
 interface SearchScanProps {
   onProductFound?: (product: any) => void;
@@ -37,24 +40,6 @@ export function SearchScan({ onProductFound, onProductNotFound }: SearchScanProp
     const scanner = new ScannerBuffer({ debounceMs: 25, minLength: 6 });
     scannerRef.current = scanner;
     const onScan = async (code: string) => {
-      // Weighted parsing first
-      const weighted = parseWeightedBarcode(code);
-      if (weighted.isWeighted && weighted.sku) {
-        // try by SKU
-        const resp = await fetch(`${apiBaseUrl}/api/products/search?q=${encodeURIComponent(weighted.sku)}&limit=5`);
-        const data = await resp.json();
-        const product = Array.isArray(data.products) ? data.products.find((p: any) => p.sku === weighted.sku) : null;
-        if (product) {
-          addItem(product, Math.max(0.001, Number(weighted.weightKg?.toFixed(3) || 0)));
-          toast.success(`Added ${product.name_en} (${weighted.weightKg?.toFixed(3)} kg)`);
-          inputRef.current?.focus();
-          setQuery('');
-          setSuggestions([]);
-          setSelectedIndex(-1);
-          return;
-        }
-      }
-      // Else treat as barcode/SKU flow
       await handleBarcodeScan(code);
       inputRef.current?.focus();
     };
@@ -153,15 +138,58 @@ export function SearchScan({ onProductFound, onProductNotFound }: SearchScanProp
     }
   };
 
+  // Weight or price embedded scale barcode; true when the code was one and has been dealt with
+  const handleEmbeddedBarcode = async (code: string): Promise<boolean> => {
+    let embedded;
+    try {
+      embedded = parseEmbeddedBarcode(code, getEmbeddedBarcodeSettings(useAppStore.getState().settings?.devices));
+    } catch (error) {
+      if (!(error instanceof EmbeddedBarcodeError)) throw error;
+      toast.error(error.message);
+      playErrorSound();
+      return true;
+    }
+    if (!embedded) return false;
+
+    const resp = await fetch(`${apiBaseUrl}/api/products/search?q=${encodeURIComponent(embedded.itemCode)}&limit=5`);
+    const data = await resp.json();
+    const product = Array.isArray(data.products) ? data.products.find((p: any) => p.sku === embedded.itemCode) : null;
+    // Not a scale item after all: let the normal barcode lookup have it
+    if (!product) return false;
+
+    let qty = embedded.weightKg;
+    if (embedded.price !== undefined) {
+      // Price labels carry the line total; the quantity is what that buys at the retail price
+      if (!(Number(product.price_retail) > 0)) {
+        toast.error(`${product.name_en} has no retail price to convert the label price`);
+        return true;
+      }
+      qty = embedded.price / Number(product.price_retail);
+    }
+    qty = Math.max(0.001, Number((qty ?? 0).toFixed(3)));
+
+    await addItem(product, qty);
+    toast.success(embedded.price !== undefined
+      ? `Added ${product.name_en} (Rs. ${embedded.price.toFixed(2)})`
+      : `Added ${product.name_en} (${qty.toFixed(3)} kg)`);
+    setQuery('');
+    setSuggestions([]);
+    setSelectedIndex(-1);
+    return true;
+  };
+
   // Handle barcode scan
   const handleBarcodeScan = async (codeOrSku: string) => {
     setIsLoading(true);
     try {
+      if (await handleEmbeddedBarcode(codeOrSku)) return;
+
       // Try direct barcode endpoint first
       const resp = await fetch(`${apiBaseUrl}/api/products/barcode/${encodeURIComponent(codeOrSku)}`);
       const data = await resp.json();
       if (resp.ok && data.product) {
-        handleProductSelect(data.product);
+        // A pack barcode comes back with the pack that was scanned
+        handleProductSelect(data.product, data.uom);
         return;
       }
 
@@ -188,7 +216,7 @@ export function SearchScan({ onProductFound, onProductNotFound }: SearchScanProp
   };
 
   // Handle product selection
-  const handleProductSelect = (product: any) => {
+  const handleProductSelect = (product: any, uom: PackUnit | null = null) => {
     // Check stock availability
     if (product.stock_tracking && product.stock_qty <= 0) {
       toast.error('Product out of stock');
@@ -196,7 +224,7 @@ export function SearchScan({ onProductFound, onProductNotFound }: SearchScanProp
     }
 
     // Add to cart
-    addItem(product, 1);
+    addItem(product, 1, uom);
     try {
       const audio = new Audio('/assets/sounds/beep.mp3');
       audio.play().catch(() => {});
@@ -218,7 +246,7 @@ export function SearchScan({ onProductFound, onProductNotFound }: SearchScanProp
     onProductFound?.(product);
     
     // Show success message
-    toast.success(`Added ${product.name_en} to cart`);
+    toast.success(uom ? `Added 1 ${uom.name} of ${product.name_en} to cart` : `Added ${product.name_en} to cart`);
   };
 
   // Play error sound
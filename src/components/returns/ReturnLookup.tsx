@@ -2,6 +2,8 @@ import React, { useState, useRef, useEffect } from 'react';
 import { Search, AlertCircle, CheckCircle } from 'lucide-react';
 import { useReturnStore } from '@/store/returnStore';
 import { toast } from 'react-hot-toast';
+import { useAppStore } from '@/store/appStore';
+import { apiRequest, getServerBaseUrl } from '@/utils/api';
 
 interface ReturnLookupProps {
   onInvoiceFound?: (invoice: any) => void;
@@ -74,8 +76,8 @@ export function ReturnLookup({ onInvoiceFound }: ReturnLookupProps) {
 
     try {
       // Fetch invoice details via returns lookup API (receipt barcode or number)
-      const apiBaseUrl = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8100';
-      const invoiceResponse = await fetch(`${apiBaseUrl}/api/returns/lookup?receipt=${encodeURIComponent(lookupValue.trim())}`);
+      const apiBaseUrl = getServerBaseUrl(useAppStore.getState().settings?.dataSource);
+      const invoiceResponse = await apiRequest(`${apiBaseUrl}/api/returns/lookup?receipt=${encodeURIComponent(lookupValue.trim())}`);
       const invoiceData = await invoiceResponse.json();
 
       if (!invoiceResponse.ok || !invoiceData.invoice) {
@@ -84,7 +86,7 @@ export function ReturnLookup({ onInvoiceFound }: ReturnLookupProps) {
       }
 
       // Fetch already returned summary
-      const returnsResponse = await fetch(`${apiBaseUrl}/api/returns/summary?receipt_no=${lookupValue.trim()}`);
+      const returnsResponse = await apiRequest(`${apiBaseUrl}/api/returns/summary?receipt_no=${encodeURIComponent(lookupValue.trim())}`);
       const returnsData = await returnsResponse.json();
 
       if (!returnsResponse.ok) {
@@ -4,6 +4,8 @@ import { useReturnStore } from '@/store/returnStore';
 import { formatCurrency } from '@/lib/currency';
 import { toast } from 'react-hot-toast';
 import { SETTINGS } from '@/config/settings';
+import { useAppStore } from '@/store/appStore';
+import { apiRequest, getServerBaseUrl } from '@/utils/api';
 
 interface ReturnSummaryProps {
   onReturnProcessed?: (receiptNo: string) => void;
@@ -89,10 +91,9 @@ export function ReturnSummary({ onReturnProcessed }: ReturnSummaryProps) {
   // Handle manager PIN verification
   const handleManagerPinVerify = async (pin: string): Promise<boolean> => {
     try {
-      const apiBaseUrl = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8100';
-      const response = await fetch(`${apiBaseUrl}/api/auth/verify-pin`, {
+      const apiBaseUrl = getServerBaseUrl(useAppStore.getState().settings?.dataSource);
+      const response = await apiRequest(`${apiBaseUrl}/api/auth/verify-pin`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ pin })
       });
 
@@ -1,9 +1,15 @@
 import { db } from '../services/database';
+import { useAppStore } from '../store/appStore';
+import { saleQueueService } from '../services/saleQueueService';
+import { taxService } from '../services/taxService';
 
 export async function initializeDatabase(): Promise<void> {
   try {
     console.log('🚀 Initializing database...');
     
+    // Pick local-only or LAN-server mode before anything touches the tables
+    db.useDataSource(useAppStore.getState().settings?.dataSource);
+    
     // Initialize database service
     await db.initialize();
     
@@ -15,6 +21,12 @@ export async function initializeDatabase(): Promise<void> {
     console.log('🌱 Running seeds...');
     await db.runSeeds();
     
+    // Tax codes used by cart and receipt math
+    await taxService.load();
+    
+    // Replay sales finalized while the server was unreachable
+    saleQueueService.start();
+    
     console.log('✅ Database initialization completed successfully!');
   } catch (error) {
     console.error('❌ Database initialization failed:', error);
@@ -0,0 +1,21 @@
+-- Migration: Create tax_codes table and per-line tax codes
+CREATE TABLE IF NOT EXISTS tax_codes (
+    id INTEGER PRIMARY KEY,
+    code TEXT UNIQUE NOT NULL,                 -- matches products.tax_code
+    name TEXT NOT NULL,
+    rate DECIMAL(6,4) NOT NULL DEFAULT 0,      -- fraction, e.g. 0.18
+    kind TEXT NOT NULL DEFAULT 'STANDARD' CHECK(kind IN ('STANDARD','ZERO_RATED','EXEMPT')),
+    inclusive BOOLEAN NOT NULL DEFAULT false,  -- shelf price already contains the tax
+    active BOOLEAN NOT NULL DEFAULT true
+);
+
+INSERT INTO tax_codes (code, name, rate, kind, inclusive) VALUES
+    ('VAT', 'VAT', 0.15, 'STANDARD', false),
+    ('SSCL', 'SSCL', 0.025, 'STANDARD', false),
+    ('ZERO', 'Zero-rated', 0, 'ZERO_RATED', false),
+    ('EXEMPT', 'Exempt', 0, 'EXEMPT', false)
+ON CONFLICT (code) DO NOTHING;
+
+-- Tax code the line was taxed under (reports group by it)
+ALTER TABLE sale_lines ADD COLUMN IF NOT EXISTS tax_code TEXT;
+CREATE INDEX IF NOT EXISTS idx_sale_lines_tax_code ON sale_lines(tax_code);
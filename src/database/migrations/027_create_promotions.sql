@@ -0,0 +1,31 @@
+-- Migration: Create promotion tables and record the promotion applied to each sale line
+CREATE TABLE IF NOT EXISTS promotions (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(120) NOT NULL,
+    priority INTEGER NOT NULL DEFAULT 100,     -- lower number wins
+    active BOOLEAN NOT NULL DEFAULT true,
+    days_of_week VARCHAR(13),                  -- comma-separated 0..6, Sunday = 0
+    start_at TIMESTAMP,
+    end_at TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS promotion_rules (
+    id SERIAL PRIMARY KEY,
+    promotion_id INTEGER NOT NULL REFERENCES promotions(id) ON DELETE CASCADE,
+    type VARCHAR(30) NOT NULL CHECK (type IN ('BUY_X_GET_Y', 'MIX_AND_MATCH_BUNDLE_PRICE', 'CHEAPEST_FREE')),
+    params JSONB NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS promotion_scopes (
+    id SERIAL PRIMARY KEY,
+    promotion_id INTEGER NOT NULL REFERENCES promotions(id) ON DELETE CASCADE,
+    scope_type VARCHAR(20) NOT NULL CHECK (scope_type IN ('product', 'category', 'customer_tag')),
+    target_id INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotion_rules_promotion ON promotion_rules(promotion_id);
+CREATE INDEX IF NOT EXISTS idx_promotion_scopes_promotion ON promotion_scopes(promotion_id);
+
+-- Promotion that discounted the line (discount audit report)
+ALTER TABLE sale_lines ADD COLUMN IF NOT EXISTS applied_promotion_id INTEGER REFERENCES promotions(id);
+CREATE INDEX IF NOT EXISTS idx_sale_lines_promotion ON sale_lines(applied_promotion_id);
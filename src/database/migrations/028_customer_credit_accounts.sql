@@ -0,0 +1,20 @@
+-- Migration: Customer credit limits and the account ledger behind "charge to account"
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS credit_limit DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- Append-only: charges are positive, on-account payments negative
+CREATE TABLE IF NOT EXISTS customer_ledger (
+    id SERIAL PRIMARY KEY,
+    customer_id INTEGER NOT NULL REFERENCES customers(id),
+    type VARCHAR(10) NOT NULL DEFAULT 'CHARGE' CHECK (type IN ('CHARGE', 'PAYMENT')),
+    amount DECIMAL(12,2) NOT NULL,
+    invoice_id INTEGER REFERENCES invoices(id),
+    payment_id INTEGER,
+    method VARCHAR(10),                        -- payment method for PAYMENT entries
+    reference VARCHAR(64),
+    note TEXT,
+    approved_by INTEGER REFERENCES users(id),  -- manager who overrode the credit limit
+    created_by INTEGER REFERENCES users(id),
+    at TIMESTAMP DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_ledger_customer ON customer_ledger(customer_id, at);
@@ -0,0 +1,2 @@
+-- Migration: Customer email address, used by the POS server's email payment reminders
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS email VARCHAR(255);
@@ -0,0 +1,29 @@
+-- Migration: Purchase orders received through GRNs
+-- What an order has received is summed from the POSTED GRNs that reference it
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+    id SERIAL PRIMARY KEY,
+    po_no VARCHAR(32) UNIQUE,                  -- e.g. PO-2026-000042
+    supplier_id INTEGER NOT NULL REFERENCES suppliers(id),
+    status VARCHAR(10) NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'PARTIAL', 'CLOSED', 'CANCELLED')),
+    expected_date DATE,
+    note TEXT,
+    tolerance_pct DECIMAL(5,2) NOT NULL DEFAULT 0,  -- % of each line that may be over/under-received
+    sent_at TIMESTAMP,                         -- last emailed to the supplier
+    closed_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT now()
+);
+
+-- One line per product; receipts are matched to lines by product
+CREATE TABLE IF NOT EXISTS po_lines (
+    id SERIAL PRIMARY KEY,
+    po_id INTEGER NOT NULL REFERENCES purchase_orders(id),
+    product_id INTEGER NOT NULL REFERENCES products(id),
+    uom VARCHAR(16) NOT NULL DEFAULT 'pc',
+    qty DECIMAL(10,3) NOT NULL CHECK (qty > 0),
+    unit_cost DECIMAL(10,2) NOT NULL CHECK (unit_cost >= 0)
+);
+
+ALTER TABLE grn ADD COLUMN IF NOT EXISTS po_id INTEGER REFERENCES purchase_orders(id);
+
+CREATE INDEX IF NOT EXISTS idx_grn_po ON grn(po_id);
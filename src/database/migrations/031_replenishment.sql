@@ -0,0 +1,6 @@
+-- Migration: Replenishment inputs for reorder suggestions
+-- Suppliers without a lead time use the terminal's default; suggested quantities round up to whole packs
+
+ALTER TABLE suppliers ADD COLUMN IF NOT EXISTS lead_time_days INTEGER CHECK (lead_time_days >= 0);
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS pack_size DECIMAL(10,3) CHECK (pack_size > 0);
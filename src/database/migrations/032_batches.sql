@@ -0,0 +1,38 @@
+-- Migration: Batch and expiry tracking
+-- Posting a GRN creates one batch per line; sales draw on batches first-expiry-first-out and
+-- record the batches each line used so refunds return stock to the same batches
+
+CREATE TABLE IF NOT EXISTS batches (
+    id SERIAL PRIMARY KEY,
+    product_id INTEGER NOT NULL REFERENCES products(id),
+    batch_code VARCHAR(64),                    -- supplier batch/lot number from the GRN line
+    expiry DATE,
+    qty_on_hand DECIMAL(10,3) NOT NULL DEFAULT 0,
+    cost DECIMAL(10,2),
+    grn_id INTEGER REFERENCES grn(id),
+    received_at TIMESTAMP,
+    markdown_rule_id INTEGER REFERENCES discount_rules(id)  -- active clearance markdown, if any
+);
+
+CREATE INDEX IF NOT EXISTS idx_batches_product_expiry ON batches(product_id, expiry);
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+    id SERIAL PRIMARY KEY,
+    product_id INTEGER NOT NULL REFERENCES products(id),
+    batch_id INTEGER REFERENCES batches(id),
+    qty DECIMAL(10,3) NOT NULL,                -- negative when stock leaves the batch
+    reason VARCHAR(16),                        -- GRN, SALE, RETURN
+    at TIMESTAMP DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS sale_line_batches (
+    id SERIAL PRIMARY KEY,
+    sale_line_id INTEGER NOT NULL REFERENCES sale_lines(id) ON DELETE CASCADE,
+    batch_id INTEGER NOT NULL REFERENCES batches(id),
+    qty DECIMAL(10,3) NOT NULL,
+    qty_returned DECIMAL(10,3) NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_sale_line_batches_line ON sale_line_batches(sale_line_id);
+
+ALTER TABLE grn_lines ADD COLUMN IF NOT EXISTS batch_id INTEGER REFERENCES batches(id);
@@ -0,0 +1,47 @@
+-- Migration: Multi-store stock and inter-store transfers
+-- A store's stock is the sum of its inventory movements; each terminal belongs to one store.
+-- Transfers are requested, dispatched (stock leaves the sending store) and received (stock arrives)
+
+CREATE TABLE IF NOT EXISTS stores (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(120) NOT NULL,
+    code VARCHAR(16) UNIQUE
+);
+
+INSERT INTO stores (name, code)
+SELECT 'Main Store', 'MAIN'
+WHERE NOT EXISTS (SELECT 1 FROM stores);
+
+ALTER TABLE terminals ADD COLUMN IF NOT EXISTS store_id INTEGER REFERENCES stores(id);
+ALTER TABLE inventory_movements ADD COLUMN IF NOT EXISTS store_id INTEGER REFERENCES stores(id);
+ALTER TABLE grn ADD COLUMN IF NOT EXISTS store_id INTEGER REFERENCES stores(id);
+
+-- Everything recorded before stores existed belongs to the one shop there was
+UPDATE terminals SET store_id = (SELECT MIN(id) FROM stores) WHERE store_id IS NULL;
+UPDATE inventory_movements SET store_id = (SELECT MIN(id) FROM stores) WHERE store_id IS NULL;
+UPDATE grn SET store_id = (SELECT MIN(id) FROM stores) WHERE store_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_store ON inventory_movements(store_id, product_id);
+
+CREATE TABLE IF NOT EXISTS transfers (
+    id SERIAL PRIMARY KEY,
+    transfer_no VARCHAR(32) UNIQUE,
+    from_store INTEGER NOT NULL REFERENCES stores(id),
+    to_store INTEGER NOT NULL REFERENCES stores(id),
+    status VARCHAR(16) NOT NULL DEFAULT 'requested',  -- requested, in_transit, received
+    note VARCHAR(255),
+    dispatched_at TIMESTAMP,
+    received_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS transfer_lines (
+    id SERIAL PRIMARY KEY,
+    transfer_id INTEGER NOT NULL REFERENCES transfers(id) ON DELETE CASCADE,
+    product_id INTEGER NOT NULL REFERENCES products(id),
+    qty DECIMAL(10,3) NOT NULL,               -- requested
+    qty_dispatched DECIMAL(10,3),
+    qty_received DECIMAL(10,3)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transfer_lines_transfer ON transfer_lines(transfer_id);
@@ -0,0 +1,36 @@
+-- Migration: Units of measure
+-- Stock stays in each product's base unit. A product can also be sold or received in packs
+-- (a case of 24, a half-dozen) that convert to it; a pack may carry its own price and barcode.
+
+CREATE TABLE IF NOT EXISTS uoms (
+    id SERIAL PRIMARY KEY,
+    code VARCHAR(16) UNIQUE NOT NULL,
+    name VARCHAR(64) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS product_uom (
+    id SERIAL PRIMARY KEY,
+    product_id INTEGER NOT NULL REFERENCES products(id),
+    uom_id INTEGER NOT NULL REFERENCES uoms(id),
+    conv_to_base DECIMAL(12,6) NOT NULL,  -- base units in one pack
+    price_override DECIMAL(10,2),         -- retail price of one pack; otherwise base price x conv_to_base
+    barcode VARCHAR(64),
+    UNIQUE (product_id, uom_id)
+);
+
+ALTER TABLE product_uom ADD COLUMN IF NOT EXISTS barcode VARCHAR(64);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_uom_barcode ON product_uom(barcode) WHERE barcode IS NOT NULL;
+
+INSERT INTO uoms (code, name) VALUES
+    ('case', 'Case'),
+    ('hdz', 'Half-dozen'),
+    ('pack', 'Pack')
+ON CONFLICT (code) DO NOTHING;
+
+-- A line received in a pack keeps the pack; qty and unit_cost are per pack
+ALTER TABLE grn_lines ADD COLUMN IF NOT EXISTS uom VARCHAR(16) NOT NULL DEFAULT 'pc';
+ALTER TABLE grn_lines ADD COLUMN IF NOT EXISTS conv_to_base DECIMAL(12,6) NOT NULL DEFAULT 1;
+
+-- A line sold in a pack: qty stays in base units, uom_qty is how many packs were sold
+ALTER TABLE sale_lines ADD COLUMN IF NOT EXISTS uom VARCHAR(16);
+ALTER TABLE sale_lines ADD COLUMN IF NOT EXISTS uom_qty DECIMAL(12,3);
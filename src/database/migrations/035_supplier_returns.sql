@@ -0,0 +1,42 @@
+-- Migration: Supplier returns (debit notes)
+-- A return to vendor is drafted against a supplier, optionally against the GRN the goods came in on.
+-- Posting takes the goods out of stock; credits received from the supplier settle the debit note.
+
+CREATE TABLE IF NOT EXISTS supplier_returns (
+    id SERIAL PRIMARY KEY,
+    return_no VARCHAR(32) UNIQUE,
+    supplier_id INTEGER NOT NULL REFERENCES suppliers(id),
+    grn_id INTEGER REFERENCES grn(id),
+    store_id INTEGER REFERENCES stores(id),
+    status VARCHAR(16) NOT NULL DEFAULT 'draft',  -- draft, posted, credited
+    note VARCHAR(255),
+    total DECIMAL(12,2) NOT NULL DEFAULT 0,
+    credit_received DECIMAL(12,2) NOT NULL DEFAULT 0,
+    posted_at TIMESTAMP,
+    credited_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS supplier_return_lines (
+    id SERIAL PRIMARY KEY,
+    supplier_return_id INTEGER NOT NULL REFERENCES supplier_returns(id) ON DELETE CASCADE,
+    product_id INTEGER NOT NULL REFERENCES products(id),
+    uom VARCHAR(16) NOT NULL DEFAULT 'pc',
+    qty DECIMAL(10,3) NOT NULL,               -- base units
+    unit_cost DECIMAL(12,4) NOT NULL,         -- per base unit
+    reason VARCHAR(16),                       -- damaged, expired, recalled, other
+    batch_id INTEGER REFERENCES batches(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_return_lines_return ON supplier_return_lines(supplier_return_id);
+
+CREATE TABLE IF NOT EXISTS supplier_return_credits (
+    id SERIAL PRIMARY KEY,
+    supplier_return_id INTEGER NOT NULL REFERENCES supplier_returns(id),
+    amount DECIMAL(12,2) NOT NULL,
+    ref VARCHAR(64),                          -- supplier's credit note number
+    note VARCHAR(255),
+    received_at TIMESTAMP DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_return_credits_return ON supplier_return_credits(supplier_return_id);
@@ -0,0 +1,19 @@
+-- Migration: Landed cost
+-- A GRN's other charges (freight, duty) are spread over its lines by value, weight or quantity
+-- when it is posted; every product cost change is kept in cost_history with its reason.
+
+ALTER TABLE grn ADD COLUMN IF NOT EXISTS landed_cost_method VARCHAR(8);  -- value, weight, qty
+
+ALTER TABLE grn_lines ADD COLUMN IF NOT EXISTS weight_kg DECIMAL(10,3);  -- weight of the whole line
+ALTER TABLE grn_lines ADD COLUMN IF NOT EXISTS landed_cost DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS cost_history (
+    id SERIAL PRIMARY KEY,
+    product_id INTEGER NOT NULL REFERENCES products(id),
+    old_cost DECIMAL(12,4),
+    new_cost DECIMAL(12,4) NOT NULL,
+    reason VARCHAR(255),
+    at TIMESTAMP DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cost_history_product ON cost_history(product_id, at);
@@ -0,0 +1,10 @@
+-- Migration: Stock costing
+-- Stock is costed at moving average or FIFO by replaying receipts, adjustments, returns and sales;
+-- receipts carry their landed cost per base unit and sale and return lines the cost they went out
+-- (or came back) at, for gross margin reporting.
+
+ALTER TABLE inventory_movements ADD COLUMN IF NOT EXISTS unit_cost DECIMAL(12,4);
+ALTER TABLE sale_lines ADD COLUMN IF NOT EXISTS unit_cost DECIMAL(12,4);
+ALTER TABLE return_lines ADD COLUMN IF NOT EXISTS unit_cost DECIMAL(12,4);
+
+CREATE INDEX IF NOT EXISTS idx_sale_lines_product ON sale_lines(product_id);
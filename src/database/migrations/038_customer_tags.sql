@@ -0,0 +1,4 @@
+-- Migration: Customer tags
+-- Tag ids a customer carries, as a JSON array, matched by promotion scopes of type customer_tag.
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS tag_ids TEXT;
@@ -0,0 +1,93 @@
+/**
+ * Cash counting by denomination for the opening float, safe drops and the closing count
+ */
+
+import type { CashCountLine, CashCountSummary, CashDenominations, ShiftCashCount } from '@/types';
+import { roundCurrency } from './currency';
+
+// Sri Lankan rupee notes and coins in circulation
+export const DEFAULT_DENOMINATIONS: CashDenominations = {
+  notes: [5000, 2000, 1000, 500, 100, 50, 20],
+  coins: [10, 5, 2, 1]
+};
+
+/**
+ * Denominations to count, largest first; falls back to the defaults when none are configured
+ */
+export function denominationList(config?: CashDenominations | null): number[] {
+  const values = [...(config?.notes ?? []), ...(config?.coins ?? [])].filter(v => Number.isFinite(v) && v > 0);
+  const list = values.length > 0 ? values : [...DEFAULT_DENOMINATIONS.notes, ...DEFAULT_DENOMINATIONS.coins];
+  return [...new Set(list)].sort((a, b) => b - a);
+}
+
+export function countTotal(lines: CashCountLine[]): number {
+  return roundCurrency(lines.reduce((sum, line) => sum + line.denomination * line.quantity, 0));
+}
+
+/**
+ * Merge repeated denominations and drop empty ones; quantities must be whole and not negative
+ */
+export function normalizeCount(lines: CashCountLine[]): CashCountLine[] {
+  const quantities = new Map<number, number>();
+  for (const line of lines) {
+    if (!(line.denomination > 0)) {
+      throw new Error(`Invalid denomination: ${line.denomination}`);
+    }
+    if (!Number.isInteger(line.quantity) || line.quantity < 0) {
+      throw new Error(`Count for ${line.denomination} must be a whole number of zero or more`);
+    }
+    quantities.set(line.denomination, (quantities.get(line.denomination) ?? 0) + line.quantity);
+  }
+  return [...quantities.entries()]
+    .filter(([, quantity]) => quantity > 0)
+    .sort(([a], [b]) => b - a)
+    .map(([denomination, quantity]) => ({ denomination, quantity }));
+}
+
+/**
+ * Per-denomination view of a shift's counts. Sales cash is not tracked by denomination, so each
+ * line shows what the drawer gained in that denomination (counted - opening + dropped); together
+ * the lines should come to the expected takings, and the shortfall is the shift's variance.
+ * Returns null when no count was taken by denomination.
+ */
+export function summarizeCashCounts(
+  counts: ShiftCashCount[],
+  cashDrawer: { expectedCash: number }
+): CashCountSummary | null {
+  if (counts.length === 0) return null;
+
+  const ofKind = (kind: ShiftCashCount['kind']) => counts.filter(c => c.kind === kind);
+  const opening = ofKind('OPENING');
+  const dropped = ofKind('DROP');
+  const closing = ofKind('CLOSING');
+  const quantity = (rows: ShiftCashCount[], denomination: number) =>
+    rows.filter(r => r.denomination === denomination).reduce((sum, r) => sum + r.quantity, 0);
+
+  const denominations = [...new Set(counts.map(c => c.denomination))].sort((a, b) => b - a);
+  const lines = denominations.map(denomination => {
+    const line = {
+      denomination,
+      opening: quantity(opening, denomination),
+      dropped: quantity(dropped, denomination),
+      counted: quantity(closing, denomination)
+    };
+    return {
+      ...line,
+      countedAmount: roundCurrency(line.counted * denomination),
+      difference: roundCurrency((line.counted - line.opening + line.dropped) * denomination)
+    };
+  });
+
+  const openingTotal = opening.length > 0 ? countTotal(opening) : null;
+  const droppedTotal = countTotal(dropped);
+  const countedTotal = closing.length > 0 ? countTotal(closing) : null;
+
+  return {
+    lines,
+    openingTotal,
+    droppedTotal,
+    countedTotal,
+    expectedTakings: roundCurrency(cashDrawer.expectedCash - (openingTotal ?? 0) + droppedTotal),
+    variance: countedTotal === null ? null : roundCurrency(countedTotal - cashDrawer.expectedCash)
+  };
+}
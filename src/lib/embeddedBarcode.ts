@@ -0,0 +1,140 @@
+/**
+ * Weight and price embedded barcodes: variable-measure EAN-13 labels printed by scales
+ */
+
+import type { AppSettings, EmbeddedBarcodeScheme, EmbeddedBarcodeSettings } from '@/types';
+
+export const DEFAULT_WEIGHT_SCHEME: EmbeddedBarcodeScheme = {
+  prefix: '20-29',
+  itemCodeLength: 5,
+  kind: 'weight',
+  decimals: 3,
+  valueCheckDigit: false
+};
+
+export const DEFAULT_PRICE_SCHEME: EmbeddedBarcodeScheme = {
+  prefix: '20-29',
+  itemCodeLength: 5,
+  kind: 'price',
+  decimals: 2,
+  valueCheckDigit: false
+};
+
+export interface EmbeddedBarcode {
+  scheme: EmbeddedBarcodeScheme;
+  itemCode: string;
+  weightKg?: number;
+  price?: number;
+}
+
+export class EmbeddedBarcodeError extends Error {
+  constructor(message: string, public code: 'CHECK_DIGIT' | 'VALUE_CHECK_DIGIT') {
+    super(message);
+    this.name = 'EmbeddedBarcodeError';
+  }
+}
+
+/**
+ * The schemes in force for these device settings: none when scaleMode is 'off', the store's
+ * own schemes when set, else the default scheme for the mode.
+ */
+export function getEmbeddedBarcodeSettings(devices: AppSettings['devices'] | undefined): EmbeddedBarcodeSettings {
+  if (!devices || devices.scaleMode === 'off') {
+    return { schemes: [], validateCheckDigit: true };
+  }
+  return devices.embeddedBarcodes ?? defaultEmbeddedBarcodeSettings(devices.scaleMode);
+}
+
+export function defaultEmbeddedBarcodeSettings(mode: AppSettings['devices']['scaleMode']): EmbeddedBarcodeSettings {
+  return {
+    schemes: [mode === 'price_embedded' ? { ...DEFAULT_PRICE_SCHEME } : { ...DEFAULT_WEIGHT_SCHEME }],
+    validateCheckDigit: true
+  };
+}
+
+/** Problems that make a scheme unusable, for the settings form */
+export function validateScheme(scheme: EmbeddedBarcodeScheme): string | null {
+  const range = parsePrefix(scheme.prefix);
+  if (!range) return 'Prefix must be digits, or a range such as 20-29';
+  const valueLength = 12 - range.length - scheme.itemCodeLength - (scheme.valueCheckDigit ? 1 : 0);
+  if (scheme.itemCodeLength < 1) return 'Item code needs at least one digit';
+  if (valueLength < 4) return 'Prefix and item code leave fewer than 4 digits for the value';
+  if (scheme.valueCheckDigit && valueLength !== 4 && valueLength !== 5) {
+    return 'A value check digit needs a 4 or 5 digit value';
+  }
+  if (scheme.decimals < 0 || scheme.decimals > valueLength) return 'Decimals must fit in the value';
+  return null;
+}
+
+/**
+ * Parse a scanned code against the schemes. Returns null for codes no scheme claims, and
+ * throws EmbeddedBarcodeError when a claimed code fails its EAN-13 or value check digit.
+ */
+export function parseEmbeddedBarcode(code: string, settings: EmbeddedBarcodeSettings): EmbeddedBarcode | null {
+  if (!/^\d{13}$/.test(code)) return null;
+
+  const scheme = settings.schemes.find(candidate => matchesPrefix(code, candidate.prefix) && !validateScheme(candidate));
+  if (!scheme) return null;
+
+  if (settings.validateCheckDigit && ean13CheckDigit(code.slice(0, 12)) !== Number(code[12])) {
+    throw new EmbeddedBarcodeError(`Barcode ${code} has a wrong check digit`, 'CHECK_DIGIT');
+  }
+
+  const prefixLength = parsePrefix(scheme.prefix)!.length;
+  const itemCode = code.slice(prefixLength, prefixLength + scheme.itemCodeLength);
+  const valueStart = prefixLength + scheme.itemCodeLength;
+  const valueDigits = code.slice(valueStart + (scheme.valueCheckDigit ? 1 : 0), 12);
+
+  if (scheme.valueCheckDigit) {
+    const expected = valueDigits.length === 4 ? priceCheckDigit4(valueDigits) : priceCheckDigit5(valueDigits);
+    if (expected !== Number(code[valueStart])) {
+      throw new EmbeddedBarcodeError(`Barcode ${code} has a wrong ${scheme.kind} check digit`, 'VALUE_CHECK_DIGIT');
+    }
+  }
+
+  const value = Number(valueDigits) / 10 ** scheme.decimals;
+  return scheme.kind === 'weight'
+    ? { scheme, itemCode, weightKg: value }
+    : { scheme, itemCode, price: value };
+}
+
+export function ean13CheckDigit(first12: string): number {
+  const sum = Array.from(first12).reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+// GS1 weighting factor tables for price/weight check digits
+const WEIGHT_2_MINUS = [0, 2, 4, 6, 8, 9, 1, 3, 5, 7];
+const WEIGHT_3 = [0, 3, 6, 9, 2, 5, 8, 1, 4, 7];
+const WEIGHT_5_PLUS = [0, 5, 1, 6, 2, 7, 3, 8, 4, 9];
+const WEIGHT_5_MINUS = [0, 5, 9, 4, 8, 3, 7, 2, 6, 1];
+
+/** GS1 check digit for a 4-digit price or weight (factors 2-, 2-, 3, 5-) */
+export function priceCheckDigit4(value: string): number {
+  const [a, b, c, d] = Array.from(value, Number);
+  const sum = WEIGHT_2_MINUS[a] + WEIGHT_2_MINUS[b] + WEIGHT_3[c] + WEIGHT_5_MINUS[d];
+  return (sum * 3) % 10;
+}
+
+/** GS1 check digit for a 5-digit price or weight (factors 5+, 2-, 5-, 5+, 2-) */
+export function priceCheckDigit5(value: string): number {
+  const [a, b, c, d, e] = Array.from(value, Number);
+  const sum = WEIGHT_5_PLUS[a] + WEIGHT_2_MINUS[b] + WEIGHT_5_MINUS[c] + WEIGHT_5_PLUS[d] + WEIGHT_2_MINUS[e];
+  // The check digit is the one whose 5- product brings the sum up to a multiple of ten
+  return WEIGHT_5_MINUS.indexOf((10 - (sum % 10)) % 10);
+}
+
+function parsePrefix(prefix: string): { from: number; to: number; length: number } | null {
+  const match = prefix.trim().match(/^(\d{1,3})(?:-(\d{1,3}))?$/);
+  if (!match) return null;
+  const [, from, to = from] = match;
+  if (from.length !== to.length || Number(to) < Number(from)) return null;
+  return { from: Number(from), to: Number(to), length: from.length };
+}
+
+function matchesPrefix(code: string, prefix: string): boolean {
+  const range = parsePrefix(prefix);
+  if (!range) return false;
+  const head = Number(code.slice(0, range.length));
+  return head >= range.from && head <= range.to;
+}
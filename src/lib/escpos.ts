@@ -0,0 +1,263 @@
+/**
+ * ESC/POS command encoder for thermal receipt printers.
+ * Latin text goes out as code page WPC1252 bytes. Thermal printers carry no Sinhala or Tamil
+ * fonts, so lines in those scripts are drawn by a TextRasterizer and sent as raster images.
+ */
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+/** Code page selected by ESC t 16 */
+const CODE_PAGE_WPC1252 = 16;
+
+/** CP1252 bytes 0x80-0x9F; the rest of 0xA0-0xFF matches Latin-1 */
+const CP1252_HIGH: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+
+/** Sinhala and Tamil blocks; text containing them is printed as an image */
+const COMPLEX_SCRIPT = /[\u0B80-\u0BFF\u0D80-\u0DFF]/;
+
+export type EscPosAlign = 'left' | 'center' | 'right';
+
+/** 1 bit per dot, rows packed MSB first and padded to whole bytes; 1 = black */
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export interface RasterTextOptions {
+  /** Printable width in dots */
+  widthDots: number;
+  align: EscPosAlign;
+  bold: boolean;
+  /** Text size multiplier, as set with size() */
+  scale: number;
+}
+
+/**
+ * Draws one line of text, or a left/right pair on one line, as a bitmap the full printable
+ * width. Returns null when no renderer is available, in which case the text is sent as bytes.
+ */
+export type TextRasterizer = (left: string, right: string | undefined, options: RasterTextOptions) => RasterImage | null;
+
+export interface EscPosEncoderOptions {
+  /** Characters per line in the default font: 32 on 58mm paper, 48 on 80mm */
+  columns: number;
+  /** Printable width in dots: 384 on 58mm paper, 576 on 80mm */
+  widthDots: number;
+  rasterize?: TextRasterizer | null;
+}
+
+export function needsRaster(text: string): boolean {
+  return COMPLEX_SCRIPT.test(text);
+}
+
+/** Encode text as WPC1252; anything the code page lacks becomes '?' */
+export function encodeText(text: string): number[] {
+  const bytes: number[] = [];
+  for (const char of text.normalize('NFC')) {
+    const code = char.codePointAt(0)!;
+    if (code === LF || (code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) {
+      bytes.push(code);
+    } else if (CP1252_HIGH[char] !== undefined) {
+      bytes.push(CP1252_HIGH[char]);
+    } else {
+      bytes.push(0x3f);
+    }
+  }
+  return bytes;
+}
+
+/** Left text and right text on one line of `columns` characters; the left side is cut short if needed */
+export function padColumns(left: string, right: string, columns: number): string {
+  const room = columns - right.length - 1;
+  if (room <= 0) return right.slice(-columns);
+  const head = left.length > room ? left.slice(0, room) : left;
+  return head + ' '.repeat(columns - head.length - right.length) + right;
+}
+
+export class EscPosEncoder {
+  private bytes: number[] = [];
+  private currentAlign: EscPosAlign = 'left';
+  private isBold = false;
+  private scale = 1;
+
+  constructor(private options: EscPosEncoderOptions) {}
+
+  get columns(): number {
+    return Math.floor(this.options.columns / this.scale);
+  }
+
+  /** ESC @, then select the WPC1252 code page */
+  initialize(): this {
+    this.currentAlign = 'left';
+    this.isBold = false;
+    this.scale = 1;
+    return this.raw([ESC, 0x40, ESC, 0x74, CODE_PAGE_WPC1252]);
+  }
+
+  align(align: EscPosAlign): this {
+    this.currentAlign = align;
+    return this.raw([ESC, 0x61, align === 'center' ? 1 : align === 'right' ? 2 : 0]);
+  }
+
+  bold(on = true): this {
+    this.isBold = on;
+    return this.raw([ESC, 0x45, on ? 1 : 0]);
+  }
+
+  underline(on = true): this {
+    return this.raw([ESC, 0x2d, on ? 1 : 0]);
+  }
+
+  /** Character size multiplier 1-8 in each direction (GS !) */
+  size(width = 1, height = width): this {
+    const w = Math.min(8, Math.max(1, Math.round(width)));
+    const h = Math.min(8, Math.max(1, Math.round(height)));
+    this.scale = w;
+    return this.raw([GS, 0x21, ((w - 1) << 4) | (h - 1)]);
+  }
+
+  /** Text without a line feed; complex-script text belongs in line() or row() */
+  text(text: string): this {
+    return this.raw(encodeText(text));
+  }
+
+  line(text = ''): this {
+    if (needsRaster(text) && this.rasterLine(text, undefined)) return this;
+    return this.raw([...encodeText(text), LF]);
+  }
+
+  /** Left and right text on the same line, e.g. a label and an amount */
+  row(left: string, right: string): this {
+    if (needsRaster(left + right) && this.rasterLine(left, right)) return this;
+    return this.raw([...encodeText(padColumns(left, right, this.columns)), LF]);
+  }
+
+  rule(char = '-'): this {
+    return this.raw([...encodeText(char.repeat(this.columns)), LF]);
+  }
+
+  feed(lines = 1): this {
+    return this.raw([ESC, 0x64, Math.min(255, Math.max(0, lines))]);
+  }
+
+  /** CODE128 (code set B) with the digits printed below */
+  barcode(data: string, options: { height?: number; moduleWidth?: number } = {}): this {
+    const payload = encodeText(`{B${data}`).slice(0, 255);
+    return this.raw([
+      GS, 0x68, options.height ?? 64,
+      GS, 0x77, options.moduleWidth ?? 2,
+      GS, 0x48, 2,
+      GS, 0x6b, 73, payload.length, ...payload
+    ]);
+  }
+
+  /** Model 2 QR code; `size` is the module size in dots (1-16) */
+  qrcode(data: string, options: { size?: number; errorLevel?: 'L' | 'M' | 'Q' | 'H' } = {}): this {
+    const payload = Array.from(new TextEncoder().encode(data));
+    const storeLength = payload.length + 3;
+    const level = { L: 48, M: 49, Q: 50, H: 51 }[options.errorLevel ?? 'M'];
+    return this.raw([
+      GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0,
+      GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, Math.min(16, Math.max(1, options.size ?? 6)),
+      GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, level,
+      GS, 0x28, 0x6b, storeLength & 0xff, storeLength >> 8, 0x31, 0x50, 0x30, ...payload,
+      GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30
+    ]);
+  }
+
+  /** Print a bitmap (GS v 0) */
+  image(image: RasterImage): this {
+    const widthBytes = Math.ceil(image.width / 8);
+    return this
+      .raw([GS, 0x76, 0x30, 0, widthBytes & 0xff, widthBytes >> 8, image.height & 0xff, image.height >> 8])
+      .raw(image.data);
+  }
+
+  /** Feed `feed` lines, then a partial cut (GS V 66) */
+  cut(feed = 3): this {
+    return this.raw([GS, 0x56, 66, Math.min(255, Math.max(0, feed))]);
+  }
+
+  /** Cash drawer kick (ESC p) on connector pin 2, or pin 5 */
+  pulse(pin: 2 | 5 = 2, onMs = 50, offMs = 500): this {
+    return this.raw([ESC, 0x70, pin === 5 ? 1 : 0, Math.min(255, Math.round(onMs / 2)), Math.min(255, Math.round(offMs / 2))]);
+  }
+
+  raw(bytes: ArrayLike<number>): this {
+    for (let i = 0; i < bytes.length; i++) this.bytes.push(bytes[i]);
+    return this;
+  }
+
+  encode(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+
+  private rasterLine(left: string, right: string | undefined): boolean {
+    const image = this.options.rasterize?.(left, right, {
+      widthDots: this.options.widthDots,
+      align: this.currentAlign,
+      bold: this.isBold,
+      scale: this.scale
+    });
+    if (!image) return false;
+    this.image(image);
+    return true;
+  }
+}
+
+const BASE_FONT_PX = 22;
+
+/**
+ * Rasterizer backed by an HTML canvas, using the system's Sinhala/Tamil fonts.
+ * Returns null outside the browser.
+ */
+export const canvasRasterizer: TextRasterizer = (left, right, options) => {
+  if (typeof document === 'undefined') return null;
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  const fontPx = BASE_FONT_PX * options.scale;
+  const font = `${options.bold ? 'bold ' : ''}${fontPx}px "Noto Sans Sinhala", "Noto Sans Tamil", "Iskoola Pota", "Latha", sans-serif`;
+  const width = Math.ceil(options.widthDots / 8) * 8;
+  const height = Math.ceil(fontPx * 1.5);
+
+  canvas.width = width;
+  canvas.height = height;
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, width, height);
+  context.fillStyle = '#000';
+  context.font = font;
+  context.textBaseline = 'middle';
+
+  if (right !== undefined) {
+    context.textAlign = 'right';
+    context.fillText(right, width, height / 2);
+    const rightWidth = context.measureText(right).width;
+    context.textAlign = 'left';
+    context.fillText(left, 0, height / 2, Math.max(0, width - rightWidth - fontPx / 2));
+  } else {
+    context.textAlign = options.align;
+    const x = options.align === 'center' ? width / 2 : options.align === 'right' ? width : 0;
+    context.fillText(left, x, height / 2, width);
+  }
+
+  const pixels = context.getImageData(0, 0, width, height).data;
+  const data = new Uint8Array((width / 8) * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      const luminance = 0.299 * pixels[offset] + 0.587 * pixels[offset + 1] + 0.114 * pixels[offset + 2];
+      if (luminance < 128) data[y * (width / 8) + (x >> 3)] |= 0x80 >> (x & 7);
+    }
+  }
+  return { width, height, data };
+};
@@ -0,0 +1,141 @@
+/**
+ * Landed cost: a GRN's other charges (freight, duty, clearing) are spread over its lines so
+ * batches and product costs carry what the goods cost to bring in, not just the invoice price
+ */
+
+import { roundCurrency } from '@/lib/currency';
+import { toBaseQty } from '@/lib/uom';
+import type { GRNLine, LandedCostMethod } from '@/types';
+
+export type CostUpdatePolicy = 'none' | 'average' | 'latest';
+
+export type AllocatableLine = Pick<GRNLine, 'qty' | 'unit_cost' | 'conv_to_base' | 'weight_kg'> & {
+  unit?: string | null; // the product's base unit; kg and g lines weigh their quantity
+};
+
+export interface MarginImpactLine extends AllocatableLine {
+  product_id: number;
+  price?: number | null; // retail price of one base unit
+  cost?: number | null; // the product's cost before this GRN
+}
+
+export interface MarginImpact {
+  share: number;
+  landedCost: number;
+  currentCost: number | null;
+  newCost: number | null;
+  price: number | null;
+  marginBefore: number | null;
+  marginAfter: number | null;
+}
+
+export const LANDED_COST_METHOD_LABELS: Record<LandedCostMethod, string> = {
+  value: 'By value',
+  weight: 'By weight',
+  qty: 'By quantity'
+};
+
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+const baseQtyOf = (line: AllocatableLine) => toBaseQty(line.qty, { conv_to_base: line.conv_to_base ?? 1 });
+
+/** Weight in kg a line counts for: the weight entered on it, else its quantity when stocked by kg or g */
+export function lineWeight(line: AllocatableLine): number {
+  if (line.weight_kg !== null && line.weight_kg !== undefined) return line.weight_kg;
+  if (line.unit === 'kg') return baseQtyOf(line);
+  if (line.unit === 'g') return baseQtyOf(line) / 1000;
+  return 0;
+}
+
+function allocationBasis(line: AllocatableLine, method: LandedCostMethod): number {
+  switch (method) {
+    case 'weight':
+      return lineWeight(line);
+    case 'qty':
+      return baseQtyOf(line);
+    default:
+      return line.qty * line.unit_cost;
+  }
+}
+
+/**
+ * Each line's share of `charges`, in line order. Shares are rounded to cents and the rounding
+ * remainder goes to the largest line, so they always add back up to the charges.
+ * Throws when no line has anything to allocate by, such as weights never entered.
+ */
+export function allocateLandedCost(lines: AllocatableLine[], charges: number, method: LandedCostMethod = 'value'): number[] {
+  if (!(charges > 0) || lines.length === 0) return lines.map(() => 0);
+
+  const bases = lines.map(line => Math.max(allocationBasis(line, method), 0));
+  const totalBasis = bases.reduce((sum, basis) => sum + basis, 0);
+  if (!(totalBasis > 0)) {
+    throw new Error(`No line has a ${method === 'qty' ? 'quantity' : method} to allocate the other charges by`);
+  }
+
+  const shares = bases.map(basis => roundCurrency((charges * basis) / totalBasis));
+  const remainder = roundCurrency(charges - shares.reduce((sum, share) => sum + share, 0));
+  if (remainder !== 0) {
+    const largest = bases.indexOf(Math.max(...bases));
+    shares[largest] = roundCurrency(shares[largest] + remainder);
+  }
+  return shares;
+}
+
+/** Cost of one base unit of a line once its share of the charges is added */
+export function landedUnitCost(line: AllocatableLine, share: number): number {
+  const baseQty = baseQtyOf(line);
+  if (!(baseQty > 0)) return round4(line.unit_cost / (line.conv_to_base ?? 1));
+  return round4((line.qty * line.unit_cost + share) / baseQty);
+}
+
+/** Product cost after receiving at `receivedCost`; 'average' is the mean of the old and received cost */
+export function nextProductCost(currentCost: number | null | undefined, receivedCost: number, policy: CostUpdatePolicy): number | null {
+  const current = currentCost ?? null;
+  switch (policy) {
+    case 'latest':
+      return receivedCost;
+    case 'average':
+      return current === null ? receivedCost : round4((current + receivedCost) / 2);
+    default:
+      return current;
+  }
+}
+
+/** Gross margin as a percentage of price, to one decimal; null without a price or cost */
+export function marginPct(price: number | null | undefined, cost: number | null | undefined): number | null {
+  if (!price || cost === null || cost === undefined) return null;
+  return Math.round(((price - cost) / price) * 1000) / 10;
+}
+
+/**
+ * What posting would do to each line's product: its share of the charges, landed cost, and the
+ * product cost and margin before and after. A product on several lines is costed in line order,
+ * as posting does.
+ */
+export function marginImpact(
+  lines: MarginImpactLine[],
+  charges: number,
+  method: LandedCostMethod,
+  policy: CostUpdatePolicy
+): MarginImpact[] {
+  const shares = allocateLandedCost(lines, charges, method);
+  const costs = new Map<number, number | null>();
+
+  return lines.map((line, index) => {
+    const currentCost = costs.has(line.product_id) ? costs.get(line.product_id)! : line.cost ?? null;
+    const landedCost = landedUnitCost(line, shares[index]);
+    const newCost = nextProductCost(currentCost, landedCost, policy);
+    costs.set(line.product_id, newCost);
+
+    const price = line.price ?? null;
+    return {
+      share: shares[index],
+      landedCost,
+      currentCost,
+      newCost,
+      price,
+      marginBefore: marginPct(price, currentCost),
+      marginAfter: marginPct(price, newCost)
+    };
+  });
+}
@@ -0,0 +1,38 @@
+/**
+ * PIN hashes for the local users table, used when there is no POS server. The server hashes
+ * its own PINs (server/src/auth.ts); here Web Crypto's PBKDF2 stands in for scrypt, stored as
+ * pbkdf2$<iterations>$<salt hex>$<hash hex> so a PIN is never kept in this browser as entered.
+ */
+
+const ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const KEY_BITS = 256;
+const HEX = /^(?:[0-9a-f]{2})+$/;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (text: string) => Uint8Array.from(text.match(/../g) ?? [], pair => parseInt(pair, 16));
+
+async function derive(pin: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, KEY_BITS);
+  return new Uint8Array(bits);
+}
+
+export async function hashPin(pin: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(pin, salt, ITERATIONS);
+  return ['pbkdf2', ITERATIONS, toHex(salt), toHex(hash)].join('$');
+}
+
+/** Check a PIN against a stored hash; malformed hashes never match */
+export async function verifyPinHash(pin: string, stored: string | null | undefined): Promise<boolean> {
+  const [scheme, iterations, salt, hash] = (stored ?? '').split('$');
+  if (scheme !== 'pbkdf2' || !(Number(iterations) > 0) || !HEX.test(salt ?? '') || !HEX.test(hash ?? '')) return false;
+  const expected = fromHex(hash);
+  const derived = await derive(pin, fromHex(salt), Number(iterations));
+  // Compare every byte so the time taken does not give away how much matched
+  let diff = derived.length ^ expected.length;
+  for (let i = 0; i < expected.length; i++) diff |= derived[i] ^ expected[i];
+  return diff === 0;
+}
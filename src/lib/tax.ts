@@ -0,0 +1,139 @@
+/**
+ * Tax engine: per-line tax by tax code, inclusive or exclusive of the shelf price
+ */
+
+import type { TaxBreakdownLine, TaxCode } from '@/types';
+import { SETTINGS } from '@/config/settings';
+import { roundCurrency } from './currency';
+
+// Products without a tax code are taxed under this code
+export const DEFAULT_TAX_CODE = 'VAT';
+
+export const DEFAULT_TAX_CODES: TaxCode[] = [
+  { code: 'VAT', name: 'VAT', rate: SETTINGS.TAX_RATE, kind: 'STANDARD', inclusive: false, active: true },
+  { code: 'SSCL', name: 'SSCL', rate: 0.025, kind: 'STANDARD', inclusive: false, active: true },
+  { code: 'ZERO', name: 'Zero-rated', rate: 0, kind: 'ZERO_RATED', inclusive: false, active: true },
+  { code: 'EXEMPT', name: 'Exempt', rate: 0, kind: 'EXEMPT', inclusive: false, active: true }
+];
+
+const NO_TAX: TaxCode = { code: 'EXEMPT', name: 'Exempt', rate: 0, kind: 'EXEMPT', inclusive: false, active: true };
+
+export interface TaxableLine {
+  amount: number;             // qty * unit price - line discount, at shelf price
+  taxCode?: string | null;
+}
+
+export interface LineTax {
+  code: string;
+  taxable: number;            // net of tax
+  tax: number;
+  total: number;              // what the customer pays for the line
+}
+
+export interface TaxResult {
+  lines: LineTax[];
+  breakdown: TaxBreakdownLine[];
+  taxTotal: number;
+  exclusiveTax: number;       // tax added on top of shelf prices
+  total: number;
+}
+
+/**
+ * Find the tax code for a product; unknown or empty codes fall back to the default code
+ */
+export function resolveTaxCode(code: string | null | undefined, codes: TaxCode[]): TaxCode {
+  const wanted = (code || DEFAULT_TAX_CODE).trim().toUpperCase();
+  return codes.find(c => c.active && c.code.toUpperCase() === wanted)
+    || codes.find(c => c.active && c.code.toUpperCase() === DEFAULT_TAX_CODE)
+    || NO_TAX;
+}
+
+/**
+ * Tax for one line amount (after discounts) under a tax code
+ */
+export function computeLineTax(amount: number, taxCode: TaxCode): LineTax {
+  const rate = taxCode.kind === 'STANDARD' ? taxCode.rate : 0;
+
+  if (taxCode.inclusive) {
+    const tax = roundCurrency(amount - amount / (1 + rate));
+    return { code: taxCode.code, taxable: roundCurrency(amount - tax), tax, total: roundCurrency(amount) };
+  }
+
+  const tax = roundCurrency(amount * rate);
+  return { code: taxCode.code, taxable: roundCurrency(amount), tax, total: roundCurrency(amount + tax) };
+}
+
+/**
+ * Spread a cart-level discount over lines in proportion to their amounts.
+ * The last line absorbs the rounding remainder so the parts add up exactly.
+ */
+export function allocateDiscount(amounts: number[], discount: number): number[] {
+  const base = amounts.reduce((sum, amount) => sum + amount, 0);
+  if (discount <= 0 || base <= 0) return amounts.map(() => 0);
+
+  let remaining = roundCurrency(Math.min(discount, base));
+  return amounts.map((amount, index) => {
+    if (index === amounts.length - 1) return remaining;
+    const share = roundCurrency(discount * (amount / base));
+    remaining = roundCurrency(remaining - share);
+    return share;
+  });
+}
+
+/**
+ * Receipt/report label for a breakdown line, e.g. "VAT 18% (incl.)"
+ */
+export function formatTaxLabel(line: Pick<TaxBreakdownLine, 'name' | 'rate' | 'inclusive'>): string {
+  const percent = Math.round(line.rate * 10000) / 100;
+  return `${line.name} ${percent}%${line.inclusive ? ' (incl.)' : ''}`;
+}
+
+/**
+ * Group line taxes by code for receipts and reports
+ */
+export function buildTaxBreakdown(
+  entries: Array<{ code: string | null | undefined; taxable: number; tax: number }>,
+  codes: TaxCode[]
+): TaxBreakdownLine[] {
+  const groups = new Map<string, TaxBreakdownLine>();
+  for (const entry of entries) {
+    const taxCode = resolveTaxCode(entry.code, codes);
+    const group = groups.get(taxCode.code) || {
+      code: taxCode.code,
+      name: taxCode.name,
+      rate: taxCode.kind === 'STANDARD' ? taxCode.rate : 0,
+      inclusive: taxCode.inclusive,
+      taxable: 0,
+      tax: 0
+    };
+    group.taxable = roundCurrency(group.taxable + Number(entry.taxable || 0));
+    group.tax = roundCurrency(group.tax + Number(entry.tax || 0));
+    groups.set(taxCode.code, group);
+  }
+  return [...groups.values()].sort((a, b) => b.rate - a.rate || a.code.localeCompare(b.code));
+}
+
+/**
+ * Tax a whole cart: the cart-level discount is allocated to lines first, then each
+ * line is taxed under its own code
+ */
+export function computeTaxes(lines: TaxableLine[], codes: TaxCode[], cartDiscount: number = 0): TaxResult {
+  const discounts = allocateDiscount(lines.map(line => line.amount), cartDiscount);
+  const lineTaxes = lines.map((line, index) =>
+    computeLineTax(roundCurrency(line.amount - discounts[index]), resolveTaxCode(line.taxCode, codes))
+  );
+
+  const taxTotal = roundCurrency(lineTaxes.reduce((sum, line) => sum + line.tax, 0));
+  const total = roundCurrency(lineTaxes.reduce((sum, line) => sum + line.total, 0));
+  const exclusiveTax = roundCurrency(lineTaxes
+    .filter(line => !resolveTaxCode(line.code, codes).inclusive)
+    .reduce((sum, line) => sum + line.tax, 0));
+
+  return {
+    lines: lineTaxes,
+    breakdown: buildTaxBreakdown(lineTaxes, codes),
+    taxTotal,
+    exclusiveTax,
+    total
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Units of measure: products are stocked in their base unit and may be sold or received in packs
+ * (a case of 24, a half-dozen, a 500 g pack) that convert to it
+ */
+
+import { roundCurrency } from '@/lib/currency';
+import type { ProductUom } from '@/types';
+
+export type PackUnit = Pick<ProductUom, 'code' | 'name' | 'conv_to_base' | 'price_override'>;
+
+export type PackPriceTier = 'Retail' | 'Wholesale' | 'Credit' | 'Other';
+
+// Units whose symbol is written straight after the quantity, as in 2pc or 1.250kg
+const BASE_UNITS = new Set(['pc', 'kg', 'g', 'l', 'ml', 'm']);
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+/** Quantity in the product's base unit for `qty` of `pack`; the base unit itself when no pack */
+export function toBaseQty(qty: number, pack?: Pick<PackUnit, 'conv_to_base'> | null): number {
+  return round3(qty * (pack?.conv_to_base ?? 1));
+}
+
+/**
+ * Price of one pack at a tier. A pack's price_override is its retail price; every other tier,
+ * and retail without an override, is the tier's base price times the pack size.
+ */
+export function packPrice(basePrice: number, pack: PackUnit | null | undefined, tier: PackPriceTier = 'Retail'): number {
+  if (!pack) return basePrice;
+  if (tier === 'Retail' && pack.price_override !== null && pack.price_override !== undefined) {
+    return pack.price_override;
+  }
+  return roundCurrency(basePrice * pack.conv_to_base);
+}
+
+/** Cost of one base unit when `unitCost` is what one received pack cost */
+export function baseUnitCost(unitCost: number, convToBase = 1): number {
+  return Math.round((unitCost / convToBase) * 10000) / 10000;
+}
+
+/** Unit as printed after a quantity: base unit symbols run on, pack names are spaced ("2 case") */
+export function unitSuffix(unit: string | null | undefined): string {
+  if (!unit) return '';
+  return BASE_UNITS.has(unit) ? unit : ` ${unit}`;
+}
@@ -1,6 +1,7 @@
 /**
  * Audit Page
- * View and export audit logs with comprehensive filtering
+ * View and export audit logs with comprehensive filtering; with a POS server, verify the
+ * hash chain, export signed bundles and see which entries have been archived
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
@@ -17,7 +18,11 @@ import {
   AlertTriangle,
   Shield,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  ShieldCheck,
+  ShieldAlert,
+  FileLock,
+  Archive
 } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import { cn } from '@/utils/cn';
@@ -25,6 +30,8 @@ import {
   auditService, 
   AuditLog, 
   AuditFilters,
+  AuditArchive,
+  AuditChainVerification,
   AUDIT_ACTIONS 
 } from '@/services/auditService';
 import { csvService } from '@/services/csvService';
@@ -32,6 +39,17 @@ import { authService } from '@/services/authService';
 import { useAppStore } from '@/store/appStore';
 import RequirePerm from '@/components/Security/RequirePerm';
 
+const chainBreakLabel = (reason: AuditChainVerification['breaks'][number]['reason']) => {
+  switch (reason) {
+    case 'LINK_BROKEN':
+      return 'does not follow the entry before it; entries were removed or inserted';
+    case 'CONTENT_CHANGED':
+      return 'no longer matches its hash; the entry was edited';
+    case 'UNHASHED':
+      return 'was written without a hash';
+  }
+};
+
 const Audit: React.FC = () => {
   const navigate = useNavigate();
   const { currentUser } = useAppStore();
@@ -55,6 +73,13 @@ const Audit: React.FC = () => {
     offset: 0
   });
 
+  const serverMode = auditService.isServerMode();
+  const [verification, setVerification] = useState<AuditChainVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [exportingBundle, setExportingBundle] = useState(false);
+  const [archives, setArchives] = useState<AuditArchive[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+
   // Authentication check
   useEffect(() => {
     if (!currentUser) {
@@ -86,6 +111,12 @@ const Audit: React.FC = () => {
       setHasMore(auditData.hasMore);
       setStats(auditStats);
       setPage(newPage);
+
+      if (serverMode) {
+        const archiveData = await auditService.listArchives();
+        setArchives(archiveData.archives);
+        setRetentionDays(archiveData.retentionDays);
+      }
       
       // Log audit access
       await auditService.log({
@@ -99,7 +130,7 @@ const Audit: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  }, [filters]);
+  }, [filters, serverMode]);
 
   // Load data on mount and filter changes
   useEffect(() => {
@@ -139,6 +170,68 @@ const Audit: React.FC = () => {
     }
   };
 
+  // Verify the server's hash chain
+  const handleVerify = async () => {
+    setVerifying(true);
+    try {
+      const result = await auditService.verifyChain();
+      setVerification(result);
+
+      await auditService.log({
+        action: AUDIT_ACTIONS.AUDIT_VERIFY,
+        payload: {
+          ok: result.ok,
+          checked: result.checked,
+          head_hash: result.head_hash,
+          breaks: result.breaks.map(b => ({ id: b.id, reason: b.reason }))
+        }
+      });
+
+      if (result.ok) {
+        toast.success(`Audit chain intact: ${result.checked} entries verified`);
+      } else {
+        toast.error(`Audit chain broken at ${result.breaks.length + result.archives.filter(a => !a.ok).length} point(s)`);
+      }
+    } catch (error) {
+      console.error('Failed to verify audit chain:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to verify audit chain');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  // Download a signed bundle of the filtered date range
+  const handleExportBundle = async () => {
+    if (!authService.hasPermission('AUDIT_EXPORT')) {
+      toast.error('Access denied: Audit export requires admin permissions');
+      return;
+    }
+
+    setExportingBundle(true);
+    try {
+      const bundle = await auditService.exportSignedBundle({ dateFrom: filters.dateFrom, dateTo: filters.dateTo });
+
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit_bundle_${bundle.generated_at.replace(/[:.]/g, '-')}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      toast.success(`Exported ${bundle.entries.length} signed audit records (key ${bundle.fingerprint.slice(0, 12)})`);
+    } catch (error) {
+      console.error('Failed to export signed audit bundle:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export signed audit bundle');
+    } finally {
+      setExportingBundle(false);
+    }
+  };
+
+  const brokenIds = new Set(verification?.breaks.map(b => b.id) ?? []);
+
   // Format date
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString('en-US', {
@@ -218,6 +311,29 @@ const Audit: React.FC = () => {
                   <Download className="h-4 w-4" />
                   {exporting ? 'Exporting...' : 'Export CSV'}
                 </button>
+
+                {serverMode && (
+                  <>
+                    <button
+                      onClick={handleExportBundle}
+                      disabled={exportingBundle || !authService.hasPermission('AUDIT_EXPORT')}
+                      className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 text-white rounded-lg transition-colors disabled:cursor-not-allowed"
+                      title={!authService.hasPermission('AUDIT_EXPORT') ? 'Requires admin permission' : 'Signed JSON of the entries in the selected dates'}
+                    >
+                      <FileLock className="h-4 w-4" />
+                      {exportingBundle ? 'Signing...' : 'Signed Bundle'}
+                    </button>
+
+                    <button
+                      onClick={handleVerify}
+                      disabled={verifying}
+                      className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      <ShieldCheck className="h-4 w-4" />
+                      {verifying ? 'Verifying...' : 'Verify Chain'}
+                    </button>
+                  </>
+                )}
                 
                 <button
                   onClick={() => loadData(page)}
@@ -282,6 +398,84 @@ const Audit: React.FC = () => {
             </div>
           </div>
 
+          {/* Chain verification */}
+          {verification && (
+            <div className={cn(
+              "rounded-xl shadow-lg border p-6",
+              verification.ok
+                ? "bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800"
+                : "bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800"
+            )}>
+              <div className="flex items-start gap-3">
+                {verification.ok
+                  ? <ShieldCheck className="h-6 w-6 text-green-600 dark:text-green-400 flex-shrink-0" />
+                  : <ShieldAlert className="h-6 w-6 text-red-600 dark:text-red-400 flex-shrink-0" />}
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold text-gray-900 dark:text-white">
+                    {verification.ok ? 'Audit chain intact' : 'Audit chain broken'}
+                  </p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {verification.checked} live entries
+                    {verification.first_id !== null && ` (#${verification.first_id}–#${verification.last_id})`}
+                    {verification.archives.length > 0 && ` and ${verification.archives.length} archive file(s)`} checked
+                    {' '}at {formatDate(verification.verified_at)}. Head hash{' '}
+                    <code className="font-mono text-xs">{verification.head_hash.slice(0, 16)}…</code>
+                  </p>
+
+                  {verification.breaks.length > 0 && (
+                    <ul className="mt-3 space-y-1 text-sm">
+                      {verification.breaks.map(b => (
+                        <li key={`${b.id}-${b.reason}`} className="text-red-700 dark:text-red-300">
+                          Entry #{b.id}: {chainBreakLabel(b.reason)}
+                          {b.previous_id !== null && ` (after #${b.previous_id})`}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {verification.archives.filter(a => !a.ok).length > 0 && (
+                    <ul className="mt-3 space-y-1 text-sm">
+                      {verification.archives.filter(a => !a.ok).map(a => (
+                        <li key={a.file} className="text-red-700 dark:text-red-300">
+                          Archive {a.file}: {a.error}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Archives */}
+          {serverMode && retentionDays !== null && (
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 p-6">
+              <div className="flex items-center gap-2 mb-2">
+                <Archive className="h-5 w-5 text-gray-500" />
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Archives</h3>
+              </div>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                {retentionDays > 0
+                  ? `Entries older than ${retentionDays} days are moved to signed archive files on the server instead of being deleted.`
+                  : 'Archiving is turned off; every entry stays in the live log.'}
+              </p>
+              {archives.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No entries have been archived yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                  {archives.map(archive => (
+                    <li key={archive.id} className="py-2 flex flex-wrap items-center justify-between gap-2">
+                      <span className="font-mono text-xs text-gray-700 dark:text-gray-300">{archive.file}</span>
+                      <span className="text-gray-600 dark:text-gray-400">
+                        #{archive.first_id}–#{archive.last_id} · {archive.entries} entries · {formatDate(`${archive.created_at.replace(' ', 'T')}Z`)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
           {/* Filters */}
           {showFilters && (
             <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 p-6">
@@ -411,11 +605,20 @@ const Audit: React.FC = () => {
                       <th className="px-4 py-3 text-left text-sm font-medium text-gray-900 dark:text-white">Entity</th>
                       <th className="px-4 py-3 text-left text-sm font-medium text-gray-900 dark:text-white">Terminal</th>
                       <th className="px-4 py-3 text-left text-sm font-medium text-gray-900 dark:text-white">Details</th>
+                      {serverMode && (
+                        <th className="px-4 py-3 text-left text-sm font-medium text-gray-900 dark:text-white">Hash</th>
+                      )}
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
                     {logs.map((log) => (
-                      <tr key={log.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                      <tr
+                        key={log.id}
+                        className={cn(
+                          "hover:bg-gray-50 dark:hover:bg-gray-700",
+                          brokenIds.has(log.id) && "bg-red-50 dark:bg-red-900/20"
+                        )}
+                      >
                         <td className="px-4 py-3 text-sm text-gray-900 dark:text-white">
                           {formatDate(log.at)}
                         </td>
@@ -454,6 +657,20 @@ const Audit: React.FC = () => {
                             </details>
                           )}
                         </td>
+                        {serverMode && (
+                          <td className="px-4 py-3 text-xs font-mono text-gray-500 dark:text-gray-400">
+                            {log.hash ? (
+                              <span
+                                className={cn(brokenIds.has(log.id) && "text-red-600 dark:text-red-400")}
+                                title={`hash ${log.hash}\nprev ${log.prev_hash ?? ''}`}
+                              >
+                                {log.hash.slice(0, 10)}
+                              </span>
+                            ) : (
+                              <span className="text-red-600 dark:text-red-400">unhashed</span>
+                            )}
+                          </td>
+                        )}
                       </tr>
                     ))}
                   </tbody>
@@ -24,6 +24,12 @@ import {
 import { useAppStore } from '@/store/appStore';
 import { backupService, BackupLog, BackupProgress } from '@/services/backupService';
 import { schedulerService, ScheduleInfo } from '@/services/schedulerService';
+import {
+  serverBackupService,
+  ServerBackup,
+  ServerBackupSchedule,
+  ServerBackupVerifyResult
+} from '@/services/serverBackupService';
 import { csvService } from '@/services/csvService';
 import { cryptoService } from '@/services/cryptoService';
 import { LocalBackupAdapter } from '@/adapters/backup/LocalBackupAdapter';
@@ -31,7 +37,7 @@ import { DriveBackupAdapter } from '@/adapters/backup/DriveBackupAdapter';
 import { OneDriveBackupAdapter } from '@/adapters/backup/OneDriveBackupAdapter';
 import { S3BackupAdapter } from '@/adapters/backup/S3BackupAdapter';
 
-type SectionId = 'provider' | 'schedule' | 'retention' | 'actions' | 'logs';
+type SectionId = 'provider' | 'schedule' | 'retention' | 'actions' | 'logs' | 'server';
 
 type ProviderType = 'local' | 'google_drive' | 'onedrive' | 's3' | 'backblaze';
 
@@ -70,6 +76,15 @@ export function Backups() {
   
   // Logs
   const [logs, setLogs] = useState<BackupLog[]>([]);
+
+  // Server backups (LAN-server mode)
+  const [serverBackups, setServerBackups] = useState<ServerBackup[]>([]);
+  const [serverSchedule, setServerSchedule] = useState<ServerBackupSchedule | null>(null);
+  const [serverEnabled, setServerEnabled] = useState(false);
+  const [serverDailyTime, setServerDailyTime] = useState('02:00');
+  const [serverKeep, setServerKeep] = useState(7);
+  const [serverBusy, setServerBusy] = useState(false);
+  const [verifyResults, setVerifyResults] = useState<Record<string, ServerBackupVerifyResult>>({});
   const [logFilters, setLogFilters] = useState({
     fromDate: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), // Last 7 days
     toDate: new Date(),
@@ -86,6 +101,10 @@ export function Backups() {
     loadLogs();
   }, []);
 
+  useEffect(() => {
+    if (activeSection === 'server') loadServerBackups();
+  }, [activeSection]);
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -135,6 +154,21 @@ export function Backups() {
     }
   };
 
+  const loadServerBackups = async () => {
+    try {
+      const { backups, schedule } = await serverBackupService.list();
+      setServerBackups(backups);
+      setServerSchedule(schedule);
+      setServerEnabled(schedule.enabled);
+      setServerDailyTime(schedule.daily_time);
+      setServerKeep(schedule.keep);
+    } catch (error) {
+      console.error('Failed to load server backups:', error);
+      setServerBackups([]);
+      setServerSchedule(null);
+    }
+  };
+
   const loadLogs = () => {
     try {
       const allLogs = backupService.getLogs({
@@ -354,6 +388,44 @@ export function Backups() {
     }
   };
 
+  const handleSaveServerSchedule = async () => {
+    try {
+      setServerSchedule(await serverBackupService.updateSchedule({
+        enabled: serverEnabled,
+        daily_time: serverDailyTime,
+        keep: serverKeep
+      }));
+      alert('Server backup schedule saved successfully');
+    } catch (error) {
+      alert(`Failed to save schedule: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleServerBackupNow = async () => {
+    setServerBusy(true);
+    try {
+      const backup = await serverBackupService.runNow();
+      await loadServerBackups();
+      alert(`Server backup ${backup.file} created successfully`);
+    } catch (error) {
+      alert(`Server backup failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setServerBusy(false);
+    }
+  };
+
+  const handleVerifyServerBackup = async (file: string) => {
+    setServerBusy(true);
+    try {
+      const result = await serverBackupService.verify(file);
+      setVerifyResults(prev => ({ ...prev, [file]: result }));
+    } catch (error) {
+      alert(`Verify failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setServerBusy(false);
+    }
+  };
+
   const handleExportLogs = () => {
     csvService.exportBackupLogsCSV(logs, logFilters);
   };
@@ -947,12 +1019,159 @@ export function Backups() {
     </div>
   );
 
+  const renderServerSection = () => (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Server Backups</h3>
+
+        {serverSchedule && !serverSchedule.passphrase_set && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6 flex items-center text-sm text-red-800">
+            <XCircle className="w-5 h-5 text-red-600 mr-2" />
+            BACKUP_PASSPHRASE is not set on the POS server; server backups will fail until it is.
+          </div>
+        )}
+
+        {serverSchedule && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+            <div className="flex items-center mb-2">
+              <Clock className="w-5 h-5 text-blue-600 mr-2" />
+              <span className="font-medium text-blue-900">Current Schedule</span>
+            </div>
+            <div className="text-sm text-blue-800 space-y-1">
+              <div>Status: {serverSchedule.running ? 'Backing up now' : serverSchedule.enabled ? 'Enabled' : 'Disabled'}</div>
+              <div>Next run: {serverSchedule.next_run_at ? new Date(serverSchedule.next_run_at).toLocaleString() : 'Not scheduled'}</div>
+              <div>
+                Last run: {serverSchedule.last_run_at ? new Date(`${serverSchedule.last_run_at.replace(' ', 'T')}Z`).toLocaleString() : 'Never'}
+                {serverSchedule.last_error && <span className="text-red-700"> - {serverSchedule.last_error}</span>}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={serverEnabled}
+                onChange={(e) => setServerEnabled(e.target.checked)}
+                className="mr-2"
+              />
+              <span className="text-sm font-medium text-gray-700">Back up the server daily</span>
+            </label>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Daily Backup Time</label>
+            <input
+              type="time"
+              value={serverDailyTime}
+              onChange={(e) => setServerDailyTime(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">Server local time</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Keep Backups</label>
+            <input
+              type="number"
+              value={serverKeep}
+              onChange={(e) => setServerKeep(Math.min(90, Math.max(1, parseInt(e.target.value) || 7)))}
+              min="1"
+              max="90"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            onClick={handleServerBackupNow}
+            disabled={serverBusy || serverSchedule?.running}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Play className="w-4 h-4 mr-2" />
+            Backup Server Now
+          </button>
+          <button
+            onClick={handleSaveServerSchedule}
+            className="flex items-center px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+          >
+            <Clock className="w-4 h-4 mr-2" />
+            Save Schedule
+          </button>
+        </div>
+      </div>
+
+      <div className="border border-gray-200 rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Backup</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Created</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Size</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Schema</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Verified</th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {serverBackups.map(backup => {
+              const result = verifyResults[backup.file];
+              return (
+                <tr key={backup.file}>
+                  <td className="px-4 py-3 text-sm font-mono text-gray-900">{backup.file}</td>
+                  <td className="px-4 py-3 text-sm text-gray-900">{new Date(backup.created_at).toLocaleString()}</td>
+                  <td className="px-4 py-3 text-sm text-right text-gray-900">{(backup.bytes / 1024).toFixed(0)} KB</td>
+                  <td className="px-4 py-3 text-sm text-gray-900">{backup.manifest?.schema_version ?? '-'}</td>
+                  <td className="px-4 py-3 text-sm">
+                    {result ? (
+                      result.ok ? (
+                        <span className="flex items-center text-green-700"><CheckCircle className="w-4 h-4 mr-1" />OK</span>
+                      ) : (
+                        <span className="flex items-center text-red-700" title={result.error}><XCircle className="w-4 h-4 mr-1" />{result.error}</span>
+                      )
+                    ) : '-'}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right">
+                    <button
+                      onClick={() => handleVerifyServerBackup(backup.file)}
+                      disabled={serverBusy || !backup.manifest}
+                      className="text-blue-600 hover:text-blue-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Verify
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {serverBackups.length === 0 && (
+          <div className="text-center py-8 text-gray-500 text-sm">No server backups yet</div>
+        )}
+      </div>
+
+      <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800">
+        <div className="flex items-center mb-2">
+          <AlertTriangle className="w-5 h-5 text-yellow-600 mr-2" />
+          <span className="font-medium text-yellow-900">Restoring</span>
+        </div>
+        Stop the POS server, then run <code className="font-mono">npm run backup -- restore &lt;backup&gt;</code> in
+        the server folder. The current database is kept beside the restored one.
+      </div>
+    </div>
+  );
+
   const sections = [
     { id: 'provider' as SectionId, label: 'Provider', icon: Shield },
     { id: 'schedule' as SectionId, label: 'Schedule', icon: Clock },
     { id: 'retention' as SectionId, label: 'Retention', icon: RotateCcw },
     { id: 'actions' as SectionId, label: 'Actions', icon: Play },
     { id: 'logs' as SectionId, label: 'Logs', icon: FileText },
+    // Backups of the POS server itself, only in LAN-server mode
+    ...(settings?.dataSource?.mode === 'server' ? [{ id: 'server' as SectionId, label: 'Server', icon: Database }] : []),
   ];
 
   return (
@@ -992,6 +1211,7 @@ export function Backups() {
           {activeSection === 'retention' && renderRetentionSection()}
           {activeSection === 'actions' && renderActionsSection()}
           {activeSection === 'logs' && renderLogsSection()}
+          {activeSection === 'server' && renderServerSection()}
         </div>
       </div>
 
@@ -1,10 +1,13 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Plus, Search, Download, Upload, RefreshCw, Edit3, Eye, EyeOff, Trash2 } from 'lucide-react';
+import { Plus, Search, Download, Upload, RefreshCw, Edit3, Eye, EyeOff, Trash2, Wallet } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import { dataService, Customer } from '@/services/dataService';
 import { csvService } from '@/services/csvService';
+import { customerAccountService, CustomerAccount } from '@/services/customerAccountService';
+import { formatCurrency } from '@/lib/currency';
 import { CustomerModal } from '@/components/Customers/CustomerModal';
 import { CustomerCSVModal } from '@/components/Customers/CustomerCSVModal';
+import { CustomerPaymentModal } from '@/components/Customers/CustomerPaymentModal';
 
 interface FilterState {
   search: string;
@@ -24,6 +27,7 @@ interface CustomerStats {
 
 interface CustomerWithSalesCount extends Customer {
   sales_count?: number;
+  account?: CustomerAccount; // unset when the POS server is unreachable
 }
 
 export function Customers() {
@@ -42,6 +46,7 @@ export function Customers() {
   const [showCustomerModal, setShowCustomerModal] = useState(false);
   const [showImportModal, setShowImportModal] = useState(false);
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [payingCustomer, setPayingCustomer] = useState<CustomerWithSalesCount | null>(null);
 
   // Refs
   const searchInputRef = useRef<HTMLInputElement>(null);
@@ -86,11 +91,12 @@ export function Customers() {
         active: filters.status_filter === 'all' ? undefined : filters.status_filter === 'active'
       });
 
-      // Get sales counts for each customer
+      // Get sales counts and account balances for each customer
       const customersWithCounts = await Promise.all(
         customersData.map(async (customer) => ({
           ...customer,
-          sales_count: await dataService.getSalesCountByCustomer(customer.id)
+          sales_count: await dataService.getSalesCountByCustomer(customer.id),
+          account: await customerAccountService.getAccount(customer.id).catch(() => undefined)
         }))
       );
 
@@ -132,6 +138,11 @@ export function Customers() {
     setEditingCustomer(null);
   };
 
+  const handlePaymentSaved = () => {
+    loadData();
+    setPayingCustomer(null);
+  };
+
   const handleImportComplete = () => {
     loadData();
     setShowImportModal(false);
@@ -331,6 +342,9 @@ export function Customers() {
                   <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     #Sales
                   </th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Balance
+                  </th>
                   <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Actions
                   </th>
@@ -339,14 +353,14 @@ export function Customers() {
               <tbody className="bg-white divide-y divide-gray-200">
                 {loading ? (
                   <tr>
-                    <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                    <td colSpan={8} className="px-4 py-8 text-center text-gray-500">
                       <RefreshCw className="w-6 h-6 animate-spin mx-auto mb-2" />
                       Loading customers...
                     </td>
                   </tr>
                 ) : customers.length === 0 ? (
                   <tr>
-                    <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                    <td colSpan={8} className="px-4 py-8 text-center text-gray-500">
                       No customers found matching your filters.
                     </td>
                   </tr>
@@ -383,6 +397,20 @@ export function Customers() {
                           {customer.sales_count || 0}
                         </span>
                       </td>
+                      <td className="px-4 py-3 text-sm text-right">
+                        {customer.account ? (
+                          <div>
+                            <div className={customer.account.balance > customer.account.credit_limit ? 'font-medium text-red-600' : 'text-gray-900'}>
+                              {formatCurrency(customer.account.balance)}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              Limit {formatCurrency(customer.account.credit_limit)}
+                            </div>
+                          </div>
+                        ) : (
+                          <span className="text-gray-400">-</span>
+                        )}
+                      </td>
                       <td className="px-4 py-3 text-sm text-gray-900">
                         <div className="flex items-center space-x-2">
                           <button
@@ -392,6 +420,14 @@ export function Customers() {
                           >
                             <Edit3 className="w-4 h-4" />
                           </button>
+                          <button
+                            onClick={() => setPayingCustomer(customer)}
+                            className="text-green-600 hover:text-green-900 disabled:opacity-30"
+                            title="Receive Payment"
+                            disabled={!customer.account}
+                          >
+                            <Wallet className="w-4 h-4" />
+                          </button>
                           <button
                             onClick={() => handleToggleActive(customer)}
                             className={`${customer.active ? 'text-red-600 hover:text-red-900' : 'text-green-600 hover:text-green-900'}`}
@@ -429,6 +465,15 @@ export function Customers() {
         />
       )}
 
+      {payingCustomer?.account && (
+        <CustomerPaymentModal
+          customer={payingCustomer}
+          account={payingCustomer.account}
+          onClose={() => setPayingCustomer(null)}
+          onSaved={handlePaymentSaved}
+        />
+      )}
+
       {showImportModal && (
         <CustomerCSVModal
           onClose={() => setShowImportModal(false)}
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
 import { Input } from '../components/ui/Input';
@@ -19,11 +19,24 @@ import {
   Printer,
   Tag,
   Calendar,
-  AlertTriangle
+  AlertTriangle,
+  ClipboardList,
+  Undo2
 } from 'lucide-react';
 import { grnService } from '../services/grnService';
+import { uomService } from '../services/uomService';
+import { baseUnitCost, toBaseQty } from '../lib/uom';
+import { roundCurrency } from '../lib/currency';
+import { CostUpdatePolicy, LANDED_COST_METHOD_LABELS } from '../lib/landedCost';
+import { LandedCostPreviewModal } from '../components/GRN/LandedCostPreviewModal';
 import { dataService } from '../services/dataService';
-import { GRN, GRNLine, GRNStatus, Product, Supplier } from '../types';
+import {
+  purchaseOrderService,
+  PurchaseOrderDetails,
+  ReceiptCheckLine
+} from '../services/purchaseOrderService';
+import { ServiceError } from '../utils/api';
+import { GRN, GRNLine, GRNStatus, LandedCostMethod, POLineReceiptStatus, Product, ProductUom, Supplier } from '../types';
 import { useTranslation } from '../i18n';
 import { useSettingsStore } from '../store/settingsStore';
 
@@ -34,14 +47,20 @@ interface GRNLineWithProduct extends GRNLine {
 export default function GRNReceive() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const t = useTranslation();
   const { settings } = useSettingsStore();
   
   const [grn, setGrn] = useState<GRN | null>(null);
   const [supplier, setSupplier] = useState<Supplier | null>(null);
   const [lines, setLines] = useState<GRNLineWithProduct[]>([]);
+  const [purchaseOrder, setPurchaseOrder] = useState<PurchaseOrderDetails | null>(null);
+  // The server's check of the unposted lines against the PO, by product id
+  const [receiptPreview, setReceiptPreview] = useState<Map<number, ReceiptCheckLine>>(new Map());
   const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
+  // Packs each line's product can be received in, by product id
+  const [packs, setPacks] = useState<Record<number, ProductUom[]>>({});
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -60,11 +79,14 @@ export default function GRNReceive() {
   const [total, setTotal] = useState(0);
   
   // Settings
-  const [costUpdatePolicy, setCostUpdatePolicy] = useState<'none' | 'average' | 'latest'>('latest');
+  const [costUpdatePolicy, setCostUpdatePolicy] = useState<CostUpdatePolicy>('latest');
+  const [landedCostMethod, setLandedCostMethod] = useState<LandedCostMethod>('value');
+  const [showCostPreview, setShowCostPreview] = useState(false);
   const [labelLanguage, setLabelLanguage] = useState<'EN' | 'SI' | 'TA'>('EN');
   
   const searchInputRef = useRef<HTMLInputElement>(null);
   const isNewGRN = id === 'new';
+  const poParam = searchParams.get('po');
 
   // Load data on component mount
   useEffect(() => {
@@ -79,6 +101,45 @@ export default function GRNReceive() {
     setTotal(newTotal);
   }, [lines, tax, other]);
 
+  // Ask the server where the quantities keyed in so far would leave the PO
+  useEffect(() => {
+    const po = purchaseOrder?.purchase_order;
+    if (!po || grn?.status === 'POSTED' || lines.length === 0) {
+      setReceiptPreview(new Map());
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      purchaseOrderService
+        .previewReceipt(po.id, lines.map(line => ({
+          productId: line.product_id,
+          qty: toBaseQty(line.qty, { conv_to_base: line.conv_to_base ?? 1 })
+        })))
+        .then(preview => {
+          if (!cancelled) setReceiptPreview(new Map(preview.map(check => [check.product_id, check])));
+        })
+        .catch(err => console.error('Error checking the GRN against the PO:', err));
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [purchaseOrder, grn?.status, lines]);
+
+  // Load the packs of products as they are added to the GRN
+  useEffect(() => {
+    const missing = [...new Set(lines.map(line => line.product_id))].filter(productId => !(productId in packs));
+    if (missing.length === 0) return;
+    Promise.all(missing.map(productId =>
+      uomService.listForProduct(productId).catch(() => [] as ProductUom[])
+    )).then(results => {
+      setPacks(prev => ({
+        ...prev,
+        ...Object.fromEntries(missing.map((productId, i) => [productId, results[i]]))
+      }));
+    });
+  }, [lines]);
+
   const loadInitialData = async () => {
     try {
       setLoading(true);
@@ -93,21 +154,39 @@ export default function GRNReceive() {
       setProducts(productsData as any);
       
       if (isNewGRN) {
-        // Create new GRN
+        // Create new GRN, pre-filled with what is still outstanding when receiving against a PO
+        const po = poParam ? await purchaseOrderService.get(parseInt(poParam)) : null;
         const newGRN: GRN = {
-          supplier_id: 0,
+          supplier_id: po?.purchase_order.supplier_id ?? 0,
           grn_no: '',
           datetime: new Date().toISOString(),
           received_by: null,
-          note: '',
+          note: po ? `Against ${po.purchase_order.po_no}` : '',
           status: 'OPEN',
+          po_id: po?.purchase_order.id ?? null,
           subtotal: 0,
           tax: 0,
           other: 0,
           total: 0
         };
         setGrn(newGRN);
-        setLines([]);
+        setPurchaseOrder(po);
+        setSelectedSupplier(po ? po.purchase_order.supplier_id : null);
+        setNote(newGRN.note || '');
+        setLines(po
+          ? po.lines
+            .filter(line => line.qty_outstanding > 0)
+            .map(line => ({
+              product_id: line.product_id,
+              qty: line.qty_outstanding,
+              unit_cost: line.unit_cost,
+              mrp: null,
+              batch_no: null,
+              expiry_date: null,
+              line_total: line.qty_outstanding * line.unit_cost,
+              product: { id: String(line.product_id), name: line.product_name ?? '', sku: line.sku ?? '' } as Product
+            }))
+          : []);
       } else {
         // Load existing GRN
         const grnData = await grnService.getGRN(parseInt(id!));
@@ -115,7 +194,11 @@ export default function GRNReceive() {
         setSupplier(grnData.supplier);
         setSelectedSupplier(grnData.header.supplier_id);
         setNote(grnData.header.note || '');
+        setTax(Number(grnData.header.tax) || 0);
+        setOther(Number(grnData.header.other) || 0);
+        setLandedCostMethod(grnData.header.landed_cost_method ?? 'value');
         setLines(grnData.lines);
+        setPurchaseOrder(grnData.header.po_id ? await purchaseOrderService.get(grnData.header.po_id) : null);
       }
     } catch (err) {
       setError('Failed to load GRN data');
@@ -125,7 +208,7 @@ export default function GRNReceive() {
     }
   };
 
-  const handleSaveDraft = async () => {
+  const handleSaveDraft = async (): Promise<number | undefined> => {
     try {
       setSaving(true);
       setError(null);
@@ -135,7 +218,8 @@ export default function GRNReceive() {
         const grnId = await grnService.createGRN({
           supplier_id: selectedSupplier!,
           received_by: null,
-          note: note
+          note: note,
+          po_id: purchaseOrder?.purchase_order.id ?? null
         });
         
         // Save lines
@@ -145,8 +229,18 @@ export default function GRNReceive() {
             grn_id: grnId
           });
         }
+        await grnService.updateGRNHeader({
+          id: grnId,
+          subtotal,
+          tax,
+          other,
+          total,
+          landed_cost_method: landedCostMethod
+        });
         
         navigate(`/grn/${grnId}`);
+        setSuccess('GRN saved successfully');
+        return grnId;
       } else {
         // Update existing GRN
         await grnService.updateGRNHeader({
@@ -156,7 +250,8 @@ export default function GRNReceive() {
           subtotal,
           tax,
           other,
-          total
+          total,
+          landed_cost_method: landedCostMethod
         });
         
         // Update lines
@@ -166,6 +261,7 @@ export default function GRNReceive() {
       }
       
       setSuccess('GRN saved successfully');
+      return grn?.id;
     } catch (err) {
       setError('Failed to save GRN');
       console.error('Error saving GRN:', err);
@@ -180,20 +276,40 @@ export default function GRNReceive() {
       return;
     }
     
+    const po = purchaseOrder?.purchase_order;
+    if (po && linesOutsideTolerance.length > 0) {
+      setError(`Over-receipt beyond the ${po.tolerance_pct}% tolerance of ${po.po_no}. Reduce the highlighted quantities.`);
+      return;
+    }
+    
     try {
       setSaving(true);
       setError(null);
+      setShowCostPreview(false);
       
       // Save first
-      await handleSaveDraft();
+      const grnId = await handleSaveDraft();
+      if (!grnId) return;
+      
+      // The server has the final word on tolerance, counting receipts posted from other terminals
+      if (po) {
+        await purchaseOrderService.checkReceipt(po.id, grnId);
+      }
       
       // Then post
-      await grnService.postGRN(grn.id!, { updateCostPolicy: costUpdatePolicy });
+      await grnService.postGRN(grnId, { updateCostPolicy: costUpdatePolicy, landedCostMethod });
       
-      setSuccess('GRN posted successfully');
+      if (po) {
+        const synced = await purchaseOrderService.syncReceipts(po.id);
+        setSuccess(synced.purchase_order.status === 'CLOSED'
+          ? `GRN posted; ${po.po_no} fully received and closed`
+          : `GRN posted; ${po.po_no} partially received`);
+      } else {
+        setSuccess('GRN posted successfully');
+      }
       await loadInitialData(); // Reload to get updated status
     } catch (err) {
-      setError('Failed to post GRN');
+      setError(err instanceof ServiceError ? err.message : 'Failed to post GRN');
       console.error('Error posting GRN:', err);
     } finally {
       setSaving(false);
@@ -233,9 +349,9 @@ export default function GRNReceive() {
     setSearchTerm('');
   };
 
-  const handleUpdateLine = (lineId: number, field: keyof GRNLine, value: any) => {
-    const updatedLines = lines.map(line => {
-      if (line.id === lineId) {
+  const handleUpdateLine = (index: number, field: keyof GRNLine, value: any) => {
+    const updatedLines = lines.map((line, i) => {
+      if (i === index) {
         const updatedLine = { ...line, [field]: value };
         if (field === 'qty' || field === 'unit_cost') {
           updatedLine.line_total = updatedLine.qty * updatedLine.unit_cost;
@@ -247,15 +363,50 @@ export default function GRNReceive() {
     setLines(updatedLines);
   };
 
-  const handleDeleteLine = async (lineId: number) => {
+  // Switching a line to another pack keeps the cost per base unit and prices the new pack from it
+  const handleUpdateUom = (index: number, code: string) => {
+    const updatedLines = lines.map((line, i) => {
+      if (i !== index) return line;
+      const pack = packs[line.product_id]?.find(p => p.code === code);
+      const convToBase = pack?.conv_to_base ?? 1;
+      const unitCost = roundCurrency(baseUnitCost(line.unit_cost, line.conv_to_base ?? 1) * convToBase);
+      return {
+        ...line,
+        uom: pack?.code ?? null,
+        conv_to_base: convToBase,
+        unit_cost: unitCost,
+        line_total: line.qty * unitCost
+      };
+    });
+    setLines(updatedLines);
+  };
+
+  const handleDeleteLine = async (index: number) => {
+    const lineId = lines[index].id;
     if (lineId) {
       await grnService.deleteGRNLine(lineId);
     }
     
-    const updatedLines = lines.filter(line => line.id !== lineId);
+    const updatedLines = lines.filter((_, i) => i !== index);
     setLines(updatedLines);
   };
 
+  // Expected vs received for a line when receiving against a PO; null when there is no PO or no check yet
+  const receiptCheck = (line: GRNLineWithProduct): { ordered: number; received: number; status: POLineReceiptStatus | 'NOT_ORDERED' } | null => {
+    if (!purchaseOrder) return null;
+    const poLine = purchaseOrder.lines.find(l => l.product_id === line.product_id);
+    if (!poLine) return { ordered: 0, received: 0, status: 'NOT_ORDERED' };
+    // Once this GRN is posted its quantities are already in the order's receipts
+    const status = grn?.status === 'POSTED' ? poLine.receipt_status : receiptPreview.get(line.product_id)?.receipt_status;
+    if (!status) return null;
+    return { ordered: poLine.qty, received: poLine.qty_received, status };
+  };
+
+  const linesOutsideTolerance = lines.filter(line => {
+    const check = receiptCheck(line);
+    return check?.status === 'OVER' || check?.status === 'NOT_ORDERED';
+  });
+
   const handlePrintLabels = async () => {
     if (!grn) return;
     
@@ -310,7 +461,13 @@ export default function GRNReceive() {
             Back to List
           </Button>
           {grn?.status === 'POSTED' && (
-            <Badge variant="default" className="bg-green-600">Posted</Badge>
+            <>
+              <Button variant="outline" onClick={() => navigate(`/supplier-returns?grn=${grn.id}`)}>
+                <Undo2 className="h-4 w-4 mr-2" />
+                Return to Supplier
+              </Button>
+              <Badge variant="default" className="bg-green-600">Posted</Badge>
+            </>
           )}
         </div>
       </div>
@@ -344,7 +501,7 @@ export default function GRNReceive() {
                   <Select 
                     value={selectedSupplier?.toString() || ''} 
                     onChange={(value) => setSelectedSupplier(parseInt(value))}
-                    disabled={grn?.status === 'POSTED'}
+                    disabled={grn?.status === 'POSTED' || purchaseOrder !== null}
                     placeholder="Select supplier"
                     options={suppliers.map(supplier => ({
                       value: supplier.id.toString(),
@@ -400,6 +557,40 @@ export default function GRNReceive() {
             </CardContent>
           </Card>
 
+          {/* Purchase Order */}
+          {purchaseOrder && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ClipboardList className="h-5 w-5" />
+                  Purchase Order {purchaseOrder.purchase_order.po_no}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span>Status:</span>
+                  <span className="font-medium">{purchaseOrder.purchase_order.status}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Receiving tolerance:</span>
+                  <span>{purchaseOrder.purchase_order.tolerance_pct}%</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Lines outstanding:</span>
+                  <span>
+                    {purchaseOrder.lines.filter(l => l.qty_outstanding > 0).length} of {purchaseOrder.lines.length}
+                  </span>
+                </div>
+                {linesOutsideTolerance.length > 0 && grn?.status !== 'POSTED' && (
+                  <div className="text-red-600 flex items-center gap-1">
+                    <AlertTriangle className="h-4 w-4" />
+                    {linesOutsideTolerance.length} line(s) exceed the order
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Add Item */}
           <Card>
             <CardHeader>
@@ -476,7 +667,7 @@ export default function GRNReceive() {
                           <Input
                             type="number"
                             value={line.qty}
-                            onChange={(e) => handleUpdateLine(line.id!, 'qty', parseFloat(e.target.value) || 0)}
+                            onChange={(e) => handleUpdateLine(index, 'qty', parseFloat(e.target.value) || 0)}
                             disabled={grn?.status === 'POSTED'}
                             min="0"
                             step="0.001"
@@ -487,7 +678,7 @@ export default function GRNReceive() {
                           <Input
                             type="number"
                             value={line.unit_cost}
-                            onChange={(e) => handleUpdateLine(line.id!, 'unit_cost', parseFloat(e.target.value) || 0)}
+                            onChange={(e) => handleUpdateLine(index, 'unit_cost', parseFloat(e.target.value) || 0)}
                             disabled={grn?.status === 'POSTED'}
                             min="0"
                             step="0.01"
@@ -498,7 +689,7 @@ export default function GRNReceive() {
                           <Input
                             type="number"
                             value={line.mrp || ''}
-                            onChange={(e) => handleUpdateLine(line.id!, 'mrp', parseFloat(e.target.value) || null)}
+                            onChange={(e) => handleUpdateLine(index, 'mrp', parseFloat(e.target.value) || null)}
                             disabled={grn?.status === 'POSTED'}
                             min="0"
                             step="0.01"
@@ -509,7 +700,7 @@ export default function GRNReceive() {
                         <div className="col-span-2">
                           <Input
                             value={line.batch_no || ''}
-                            onChange={(e) => handleUpdateLine(line.id!, 'batch_no', e.target.value || null)}
+                            onChange={(e) => handleUpdateLine(index, 'batch_no', e.target.value || null)}
                             disabled={grn?.status === 'POSTED'}
                             placeholder="Batch"
                           />
@@ -519,7 +710,7 @@ export default function GRNReceive() {
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => handleDeleteLine(line.id!)}
+                            onClick={() => handleDeleteLine(index)}
                             disabled={grn?.status === 'POSTED'}
                           >
                             <Trash2 className="h-4 w-4" />
@@ -532,7 +723,7 @@ export default function GRNReceive() {
                           <Input
                             type="date"
                             value={line.expiry_date || ''}
-                            onChange={(e) => handleUpdateLine(line.id!, 'expiry_date', e.target.value || null)}
+                            onChange={(e) => handleUpdateLine(index, 'expiry_date', e.target.value || null)}
                             disabled={grn?.status === 'POSTED'}
                             className={isExpired(line.expiry_date) ? 'border-red-500' : ''}
                           />
@@ -544,8 +735,63 @@ export default function GRNReceive() {
                           )}
                         </div>
                         
-                        <div className="col-span-9 text-right">
+                        <div className="col-span-2">
+                          {(packs[line.product_id]?.length ?? 0) > 0 && (
+                            <select
+                              value={line.uom && (line.conv_to_base ?? 1) !== 1 ? line.uom : ''}
+                              onChange={(e) => handleUpdateUom(index, e.target.value)}
+                              disabled={grn?.status === 'POSTED'}
+                              className="w-full border rounded-md px-2 py-2 text-sm"
+                              title="Unit received"
+                            >
+                              <option value="">{line.product?.unit || 'Base unit'}</option>
+                              {packs[line.product_id].map(pack => (
+                                <option key={pack.id} value={pack.code}>{pack.name} ({pack.conv_to_base})</option>
+                              ))}
+                            </select>
+                          )}
+                        </div>
+
+                        {landedCostMethod === 'weight' && (
+                          <div className="col-span-2">
+                            <Input
+                              type="number"
+                              value={line.weight_kg ?? ''}
+                              onChange={(e) => handleUpdateLine(index, 'weight_kg', e.target.value === '' ? null : parseFloat(e.target.value) || 0)}
+                              disabled={grn?.status === 'POSTED'}
+                              min="0"
+                              step="0.001"
+                              placeholder={line.product?.unit === 'kg' || line.product?.unit === 'g' ? 'Weight (qty)' : 'Weight kg'}
+                              title="Weight of the whole line in kg"
+                            />
+                          </div>
+                        )}
+
+                        <div className={`${landedCostMethod === 'weight' ? 'col-span-2' : 'col-span-4'} text-sm text-muted-foreground`}>
+                          {(() => {
+                            const check = receiptCheck(line);
+                            if (!check) return null;
+                            if (check.status === 'NOT_ORDERED') {
+                              return <Badge variant="danger">Not on PO</Badge>;
+                            }
+                            return (
+                              <div className="flex items-center gap-2">
+                                <span>Ordered {check.ordered} · Received {check.received}</span>
+                                <Badge
+                                  variant={check.status === 'OVER' ? 'danger' : check.status === 'COMPLETE' ? 'success' : 'warning'}
+                                >
+                                  {check.status === 'OVER' ? 'Over tolerance' : check.status === 'COMPLETE' ? 'Complete' : 'Short'}
+                                </Badge>
+                              </div>
+                            );
+                          })()}
+                        </div>
+                        
+                        <div className="col-span-3 text-right">
                           <div className="font-medium">{formatCurrency(line.line_total)}</div>
+                          {(line.landed_cost ?? 0) > 0 && (
+                            <div className="text-xs text-muted-foreground">+ {formatCurrency(line.landed_cost!)} charges</div>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -580,7 +826,7 @@ export default function GRNReceive() {
               </div>
               
               <div className="flex justify-between">
-                <span>Other:</span>
+                <span>Other (freight, duty):</span>
                 <Input
                   type="number"
                   value={other}
@@ -611,7 +857,7 @@ export default function GRNReceive() {
             </Button>
             
             <Button
-              onClick={handlePostGRN}
+              onClick={() => setShowCostPreview(true)}
               disabled={saving || grn?.status === 'POSTED' || lines.length === 0}
             >
               <CheckCircle className="h-4 w-4 mr-2" />
@@ -632,7 +878,7 @@ export default function GRNReceive() {
                 <FormLabel>Cost Update Policy</FormLabel>
                 <Select 
                   value={costUpdatePolicy} 
-                  onChange={(value: string) => setCostUpdatePolicy(value as 'none' | 'average' | 'latest')}
+                  onChange={(value: string) => setCostUpdatePolicy(value as CostUpdatePolicy)}
                   options={[
                     { value: 'none', label: 'None' },
                     { value: 'average', label: 'Average' },
@@ -641,6 +887,19 @@ export default function GRNReceive() {
                 />
               </div>
               
+              <div className="space-y-2">
+                <FormLabel>Allocate Other Charges</FormLabel>
+                <Select 
+                  value={landedCostMethod} 
+                  onChange={(value: string) => setLandedCostMethod(value as LandedCostMethod)}
+                  disabled={grn?.status === 'POSTED'}
+                  options={(Object.keys(LANDED_COST_METHOD_LABELS) as LandedCostMethod[]).map(method => ({
+                    value: method,
+                    label: LANDED_COST_METHOD_LABELS[method]
+                  }))}
+                />
+              </div>
+              
               <div className="space-y-2">
                 <FormLabel>Label Language</FormLabel>
                 <Select 
@@ -690,6 +949,18 @@ export default function GRNReceive() {
           </Card>
         </div>
       </div>
+
+      {showCostPreview && (
+        <LandedCostPreviewModal
+          lines={lines}
+          other={other}
+          method={landedCostMethod}
+          policy={costUpdatePolicy}
+          posting={saving}
+          onClose={() => setShowCostPreview(false)}
+          onConfirm={handlePostGRN}
+        />
+      )}
     </div>
   );
 }
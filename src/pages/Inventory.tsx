@@ -15,7 +15,9 @@ import {
 } from 'lucide-react';
 import { inventoryServiceSimple as inventoryService, StockRow, StockFilters, MovementLogRow, MovementLogFilters } from '@/services/inventoryServiceSimple';
 import { csvService } from '@/services/csvService';
+import { storeService } from '@/services/storeService';
 import { useAppStore } from '@/store/appStore';
+import { Store } from '@/types';
 import { ReceiveModal } from '@/components/Inventory/ReceiveModal';
 import { AdjustModal } from '@/components/Inventory/AdjustModal';
 import { StocktakeImportModal } from '@/components/Inventory/StocktakeImportModal';
@@ -40,10 +42,12 @@ export function Inventory() {
   const [movementLogs, setMovementLogs] = useState<MovementLogRow[]>([]);
   const [categories, setCategories] = useState<string[]>([]);
   const [suppliers, setSuppliers] = useState<string[]>([]);
+  const [stores, setStores] = useState<Store[]>([]);
   
   // Filter states
   const [stockFilters, setStockFilters] = useState<StockFilters>({
     // Don't filter by active by default - show all products
+    storeId: storeService.currentStoreId(),
     limit: 100
   });
   
@@ -127,6 +131,13 @@ export function Inventory() {
       
       setCategories(categoriesData);
       setSuppliers(suppliersData);
+
+      // Stores are kept on the POS server; local mode is a single shop
+      if (settings.dataSource?.mode === 'server') {
+        storeService.list()
+          .then(setStores)
+          .catch(error => console.error('Failed to load stores:', error));
+      }
       
       // Load initial stock data
       await loadStockData();
@@ -196,6 +207,7 @@ export function Inventory() {
       if (stockFilters.supplier) count++;
       if (stockFilters.lowStock) count++;
       if (stockFilters.unit) count++;
+      if (stockFilters.storeId) count++;
     } else if (activeTab === 'logs') {
       if (logFilters.type) count++;
       if (logFilters.sku) count++;
@@ -284,6 +296,20 @@ export function Inventory() {
               />
               <span className="text-sm text-gray-700">Active products only</span>
             </label>
+
+            {stores.length > 1 && (
+              <select
+                value={stockFilters.storeId ?? ''}
+                onChange={(e) => setStockFilters(prev => ({ ...prev, storeId: e.target.value ? Number(e.target.value) : undefined }))}
+                className="px-3 py-1 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white"
+                title="Stock held by"
+              >
+                <option value="">All Stores</option>
+                {stores.map(store => (
+                  <option key={store.id} value={store.id}>{store.name}</option>
+                ))}
+              </select>
+            )}
           </div>
         </div>
       )}
@@ -33,7 +33,8 @@ export function Labels() {
   const [productFilters, setProductFilters] = useState({
     search: '',
     category: '',
-    activeOnly: true
+    activeOnly: true,
+    includePacks: false
   });
 
   // Batch analysis for date legend and quick actions
@@ -95,7 +96,8 @@ export function Labels() {
       const labelItems = await labelService.generateLabelItems({
         source: 'products',
         productIds: selectedProducts,
-        preset: selectedPreset
+        preset: selectedPreset,
+        includePacks: productFilters.includePacks
       });
 
       setBatch(prev => ({
@@ -523,6 +525,7 @@ interface ProductsTabProps {
     search: string;
     category: string;
     activeOnly: boolean;
+    includePacks: boolean;
   };
   onFiltersChange: (filters: any) => void;
   onAddToBatch: () => void;
@@ -579,6 +582,16 @@ function ProductsTab({
               />
               Active only
             </label>
+
+            <label className="flex items-center text-sm" title="Also label each case or pack with its own barcode and price">
+              <input
+                type="checkbox"
+                checked={filters.includePacks}
+                onChange={(e) => onFiltersChange({ ...filters, includePacks: e.target.checked })}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 mr-2"
+              />
+              Pack labels
+            </label>
             
             <button
               onClick={onAddToBatch}
@@ -7,19 +7,29 @@ import { FormLabel, Textarea } from '../components/ui/Form';
 import { ArrowLeft, Save } from 'lucide-react';
 import { shiftService } from '../services/shiftService';
 import { useSettingsStore } from '../store/settingsStore';
+import { useAppStore } from '../store/appStore';
+import { CashCountGrid, CashCountDraft, draftToCount } from '../components/Shifts/CashCountGrid';
+import { countTotal } from '@/lib/cashCount';
 
 export default function NewShift() {
   const navigate = useNavigate();
   const { settings } = useSettingsStore();
+  const { terminal, settings: appSettings } = useAppStore();
   
-  const [terminalName, setTerminalName] = useState('Terminal 1');
+  // Shifts and their sales carry the terminal name that the store assignment is registered under
+  const [terminalName, setTerminalName] = useState(terminal || 'Terminal 1');
   const [cashierId, setCashierId] = useState(1);
   const [openingCash, setOpeningCash] = useState('');
+  const [countByDenomination, setCountByDenomination] = useState(true);
+  const [openingCount, setOpeningCount] = useState<CashCountDraft>({});
   const [note, setNote] = useState('');
   const [saving, setSaving] = useState(false);
 
+  const count = countByDenomination ? draftToCount(openingCount) : null;
+  const canOpen = countByDenomination ? count !== null : !!openingCash && parseFloat(openingCash) >= 0;
+
   const handleCreateShift = async () => {
-    if (!openingCash || parseFloat(openingCash) < 0) {
+    if (!canOpen) {
       return;
     }
 
@@ -28,7 +38,8 @@ export default function NewShift() {
       const shiftId = await shiftService.openShift({
         terminal_name: terminalName,
         cashier_id: cashierId,
-        opening_cash: parseFloat(openingCash),
+        opening_cash: count ? countTotal(count) : parseFloat(openingCash),
+        opening_count: count ?? undefined,
         note: note || undefined
       });
       
@@ -89,20 +100,40 @@ export default function NewShift() {
           </div>
           
           <div>
-            <FormLabel htmlFor="opening-cash">Opening Cash Amount *</FormLabel>
-            <Input
-              id="opening-cash"
-              name="opening-cash"
-              type="number"
-              step="0.01"
-              min="0"
-              value={openingCash}
-              onChange={(e) => setOpeningCash(e.target.value)}
-              placeholder="0.00"
-              required
-            />
+            <div className="flex items-center justify-between">
+              <FormLabel htmlFor="opening-cash">Opening Float *</FormLabel>
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={countByDenomination}
+                  onChange={(e) => setCountByDenomination(e.target.checked)}
+                />
+                Count by denomination
+              </label>
+            </div>
+            {countByDenomination ? (
+              <div className="mt-2 p-4 bg-gray-50 rounded-lg">
+                <CashCountGrid
+                  denominations={appSettings.shiftSettings?.cashDenominations}
+                  value={openingCount}
+                  onChange={setOpeningCount}
+                />
+              </div>
+            ) : (
+              <Input
+                id="opening-cash"
+                name="opening-cash"
+                type="number"
+                step="0.01"
+                min="0"
+                value={openingCash}
+                onChange={(e) => setOpeningCash(e.target.value)}
+                placeholder="0.00"
+                required
+              />
+            )}
             <p className="text-sm text-gray-500 mt-1">
-              Enter the amount of cash in the drawer at the start of the shift
+              Count the cash in the drawer at the start of the shift
             </p>
           </div>
           
@@ -121,7 +152,7 @@ export default function NewShift() {
           <div className="flex gap-3 pt-4">
             <Button
               onClick={handleCreateShift}
-              disabled={saving || !openingCash || parseFloat(openingCash) < 0}
+              disabled={saving || !canOpen}
               className="flex-1"
             >
               <Save className="h-4 w-4 mr-2" />
@@ -1,10 +1,11 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Plus, Search, Download, Upload, RefreshCw, Edit3, Copy, Eye, EyeOff, Trash2, Printer } from 'lucide-react';
+import { Plus, Search, Download, Upload, RefreshCw, Edit3, Copy, Eye, EyeOff, Trash2, Printer, Package } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import { dataService, Product, Category, Supplier } from '@/services/dataService';
 import { csvService } from '@/services/csvService';
 import { AddProductModal } from '@/components/Products/AddProductModal';
 import { CSVImportModal } from '@/components/Products/CSVImportModal';
+import { ProductPacksModal } from '@/components/Products/ProductPacksModal';
 import { labelPrintAdapter } from '@/services/print/LabelPrintAdapter';
 import { labelService } from '@/services/labelService';
 
@@ -44,6 +45,7 @@ export function Products() {
   const [showAddModal, setShowAddModal] = useState(false);
   const [showImportModal, setShowImportModal] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [packsProduct, setPacksProduct] = useState<Product | null>(null);
   const [printingBarcode, setPrintingBarcode] = useState<number | null>(null);
 
   // Refs
@@ -514,6 +516,13 @@ export function Products() {
                           >
                             <Copy className="w-4 h-4" />
                           </button>
+                          <button
+                            onClick={() => setPacksProduct(product)}
+                            className="text-purple-600 hover:text-purple-900 transition-colors"
+                            title="Packs"
+                          >
+                            <Package className="w-4 h-4" />
+                          </button>
                           <button
                             onClick={() => handleToggleActive(product)}
                             className={`${product.is_active ? 'text-red-600 hover:text-red-900' : 'text-green-600 hover:text-green-900'} transition-colors`}
@@ -571,6 +580,13 @@ export function Products() {
         />
       )}
 
+      {packsProduct && (
+        <ProductPacksModal
+          product={packsProduct}
+          onClose={() => setPacksProduct(null)}
+        />
+      )}
+
       {showImportModal && (
         <CSVImportModal
           categories={categories}
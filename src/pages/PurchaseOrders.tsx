@@ -0,0 +1,245 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Plus, Search, RefreshCw, Eye, Lightbulb } from 'lucide-react';
+import { dataService } from '@/services/dataService';
+import { purchaseOrderService } from '@/services/purchaseOrderService';
+import { PurchaseOrderModal } from '@/components/PurchaseOrders/PurchaseOrderModal';
+import { PurchaseOrderDetailsModal, PO_STATUS_STYLES } from '@/components/PurchaseOrders/PurchaseOrderDetailsModal';
+import { ReorderSuggestionsModal } from '@/components/PurchaseOrders/ReorderSuggestionsModal';
+import { PurchaseOrder, PurchaseOrderStatus } from '@/types';
+
+interface FilterState {
+  search: string;
+  status: PurchaseOrderStatus | 'all';
+}
+
+export function PurchaseOrders() {
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [supplierNames, setSupplierNames] = useState<Map<number, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<FilterState>({ search: '', status: 'all' });
+
+  // Modals
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [viewingId, setViewingId] = useState<number | null>(null);
+
+  const debounceRef = useRef<NodeJS.Timeout>();
+
+  useEffect(() => {
+    dataService.getSuppliers(false)
+      .then(suppliers => setSupplierNames(new Map(suppliers.map(s => [s.id, s.supplier_name]))))
+      .catch(err => console.error('Failed to load suppliers:', err));
+  }, []);
+
+  // Debounced search effect
+  useEffect(() => {
+    if (debounceRef.current) {
+      clearTimeout(debounceRef.current);
+    }
+    debounceRef.current = setTimeout(() => {
+      loadData();
+    }, 250);
+  }, [filters]);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      setOrders(await purchaseOrderService.list({
+        q: filters.search || undefined,
+        status: filters.status === 'all' ? undefined : filters.status,
+        limit: 200
+      }));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load purchase orders:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load purchase orders');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatDate = (value: string | null): string => {
+    if (!value) return '-';
+    return new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`).toLocaleDateString('en-GB');
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Purchase Orders</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              Order from suppliers and track what has been received against each order
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setShowSuggestions(true)}
+              className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <Lightbulb className="w-4 h-4 mr-2" />
+              Suggest Orders
+            </button>
+            <button
+              onClick={() => setShowCreateModal(true)}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New Order
+            </button>
+            <button
+              onClick={loadData}
+              className="flex items-center px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+              disabled={loading}
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <input
+              type="text"
+              placeholder="Search by PO number or note..."
+              value={filters.search}
+              onChange={(e) => setFilters(prev => ({ ...prev, search: e.target.value }))}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-500"
+            />
+          </div>
+
+          <select
+            value={filters.status}
+            onChange={(e) => setFilters(prev => ({ ...prev, status: e.target.value as FilterState['status'] }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white"
+          >
+            <option value="all">All Status</option>
+            <option value="OPEN">Open</option>
+            <option value="PARTIAL">Partially Received</option>
+            <option value="CLOSED">Closed</option>
+            <option value="CANCELLED">Cancelled</option>
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mx-6 mt-4 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Orders Table */}
+      <div className="flex-1 overflow-auto">
+        <div className="bg-white">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50 sticky top-0 z-10">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    PO No
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Supplier
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Deliver By
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {loading && orders.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
+                      <RefreshCw className="w-6 h-6 animate-spin mx-auto mb-2" />
+                      Loading purchase orders...
+                    </td>
+                  </tr>
+                ) : orders.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
+                      No purchase orders found matching your filters.
+                    </td>
+                  </tr>
+                ) : (
+                  orders.map(order => (
+                    <tr key={order.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                        {order.po_no}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        {supplierNames.get(order.supplier_id) ?? `#${order.supplier_id}`}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        {formatDate(order.created_at)}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        {formatDate(order.expected_date)}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${PO_STATUS_STYLES[order.status]}`}>
+                          {order.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <button
+                          onClick={() => setViewingId(order.id)}
+                          className="text-blue-600 hover:text-blue-800"
+                          title="View"
+                        >
+                          <Eye className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {showCreateModal && (
+        <PurchaseOrderModal
+          onClose={() => setShowCreateModal(false)}
+          onSaved={(details) => {
+            setShowCreateModal(false);
+            setViewingId(details.purchase_order.id);
+            loadData();
+          }}
+        />
+      )}
+
+      {showSuggestions && (
+        <ReorderSuggestionsModal
+          onClose={() => setShowSuggestions(false)}
+          onCreated={loadData}
+        />
+      )}
+
+      {viewingId !== null && (
+        <PurchaseOrderDetailsModal
+          poId={viewingId}
+          onClose={() => setViewingId(null)}
+          onChanged={loadData}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,18 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Download, RefreshCw, Filter, Copy, TrendingUp, DollarSign, ShoppingCart, Tag, AlertCircle } from 'lucide-react';
 import { toast } from 'react-hot-toast';
-import { reportService, ReportFilters, ReportKPIs } from '@/services/reportService';
+import { reportService, ReportFilters, ReportKPIs, GrossMarginGroup, GrossMarginRow } from '@/services/reportService';
+import { AgedReceivablesReport } from '@/services/customerAccountService';
+import { batchService, NearExpiryBatch } from '@/services/batchService';
+import { CostingMethod, COSTING_METHOD_LABELS, InventoryValuationReport } from '@/services/costingService';
 import { csvService } from '@/services/csvService';
+import { storeService } from '@/services/storeService';
 import { useAppStore } from '@/store/appStore';
 import { SimpleBar } from '@/components/Charts/SimpleBar';
 import { SimpleLine } from '@/components/Charts/SimpleLine';
+import { Store } from '@/types';
 
-type TabType = 'summary' | 'tier' | 'products' | 'categories' | 'discounts';
+type TabType = 'summary' | 'tier' | 'products' | 'categories' | 'discounts' | 'receivables' | 'expiry' | 'margin' | 'valuation';
 
 export function Reports() {
   const { settings } = useAppStore();
@@ -26,6 +31,15 @@ export function Reports() {
   const [topProducts, setTopProducts] = useState<any[]>([]);
   const [topCategories, setTopCategories] = useState<any[]>([]);
   const [discountAudit, setDiscountAudit] = useState<any[]>([]);
+  const [agedReceivables, setAgedReceivables] = useState<AgedReceivablesReport | null>(null);
+  const [nearExpiry, setNearExpiry] = useState<NearExpiryBatch[]>([]);
+  const [expiryDays, setExpiryDays] = useState(settings.grnSettings?.expiryReminderDays ?? 14);
+  const [grossMargin, setGrossMargin] = useState<GrossMarginRow[]>([]);
+  const [marginGroupBy, setMarginGroupBy] = useState<GrossMarginGroup>('product');
+  const [valuation, setValuation] = useState<InventoryValuationReport | null>(null);
+  const [valuationAsOf, setValuationAsOf] = useState(() => new Date().toLocaleDateString('en-CA'));
+  const [valuationMethod, setValuationMethod] = useState<CostingMethod | ''>(''); // '' values stock as sales are costed
+  const [stores, setStores] = useState<Store[]>([]);
   
   // UI states
   const [showSiTaNames, setShowSiTaNames] = useState(false);
@@ -40,6 +54,14 @@ export function Reports() {
     loadData();
   }, []);
 
+  // Stores are kept on the POS server; in local mode there is a single shop and no store filter
+  useEffect(() => {
+    if (settings.dataSource?.mode !== 'server') return;
+    storeService.list()
+      .then(setStores)
+      .catch(error => console.error('Failed to load stores:', error));
+  }, [settings.dataSource?.mode]);
+
   // Debounced filter changes
   useEffect(() => {
     if (debounceRef.current) {
@@ -48,15 +70,23 @@ export function Reports() {
     debounceRef.current = setTimeout(() => {
       loadData();
     }, 250);
-  }, [filters, productsLimit, categoriesLimit]);
+  }, [filters, productsLimit, categoriesLimit, marginGroupBy]);
+
+  useEffect(() => {
+    loadNearExpiry();
+  }, [expiryDays, filters.storeId]);
+
+  useEffect(() => {
+    loadValuation();
+  }, [valuationAsOf, valuationMethod]);
 
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       // Alt + number for tab switching
-      if (e.altKey && ['1', '2', '3', '4', '5'].includes(e.key)) {
+      if (e.altKey && ['1', '2', '3', '4', '5', '6', '7', '8', '9'].includes(e.key)) {
         e.preventDefault();
-        const tabs: TabType[] = ['summary', 'tier', 'products', 'categories', 'discounts'];
+        const tabs: TabType[] = ['summary', 'tier', 'products', 'categories', 'discounts', 'receivables', 'expiry', 'margin', 'valuation'];
         const tabIndex = parseInt(e.key) - 1;
         if (tabs[tabIndex]) {
           setActiveTab(tabs[tabIndex]);
@@ -83,14 +113,16 @@ export function Reports() {
         tierData,
         productsData,
         categoriesData,
-        discountsData
+        discountsData,
+        marginData
       ] = await Promise.all([
         reportService.getKPIs(filters),
         reportService.getSalesSummary(filters),
         reportService.getSalesByTier(filters),
         reportService.getTopProducts({ ...filters, limit: productsLimit }),
         reportService.getTopCategories({ ...filters, limit: categoriesLimit }),
-        reportService.getDiscountAudit(filters)
+        reportService.getDiscountAudit(filters),
+        reportService.getGrossMargin({ ...filters, groupBy: marginGroupBy })
       ]);
 
       setKpis(kpisData);
@@ -99,12 +131,75 @@ export function Reports() {
       setTopProducts(productsData);
       setTopCategories(categoriesData);
       setDiscountAudit(discountsData);
+      setGrossMargin(marginData);
     } catch (error) {
       console.error('Failed to load report data:', error);
       toast.error('Failed to load report data');
     } finally {
       setLoading(false);
     }
+
+    // Receivables come from the POS server; an offline server must not block the other reports
+    try {
+      setAgedReceivables(await reportService.getAgedReceivables(filters.to));
+    } catch (error) {
+      console.error('Failed to load aged receivables:', error);
+      setAgedReceivables(null);
+    }
+  };
+
+  // Batch stock is also kept on the POS server and does not depend on the date filters
+  const loadNearExpiry = async () => {
+    try {
+      setNearExpiry(await reportService.getNearExpiry(expiryDays, filters.storeId));
+    } catch (error) {
+      console.error('Failed to load near-expiry batches:', error);
+      setNearExpiry([]);
+    }
+  };
+
+  // Valuation is costed on the POS server as of its own date, not the report's date range
+  const loadValuation = async () => {
+    try {
+      setValuation(await reportService.getInventoryValuation(
+        new Date(`${valuationAsOf}T23:59:59.999`),
+        valuationMethod || undefined
+      ));
+    } catch (error) {
+      console.error('Failed to load stock valuation:', error);
+      setValuation(null);
+    }
+  };
+
+  const handleMarkdown = async (batch: NearExpiryBatch) => {
+    const input = prompt(
+      `Markdown % for ${batch.name_en} (batch ${batch.batch_code || batch.id}, expires ${batch.expiry.slice(0, 10)}):`,
+      String(batch.markdown_pct ?? 20)
+    );
+    if (input === null) return;
+    const percent = Number(input);
+    if (!Number.isFinite(percent) || percent < 1 || percent > 90) {
+      toast.error('Markdown must be between 1% and 90%');
+      return;
+    }
+
+    try {
+      await batchService.markdown(batch.id, percent);
+      toast.success(`${batch.name_en} marked down ${percent}% until ${batch.expiry.slice(0, 10)}`);
+      loadNearExpiry();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to mark down batch');
+    }
+  };
+
+  const handleClearMarkdown = async (batch: NearExpiryBatch) => {
+    try {
+      await batchService.clearMarkdown(batch.id);
+      toast.success(`Markdown removed from ${batch.name_en}`);
+      loadNearExpiry();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove markdown');
+    }
   };
 
   const handleDateRangeChange = (range: 'today' | 'yesterday' | 'week' | 'month') => {
@@ -155,6 +250,18 @@ export function Reports() {
         case 'discounts':
           csvService.exportDiscountAuditCSV(discountAudit, filters);
           break;
+        case 'receivables':
+          csvService.exportAgedReceivablesCSV(agedReceivables?.rows || [], filters.to);
+          break;
+        case 'expiry':
+          csvService.exportNearExpiryCSV(nearExpiry, expiryDays);
+          break;
+        case 'margin':
+          csvService.exportGrossMarginCSV(grossMargin, { ...filters, groupBy: marginGroupBy });
+          break;
+        case 'valuation':
+          if (valuation) csvService.exportInventoryValuationCSV(valuation);
+          break;
       }
       toast.success('Report exported successfully');
     } catch (error) {
@@ -181,6 +288,7 @@ export function Reports() {
     if (filters.tier) count++;
     if (filters.terminal) count++;
     if (filters.cashier) count++;
+    if (filters.storeId) count++;
     return count;
   };
 
@@ -196,6 +304,14 @@ export function Reports() {
         return topCategories.length > 0;
       case 'discounts':
         return discountAudit.length > 0;
+      case 'receivables':
+        return (agedReceivables?.rows.length || 0) > 0;
+      case 'expiry':
+        return nearExpiry.length > 0;
+      case 'margin':
+        return grossMargin.length > 0;
+      case 'valuation':
+        return (valuation?.rows.length || 0) > 0;
       default:
         return false;
     }
@@ -224,6 +340,10 @@ export function Reports() {
     { id: 'products', label: 'Top Products', shortcut: '3' },
     { id: 'categories', label: 'Top Categories', shortcut: '4' },
     { id: 'discounts', label: 'Discount Audit', shortcut: '5' },
+    { id: 'receivables', label: 'Aged Receivables', shortcut: '6' },
+    { id: 'expiry', label: 'Near Expiry', shortcut: '7' },
+    { id: 'margin', label: 'Gross Margin', shortcut: '8' },
+    { id: 'valuation', label: 'Stock Valuation', shortcut: '9' },
   ];
 
   return (
@@ -263,7 +383,7 @@ export function Reports() {
               Export CSV
             </button>
             <button
-              onClick={loadData}
+              onClick={() => { loadData(); loadNearExpiry(); loadValuation(); }}
               className="flex items-center px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition-all duration-200 shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
               disabled={loading}
             >
@@ -313,6 +433,23 @@ export function Reports() {
                 <option value="Other">Other</option>
               </select>
             </div>
+
+            {/* Store */}
+            {stores.length > 1 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Store</label>
+                <select
+                  value={filters.storeId ?? ''}
+                  onChange={(e) => setFilters(prev => ({ ...prev, storeId: e.target.value ? Number(e.target.value) : undefined }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white"
+                >
+                  <option value="">All Stores</option>
+                  {stores.map(store => (
+                    <option key={store.id} value={store.id}>{store.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
           </div>
 
           {/* Quick Date Ranges */}
@@ -360,6 +497,42 @@ export function Reports() {
 
       {/* Content */}
       <div className="flex-1 overflow-auto p-6">
+        {activeTab === 'expiry' && (
+          <div className="flex items-center space-x-3 mb-6">
+            <label className="text-sm font-medium text-gray-700">Expiring within</label>
+            <input
+              type="number"
+              min="0"
+              max="365"
+              value={expiryDays}
+              onChange={(e) => setExpiryDays(Math.min(365, Math.max(0, parseInt(e.target.value) || 0)))}
+              className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white"
+            />
+            <span className="text-sm text-gray-700">days</span>
+          </div>
+        )}
+        {activeTab === 'valuation' && (
+          <div className="flex items-center space-x-3 mb-6">
+            <label className="text-sm font-medium text-gray-700">As of</label>
+            <input
+              type="date"
+              value={valuationAsOf}
+              onChange={(e) => e.target.value && setValuationAsOf(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white"
+            />
+            <label className="text-sm font-medium text-gray-700">Costing</label>
+            <select
+              value={valuationMethod}
+              onChange={(e) => setValuationMethod(e.target.value as CostingMethod | '')}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white"
+            >
+              <option value="">As sales are costed</option>
+              {(Object.keys(COSTING_METHOD_LABELS) as CostingMethod[]).map(method => (
+                <option key={method} value={method}>{COSTING_METHOD_LABELS[method]}</option>
+              ))}
+            </select>
+          </div>
+        )}
         {!hasData() ? renderEmptyState() : (
           <>
             {/* KPIs Section */}
@@ -684,7 +857,7 @@ export function Reports() {
             {activeTab === 'discounts' && (
               <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
                 <div className="px-6 py-4 border-b border-gray-200">
-                  <h3 className="text-lg font-medium text-gray-900">Discount Rules Performance</h3>
+                  <h3 className="text-lg font-medium text-gray-900">Discount Rules &amp; Promotions Performance</h3>
                   <p className="text-sm text-gray-600 mt-1">Click on a rule to see recent invoices impacted</p>
                 </div>
                 <div className="overflow-x-auto">
@@ -692,6 +865,7 @@ export function Reports() {
                     <thead className="bg-gray-50">
                       <tr>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Rule Name</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Source</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Times Applied</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Total Discount</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Avg per Invoice</th>
@@ -705,13 +879,16 @@ export function Reports() {
                           className="hover:bg-gray-50 cursor-pointer"
                           onClick={async () => {
                             setSelectedDiscountRule(row.rule_name);
-                            const details = await reportService.getDiscountRuleDetails(row.rule_name, filters);
+                            const details = await reportService.getDiscountRuleDetails(row.rule_name, filters, row.source);
                             console.log('Discount rule details:', details);
                           }}
                         >
                           <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-blue-600 hover:text-blue-800">
                             {row.rule_name}
                           </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {row.source === 'PROMOTION' ? 'Promotion' : 'Discount rule'}
+                          </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                             {row.times_applied.toLocaleString()}
                           </td>
@@ -731,6 +908,222 @@ export function Reports() {
                 </div>
               </div>
             )}
+
+            {activeTab === 'receivables' && agedReceivables && (
+              <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <h3 className="text-lg font-medium text-gray-900">Aged Receivables</h3>
+                  <p className="text-sm text-gray-600 mt-1">
+                    Open account balances as of {filters.to.toDateString()}; payments settle the oldest charges first
+                  </p>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Customer</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">0-30 Days</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">31-60 Days</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">61-90 Days</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">90+ Days</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Balance</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {agedReceivables.rows.map(row => (
+                        <tr key={row.customer_id} className="hover:bg-gray-50">
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{row.customer_name}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{formatCurrency(row.days_0_30)}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{formatCurrency(row.days_31_60)}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{formatCurrency(row.days_61_90)}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-red-600">{formatCurrency(row.days_90_plus)}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-gray-900">{formatCurrency(row.balance)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                    <tfoot className="bg-gray-50">
+                      <tr>
+                        <td className="px-6 py-3 text-sm font-medium text-gray-900">Total</td>
+                        <td className="px-6 py-3 text-sm text-right font-medium text-gray-900">{formatCurrency(agedReceivables.totals.days_0_30)}</td>
+                        <td className="px-6 py-3 text-sm text-right font-medium text-gray-900">{formatCurrency(agedReceivables.totals.days_31_60)}</td>
+                        <td className="px-6 py-3 text-sm text-right font-medium text-gray-900">{formatCurrency(agedReceivables.totals.days_61_90)}</td>
+                        <td className="px-6 py-3 text-sm text-right font-medium text-red-600">{formatCurrency(agedReceivables.totals.days_90_plus)}</td>
+                        <td className="px-6 py-3 text-sm text-right font-bold text-gray-900">{formatCurrency(agedReceivables.totals.balance)}</td>
+                      </tr>
+                    </tfoot>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {activeTab === 'expiry' && (
+              <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <h3 className="text-lg font-medium text-gray-900">Near Expiry</h3>
+                  <p className="text-sm text-gray-600 mt-1">
+                    Batches in stock expiring within {expiryDays} day(s); sales use the earliest expiry first
+                  </p>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Batch</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Expiry</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">On Hand</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Cost Value</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Markdown</th>
+                        <th className="px-6 py-3"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {nearExpiry.map(batch => (
+                        <tr key={batch.id} className="hover:bg-gray-50">
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            <div className="font-medium text-gray-900">{batch.name_en}</div>
+                            <div className="text-xs text-gray-500">{batch.sku}</div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{batch.batch_code || `#${batch.id}`}</td>
+                          <td className={`px-6 py-4 whitespace-nowrap text-sm ${batch.days_to_expiry < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                            {batch.expiry.slice(0, 10)}
+                            <span className="ml-2 text-xs">
+                              {batch.days_to_expiry < 0 ? 'expired' : `${batch.days_to_expiry} day(s)`}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{batch.qty_on_hand} {batch.unit}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                            {formatCurrency(batch.qty_on_hand * (batch.cost || 0))}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                            {batch.markdown_pct ? `${batch.markdown_pct}%` : '-'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right space-x-3">
+                            <button
+                              onClick={() => handleMarkdown(batch)}
+                              className="text-blue-600 hover:text-blue-800"
+                              disabled={batch.days_to_expiry < 0}
+                            >
+                              {batch.markdown_pct ? 'Change' : 'Mark Down'}
+                            </button>
+                            {batch.markdown_pct && (
+                              <button
+                                onClick={() => handleClearMarkdown(batch)}
+                                className="text-red-600 hover:text-red-800"
+                              >
+                                Clear
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {activeTab === 'margin' && (
+              <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900">Gross Margin</h3>
+                    <p className="text-sm text-gray-600 mt-1">
+                      Revenue ex tax less the cost of goods sold, net of returns
+                    </p>
+                  </div>
+                  <select
+                    value={marginGroupBy}
+                    onChange={(e) => setMarginGroupBy(e.target.value as GrossMarginGroup)}
+                    className="px-3 py-1 border border-gray-300 rounded text-sm"
+                  >
+                    <option value="product">By Product</option>
+                    <option value="category">By Category</option>
+                    <option value="day">By Day</option>
+                  </select>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                          {marginGroupBy === 'product' ? 'Product' : marginGroupBy === 'category' ? 'Category' : 'Date'}
+                        </th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Qty</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Revenue</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">COGS</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Margin</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Margin %</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {grossMargin.map(row => (
+                        <tr key={row.key} className="hover:bg-gray-50">
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{row.label}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{row.qty.toLocaleString()}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{formatCurrency(row.revenue)}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{formatCurrency(row.cogs)}</td>
+                          <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-medium ${row.margin < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                            {formatCurrency(row.margin)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                            {row.margin_pct === null ? '-' : `${row.margin_pct.toFixed(1)}%`}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {activeTab === 'valuation' && valuation && (
+              <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <h3 className="text-lg font-medium text-gray-900">Stock Valuation</h3>
+                  <p className="text-sm text-gray-600 mt-1">
+                    Stock on hand across all stores as of {new Date(valuation.as_of).toDateString()}, at {COSTING_METHOD_LABELS[valuation.method].toLowerCase()} cost
+                  </p>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Category</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">On Hand</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Unit Cost</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Value</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {valuation.rows.map(row => (
+                        <tr key={row.product_id} className="hover:bg-gray-50">
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            <div className="font-medium text-gray-900">{row.name_en}</div>
+                            <div className="text-xs text-gray-500">{row.sku}</div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{row.category_name || '-'}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{row.qty} {row.unit}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                            {row.unit_cost === null ? '-' : formatCurrency(row.unit_cost)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-gray-900">{formatCurrency(row.value)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                    <tfoot className="bg-gray-50">
+                      <tr>
+                        <td className="px-6 py-3 text-sm font-medium text-gray-900" colSpan={4}>
+                          Total ({valuation.totals.products} products)
+                        </td>
+                        <td className="px-6 py-3 text-sm text-right font-bold text-gray-900">{formatCurrency(valuation.totals.value)}</td>
+                      </tr>
+                    </tfoot>
+                  </table>
+                </div>
+              </div>
+            )}
           </>
         )}
       </div>
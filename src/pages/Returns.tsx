@@ -20,8 +20,9 @@ import {
   Trash2
 } from 'lucide-react';
 import { refundService } from '../services/refundService';
+import { authService, LimitApproval } from '../services/authService';
+import { AUDIT_ACTIONS } from '../services/auditService';
 import { SaleWithLines, ReturnLine, ReturnReason } from '../types';
-import { useSettingsStore } from '../store/settingsStore';
 // import { useAuthStore } from '../store/appStore'; // Not available yet
 import { useTranslation } from '../i18n';
 
@@ -47,11 +48,8 @@ export default function Returns() {
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [selectedLanguage, setSelectedLanguage] = useState<'EN' | 'SI' | 'TA'>('EN');
-  const [managerPin, setManagerPin] = useState('');
-  const [showManagerPin, setShowManagerPin] = useState(false);
   const [selectedRowIndex, setSelectedRowIndex] = useState<number | null>(null);
   
-  const { settings } = useSettingsStore();
   // const { user } = useAuthStore(); // Not available yet
   const user = { id: 1, name: 'Admin', role: 'admin' }; // Mock user for now
   const t = useTranslation();
@@ -152,8 +150,6 @@ export default function Returns() {
     setError(null);
     setSuccess(null);
     setSelectedRowIndex(null);
-    setManagerPin('');
-    setShowManagerPin(false);
   };
 
   const updateReturnQty = (index: number, qty: number) => {
@@ -233,12 +229,6 @@ export default function Returns() {
       errors.push('Total refund amount must be greater than zero');
     }
     
-    // Check manager PIN requirement
-    const managerPinThreshold = settings?.refund?.managerPinThreshold || 5000;
-    if (totalRefund >= managerPinThreshold && !managerPin) {
-      errors.push(`Manager PIN required for refunds over ${managerPinThreshold}`);
-    }
-    
     return errors;
   };
 
@@ -249,15 +239,23 @@ export default function Returns() {
       return;
     }
 
-    if (getTotalRefund() >= (settings?.refund?.managerPinThreshold || 5000)) {
-      setShowManagerPin(true);
-        return;
+    // Over the cashier's own refund limit a manager approves with their PIN
+    const totalRefund = getTotalRefund();
+    const approval = await authService.requireWithinLimit(
+      'RETURNS_APPROVE',
+      { amount: totalRefund },
+      `Refund of ${totalRefund.toFixed(2)} is over your limit`,
+      { action: AUDIT_ACTIONS.REFUND_APPROVE, payload: { sale_id: sale!.id } }
+    );
+    if (!approval.approved) {
+      setError('Manager approval is required for this refund');
+      return;
     }
 
-    await processReturn();
+    await processReturn(approval);
   };
 
-  const processReturn = async () => {
+  const processReturn = async (approval: LimitApproval) => {
     setLoading(true);
     setError(null);
 
@@ -315,7 +313,7 @@ export default function Returns() {
         reason_summary: reasonSummary,
         language: selectedLanguage,
         cashier_id: user?.id,
-        manager_id: managerPin ? user?.id : null,
+        manager_id: approval.escalated ? approval.approvedBy?.id ?? null : null,
         terminal_name: 'POS-001' // FIXED: Get from settings
       });
 
@@ -605,47 +603,6 @@ export default function Returns() {
           </Card>
             </div>
           </div>
-
-        {/* Manager PIN Dialog */}
-      {showManagerPin && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-          <Card className="w-96">
-            <CardHeader>
-              <CardTitle>Manager PIN Required</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <p className="text-sm text-muted-foreground">
-                This refund exceeds the manager approval threshold. Please enter your PIN.
-              </p>
-              <Input
-                    type="password"
-                placeholder="Enter Manager PIN"
-                value={managerPin}
-                onChange={(e) => setManagerPin(e.target.value)}
-                onKeyDown={(e) => e.key === 'Enter' && processReturn()}
-              />
-              <div className="flex gap-2">
-                <Button 
-                  onClick={processReturn} 
-                  disabled={!managerPin}
-                  className="flex-1"
-                >
-                  Confirm
-                </Button>
-                <Button 
-                  variant="outline" 
-                  onClick={() => {
-                    setShowManagerPin(false);
-                    setManagerPin('');
-                  }}
-                >
-                  Cancel
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
-          </div>
-        )}
     </div>
   );
 }
\ No newline at end of file
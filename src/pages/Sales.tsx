@@ -16,7 +16,8 @@ import HoldCreateModal from '@/components/Hold/HoldCreateModal';
 import HoldListDrawer from '@/components/Hold/HoldListDrawer';
 import HoldResumeDialog from '@/components/Hold/HoldResumeDialog';
 import { PaymentModal } from '@/components/pos/PaymentModal';
-import { SETTINGS } from '@/config/settings';
+import { computeTaxes } from '@/lib/tax';
+import { taxService } from '@/services/taxService';
 
 interface CartLine {
   id: number;
@@ -881,7 +882,8 @@ export function Sales() {
             gross: totals.gross,
             discount: totals.discount,
             tax: totals.tax_total,
-            net: totals.net
+            net: totals.net,
+            taxBreakdown: totals.tax_breakdown
           },
           payments: {
             cash: paymentData.cash,
@@ -1000,8 +1002,6 @@ export function Sales() {
 
   // FIX: Centralized totals math — line discounts -> manual discount -> tax
   const getSaleTotals = () => {
-    const taxRate = SETTINGS.TAX_RATE;
-
     // line subtotal is qty * unit_price minus any line discount ALREADY applied per line (if any UI field exists)
     const gross = cartLines.reduce((acc, l) => acc + (l.unit_price * l.qty), 0);
 
@@ -1022,9 +1022,17 @@ export function Sales() {
 
     const discountedSubtotal = Math.max(0, baseForManual - manualDiscountValue);
 
-    // FIX: tax AFTER all discounts (no per-line tax sum)
-    const tax = +(discountedSubtotal * taxRate).toFixed(2);
-    const net = +(discountedSubtotal + tax).toFixed(2);
+    // Tax AFTER all discounts, per line under each product's tax code
+    const taxes = computeTaxes(
+      cartLines.map(l => ({
+        amount: (l.unit_price * l.qty) - (l.line_discount ? Number(l.line_discount) : 0),
+        taxCode: l.product?.tax_code
+      })),
+      taxService.getTaxCodes(),
+      manualDiscountValue
+    );
+    const tax = taxes.taxTotal;
+    const net = +(discountedSubtotal + taxes.exclusiveTax).toFixed(2);
 
     return {
       gross: +gross.toFixed(2),
@@ -1032,6 +1040,7 @@ export function Sales() {
       lineDiscounts: +lineDiscounts.toFixed(2),
       manualDiscount: +manualDiscountValue.toFixed(2),
       tax_total: tax,
+      tax_breakdown: taxes.breakdown,
       net: net
     };
   };
@@ -166,11 +166,11 @@ export function Sales() {
       // Try normal product lookup first
       let product = await dataService.getProductByBarcode(barcode);
       
-      if (!product && barcode.length > 13) {
+      if (!product) {
         // Try scale barcode parsing
         const scaleResult = posService.parseScaleBarcode(barcode);
         if (scaleResult) {
-          product = await dataService.getProductByBarcode(barcode.substring(0, 13));
+          product = await dataService.getProductBySku(scaleResult.item_code);
           if (product) {
             if (scaleResult.line_total) {
               // Price override
@@ -190,7 +190,7 @@ export function Sales() {
             }
             
             updateCartDisplay();
-            toast.success(`Added ${product.name_en} (${scaleResult.qty}kg)`);
+            toast.success(`Added ${product.name_en} (${scaleResult.line_total ? `Rs. ${scaleResult.line_total.toFixed(2)}` : `${scaleResult.qty}kg`})`);
             return;
           }
         }
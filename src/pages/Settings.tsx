@@ -13,9 +13,12 @@ import { LanguageFormattingSection } from '@/components/Settings/LanguageFormatt
 import { PricingPoliciesSection } from '@/components/Settings/PricingPoliciesSection';
 import { ReceiptOptionsSection } from '@/components/Settings/ReceiptOptionsSection';
 import { BackupsSection } from '@/components/Settings/BackupsSection';
+import { DataSourceSection } from '@/components/Settings/DataSourceSection';
+import { RemindersSection } from '@/components/Settings/RemindersSection';
+import { ShiftSettingsSection } from '@/components/Settings/ShiftSettingsSection';
 import CompanySettings from './Settings/Company';
 
-type SettingsSection = 'store-info' | 'devices' | 'language-formatting' | 'pricing-policies' | 'receipt-options' | 'backups' | 'company';
+type SettingsSection = 'store-info' | 'devices' | 'language-formatting' | 'pricing-policies' | 'receipt-options' | 'backups' | 'company' | 'data-source' | 'reminders' | 'shifts';
 
 const sectionConfig = [
   { id: 'store-info' as SettingsSection, label: 'Store Info', icon: SettingsIcon },
@@ -25,6 +28,9 @@ const sectionConfig = [
   { id: 'pricing-policies' as SettingsSection, label: 'Pricing Policies', icon: SettingsIcon },
   { id: 'receipt-options' as SettingsSection, label: 'Receipt Options', icon: SettingsIcon },
   { id: 'backups' as SettingsSection, label: 'Backups', icon: SettingsIcon },
+  { id: 'shifts' as SettingsSection, label: 'Shifts & Cash', icon: SettingsIcon },
+  { id: 'data-source' as SettingsSection, label: 'Data Source', icon: SettingsIcon },
+  { id: 'reminders' as SettingsSection, label: 'Payment Reminders', icon: SettingsIcon },
 ];
 
 export function Settings() {
@@ -246,6 +252,12 @@ export function Settings() {
         return <ReceiptOptionsSection {...commonProps} />;
       case 'backups':
         return <BackupsSection {...commonProps} />;
+      case 'shifts':
+        return <ShiftSettingsSection {...commonProps} />;
+      case 'data-source':
+        return <DataSourceSection {...commonProps} />;
+      case 'reminders':
+        return <RemindersSection />;
       default:
         return <StoreInfoSection {...commonProps} />;
     }
@@ -21,14 +21,20 @@ import {
 } from 'lucide-react';
 import { shiftService } from '../services/shiftService';
 import { useSettingsStore } from '../store/settingsStore';
+import { useAppStore } from '../store/appStore';
 import { Shift, ShiftMovement, ShiftSummary, ShiftMovementType } from '../types';
 import { useTranslation } from '../i18n';
+import { CashCountGrid, CashCountDraft, draftToCount } from '../components/Shifts/CashCountGrid';
+import { countTotal } from '@/lib/cashCount';
+import { shiftPrintAdapter } from '../adapters/print/ShiftPrintAdapter';
 
 export default function ShiftSession() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const t = useTranslation();
   const { settings } = useSettingsStore();
+  const { settings: appSettings } = useAppStore();
+  const denominations = appSettings.shiftSettings?.cashDenominations;
   
   const [shift, setShift] = useState<Shift | null>(null);
   const [movements, setMovements] = useState<ShiftMovement[]>([]);
@@ -40,9 +46,13 @@ export default function ShiftSession() {
   const [movementType, setMovementType] = useState<ShiftMovementType>('CASH_IN');
   const [movementAmount, setMovementAmount] = useState('');
   const [movementReason, setMovementReason] = useState('');
+  const [countDrop, setCountDrop] = useState(true);
+  const [dropCount, setDropCount] = useState<CashCountDraft>({});
   
   // Close shift form
   const [declaredCash, setDeclaredCash] = useState('');
+  const [countClosing, setCountClosing] = useState(true);
+  const [closingCount, setClosingCount] = useState<CashCountDraft>({});
   const [closeNote, setCloseNote] = useState('');
   const [showCloseModal, setShowCloseModal] = useState(false);
 
@@ -68,8 +78,19 @@ export default function ShiftSession() {
     }
   };
 
+  // Safe drops can be counted note by note; other movements are a single amount
+  const countingDrop = movementType === 'DROP' && countDrop;
+  const dropLines = countingDrop ? draftToCount(dropCount) : null;
+  const canAddMovement = countingDrop
+    ? !!dropLines && countTotal(dropLines) > 0
+    : !!movementAmount && parseFloat(movementAmount) > 0;
+
+  const closingLines = countClosing ? draftToCount(closingCount) : null;
+  const canClose = countClosing ? closingLines !== null : !!declaredCash && parseFloat(declaredCash) >= 0;
+  const declaredTotal = closingLines ? countTotal(closingLines) : parseFloat(declaredCash) || 0;
+
   const handleAddMovement = async () => {
-    if (!shift || !movementAmount || parseFloat(movementAmount) <= 0) {
+    if (!shift || !canAddMovement) {
       return;
     }
 
@@ -78,13 +99,14 @@ export default function ShiftSession() {
       await shiftService.addMovement({
         shift_id: shift.id!,
         type: movementType,
-        amount: parseFloat(movementAmount),
+        amount: dropLines ? countTotal(dropLines) : parseFloat(movementAmount),
         reason: movementReason || null
-      });
+      }, dropLines ?? undefined);
       
       // Reset form
       setMovementAmount('');
       setMovementReason('');
+      setDropCount({});
       
       // Reload data
       await loadShiftData();
@@ -96,13 +118,13 @@ export default function ShiftSession() {
   };
 
   const handleCloseShift = async () => {
-    if (!shift || !declaredCash || parseFloat(declaredCash) < 0) {
+    if (!shift || !canClose) {
       return;
     }
 
     try {
       setSaving(true);
-      await shiftService.closeShift(shift.id!, parseFloat(declaredCash), closeNote || undefined);
+      await shiftService.closeShift(shift.id!, closingLines ?? parseFloat(declaredCash), closeNote || undefined);
       
       // Reload data
       await loadShiftData();
@@ -132,13 +154,17 @@ export default function ShiftSession() {
     }
   };
 
+  const storeInfo = {
+    name: appSettings.storeInfo?.name ?? '',
+    address: appSettings.storeInfo?.address ?? ''
+  };
+
   const handleXReport = async () => {
     if (!shift) return;
     
     try {
       const reportData = await shiftService.xReportData(shift.id!);
-      // TODO: Open print modal
-      console.log('X Report data:', reportData);
+      await shiftPrintAdapter.print({ summary: reportData, reportType: 'X', storeInfo });
     } catch (error) {
       console.error('Error generating X report:', error);
     }
@@ -149,8 +175,7 @@ export default function ShiftSession() {
     
     try {
       const reportData = await shiftService.zReportData(shift.id!);
-      // TODO: Open print modal
-      console.log('Z Report data:', reportData);
+      await shiftPrintAdapter.print({ summary: reportData, reportType: 'Z', storeInfo });
     } catch (error) {
       console.error('Error generating Z report:', error);
     }
@@ -319,12 +344,28 @@ export default function ShiftSession() {
                           type="number"
                           step="0.01"
                           min="0"
-                          value={movementAmount}
+                          value={countingDrop ? (dropLines ? countTotal(dropLines).toFixed(2) : '') : movementAmount}
                           onChange={(e) => setMovementAmount(e.target.value)}
                           placeholder="0.00"
+                          disabled={countingDrop}
                         />
                       </div>
                     </div>
+                    {movementType === 'DROP' && (
+                      <div className="space-y-3">
+                        <label className="flex items-center gap-2 text-sm text-gray-600">
+                          <input
+                            type="checkbox"
+                            checked={countDrop}
+                            onChange={(e) => setCountDrop(e.target.checked)}
+                          />
+                          Count drop by denomination
+                        </label>
+                        {countDrop && (
+                          <CashCountGrid denominations={denominations} value={dropCount} onChange={setDropCount} />
+                        )}
+                      </div>
+                    )}
                     <div>
                       <FormLabel>Reason (Optional)</FormLabel>
                       <Input
@@ -335,7 +376,7 @@ export default function ShiftSession() {
                     </div>
                     <Button
                       onClick={handleAddMovement}
-                      disabled={saving || !movementAmount || parseFloat(movementAmount) <= 0}
+                      disabled={saving || !canAddMovement}
                       className="w-full"
                     >
                       <Plus className="h-4 w-4 mr-2" />
@@ -517,28 +558,135 @@ export default function ShiftSession() {
               </CardContent>
             </Card>
           )}
+
+          {/* Denomination Count */}
+          {summary?.cashCount && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Cash Count</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Denomination</TableHead>
+                      <TableHead className="text-right">Opening</TableHead>
+                      <TableHead className="text-right">Dropped</TableHead>
+                      <TableHead className="text-right">Counted</TableHead>
+                      <TableHead className="text-right">Difference</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {summary.cashCount.lines.map(line => (
+                      <TableRow key={line.denomination}>
+                        <TableCell>{formatCurrency(line.denomination)}</TableCell>
+                        <TableCell className="text-right">{line.opening}</TableCell>
+                        <TableCell className="text-right">{line.dropped}</TableCell>
+                        <TableCell className="text-right">{line.counted}</TableCell>
+                        <TableCell className="text-right">
+                          {line.difference >= 0 ? '+' : ''}{formatCurrency(line.difference)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                <div className="border-t pt-3 space-y-1 text-sm">
+                  {summary.cashCount.openingTotal !== null && (
+                    <div className="flex justify-between">
+                      <span>Opening Count:</span>
+                      <span>{formatCurrency(summary.cashCount.openingTotal)}</span>
+                    </div>
+                  )}
+                  {summary.cashCount.droppedTotal > 0 && (
+                    <div className="flex justify-between">
+                      <span>Counted Drops:</span>
+                      <span>{formatCurrency(summary.cashCount.droppedTotal)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span>Expected Takings:</span>
+                    <span>{formatCurrency(summary.cashCount.expectedTakings)}</span>
+                  </div>
+                  {summary.cashCount.countedTotal !== null && (
+                    <div className="flex justify-between">
+                      <span>Closing Count:</span>
+                      <span>{formatCurrency(summary.cashCount.countedTotal)}</span>
+                    </div>
+                  )}
+                  {summary.cashCount.variance !== null && (
+                    <div className={`flex justify-between font-bold ${
+                      summary.cashCount.variance === 0 ? 'text-green-600' :
+                      summary.cashCount.variance > 0 ? 'text-blue-600' : 'text-red-600'
+                    }`}>
+                      <span>Variance:</span>
+                      <span>
+                        {summary.cashCount.variance >= 0 ? '+' : ''}
+                        {formatCurrency(summary.cashCount.variance)}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
 
       {/* Close Shift Modal */}
       {showCloseModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <Card className="w-full max-w-md">
+          <Card className="w-full max-w-md max-h-[90vh] overflow-y-auto">
             <CardHeader>
               <CardTitle>Close Shift</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
               <div>
-                <FormLabel>Declared Cash Amount</FormLabel>
-                <Input
-                  type="number"
-                  step="0.01"
-                  min="0"
-                  value={declaredCash}
-                  onChange={(e) => setDeclaredCash(e.target.value)}
-                  placeholder="Enter counted cash amount"
-                />
+                <div className="flex items-center justify-between">
+                  <FormLabel>Closing Count</FormLabel>
+                  <label className="flex items-center gap-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={countClosing}
+                      onChange={(e) => setCountClosing(e.target.checked)}
+                    />
+                    Count by denomination
+                  </label>
+                </div>
+                {countClosing ? (
+                  <div className="mt-2 p-4 bg-gray-50 rounded-lg">
+                    <CashCountGrid denominations={denominations} value={closingCount} onChange={setClosingCount} />
+                  </div>
+                ) : (
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={declaredCash}
+                    onChange={(e) => setDeclaredCash(e.target.value)}
+                    placeholder="Enter counted cash amount"
+                  />
+                )}
               </div>
+
+              {summary && canClose && (
+                <div className="space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span>Expected Cash:</span>
+                    <span>{formatCurrency(summary.cashDrawer.expectedCash)}</span>
+                  </div>
+                  <div className={`flex justify-between font-semibold ${
+                    declaredTotal - summary.cashDrawer.expectedCash === 0 ? 'text-green-600' :
+                    declaredTotal - summary.cashDrawer.expectedCash > 0 ? 'text-blue-600' : 'text-red-600'
+                  }`}>
+                    <span>Variance:</span>
+                    <span>
+                      {declaredTotal - summary.cashDrawer.expectedCash >= 0 ? '+' : ''}
+                      {formatCurrency(declaredTotal - summary.cashDrawer.expectedCash)}
+                    </span>
+                  </div>
+                </div>
+              )}
               
               <div>
                 <FormLabel>Note (Optional)</FormLabel>
@@ -553,7 +701,7 @@ export default function ShiftSession() {
               <div className="flex gap-3">
                 <Button
                   onClick={handleCloseShift}
-                  disabled={saving || !declaredCash || parseFloat(declaredCash) < 0}
+                  disabled={saving || !canClose}
                   className="flex-1"
                 >
                   <CheckCircle className="h-4 w-4 mr-2" />
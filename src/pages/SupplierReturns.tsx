@@ -0,0 +1,268 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Plus, Search, RefreshCw, Eye } from 'lucide-react';
+import { dataService, Supplier } from '@/services/dataService';
+import { supplierReturnService, creditOutstanding } from '@/services/supplierReturnService';
+import { SupplierReturnModal } from '@/components/SupplierReturns/SupplierReturnModal';
+import {
+  SupplierReturnDetailsModal,
+  RETURN_STATUS_LABELS,
+  RETURN_STATUS_STYLES
+} from '@/components/SupplierReturns/SupplierReturnDetailsModal';
+import { formatCurrency } from '@/lib/currency';
+import { SupplierReturn, SupplierReturnStatus } from '@/types';
+
+interface FilterState {
+  search: string;
+  status: SupplierReturnStatus | 'all';
+  supplierId: string;
+}
+
+export function SupplierReturns() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [returns, setReturns] = useState<SupplierReturn[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<FilterState>({
+    search: '',
+    status: 'all',
+    supplierId: ''
+  });
+
+  // Modals; ?grn=<id> opens a new return against that GRN
+  const grnParam = searchParams.get('grn');
+  const [showCreateModal, setShowCreateModal] = useState(!!grnParam);
+  const [viewingId, setViewingId] = useState<number | null>(null);
+
+  const debounceRef = useRef<NodeJS.Timeout>();
+
+  useEffect(() => {
+    dataService.getSuppliers(false)
+      .then(setSuppliers)
+      .catch(err => console.error('Failed to load suppliers:', err));
+  }, []);
+
+  // Debounced search effect
+  useEffect(() => {
+    if (debounceRef.current) {
+      clearTimeout(debounceRef.current);
+    }
+    debounceRef.current = setTimeout(() => {
+      loadData();
+    }, 250);
+  }, [filters]);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      setReturns(await supplierReturnService.list({
+        q: filters.search || undefined,
+        status: filters.status === 'all' ? undefined : filters.status,
+        supplierId: filters.supplierId ? Number(filters.supplierId) : undefined,
+        limit: 200
+      }));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load supplier returns:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load supplier returns');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const closeCreateModal = () => {
+    setShowCreateModal(false);
+    if (grnParam) setSearchParams({});
+  };
+
+  const supplierName = (id: number) => suppliers.find(supplier => supplier.id === id)?.supplier_name ?? `#${id}`;
+
+  const formatDate = (value: string | null): string => {
+    if (!value) return '-';
+    return new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`).toLocaleDateString('en-GB');
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Supplier Returns</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              Send damaged, expired or recalled goods back, print the debit note and track the supplier's credit
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setShowCreateModal(true)}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New Return
+            </button>
+            <button
+              onClick={loadData}
+              className="flex items-center px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+              disabled={loading}
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <input
+              type="text"
+              placeholder="Search by return number or note..."
+              value={filters.search}
+              onChange={(e) => setFilters(prev => ({ ...prev, search: e.target.value }))}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-500"
+            />
+          </div>
+
+          <select
+            value={filters.status}
+            onChange={(e) => setFilters(prev => ({ ...prev, status: e.target.value as FilterState['status'] }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white"
+          >
+            <option value="all">All Status</option>
+            <option value="draft">Draft</option>
+            <option value="posted">Awaiting Credit</option>
+            <option value="credited">Credited</option>
+          </select>
+
+          <select
+            value={filters.supplierId}
+            onChange={(e) => setFilters(prev => ({ ...prev, supplierId: e.target.value }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white"
+          >
+            <option value="">All Suppliers</option>
+            {suppliers.map(supplier => (
+              <option key={supplier.id} value={supplier.id}>{supplier.supplier_name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mx-6 mt-4 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Returns Table */}
+      <div className="flex-1 overflow-auto">
+        <div className="bg-white">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50 sticky top-0 z-10">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Return No
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Supplier
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Total
+                  </th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Credit Due
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {loading && returns.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                      <RefreshCw className="w-6 h-6 animate-spin mx-auto mb-2" />
+                      Loading supplier returns...
+                    </td>
+                  </tr>
+                ) : returns.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                      No supplier returns found matching your filters.
+                    </td>
+                  </tr>
+                ) : (
+                  returns.map(supplierReturn => (
+                    <tr key={supplierReturn.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                        {supplierReturn.return_no}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        {supplierName(supplierReturn.supplier_id)}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        {formatDate(supplierReturn.posted_at ?? supplierReturn.created_at)}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-900">
+                        {formatCurrency(supplierReturn.total)}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-900">
+                        {supplierReturn.status === 'draft' ? '-' : formatCurrency(creditOutstanding(supplierReturn))}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${RETURN_STATUS_STYLES[supplierReturn.status]}`}>
+                          {RETURN_STATUS_LABELS[supplierReturn.status]}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <button
+                          onClick={() => setViewingId(supplierReturn.id)}
+                          className="text-blue-600 hover:text-blue-800"
+                          title="View"
+                        >
+                          <Eye className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {showCreateModal && (
+        <SupplierReturnModal
+          suppliers={suppliers}
+          initialGrnId={grnParam ? Number(grnParam) : null}
+          onClose={closeCreateModal}
+          onSaved={(details) => {
+            closeCreateModal();
+            setViewingId(details.supplier_return.id);
+            loadData();
+          }}
+        />
+      )}
+
+      {viewingId !== null && (
+        <SupplierReturnDetailsModal
+          returnId={viewingId}
+          onClose={() => setViewingId(null)}
+          onChanged={loadData}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Plus, Search, RefreshCw, Eye } from 'lucide-react';
+import { storeService } from '@/services/storeService';
+import { transferService } from '@/services/transferService';
+import { TransferModal } from '@/components/Transfers/TransferModal';
+import {
+  TransferDetailsModal,
+  TRANSFER_STATUS_LABELS,
+  TRANSFER_STATUS_STYLES
+} from '@/components/Transfers/TransferDetailsModal';
+import { Store, StockTransfer, TransferStatus } from '@/types';
+
+interface FilterState {
+  search: string;
+  status: TransferStatus | 'all';
+  storeId: string;
+}
+
+export function Transfers() {
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [stores, setStores] = useState<Store[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Start with the transfers in and out of this terminal's store
+  const [filters, setFilters] = useState<FilterState>({
+    search: '',
+    status: 'all',
+    storeId: String(storeService.currentStoreId() ?? '')
+  });
+
+  // Modals
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [viewingId, setViewingId] = useState<number | null>(null);
+
+  const debounceRef = useRef<NodeJS.Timeout>();
+
+  useEffect(() => {
+    storeService.list()
+      .then(setStores)
+      .catch(err => console.error('Failed to load stores:', err));
+  }, []);
+
+  // Debounced search effect
+  useEffect(() => {
+    if (debounceRef.current) {
+      clearTimeout(debounceRef.current);
+    }
+    debounceRef.current = setTimeout(() => {
+      loadData();
+    }, 250);
+  }, [filters]);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      setTransfers(await transferService.list({
+        q: filters.search || undefined,
+        status: filters.status === 'all' ? undefined : filters.status,
+        storeId: filters.storeId ? Number(filters.storeId) : undefined,
+        limit: 200
+      }));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load transfers:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load transfers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const storeName = (id: number) => stores.find(store => store.id === id)?.name ?? `#${id}`;
+
+  const formatDate = (value: string | null): string => {
+    if (!value) return '-';
+    return new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`).toLocaleDateString('en-GB');
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Stock Transfers</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              Request stock from another store, dispatch it and receive it at the other end
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setShowCreateModal(true)}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New Transfer
+            </button>
+            <button
+              onClick={loadData}
+              className="flex items-center px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+              disabled={loading}
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <input
+              type="text"
+              placeholder="Search by transfer number or note..."
+              value={filters.search}
+              onChange={(e) => setFilters(prev => ({ ...prev, search: e.target.value }))}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-500"
+            />
+          </div>
+
+          <select
+            value={filters.status}
+            onChange={(e) => setFilters(prev => ({ ...prev, status: e.target.value as FilterState['status'] }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white"
+          >
+            <option value="all">All Status</option>
+            <option value="requested">Requested</option>
+            <option value="in_transit">In Transit</option>
+            <option value="received">Received</option>
+          </select>
+
+          <select
+            value={filters.storeId}
+            onChange={(e) => setFilters(prev => ({ ...prev, storeId: e.target.value }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white"
+          >
+            <option value="">All Stores</option>
+            {stores.map(store => (
+              <option key={store.id} value={store.id}>{store.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mx-6 mt-4 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Transfers Table */}
+      <div className="flex-1 overflow-auto">
+        <div className="bg-white">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50 sticky top-0 z-10">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Transfer No
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    From
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    To
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {loading && transfers.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
+                      <RefreshCw className="w-6 h-6 animate-spin mx-auto mb-2" />
+                      Loading transfers...
+                    </td>
+                  </tr>
+                ) : transfers.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
+                      No transfers found matching your filters.
+                    </td>
+                  </tr>
+                ) : (
+                  transfers.map(transfer => (
+                    <tr key={transfer.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                        {transfer.transfer_no}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        {storeName(transfer.from_store)}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        {storeName(transfer.to_store)}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        {formatDate(transfer.created_at)}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${TRANSFER_STATUS_STYLES[transfer.status]}`}>
+                          {TRANSFER_STATUS_LABELS[transfer.status]}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <button
+                          onClick={() => setViewingId(transfer.id)}
+                          className="text-blue-600 hover:text-blue-800"
+                          title="View"
+                        >
+                          <Eye className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {showCreateModal && (
+        <TransferModal
+          stores={stores}
+          onClose={() => setShowCreateModal(false)}
+          onSaved={(details) => {
+            setShowCreateModal(false);
+            setViewingId(details.transfer.id);
+            loadData();
+          }}
+        />
+      )}
+
+      {viewingId !== null && (
+        <TransferDetailsModal
+          transferId={viewingId}
+          onClose={() => setViewingId(null)}
+          onChanged={loadData}
+        />
+      )}
+    </div>
+  );
+}
@@ -40,6 +40,7 @@ import RequirePerm from '@/components/Security/RequirePerm';
 import UserModal from '@/components/Users/UserModal';
 import PinResetDialog from '@/components/Users/PinResetDialog';
 import UsersCSVModal from '@/components/Users/UsersCSVModal';
+import RolePermissionsMatrix from '@/components/Users/RolePermissionsMatrix';
 
 const Users: React.FC = () => {
   const navigate = useNavigate();
@@ -477,7 +478,7 @@ const Users: React.FC = () => {
                           </div>
                         </td>
                         <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
-                          {user.pin ? (
+                          {user.pin_set ? (
                             <span className="text-green-600 dark:text-green-400">Set</span>
                           ) : (
                             <span className="text-amber-600 dark:text-amber-400">Not Set</span>
@@ -547,6 +548,8 @@ const Users: React.FC = () => {
               </div>
             )}
           </div>
+
+          <RolePermissionsMatrix users={users} />
         </div>
 
         {/* Modals */}
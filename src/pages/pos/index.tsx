@@ -5,6 +5,9 @@ import { useCartStore } from '@/store/cartStore';
 import { useUIStore } from '@/store/uiStore';
 import { keyboardManager, POS_SHORTCUTS } from '@/lib/keyboard';
 import { toast } from 'react-hot-toast';
+import { buildCheckoutSale, checkoutService, CheckoutError } from '@/services/checkoutService';
+import { saleQueueService } from '@/services/saleQueueService';
+import { useAppStore } from '@/store/appStore';
 
 // Components
 import { SearchScan } from '@/components/pos/SearchScan';
@@ -46,6 +49,8 @@ export default function SalesPage() {
     updateTime 
   } = useUIStore();
 
+  const { currentUser, terminal } = useAppStore();
+
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -189,6 +194,7 @@ export default function SalesPage() {
       lines: items.map(item => ({
         name: item.name,
         qty: item.qty,
+        unit: item.unit,
         price: item.retail_price,
         total: item.qty * item.retail_price
       })),
@@ -197,6 +203,7 @@ export default function SalesPage() {
         item_discounts_total: totals.item_discounts_total,
         manual_discount_value: totals.manual_discount_amount,
         tax_total: totals.tax_total,
+        tax_breakdown: totals.tax_breakdown,
         grand_total: totals.net_total
       },
       payments: [{
@@ -349,80 +356,40 @@ export default function SalesPage() {
           onClose={() => setShowPaymentModal(false)}
           onConfirm={async (paymentData) => {
             try {
-              // Process payment
-              const apiBaseUrl = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8100';
-              const response = await fetch(`${apiBaseUrl}/api/invoices`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                  lines: items.map(item => ({
-                    item_id: item.product_id,
-                    name: item.name,
-                    sku: item.sku,
-                    qty: item.qty,
-                    price_tier: priceTier,
-                    retail_price: item.retail_price,
-                    line_discount_type: item.line_discount_type,
-                    line_discount_value: item.line_discount_value
-                  })),
-                  customer_id: customerId,
-                  price_tier: priceTier,
-                  manual_discount: {
-                    type: 'FIXED_AMOUNT', // From cart store
-                    value: 0 // From cart store
-                  },
-                  tax_rate: 0.15,
-                  payments: (paymentData.payments || []).map(p => ({ method: p.method, amount: p.amount, ref: p.reference })),
-                  operator_id: 1, // From auth
-                  terminal_id: terminalId,
-                  print_language: printLanguage
-                })
+              const payments = (paymentData.payments || []).map(p => ({ method: p.method, amount: p.amount || 0 }));
+              const checkout = buildCheckoutSale({ items, totals, priceTier, customerId }, payments, {
+                cashierId: currentUser?.id ?? 0,
+                terminalName: terminal,
+                language: printLanguage.toUpperCase() as 'EN' | 'SI' | 'TA'
               });
-
-              if (response.ok) {
-                const data = await response.json();
-                
-                // Automatic receipt printing
-                if (data.auto_print && data.printable) {
-                  try {
-                    const printResponse = await fetch(`${apiBaseUrl}/api/print`, {
-                      method: 'POST',
-                      headers: { 'Content-Type': 'application/json' },
-                      body: JSON.stringify({
-                        receipt_no: data.receipt_no,
-                        type: 'receipt',
-                        language: printLanguage,
-                        payload: data.printable
-                      })
-                    });
-                    
-                    if (printResponse.ok) {
-                      toast.success(`Invoice ${data.receipt_no} created and printed successfully!`);
-                    } else {
-                      toast.success(`Invoice ${data.receipt_no} created successfully!`);
-                      console.warn('Print failed but invoice created');
-                    }
-                  } catch (printError) {
-                    console.warn('Print failed:', printError);
-                    toast.success(`Invoice ${data.receipt_no} created successfully!`);
-                  }
-                } else {
-                  toast.success(`Invoice ${data.receipt_no} created successfully!`);
-                }
-
-                // Clear cart and close modal for next transaction
-                clearCart();
-                setShowPaymentModal(false);
-                
-                // Show success message with invoice number
-                toast.success(`Transaction completed! Invoice: ${data.receipt_no}`);
+              const receiptNo = checkout.sale.invoice_number;
+              const chargedAmount = payments
+                .filter(p => p.method === 'CREDIT')
+                .reduce((sum, p) => sum + p.amount, 0);
+
+              // Offline-first: the sale is complete once it is in the durable queue, which posts it to
+              // the server now or when connectivity returns. The server charges the account with the
+              // sale and refuses both if the charge is refused, so credit sales are sent straight away
+              // and stay open in the payment screen until they go through.
+              if (chargedAmount > 0) {
+                if (!customerId) throw new CheckoutError('Select a customer for Credit sales');
+                await checkoutService.submit(
+                  { ...checkout, approval: paymentData.creditApproval },
+                  paymentData.saleKey ?? crypto.randomUUID()
+                );
               } else {
-                const error = await response.json();
-                toast.error(error.error || 'Payment failed');
+                await saleQueueService.enqueue(checkout.sale, checkout.lines, checkout.payments);
               }
+
+              // Clear cart and close modal for next transaction
+              clearCart();
+              setShowPaymentModal(false);
+
+              // Show success message with invoice number
+              toast.success(`Transaction completed! Invoice: ${receiptNo}`);
             } catch (error) {
               console.error('Payment error:', error);
-              toast.error('Payment failed');
+              toast.error(error instanceof CheckoutError ? error.message : 'Payment failed');
             }
           }}
         />
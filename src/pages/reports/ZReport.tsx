@@ -1,4 +1,6 @@
 import React, { useEffect, useState } from 'react';
+import { useAppStore } from '@/store/appStore';
+import { apiRequest, getServerBaseUrl } from '@/utils/api';
 
 export default function ZReportPage() {
   const [date, setDate] = useState<string>(() => new Date().toISOString().slice(0, 10));
@@ -7,13 +9,13 @@ export default function ZReportPage() {
   const [totalsByMethod, setTotalsByMethod] = useState<Record<string, number>>({});
   const [net, setNet] = useState(0);
 
-  const apiBaseUrl = (import.meta as any).env?.VITE_API_BASE_URL || 'http://localhost:8100';
+  const apiBaseUrl = getServerBaseUrl(useAppStore.getState().settings?.dataSource);
 
   const load = async () => {
     setLoading(true);
     setError(null);
     try {
-      const res = await fetch(`${apiBaseUrl}/api/reports/z?date=${date}`);
+      const res = await apiRequest(`${apiBaseUrl}/api/reports/z?date=${date}`);
       const data = await res.json();
       if (!res.ok) throw new Error(data.error || 'Failed to load');
       setTotalsByMethod(data.totalsByMethod || {});
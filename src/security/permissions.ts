@@ -1,21 +1,26 @@
 /**
  * Security Permissions and Roles
- * Defines role-based access control for the POS system
+ * Defines role-based access control for the POS system.
+ *
+ * Grants are kept on the POS server in roles/role_permissions and edited from the Users page;
+ * a signed-in user carries the grants of all their roles. DEFAULT_PERMISSIONS are the built-in
+ * roles' grants the server starts from, and apply as they are without a server.
  */
 
 export const ROLES = ['CASHIER', 'MANAGER', 'ADMIN', 'AUDITOR'] as const;
 export type Role = typeof ROLES[number];
 
-export const PERMISSIONS = {
+export const DEFAULT_PERMISSIONS = {
   // Sales Operations
   VIEW_SALES: ['CASHIER', 'MANAGER', 'ADMIN', 'AUDITOR'],
   TAKE_PAYMENT: ['CASHIER', 'MANAGER', 'ADMIN'],
   PRICE_OVERRIDE: ['MANAGER', 'ADMIN'],
-  DISCOUNT_OVERRIDE: ['MANAGER', 'ADMIN'],
+  DISCOUNT_OVERRIDE: ['CASHIER', 'MANAGER', 'ADMIN'],
+  CREDIT_LIMIT_OVERRIDE: ['MANAGER', 'ADMIN'],
   
   // Returns & Refunds
   RETURNS_CREATE: ['CASHIER', 'MANAGER', 'ADMIN'],
-  RETURNS_APPROVE: ['MANAGER', 'ADMIN'],
+  RETURNS_APPROVE: ['CASHIER', 'MANAGER', 'ADMIN'],
   VOID_UNFINALIZED: ['CASHIER', 'MANAGER', 'ADMIN'],
   VOID_FINALIZED: ['MANAGER', 'ADMIN'],
   
@@ -57,23 +62,94 @@ export const PERMISSIONS = {
   HEALTH_EXPORT: ['ADMIN'],
 } as const;
 
-export type Permission = keyof typeof PERMISSIONS;
+export type Permission = keyof typeof DEFAULT_PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(DEFAULT_PERMISSIONS) as Permission[];
+
+/** Permissions a grant can cap at an amount or a percentage, e.g. discounts up to 5% or 500.00 */
+export const LIMITED_PERMISSIONS: readonly Permission[] = [
+  'PRICE_OVERRIDE',
+  'DISCOUNT_OVERRIDE',
+  'CREDIT_LIMIT_OVERRIDE',
+  'RETURNS_APPROVE',
+  'VOID_FINALIZED'
+];
+
+/** Caps on a limited permission; a missing cap does not limit */
+export interface PermissionLimit {
+  amount?: number;
+  percent?: number;
+}
+
+/** Limits the built-in roles ship with; above them a manager PIN is needed */
+export const DEFAULT_LIMITS: Partial<Record<Role, Partial<Record<Permission, PermissionLimit>>>> = {
+  CASHIER: {
+    DISCOUNT_OVERRIDE: { amount: 500, percent: 5 },
+    RETURNS_APPROVE: { amount: 2000 }
+  }
+};
 
 /**
- * Check if a role has a specific permission
+ * What a user may do: the permissions granted by any of their roles, and for limited
+ * permissions the highest amount and percentage any of those roles allows (absent when one
+ * is unlimited).
  */
-export function hasPermission(userRole: Role, permission: Permission): boolean {
-  const allowedRoles = PERMISSIONS[permission] as readonly Role[];
-  return allowedRoles.includes(userRole);
+export interface PermissionGrants {
+  roles: string[];
+  permissions: string[];
+  limits?: Record<string, number>;
+  percentLimits?: Record<string, number>;
+}
+
+/** Grants of a built-in role as shipped, used when there is no server to ask */
+export function defaultGrants(role: Role): PermissionGrants {
+  const limits: Record<string, number> = {};
+  const percentLimits: Record<string, number> = {};
+  Object.entries(DEFAULT_LIMITS[role] ?? {}).forEach(([permission, limit]) => {
+    if (limit?.amount !== undefined) limits[permission] = limit.amount;
+    if (limit?.percent !== undefined) percentLimits[permission] = limit.percent;
+  });
+  return { roles: [role], permissions: getRolePermissions(role), limits, percentLimits };
+}
+
+/**
+ * The caps on a permission the grants hold: `{}` when unlimited, null when not held at all
+ */
+export function permissionLimit(grants: PermissionGrants, permission: Permission): PermissionLimit | null {
+  if (grants.roles.includes('ADMIN')) return {};
+  if (!grants.permissions.includes(permission)) return null;
+  const limit: PermissionLimit = {};
+  if (grants.limits?.[permission] !== undefined) limit.amount = grants.limits[permission];
+  if (grants.percentLimits?.[permission] !== undefined) limit.percent = grants.percentLimits[permission];
+  return limit;
+}
+
+/**
+ * Check granted permissions, and for limited permissions that `value` is within the limits.
+ * A bare number is an amount; a discount can be checked by amount and percentage together,
+ * and must then be within both. ADMIN holds every permission without limit.
+ */
+export function hasPermission(
+  grants: PermissionGrants,
+  permission: Permission,
+  value?: number | PermissionLimit
+): boolean {
+  const limit = permissionLimit(grants, permission);
+  if (!limit) return false;
+  const { amount, percent } = typeof value === 'number' ? { amount: value, percent: undefined } : value ?? {};
+  return (
+    (amount === undefined || limit.amount === undefined || amount <= limit.amount) &&
+    (percent === undefined || limit.percent === undefined || percent <= limit.percent)
+  );
 }
 
 /**
  * Get all permissions for a role
  */
 export function getRolePermissions(role: Role): Permission[] {
-  return Object.keys(PERMISSIONS).filter(permission => 
-    hasPermission(role, permission as Permission)
-  ) as Permission[];
+  return ALL_PERMISSIONS.filter(permission =>
+    (DEFAULT_PERMISSIONS[permission] as readonly Role[]).includes(role)
+  );
 }
 
 /**
@@ -81,7 +157,7 @@ export function getRolePermissions(role: Role): Permission[] {
  */
 export function canEscalate(fromRole: Role, toPermission: Permission): boolean {
   // Only allow escalation to Manager/Admin permissions
-  const allowedRoles = PERMISSIONS[toPermission] as readonly Role[];
+  const allowedRoles = DEFAULT_PERMISSIONS[toPermission] as readonly Role[];
   return allowedRoles.includes('MANAGER') || allowedRoles.includes('ADMIN');
 }
 
@@ -89,7 +165,7 @@ export function canEscalate(fromRole: Role, toPermission: Permission): boolean {
  * Get minimum role required for a permission
  */
 export function getMinimumRole(permission: Permission): Role {
-  const allowedRoles = PERMISSIONS[permission] as readonly Role[];
+  const allowedRoles = DEFAULT_PERMISSIONS[permission] as readonly Role[];
   
   // Return the lowest privilege role that has this permission
   for (const role of ['CASHIER', 'AUDITOR', 'MANAGER', 'ADMIN'] as Role[]) {
@@ -109,7 +185,8 @@ export const PERMISSION_GROUPS = {
     'VIEW_SALES',
     'TAKE_PAYMENT', 
     'PRICE_OVERRIDE',
-    'DISCOUNT_OVERRIDE'
+    'DISCOUNT_OVERRIDE',
+    'CREDIT_LIMIT_OVERRIDE'
   ],
   'Returns & Voids': [
     'RETURNS_CREATE',
@@ -118,6 +195,7 @@ export const PERMISSION_GROUPS = {
     'VOID_FINALIZED'
   ],
   'Shift Management': [
+    'SHIFTS_VIEW',
     'SHIFT_START',
     'SHIFT_X_REPORT',
     'SHIFT_Z_CLOSE'
@@ -128,13 +206,22 @@ export const PERMISSION_GROUPS = {
     'GRN_CREATE',
     'GRN_POST'
   ],
+  'Hold Operations': [
+    'HOLD_CREATE',
+    'HOLD_RESUME',
+    'HOLD_DELETE'
+  ],
   'System & Settings': [
     'SETTINGS_VIEW',
     'SETTINGS_WRITE',
     'BACKUP_CREATE',
-    'BACKUP_RESTORE'
+    'BACKUP_RESTORE',
+    'USER_MANAGEMENT',
+    'HEALTH_VIEW',
+    'HEALTH_EXPORT'
   ],
   'Reports & Audit': [
+    'REPORTS_VIEW_BASIC',
     'REPORTS_VIEW_ALL',
     'EXPORT_CSV',
     'AUDIT_VIEW',
@@ -1,10 +1,14 @@
 /**
  * Audit Service
- * Handles audit logging, tracking, and reporting for security compliance
+ * Handles audit logging, tracking, and reporting for security compliance.
+ * With a POS server the log is hash-chained there: entries cannot be edited or deleted, the
+ * chain can be verified from the Audit page, and expired entries are archived to signed files.
  */
 
 import { dataService } from './dataService';
-import { authService } from './authService';
+import { authService, LimitApproval } from './authService';
+import { getServerBaseUrl, serverRequest, ServiceError } from '@/utils/api';
+import { useAppStore } from '../store/appStore';
 
 export interface AuditLog {
   id: number;
@@ -17,6 +21,10 @@ export interface AuditLog {
   entity_id?: string;
   payload_json?: string;
   created_at: string;
+  /** Hash of the entry before this one (server mode) */
+  prev_hash?: string | null;
+  /** SHA-256 over prev_hash and this entry's fields (server mode) */
+  hash?: string | null;
 }
 
 export interface AuditLogInput {
@@ -38,6 +46,89 @@ export interface AuditFilters {
   offset?: number;
 }
 
+export interface AuditChainBreak {
+  id: number;
+  /** LINK_BROKEN: entries removed or inserted before it; CONTENT_CHANGED: entry edited; UNHASHED: written around the chain */
+  reason: 'LINK_BROKEN' | 'CONTENT_CHANGED' | 'UNHASHED';
+  previous_id: number | null;
+  expected: string;
+  found: string | null;
+}
+
+export interface AuditChainVerification {
+  ok: boolean;
+  checked: number;
+  first_id: number | null;
+  last_id: number | null;
+  anchor_hash: string;
+  head_hash: string;
+  breaks: AuditChainBreak[];
+  archives: Array<{ file: string; ok: boolean; error?: string }>;
+  verified_at: string;
+}
+
+export interface AuditArchive {
+  id: number;
+  file: string;
+  first_id: number;
+  last_id: number;
+  entries: number;
+  first_prev_hash: string;
+  last_hash: string;
+  file_sha256: string;
+  created_at: string;
+}
+
+/** Signed export from the POS server; check `signature` against `public_key` and its `fingerprint` */
+export interface AuditBundle {
+  format: number;
+  kind: 'audit-export';
+  generated_at: string;
+  generated_by: string;
+  chain: Omit<AuditChainVerification, 'archives' | 'verified_at'>;
+  entries: Array<Record<string, unknown>>;
+  public_key: string;
+  fingerprint: string;
+  signature: string;
+}
+
+interface ServerAuditLog {
+  id: number;
+  action: string;
+  actor_id: number | null;
+  actor_name: string | null;
+  terminal: string | null;
+  entity: string | null;
+  entity_id: string | null;
+  meta: unknown;
+  created_at: string;
+  prev_hash: string | null;
+  hash: string | null;
+}
+
+export class AuditServiceError extends ServiceError {}
+
+// The server stores UTC times as 'YYYY-MM-DD HH:MM:SS'
+const fromServerTime = (value: string) => (value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+
+function fromServerLog(row: ServerAuditLog): AuditLog {
+  const at = fromServerTime(row.created_at);
+  return {
+    id: row.id,
+    at,
+    created_at: at,
+    user_id: row.actor_id ?? 0,
+    user_name: row.actor_name ?? '',
+    terminal: row.terminal ?? undefined,
+    action: row.action,
+    entity: row.entity ?? undefined,
+    entity_id: row.entity_id ?? undefined,
+    payload_json: row.meta == null ? undefined : JSON.stringify(row.meta),
+    prev_hash: row.prev_hash,
+    hash: row.hash
+  };
+}
+
 // Common audit actions
 export const AUDIT_ACTIONS = {
   // Authentication
@@ -54,6 +145,7 @@ export const AUDIT_ACTIONS = {
   SALE_COMPLETE: 'SALE_COMPLETE',
   PRICE_OVERRIDE: 'PRICE_OVERRIDE',
   DISCOUNT_OVERRIDE: 'DISCOUNT_OVERRIDE',
+  CREDIT_LIMIT_OVERRIDE: 'CREDIT_LIMIT_OVERRIDE',
   SALE_VOID: 'SALE_VOID',
   
   // Returns & Refunds
@@ -101,9 +193,20 @@ export const AUDIT_ACTIONS = {
   // Data Access
   AUDIT_VIEW: 'AUDIT_VIEW',
   AUDIT_EXPORT: 'AUDIT_EXPORT',
+  AUDIT_VERIFY: 'AUDIT_VERIFY',
+  AUDIT_ARCHIVE: 'AUDIT_ARCHIVE',
 } as const;
 
-class AuditService {
+export class AuditService {
+  isServerMode(): boolean {
+    return useAppStore.getState().settings?.dataSource?.mode === 'server';
+  }
+
+  private request<T>(path: string, options: RequestInit = {}): Promise<T> {
+    const baseUrl = getServerBaseUrl(useAppStore.getState().settings?.dataSource);
+    return serverRequest<T>(baseUrl, `/api${path}`, options, AuditServiceError);
+  }
+
   /**
    * Log an audit event
    */
@@ -116,6 +219,22 @@ class AuditService {
       }
 
       const terminal = input.terminal || this.getCurrentTerminal();
+
+      if (this.isServerMode()) {
+        // The server records it as the signed-in user and chains it to the entry before
+        await this.request('/audit/entries', {
+          method: 'POST',
+          body: JSON.stringify({
+            action: input.action,
+            terminal,
+            entity: input.entity || null,
+            entity_id: input.entityId?.toString() || null,
+            meta: input.payload ?? null
+          })
+        });
+        return;
+      }
+
       const payloadJson = input.payload ? JSON.stringify(input.payload) : null;
 
       await dataService.execute(
@@ -151,6 +270,10 @@ class AuditService {
     hasMore: boolean;
   }> {
     try {
+      if (this.isServerMode()) {
+        return await this.listFromServer(filters);
+      }
+
       let query = `
         SELECT * FROM audit_logs
         WHERE 1=1
@@ -214,6 +337,52 @@ class AuditService {
     }
   }
 
+  private async listFromServer(filters: AuditFilters) {
+    const limit = filters.limit || 50;
+    const offset = filters.offset || 0;
+    const params = new URLSearchParams({ sort: 'id', order: 'desc', limit: String(limit), offset: String(offset) });
+    if (filters.dateFrom) params.set('from', filters.dateFrom);
+    if (filters.dateTo) params.set('to', `${filters.dateTo} 23:59:59`);
+    if (filters.userId) params.set('actor_id', String(filters.userId));
+    if (filters.action) params.set('action', filters.action);
+    if (filters.entity) params.set('entity', filters.entity);
+    if (filters.search) params.set('q', filters.search);
+
+    const data = await this.request<{ logs: ServerAuditLog[]; total: number }>(`/audit-logs?${params}`);
+    return {
+      logs: data.logs.map(fromServerLog),
+      total: data.total,
+      hasMore: offset + data.logs.length < data.total
+    };
+  }
+
+  /**
+   * Check the server's hash chain and archive files, reporting each entry where it breaks
+   */
+  async verifyChain(): Promise<AuditChainVerification> {
+    const { result } = await this.request<{ result: AuditChainVerification }>('/audit/verify');
+    return result;
+  }
+
+  /**
+   * Signed bundle of the entries written between two dates, for auditors; the server logs the export
+   */
+  async exportSignedBundle(range: { dateFrom?: string; dateTo?: string } = {}): Promise<AuditBundle> {
+    const params = new URLSearchParams();
+    if (range.dateFrom) params.set('from', range.dateFrom);
+    if (range.dateTo) params.set('to', range.dateTo);
+    const query = params.toString();
+    return this.request<AuditBundle>(`/audit/bundle${query ? `?${query}` : ''}`);
+  }
+
+  /**
+   * Archive files already written, and how many days entries stay in the live log
+   */
+  async listArchives(): Promise<{ archives: AuditArchive[]; retentionDays: number }> {
+    const data = await this.request<{ archives: AuditArchive[]; retention_days: number }>('/audit/archives');
+    return { archives: data.archives, retentionDays: data.retention_days };
+  }
+
   /**
    * Get recent audit events for health check
    */
@@ -344,6 +513,25 @@ class AuditService {
     });
   }
 
+  /**
+   * Log a limited operation with the value, the user's limit and who approved it. Without a
+   * server only; with one, manager approvals are recorded by the server as it checks the PIN.
+   */
+  async logLimitedOperation(action: string, approval: LimitApproval, payload: Record<string, any> = {}): Promise<void> {
+    await this.log({
+      action,
+      payload: {
+        ...payload,
+        value: approval.value,
+        limit: approval.limit,
+        escalated: approval.escalated,
+        cashier_id: authService.getCurrentUser()?.id ?? null,
+        approved_by_id: approval.approvedBy?.id ?? null,
+        approved_by: approval.approvedBy?.name ?? null
+      }
+    });
+  }
+
   /**
    * Log permission denied
    */
@@ -368,36 +556,15 @@ class AuditService {
   }
 
   /**
-   * Clean old audit logs (for maintenance)
+   * Archive entries older than `daysToKeep` into a signed file on the server; entries are never
+   * deleted outright. Returns null when nothing was old enough.
    */
-  async cleanOldLogs(daysToKeep: number = 90): Promise<number> {
-    try {
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
-      
-      const result = await dataService.execute(
-        'DELETE FROM audit_logs WHERE at < ?',
-        [cutoffDate.toISOString()]
-      );
-
-      const deletedCount = result.changes || 0;
-      
-      if (deletedCount > 0) {
-        await this.log({
-          action: 'AUDIT_CLEANUP',
-          payload: {
-            deleted_count: deletedCount,
-            days_kept: daysToKeep
-          }
-        });
-      }
-
-      return deletedCount;
-
-    } catch (error) {
-      console.error('Failed to clean old audit logs:', error);
-      throw error;
-    }
+  async archiveOldLogs(daysToKeep: number = 365): Promise<AuditArchive | null> {
+    const { archive } = await this.request<{ archive: AuditArchive | null }>('/audit/archive', {
+      method: 'POST',
+      body: JSON.stringify({ older_than_days: daysToKeep })
+    });
+    return archive;
   }
 }
 
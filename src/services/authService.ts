@@ -1,20 +1,40 @@
 /**
  * Authentication Service
- * Handles user authentication, session management, and role-based access
+ * Handles user authentication, session management, and role-based access.
+ *
+ * With a POS server, PINs are checked by the server against hashed PINs and a successful login
+ * returns a short-lived signed session that apiRequest sends with every call. Without one, PINs
+ * are checked against the hashes in the local users table kept in this browser.
  */
 
 import { dataService } from './dataService';
-import { hasPermission, Permission, Role } from '@/security/permissions';
-import { auditService, AUDIT_ACTIONS } from './auditService';
+import { database } from './database';
+import {
+  defaultGrants,
+  hasPermission,
+  Permission,
+  PermissionGrants,
+  PermissionLimit,
+  permissionLimit,
+  Role
+} from '@/security/permissions';
+import { hashPin, verifyPinHash } from '@/lib/pinHash';
+import { getServerBaseUrl, serverRequest, ServiceError, setSessionToken } from '@/utils/api';
+import { useAppStore } from '../store/appStore';
 
 export interface User {
   id: number;
   name: string;
   role: Role;
-  pin: string;
+  /** Every role the server grants, including role and custom roles; server mode only */
+  roles?: string[];
+  /** Effective grants of all roles from the server; the built-in role's defaults apply without them */
+  permissions?: string[];
+  permission_limits?: Record<string, number>;
+  permission_percent_limits?: Record<string, number>;
   active: boolean;
-  created_at: string;
-  updated_at: string;
+  created_at?: string;
+  updated_at?: string;
   pin_attempts?: number;
   pin_locked_until?: string;
 }
@@ -23,23 +43,92 @@ export interface LoginResult {
   success: boolean;
   user?: User;
   error?: string;
+  /** The server's signed approval of an escalation for a permission */
+  approval?: string;
+}
+
+/** Outcome of requireWithinLimit, kept for the audit entry of the operation */
+export interface LimitApproval {
+  approved: boolean;
+  /** What was asked for, e.g. a discount's amount and percentage */
+  value: PermissionLimit;
+  /** The current user's caps on the permission; null when they do not hold it at all */
+  limit: PermissionLimit | null;
+  /** True when the value was over the limit and a manager PIN was asked for */
+  escalated: boolean;
+  /** The current user within their limit, otherwise the manager who entered their PIN */
+  approvedBy?: User;
+  /** With a server, the manager's signed approval for routes that check it, e.g. credit charges */
+  approval?: string;
+  error?: string;
+}
+
+/** Audit entry for a limited operation, written once a manager approves it */
+export interface LimitAudit {
+  action: string;
+  payload?: Record<string, any>;
+}
+
+/** What a server approval is good for; routes that check it accept it once, for these only */
+export interface ApprovalScope {
+  customerId?: number;
+  /** e.g. the Idempotency-Key the sale will be sent with */
+  reference?: string;
+}
+
+/** A limited permission a manager is asked to approve, checked against their own grants */
+export interface EscalationGrant {
+  permission: Permission;
+  value: PermissionLimit;
+  reason?: string;
+  audit?: LimitAudit;
+  scope?: ApprovalScope;
+}
+
+/** A user the server will take an escalation PIN from */
+export interface Approver {
+  id: number;
+  name: string;
+  role: Role;
 }
 
 export interface AuthState {
   currentUser: User | null;
   isAuthenticated: boolean;
   sessionStartTime: string | null;
+  /** When the server session ends unless refreshed; null in local mode */
+  sessionExpiresAt: string | null;
 }
 
-class AuthService {
+interface ServerSession {
+  token: string;
+  expires_at: string;
+  user: {
+    id: number;
+    name: string;
+    role: string;
+    roles: string[];
+    permissions: string[];
+    limits: Record<string, number>;
+    percent_limits: Record<string, number>;
+  };
+}
+
+class AuthRequestError extends ServiceError {}
+
+export class AuthService {
   private currentUser: User | null = null;
   private sessionStartTime: string | null = null;
+  private sessionToken: string | null = null;
+  private sessionExpiresAt: string | null = null;
   private inactivityTimer: NodeJS.Timeout | null = null;
   private readonly INACTIVITY_TIMEOUT = 30 * 60 * 1000; // 30 minutes
+  private readonly REFRESH_BEFORE_EXPIRY = 10 * 60 * 1000; // 10 minutes
 
   constructor() {
     this.loadAuthState();
     this.setupInactivityTracking();
+    this.setupSessionRefresh();
   }
 
   /**
@@ -49,9 +138,15 @@ class AuthService {
     try {
       const authData = localStorage.getItem('auth_state');
       if (authData) {
-        const { currentUser, sessionStartTime } = JSON.parse(authData);
+        const { currentUser, sessionStartTime, sessionToken, sessionExpiresAt } = JSON.parse(authData);
         this.currentUser = currentUser;
         this.sessionStartTime = sessionStartTime;
+        // An expired session is dropped; the next login starts a new one
+        if (sessionToken && sessionExpiresAt && new Date(sessionExpiresAt) > new Date()) {
+          this.sessionToken = sessionToken;
+          this.sessionExpiresAt = sessionExpiresAt;
+        }
+        setSessionToken(this.sessionToken);
       }
     } catch (error) {
       console.error('Failed to load auth state:', error);
@@ -66,7 +161,9 @@ class AuthService {
     try {
       const authData = {
         currentUser: this.currentUser,
-        sessionStartTime: this.sessionStartTime
+        sessionStartTime: this.sessionStartTime,
+        sessionToken: this.sessionToken,
+        sessionExpiresAt: this.sessionExpiresAt
       };
       localStorage.setItem('auth_state', JSON.stringify(authData));
     } catch (error) {
@@ -80,9 +177,108 @@ class AuthService {
   private clearAuthState(): void {
     this.currentUser = null;
     this.sessionStartTime = null;
+    this.sessionToken = null;
+    this.sessionExpiresAt = null;
+    setSessionToken(null);
     localStorage.removeItem('auth_state');
   }
 
+  private isServerMode(): boolean {
+    return useAppStore.getState().settings?.dataSource?.mode === 'server';
+  }
+
+  private request<T>(path: string, options: RequestInit = {}): Promise<T> {
+    const baseUrl = getServerBaseUrl(useAppStore.getState().settings?.dataSource);
+    return serverRequest<T>(baseUrl, `/api/auth${path}`, options, AuthRequestError);
+  }
+
+  private usersRequest<T>(path: string, options: RequestInit = {}): Promise<T> {
+    const baseUrl = getServerBaseUrl(useAppStore.getState().settings?.dataSource);
+    return serverRequest<T>(baseUrl, `/api/users${path}`, options, AuthRequestError);
+  }
+
+  // Messages for failed server PIN checks, with attempts left or the lockout time
+  private pinError(error: unknown, invalidMessage: string): string {
+    if (!(error instanceof AuthRequestError)) return 'Verification failed. Please try again.';
+    switch (error.code) {
+      case 'INVALID_PIN':
+      case 'ROLE_REQUIRED': {
+        const left = error.details?.attempts_left;
+        const message = error.code === 'INVALID_PIN' ? invalidMessage : error.message;
+        return typeof left === 'number' && left <= 2 ? `${message}. ${left} attempts left before lockout.` : message;
+      }
+      case 'PIN_LOCKED': {
+        const until = error.details?.locked_until ? new Date(error.details.locked_until) : null;
+        const minutesLeft = until ? Math.max(1, Math.ceil((until.getTime() - Date.now()) / 60000)) : null;
+        return minutesLeft
+          ? `Too many failed attempts. Try again in ${minutesLeft} minutes.`
+          : 'Too many failed attempts. Try again later.';
+      }
+      default:
+        return error.message;
+    }
+  }
+
+  private fromServerUser(user: ServerSession['user']): User {
+    return {
+      id: user.id,
+      name: user.name,
+      role: user.role as Role,
+      roles: user.roles,
+      permissions: user.permissions,
+      permission_limits: user.limits,
+      permission_percent_limits: user.percent_limits,
+      active: true
+    };
+  }
+
+  private setSession(session: ServerSession): void {
+    this.sessionToken = session.token;
+    this.sessionExpiresAt = session.expires_at;
+    setSessionToken(session.token);
+  }
+
+  // Local mode only: active users in this browser's users table whose hashed PIN this is
+  private async localUsersByPin(pin: string): Promise<User[]> {
+    const rows = await database.query<User & { pin_hash?: string | null }>('SELECT * FROM users');
+    const active = rows.filter(row => row.active === true);
+    const matches = await Promise.all(active.map(row => verifyPinHash(pin, row.pin_hash)));
+    return active.filter((_row, index) => matches[index]).map(({ pin_hash: _hash, ...user }) => user);
+  }
+
+  private static holdsRole(user: User, role: Role): boolean {
+    const roles = user.roles ?? [user.role];
+    return roles.includes(role) || roles.includes('ADMIN');
+  }
+
+  /**
+   * Renew the server session while the user is signed in. When it can no longer be renewed
+   * (expired, user deactivated) the token is dropped and `session-expired` is dispatched.
+   */
+  private setupSessionRefresh(): void {
+    const check = async () => {
+      if (!this.sessionToken || !this.sessionExpiresAt) return;
+      if (new Date(this.sessionExpiresAt).getTime() - Date.now() > this.REFRESH_BEFORE_EXPIRY) return;
+      try {
+        const session = await this.request<ServerSession>('/refresh', { method: 'POST' });
+        this.setSession(session);
+        // Picks up role and permission changes made since sign-in
+        if (this.currentUser) {
+          this.currentUser = { ...this.currentUser, ...this.fromServerUser(session.user) };
+        }
+        this.saveAuthState();
+      } catch (error) {
+        if (error instanceof AuthRequestError && error.code === 'NETWORK_ERROR') return;
+        this.sessionToken = null;
+        this.sessionExpiresAt = null;
+        setSessionToken(null);
+        this.saveAuthState();
+        window.dispatchEvent(new CustomEvent('session-expired', { detail: { user: this.currentUser } }));
+      }
+    };
+    setInterval(check, 60 * 1000);
+  }
+
   /**
    * Setup inactivity tracking for auto-lock
    */
@@ -130,43 +326,39 @@ class AuthService {
         };
       }
 
-      // Fallback authentication for testing
-      const validPins: Record<string, { id: number; name: string; role: Role }> = {
-        '1234': { id: 1, name: 'Admin', role: 'MANAGER' },
-        '5678': { id: 2, name: 'Cashier', role: 'CASHIER' },
-        '9999': { id: 3, name: 'Manager', role: 'MANAGER' }
-      };
-
-      const userData = validPins[pin as keyof typeof validPins];
-
-      if (userData) {
-        const user: User = {
-          id: userData.id,
-          name: userData.name,
-          role: userData.role,
-          pin: pin,
-          active: true
-        };
+      let user: User;
+      if (this.isServerMode()) {
+        try {
+          const session = await this.request<ServerSession>('/login', {
+            method: 'POST',
+            body: JSON.stringify({ pin })
+          });
+          this.setSession(session);
+          user = this.fromServerUser(session.user);
+        } catch (error) {
+          return { success: false, error: this.pinError(error, 'Invalid PIN') };
+        }
+      } else {
+        const [match] = await this.localUsersByPin(pin);
+        if (!match) {
+          return { success: false, error: 'Invalid PIN' };
+        }
+        user = match;
+      }
 
-        this.currentUser = user;
-        this.sessionStartTime = new Date().toISOString();
-        this.saveAuthState();
+      this.currentUser = user;
+      this.sessionStartTime = new Date().toISOString();
+      this.saveAuthState();
 
-        // Dispatch login event
-        window.dispatchEvent(new CustomEvent('user-logged-in', { 
-          detail: { user } 
-        }));
+      // Dispatch login event
+      window.dispatchEvent(new CustomEvent('user-logged-in', { 
+        detail: { user } 
+      }));
 
-        return {
-          success: true,
-          user
-        };
-      } else {
-        return {
-          success: false,
-          error: 'Invalid PIN'
-        };
-      }
+      return {
+        success: true,
+        user
+      };
 
     } catch (error) {
       console.error('Login failed:', error);
@@ -178,24 +370,31 @@ class AuthService {
   }
 
   /**
-   * Verify PIN for sensitive operations
+   * Verify PIN for sensitive operations; the server only confirms manager PINs
    */
   async verifyPin(pin: string, requiredRole?: 'CASHIER' | 'MANAGER'): Promise<LoginResult> {
+    if (this.isServerMode()) {
+      try {
+        const { user } = await this.request<{ user: ServerSession['user'] }>('/verify-pin', {
+          method: 'POST',
+          body: JSON.stringify({ pin })
+        });
+        return { success: true, user: this.fromServerUser(user) };
+      } catch (error) {
+        return { success: false, error: this.pinError(error, 'Invalid PIN') };
+      }
+    }
+
     try {
-      const users = await dataService.query<User>(
-        'SELECT * FROM users WHERE pin = ? AND active = true',
-        [pin]
-      );
+      const [user] = await this.localUsersByPin(pin);
 
-      if (users.length === 0) {
+      if (!user) {
         return {
           success: false,
           error: 'Invalid PIN'
         };
       }
 
-      const user = users[0];
-      
       if (requiredRole && user.role !== requiredRole) {
         return {
           success: false,
@@ -217,6 +416,41 @@ class AuthService {
     }
   }
 
+  // Server-checked PIN of approver `userId`, who must hold `role` or be able to grant `grant`, which
+  // the server then records in the audit log; the signed-in user's session is unchanged
+  private async escalate(
+    userId: number,
+    pin: string,
+    role: Role,
+    invalidMessage: string,
+    grant?: EscalationGrant
+  ): Promise<LoginResult> {
+    const body = grant
+      ? {
+          user_id: userId,
+          pin,
+          permission: grant.permission,
+          amount: grant.value.amount,
+          percent: grant.value.percent,
+          reason: grant.reason,
+          action: grant.audit?.action,
+          customer_id: grant.scope?.customerId,
+          reference: grant.scope?.reference,
+          terminal: useAppStore.getState().terminal,
+          meta: grant.audit?.payload
+        }
+      : { user_id: userId, pin, role };
+    try {
+      const { user, approval } = await this.request<{ user: ServerSession['user']; approval?: string }>('/escalate', {
+        method: 'POST',
+        body: JSON.stringify(body)
+      });
+      return { success: true, user: this.fromServerUser(user), approval };
+    } catch (error) {
+      return { success: false, error: this.pinError(error, invalidMessage) };
+    }
+  }
+
   /**
    * Logout current user
    */
@@ -278,34 +512,84 @@ class AuthService {
     return {
       currentUser: this.currentUser,
       isAuthenticated: this.isAuthenticated(),
-      sessionStartTime: this.sessionStartTime
+      sessionStartTime: this.sessionStartTime,
+      sessionExpiresAt: this.sessionExpiresAt
     };
   }
 
   /**
-   * Check if current user has permission
+   * Check if current user has permission, and that `value` is within its limits if it has any
    */
-  hasPermission(permission: Permission): boolean {
+  hasPermission(permission: Permission, value?: number | PermissionLimit): boolean {
+    const grants = this.getGrants();
+    return grants ? hasPermission(grants, permission, value) : false;
+  }
+
+  /**
+   * Allow a limited operation: straight away when `value` is within the current user's limits,
+   * otherwise only once a manager whose own limits cover it enters their PIN. An approval is
+   * logged as `audit`; with a server the server writes that entry when it checks the PIN, and
+   * signs an approval good once for `scope`.
+   */
+  async requireWithinLimit(
+    permission: Permission,
+    value: PermissionLimit,
+    reason?: string,
+    audit?: LimitAudit,
+    scope?: ApprovalScope
+  ): Promise<LimitApproval> {
+    const grants = this.getGrants();
+    const limit = grants ? permissionLimit(grants, permission) : null;
+    if (grants && hasPermission(grants, permission, value)) {
+      return { approved: true, value, limit, escalated: false, approvedBy: this.currentUser ?? undefined };
+    }
+
+    const result = await this.escalateWithManagerPin([permission], reason, { permission, value, reason, audit, scope });
+    const approval = {
+      approved: result.success,
+      value,
+      limit,
+      escalated: true,
+      approvedBy: result.user,
+      approval: result.approval,
+      error: result.error
+    };
+    if (approval.approved && audit && !this.isServerMode()) {
+      const { auditService } = await import('./auditService');
+      await auditService.logLimitedOperation(audit.action, approval, audit.payload);
+    }
+    return approval;
+  }
+
+  /**
+   * Effective grants of the current user: those the server resolved at sign-in, or the built-in
+   * role's defaults without a server
+   */
+  getGrants(): PermissionGrants | null {
     if (!this.currentUser) {
-      return false;
+      return null;
+    }
+    if (this.currentUser.permissions) {
+      return {
+        roles: this.currentUser.roles ?? [this.currentUser.role],
+        permissions: this.currentUser.permissions,
+        limits: this.currentUser.permission_limits,
+        percentLimits: this.currentUser.permission_percent_limits
+      };
     }
-    return hasPermission(this.currentUser.role, permission);
+    return defaultGrants(this.currentUser.role);
   }
 
   /**
-   * Escalate with manager PIN for sensitive operations
+   * Escalate with manager PIN for sensitive operations; ManagerPinPrompt answers the event
    */
-  async escalateWithManagerPin(permissions: Permission[], reason?: string): Promise<{
-    success: boolean;
-    user?: User;
-    error?: string;
-  }> {
+  async escalateWithManagerPin(permissions: Permission[], reason?: string, grant?: EscalationGrant): Promise<LoginResult> {
     return new Promise((resolve) => {
-      // This would trigger a modal dialog in the UI
       const event = new CustomEvent('manager-pin-required', {
         detail: {
           permissions,
           reason,
+          grant,
           callback: resolve
         }
       });
@@ -314,28 +598,42 @@ class AuthService {
   }
 
   /**
-   * Verify PIN for escalation (called by PIN dialog)
+   * Users who may approve an escalation, for the PIN dialog to pick from; empty without a server,
+   * where the PIN alone identifies the approver
    */
-  async verifyPinForEscalation(pin: string, requiredRole: Role = 'MANAGER'): Promise<{
-    success: boolean;
-    user?: User;
-    error?: string;
-  }> {
+  async listApprovers(requiredRole: Role = 'MANAGER', grant?: EscalationGrant): Promise<Approver[]> {
+    if (!this.isServerMode()) return [];
+    const query = new URLSearchParams(grant ? { permission: grant.permission } : { role: requiredRole });
+    const { approvers } = await this.request<{ approvers: Approver[] }>(`/approvers?${query}`);
+    return approvers;
+  }
+
+  /**
+   * Verify PIN for escalation (called by PIN dialog); with a grant the server checks the
+   * approver's permission and limits instead of the role. With a server, the approver is the
+   * user picked from listApprovers
+   */
+  async verifyPinForEscalation(
+    pin: string,
+    requiredRole: Role = 'MANAGER',
+    grant?: EscalationGrant,
+    approverId?: number
+  ): Promise<LoginResult> {
+    if (this.isServerMode()) {
+      if (!approverId) return { success: false, error: 'Choose who is approving' };
+      return this.escalate(approverId, pin, requiredRole, 'Invalid manager PIN', grant);
+    }
+
     try {
-      const users = await dataService.query<User>(
-        'SELECT * FROM users WHERE pin = ? AND active = true AND role IN (?, ?)',
-        [pin, requiredRole, 'ADMIN']
-      );
+      const user = (await this.localUsersByPin(pin)).find(u => AuthService.holdsRole(u, requiredRole));
 
-      if (users.length === 0) {
+      if (!user) {
         return {
           success: false,
           error: 'Invalid manager PIN'
         };
       }
 
-      const user = users[0];
-
       // Check lockout
       if (user.pin_locked_until) {
         const lockoutEnd = new Date(user.pin_locked_until);
@@ -370,7 +668,7 @@ class AuthService {
    */
   private async resetPinAttempts(userId: number): Promise<void> {
     try {
-      await dataService.execute(
+      await database.execute(
         'UPDATE users SET pin_attempts = 0, pin_locked_until = NULL WHERE id = ?',
         [userId]
       );
@@ -410,12 +708,20 @@ class AuthService {
     }
 
     try {
-      const result = await dataService.execute(
-        'INSERT INTO users (name, role, pin) VALUES (?, ?, ?)',
-        [userData.name, userData.role, userData.pin]
+      if (this.isServerMode()) {
+        const { user } = await this.usersRequest<{ user: User }>('', {
+          method: 'POST',
+          body: JSON.stringify({ name: userData.name, role: userData.role, pin: userData.pin })
+        });
+        return user;
+      }
+
+      const result = await database.execute(
+        'INSERT INTO users (name, role, pin_hash) VALUES (?, ?, ?)',
+        [userData.name, userData.role, await hashPin(userData.pin)]
       );
 
-      const users = await dataService.query<User>(
+      const users = await database.query<User>(
         'SELECT * FROM users WHERE id = ?',
         [result.lastInsertRowid]
       );
@@ -452,33 +758,45 @@ class AuthService {
         setClause.push('role = ?');
         values.push(updates.role);
       }
-      if (updates.pin !== undefined) {
-        setClause.push('pin = ?');
-        values.push(updates.pin);
-      }
       if (updates.active !== undefined) {
         setClause.push('active = ?');
         values.push(updates.active);
       }
 
-      if (setClause.length === 0) {
-        return;
-      }
-
-      setClause.push('updated_at = ?');
-      values.push(new Date().toISOString());
-      values.push(userId);
+      if (setClause.length > 0) {
+        setClause.push('updated_at = ?');
+        values.push(new Date().toISOString());
+        values.push(userId);
 
-      await dataService.execute(
-        `UPDATE users SET ${setClause.join(', ')} WHERE id = ?`,
-        values
-      );
+        await dataService.execute(
+          `UPDATE users SET ${setClause.join(', ')} WHERE id = ?`,
+          values
+        );
+      }
+      if (updates.pin !== undefined) {
+        await this.setUserPin(userId, updates.pin);
+      }
     } catch (error) {
       console.error('Failed to update user:', error);
       throw error;
     }
   }
 
+  /**
+   * Set a user's PIN. With a server it goes to /api/users, which hashes it before storing; it is
+   * never sent through the SQL bridge. Without one, only its hash is kept in the local users table.
+   */
+  async setUserPin(userId: number, pin: string): Promise<void> {
+    if (this.isServerMode()) {
+      await this.usersRequest(`/${userId}`, { method: 'PATCH', body: JSON.stringify({ pin }) });
+      return;
+    }
+    await database.execute(
+      'UPDATE users SET pin_hash = ?, pin_attempts = ?, pin_locked_until = ? WHERE id = ?',
+      [await hashPin(pin), 0, null, userId]
+    );
+  }
+
   /**
    * Delete user (manager only)
    */
@@ -0,0 +1,64 @@
+/**
+ * Batch Service
+ * Per-batch stock kept on the POS server: batches expiring soon and the markdowns that clear them.
+ * Batches are created when a GRN is posted and drawn down first-expiry-first-out as sales sync.
+ */
+
+import { getServerBaseUrl, serverRequest, ServiceError } from '@/utils/api';
+import { useAppStore } from '../store/appStore';
+
+export interface NearExpiryBatch {
+  id: number;
+  product_id: number;
+  sku: string;
+  name_en: string;
+  unit: string;
+  price_retail: number;
+  batch_code: string | null;
+  expiry: string;
+  qty_on_hand: number;
+  cost: number | null;
+  /** Negative once the batch has expired */
+  days_to_expiry: number;
+  /** Active markdown on this batch, if any */
+  markdown_rule_id: number | null;
+  markdown_pct: number | null;
+}
+
+export class BatchServiceError extends ServiceError {}
+
+export class BatchService {
+  private request<T>(path: string, options: RequestInit = {}): Promise<T> {
+    const baseUrl = getServerBaseUrl(useAppStore.getState().settings?.dataSource);
+    return serverRequest<T>(baseUrl, `/api/batches${path}`, options, BatchServiceError);
+  }
+
+  /**
+   * Batches still in stock that expire within `days` days, expired ones included, soonest first.
+   * With `storeId`, only batches that store received.
+   */
+  async getNearExpiry(days: number, storeId?: number): Promise<NearExpiryBatch[]> {
+    const query = new URLSearchParams({ days: String(days) });
+    if (storeId) query.set('store_id', String(storeId));
+    const data = await this.request<{ batches: NearExpiryBatch[] }>(`/near-expiry?${query}`);
+    return data.batches;
+  }
+
+  /**
+   * Mark a batch down by `percent` until it expires or sells out. Rejects with code
+   * MARKDOWN_EXISTS when another batch of the same product is already marked down.
+   */
+  async markdown(batchId: number, percent: number): Promise<NearExpiryBatch> {
+    const data = await this.request<{ batch: NearExpiryBatch }>(`/${batchId}/markdown`, {
+      method: 'POST',
+      body: JSON.stringify({ percent })
+    });
+    return data.batch;
+  }
+
+  async clearMarkdown(batchId: number): Promise<void> {
+    await this.request(`/${batchId}/markdown`, { method: 'DELETE' });
+  }
+}
+
+export const batchService = new BatchService();
@@ -0,0 +1,138 @@
+/**
+ * Checkout Service
+ * Turns the POS cart into a sale for the LAN server's /api/sales/sync, which records the sale with
+ * its invoice and payments, charges CREDIT payments to the customer's account, takes the stock out
+ * of batches and costs each line in one go.
+ */
+
+import type { Sale, SaleLine } from './dataService';
+import type { CartItem, CartTotals, PriceTier } from '@/store/cartStore';
+import { taxService } from './taxService';
+import { roundCurrency } from '@/lib/currency';
+import { allocateDiscount, computeTaxes } from '@/lib/tax';
+import { generateReceiptNumber } from '@/utils/receiptNumber';
+import { getServerBaseUrl, serverRequest, ServiceError } from '@/utils/api';
+import { useAppStore } from '../store/appStore';
+
+export type CheckoutPaymentMethod = 'CASH' | 'CARD' | 'WALLET' | 'CREDIT';
+
+export interface CheckoutPayment {
+  method: CheckoutPaymentMethod;
+  amount: number;
+}
+
+export interface CheckoutCart {
+  items: CartItem[];
+  totals: CartTotals;
+  priceTier: PriceTier;
+  customerId: number | null;
+}
+
+export interface CheckoutContext {
+  cashierId: number;
+  terminalName?: string;
+  language?: Sale['language'];
+}
+
+export interface CheckoutSale {
+  sale: Sale;
+  lines: SaleLine[];
+  payments?: CheckoutPayment[]; // without them the server records the pay_* split
+  approval?: string; // manager's signed approval to charge beyond the customer's credit limit
+}
+
+export interface CheckoutInvoice {
+  id: number;
+  receipt_no: string;
+  created_at: string;
+  grand_total: number;
+  payment_type: string;
+  customer_id: number | null;
+}
+
+export interface CheckoutResult {
+  sale: Sale;
+  invoice: CheckoutInvoice | null;
+  duplicate: boolean;
+}
+
+export class CheckoutError extends ServiceError {}
+
+const roundQty = (qty: number) => Math.round(qty * 1000) / 1000;
+
+const paid = (payments: CheckoutPayment[], method: CheckoutPaymentMethod) =>
+  roundCurrency(payments.filter(p => p.method === method).reduce((sum, p) => sum + p.amount, 0));
+
+/**
+ * The sale and lines for a paid cart. Lines sold by the pack are converted to the product's base
+ * unit, as the server keeps them, and keep the pack and its count; the cart-level discount is
+ * spread across the lines the same way the cart taxes them.
+ */
+export function buildCheckoutSale(cart: CheckoutCart, payments: CheckoutPayment[], context: CheckoutContext): CheckoutSale {
+  const amounts = cart.items.map(item => item.qty * item.current_price - (item.line_discount_value || 0));
+  const manualDiscounts = allocateDiscount(amounts, cart.totals.manual_discount_amount);
+  const taxes = computeTaxes(
+    cart.items.map((item, index) => ({ amount: amounts[index], taxCode: item.tax_code ?? item.product?.tax_code })),
+    taxService.getTaxCodes(),
+    cart.totals.manual_discount_amount
+  );
+
+  const localId = Date.now();
+  const lines: SaleLine[] = cart.items.map((item, index) => {
+    const conv = item.uom?.conv_to_base ?? 1;
+    return {
+      id: index + 1,
+      sale_id: localId,
+      product_id: Number(item.product_id),
+      qty: roundQty(item.qty * conv),
+      unit_price: item.current_price / conv,
+      line_discount: roundCurrency((item.line_discount_value || 0) + manualDiscounts[index]),
+      tax: taxes.lines[index].tax,
+      tax_code: taxes.lines[index].code,
+      total: taxes.lines[index].total,
+      uom: item.uom?.code,
+      uom_qty: item.uom ? item.qty : undefined,
+      // Promotions do not stack, so at most one fired on the line
+      applied_promotion_id: item.applied_rules?.find(rule => rule.promotion_id)?.promotion_id
+    };
+  });
+
+  const sale: Sale = {
+    id: localId,
+    datetime: new Date(),
+    cashier_id: context.cashierId,
+    customer_id: cart.customerId ?? undefined,
+    price_tier: cart.priceTier,
+    gross: cart.totals.gross,
+    discount: roundCurrency(cart.totals.item_discounts_total + cart.totals.manual_discount_amount),
+    tax: cart.totals.tax_total,
+    net: cart.totals.net_total,
+    pay_cash: paid(payments, 'CASH'),
+    pay_card: paid(payments, 'CARD'),
+    pay_wallet: paid(payments, 'WALLET'),
+    language: context.language ?? 'EN',
+    terminal_name: context.terminalName,
+    invoice_number: generateReceiptNumber()
+  };
+
+  return {
+    sale,
+    lines,
+    payments: payments.filter(p => p.amount > 0).map(p => ({ method: p.method, amount: roundCurrency(p.amount) }))
+  };
+}
+
+export class CheckoutService {
+  /** Record a paid sale on the server; repeating `idempotencyKey` returns the sale recorded first */
+  async submit(checkout: CheckoutSale, idempotencyKey: string): Promise<CheckoutResult> {
+    const baseUrl = getServerBaseUrl(useAppStore.getState().settings?.dataSource);
+    const data = await serverRequest<Partial<CheckoutResult> & { sale: Sale }>(baseUrl, '/api/sales/sync', {
+      method: 'POST',
+      headers: { 'Idempotency-Key': idempotencyKey },
+      body: JSON.stringify(checkout)
+    }, CheckoutError);
+    return { sale: data.sale, invoice: data.invoice ?? null, duplicate: Boolean(data.duplicate) };
+  }
+}
+
+export const checkoutService = new CheckoutService();
@@ -0,0 +1,56 @@
+/**
+ * Costing Service
+ * Stock valuation kept on the POS server, which replays receipts, adjustments, returns and sales
+ * at moving-average or FIFO cost. Sale lines are stamped with their cost as they sync.
+ */
+
+import { getServerBaseUrl, serverRequest, ServiceError } from '@/utils/api';
+import { useAppStore } from '../store/appStore';
+
+export type CostingMethod = 'average' | 'fifo';
+
+export const COSTING_METHOD_LABELS: Record<CostingMethod, string> = {
+  average: 'Moving Average',
+  fifo: 'FIFO'
+};
+
+export interface ValuationRow {
+  product_id: number;
+  sku: string;
+  name_en: string;
+  unit: string;
+  category_name: string | null;
+  qty: number;
+  unit_cost: number | null;
+  value: number;
+}
+
+export interface InventoryValuationReport {
+  as_of: string;
+  method: CostingMethod;
+  rows: ValuationRow[];
+  totals: { products: number; value: number };
+}
+
+export class CostingServiceError extends ServiceError {}
+
+export class CostingService {
+  private request<T>(path: string, options: RequestInit = {}): Promise<T> {
+    const baseUrl = getServerBaseUrl(useAppStore.getState().settings?.dataSource);
+    return serverRequest<T>(baseUrl, `/api/costing${path}`, options, CostingServiceError);
+  }
+
+  /**
+   * Stock on hand and its value as of `asOf`, every store together. Without `method` the server
+   * values stock the way it costs sales.
+   */
+  async getValuation(asOf: Date, method?: CostingMethod, categoryId?: number): Promise<InventoryValuationReport> {
+    const query = new URLSearchParams({ as_of: asOf.toISOString() });
+    if (method) query.set('method', method);
+    if (categoryId) query.set('category_id', String(categoryId));
+    const { as_of, method: valuedBy, rows, totals } = await this.request<InventoryValuationReport>(`/valuation?${query}`);
+    return { as_of, method: valuedBy, rows, totals };
+  }
+}
+
+export const costingService = new CostingService();
@@ -935,6 +935,7 @@ export class CSVService {
 
     const headers = [
       'rule_name',
+      'source',
       'times_applied',
       'discounted_amount',
       'avg_per_invoice',
@@ -945,6 +946,7 @@ export class CSVService {
     const headerRow = headers.join(',');
     const dataRows = rows.map(row => [
       row.rule_name,
+      row.source,
       row.times_applied,
       row.discounted_amount,
       row.avg_per_invoice,
@@ -955,6 +957,144 @@ export class CSVService {
     this.downloadCSV(csvContent, 'discount_audit.csv');
   }
 
+  exportAgedReceivablesCSV(rows: any[], asOf: Date): void {
+    const metadata = [
+      ['Aged Receivables Report'],
+      ['As Of:', asOf.toDateString()],
+      ['Generated:', new Date().toLocaleString()],
+      [''] // Empty row separator
+    ];
+
+    const headers = [
+      'customer_name',
+      'days_0_30',
+      'days_31_60',
+      'days_61_90',
+      'days_90_plus',
+      'balance'
+    ];
+
+    const metadataRows = metadata.map(row => row.join(','));
+    const headerRow = headers.join(',');
+    const dataRows = rows.map(row => [
+      this.escapeCSVRow([row.customer_name], ','),
+      row.days_0_30,
+      row.days_31_60,
+      row.days_61_90,
+      row.days_90_plus,
+      row.balance
+    ].join(','));
+
+    const csvContent = [...metadataRows, headerRow, ...dataRows].join('\n');
+    this.downloadCSV(csvContent, 'aged_receivables.csv');
+  }
+
+  exportNearExpiryCSV(rows: any[], days: number): void {
+    const metadata = [
+      ['Near Expiry Report'],
+      ['Expiring Within (days):', days],
+      ['Generated:', new Date().toLocaleString()],
+      [''] // Empty row separator
+    ];
+
+    const headers = [
+      'sku',
+      'name_en',
+      'batch_code',
+      'expiry',
+      'days_to_expiry',
+      'qty_on_hand',
+      'unit',
+      'cost',
+      'markdown_pct'
+    ];
+
+    const metadataRows = metadata.map(row => row.join(','));
+    const headerRow = headers.join(',');
+    const dataRows = rows.map(row => [
+      this.escapeCSVRow([row.sku, row.name_en, row.batch_code || ''], ','),
+      row.expiry,
+      row.days_to_expiry,
+      row.qty_on_hand,
+      row.unit,
+      row.cost ?? '',
+      row.markdown_pct ?? ''
+    ].join(','));
+
+    const csvContent = [...metadataRows, headerRow, ...dataRows].join('\n');
+    this.downloadCSV(csvContent, 'near_expiry.csv');
+  }
+
+  exportGrossMarginCSV(rows: any[], filters: any): void {
+    const metadata = [
+      ['Gross Margin Report'],
+      ['Date Range:', `${filters.from.toDateString()} - ${filters.to.toDateString()}`],
+      ['Grouped By:', filters.groupBy],
+      ['Price Tier:', filters.tier || 'All'],
+      ['Terminal:', filters.terminal || 'All'],
+      ['Cashier:', filters.cashier || 'All'],
+      ['Generated:', new Date().toLocaleString()],
+      [''] // Empty row separator
+    ];
+
+    const headers = [
+      filters.groupBy,
+      'qty',
+      'revenue',
+      'cogs',
+      'margin',
+      'margin_pct'
+    ];
+
+    const metadataRows = metadata.map(row => row.join(','));
+    const headerRow = headers.join(',');
+    const dataRows = rows.map(row => [
+      this.escapeCSVRow([row.label], ','),
+      row.qty,
+      row.revenue.toFixed(2),
+      row.cogs.toFixed(2),
+      row.margin.toFixed(2),
+      row.margin_pct === null ? '' : row.margin_pct.toFixed(1)
+    ].join(','));
+
+    const csvContent = [...metadataRows, headerRow, ...dataRows].join('\n');
+    this.downloadCSV(csvContent, `gross_margin_by_${filters.groupBy}.csv`);
+  }
+
+  exportInventoryValuationCSV(report: any): void {
+    const metadata = [
+      ['Stock Valuation Report'],
+      ['As Of:', new Date(report.as_of).toLocaleString()],
+      ['Costing Method:', report.method],
+      ['Total Value:', report.totals.value],
+      ['Generated:', new Date().toLocaleString()],
+      [''] // Empty row separator
+    ];
+
+    const headers = [
+      'sku',
+      'name_en',
+      'category',
+      'qty',
+      'unit',
+      'unit_cost',
+      'value'
+    ];
+
+    const metadataRows = metadata.map(row => row.join(','));
+    const headerRow = headers.join(',');
+    const dataRows = report.rows.map((row: any) => [
+      this.escapeCSVRow([row.sku, row.name_en, row.category_name || ''], ','),
+      row.qty,
+      row.unit,
+      row.unit_cost ?? '',
+      row.value
+    ].join(','));
+
+    const csvContent = [...metadataRows, headerRow, ...dataRows].join('\n');
+    this.downloadCSV(csvContent, `stock_valuation_${report.as_of.split('T')[0]}.csv`);
+  }
+
   // Inventory export functions
   exportStockCSV(rows: any[], filters?: any): void {
     const metadata = [
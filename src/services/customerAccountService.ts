@@ -0,0 +1,139 @@
+/**
+ * Customer Account Service
+ * Credit accounts kept in the server's customer_ledger: charges from "charge to account"
+ * sales, on-account payments, balances and receivables aging.
+ */
+
+import { getServerBaseUrl, serverRequest, ServiceError } from '@/utils/api';
+import { useAppStore } from '../store/appStore';
+
+export interface CustomerAccount {
+  customer_id: number;
+  customer_name: string;
+  credit_limit: number;
+  balance: number;    // owed by the customer; negative when in credit
+  available: number;  // credit left before the limit
+}
+
+export interface LedgerEntry {
+  id: number;
+  customer_id: number;
+  type: 'CHARGE' | 'PAYMENT';
+  amount: number;     // positive = charge, negative = payment
+  invoice_id: number | null;
+  method: string | null;
+  reference: string | null;
+  note: string | null;
+  approved_by: number | null;
+  created_by: number | null;
+  at: string;
+  running_balance: number;
+}
+
+export interface AccountPaymentReceipt {
+  receipt_no: string;
+  customer_id: number;
+  customer_name: string;
+  amount: number;
+  method: AccountPaymentMethod;
+  reference: string | null;
+  balance_before: number;
+  balance_after: number;
+  at: string;
+}
+
+export type AccountPaymentMethod = 'CASH' | 'CARD' | 'WALLET' | 'BANK';
+
+export interface AgedReceivablesRow {
+  customer_id: number;
+  customer_name: string;
+  days_0_30: number;
+  days_31_60: number;
+  days_61_90: number;
+  days_90_plus: number;
+  balance: number;
+}
+
+export interface AgedReceivablesReport {
+  as_of: string;
+  rows: AgedReceivablesRow[];
+  totals: Omit<AgedReceivablesRow, 'customer_id' | 'customer_name'>;
+}
+
+export class CustomerAccountError extends ServiceError {}
+
+export class CustomerAccountService {
+  private request<T>(path: string, options: RequestInit = {}): Promise<T> {
+    const baseUrl = getServerBaseUrl(useAppStore.getState().settings?.dataSource);
+    return serverRequest<T>(baseUrl, `/api/customers${path}`, options, CustomerAccountError);
+  }
+
+  async getAccount(customerId: number): Promise<CustomerAccount> {
+    const data = await this.request<{ account: CustomerAccount }>(`/${customerId}/account`);
+    return data.account;
+  }
+
+  async getLedger(customerId: number): Promise<{ account: CustomerAccount; entries: LedgerEntry[] }> {
+    return this.request(`/${customerId}/ledger`);
+  }
+
+  async setCreditLimit(customerId: number, creditLimit: number): Promise<void> {
+    await this.request(`/${customerId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ credit_limit: creditLimit })
+    });
+  }
+
+  /**
+   * Post a charge to the customer's account; POS sales are charged by /api/sales/sync instead.
+   * The server refuses charges beyond the credit limit (code CREDIT_LIMIT_EXCEEDED) unless the
+   * user may override it or passes a manager's signed approval from requireWithinLimit.
+   */
+  async charge(customerId: number, charge: {
+    amount: number;
+    invoiceId?: number;
+    reference?: string;
+    approval?: string;
+    createdBy?: number;
+  }): Promise<CustomerAccount> {
+    const data = await this.request<{ account: CustomerAccount }>(`/${customerId}/charges`, {
+      method: 'POST',
+      body: JSON.stringify({
+        amount: charge.amount,
+        invoice_id: charge.invoiceId,
+        reference: charge.reference,
+        approval: charge.approval,
+        created_by: charge.createdBy
+      })
+    });
+    return data.account;
+  }
+
+  async recordPayment(customerId: number, payment: {
+    amount: number;
+    method: AccountPaymentMethod;
+    reference?: string;
+    note?: string;
+    createdBy?: number;
+  }): Promise<AccountPaymentReceipt> {
+    const data = await this.request<{ receipt: AccountPaymentReceipt }>(`/${customerId}/payments`, {
+      method: 'POST',
+      body: JSON.stringify({
+        amount: payment.amount,
+        method: payment.method,
+        reference: payment.reference || undefined,
+        note: payment.note || undefined,
+        created_by: payment.createdBy
+      })
+    });
+    return data.receipt;
+  }
+
+  async getAgedReceivables(asOf?: Date): Promise<AgedReceivablesReport> {
+    const query = asOf ? `?as_of=${encodeURIComponent(asOf.toISOString())}` : '';
+    const { as_of, rows, totals } = await this.request<AgedReceivablesReport>(`/aged-receivables${query}`);
+    return { as_of, rows, totals };
+  }
+}
+
+export const customerAccountService = new CustomerAccountService();
@@ -43,6 +43,7 @@ export interface Product {
   cost?: number;
   reorder_level?: number;
   preferred_supplier_id?: number;
+  pack_size?: number;
   is_active: boolean;
   created_at: Date;
   updated_at?: Date;
@@ -55,6 +56,7 @@ export interface Supplier {
   contact_email?: string;
   address?: string;
   tax_id?: string;
+  lead_time_days?: number;
   active: boolean;
   created_at: Date;
 }
@@ -63,9 +65,12 @@ export interface Customer {
   id: number;
   customer_name: string;
   phone?: string;
+  email?: string;
   customer_type: 'Retail' | 'Wholesale' | 'Credit' | 'Other';
   note?: string;
   active: boolean;
+  credit_limit?: number;
+  tag_ids?: number[]; // matched by promotions scoped to customer tags
   created_at: Date;
 }
 
@@ -84,6 +89,37 @@ export interface DiscountRule {
   active: boolean;
 }
 
+export type PromotionRuleType = 'BUY_X_GET_Y' | 'MIX_AND_MATCH_BUNDLE_PRICE' | 'CHEAPEST_FREE';
+
+export interface PromotionRule {
+  id: number;
+  promotion_id: number;
+  type: PromotionRuleType;
+  // BUY_X_GET_Y: { buy_qty, get_qty, get_discount_percent? }
+  // MIX_AND_MATCH_BUNDLE_PRICE: { bundle_qty, bundle_price }
+  // CHEAPEST_FREE: { group_size }
+  params: Record<string, number>;
+}
+
+export interface PromotionScope {
+  id: number;
+  promotion_id: number;
+  scope_type: 'product' | 'category' | 'customer_tag';
+  target_id: number;
+}
+
+export interface Promotion {
+  id: number;
+  name: string;
+  priority: number;
+  active: boolean;
+  days_of_week?: string | null; // comma-separated 0..6, Sunday = 0
+  start_at?: string | null;
+  end_at?: string | null;
+  rules: PromotionRule[];
+  scopes: PromotionScope[];
+}
+
 export interface Sale {
   id: number;
   datetime: Date;
@@ -99,6 +135,7 @@ export interface Sale {
   pay_wallet: number;
   language: 'EN' | 'SI' | 'TA';
   terminal_name?: string;
+  invoice_number?: string; // receipt number; the server records the sale's invoice under it
 }
 
 export interface SaleLine {
@@ -109,7 +146,14 @@ export interface SaleLine {
   unit_price: number;
   line_discount: number;
   tax: number;
+  tax_code?: string;
   total: number;
+  applied_promotion_id?: number;
+  // Pack the line was sold in; qty is always in the product's base unit
+  uom?: string;
+  uom_qty?: number;
+  // Cost of one base unit, stamped by the server when the sale syncs
+  unit_cost?: number | null;
 }
 
 export interface SaleRequest {
@@ -306,6 +350,7 @@ export class DataService {
       contact_email: row.contact_email || undefined,
       address: row.address || undefined,
       tax_id: row.tax_id || undefined,
+      lead_time_days: row.lead_time_days ?? undefined,
         active: row.active ?? true,
         created_at: new Date(),
       // Legacy fields for compatibility
@@ -448,16 +493,18 @@ export class DataService {
 
   async createCustomer(customer: Omit<Customer, 'id' | 'created_at'>): Promise<Customer> {
     const sql = `
-      INSERT INTO customers (customer_name, phone, customer_type, note, active, created_at)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO customers (customer_name, phone, email, customer_type, note, active, credit_limit, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `;
     
     const params = [
       customer.customer_name,
       customer.phone || null,
+      customer.email || null,
       customer.customer_type,
       customer.note || null,
       customer.active ? 1 : 0,
+      customer.credit_limit ?? 0,
       new Date().toISOString()
     ];
     
@@ -656,6 +703,36 @@ export class DataService {
     return this.getEffectiveDiscountRules([Number(productId)], categoryIds);
   }
 
+  // Promotions with their rules and scopes, from the server's promotion tables
+  async getPromotions(activeOnly: boolean = false): Promise<Promotion[]> {
+    try {
+      const apiBaseUrl = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8100';
+      const [promotionsRes, rulesRes, scopesRes] = await Promise.all([
+        fetch(`${apiBaseUrl}/api/promotions?limit=500${activeOnly ? '&active=true' : ''}`),
+        fetch(`${apiBaseUrl}/api/promotion-rules?limit=500`),
+        fetch(`${apiBaseUrl}/api/promotion-scopes?limit=500`)
+      ]);
+      const [promotionsData, rulesData, scopesData] = await Promise.all([
+        promotionsRes.json(), rulesRes.json(), scopesRes.json()
+      ]);
+      const rules: PromotionRule[] = (rulesData.rules || []).map((rule: any) => ({
+        ...rule,
+        params: typeof rule.params === 'string' ? JSON.parse(rule.params) : (rule.params || {})
+      }));
+      const scopes: PromotionScope[] = scopesData.scopes || [];
+
+      return (promotionsData.promotions || []).map((promotion: any) => ({
+        ...promotion,
+        active: promotion.active === true || promotion.active === 1,
+        rules: rules.filter(rule => Number(rule.promotion_id) === Number(promotion.id)),
+        scopes: scopes.filter(scope => Number(scope.promotion_id) === Number(promotion.id))
+      }));
+    } catch (error) {
+      console.error('Failed to load promotions:', error);
+      return [];
+    }
+  }
+
   async getDiscountRulesForSKUs(skus: string[]): Promise<DiscountRule[]> {
     if (skus.length === 0) return [];
 
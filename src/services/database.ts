@@ -1,4 +1,9 @@
 // import { Database } from 'sql.js'; // Commented out for now
+import type { DataSourceSettings } from '@/types';
+import { getServerBaseUrl } from '@/utils/api';
+import { RemoteDatabaseService } from './remoteDatabase';
+import { DEFAULT_TAX_CODES } from '@/lib/tax';
+import { hashPin } from '@/lib/pinHash';
 
 export interface DatabaseConfig {
   path?: string;
@@ -9,12 +14,44 @@ export class DatabaseService {
   private db: any | null = null;
   private config: DatabaseConfig;
   public tables: Map<string, any[]> = new Map();
+  // Set in LAN-server mode; every public statement method then delegates to it
+  private remote: RemoteDatabaseService | null = null;
 
   constructor(config: DatabaseConfig = {}) {
     this.config = config;
     this.loadFromStorage();
   }
 
+  /**
+   * Switch between local-only (localStorage tables) and LAN-server mode.
+   * Safe to call at any time; pending local data is not migrated.
+   */
+  useDataSource(dataSource?: DataSourceSettings): void {
+    if (dataSource?.mode === 'server') {
+      const baseUrl = getServerBaseUrl(dataSource);
+      this.remote = new RemoteDatabaseService(baseUrl);
+      console.log(`📡 Database using POS server at ${baseUrl}`);
+    } else {
+      this.remote = null;
+    }
+  }
+
+  get mode(): 'local' | 'server' {
+    return this.remote ? 'server' : 'local';
+  }
+
+  /** Check the server connection in LAN-server mode; always true when local */
+  async checkConnection(): Promise<boolean> {
+    if (!this.remote) return true;
+    try {
+      await this.remote.ping();
+      return true;
+    } catch (error) {
+      console.error('POS server not reachable:', error);
+      return false;
+    }
+  }
+
   private loadFromStorage(): void {
     try {
       const storedData = localStorage.getItem('pos_database');
@@ -38,6 +75,12 @@ export class DatabaseService {
   }
 
   async initialize(): Promise<void> {
+    // The server owns its schema (server/src/migrations.ts)
+    if (this.remote) {
+      await this.checkConnection();
+      return;
+    }
+
     try {
       console.log('Database service initialized (localStorage mode)');
       
@@ -93,6 +136,9 @@ export class DatabaseService {
       if (!this.tables.has('shift_movements')) {
         this.tables.set('shift_movements', []);
       }
+      if (!this.tables.has('shift_cash_counts')) {
+        this.tables.set('shift_cash_counts', []);
+      }
       if (!this.tables.has('company_profile')) {
         this.tables.set('company_profile', []);
       }
@@ -108,6 +154,7 @@ export class DatabaseService {
   }
 
   async runMigrations(): Promise<void> {
+    if (this.remote) return;
     console.log('Running database migrations...');
     
     // Create default users if they don't exist
@@ -121,7 +168,7 @@ export class DatabaseService {
           id: 1,
           name: 'Manager',
           role: 'MANAGER',
-          pin: '9999',
+          pin_hash: await hashPin('9999'),
           active: true,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
@@ -130,7 +177,7 @@ export class DatabaseService {
           id: 2,
           name: 'Cashier 1',
           role: 'CASHIER',
-          pin: '1234',
+          pin_hash: await hashPin('1234'),
           active: true,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
@@ -139,7 +186,7 @@ export class DatabaseService {
           id: 3,
           name: 'Cashier 2',
           role: 'CASHIER',
-          pin: '5678',
+          pin_hash: await hashPin('5678'),
           active: true,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
@@ -148,7 +195,7 @@ export class DatabaseService {
           id: 4,
           name: 'License Admin',
           role: 'LICENSE_ADMIN',
-          pin: '0000',
+          pin_hash: await hashPin('0000'),
           active: true,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
@@ -161,6 +208,16 @@ export class DatabaseService {
       console.log('✅ Default users created');
     }
 
+    // PINs kept as entered by earlier versions are hashed; the table only ever holds pin_hash
+    const plainPins = (this.tables.get('users') || []).filter(user => user.pin);
+    if (plainPins.length > 0) {
+      for (const user of plainPins) {
+        user.pin_hash = await hashPin(String(user.pin));
+        delete user.pin;
+      }
+      this.saveToStorage();
+    }
+
     // Create sample suppliers if they don't exist
     const suppliers = this.tables.get('suppliers') || [];
     if (suppliers.length === 0) {
@@ -315,6 +372,18 @@ export class DatabaseService {
       
       console.log('✅ Default company profile created');
     }
+
+
+    // Create default tax codes if they don't exist
+    const taxCodes = this.tables.get('tax_codes') || [];
+    if (taxCodes.length === 0) {
+      console.log('Creating default tax codes...');
+      
+      this.tables.set('tax_codes', DEFAULT_TAX_CODES.map((code, index) => ({ id: index + 1, ...code })));
+      this.saveToStorage();
+      
+      console.log('✅ Default tax codes created');
+    }
     
     console.log('✅ All migrations completed successfully');
   }
@@ -325,6 +394,7 @@ export class DatabaseService {
   }
 
   async query<T = any>(sql: string, params?: any[]): Promise<T[]> {
+    if (this.remote) return this.remote.query<T>(sql, params);
     console.log('Executing query:', sql, params);
     
     // Simple SQL parser for basic operations
@@ -338,6 +408,7 @@ export class DatabaseService {
   }
 
   async run(sql: string, params?: any[]): Promise<{ lastID?: number; changes?: number }> {
+    if (this.remote) return this.remote.run(sql, params);
     console.log('Executing run:', sql, params);
     
     const sqlLower = sql.toLowerCase().trim();
@@ -385,12 +456,6 @@ export class DatabaseService {
   private applyWhereClause(data: any[], sql: string, params: any[]): any[] {
     const sqlLower = sql.toLowerCase();
     
-    // Handle simple WHERE pin = ? AND active = true
-    if (sqlLower.includes('pin = ?') && sqlLower.includes('active = true')) {
-      const pin = params[0];
-      return data.filter(row => row.pin === pin && row.active === true);
-    }
-    
     // Handle WHERE id = ?
     if (sqlLower.includes('id = ?')) {
       const id = params[0];
@@ -464,6 +529,7 @@ export class DatabaseService {
   }
 
   async execute(sql: string, params?: any[]): Promise<any> {
+    if (this.remote) return this.remote.execute(sql, params);
     console.log('Executing:', sql, params);
     
     const sqlLower = sql.toLowerCase().trim();
@@ -497,7 +563,18 @@ export class DatabaseService {
     // Create new record based on table type
     let newRecord: any = { id: newId };
     
-    if (tableName === 'sessions') {
+    if (tableName === 'users') {
+      const [name, role, pinHash] = params;
+      newRecord = {
+        id: newId,
+        name,
+        role,
+        pin_hash: pinHash ?? null,
+        active: true,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      };
+    } else if (tableName === 'sessions') {
       const [cashierId, terminal, openingFloat] = params;
       newRecord = {
         id: newId,
@@ -571,14 +648,16 @@ export class DatabaseService {
         updated_at: created_at
       };
     } else if (tableName === 'customers') {
-      const [customer_name, phone, customer_type, note, active, created_at] = params;
+      const [customer_name, phone, email, customer_type, note, active, credit_limit, created_at] = params;
       newRecord = {
         id: newId,
         customer_name,
         phone,
+        email,
         customer_type,
         note,
         active: active === 1,
+        credit_limit,
         created_at
       };
     } else if (tableName === 'suppliers') {
@@ -654,7 +733,13 @@ export class DatabaseService {
       const recordIndex = table.findIndex(row => row.id === id);
       
       if (recordIndex !== -1) {
-        // Update the record (simplified)
+        // Update the record (simplified): `column = ?` assignments take their parameters in order
+        const assignments = sql.match(/\bset\s+([\s\S]+?)\s+where\b/i)?.[1].split(',') ?? [];
+        let param = 0;
+        assignments.forEach(assignment => {
+          const [column, value] = assignment.split('=').map(part => part.trim());
+          if (value === '?') table[recordIndex][column] = params[param++];
+        });
         table[recordIndex].updated_at = new Date().toISOString();
         changes = 1;
       }
@@ -693,6 +778,7 @@ export class DatabaseService {
   }
 
   async transaction<T>(callback: () => Promise<T>): Promise<T> {
+    if (this.remote) return this.remote.transaction(callback);
     // Mock implementation - in production this would handle transactions
     return await callback();
   }
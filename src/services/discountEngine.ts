@@ -1,4 +1,5 @@
-import { dataService, Product, DiscountRule } from './dataService';
+import { dataService, Product, DiscountRule, Promotion, PromotionRule, PromotionRuleType } from './dataService';
+import { allocateDiscount } from '@/lib/tax';
 
 export interface CartLine {
   id: number;
@@ -20,6 +21,8 @@ export interface AppliedRule {
   rule_name: string;
   discount_amount: number;
   remaining_cap?: number;
+  promotion_id?: number; // set when a promotion fired rather than a discount rule
+  promotion_type?: PromotionRuleType;
 }
 
 export interface DiscountEngineSettings {
@@ -49,6 +52,16 @@ export interface RuleCapTracker {
   };
 }
 
+// Whole units of a line offered to a multi-line promotion, priced at retail
+interface PromotionUnit {
+  lineIndex: number;
+  productId: number;
+  price: number;
+}
+
+// Discount a promotion rule gives each line, and how many of the line's units it used up
+type PromotionOutcome = Map<number, { discount: number; units: number }>;
+
 export class DiscountEngine {
   /**
    * Get all effective discount rules for the given SKUs at the current time
@@ -109,13 +122,71 @@ export class DiscountEngine {
     }
   }
 
+  /**
+   * Promotions that can fire now: active, inside their date window and day-of-week list,
+   * and, when scoped to customer tags, only for a customer carrying one of those tags.
+   * Sorted by priority (lower number = higher priority).
+   */
+  async getEffectivePromotions(params: {
+    promotions?: Promotion[];
+    now?: Date;
+    customerTagIds?: number[];
+  } = {}): Promise<Promotion[]> {
+    const { now = new Date(), customerTagIds = [] } = params;
+
+    try {
+      const promotions = params.promotions || await dataService.getPromotions(true);
+
+      return promotions
+        .filter(promotion => {
+          if (!promotion.active || promotion.rules.length === 0) {
+            return false;
+          }
+
+          let fromDate = new Date(promotion.start_at as any);
+          let toDate = new Date(promotion.end_at as any);
+          if (!promotion.start_at || isNaN(fromDate.getTime())) {
+            fromDate = new Date(0);
+          }
+          if (!promotion.end_at || isNaN(toDate.getTime())) {
+            toDate = new Date(8640000000000000);
+          }
+          if (now < fromDate || now > toDate) {
+            return false;
+          }
+
+          const days = String(promotion.days_of_week || '')
+            .split(',')
+            .filter(day => day.trim() !== '')
+            .map(Number);
+          if (days.length > 0 && !days.includes(now.getDay())) {
+            return false;
+          }
+
+          const tagScopes = promotion.scopes.filter(scope => scope.scope_type === 'customer_tag');
+          return tagScopes.length === 0
+            || tagScopes.some(scope => customerTagIds.includes(Number(scope.target_id)));
+        })
+        .sort((a, b) => Number(a.priority) - Number(b.priority) || a.id - b.id);
+    } catch (error) {
+      console.error('Error getting effective promotions:', error);
+      return [];
+    }
+  }
+
   /**
    * Apply discount rules to a cart and return updated lines and totals
    * IMPORTANT: All discounts are calculated based on RETAIL PRICE only
+   *
+   * Promotions run first, in priority order. Each unit can be used by one promotion only,
+   * and lines that took part in a promotion are not discounted again by discount rules.
    */
   async applyRulesToCart(params: {
     lines: CartLine[];
     rules?: DiscountRule[];
+    promotions?: Promotion[];
+    customerTagIds?: number[];
+    now?: Date;
     settings?: DiscountEngineSettings;
   }): Promise<DiscountEngineResult> {
     const { lines, settings } = params;
@@ -137,7 +208,13 @@ export class DiscountEngine {
       }
     }
     
-    if (rules.length === 0) {
+    const promotions = await this.getEffectivePromotions({
+      promotions: params.promotions,
+      now: params.now,
+      customerTagIds: params.customerTagIds
+    });
+
+    if (rules.length === 0 && promotions.length === 0) {
       return this.calculateTotals(lines, currentSettings);
     }
 
@@ -167,11 +244,28 @@ export class DiscountEngine {
       }
     });
 
+    // Units of each line already used by a promotion
+    const claimed = updatedLines.map(() => 0);
+    for (const promotion of promotions) {
+      const promotionResult = this.applyPromotionToLines({
+        promotion,
+        lines: updatedLines,
+        claimed,
+        settings: currentSettings
+      });
+
+      appliedRules.push(...promotionResult.appliedRules);
+      warnings.push(...promotionResult.warnings);
+    }
+
+    // Discount rules do not stack on promoted lines
+    const unpromotedLines = updatedLines.filter((_, index) => claimed[index] === 0);
+
     // Apply rules in priority order
     for (const rule of rules) {
       const ruleResult = this.applyRuleToLines({
         rule,
-        lines: updatedLines,
+        lines: unpromotedLines,
         capTracker: ruleCapTracker,
         settings: currentSettings
       });
@@ -292,6 +386,155 @@ export class DiscountEngine {
     return { appliedRules, warnings };
   }
 
+  /**
+   * Apply one promotion's rules to the units of its scoped lines not yet used by another promotion
+   */
+  private applyPromotionToLines(params: {
+    promotion: Promotion;
+    lines: CartLine[];
+    claimed: number[];
+    settings: DiscountEngineSettings;
+  }): { appliedRules: AppliedRule[]; warnings: string[] } {
+    const { promotion, lines, claimed, settings } = params;
+    const appliedRules: AppliedRule[] = [];
+    const warnings: string[] = [];
+
+    const itemScopes = promotion.scopes.filter(scope => scope.scope_type !== 'customer_tag');
+    const eligible = lines
+      .map((line, index) => ({ line, index }))
+      .filter(({ line }) => itemScopes.length === 0 || itemScopes.some(scope =>
+        scope.scope_type === 'product'
+          ? Number(line.product_id) === Number(scope.target_id)
+          : Number(line.product.category_id) === Number(scope.target_id)
+      ))
+      .map(({ index }) => index);
+
+    for (const rule of promotion.rules) {
+      const units = this.expandUnits(lines, eligible, claimed);
+      const outcome = this.evaluatePromotionRule(rule, units);
+      if (!outcome) {
+        warnings.push(`Promotion "${promotion.name}" has invalid ${rule.type} parameters`);
+        continue;
+      }
+
+      outcome.forEach(({ discount, units: usedUnits }, index) => {
+        const line = lines[index];
+        claimed[index] += usedUnits;
+
+        const maxDiscount = Math.max(0, line.retail_price * line.qty - line.line_discount);
+        const roundedDiscount = Math.min(this.roundAmount(discount, settings), maxDiscount);
+        if (roundedDiscount <= 0) {
+          return;
+        }
+
+        line.line_discount += roundedDiscount;
+        line.applied_rules = line.applied_rules || [];
+
+        const appliedRule: AppliedRule = {
+          rule_id: rule.id,
+          rule_name: promotion.name,
+          discount_amount: roundedDiscount,
+          promotion_id: promotion.id,
+          promotion_type: rule.type
+        };
+
+        line.applied_rules.push(appliedRule);
+        appliedRules.push(appliedRule);
+
+        line.total = this.roundAmount(
+          (line.unit_price * line.qty) - line.line_discount + line.tax,
+          settings
+        );
+      });
+    }
+
+    return { appliedRules, warnings };
+  }
+
+  /**
+   * One entry per whole unit still free on the given lines, most expensive first.
+   * Weighed quantities only count their whole units.
+   */
+  private expandUnits(lines: CartLine[], indexes: number[], claimed: number[]): PromotionUnit[] {
+    const units: PromotionUnit[] = [];
+    for (const index of indexes) {
+      const available = Math.floor(Number(lines[index].qty)) - claimed[index];
+      for (let i = 0; i < available; i++) {
+        units.push({ lineIndex: index, productId: Number(lines[index].product_id), price: lines[index].retail_price });
+      }
+    }
+    return units.sort((a, b) => b.price - a.price || a.lineIndex - b.lineIndex);
+  }
+
+  /**
+   * Work out a promotion rule's discount per line; returns null when its params are unusable
+   */
+  private evaluatePromotionRule(rule: PromotionRule, units: PromotionUnit[]): PromotionOutcome | null {
+    const outcome: PromotionOutcome = new Map();
+    const use = (unit: PromotionUnit, discount: number) => {
+      const entry = outcome.get(unit.lineIndex) || { discount: 0, units: 0 };
+      entry.discount += discount;
+      entry.units += 1;
+      outcome.set(unit.lineIndex, entry);
+    };
+    const isCount = (value: unknown) => Number.isInteger(Number(value)) && Number(value) > 0;
+    const params = rule.params || {};
+
+    switch (rule.type) {
+      case 'BUY_X_GET_Y': {
+        // Buy X of a product, get the next Y of the same product free (or at a percentage off)
+        if (!isCount(params.buy_qty) || !isCount(params.get_qty)) return null;
+        const buy = Number(params.buy_qty);
+        const get = Number(params.get_qty);
+        const percent = params.get_discount_percent === undefined ? 100 : Number(params.get_discount_percent);
+        if (!(percent > 0 && percent <= 100)) return null;
+
+        const byProduct = new Map<number, PromotionUnit[]>();
+        for (const unit of units) {
+          const productUnits = byProduct.get(unit.productId) || [];
+          productUnits.push(unit);
+          byProduct.set(unit.productId, productUnits);
+        }
+        for (const productUnits of byProduct.values()) {
+          const sets = Math.floor(productUnits.length / (buy + get));
+          productUnits.slice(0, sets * (buy + get)).forEach((unit, position) => {
+            use(unit, position % (buy + get) >= buy ? unit.price * (percent / 100) : 0);
+          });
+        }
+        return outcome;
+      }
+
+      case 'CHEAPEST_FREE': {
+        // In every group of N scoped items, the cheapest one is free
+        if (!isCount(params.group_size) || Number(params.group_size) < 2) return null;
+        const size = Number(params.group_size);
+        const groups = Math.floor(units.length / size);
+        units.slice(0, groups * size).forEach((unit, position) => {
+          use(unit, position % size === size - 1 ? unit.price : 0);
+        });
+        return outcome;
+      }
+
+      case 'MIX_AND_MATCH_BUNDLE_PRICE': {
+        // Any N scoped items for a fixed price; the saving is spread over the bundled items
+        if (!isCount(params.bundle_qty) || !(Number(params.bundle_price) >= 0)) return null;
+        const size = Number(params.bundle_qty);
+        const bundlePrice = Number(params.bundle_price);
+        for (let start = 0; start + size <= units.length; start += size) {
+          const bundle = units.slice(start, start + size);
+          const regular = bundle.reduce((sum, unit) => sum + unit.price, 0);
+          if (regular <= bundlePrice) break;
+          const shares = allocateDiscount(bundle.map(unit => unit.price), regular - bundlePrice);
+          bundle.forEach((unit, position) => use(unit, shares[position]));
+        }
+        return outcome;
+      }
+
+      default:
+        return null;
+    }
+  }
+
   /**
    * Check if a rule applies to a specific line
    */
@@ -1,15 +1,34 @@
+import { getServerBaseUrl, serverRequest, ServiceError } from '@/utils/api';
+import { useAppStore } from '../store/appStore';
 import { database } from './database';
+import { storeService } from './storeService';
 import { 
   GRN, 
   GRNLine, 
   GRNWithDetails, 
   GRNStatus, 
   GRNLabelItem,
+  LandedCostMethod,
   Product,
   Supplier
 } from '../types';
+import { toBaseQty } from '@/lib/uom';
+import {
+  CostUpdatePolicy,
+  LANDED_COST_METHOD_LABELS,
+  allocateLandedCost,
+  landedUnitCost,
+  nextProductCost
+} from '@/lib/landedCost';
+
+export class GRNServiceError extends ServiceError {}
 
 export class GRNService {
+  private request<T>(path: string, options: RequestInit = {}): Promise<T> {
+    const baseUrl = getServerBaseUrl(useAppStore.getState().settings?.dataSource);
+    return serverRequest<T>(baseUrl, `/api/grn${path}`, options, GRNServiceError);
+  }
+
   /**
    * Generate next GRN number
    */
@@ -59,13 +78,15 @@ export class GRNService {
       const grnNo = await this.getNextGRNNo();
       
       const result = await db.execute(`
-        INSERT INTO grn (supplier_id, grn_no, received_by, note, status, subtotal, tax, other, total)
-        VALUES (?, ?, ?, ?, 'OPEN', 0, 0, 0, 0)
+        INSERT INTO grn (supplier_id, grn_no, received_by, note, po_id, store_id, status, subtotal, tax, other, total)
+        VALUES (?, ?, ?, ?, ?, ?, 'OPEN', 0, 0, 0, 0)
       `, [
         header.supplier_id,
         grnNo,
         header.received_by || null,
-        header.note || null
+        header.note || null,
+        header.po_id || null,
+        header.store_id ?? storeService.currentStoreId() ?? null
       ]);
       
       return result.lastID;
@@ -88,16 +109,19 @@ export class GRNService {
         // Update existing line
         await db.execute(`
           UPDATE grn_lines 
-          SET product_id = ?, qty = ?, unit_cost = ?, mrp = ?, batch_no = ?, expiry_date = ?, line_total = ?
+          SET product_id = ?, qty = ?, uom = ?, conv_to_base = ?, unit_cost = ?, mrp = ?, batch_no = ?, expiry_date = ?, line_total = ?, weight_kg = ?
           WHERE id = ?
         `, [
           line.product_id,
           line.qty,
+          line.uom || 'pc',
+          line.conv_to_base ?? 1,
           line.unit_cost,
           line.mrp || null,
           line.batch_no || null,
           line.expiry_date || null,
           lineTotal,
+          line.weight_kg ?? null,
           (line as any).id
         ]);
         
@@ -105,17 +129,20 @@ export class GRNService {
       } else {
         // Insert new line
         const result = await db.execute(`
-          INSERT INTO grn_lines (grn_id, product_id, qty, unit_cost, mrp, batch_no, expiry_date, line_total)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          INSERT INTO grn_lines (grn_id, product_id, qty, uom, conv_to_base, unit_cost, mrp, batch_no, expiry_date, line_total, weight_kg)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `, [
           line.grn_id,
           line.product_id,
           line.qty,
+          line.uom || 'pc',
+          line.conv_to_base ?? 1,
           line.unit_cost,
           line.mrp || null,
           line.batch_no || null,
           line.expiry_date || null,
-          lineTotal
+          lineTotal,
+          line.weight_kg ?? null
         ]);
         
         return { lineId: result.lastID };
@@ -158,9 +185,12 @@ export class GRNService {
         SELECT 
           gl.*,
           p.sku, p.name_en, p.name_si, p.name_ta, p.barcode, p.unit, p.cost,
-          p.price_retail, p.price_wholesale, p.price_credit, p.price_other
+          p.price_retail, p.price_wholesale, p.price_credit, p.price_other,
+          pu.barcode AS pack_barcode, pu.price_override AS pack_price_override
         FROM grn_lines gl
         JOIN products p ON gl.product_id = p.id
+        LEFT JOIN uoms u ON u.code = gl.uom
+        LEFT JOIN product_uom pu ON pu.product_id = gl.product_id AND pu.uom_id = u.id
         WHERE gl.grn_id = ?
         ORDER BY gl.id
       `, [id]);
@@ -339,6 +369,21 @@ export class GRNService {
         values.push(partial.total);
       }
       
+      if (partial.landed_cost_method !== undefined) {
+        updates.push('landed_cost_method = ?');
+        values.push(partial.landed_cost_method);
+      }
+      
+      if (partial.status !== undefined) {
+        updates.push('status = ?');
+        values.push(partial.status);
+      }
+      
+      if (partial.po_id !== undefined) {
+        updates.push('po_id = ?');
+        values.push(partial.po_id);
+      }
+      
       if (updates.length === 0) {
         return; // No updates to perform
       }
@@ -359,8 +404,20 @@ export class GRNService {
   /**
    * Post GRN (finalize and update inventory)
    */
-  async postGRN(id: number, opts?: { updateCostPolicy?: 'none' | 'average' | 'latest' }): Promise<void> {
+  async postGRN(id: number, opts?: { updateCostPolicy?: CostUpdatePolicy; landedCostMethod?: LandedCostMethod }): Promise<void> {
     const db = await database;
+
+    // A LAN server posts GRNs itself; stock and cost history are never written over its SQL bridge
+    if (db.mode === 'server') {
+      await this.request(`/${id}/post`, {
+        method: 'POST',
+        body: JSON.stringify({
+          update_cost_policy: opts?.updateCostPolicy,
+          landed_cost_method: opts?.landedCostMethod
+        })
+      });
+      return;
+    }
     
     try {
       await db.execute('BEGIN TRANSACTION');
@@ -372,11 +429,17 @@ export class GRNService {
         throw new Error('Only OPEN GRNs can be posted');
       }
       
-      // Calculate totals
+      // Calculate totals; tax is recoverable, other charges (freight, duty) are landed onto the lines
       const subtotal = grnData.lines.reduce((sum, line) => sum + line.line_total, 0);
-      const tax = 0; // TODO: Calculate tax based on settings
-      const other = 0; // TODO: Add other charges if needed
+      const tax = Number(grnData.header.tax) || 0;
+      const other = Number(grnData.header.other) || 0;
       const total = subtotal + tax + other;
+      const landedCostMethod = opts?.landedCostMethod ?? grnData.header.landed_cost_method ?? 'value';
+      const shares = allocateLandedCost(
+        grnData.lines.map(line => ({ ...line, unit: line.product.unit })),
+        other,
+        landedCostMethod
+      );
       
       // Update GRN header with totals
       await this.updateGRNHeader({
@@ -385,41 +448,60 @@ export class GRNService {
         tax,
         other,
         total,
+        landed_cost_method: landedCostMethod,
         status: 'POSTED'
       });
       
       // Process each line
-      for (const line of grnData.lines) {
-        // Insert inventory movement
+      const updateCostPolicy = opts?.updateCostPolicy || 'latest';
+      for (const [index, line] of grnData.lines.entries()) {
+        // Lines received in a pack go into stock, batches and cost in the product's base unit
+        const baseQty = toBaseQty(line.qty, { conv_to_base: line.conv_to_base ?? 1 });
+        const unitCost = landedUnitCost(line, shares[index]);
+
+        // Insert inventory movement, at the landed cost the server's costing takes it in at
         await db.execute(`
-          INSERT INTO inventory_movements (product_id, qty, type, reason, note)
-          VALUES (?, ?, 'RECEIVE', 'GRN', ?)
-        `, [line.product_id, line.qty, grnData.header.grn_no]);
+          INSERT INTO inventory_movements (product_id, qty, type, reason, note, store_id, unit_cost)
+          VALUES (?, ?, 'RECEIVE', 'GRN', ?, ?, ?)
+        `, [line.product_id, baseQty, grnData.header.grn_no, grnData.header.store_id ?? storeService.currentStoreId() ?? null, unitCost]);
         
-        // Update product stock
+        // Each received line becomes a batch that sales draw on first-expiry-first-out
+        const batch = await db.execute(`
+          INSERT INTO batches (product_id, batch_code, expiry, qty_on_hand, cost, grn_id, received_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+        `, [
+          line.product_id,
+          line.batch_no || null,
+          line.expiry_date || null,
+          baseQty,
+          unitCost,
+          id,
+          new Date().toISOString()
+        ]);
+        await db.execute('UPDATE grn_lines SET batch_id = ?, landed_cost = ? WHERE id = ?', [batch.lastID, shares[index], line.id]);
         await db.execute(`
-          UPDATE products 
-          SET stock = stock + ?
-          WHERE id = ?
-        `, [line.qty, line.product_id]);
+          INSERT INTO stock_movements (product_id, batch_id, qty, reason)
+          VALUES (?, ?, ?, 'GRN')
+        `, [line.product_id, batch.lastID, baseQty]);
         
-        // Update product cost based on policy
-        const updateCostPolicy = opts?.updateCostPolicy || 'latest';
-        if (updateCostPolicy === 'latest') {
+        // Update product cost based on policy, keeping a history of every change
+        const product = await db.query('SELECT cost FROM products WHERE id = ?', [line.product_id]);
+        const oldCost: number | null = product[0]?.cost ?? null;
+        const newCost = nextProductCost(oldCost, unitCost, updateCostPolicy);
+        if (newCost !== null && newCost !== oldCost) {
           await db.execute(`
             UPDATE products 
             SET cost = ?
             WHERE id = ?
-          `, [line.unit_cost, line.product_id]);
-        } else if (updateCostPolicy === 'average') {
-          // Simple average: (current_cost + new_cost) / 2
+          `, [newCost, line.product_id]);
+          const landed = shares[index] > 0
+            ? `, incl. ${shares[index].toFixed(2)} other charges ${LANDED_COST_METHOD_LABELS[landedCostMethod].toLowerCase()}`
+            : '';
           await db.execute(`
-            UPDATE products 
-            SET cost = (cost + ?) / 2
-            WHERE id = ?
-          `, [line.unit_cost, line.product_id]);
+            INSERT INTO cost_history (product_id, old_cost, new_cost, reason)
+            VALUES (?, ?, ?, ?)
+          `, [line.product_id, oldCost, newCost, `GRN ${grnData.header.grn_no} (${updateCostPolicy} cost${landed})`]);
         }
-        // 'none' policy: do nothing
       }
       
       await db.execute('COMMIT');
@@ -496,11 +578,11 @@ export class GRNService {
         const product = line.product;
         const name = this.getLocalizedProductName(product, lang);
         
-        // Create one label item per quantity unit
+        // Create one label item per quantity unit; a pack received in a pack is labelled with its own barcode
         for (let i = 0; i < line.qty; i++) {
           labelItems.push({
             sku: product.sku,
-            barcode: product.barcode,
+            barcode: (line as any).pack_barcode || product.barcode,
             name,
             price: line.unit_cost,
             mrp: line.mrp || undefined,
@@ -14,6 +14,7 @@ import { stocktakeService } from './stocktakeService';
 import { grnService } from './grnService';
 import { labelService } from './labelService';
 import { barcodeService } from './barcodeService';
+import { saleQueueService } from './saleQueueService';
 
 export type HealthStatus = 'OK' | 'WARN' | 'FAIL';
 
@@ -52,6 +53,7 @@ class HealthService {
         this.withTimeout(() => this.checkEnvironmentFlags(), 'environment'),
         this.withTimeout(() => this.checkDatabaseConnectivity(), 'database'),
         this.withTimeout(() => this.checkDataIntegrity(), 'data-integrity'),
+        this.withTimeout(() => this.checkSaleQueue(), 'sale-queue'),
         this.withTimeout(() => this.checkSettingsValidity(), 'settings'),
         this.withTimeout(() => this.checkBackupsHealth(), 'backups'),
         this.withTimeout(() => this.checkStorageQuota(), 'storage'),
@@ -516,6 +518,67 @@ class HealthService {
     }
   }
 
+  /**
+   * Check offline sales waiting to be sent to the server
+   */
+  private async checkSaleQueue(): Promise<HealthItem> {
+    try {
+      const settings = useAppStore.getState().settings;
+      const maxAgeMinutes = settings.dataSource?.syncQueueMaxAgeMinutes ?? 15;
+      const entries = await saleQueueService.list();
+      const rejected = await saleQueueService.listRejected();
+      const { lastError, lastSyncAt } = saleQueueService.getStatus();
+
+      const oldest = entries[0];
+      const oldestAgeMinutes = oldest ? Math.floor((Date.now() - Date.parse(oldest.queuedAt)) / 60000) : 0;
+
+      let status: HealthStatus = 'OK';
+      let details = 'No sales waiting to sync';
+      let suggestion: string | undefined;
+
+      if (oldest && oldestAgeMinutes > maxAgeMinutes) {
+        status = 'FAIL';
+        details = `${entries.length} sale(s) queued; oldest waiting ${oldestAgeMinutes} min (limit ${maxAgeMinutes} min)`;
+        suggestion = 'Check the network connection to the POS server';
+      } else if (oldest) {
+        status = 'WARN';
+        details = `${entries.length} sale(s) waiting to sync`;
+        suggestion = 'Sales will be sent automatically when the server is reachable';
+      }
+      if (oldest && (oldest.lastError || lastError)) {
+        details += ` - last error: ${oldest.lastError || lastError}`;
+      }
+      if (rejected.length > 0) {
+        if (status === 'OK') status = 'WARN';
+        details = `${oldest ? details : 'No sales waiting to sync'}; ${rejected.length} sale(s) rejected by the server`;
+        suggestion = suggestion ?? 'Review rejected sales from the sync status in the header';
+      }
+
+      return {
+        key: 'sale-queue',
+        label: 'Offline Sale Queue',
+        status,
+        details,
+        suggestion,
+        metrics: {
+          depth: entries.length,
+          rejected: rejected.length,
+          oldestAgeMinutes,
+          maxAgeMinutes,
+          lastSyncAt: lastSyncAt || 'never'
+        }
+      };
+    } catch (error) {
+      return {
+        key: 'sale-queue',
+        label: 'Offline Sale Queue',
+        status: 'FAIL',
+        details: `Sale queue check failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        suggestion: 'Check browser storage (IndexedDB) permissions'
+      };
+    }
+  }
+
   /**
    * Check browser storage quota
    */
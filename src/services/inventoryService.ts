@@ -1,15 +1,17 @@
 import { db } from './database';
 import { dataService } from './dataService';
+import { storeService } from './storeService';
 
 export interface InventoryMovement {
   id: number;
   product_id: number;
-  qty: number; // DECIMAL(10,3) - positive for RECEIVE, +/- for ADJUST, negative for WASTE
-  type: 'RECEIVE' | 'ADJUST' | 'WASTE';
+  qty: number; // DECIMAL(10,3) - positive for RECEIVE, +/- for ADJUST and TRANSFER, negative for WASTE
+  type: 'RECEIVE' | 'ADJUST' | 'WASTE' | 'TRANSFER';
   reason?: string;
   note?: string;
   terminal?: string;
   cashier?: string;
+  store_id?: number;
   created_at: Date;
 }
 
@@ -62,6 +64,7 @@ export interface StockFilters {
   lowStockOnly?: boolean;
   unit?: 'pc' | 'kg';
   active?: boolean;
+  storeId?: number; // stock held by one store; all stores together when unset
   limit?: number;
   offset?: number;
 }
@@ -69,7 +72,8 @@ export interface StockFilters {
 export interface MovementLogFilters {
   fromDate?: Date;
   toDate?: Date;
-  type?: 'RECEIVE' | 'ADJUST' | 'WASTE';
+  type?: InventoryMovement['type'];
+  storeId?: number;
   sku?: string;
   reason?: string;
   limit?: number;
@@ -79,7 +83,7 @@ export interface MovementLogFilters {
 export interface MovementLogRow {
   id: number;
   datetime: Date;
-  type: 'RECEIVE' | 'ADJUST' | 'WASTE';
+  type: InventoryMovement['type'];
   sku: string;
   name_en: string;
   qty: number;
@@ -92,20 +96,26 @@ export interface MovementLogRow {
 class InventoryService {
   
   // Get current stock for products (aggregated from movements)
-  async getCurrentStockMap(options?: { productIds?: number[] }): Promise<{ [productId: number]: number }> {
+  async getCurrentStockMap(options?: { productIds?: number[]; storeId?: number }): Promise<{ [productId: number]: number }> {
     let query = `
       SELECT 
         product_id,
         COALESCE(SUM(qty), 0) as current_stock
       FROM inventory_movements
+      WHERE 1=1
     `;
     
     const params: any[] = [];
     
     if (options?.productIds && options.productIds.length > 0) {
-      query += ` WHERE product_id IN (${options.productIds.map(() => '?').join(',')})`;
+      query += ` AND product_id IN (${options.productIds.map(() => '?').join(',')})`;
       params.push(...options.productIds);
     }
+
+    if (options?.storeId) {
+      query += ` AND store_id = ?`;
+      params.push(options.storeId);
+    }
     
     query += ' GROUP BY product_id';
     
@@ -119,7 +129,7 @@ class InventoryService {
     return stockMap;
   }
 
-  // Get stock rows with product details and current stock
+  // Get stock rows with product details and current stock, for one store when filters.storeId is set
   async getStockRows(filters: StockFilters = {}): Promise<StockRow[]> {
     let query = `
       SELECT 
@@ -143,12 +153,13 @@ class InventoryService {
           product_id, 
           SUM(qty) as current_stock 
         FROM inventory_movements 
+        ${filters.storeId ? 'WHERE store_id = ?' : ''}
         GROUP BY product_id
       ) stock ON p.id = stock.product_id
       WHERE 1=1
     `;
     
-    const params: any[] = [];
+    const params: any[] = filters.storeId ? [filters.storeId] : [];
     
     // Apply filters
     if (filters.search) {
@@ -349,6 +360,11 @@ class InventoryService {
       query += ` AND im.type = ?`;
       params.push(filters.type);
     }
+
+    if (filters.storeId) {
+      query += ` AND im.store_id = ?`;
+      params.push(filters.storeId);
+    }
     
     if (filters.sku) {
       query += ` AND p.sku LIKE ?`;
@@ -412,8 +428,8 @@ class InventoryService {
   // Helper to insert a movement
   private async insertMovement(movement: Omit<InventoryMovement, 'id' | 'created_at'>): Promise<number> {
     const query = `
-      INSERT INTO inventory_movements (product_id, qty, type, reason, note, terminal, cashier, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO inventory_movements (product_id, qty, type, reason, note, terminal, cashier, store_id, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
     
     const params = [
@@ -424,6 +440,7 @@ class InventoryService {
       movement.note || null,
       movement.terminal || null,
       movement.cashier || null,
+      movement.store_id ?? storeService.currentStoreId() ?? null,
       new Date()
     ];
     
@@ -1,10 +1,11 @@
 import { db } from './database';
+import { storeService } from './storeService';
 
 export interface InventoryMovement {
   id: number;
   product_id: number;
-  qty: number; // DECIMAL(10,3) - positive for RECEIVE, +/- for ADJUST, negative for WASTE
-  type: 'RECEIVE' | 'ADJUST' | 'WASTE';
+  qty: number; // DECIMAL(10,3) - positive for RECEIVE, +/- for ADJUST and TRANSFER, negative for WASTE
+  type: 'RECEIVE' | 'ADJUST' | 'WASTE' | 'TRANSFER';
   reason?: string;
   note?: string;
   terminal?: string;
@@ -21,7 +22,10 @@ export interface StockRow {
   unit: 'pc' | 'kg';
   current_stock: number;
   reorder_level?: number;
+  preferred_supplier_id?: number;
   preferred_supplier?: string;
+  cost?: number;
+  pack_size?: number;
   category_name?: string;
   is_low_stock: boolean;
   is_scale_item: boolean;
@@ -62,6 +66,7 @@ export interface StockFilters {
   active?: boolean;
   lowStock?: boolean;
   zeroStock?: boolean;
+  storeId?: number; // stock held by one store; all stores together when unset
   limit?: number;
   offset?: number;
 }
@@ -89,6 +94,7 @@ export interface MovementLogFilters {
   type?: string;
   sku?: string;
   reason?: string;
+  storeId?: number;
   limit?: number;
   offset?: number;
 }
@@ -106,10 +112,12 @@ class InventoryServiceSimple {
       
       // Get suppliers
       const suppliers = await db.query('SELECT * FROM suppliers');
-      const supplierMap = new Map(suppliers.map(s => [s.id, s.name]));
+      const supplierMap = new Map(suppliers.map(s => [s.id, s.supplier_name ?? s.name]));
       
-      // Get inventory movements for stock calculation
-      const movements = await db.query('SELECT * FROM inventory_movements');
+      // Get inventory movements for stock calculation, only the store's own when filtering by store
+      const movements = filters.storeId
+        ? await db.query('SELECT * FROM inventory_movements WHERE store_id = ?', [filters.storeId])
+        : await db.query('SELECT * FROM inventory_movements');
       const stockMap = new Map<number, number>();
       
       movements.forEach(movement => {
@@ -120,14 +128,15 @@ class InventoryServiceSimple {
       // Filter products by active status if needed
       let filteredProducts = products;
       if (filters.active !== undefined) {
-        filteredProducts = products.filter(p => p.is_active === filters.active);
+        filteredProducts = products.filter(p => Boolean(p.is_active) === filters.active);
       }
       
       // Map products to stock rows
       let stockRows = filteredProducts.map(product => {
         const currentStock = stockMap.get(product.id) || 0;
         const categoryName = categoryMap.get(product.category_id);
-        const supplierName = supplierMap.get(product.supplier_id);
+        const supplierId = product.preferred_supplier_id ?? product.supplier_id;
+        const supplierName = supplierMap.get(supplierId);
         
         return {
           id: product.id,
@@ -138,7 +147,10 @@ class InventoryServiceSimple {
           unit: product.unit,
           current_stock: currentStock,
           reorder_level: product.reorder_level || 0,
+          preferred_supplier_id: supplierId ?? undefined,
           preferred_supplier: supplierName,
+          cost: product.cost ?? undefined,
+          pack_size: product.pack_size ?? undefined,
           category_name: categoryName,
           is_low_stock: (product.reorder_level || 0) > 0 && currentStock <= (product.reorder_level || 0),
           is_scale_item: product.unit === 'kg',
@@ -198,7 +210,9 @@ class InventoryServiceSimple {
   // Get movement logs
   async getMovementLogs(filters: MovementLogFilters = {}): Promise<MovementLogRow[]> {
     try {
-      const movements = await db.query('SELECT * FROM inventory_movements');
+      const movements = filters.storeId
+        ? await db.query('SELECT * FROM inventory_movements WHERE store_id = ?', [filters.storeId])
+        : await db.query('SELECT * FROM inventory_movements');
       const products = await db.query('SELECT * FROM products');
       const productMap = new Map(products.map(p => [p.id, p]));
       
@@ -299,8 +313,8 @@ class InventoryServiceSimple {
   async addMovement(movement: Omit<InventoryMovement, 'id' | 'created_at'>): Promise<void> {
     try {
       await db.execute(`
-        INSERT INTO inventory_movements (product_id, qty, type, reason, note, terminal, cashier)
-        VALUES (?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO inventory_movements (product_id, qty, type, reason, note, terminal, cashier, store_id)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
       `, [
         movement.product_id,
         movement.qty,
@@ -308,7 +322,8 @@ class InventoryServiceSimple {
         movement.reason || null,
         movement.note || null,
         movement.terminal || null,
-        movement.cashier || null
+        movement.cashier || null,
+        storeService.currentStoreId() ?? null
       ]);
     } catch (error) {
       console.error('Error adding movement:', error);
@@ -1,6 +1,8 @@
 import { LabelPreset, LabelItem, LabelJob, LabelBatch, LabelSource } from '@/types';
 import { dataService, Product } from '@/services/dataService';
 import { grnService } from '@/services/grnService';
+import { uomService } from '@/services/uomService';
+import { packPrice, PackUnit } from '@/lib/uom';
 import { useAppStore } from '@/store/appStore';
 
 export interface GenerateLabelOptions {
@@ -8,6 +10,8 @@ export interface GenerateLabelOptions {
   productIds?: string[];
   grnId?: string;
   csvData?: LabelItem[];
+  // Products only: add a label for each pack a product is sold in
+  includePacks?: boolean;
   preset: LabelPreset;
   overrides?: {
     qty?: number;
@@ -85,6 +89,23 @@ export function validateLabelItemDates(
   };
 }
 
+/**
+ * Label for a pack of a product: the pack's own barcode (the product's when it has none),
+ * its unit, and each tier's price for the whole pack
+ */
+function packLabel(item: LabelItem, pack: PackUnit, barcode?: string | null): LabelItem {
+  return {
+    ...item,
+    id: `${item.id}-${pack.code}`,
+    barcode: barcode || item.barcode,
+    unit: pack.code,
+    price_retail: packPrice(item.price_retail, pack, 'Retail'),
+    price_wholesale: packPrice(item.price_wholesale, pack, 'Wholesale'),
+    price_credit: packPrice(item.price_credit, pack, 'Credit'),
+    price_other: packPrice(item.price_other, pack, 'Other')
+  };
+}
+
 export class LabelService {
   private static instance: LabelService;
 
@@ -166,7 +187,7 @@ export class LabelService {
     try {
       switch (source) {
         case 'products':
-          return await this.generateFromProducts(options.productIds || [], preset, overrides);
+          return await this.generateFromProducts(options.productIds || [], preset, overrides, options.includePacks);
         
         case 'grn':
           return await this.generateFromGRN(options.grnId || '', preset, overrides);
@@ -189,14 +210,15 @@ export class LabelService {
   private async generateFromProducts(
     productIds: string[], 
     preset: LabelPreset, 
-    overrides: GenerateLabelOptions['overrides'] = {}
+    overrides: GenerateLabelOptions['overrides'] = {},
+    includePacks = false
   ): Promise<LabelItem[]> {
     const products = await dataService.getProducts();
     const categories = await dataService.getCategories();
     
     const selectedProducts = products.filter(p => productIds.includes(p.id.toString()));
     
-    return selectedProducts.map(product => {
+    const items: LabelItem[] = selectedProducts.map(product => {
       const category = categories.find(c => c.id === product.category_id);
       
       return {
@@ -222,6 +244,16 @@ export class LabelService {
         batchNo: null,
       };
     });
+
+    if (!includePacks) return items;
+
+    // Each pack gets its own label: the pack barcode, and prices for the whole pack
+    const packItems: LabelItem[] = [];
+    for (const [index, product] of selectedProducts.entries()) {
+      const packs = await uomService.listForProduct(Number(product.id));
+      packs.forEach(pack => packItems.push(packLabel(items[index], pack, pack.barcode)));
+    }
+    return [...items, ...packItems];
   }
 
   /**
@@ -247,7 +279,7 @@ export class LabelService {
       return lines.map((line: any) => {
         const category = categories.find(c => c.id === line.product_category_id);
         
-        return {
+        const item: LabelItem = {
           id: `grn-${grnId}-${line.product_id}-${Date.now()}`,
           sku: line.product_sku,
           barcode: line.product_barcode,
@@ -269,6 +301,17 @@ export class LabelService {
           mrp: line.mrp || null,
           batchNo: line.batch_no || null,
         };
+
+        // Received in a pack: label the packs as they will sit on the shelf
+        if (line.uom && (line.conv_to_base ?? 1) !== 1) {
+          return packLabel(item, {
+            code: line.uom,
+            name: line.uom,
+            conv_to_base: line.conv_to_base,
+            price_override: line.pack_price_override ?? null
+          }, line.pack_barcode);
+        }
+        return item;
       });
     } catch (error) {
       console.error('❌ Failed to generate labels from GRN:', error);
@@ -609,6 +652,9 @@ export class LabelService {
       defaultPresetId: 'product-50x30',
       defaultDPI: 203 as const,
       thermalPrinterName: '',
+      thermalLanguage: 'browser' as const,
+      thermalPrinterHost: '',
+      thermalPrinterPort: 9100,
       a4Default: {
         rows: 7,
         cols: 3,
@@ -1,6 +1,11 @@
 import { dataService, Product, Customer, Sale, SaleLine, DiscountRule } from './dataService';
 import { generateReceiptNumber } from '@/utils/receiptNumber';
-import { SETTINGS } from '@/config/settings';
+import { computeTaxes, TaxResult } from '@/lib/tax';
+import { saleQueueService } from './saleQueueService';
+import { taxService } from './taxService';
+import { useAppStore } from '@/store/appStore';
+import { getEmbeddedBarcodeSettings, parseEmbeddedBarcode } from '@/lib/embeddedBarcode';
+import { packPrice, PackUnit, toBaseQty } from '@/lib/uom';
 
 export interface POSSaleRequest {
   cashier_id: number;
@@ -16,6 +21,8 @@ export interface POSLineRequest {
   qty: number;
   unit_price?: number;
   line_discount?: number;
+  // Sold in a pack: qty and unit_price are then per pack
+  uom?: PackUnit | null;
 }
 
 export interface POSDiscountRequest {
@@ -45,6 +52,7 @@ export interface POSHeldSale {
 
 export interface ScaleBarcodeResult {
   product_id: number;
+  item_code: string;
   qty: number;
   unit_price?: number;
   line_total?: number;
@@ -93,6 +101,16 @@ export class POSService {
       }
     }
 
+    // A pack line is kept in base units so stock and the server see the same quantity;
+    // the pack and how many were sold ride along for the receipt
+    const uom = request.uom ?? null;
+    const linePrice = uom && !request.unit_price
+      ? packPrice(unitPrice, uom, this.currentSale.price_tier)
+      : unitPrice;
+    const lineQty = uom ? request.qty : undefined;
+    const baseQty = toBaseQty(request.qty, uom);
+    const baseUnitPrice = uom ? Math.round((linePrice / uom.conv_to_base) * 10000) / 10000 : unitPrice;
+
     // Check if this is a scale item
     if (product.is_scale_item && request.qty > 0) {
       // For scale items, the qty represents weight
@@ -100,32 +118,38 @@ export class POSService {
     }
 
     const lineDiscount = request.line_discount || 0;
-    const subtotal = (unitPrice * request.qty) - lineDiscount;
-    // FIX: Tax is computed after all discounts at invoice level to avoid drift.
-    const tax = 0; // Per-line tax removed - computed at invoice level
+    const subtotal = (linePrice * request.qty) - lineDiscount;
+    // Line tax is settled at finalize time, once all discounts are known
+    const tax = 0;
     const total = subtotal + tax;
 
     const saleLine: SaleLine = {
       id: Date.now(),
       sale_id: this.currentSale.id,
       product_id: request.product_id,
-      qty: request.qty,
-      unit_price: unitPrice,
+      qty: baseQty,
+      unit_price: baseUnitPrice,
       line_discount: lineDiscount,
       tax,
-      total
+      tax_code: product.tax_code,
+      total,
+      uom: uom?.code,
+      uom_qty: lineQty
     };
 
-    // Check if line already exists for this product
+    // Check if line already exists for this product in the same unit
     const existingLineIndex = this.currentLines.findIndex(
-      line => line.product_id === request.product_id && line.unit_price === unitPrice
+      line => line.product_id === request.product_id &&
+        line.unit_price === baseUnitPrice &&
+        (line.uom ?? null) === (uom?.code ?? null)
     );
 
     if (existingLineIndex >= 0) {
       // Increment quantity of existing line
-      this.currentLines[existingLineIndex].qty += request.qty;
-      this.currentLines[existingLineIndex].total = 
-        ((this.currentLines[existingLineIndex].qty * unitPrice) - lineDiscount);
+      const existing = this.currentLines[existingLineIndex];
+      existing.qty = toBaseQty(existing.qty + baseQty);
+      if (uom) existing.uom_qty = (existing.uom_qty ?? 0) + request.qty;
+      existing.total = (((existing.uom_qty ?? existing.qty) * linePrice) - lineDiscount);
     } else {
       // Add new line
       this.currentLines.push(saleLine);
@@ -250,12 +274,18 @@ export class POSService {
       throw new Error('No active sale');
     }
 
-    // Calculate totals
+    // Calculate totals; each line is taxed under its product's tax code
+    const taxes = this.computeLineTaxes();
     const gross = this.currentLines.reduce((sum, line) => sum + (line.qty * line.unit_price), 0);
     const discount = this.currentLines.reduce((sum, line) => sum + line.line_discount, 0);
-    // FIX: Tax computed at invoice level using SETTINGS.TAX_RATE
-    const tax = (gross - discount) * SETTINGS.TAX_RATE;
-    const net = gross - discount + tax;
+    const tax = taxes.taxTotal;
+    const net = taxes.total;
+
+    this.currentLines.forEach((line, index) => {
+      line.tax_code = taxes.lines[index].code;
+      line.tax = taxes.lines[index].tax;
+      line.total = taxes.lines[index].total;
+    });
 
     // Update sale totals
     this.currentSale.gross = gross;
@@ -264,11 +294,16 @@ export class POSService {
     this.currentSale.net = net;
 
     // Finalize with payments
-    const finalizedSale = await dataService.finalizeSale(this.currentSale.id, {
+    const finalizedSale: Sale = {
+      ...this.currentSale,
       pay_cash: request.payments.cash,
       pay_card: request.payments.card,
       pay_wallet: request.payments.wallet
-    });
+    };
+
+    // Offline-first: the sale is complete once it is in the durable queue, which posts it
+    // to the server now or when connectivity returns
+    await saleQueueService.enqueue(finalizedSale, [...this.currentLines]);
     
     // Clear current sale
     this.currentSale = null;
@@ -277,36 +312,28 @@ export class POSService {
     return finalizedSale;
   }
 
-  // Scale barcode parsing
+  // Scale barcode parsing, with the store's embedded barcode schemes
   parseScaleBarcode(barcode: string): ScaleBarcodeResult | null {
-    // Scale barcode format: PLU + weight/price
-    // Example: "1234567890124" + "250" (weight in grams)
-    // or "1234567890124" + "P500" (price override)
-    
-    if (barcode.length < 13) {
+    const embedded = parseEmbeddedBarcode(barcode, getEmbeddedBarcodeSettings(useAppStore.getState().settings?.devices));
+    if (!embedded) {
       return null;
     }
 
-    const productBarcode = barcode.substring(0, 13);
-    const scaleData = barcode.substring(13);
-
-    if (scaleData.startsWith('P')) {
-      // Price override
-      const price = parseFloat(scaleData.substring(1)) / 100; // Convert cents to rupees
+    if (embedded.price !== undefined) {
+      // Price embedded: the label carries the line total
       return {
-        product_id: 0, // Will be resolved by barcode lookup
+        product_id: 0, // Will be resolved by item code lookup
+        item_code: embedded.itemCode,
         qty: 1,
-        line_total: price
-      };
-    } else {
-      // Weight
-      const weight = parseFloat(scaleData) / 1000; // Convert grams to kg
-      return {
-        product_id: 0, // Will be resolved by barcode lookup
-        qty: weight,
-        unit_price: 0 // Will be resolved by product lookup
+        line_total: embedded.price
       };
     }
+    return {
+      product_id: 0, // Will be resolved by item code lookup
+      item_code: embedded.itemCode,
+      qty: embedded.weightKg ?? 0,
+      unit_price: 0 // Will be resolved by product lookup
+    };
   }
 
   // Get current sale
@@ -336,13 +363,21 @@ export class POSService {
 
   // Get sale totals
   getSaleTotals(): { gross: number; discount: number; tax: number; net: number } {
+    const taxes = this.computeLineTaxes();
     const gross = this.currentLines.reduce((sum, line) => sum + (line.qty * line.unit_price), 0);
     const discount = this.currentLines.reduce((sum, line) => sum + line.line_discount, 0);
-    // FIX: Tax computed at invoice level using SETTINGS.TAX_RATE
-    const tax = (gross - discount) * SETTINGS.TAX_RATE;
-    const net = gross - discount + tax;
 
-    return { gross, discount, tax, net };
+    return { gross, discount, tax: taxes.taxTotal, net: taxes.total };
+  }
+
+  private computeLineTaxes(): TaxResult {
+    return computeTaxes(
+      this.currentLines.map(line => ({
+        amount: (line.qty * line.unit_price) - line.line_discount,
+        taxCode: line.tax_code
+      })),
+      taxService.getTaxCodes()
+    );
   }
 
   // Export today's invoices as CSV
@@ -0,0 +1,202 @@
+/**
+ * Account Payment Receipt Print Adapter
+ * Handles printing of receipts for payments taken against customer credit accounts
+ */
+
+import { AccountPaymentReceipt } from '../customerAccountService';
+
+export interface AccountPaymentReceiptData {
+  receipt: AccountPaymentReceipt;
+  cashier_name?: string;
+  store_info: {
+    name: string;
+    address: string;
+  };
+}
+
+export interface AccountPaymentReceiptOptions {
+  printerWidth: '58mm' | '80mm';
+  copies: number;
+  cutPaper: boolean;
+}
+
+export interface AccountPaymentReceiptTemplate {
+  header: string[];
+  content: string[];
+  footer: string[];
+}
+
+const METHOD_LABELS: Record<AccountPaymentReceipt['method'], string> = {
+  CASH: 'Cash',
+  CARD: 'Card',
+  WALLET: 'Wallet',
+  BANK: 'Bank Transfer'
+};
+
+class AccountPaymentReceiptAdapter {
+  private readonly defaultOptions: AccountPaymentReceiptOptions = {
+    printerWidth: '80mm',
+    copies: 1,
+    cutPaper: true
+  };
+
+  /**
+   * Print on-account payment receipt
+   */
+  async printReceipt(data: AccountPaymentReceiptData, options: Partial<AccountPaymentReceiptOptions> = {}): Promise<void> {
+    try {
+      const printOptions = { ...this.defaultOptions, ...options };
+      const template = this.generateTemplate(data, printOptions.printerWidth);
+
+      await this.print(template, printOptions);
+      console.log('✅ Account payment receipt printed successfully');
+    } catch (error) {
+      console.error('❌ Failed to print account payment receipt:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generate receipt template
+   */
+  private generateTemplate(data: AccountPaymentReceiptData, width: '58mm' | '80mm'): AccountPaymentReceiptTemplate {
+    const lineWidth = width === '58mm' ? 32 : 48;
+    const line = '='.repeat(lineWidth);
+    const dashLine = '-'.repeat(lineWidth);
+    const { receipt } = data;
+
+    const header = [
+      this.centerText(data.store_info.name, lineWidth),
+      this.centerText(data.store_info.address.replace(/\n/g, ' '), lineWidth),
+      line,
+      '',
+      this.centerText('*** PAYMENT RECEIPT ***', lineWidth),
+      this.centerText('ON ACCOUNT', lineWidth),
+      '',
+      line
+    ];
+
+    const content = [
+      `Receipt No: ${receipt.receipt_no}`,
+      `Date: ${this.formatDateTime(receipt.at)}`,
+      `Customer: ${receipt.customer_name}`,
+      ...(data.cashier_name ? [`Cashier: ${data.cashier_name}`] : []),
+      dashLine,
+      this.formatLine('Previous Balance:', this.formatCurrency(receipt.balance_before), lineWidth),
+      this.formatLine(`Paid (${METHOD_LABELS[receipt.method]}):`, this.formatCurrency(receipt.amount), lineWidth),
+      ...(receipt.reference ? [this.formatLine('Reference:', receipt.reference, lineWidth)] : []),
+      dashLine,
+      this.formatLine('BALANCE DUE:', this.formatCurrency(receipt.balance_after), lineWidth)
+    ];
+
+    const footer = [
+      dashLine,
+      '',
+      this.centerText('Thank you for your payment', lineWidth),
+      '',
+      `Printed: ${this.formatDateTime(new Date().toISOString())}`,
+      '',
+      line
+    ];
+
+    return { header, content, footer };
+  }
+
+  /**
+   * Send print job to printer
+   */
+  private async print(template: AccountPaymentReceiptTemplate, options: AccountPaymentReceiptOptions): Promise<void> {
+    try {
+      const printContent = [
+        ...template.header,
+        ...template.content,
+        ...template.footer
+      ].join('\n');
+
+      console.log('🖨️ Printing account payment receipt:');
+      console.log(printContent);
+
+      // Open print dialog for browser printing
+      const printWindow = window.open('', '_blank');
+      if (printWindow) {
+        printWindow.document.write(`
+          <html>
+            <head>
+              <title>Payment Receipt</title>
+              <style>
+                body {
+                  font-family: 'Courier New', monospace;
+                  font-size: ${options.printerWidth === '58mm' ? '10px' : '12px'};
+                  line-height: 1.2;
+                  margin: 10px;
+                  white-space: pre-wrap;
+                }
+                @media print {
+                  body { margin: 0; }
+                }
+              </style>
+            </head>
+            <body>${printContent}</body>
+          </html>
+        `);
+        printWindow.document.close();
+
+        // Auto-print after a short delay
+        setTimeout(() => {
+          printWindow.print();
+          printWindow.close();
+        }, 500);
+      }
+    } catch (error) {
+      console.error('Print operation failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Format text to be centered within line width
+   */
+  private centerText(text: string, lineWidth: number): string {
+    const padding = Math.max(0, Math.floor((lineWidth - text.length) / 2));
+    return ' '.repeat(padding) + text;
+  }
+
+  /**
+   * Format a line with left and right aligned text
+   */
+  private formatLine(left: string, right: string, lineWidth: number): string {
+    const maxLeftWidth = lineWidth - right.length - 1;
+    const truncatedLeft = left.length > maxLeftWidth ? left.substring(0, maxLeftWidth) : left;
+    const padding = lineWidth - truncatedLeft.length - right.length;
+    return truncatedLeft + ' '.repeat(Math.max(1, padding)) + right;
+  }
+
+  /**
+   * Format currency amount
+   */
+  private formatCurrency(amount: number): string {
+    return new Intl.NumberFormat('en-LK', {
+      style: 'currency',
+      currency: 'LKR'
+    }).format(amount);
+  }
+
+  /**
+   * Format date and time
+   */
+  private formatDateTime(isoString: string): string {
+    // SQLite timestamps come back as UTC without a zone marker
+    const value = isoString.includes('T') ? isoString : `${isoString.replace(' ', 'T')}Z`;
+    return new Date(value).toLocaleString('en-LK', {
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: true
+    });
+  }
+}
+
+// Export singleton instance
+export const accountPaymentReceiptAdapter = new AccountPaymentReceiptAdapter();
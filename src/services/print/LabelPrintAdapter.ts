@@ -1,6 +1,9 @@
 import { LabelPreset, LabelItem, LabelBatch } from '@/types';
 import { barcodeService } from '@/services/barcodeService';
 import { useAppStore } from '@/store/appStore';
+import { getServerBaseUrl } from '@/utils/api';
+import { ServerRawTransport } from '@/adapters/receipt/EscPosTransport';
+import { LabelCommandLanguage, LabelFieldValues, renderLabelCommands } from './labelCommands';
 
 export interface LabelRenderOptions {
   dpi?: 203 | 300;
@@ -55,6 +58,30 @@ export class LabelPrintAdapter {
     return renderedLabels;
   }
 
+  /**
+   * Render thermal labels as ZPL or TSPL printer commands. Each item is one label format
+   * printed `qty` times, rather than one format per copy as in the HTML render.
+   */
+  renderCommands(batch: LabelBatch, language: LabelCommandLanguage, options: LabelRenderOptions = {}): string {
+    const { preset, items } = batch;
+    const { dpi = 203 } = options;
+
+    if (preset.paper !== 'THERMAL') {
+      throw new Error('Thermal renderer only supports THERMAL paper type');
+    }
+
+    return items
+      .filter(item => item.qty > 0)
+      .map(item => renderLabelCommands(language, {
+        preset,
+        values: this.extractFieldValues(item, preset),
+        barcode: preset.barcode.source === 'barcode' ? item.barcode : item.sku,
+        copies: item.qty,
+        dpi
+      }))
+      .join('');
+  }
+
   /**
    * Render labels for A4 sheet layout
    */
@@ -384,24 +411,8 @@ export class LabelPrintAdapter {
   /**
    * Extract field values from label item based on preset configuration
    */
-  private extractFieldValues(item: LabelItem, preset: LabelPreset): {
-    line1?: string;
-    line2?: string;
-    price?: string;
-    mrp?: string;
-    batch?: string;
-    packedDate?: string;
-    expiryDate?: string;
-  } {
-    const values: { 
-      line1?: string; 
-      line2?: string; 
-      price?: string;
-      mrp?: string;
-      batch?: string;
-      packedDate?: string;
-      expiryDate?: string;
-    } = {};
+  private extractFieldValues(item: LabelItem, preset: LabelPreset): LabelFieldValues {
+    const values: LabelFieldValues = {};
     
     // Determine language for product name
     let productLanguage: 'EN' | 'SI' | 'TA' = 'EN';
@@ -595,6 +606,23 @@ export class LabelPrintAdapter {
    * Print thermal labels
    */
   async printThermal(batch: LabelBatch, options: LabelRenderOptions = {}): Promise<void> {
+    const { labelSettings, settings } = useAppStore.getState();
+    const language = labelSettings.thermalLanguage;
+    if ((language === 'ZPL' || language === 'TSPL') && labelSettings.thermalPrinterHost) {
+      try {
+        const commands = this.renderCommands(batch, language, { dpi: labelSettings.defaultDPI, ...options });
+        const transport = new ServerRawTransport(
+          { host: labelSettings.thermalPrinterHost, port: labelSettings.thermalPrinterPort || 9100 },
+          getServerBaseUrl(settings?.dataSource)
+        );
+        await transport.send(new TextEncoder().encode(commands));
+      } catch (error) {
+        console.error(`❌ Failed to send ${language} labels:`, error);
+        throw error;
+      }
+      return;
+    }
+
     try {
       const labels = await this.renderThermal(batch, options);
       
@@ -0,0 +1,235 @@
+import { LabelPreset } from '@/types';
+
+/**
+ * ZPL (Zebra) and TSPL (TSC) command generators for thermal labels.
+ * Both printers get the same layout: the preset's sections stacked top to bottom in
+ * `sectionOrder`, sized by `font_scale` and placed in printer dots at 203 or 300 dpi.
+ */
+
+export type LabelCommandLanguage = 'ZPL' | 'TSPL';
+
+/** Printable text of each label line, as the HTML renderer shows it */
+export interface LabelFieldValues {
+  line1?: string;
+  line2?: string;
+  price?: string;
+  mrp?: string;
+  batch?: string;
+  packedDate?: string;
+  expiryDate?: string;
+}
+
+export interface LabelCommandInput {
+  preset: LabelPreset;
+  values: LabelFieldValues;
+  barcode?: string;
+  copies: number;
+  dpi: 203 | 300;
+}
+
+interface TextElement {
+  kind: 'text';
+  y: number;
+  height: number;
+  text: string;
+}
+
+interface BarcodeElement {
+  kind: 'barcode';
+  y: number;
+  height: number;
+  symbology: 'EAN13' | 'CODE128';
+  data: string;
+  showText: boolean;
+  moduleWidth: number;
+  widthDots: number;
+}
+
+type LabelElement = TextElement | BarcodeElement;
+
+interface LabelLayout {
+  widthDots: number;
+  heightDots: number;
+  margin: number;
+  elements: LabelElement[];
+}
+
+const DEFAULT_SECTION_ORDER: NonNullable<LabelPreset['style']['sectionOrder']> = ['name', 'barcode', 'price', 'mrp', 'batch', 'dates'];
+
+/** Text heights in mm at font_scale 1 */
+const TEXT_MM = { line1: 3, line2: 2.2, price: 3.6, mrp: 2.4, batch: 2.2, date: 2 };
+const MARGIN_MM = 1.5;
+const GAP_MM = 0.5;
+/** Room under the bars for the printer's human-readable line */
+const BARCODE_TEXT_MM = 2.5;
+/** Average glyph width as a share of its height, to keep lines inside the label */
+const GLYPH_WIDTH = 0.55;
+
+export function renderLabelCommands(language: LabelCommandLanguage, input: LabelCommandInput): string {
+  return language === 'ZPL' ? renderZpl(input) : renderTspl(input);
+}
+
+export function renderZpl(input: LabelCommandInput): string {
+  const layout = layoutLabel(input);
+  const { align } = input.preset.style;
+  const fieldAlign = align === 'center' ? 'C' : align === 'right' ? 'R' : 'L';
+  const innerWidth = layout.widthDots - layout.margin * 2;
+
+  const lines = ['^XA', '^CI28', `^PW${layout.widthDots}`, `^LL${layout.heightDots}`, '^LH0,0'];
+  for (const element of layout.elements) {
+    if (element.kind === 'text') {
+      lines.push(
+        `^FO${layout.margin},${element.y}^A0N,${element.height},${element.height}` +
+        `^FB${innerWidth},1,0,${fieldAlign}^FH^FD${zplEscape(element.text)}^FS`
+      );
+    } else {
+      const x = alignedX(layout, element.widthDots, align);
+      const interpretation = element.showText ? 'Y' : 'N';
+      const command = element.symbology === 'EAN13'
+        ? `^BEN,${element.height},${interpretation},N`
+        : `^BCN,${element.height},${interpretation},N,N`;
+      lines.push(`^BY${element.moduleWidth}^FO${x},${element.y}${command}^FD${element.data}^FS`);
+    }
+  }
+  lines.push(`^PQ${input.copies}`, '^XZ');
+  return `${lines.join('\n')}\n`;
+}
+
+export function renderTspl(input: LabelCommandInput): string {
+  const layout = layoutLabel(input);
+  const { preset, dpi } = input;
+  const { align } = preset.style;
+  const textAlign = align === 'center' ? 2 : align === 'right' ? 3 : 1;
+  const textX = align === 'center'
+    ? Math.round(layout.widthDots / 2)
+    : align === 'right' ? layout.widthDots - layout.margin : layout.margin;
+
+  const lines = [
+    `SIZE ${preset.size.width_mm} mm,${preset.size.height_mm} mm`,
+    'GAP 2 mm,0 mm',
+    'DIRECTION 1',
+    'CODEPAGE UTF-8',
+    'CLS'
+  ];
+  for (const element of layout.elements) {
+    if (element.kind === 'text') {
+      // Scalable font "0" is sized in points
+      const points = Math.max(1, Math.round((element.height * 72) / dpi));
+      lines.push(`TEXT ${textX},${element.y},"0",0,${points},${points},${textAlign},"${tsplEscape(element.text)}"`);
+    } else {
+      const x = alignedX(layout, element.widthDots, align);
+      const type = element.symbology === 'EAN13' ? 'EAN13' : '128';
+      lines.push(
+        `BARCODE ${x},${element.y},"${type}",${element.height},${element.showText ? 1 : 0},0,` +
+        `${element.moduleWidth},${element.moduleWidth},"${element.data}"`
+      );
+    }
+  }
+  lines.push(`PRINT 1,${input.copies}`);
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Stack the preset's sections from the top margin down. Sections that would run off the
+ * bottom of the label are left out, so the ones first in `sectionOrder` always print.
+ */
+function layoutLabel(input: LabelCommandInput): LabelLayout {
+  const { preset, values, dpi } = input;
+  const dots = (mm: number) => Math.round((mm * dpi) / 25.4);
+  const scale = preset.style.font_scale || 1;
+
+  const widthDots = dots(preset.size.width_mm);
+  const heightDots = dots(preset.size.height_mm);
+  const margin = dots(MARGIN_MM);
+  const gap = dots(GAP_MM);
+  const innerWidth = widthDots - margin * 2;
+
+  const elements: LabelElement[] = [];
+  let y = margin;
+  const place = (element: LabelElement, footprint = element.height) => {
+    if (y + footprint > heightDots - margin) return;
+    elements.push(element);
+    y += footprint + gap;
+  };
+  const text = (value: string | undefined, mm: number) => {
+    if (!value) return;
+    const height = dots(mm * scale);
+    place({ kind: 'text', y, height, text: fitText(value, innerWidth, height) });
+  };
+
+  for (const section of preset.style.sectionOrder || DEFAULT_SECTION_ORDER) {
+    switch (section) {
+      case 'name':
+        text(values.line1, TEXT_MM.line1);
+        text(values.line2, TEXT_MM.line2);
+        break;
+      case 'barcode': {
+        const barcode = barcodeElement(input, innerWidth, dots(preset.size.height_mm > 25 ? 10 : 7));
+        if (barcode) place({ ...barcode, y }, barcode.height + (barcode.showText ? dots(BARCODE_TEXT_MM) : 0));
+        break;
+      }
+      case 'price':
+        text(values.price, TEXT_MM.price);
+        break;
+      case 'mrp':
+        text(values.mrp, TEXT_MM.mrp);
+        break;
+      case 'batch':
+        text(values.batch, TEXT_MM.batch);
+        break;
+      case 'dates':
+        text(values.packedDate, TEXT_MM.date);
+        text(values.expiryDate, TEXT_MM.date);
+        break;
+    }
+  }
+
+  return { widthDots, heightDots, margin, elements };
+}
+
+/**
+ * Barcode with the widest module that fits the label. EAN-13 data that is not 12 or 13 digits
+ * is printed as CODE128 instead so the label still scans.
+ */
+function barcodeElement(input: LabelCommandInput, innerWidth: number, height: number): BarcodeElement | null {
+  const { preset } = input;
+  const data = input.barcode?.trim();
+  if (!preset.barcode || !data) return null;
+
+  const ean = preset.barcode.symbology === 'EAN13' && /^\d{12,13}$/.test(data);
+  // EAN-13 is 95 modules; CODE128 set B is 11 per character plus start, check and a 13-module stop
+  const modules = ean ? 95 : 11 * (data.length + 2) + 13;
+  const moduleWidth = Math.max(1, Math.min(input.dpi >= 300 ? 4 : 3, Math.floor(innerWidth / modules)));
+
+  return {
+    kind: 'barcode',
+    y: 0,
+    height,
+    symbology: ean ? 'EAN13' : 'CODE128',
+    // Printers add the EAN-13 check digit themselves
+    data: ean ? data.slice(0, 12) : data,
+    showText: preset.barcode.show_text,
+    moduleWidth,
+    widthDots: modules * moduleWidth
+  };
+}
+
+function alignedX(layout: LabelLayout, width: number, align: 'left' | 'center' | 'right'): number {
+  if (align === 'center') return Math.max(0, Math.round((layout.widthDots - width) / 2));
+  if (align === 'right') return Math.max(0, layout.widthDots - layout.margin - width);
+  return layout.margin;
+}
+
+function fitText(text: string, widthDots: number, heightDots: number): string {
+  const maxChars = Math.max(1, Math.floor(widthDots / (heightDots * GLYPH_WIDTH)));
+  return text.length <= maxChars ? text : `${text.slice(0, Math.max(1, maxChars - 1))}…`;
+}
+
+/** ^FH hex escapes for the characters ZPL treats as commands */
+function zplEscape(text: string): string {
+  return text.replace(/[_^~]/g, char => `_${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function tsplEscape(text: string): string {
+  return text.replace(/"/g, '\\["]');
+}
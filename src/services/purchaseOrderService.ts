@@ -0,0 +1,145 @@
+/**
+ * Purchase Order Service
+ * Purchase orders kept on the POS server: creation per supplier, receiving progress from the
+ * GRNs posted against them, tolerance checks, closing and emailing the order to the supplier.
+ */
+
+import { getServerBaseUrl, serverRequest, ServiceError } from '@/utils/api';
+import { useAppStore } from '../store/appStore';
+import {
+  POLineReceiptStatus,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderStatus
+} from '../types';
+
+export interface PurchaseOrderReceipt {
+  id: number;
+  grn_no: string;
+  datetime: string;
+  status: string;
+  total: number;
+}
+
+export interface PurchaseOrderDetails {
+  purchase_order: PurchaseOrder;
+  supplier: {
+    id: number;
+    supplier_name: string;
+    contact_phone?: string | null;
+    contact_email?: string | null;
+    address?: string | null;
+  } | null;
+  lines: PurchaseOrderLine[];
+  receipts: PurchaseOrderReceipt[];
+}
+
+export interface ReceiptCheckLine {
+  product_id: number;
+  qty_ordered: number;
+  qty_receiving: number;
+  qty_received_after: number;
+  receipt_status: POLineReceiptStatus | 'NOT_ORDERED';
+}
+
+export interface NewPurchaseOrder {
+  supplierId: number;
+  expectedDate?: string;
+  note?: string;
+  tolerancePct?: number;
+  lines: Array<{ productId: number; qty: number; unitCost: number; uom?: string }>;
+}
+
+export class PurchaseOrderServiceError extends ServiceError {}
+
+export class PurchaseOrderService {
+  private request<T>(path: string, options: RequestInit = {}): Promise<T> {
+    const baseUrl = getServerBaseUrl(useAppStore.getState().settings?.dataSource);
+    return serverRequest<T>(baseUrl, `/api/purchase-orders${path}`, options, PurchaseOrderServiceError);
+  }
+
+  async list(params: { q?: string; supplierId?: number; status?: PurchaseOrderStatus; limit?: number } = {}): Promise<PurchaseOrder[]> {
+    const query = new URLSearchParams({ sort: 'created_at', order: 'desc' });
+    if (params.q) query.set('q', params.q);
+    if (params.supplierId) query.set('supplier_id', String(params.supplierId));
+    if (params.status) query.set('status', params.status);
+    if (params.limit) query.set('limit', String(params.limit));
+
+    const data = await this.request<{ purchase_orders: PurchaseOrder[] }>(`?${query}`);
+    return data.purchase_orders;
+  }
+
+  /** Order with its lines' received and outstanding quantities and the GRNs posted against it */
+  async get(id: number): Promise<PurchaseOrderDetails> {
+    return this.pick(await this.request<PurchaseOrderDetails>(`/${id}/receiving`));
+  }
+
+  async create(order: NewPurchaseOrder): Promise<PurchaseOrderDetails> {
+    const data = await this.request<PurchaseOrderDetails>('', {
+      method: 'POST',
+      body: JSON.stringify({
+        supplier_id: order.supplierId,
+        expected_date: order.expectedDate || undefined,
+        note: order.note || undefined,
+        tolerance_pct: order.tolerancePct,
+        lines: order.lines.map(line => ({
+          product_id: line.productId,
+          qty: line.qty,
+          unit_cost: line.unitCost,
+          uom: line.uom
+        }))
+      })
+    });
+    return this.pick(data);
+  }
+
+  /**
+   * Check a saved GRN against the order before posting it. Rejects with code
+   * RECEIPT_OUTSIDE_TOLERANCE (details: the offending ReceiptCheckLine[]) on over-receipt.
+   */
+  async checkReceipt(poId: number, grnId: number): Promise<ReceiptCheckLine[]> {
+    const data = await this.request<{ lines: ReceiptCheckLine[] }>(`/${poId}/check-receipt`, {
+      method: 'POST',
+      body: JSON.stringify({ grn_id: grnId })
+    });
+    return data.lines;
+  }
+
+  /** Where GRN lines still being keyed in (base units) would leave the order, as the server judges it */
+  async previewReceipt(poId: number, lines: Array<{ productId: number; qty: number }>): Promise<ReceiptCheckLine[]> {
+    const data = await this.request<{ lines: ReceiptCheckLine[] }>(`/${poId}/preview-receipt`, {
+      method: 'POST',
+      body: JSON.stringify({ lines: lines.map(line => ({ product_id: line.productId, qty: line.qty })) })
+    });
+    return data.lines;
+  }
+
+  /** Refresh the order's status after a GRN against it was posted; closes it when complete */
+  async syncReceipts(poId: number): Promise<PurchaseOrderDetails> {
+    return this.pick(await this.request<PurchaseOrderDetails>(`/${poId}/sync`, { method: 'POST' }));
+  }
+
+  async close(poId: number, reason?: string): Promise<PurchaseOrderDetails> {
+    const data = await this.request<PurchaseOrderDetails>(`/${poId}/close`, {
+      method: 'POST',
+      body: JSON.stringify({ reason: reason || undefined })
+    });
+    return this.pick(data);
+  }
+
+  async cancel(poId: number): Promise<PurchaseOrderDetails> {
+    return this.pick(await this.request<PurchaseOrderDetails>(`/${poId}/cancel`, { method: 'POST' }));
+  }
+
+  /** Email the order to the supplier's address on file; the server renders it and sends it */
+  async email(poId: number): Promise<string> {
+    const data = await this.request<{ to: string }>(`/${poId}/email`, { method: 'POST' });
+    return data.to;
+  }
+
+  private pick({ purchase_order, supplier, lines, receipts }: PurchaseOrderDetails): PurchaseOrderDetails {
+    return { purchase_order, supplier, lines, receipts };
+  }
+}
+
+export const purchaseOrderService = new PurchaseOrderService();
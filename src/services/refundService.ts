@@ -1,4 +1,6 @@
 import { database } from './database';
+import { storeService } from './storeService';
+import { useAppStore } from '../store/appStore';
 import { 
   Return, 
   ReturnLine, 
@@ -191,12 +193,13 @@ export class RefundService {
       
       const returnId = returnResult.lastID;
       
-      // 2. Insert return lines
+      // 2. Insert return lines, costed at what their sale line went out at
       for (const line of tx.lines) {
+        const unitCost = await this.saleLineCost(line.sale_line_id);
         const lineInsert = `
           INSERT INTO return_lines (
-            return_id, sale_line_id, product_id, qty, unit_price, line_refund, reason_code
-          ) VALUES (?, ?, ?, ?, ?, ?, ?)
+            return_id, sale_line_id, product_id, qty, unit_price, line_refund, reason_code, unit_cost
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
         `;
         
         await db.execute(lineInsert, [
@@ -206,32 +209,32 @@ export class RefundService {
           line.qty,
           line.unit_price,
           line.line_refund,
-          line.reason_code
+          line.reason_code,
+          unitCost
         ]);
         
-        // 3. Insert inventory movement (type='RETURN', qty +ve back into stock)
+        // 3. Insert inventory movement (type='RETURN', qty +ve back into stock at the same cost)
         const inventoryInsert = `
-          INSERT INTO inventory_movements (product_id, qty, type, reason, note)
-          VALUES (?, ?, 'RETURN', ?, ?)
+          INSERT INTO inventory_movements (product_id, qty, type, reason, note, store_id, unit_cost)
+          VALUES (?, ?, 'RETURN', ?, ?, ?, ?)
         `;
         
         await db.execute(inventoryInsert, [
           line.product_id,
           line.qty, // Positive quantity to add back to stock
           `Return - ${line.reason_code}`,
-          `Return ID: ${returnId}, Sale Line: ${line.sale_line_id}`
+          `Return ID: ${returnId}, Sale Line: ${line.sale_line_id}`,
+          storeService.currentStoreId() ?? null,
+          unitCost
         ]);
       }
       
-      // 4. Update product stock levels
-      for (const line of tx.lines) {
-        const updateStock = `
-          UPDATE products 
-          SET stock = stock + ? 
-          WHERE id = ?
-        `;
-        
-        await db.execute(updateStock, [line.qty, line.product_id]);
+      // 4. Put the stock back into the batches the sale line was taken from; a server keeps its
+      // batches itself and restocks them from the REFUND sales synced to /api/sales/sync
+      if (useAppStore.getState().settings?.dataSource?.mode !== 'server') {
+        for (const line of tx.lines) {
+          await this.restockBatches(line.sale_line_id, line.product_id, line.qty);
+        }
       }
       
       await db.execute('COMMIT');
@@ -244,6 +247,42 @@ export class RefundService {
     }
   }
 
+  /** Unit cost a sale line was stamped with when it synced; null for lines synced before costing was kept */
+  private async saleLineCost(saleLineId: number): Promise<number | null> {
+    const db = await database;
+    const rows = await db.query<{ unit_cost: number | null }>('SELECT unit_cost FROM sale_lines WHERE id = ?', [saleLineId]);
+    return rows[0]?.unit_cost ?? null;
+  }
+
+  /**
+   * Return `qty` to the batches a sale line drew on, most recently used batch first, never more
+   * than the line took from each. Quantity sold from stock outside any batch stays untracked.
+   */
+  private async restockBatches(saleLineId: number, productId: number, qty: number): Promise<void> {
+    const db = await database;
+    const used = await db.query<{ id: number; batch_id: number; qty: number; qty_returned: number }>(`
+      SELECT id, batch_id, qty, qty_returned
+      FROM sale_line_batches
+      WHERE sale_line_id = ?
+      ORDER BY id DESC
+    `, [saleLineId]);
+
+    let remaining = qty;
+    for (const row of used) {
+      if (remaining <= 0) break;
+      const back = Math.min(remaining, row.qty - row.qty_returned);
+      if (back <= 0) continue;
+
+      await db.execute('UPDATE batches SET qty_on_hand = qty_on_hand + ? WHERE id = ?', [back, row.batch_id]);
+      await db.execute('UPDATE sale_line_batches SET qty_returned = qty_returned + ? WHERE id = ?', [back, row.id]);
+      await db.execute(`
+        INSERT INTO stock_movements (product_id, batch_id, qty, reason)
+        VALUES (?, ?, ?, 'RETURN')
+      `, [productId, row.batch_id, back]);
+      remaining = Math.round((remaining - back) * 1000) / 1000;
+    }
+  }
+
   /**
    * Format return receipt data for printing
    */
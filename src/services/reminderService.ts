@@ -0,0 +1,100 @@
+/**
+ * Reminder Service
+ * Payment reminders queued on the POS server: queue status, manual dispatch and retries.
+ * Sending itself is done by the server's reminder dispatcher job.
+ */
+
+import { getServerBaseUrl, serverRequest, ServiceError } from '@/utils/api';
+import { useAppStore } from '../store/appStore';
+
+export type ReminderChannel = 'email' | 'sms';
+export type ReminderStatus = 'queued' | 'sent' | 'failed';
+
+export interface Reminder {
+  id: number;
+  customer_id: number;
+  invoice_id: number;
+  channel: ReminderChannel;
+  template_id: number | null;
+  status: ReminderStatus;
+  attempts: number;
+  scheduled_at: string | null;
+  recipient: string | null;
+  sent_at: string | null;
+  last_error: string | null;
+}
+
+export interface ReminderFailure {
+  id: number;
+  customer_id: number;
+  customer_name: string | null;
+  invoice_id: number;
+  channel: ReminderChannel;
+  status: ReminderStatus;
+  attempts: number;
+  scheduled_at: string | null;
+  last_error: string;
+}
+
+export interface DispatchSummary {
+  processed: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+export interface ReminderQueueStatus {
+  counts: { queued: number; sent: number; failed: number; retrying: number };
+  next_scheduled_at: string | null;
+  last_run: (DispatchSummary & { at: string; error?: string }) | null;
+  transports: { email: string | null; sms: string | null; error: string | null };
+  recent_failures: ReminderFailure[];
+}
+
+export class ReminderServiceError extends ServiceError {}
+
+export class ReminderService {
+  private request<T>(path: string, options: RequestInit = {}): Promise<T> {
+    const baseUrl = getServerBaseUrl(useAppStore.getState().settings?.dataSource);
+    return serverRequest<T>(baseUrl, `/api/reminders${path}`, options, ReminderServiceError);
+  }
+
+  async getStatus(): Promise<ReminderQueueStatus> {
+    const { counts, next_scheduled_at, last_run, transports, recent_failures } =
+      await this.request<ReminderQueueStatus>('/status');
+    return { counts, next_scheduled_at, last_run, transports, recent_failures };
+  }
+
+  /** Send due reminders now instead of waiting for the next dispatcher run */
+  async dispatchNow(): Promise<DispatchSummary> {
+    const data = await this.request<{ summary: DispatchSummary }>('/dispatch', { method: 'POST' });
+    return data.summary;
+  }
+
+  async retry(reminderId: number): Promise<Reminder> {
+    const data = await this.request<{ reminder: Reminder }>(`/${reminderId}/retry`, { method: 'POST' });
+    return data.reminder;
+  }
+
+  async enqueue(reminder: {
+    customerId: number;
+    invoiceId: number;
+    channel: ReminderChannel;
+    templateId?: number;
+    scheduledAt?: Date;
+  }): Promise<Reminder> {
+    const data = await this.request<{ reminder: Reminder }>('', {
+      method: 'POST',
+      body: JSON.stringify({
+        customer_id: reminder.customerId,
+        invoice_id: reminder.invoiceId,
+        channel: reminder.channel,
+        template_id: reminder.templateId,
+        scheduled_at: reminder.scheduledAt?.toISOString()
+      })
+    });
+    return data.reminder;
+  }
+}
+
+export const reminderService = new ReminderService();
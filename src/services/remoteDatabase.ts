@@ -0,0 +1,105 @@
+import { apiRequest, serverRequest, ServiceError } from '@/utils/api';
+
+/**
+ * Server-backed data provider for DatabaseService (LAN-server mode).
+ * Sends each statement to the shared better-sqlite3 database via /api/sql so every
+ * till in the shop reads and writes the same tables.
+ */
+
+export interface ExecuteResult {
+  lastInsertRowid?: number;
+  lastID?: number;
+  changes?: number;
+}
+
+export class RemoteDatabaseError extends ServiceError {}
+
+export class RemoteDatabaseService {
+  private txId: string | null = null;
+
+  constructor(private baseUrl: string) {}
+
+  private post<T>(path: string, body?: unknown): Promise<T> {
+    const headers: Record<string, string> = {};
+    if (this.txId) headers['X-Tx-Id'] = this.txId;
+
+    return serverRequest<T>(this.baseUrl, `/api/sql${path}`, {
+      method: 'POST',
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }, RemoteDatabaseError);
+  }
+
+  async ping(): Promise<{ schemaVersion: number; time: string }> {
+    const response = await apiRequest(`${this.baseUrl}/api/sql/ping`, { method: 'GET' });
+    if (!response.ok) throw new RemoteDatabaseError(`Server error (${response.status})`, undefined, response.status);
+    return response.json();
+  }
+
+  async query<T = any>(sql: string, params: any[] = []): Promise<T[]> {
+    const data = await this.post<{ rows: T[] }>('/query', { sql, params });
+    return data.rows;
+  }
+
+  async get<T = any>(sql: string, params: any[] = []): Promise<T | null> {
+    const rows = await this.query<T>(sql, params);
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  async all<T = any>(sql: string, params: any[] = []): Promise<T[]> {
+    return this.query<T>(sql, params);
+  }
+
+  // Transaction control statements issued by the services map onto the server's transaction lease
+  async execute(sql: string, params: any[] = []): Promise<ExecuteResult> {
+    const verb = sql.trim().split(/\s+/)[0].toUpperCase();
+    if (verb === 'BEGIN') {
+      await this.begin();
+      return { changes: 0 };
+    }
+    if (verb === 'COMMIT' || verb === 'END') {
+      await this.finish('commit');
+      return { changes: 0 };
+    }
+    if (verb === 'ROLLBACK') {
+      await this.finish('rollback');
+      return { changes: 0 };
+    }
+
+    const data = await this.post<{ rows?: any[]; lastInsertRowid?: number; changes?: number }>('/execute', { sql, params });
+    return { lastInsertRowid: data.lastInsertRowid, lastID: data.lastInsertRowid, changes: data.changes ?? 0 };
+  }
+
+  async run(sql: string, params: any[] = []): Promise<{ lastID?: number; changes?: number }> {
+    const result = await this.execute(sql, params);
+    return { lastID: result.lastID, changes: result.changes };
+  }
+
+  async transaction<T>(callback: () => Promise<T>): Promise<T> {
+    await this.begin();
+    try {
+      const result = await callback();
+      await this.finish('commit');
+      return result;
+    } catch (error) {
+      await this.finish('rollback').catch(() => undefined);
+      throw error;
+    }
+  }
+
+  private async begin(): Promise<void> {
+    if (this.txId) throw new RemoteDatabaseError('A transaction is already open', 'TX_NESTED');
+    const data = await this.post<{ txId: string }>('/tx/begin');
+    this.txId = data.txId;
+  }
+
+  private async finish(action: 'commit' | 'rollback'): Promise<void> {
+    if (!this.txId) return;
+    const txId = this.txId;
+    try {
+      await this.post(`/tx/${txId}/${action}`);
+    } finally {
+      this.txId = null;
+    }
+  }
+}
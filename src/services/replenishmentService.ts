@@ -0,0 +1,249 @@
+/**
+ * Replenishment Service
+ * Reorder suggestions from stock on hand, reorder levels, recent sales velocity, supplier lead
+ * times and pack sizes, grouped by supplier into draft purchase orders a manager confirms.
+ */
+
+import { db } from './database';
+import { dataService } from './dataService';
+import { inventoryServiceSimple as inventoryService, StockRow } from './inventoryServiceSimple';
+import { purchaseOrderService, PurchaseOrderDetails } from './purchaseOrderService';
+
+export interface ReplenishmentOptions {
+  /** Days of sales history behind the average daily rate */
+  windowDays: number;
+  /** Days of demand an order should cover once it arrives */
+  coverDays: number;
+  /** Lead time for suppliers without one recorded */
+  defaultLeadTimeDays: number;
+}
+
+export const DEFAULT_REPLENISHMENT_OPTIONS: ReplenishmentOptions = {
+  windowDays: 28,
+  coverDays: 14,
+  defaultLeadTimeDays: 7
+};
+
+export interface ReorderSuggestionLine {
+  product_id: number;
+  sku: string;
+  name_en: string;
+  unit: string;
+  current_stock: number;
+  /** Still outstanding on open purchase orders */
+  on_order: number;
+  reorder_level: number;
+  avg_daily_sales: number;
+  /** reorder_level plus the demand expected during the supplier's lead time */
+  reorder_point: number;
+  pack_size: number | null;
+  suggested_qty: number;
+  unit_cost: number;
+}
+
+export interface DraftPurchaseOrder {
+  /** null for products without a preferred supplier; one must be chosen before confirming */
+  supplier_id: number | null;
+  supplier_name: string;
+  lead_time_days: number;
+  lines: ReorderSuggestionLine[];
+}
+
+export interface ReplenishmentInput {
+  stock: StockRow[];
+  /** Net quantity sold per product over the window */
+  soldQty: Map<number, number>;
+  onOrder: Map<number, number>;
+  suppliers: Array<{ id: number; supplier_name: string; lead_time_days?: number | null }>;
+}
+
+export interface DraftOrderResult {
+  draft: DraftPurchaseOrder;
+  details?: PurchaseOrderDetails;
+  error?: string;
+}
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+/** Round up to whole packs, or to whole units for items sold by the piece */
+export function roundUpToPack(qty: number, packSize: number | null | undefined, unit: string): number {
+  if (qty <= 0) return 0;
+  if (packSize && packSize > 0) return round3(Math.ceil(round3(qty / packSize)) * packSize);
+  return unit === 'kg' ? Math.ceil(round3(qty) * 1000) / 1000 : Math.ceil(round3(qty));
+}
+
+/**
+ * Quantity to order for one product, or 0 when none is needed. Orders are triggered once stock plus
+ * what is already on order falls to the reorder point, and top up to cover the lead time and
+ * `coverDays` of demand above the reorder level (at least one pack).
+ */
+export function suggestReorderQty(
+  item: {
+    current_stock: number;
+    on_order: number;
+    reorder_level: number;
+    avg_daily_sales: number;
+    pack_size: number | null;
+    unit: string;
+  },
+  leadTimeDays: number,
+  coverDays: number
+): number {
+  if (item.reorder_level <= 0 && item.avg_daily_sales <= 0) return 0;
+
+  const available = item.current_stock + item.on_order;
+  const reorderPoint = item.reorder_level + item.avg_daily_sales * leadTimeDays;
+  if (round3(available) > round3(reorderPoint)) return 0;
+
+  const target = reorderPoint + item.avg_daily_sales * coverDays;
+  const needed = target - available;
+  return roundUpToPack(needed > 0 ? needed : item.pack_size || 1, item.pack_size, item.unit);
+}
+
+/** Suggested lines grouped by preferred supplier; products without one come last */
+export function buildDraftOrders(
+  input: ReplenishmentInput,
+  options: ReplenishmentOptions = DEFAULT_REPLENISHMENT_OPTIONS
+): DraftPurchaseOrder[] {
+  const suppliers = new Map(input.suppliers.map(supplier => [supplier.id, supplier]));
+  const drafts = new Map<number | null, DraftPurchaseOrder>();
+
+  for (const row of input.stock) {
+    const supplier = row.preferred_supplier_id ? suppliers.get(Number(row.preferred_supplier_id)) : undefined;
+    const leadTimeDays = supplier?.lead_time_days ?? options.defaultLeadTimeDays;
+    const avgDailySales = Math.max(0, input.soldQty.get(row.id) ?? 0) / options.windowDays;
+    const line = {
+      current_stock: round3(Number(row.current_stock) || 0),
+      on_order: round3(input.onOrder.get(row.id) ?? 0),
+      reorder_level: Number(row.reorder_level) || 0,
+      avg_daily_sales: round3(avgDailySales),
+      pack_size: row.pack_size && row.pack_size > 0 ? Number(row.pack_size) : null,
+      unit: row.unit
+    };
+
+    const suggestedQty = suggestReorderQty({ ...line, avg_daily_sales: avgDailySales }, leadTimeDays, options.coverDays);
+    if (suggestedQty <= 0) continue;
+
+    const key = supplier ? supplier.id : null;
+    if (!drafts.has(key)) {
+      drafts.set(key, {
+        supplier_id: key,
+        supplier_name: supplier?.supplier_name ?? 'No preferred supplier',
+        lead_time_days: leadTimeDays,
+        lines: []
+      });
+    }
+    drafts.get(key)!.lines.push({
+      ...line,
+      product_id: row.id,
+      sku: row.sku,
+      name_en: row.name_en,
+      reorder_point: round3(line.reorder_level + avgDailySales * leadTimeDays),
+      suggested_qty: suggestedQty,
+      unit_cost: Number(row.cost) || 0
+    });
+  }
+
+  return [...drafts.values()]
+    .map(draft => ({ ...draft, lines: draft.lines.sort((a, b) => a.name_en.localeCompare(b.name_en)) }))
+    .sort((a, b) => {
+      if (a.supplier_id === null) return 1;
+      if (b.supplier_id === null) return -1;
+      return a.supplier_name.localeCompare(b.supplier_name);
+    });
+}
+
+export class ReplenishmentService {
+  async getDraftOrders(options: ReplenishmentOptions = DEFAULT_REPLENISHMENT_OPTIONS): Promise<DraftPurchaseOrder[]> {
+    const [stock, soldQty, onOrder, suppliers] = await Promise.all([
+      inventoryService.getStockRows({ active: true }),
+      this.getSoldQty(options.windowDays),
+      this.getOnOrderQty(),
+      dataService.getSuppliers(false)
+    ]);
+    return buildDraftOrders({ stock, soldQty, onOrder, suppliers }, options);
+  }
+
+  /**
+   * Create one purchase order per confirmed draft. Drafts are sent one at a time so a failure
+   * (e.g. a supplier removed meanwhile) is reported against its draft without losing the others.
+   */
+  async confirmDraftOrders(
+    drafts: DraftPurchaseOrder[],
+    order: { tolerancePct?: number; note?: string } = {}
+  ): Promise<DraftOrderResult[]> {
+    const results: DraftOrderResult[] = [];
+    for (const draft of drafts) {
+      const lines = draft.lines.filter(line => line.suggested_qty > 0);
+      if (draft.supplier_id === null || lines.length === 0) continue;
+
+      try {
+        const details = await purchaseOrderService.create({
+          supplierId: draft.supplier_id,
+          expectedDate: this.expectedDate(draft.lead_time_days),
+          note: order.note,
+          tolerancePct: order.tolerancePct,
+          lines: lines.map(line => ({
+            productId: line.product_id,
+            qty: line.suggested_qty,
+            unitCost: line.unit_cost,
+            uom: line.unit
+          }))
+        });
+        results.push({ draft, details });
+      } catch (error) {
+        results.push({ draft, error: error instanceof Error ? error.message : 'Failed to create purchase order' });
+      }
+    }
+    return results;
+  }
+
+  /** Net quantity sold per product since `windowDays` ago; refunds count against sales */
+  private async getSoldQty(windowDays: number): Promise<Map<number, number>> {
+    const since = new Date();
+    since.setDate(since.getDate() - windowDays);
+
+    const rows = await db.query<{ product_id: number; qty: number }>(
+      `SELECT sl.product_id, COALESCE(SUM(CASE WHEN s.type = 'REFUND' THEN -ABS(sl.qty) ELSE sl.qty END), 0) AS qty
+         FROM sale_lines sl
+         JOIN sales s ON s.id = sl.sale_id
+        WHERE s.datetime >= ? AND s.voided_at IS NULL AND COALESCE(s.status, '') != 'HELD'
+        GROUP BY sl.product_id`,
+      [since.toISOString().slice(0, 10)]
+    );
+    return this.sumByProduct(rows);
+  }
+
+  /** Quantity still outstanding on OPEN and PARTIAL purchase orders */
+  private async getOnOrderQty(): Promise<Map<number, number>> {
+    const rows = await db.query<{ product_id: number; qty: number }>(
+      `SELECT pl.product_id, SUM(MAX(pl.qty - COALESCE((
+                SELECT SUM(gl.qty)
+                  FROM grn_lines gl
+                  JOIN grn g ON g.id = gl.grn_id
+                 WHERE g.po_id = pl.po_id AND g.status = 'POSTED' AND gl.product_id = pl.product_id
+              ), 0), 0)) AS qty
+         FROM po_lines pl
+         JOIN purchase_orders po ON po.id = pl.po_id
+        WHERE po.status IN ('OPEN', 'PARTIAL')
+        GROUP BY pl.product_id`
+    );
+    return this.sumByProduct(rows);
+  }
+
+  private sumByProduct(rows: Array<{ product_id: number; qty: number }>): Map<number, number> {
+    const totals = new Map<number, number>();
+    for (const row of rows) {
+      totals.set(row.product_id, round3((totals.get(row.product_id) ?? 0) + (Number(row.qty) || 0)));
+    }
+    return totals;
+  }
+
+  private expectedDate(leadTimeDays: number): string {
+    const date = new Date();
+    date.setDate(date.getDate() + leadTimeDays);
+    return date.toISOString().slice(0, 10);
+  }
+}
+
+export const replenishmentService = new ReplenishmentService();
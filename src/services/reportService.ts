@@ -1,4 +1,9 @@
 import { db } from './database';
+import { buildTaxBreakdown } from '@/lib/tax';
+import { taxService } from './taxService';
+import { customerAccountService, AgedReceivablesReport } from './customerAccountService';
+import { batchService, NearExpiryBatch } from './batchService';
+import { costingService, CostingMethod, InventoryValuationReport } from './costingService';
 
 export interface ReportFilters {
   from: Date;
@@ -6,8 +11,12 @@ export interface ReportFilters {
   tier?: 'Retail' | 'Wholesale' | 'Credit' | 'Other';
   terminal?: string;
   cashier?: string;
+  storeId?: number;
 }
 
+// Sales, returns and shifts record the terminal by name; a store's are those of its terminals
+const STORE_TERMINALS = 'SELECT t.name FROM terminals t WHERE t.store_id = ?';
+
 export interface SalesSummaryRow {
   date: string;
   invoices: number;
@@ -49,6 +58,7 @@ export interface TopCategoryRow {
 
 export interface DiscountAuditRow {
   rule_name: string;
+  source: 'RULE' | 'PROMOTION';
   times_applied: number;
   discounted_amount: number;
   avg_per_invoice: number;
@@ -67,6 +77,36 @@ export interface ReportKPIs {
   pay_wallet: number;
 }
 
+export interface TaxSummaryRow {
+  code: string;
+  name: string;
+  rate: number;
+  inclusive: boolean;
+  taxable: number;
+  tax: number;
+  lines: number;
+  invoices: number;
+}
+
+export type GrossMarginGroup = 'product' | 'category' | 'day';
+
+export interface GrossMarginRow {
+  key: string;
+  label: string;
+  qty: number;
+  revenue: number; // ex tax, net of returns
+  cogs: number;
+  margin: number;
+  margin_pct: number | null;
+}
+
+// Grouping key and label of a margin line per GrossMarginGroup
+const MARGIN_GROUPS: Record<GrossMarginGroup, { key: string; label: string }> = {
+  product: { key: 'p.id', label: 'p.name_en' },
+  category: { key: "COALESCE(c.id, 0)", label: "COALESCE(c.name, 'Uncategorised')" },
+  day: { key: 'm.day', label: 'm.day' }
+};
+
 class ReportService {
   private formatDate(date: Date): string {
     return date.toISOString().split('T')[0];
@@ -91,6 +131,11 @@ class ReportService {
       params.push(filters.cashier);
     }
 
+    if (filters.storeId) {
+      whereClause += ` AND s.terminal_name IN (${STORE_TERMINALS})`;
+      params.push(filters.storeId);
+    }
+
     return { whereClause, params };
   }
 
@@ -217,7 +262,7 @@ class ReportService {
   async getDiscountAudit(filters: ReportFilters): Promise<DiscountAuditRow[]> {
     const { whereClause, params } = this.buildBaseQuery(filters);
     
-    const query = `
+    const ruleQuery = `
       SELECT 
         dr.name as rule_name,
         COUNT(sl.id) as times_applied,
@@ -231,11 +276,34 @@ class ReportService {
       ORDER BY SUM(sl.line_discount) DESC
     `;
 
-    const rows = await db.query<any>(query, params);
-    return rows.map(row => ({
-      ...row,
-      avg_per_invoice: row.affected_invoices > 0 ? row.discounted_amount / row.affected_invoices : 0
-    }));
+    // Multi-line promotions are recorded per line as well
+    const promotionQuery = `
+      SELECT 
+        p.name as rule_name,
+        COUNT(sl.id) as times_applied,
+        COALESCE(SUM(sl.line_discount), 0) as discounted_amount,
+        COUNT(DISTINCT s.id) as affected_invoices
+      FROM sale_lines sl
+      JOIN sales s ON sl.sale_id = s.id
+      JOIN promotions p ON sl.applied_promotion_id = p.id
+      ${whereClause} AND sl.line_discount > 0
+      GROUP BY p.id, p.name
+      ORDER BY SUM(sl.line_discount) DESC
+    `;
+
+    const [ruleRows, promotionRows] = await Promise.all([
+      db.query<any>(ruleQuery, params),
+      db.query<any>(promotionQuery, params)
+    ]);
+    return [
+      ...ruleRows.map(row => ({ ...row, source: 'RULE' as const })),
+      ...promotionRows.map(row => ({ ...row, source: 'PROMOTION' as const }))
+    ]
+      .map(row => ({
+        ...row,
+        avg_per_invoice: row.affected_invoices > 0 ? row.discounted_amount / row.affected_invoices : 0
+      }))
+      .sort((a, b) => b.discounted_amount - a.discounted_amount);
   }
 
   async getKPIs(filters: ReportFilters): Promise<ReportKPIs> {
@@ -267,8 +335,144 @@ class ReportService {
     };
   }
 
-  async getDiscountRuleDetails(ruleName: string, filters: ReportFilters): Promise<any[]> {
+  /**
+   * Taxable amount and tax collected per tax code; lines without a code count under the default code
+   */
+  async getTaxSummary(filters: ReportFilters): Promise<TaxSummaryRow[]> {
     const { whereClause, params } = this.buildBaseQuery(filters);
+
+    const query = `
+      SELECT 
+        sl.tax_code as code,
+        COUNT(*) as lines,
+        COUNT(DISTINCT s.id) as invoices,
+        COALESCE(SUM(sl.total - sl.tax), 0) as taxable,
+        COALESCE(SUM(sl.tax), 0) as tax
+      FROM sale_lines sl
+      JOIN sales s ON s.id = sl.sale_id
+      ${whereClause}
+      GROUP BY sl.tax_code
+    `;
+
+    const rows = await db.query<any>(query, params);
+    const codes = taxService.getTaxCodes();
+    const breakdown = buildTaxBreakdown(rows, codes);
+
+    return breakdown.map(line => {
+      const matching = rows.filter(row => taxService.getTaxCode(row.code).code === line.code);
+      return {
+        ...line,
+        lines: matching.reduce((sum, row) => sum + Number(row.lines || 0), 0),
+        invoices: matching.reduce((sum, row) => sum + Number(row.invoices || 0), 0)
+      };
+    });
+  }
+
+  /**
+   * Open customer account balances bucketed by age (0-30/31-60/61-90/90+ days) as of a date.
+   * The ledger lives on the POS server, so this needs the server to be reachable. Accounts are
+   * shared by every store, so there is no store filter.
+   */
+  async getAgedReceivables(asOf: Date): Promise<AgedReceivablesReport> {
+    return customerAccountService.getAgedReceivables(asOf);
+  }
+
+  /**
+   * Batches in stock expiring within `days` days, with any markdown already applied.
+   * Batch stock lives on the POS server, so this needs the server to be reachable.
+   */
+  async getNearExpiry(days: number, storeId?: number): Promise<NearExpiryBatch[]> {
+    return batchService.getNearExpiry(days, storeId);
+  }
+
+  /**
+   * Revenue ex tax against the cost of goods sold, by product, category or day. Sale lines are
+   * costed at the unit cost stamped on them when they synced, else the product's current cost;
+   * returns made in the period come off at the cost they came back at.
+   */
+  async getGrossMargin(filters: ReportFilters & { groupBy: GrossMarginGroup }): Promise<GrossMarginRow[]> {
+    const { whereClause, params } = this.buildBaseQuery(filters);
+    const returnFilters = {
+      date_from: filters.from,
+      date_to: filters.to,
+      cashier: filters.cashier ? Number(filters.cashier) : undefined,
+      terminal: filters.terminal,
+      storeId: filters.storeId
+    };
+    const group = MARGIN_GROUPS[filters.groupBy];
+
+    const query = `
+      SELECT
+        ${group.key} as key,
+        ${group.label} as label,
+        COALESCE(SUM(m.qty), 0) as qty,
+        COALESCE(SUM(m.revenue), 0) as revenue,
+        COALESCE(SUM(m.cogs), 0) as cogs
+      FROM (
+        SELECT
+          sl.product_id,
+          DATE(s.created_at) as day,
+          sl.qty,
+          sl.total - COALESCE(sl.tax, 0) as revenue,
+          sl.qty * COALESCE(sl.unit_cost, sp.cost, 0) as cogs
+        FROM sale_lines sl
+        JOIN sales s ON sl.sale_id = s.id
+        JOIN products sp ON sl.product_id = sp.id
+        ${whereClause}
+          AND COALESCE(s.type, 'SALE') <> 'REFUND'
+          AND COALESCE(s.status, 'SALE') NOT IN ('HELD', 'VOID')
+        UNION ALL
+        SELECT
+          rl.product_id,
+          DATE(r.datetime) as day,
+          -rl.qty,
+          -(CASE WHEN osl.qty > 0 THEN rl.qty * (osl.total - COALESCE(osl.tax, 0)) / osl.qty ELSE rl.line_refund END),
+          -rl.qty * COALESCE(rl.unit_cost, osl.unit_cost, rp.cost, 0)
+        FROM return_lines rl
+        JOIN returns r ON rl.return_id = r.id
+        JOIN products rp ON rl.product_id = rp.id
+        LEFT JOIN sale_lines osl ON rl.sale_line_id = osl.id
+        ${this.buildReturnsWhereClause(returnFilters)}
+      ) m
+      JOIN products p ON m.product_id = p.id
+      LEFT JOIN categories c ON p.category_id = c.id
+      GROUP BY ${group.key}, ${group.label}
+      ORDER BY ${filters.groupBy === 'day' ? 'm.day' : 'SUM(m.revenue) DESC'}
+    `;
+
+    const rows = await db.query<any>(query, [...params, ...this.buildReturnsParams(returnFilters)]);
+    return rows.map(row => {
+      const revenue = Number(row.revenue) || 0;
+      const cogs = Number(row.cogs) || 0;
+      return {
+        key: String(row.key),
+        label: row.label,
+        qty: Number(row.qty) || 0,
+        revenue,
+        cogs,
+        margin: revenue - cogs,
+        margin_pct: revenue !== 0 ? ((revenue - cogs) / revenue) * 100 : null
+      };
+    });
+  }
+
+  /**
+   * Stock on hand valued at moving-average or FIFO cost as of a date, across every store.
+   * Costing runs on the POS server, so this needs the server to be reachable.
+   */
+  async getInventoryValuation(asOf: Date, method?: CostingMethod): Promise<InventoryValuationReport> {
+    return costingService.getValuation(asOf, method);
+  }
+
+  async getDiscountRuleDetails(
+    ruleName: string,
+    filters: ReportFilters,
+    source: DiscountAuditRow['source'] = 'RULE'
+  ): Promise<any[]> {
+    const { whereClause, params } = this.buildBaseQuery(filters);
+    const join = source === 'PROMOTION'
+      ? 'JOIN promotions dr ON sl.applied_promotion_id = dr.id'
+      : 'LEFT JOIN discount_rules dr ON sl.applied_discount_rule_id = dr.id';
     
     const query = `
       SELECT 
@@ -278,7 +482,7 @@ class ReportService {
         SUM(sl.line_discount) as total_discount
       FROM sale_lines sl
       JOIN sales s ON sl.sale_id = s.id
-      LEFT JOIN discount_rules dr ON sl.applied_discount_rule_id = dr.id
+      ${join}
       ${whereClause} AND dr.name = ? AND sl.line_discount > 0
       GROUP BY s.id, s.created_at, s.net_total
       ORDER BY s.created_at DESC
@@ -288,15 +492,18 @@ class ReportService {
     return await db.query<any>(query, [...params, ruleName]);
   }
 
-  // Helper method to get available terminals and cashiers for filters
+  // Helper method to get available stores, terminals and cashiers for filters
   async getFilterOptions(): Promise<{
-    terminals: { id: string; name: string }[];
+    stores: { id: number; name: string }[];
+    terminals: { id: string; name: string; store_id?: number }[];
     cashiers: { id: string; name: string }[];
   }> {
-    const terminals = await db.query<any>('SELECT id, name FROM terminals WHERE active = true ORDER BY name');
+    const stores = await db.query<any>('SELECT id, name FROM stores ORDER BY name');
+    const terminals = await db.query<any>('SELECT id, name, store_id FROM terminals WHERE active = true ORDER BY name');
     const cashiers = await db.query<any>('SELECT id, name FROM users WHERE active = true ORDER BY name');
     
     return {
+      stores: stores || [],
       terminals: terminals || [],
       cashiers: cashiers || []
     };
@@ -308,6 +515,7 @@ class ReportService {
     date_to: Date;
     cashier?: number;
     terminal?: string;
+    storeId?: number;
   }): Promise<{
     totalReturns: number;
     totalRefundAmount: number;
@@ -395,6 +603,7 @@ class ReportService {
     date_to: Date;
     cashier?: number;
     terminal?: string;
+    storeId?: number;
   }): Promise<Array<{
     reason_code: string;
     reason_name: string;
@@ -439,6 +648,7 @@ class ReportService {
     date_to: Date;
     cashier?: number;
     terminal?: string;
+    storeId?: number;
   }): Promise<string> {
     const whereClause = this.buildReturnsWhereClause(filters);
     const params = this.buildReturnsParams(filters);
@@ -513,6 +723,7 @@ class ReportService {
     date_to: Date;
     cashier?: number;
     terminal?: string;
+    storeId?: number;
   }): string {
     let whereClause = 'WHERE r.datetime >= ? AND r.datetime <= ?';
     
@@ -523,6 +734,10 @@ class ReportService {
     if (filters.terminal) {
       whereClause += ' AND r.terminal_name = ?';
     }
+
+    if (filters.storeId) {
+      whereClause += ` AND r.terminal_name IN (${STORE_TERMINALS})`;
+    }
     
     return whereClause;
   }
@@ -532,6 +747,7 @@ class ReportService {
     date_to: Date;
     cashier?: number;
     terminal?: string;
+    storeId?: number;
   }): any[] {
     const params = [filters.date_from, filters.date_to];
     
@@ -542,6 +758,10 @@ class ReportService {
     if (filters.terminal) {
       params.push(filters.terminal as any);
     }
+
+    if (filters.storeId) {
+      params.push(filters.storeId as any);
+    }
     
     return params;
   }
@@ -551,6 +771,7 @@ class ReportService {
     date_from: Date;
     date_to: Date;
     supplier_id?: number;
+    storeId?: number;
   }): Promise<{
     totalGRNs: number;
     totalValue: number;
@@ -668,6 +889,7 @@ class ReportService {
     date_from: Date;
     date_to: Date;
     supplier_id?: number;
+    storeId?: number;
   }): Promise<Array<{
     product_id: number;
     product_name: string;
@@ -723,6 +945,7 @@ class ReportService {
     date_from: Date;
     date_to: Date;
     supplier_id?: number;
+    storeId?: number;
   }): Promise<string> {
     try {
       const summary = await this.getGrnSummary(filters);
@@ -761,6 +984,7 @@ class ReportService {
     date_from: Date;
     date_to: Date;
     supplier_id?: number;
+    storeId?: number;
   }): string {
     let whereClause = 'WHERE 1=1';
     
@@ -775,6 +999,10 @@ class ReportService {
     if (filters.supplier_id) {
       whereClause += ' AND g.supplier_id = ?';
     }
+
+    if (filters.storeId) {
+      whereClause += ' AND g.store_id = ?';
+    }
     
     return whereClause;
   }
@@ -783,6 +1011,7 @@ class ReportService {
     date_from: Date;
     date_to: Date;
     supplier_id?: number;
+    storeId?: number;
   }): any[] {
     const params: any[] = [];
     
@@ -797,6 +1026,10 @@ class ReportService {
     if (filters.supplier_id) {
       params.push(filters.supplier_id);
     }
+
+    if (filters.storeId) {
+      params.push(filters.storeId);
+    }
     
     return params;
   }
@@ -807,6 +1040,7 @@ class ReportService {
     date_to: Date;
     terminal?: string;
     cashier_id?: number;
+    storeId?: number;
   }): Promise<any[]> {
     try {
       // Use db from imports
@@ -823,6 +1057,11 @@ class ReportService {
         whereClause += ' AND s.cashier_id = ?';
         queryParams.push(params.cashier_id);
       }
+
+      if (params.storeId) {
+        whereClause += ` AND s.terminal_name IN (${STORE_TERMINALS})`;
+        queryParams.push(params.storeId);
+      }
       
       const query = `
         SELECT 
@@ -899,6 +1138,7 @@ class ReportService {
     date_to: Date;
     terminal?: string;
     cashier_id?: number;
+    storeId?: number;
   }): Promise<string> {
     try {
       const data = await this.getShiftDailySummary(params);
@@ -0,0 +1,87 @@
+/**
+ * Role Service
+ * Roles and permission grants kept on the POS server. The Users page edits them as a matrix;
+ * the server records every change in the audit log as USER_ROLE_CHANGE. Users pick up new
+ * grants when they next sign in or their session is refreshed.
+ */
+
+import { getServerBaseUrl, serverRequest, ServiceError } from '@/utils/api';
+import { useAppStore } from '../store/appStore';
+
+export interface RoleGrant {
+  permission: string;
+  /** Highest amount the grant allows for limited permissions; null for no limit */
+  max_amount: number | null;
+  /** Highest percentage the grant allows, e.g. for discounts; null for no limit */
+  max_percent: number | null;
+}
+
+export interface RoleWithGrants {
+  id: number;
+  name: string;
+  description: string | null;
+  /** CASHIER, MANAGER, ADMIN and AUDITOR; they can be regranted but not renamed or deleted */
+  builtin: boolean;
+  grants: RoleGrant[];
+  user_count: number;
+}
+
+export interface RoleAssignment {
+  user_id: number;
+  role_id: number;
+}
+
+export class RoleServiceError extends ServiceError {}
+
+export class RoleService {
+  private request<T>(path: string, options: RequestInit = {}): Promise<T> {
+    const baseUrl = getServerBaseUrl(useAppStore.getState().settings?.dataSource);
+    return serverRequest<T>(baseUrl, `/api/rbac${path}`, options, RoleServiceError);
+  }
+
+  /** Every role with its grants, and the extra roles each user holds beside their main role */
+  async list(): Promise<{ roles: RoleWithGrants[]; assignments: RoleAssignment[] }> {
+    const { roles, assignments } = await this.request<{ roles: RoleWithGrants[]; assignments: RoleAssignment[] }>('');
+    return { roles, assignments };
+  }
+
+  async createRole(name: string, description?: string): Promise<RoleWithGrants> {
+    const data = await this.request<{ role: RoleWithGrants }>('/roles', {
+      method: 'POST',
+      body: JSON.stringify({ name, description })
+    });
+    return data.role;
+  }
+
+  async updateRole(id: number, changes: { name?: string; description?: string }): Promise<RoleWithGrants> {
+    const data = await this.request<{ role: RoleWithGrants }>(`/roles/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes)
+    });
+    return data.role;
+  }
+
+  /** Delete a custom role; rejects with CONFLICT while it is any user's main role */
+  async deleteRole(id: number): Promise<void> {
+    await this.request(`/roles/${id}`, { method: 'DELETE' });
+  }
+
+  /** Replace a role's grants */
+  async setGrants(id: number, grants: RoleGrant[]): Promise<RoleWithGrants> {
+    const data = await this.request<{ role: RoleWithGrants }>(`/roles/${id}/grants`, {
+      method: 'PUT',
+      body: JSON.stringify({ grants })
+    });
+    return data.role;
+  }
+
+  /** Replace the extra roles a user holds beside their main role */
+  async setUserRoles(userId: number, roleIds: number[]): Promise<void> {
+    await this.request(`/users/${userId}/roles`, {
+      method: 'PUT',
+      body: JSON.stringify({ role_ids: roleIds })
+    });
+  }
+}
+
+export const roleService = new RoleService();
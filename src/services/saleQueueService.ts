@@ -0,0 +1,311 @@
+/**
+ * Sale Queue Service
+ * Durable outbound queue for finalized sales. A sale is complete once it is queued;
+ * the queue replays it to the LAN server whenever the server is reachable. Sales the server
+ * rejects outright move to a dead-letter store for staff to review, retry or discard.
+ */
+
+import type { Sale, SaleLine } from './dataService';
+import { CheckoutError, CheckoutPayment, checkoutService } from './checkoutService';
+import { useAppStore } from '../store/appStore';
+
+export interface QueuedSale {
+  idempotencyKey: string;   // sent as Idempotency-Key; the server records each key once
+  sale: Sale;
+  lines: SaleLine[];
+  payments?: CheckoutPayment[]; // recorded on the sale's invoice; absent on sales queued before they were kept
+  queuedAt: string;         // ISO timestamp
+  attempts: number;
+  lastError?: string;
+  lastAttemptAt?: string;
+  rejectedAt?: string;      // set once the sale is moved to the dead letters
+}
+
+export interface SaleQueueStatus {
+  depth: number;
+  rejected: number;         // sales in the dead letters
+  oldestQueuedAt: string | null;
+  lastError: string | null;
+  lastSyncAt: string | null;
+  isSyncing: boolean;
+}
+
+export interface SaleQueueStore {
+  put(entry: QueuedSale): Promise<void>;
+  delete(idempotencyKey: string): Promise<void>;
+  list(): Promise<QueuedSale[]>; // oldest first
+}
+
+const DB_NAME = 'grocery-pos-outbox';
+const DB_VERSION = 2;
+const STORE_NAME = 'sales';
+const DEAD_LETTER_STORE_NAME = 'rejected_sales';
+const SYNC_INTERVAL_MS = 30000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// One database holds both the queue and its dead letters
+function openOutbox(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        for (const name of [STORE_NAME, DEAD_LETTER_STORE_NAME]) {
+          if (request.result.objectStoreNames.contains(name)) continue;
+          const store = request.result.createObjectStore(name, { keyPath: 'idempotencyKey' });
+          store.createIndex('queuedAt', 'queuedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+export class IndexedDbSaleQueueStore implements SaleQueueStore {
+  constructor(private storeName: string = STORE_NAME) {}
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openOutbox();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(this.storeName, mode);
+      const request = run(tx.objectStore(this.storeName));
+      // Resolve on commit so a put is durable before the caller treats the sale as complete
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  async put(entry: QueuedSale): Promise<void> {
+    await this.request('readwrite', store => store.put(entry));
+  }
+
+  async delete(idempotencyKey: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(idempotencyKey));
+  }
+
+  async list(): Promise<QueuedSale[]> {
+    return this.request('readonly', store => store.index('queuedAt').getAll() as IDBRequest<QueuedSale[]>);
+  }
+}
+
+// Used where IndexedDB is unavailable (tests, very old browsers); not durable across reloads
+export class MemorySaleQueueStore implements SaleQueueStore {
+  private entries = new Map<string, QueuedSale>();
+
+  async put(entry: QueuedSale): Promise<void> {
+    this.entries.set(entry.idempotencyKey, { ...entry });
+  }
+
+  async delete(idempotencyKey: string): Promise<void> {
+    this.entries.delete(idempotencyKey);
+  }
+
+  async list(): Promise<QueuedSale[]> {
+    return [...this.entries.values()].sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+  }
+}
+
+function createIdempotencyKey(sale: Sale): string {
+  const random = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  return `${sale.terminal_name || 'POS'}-${sale.id}-${random}`;
+}
+
+export class SaleQueueService {
+  private status: SaleQueueStatus = {
+    depth: 0,
+    rejected: 0,
+    oldestQueuedAt: null,
+    lastError: null,
+    lastSyncAt: null,
+    isSyncing: false
+  };
+  private listeners = new Set<(status: SaleQueueStatus) => void>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private syncing: Promise<void> | null = null;
+
+  constructor(
+    private store: SaleQueueStore = typeof indexedDB !== 'undefined'
+      ? new IndexedDbSaleQueueStore()
+      : new MemorySaleQueueStore(),
+    private deadLetters: SaleQueueStore = typeof indexedDB !== 'undefined'
+      ? new IndexedDbSaleQueueStore(DEAD_LETTER_STORE_NAME)
+      : new MemorySaleQueueStore()
+  ) {}
+
+  /**
+   * Persist a finalized sale and try to send it straight away.
+   * Resolves once the sale is stored locally, whether or not the server is reachable.
+   */
+  async enqueue(sale: Sale, lines: SaleLine[], payments?: CheckoutPayment[]): Promise<QueuedSale> {
+    const entry: QueuedSale = {
+      idempotencyKey: createIdempotencyKey(sale),
+      sale,
+      lines,
+      payments,
+      queuedAt: new Date().toISOString(),
+      attempts: 0
+    };
+    await this.store.put(entry);
+    await this.refresh();
+
+    this.flush().catch(error => console.error('Sale sync failed:', error));
+    return entry;
+  }
+
+  /**
+   * Replay queued sales in order. Stops at the first connectivity or server error so the
+   * remaining sales keep their order; sales the server rejects move to the dead letters with
+   * the reason.
+   */
+  flush(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = this.replay().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  private async replay(): Promise<void> {
+    // A terminal in local mode has no server to replay to; its sales wait until it is pointed at one
+    if (useAppStore.getState().settings?.dataSource?.mode !== 'server') return;
+
+    const entries = await this.store.list();
+    if (entries.length === 0) return;
+
+    this.update({ isSyncing: true });
+    try {
+      for (const entry of entries) {
+        const error = await this.send(entry);
+        if (!error) {
+          await this.store.delete(entry.idempotencyKey);
+          this.update({ lastSyncAt: new Date().toISOString(), lastError: null });
+          continue;
+        }
+
+        const attempted: QueuedSale = {
+          ...entry,
+          attempts: entry.attempts + 1,
+          lastError: error.message,
+          lastAttemptAt: new Date().toISOString()
+        };
+        this.update({ lastError: error.message });
+        if (error.retryable) {
+          await this.store.put(attempted);
+          break;
+        }
+        // Resending it as-is would be rejected again; staff decide what happens to it
+        await this.deadLetters.put({ ...attempted, rejectedAt: attempted.lastAttemptAt });
+        await this.store.delete(entry.idempotencyKey);
+      }
+    } finally {
+      this.update({ isSyncing: false });
+      await this.refresh();
+    }
+  }
+
+  // Returns null on success (including a sale the server already recorded)
+  private async send(entry: QueuedSale): Promise<{ message: string; retryable: boolean } | null> {
+    try {
+      await checkoutService.submit({ sale: entry.sale, lines: entry.lines, payments: entry.payments }, entry.idempotencyKey);
+      return null;
+    } catch (error) {
+      if (!(error instanceof CheckoutError)) throw error;
+      // Other 4xx mean this sale will never be accepted as-is; later sales can still go through.
+      // An expired session is retried once the cashier signs in again.
+      const status = error.status;
+      const retryable = status === undefined || status >= 500 || [401, 408, 429].includes(status);
+      return { message: error.message, retryable };
+    }
+  }
+
+  async list(): Promise<QueuedSale[]> {
+    return this.store.list();
+  }
+
+  /** Sales the server rejected, oldest first */
+  async listRejected(): Promise<QueuedSale[]> {
+    return this.deadLetters.list();
+  }
+
+  /**
+   * Queue a rejected sale again with its original key, e.g. once the product or customer it
+   * was rejected over has been fixed on the server
+   */
+  async retryRejected(idempotencyKey: string): Promise<void> {
+    const entry = (await this.deadLetters.list()).find(e => e.idempotencyKey === idempotencyKey);
+    if (!entry) return;
+    await this.store.put({ ...entry, rejectedAt: undefined });
+    await this.deadLetters.delete(idempotencyKey);
+    await this.refresh();
+    this.flush().catch(error => console.error('Sale sync failed:', error));
+  }
+
+  /** Drop a rejected sale for good; it is never sent to the server */
+  async discardRejected(idempotencyKey: string): Promise<void> {
+    await this.deadLetters.delete(idempotencyKey);
+    await this.refresh();
+  }
+
+  getStatus(): SaleQueueStatus {
+    return { ...this.status };
+  }
+
+  subscribe(listener: (status: SaleQueueStatus) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getStatus());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Re-read the queue and start periodic replay; also replays as soon as the browser
+   * reports the network is back.
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.flush().catch(error => console.error('Sale sync failed:', error));
+    }, SYNC_INTERVAL_MS);
+    window.addEventListener('online', this.handleOnline);
+    this.refresh()
+      .then(() => this.flush())
+      .catch(error => console.error('Sale queue start failed:', error));
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    window.removeEventListener('online', this.handleOnline);
+  }
+
+  private handleOnline = () => {
+    this.flush().catch(error => console.error('Sale sync failed:', error));
+  };
+
+  private async refresh(): Promise<void> {
+    const entries = await this.store.list();
+    const rejected = await this.deadLetters.list();
+    this.update({
+      depth: entries.length,
+      rejected: rejected.length,
+      oldestQueuedAt: entries[0]?.queuedAt ?? null
+    });
+  }
+
+  private update(patch: Partial<SaleQueueStatus>): void {
+    this.status = { ...this.status, ...patch };
+    const snapshot = this.getStatus();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+export const saleQueueService = new SaleQueueService();
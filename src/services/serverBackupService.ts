@@ -0,0 +1,96 @@
+/**
+ * Server Backup Service
+ * Encrypted backups of the POS server database, taken and kept on the server. The page can list
+ * them, back up now, verify a backup and set the daily schedule; restoring is done on the server
+ * itself with `npm run backup -- restore <file>` while the server is stopped.
+ */
+
+import { getServerBaseUrl, serverRequest, ServiceError } from '@/utils/api';
+import { useAppStore } from '../store/appStore';
+
+export interface ServerBackupManifest {
+  format: number;
+  file: string;
+  created_at: string;
+  schema_version: number;
+  cipher: string;
+  kdf: string;
+  db_bytes: number;
+  db_sha256: string;
+  file_bytes: number;
+  file_sha256: string;
+}
+
+export interface ServerBackup {
+  file: string;
+  bytes: number;
+  created_at: string;
+  /** Null for backups written before manifests were kept; those cannot be verified */
+  manifest: ServerBackupManifest | null;
+}
+
+export interface ServerBackupSchedule {
+  enabled: boolean;
+  /** HH:MM in the server's local time */
+  daily_time: string;
+  keep: number;
+  last_run_at: string | null;
+  last_file: string | null;
+  last_error: string | null;
+  next_run_at: string | null;
+  running: boolean;
+  /** False until BACKUP_PASSPHRASE is set on the server; backups fail without it */
+  passphrase_set: boolean;
+}
+
+export interface ServerBackupVerifyResult {
+  file: string;
+  ok: boolean;
+  schema_version: number | null;
+  error?: string;
+}
+
+export class ServerBackupError extends ServiceError {}
+
+export class ServerBackupService {
+  private request<T>(path: string, options: RequestInit = {}): Promise<T> {
+    const baseUrl = getServerBaseUrl(useAppStore.getState().settings?.dataSource);
+    return serverRequest<T>(baseUrl, `/api/backups${path}`, options, ServerBackupError);
+  }
+
+  /** Backups on the server, newest first, with the schedule */
+  async list(): Promise<{ backups: ServerBackup[]; schedule: ServerBackupSchedule }> {
+    const { backups, schedule } = await this.request<{ backups: ServerBackup[]; schedule: ServerBackupSchedule }>('');
+    return { backups, schedule };
+  }
+
+  /**
+   * Back up now, rotating out backups beyond the schedule's `keep`. Rejects with code
+   * BACKUP_RUNNING while another backup is in progress, and PASSPHRASE_MISSING when the server
+   * has no BACKUP_PASSPHRASE.
+   */
+  async runNow(): Promise<ServerBackupManifest> {
+    const data = await this.request<{ backup: ServerBackupManifest }>('', { method: 'POST' });
+    return data.backup;
+  }
+
+  /** Decrypt a backup on the server and check it against its manifest, without restoring it */
+  async verify(file: string): Promise<ServerBackupVerifyResult> {
+    const data = await this.request<{ result: ServerBackupVerifyResult }>(`/${encodeURIComponent(file)}/verify`, {
+      method: 'POST'
+    });
+    return data.result;
+  }
+
+  async updateSchedule(
+    schedule: Partial<Pick<ServerBackupSchedule, 'enabled' | 'daily_time' | 'keep'>>
+  ): Promise<ServerBackupSchedule> {
+    const data = await this.request<{ schedule: ServerBackupSchedule }>('/schedule', {
+      method: 'PUT',
+      body: JSON.stringify(schedule)
+    });
+    return data.schedule;
+  }
+}
+
+export const serverBackupService = new ServerBackupService();
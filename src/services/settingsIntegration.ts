@@ -1,5 +1,6 @@
 import { AppSettings } from '@/types';
 import { SettingsValidationService } from './settingsValidation';
+import { database } from './database';
 
 export class SettingsIntegrationService {
   private static instance: SettingsIntegrationService;
@@ -42,6 +43,9 @@ export class SettingsIntegrationService {
     // Apply pricing policies
     this.applyPricingPolicies();
 
+    // Switch the data provider (local-only vs LAN server)
+    this.applyDataSource();
+
     // Notify other services of settings changes
     this.notifySettingsChange();
   }
@@ -140,6 +144,17 @@ export class SettingsIntegrationService {
     window.dispatchEvent(pricingEvent);
   }
 
+  private applyDataSource(): void {
+    if (!this.settings) return;
+
+    const dataSource = this.settings.dataSource;
+    const changed = database.mode !== (dataSource?.mode ?? 'local');
+    database.useDataSource(dataSource);
+    if (changed) {
+      window.dispatchEvent(new CustomEvent('dataSourceChanged', { detail: { mode: database.mode } }));
+    }
+  }
+
   private updateVisibleTotals(): void {
     // Update any visible totals in the POS interface
     const totalElements = document.querySelectorAll('[data-currency-total]');
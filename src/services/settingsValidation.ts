@@ -120,6 +120,46 @@ export class SettingsValidationService {
     return errors;
   }
 
+  static validateDataSource(dataSource: AppSettings['dataSource']): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    // An empty server URL falls back to VITE_API_BASE_URL
+    if (dataSource?.mode === 'server' && dataSource.serverUrl && !this.isValidUrl(dataSource.serverUrl)) {
+      errors.push({
+        field: 'serverUrl',
+        message: 'Server URL must be a full address, e.g. http://192.168.1.10:8250',
+        section: 'dataSource'
+      });
+    }
+
+    const maxAge = dataSource?.syncQueueMaxAgeMinutes;
+    if (maxAge !== undefined && (maxAge < 1 || maxAge > 1440)) {
+      errors.push({
+        field: 'syncQueueMaxAgeMinutes',
+        message: 'Maximum queue age must be between 1 and 1440 minutes',
+        section: 'dataSource'
+      });
+    }
+
+    return errors;
+  }
+
+  static validateShiftSettings(shiftSettings: AppSettings['shiftSettings']): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    // Unset falls back to LKR notes and coins; an empty list would leave nothing to count
+    const denominations = shiftSettings?.cashDenominations;
+    if (denominations && denominations.notes.length + denominations.coins.length === 0) {
+      errors.push({
+        field: 'cashDenominations',
+        message: 'Enter at least one note or coin denomination',
+        section: 'shiftSettings'
+      });
+    }
+
+    return errors;
+  }
+
   static validateAllSettings(settings: AppSettings): ValidationResult {
     const errors: ValidationError[] = [];
     const warnings: ValidationError[] = [];
@@ -129,6 +169,8 @@ export class SettingsValidationService {
     errors.push(...this.validateBackupSettings(settings.backupSettings));
     errors.push(...this.validatePricingPolicies(settings.pricingPolicies));
     errors.push(...this.validateLanguageFormatting(settings.languageFormatting));
+    errors.push(...this.validateDataSource(settings.dataSource));
+    errors.push(...this.validateShiftSettings(settings.shiftSettings));
 
     // Add warnings for potential issues
     if (settings.storeInfo.logoUrl && !this.isValidUrl(settings.storeInfo.logoUrl)) {
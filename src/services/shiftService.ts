@@ -1,5 +1,8 @@
 import { database } from './database';
-import { Shift, ShiftMovement, ShiftSummary, ShiftStatus, ShiftMovementType } from '../types';
+import { Shift, ShiftMovement, ShiftSummary, ShiftStatus, ShiftMovementType, TaxBreakdownLine, CashCountLine, ShiftCashCount, ShiftCashCountKind } from '../types';
+import { buildTaxBreakdown } from '@/lib/tax';
+import { countTotal, normalizeCount, summarizeCashCounts } from '@/lib/cashCount';
+import { taxService } from './taxService';
 
 export class ShiftService {
   private db = database;
@@ -35,12 +38,13 @@ export class ShiftService {
   }
 
   /**
-   * Open a new shift
+   * Open a new shift. With an opening count the float is the count's total.
    */
   async openShift(payload: {
     terminal_name: string;
     cashier_id: number;
     opening_cash: number;
+    opening_count?: CashCountLine[];
     note?: string;
   }): Promise<number> {
     try {
@@ -50,19 +54,29 @@ export class ShiftService {
         throw new Error('There is already an open shift for this terminal');
       }
 
+      const count = payload.opening_count ? normalizeCount(payload.opening_count) : null;
+
       const query = `
         INSERT INTO shifts (terminal_name, cashier_id, opening_cash, note, status)
         VALUES (?, ?, ?, ?, 'OPEN')
       `;
-      
-      const result = await this.db.execute(query, [
+      const params = [
         payload.terminal_name,
         payload.cashier_id,
-        payload.opening_cash,
+        count ? countTotal(count) : payload.opening_cash,
         payload.note || null
-      ]);
-      
-      return result.lastID;
+      ];
+
+      if (!count) {
+        const result = await this.db.execute(query, params);
+        return result.lastID;
+      }
+
+      return await this.db.transaction(async () => {
+        const result = await this.db.execute(query, params);
+        await this.saveCashCount(result.lastID, 'OPENING', count);
+        return result.lastID;
+      });
     } catch (error) {
       console.error('Error opening shift:', error);
       throw new Error('Failed to open shift');
@@ -70,23 +84,36 @@ export class ShiftService {
   }
 
   /**
-   * Add a movement to a shift
+   * Add a movement to a shift. A safe drop can be counted by denomination; its amount is then the count's total.
    */
-  async addMovement(movement: Omit<ShiftMovement, 'id' | 'datetime'>): Promise<number> {
+  async addMovement(movement: Omit<ShiftMovement, 'id' | 'datetime'>, count?: CashCountLine[]): Promise<number> {
     try {
+      if (count && movement.type !== 'DROP') {
+        throw new Error('Only safe drops are counted by denomination');
+      }
+      const lines = count ? normalizeCount(count) : null;
+
       const query = `
         INSERT INTO shift_movements (shift_id, type, amount, reason)
         VALUES (?, ?, ?, ?)
       `;
-      
-      const result = await this.db.execute(query, [
+      const params = [
         movement.shift_id,
         movement.type,
-        movement.amount,
+        lines ? countTotal(lines) : movement.amount,
         movement.reason || null
-      ]);
-      
-      return result.lastID;
+      ];
+
+      if (!lines) {
+        const result = await this.db.execute(query, params);
+        return result.lastID;
+      }
+
+      return await this.db.transaction(async () => {
+        const result = await this.db.execute(query, params);
+        await this.saveCashCount(movement.shift_id, 'DROP', lines, result.lastID);
+        return result.lastID;
+      });
     } catch (error) {
       console.error('Error adding movement:', error);
       throw new Error('Failed to add movement');
@@ -94,9 +121,9 @@ export class ShiftService {
   }
 
   /**
-   * Close a shift
+   * Close a shift with the counted cash, either one amount or a count by denomination
    */
-  async closeShift(id: number, declaredCash: number, note?: string): Promise<void> {
+  async closeShift(id: number, declared: number | CashCountLine[], note?: string): Promise<void> {
     try {
       // Get the shift first
       const shift = await this.getShift(id);
@@ -108,6 +135,9 @@ export class ShiftService {
         throw new Error('Shift is not open');
       }
 
+      const count = Array.isArray(declared) ? normalizeCount(declared) : null;
+      const declaredCash = count ? countTotal(count) : (declared as number);
+
       // Calculate expected cash
       const expectedCash = await this.expectedCashForShift(id);
       const variance = declaredCash - expectedCash;
@@ -121,8 +151,16 @@ export class ShiftService {
             note = COALESCE(?, note)
         WHERE id = ?
       `;
-      
-      await this.db.execute(query, [declaredCash, variance, note, id]);
+
+      if (!count) {
+        await this.db.execute(query, [declaredCash, variance, note, id]);
+        return;
+      }
+
+      await this.db.transaction(async () => {
+        await this.saveCashCount(id, 'CLOSING', count);
+        await this.db.execute(query, [declaredCash, variance, note, id]);
+      });
     } catch (error) {
       console.error('Error closing shift:', error);
       throw new Error('Failed to close shift');
@@ -282,6 +320,9 @@ export class ShiftService {
       const paymentsResult = await this.db.query(paymentsQuery, [id]);
       const payments = paymentsResult[0] || { cash: 0, card: 0, wallet: 0, other: 0 };
 
+      const taxBreakdown = await this.getShiftTaxBreakdown(id);
+      const cashCounts = await this.getCashCounts(id);
+
       // Calculate cash drawer movements
       const movements = shiftData.movements;
       const cashDrawer = {
@@ -308,8 +349,10 @@ export class ShiftService {
       return {
         shift,
         sales,
+        taxBreakdown,
         payments,
-        cashDrawer
+        cashDrawer,
+        cashCount: summarizeCashCounts(cashCounts, cashDrawer)
       };
     } catch (error) {
       console.error('Error getting shift summary:', error);
@@ -317,6 +360,55 @@ export class ShiftService {
     }
   }
 
+  /**
+   * Tax collected in a shift, per tax code (Z report)
+   */
+  async getShiftTaxBreakdown(id: number): Promise<TaxBreakdownLine[]> {
+    try {
+      const query = `
+        SELECT 
+          sl.tax_code as code,
+          COALESCE(SUM(sl.total - sl.tax), 0) as taxable,
+          COALESCE(SUM(sl.tax), 0) as tax
+        FROM sale_lines sl
+        JOIN sales s ON s.id = sl.sale_id
+        WHERE s.shift_id = ?
+        GROUP BY sl.tax_code
+      `;
+      const rows = await this.db.query(query, [id]);
+      return buildTaxBreakdown(rows, taxService.getTaxCodes());
+    } catch (error) {
+      console.error('Error getting shift tax breakdown:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Denomination counts taken in a shift (opening float, safe drops, closing count)
+   */
+  async getCashCounts(id: number): Promise<ShiftCashCount[]> {
+    try {
+      const query = `
+        SELECT * FROM shift_cash_counts
+        WHERE shift_id = ?
+        ORDER BY id ASC
+      `;
+      return (await this.db.query(query, [id])) ?? [];
+    } catch (error) {
+      console.error('Error getting shift cash counts:', error);
+      return [];
+    }
+  }
+
+  private async saveCashCount(shiftId: number, kind: ShiftCashCountKind, lines: CashCountLine[], movementId?: number): Promise<void> {
+    if (lines.length === 0) return;
+    const query = `
+      INSERT INTO shift_cash_counts (shift_id, kind, movement_id, denomination, quantity)
+      VALUES ${lines.map(() => '(?, ?, ?, ?, ?)').join(', ')}
+    `;
+    await this.db.execute(query, lines.flatMap(line => [shiftId, kind, movementId ?? null, line.denomination, line.quantity]));
+  }
+
   /**
    * Bind a sale to the active shift
    */
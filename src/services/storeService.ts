@@ -0,0 +1,55 @@
+/**
+ * Store Service
+ * Stores and terminals kept on the POS server. Each terminal is registered against the store it
+ * sells and moves stock from; terminals that never registered count against the first store.
+ */
+
+import { getServerBaseUrl, serverRequest, ServiceError } from '@/utils/api';
+import { useAppStore } from '../store/appStore';
+import { Store } from '../types';
+
+export interface RegisteredTerminal {
+  id: number;
+  name: string;
+  store_id: number;
+  code: string | null;
+}
+
+export class StoreServiceError extends ServiceError {}
+
+export class StoreService {
+  private request<T>(path: string, options: RequestInit = {}): Promise<T> {
+    const baseUrl = getServerBaseUrl(useAppStore.getState().settings?.dataSource);
+    return serverRequest<T>(baseUrl, `/api${path}`, options, StoreServiceError);
+  }
+
+  /** The store this terminal is assigned to; undefined in local mode or before one is chosen */
+  currentStoreId(): number | undefined {
+    const dataSource = useAppStore.getState().settings?.dataSource;
+    return dataSource?.mode === 'server' ? dataSource.storeId : undefined;
+  }
+
+  async list(): Promise<Store[]> {
+    const data = await this.request<{ stores: Store[] }>('/stores?sort=name&limit=500');
+    return data.stores;
+  }
+
+  async create(store: { name: string; code?: string }): Promise<Store> {
+    const data = await this.request<{ store: Store }>('/stores', {
+      method: 'POST',
+      body: JSON.stringify({ name: store.name, code: store.code || undefined })
+    });
+    return data.store;
+  }
+
+  /** Assign the named terminal to a store, registering it with the server the first time */
+  async registerTerminal(name: string, storeId: number): Promise<RegisteredTerminal> {
+    const data = await this.request<{ terminal: RegisteredTerminal }>('/terminals/register', {
+      method: 'PUT',
+      body: JSON.stringify({ name, store_id: storeId })
+    });
+    return data.terminal;
+  }
+}
+
+export const storeService = new StoreService();
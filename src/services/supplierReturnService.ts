@@ -0,0 +1,134 @@
+/**
+ * Supplier Return Service
+ * Returns to vendor kept on the POS server: drafted against a supplier or the GRN the goods came in
+ * on, posted to take the goods out of stock, and settled by credits received from the supplier.
+ */
+
+import { getServerBaseUrl, serverRequest, ServiceError } from '@/utils/api';
+import { useAppStore } from '../store/appStore';
+import {
+  Supplier,
+  SupplierReturn,
+  SupplierReturnCredit,
+  SupplierReturnLine,
+  SupplierReturnReason,
+  SupplierReturnStatus
+} from '../types';
+
+export interface SupplierReturnDetails {
+  supplier_return: SupplierReturn;
+  supplier: (Pick<Supplier, 'supplier_name' | 'contact_phone' | 'contact_email' | 'address'> & { id: number }) | null;
+  grn: { id: number; grn_no: string; datetime: string; status: string } | null;
+  lines: SupplierReturnLine[];
+  credits: SupplierReturnCredit[];
+}
+
+export interface NewSupplierReturn {
+  supplierId: number;
+  grnId?: number | null;
+  storeId?: number | null;
+  note?: string;
+  /** Base units; unit cost may be left out against a GRN to return at the cost it was received at */
+  lines: Array<{ productId: number; qty: number; unitCost?: number; reason: SupplierReturnReason }>;
+}
+
+export interface SupplierCredit {
+  amount: number;
+  ref?: string;
+  note?: string;
+}
+
+export const RETURN_REASON_LABELS: Record<SupplierReturnReason, string> = {
+  damaged: 'Damaged',
+  expired: 'Expired',
+  recalled: 'Recalled',
+  other: 'Other'
+};
+
+export class SupplierReturnServiceError extends ServiceError {}
+
+/** What the supplier still owes on a return; nothing until it is posted */
+export function creditOutstanding(supplierReturn: Pick<SupplierReturn, 'status' | 'total' | 'credit_received'>): number {
+  if (supplierReturn.status === 'draft') return 0;
+  return Math.max(Math.round((supplierReturn.total - supplierReturn.credit_received) * 100) / 100, 0);
+}
+
+export class SupplierReturnService {
+  private request<T>(path: string, options: RequestInit = {}): Promise<T> {
+    const baseUrl = getServerBaseUrl(useAppStore.getState().settings?.dataSource);
+    return serverRequest<T>(baseUrl, `/api/supplier-returns${path}`, options, SupplierReturnServiceError);
+  }
+
+  async list(params: {
+    q?: string;
+    supplierId?: number;
+    grnId?: number;
+    status?: SupplierReturnStatus;
+    limit?: number;
+  } = {}): Promise<SupplierReturn[]> {
+    const query = new URLSearchParams({ sort: 'created_at', order: 'desc' });
+    if (params.q) query.set('q', params.q);
+    if (params.supplierId) query.set('supplier_id', String(params.supplierId));
+    if (params.grnId) query.set('grn_id', String(params.grnId));
+    if (params.status) query.set('status', params.status);
+    if (params.limit) query.set('limit', String(params.limit));
+
+    const data = await this.request<{ supplier_returns: SupplierReturn[] }>(`?${query}`);
+    return data.supplier_returns;
+  }
+
+  async get(id: number): Promise<SupplierReturnDetails> {
+    return this.pick(await this.request<SupplierReturnDetails>(`/${id}/details`));
+  }
+
+  /**
+   * Draft a return. Against a GRN, rejects with code RETURN_EXCEEDS_RECEIPT when a product goes
+   * back in more than the GRN received less earlier returns.
+   */
+  async create(supplierReturn: NewSupplierReturn): Promise<SupplierReturnDetails> {
+    const data = await this.request<SupplierReturnDetails>('', {
+      method: 'POST',
+      body: JSON.stringify({
+        supplier_id: supplierReturn.supplierId,
+        grn_id: supplierReturn.grnId ?? undefined,
+        store_id: supplierReturn.storeId ?? undefined,
+        note: supplierReturn.note || undefined,
+        lines: supplierReturn.lines.map(line => ({
+          product_id: line.productId,
+          qty: line.qty,
+          unit_cost: line.unitCost,
+          reason: line.reason
+        }))
+      })
+    });
+    return this.pick(data);
+  }
+
+  /** Send the goods back: they leave the store's stock and the debit note can be printed */
+  async post(id: number): Promise<SupplierReturnDetails> {
+    return this.pick(await this.request<SupplierReturnDetails>(`/${id}/post`, { method: 'POST' }));
+  }
+
+  /** Record a credit from the supplier; rejects with code CREDIT_EXCEEDS_OUTSTANDING above what is owed */
+  async recordCredit(id: number, credit: SupplierCredit): Promise<SupplierReturnDetails> {
+    return this.pick(await this.request<SupplierReturnDetails>(`/${id}/credits`, {
+      method: 'POST',
+      body: JSON.stringify({
+        amount: credit.amount,
+        ref: credit.ref || undefined,
+        note: credit.note || undefined
+      })
+    }));
+  }
+
+  /** Throw away a draft */
+  async remove(id: number): Promise<void> {
+    await this.request(`/${id}`, { method: 'DELETE' });
+  }
+
+  private pick({ supplier_return, supplier, grn, lines, credits }: SupplierReturnDetails): SupplierReturnDetails {
+    return { supplier_return, supplier, grn, lines, credits };
+  }
+}
+
+export const supplierReturnService = new SupplierReturnService();
@@ -0,0 +1,50 @@
+/**
+ * Tax Service
+ * Loads the tax-code table and keeps a synchronous copy for cart and receipt math
+ */
+
+import { database } from './database';
+import type { TaxCode, TaxKind } from '../types';
+import { DEFAULT_TAX_CODES, resolveTaxCode } from '@/lib/tax';
+
+const TAX_KINDS: TaxKind[] = ['STANDARD', 'ZERO_RATED', 'EXEMPT'];
+
+function toTaxCode(row: any): TaxCode {
+  return {
+    code: String(row.code),
+    name: String(row.name || row.code),
+    rate: Number(row.rate) || 0,
+    kind: TAX_KINDS.includes(row.kind) ? row.kind : 'STANDARD',
+    inclusive: row.inclusive === true || row.inclusive === 1 || row.inclusive === '1',
+    active: !(row.active === false || row.active === 0 || row.active === '0')
+  };
+}
+
+export class TaxService {
+  private codes: TaxCode[] = DEFAULT_TAX_CODES;
+
+  /**
+   * Refresh the cached codes from the tax_codes table; keeps the defaults when it is empty
+   */
+  async load(): Promise<TaxCode[]> {
+    try {
+      const rows = await database.query('SELECT * FROM tax_codes');
+      if (rows.length > 0) {
+        this.codes = rows.map(toTaxCode);
+      }
+    } catch (error) {
+      console.error('Failed to load tax codes, using defaults:', error);
+    }
+    return this.codes;
+  }
+
+  getTaxCodes(): TaxCode[] {
+    return this.codes;
+  }
+
+  getTaxCode(code?: string | null): TaxCode {
+    return resolveTaxCode(code, this.codes);
+  }
+}
+
+export const taxService = new TaxService();
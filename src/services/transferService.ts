@@ -0,0 +1,110 @@
+/**
+ * Transfer Service
+ * Stock transfers between stores, kept on the POS server: a store requests stock, the sending
+ * store dispatches it (stock leaves and is in transit) and the requesting store receives it.
+ */
+
+import { getServerBaseUrl, serverRequest, ServiceError } from '@/utils/api';
+import { useAppStore } from '../store/appStore';
+import { StockTransfer, StockTransferLine, Store, TransferStatus } from '../types';
+
+export interface TransferDetails {
+  transfer: StockTransfer;
+  from_store: Store | null;
+  to_store: Store | null;
+  lines: StockTransferLine[];
+}
+
+export interface NewTransfer {
+  fromStoreId: number;
+  toStoreId: number;
+  note?: string;
+  lines: Array<{ productId: number; qty: number }>;
+}
+
+/** Quantities counted at dispatch or receipt; products left out keep the expected quantity */
+export type TransferCount = Array<{ productId: number; qty: number }>;
+
+export class TransferServiceError extends ServiceError {}
+
+/** Dispatched minus received for a received line; positive when goods went missing in transit */
+export function transferShortfall(line: StockTransferLine): number {
+  if (line.qty_received === null || line.qty_dispatched === null) return 0;
+  return Math.round((line.qty_dispatched - line.qty_received) * 1000) / 1000;
+}
+
+export class TransferService {
+  private request<T>(path: string, options: RequestInit = {}): Promise<T> {
+    const baseUrl = getServerBaseUrl(useAppStore.getState().settings?.dataSource);
+    return serverRequest<T>(baseUrl, `/api/transfers${path}`, options, TransferServiceError);
+  }
+
+  async list(params: { q?: string; storeId?: number; status?: TransferStatus; limit?: number } = {}): Promise<StockTransfer[]> {
+    const query = new URLSearchParams({ sort: 'created_at', order: 'desc' });
+    if (params.q) query.set('q', params.q);
+    if (params.status) query.set('status', params.status);
+    if (params.limit) query.set('limit', String(params.limit));
+
+    if (!params.storeId) {
+      const data = await this.request<{ transfers: StockTransfer[] }>(`?${query}`);
+      return data.transfers;
+    }
+
+    // A store sees transfers in both directions
+    const [outgoing, incoming] = await Promise.all(['from_store', 'to_store'].map(async column => {
+      const filtered = new URLSearchParams(query);
+      filtered.set(column, String(params.storeId));
+      return (await this.request<{ transfers: StockTransfer[] }>(`?${filtered}`)).transfers;
+    }));
+    return [...outgoing, ...incoming]
+      .sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id - a.id)
+      .slice(0, params.limit);
+  }
+
+  async get(id: number): Promise<TransferDetails> {
+    return this.pick(await this.request<TransferDetails>(`/${id}/details`));
+  }
+
+  /** Request stock for `toStoreId` from `fromStoreId` */
+  async create(transfer: NewTransfer): Promise<TransferDetails> {
+    const data = await this.request<TransferDetails>('', {
+      method: 'POST',
+      body: JSON.stringify({
+        from_store: transfer.fromStoreId,
+        to_store: transfer.toStoreId,
+        note: transfer.note || undefined,
+        lines: transfer.lines.map(line => ({ product_id: line.productId, qty: line.qty }))
+      })
+    });
+    return this.pick(data);
+  }
+
+  /** Ship the goods from the sending store; quantities not counted default to those requested */
+  async dispatch(id: number, counted: TransferCount = []): Promise<TransferDetails> {
+    return this.pick(await this.request<TransferDetails>(`/${id}/dispatch`, {
+      method: 'POST',
+      body: JSON.stringify(this.countBody(counted))
+    }));
+  }
+
+  /**
+   * Book the goods in at the receiving store; quantities not counted default to those dispatched.
+   * Rejects with code RECEIPT_EXCEEDS_DISPATCH when a line counts more than was sent.
+   */
+  async receive(id: number, counted: TransferCount = []): Promise<TransferDetails> {
+    return this.pick(await this.request<TransferDetails>(`/${id}/receive`, {
+      method: 'POST',
+      body: JSON.stringify(this.countBody(counted))
+    }));
+  }
+
+  private countBody(counted: TransferCount) {
+    return counted.length > 0 ? { lines: counted.map(line => ({ product_id: line.productId, qty: line.qty })) } : {};
+  }
+
+  private pick({ transfer, from_store, to_store, lines }: TransferDetails): TransferDetails {
+    return { transfer, from_store, to_store, lines };
+  }
+}
+
+export const transferService = new TransferService();
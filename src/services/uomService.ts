@@ -0,0 +1,66 @@
+/**
+ * UOM Service
+ * Units of measure and the packs each product is sold or received in, kept on the POS server.
+ * Stock stays in the product's base unit; a pack converts to it with conv_to_base.
+ */
+
+import { getServerBaseUrl, serverRequest, ServiceError } from '@/utils/api';
+import { useAppStore } from '../store/appStore';
+import { ProductUom, Uom } from '../types';
+
+export interface PackInput {
+  productId: number;
+  uomId: number;
+  convToBase: number;
+  priceOverride?: number | null;
+  barcode?: string | null;
+}
+
+export class UomServiceError extends ServiceError {}
+
+export class UomService {
+  private request<T>(path: string, options: RequestInit = {}): Promise<T> {
+    const baseUrl = getServerBaseUrl(useAppStore.getState().settings?.dataSource);
+    return serverRequest<T>(baseUrl, `/api${path}`, options, UomServiceError);
+  }
+
+  async listUoms(): Promise<Uom[]> {
+    const data = await this.request<{ uoms: Uom[] }>('/uoms?limit=500');
+    return data.uoms;
+  }
+
+  async createUom(uom: { code: string; name: string }): Promise<Uom> {
+    const data = await this.request<{ uom: Uom }>('/uoms', {
+      method: 'POST',
+      body: JSON.stringify(uom)
+    });
+    return data.uom;
+  }
+
+  /** The product's packs, smallest first */
+  async listForProduct(productId: number): Promise<ProductUom[]> {
+    const data = await this.request<{ uoms: ProductUom[] }>(`/products/${productId}/uoms`);
+    return data.uoms;
+  }
+
+  /** Add a pack to a product, or change it when `id` is given; returns the product's packs */
+  async savePack(pack: PackInput, id?: number): Promise<ProductUom[]> {
+    await this.request(id ? `/product-uoms/${id}` : '/product-uoms', {
+      method: id ? 'PUT' : 'POST',
+      body: JSON.stringify({
+        product_id: pack.productId,
+        uom_id: pack.uomId,
+        conv_to_base: pack.convToBase,
+        price_override: pack.priceOverride ?? null,
+        barcode: pack.barcode || null
+      })
+    });
+    return this.listForProduct(pack.productId);
+  }
+
+  async removePack(id: number): Promise<void> {
+    await this.request(`/product-uoms/${id}`, { method: 'DELETE' });
+  }
+}
+
+export const uomService = new UomService();
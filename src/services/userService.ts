@@ -35,6 +35,8 @@ export interface UserWithStatus extends User {
   email?: string;
   phone?: string;
   last_login_at?: string;
+  /** From the server: 1 once a PIN is set; the hash itself stays in the server's user_pins */
+  pin_set?: number | boolean;
   is_locked: boolean;
   lockout_expires?: string;
 }
@@ -179,12 +181,11 @@ class UserService {
       
       const result = await dataService.execute(
         `INSERT INTO users (
-          name, role, pin, active, email, phone, created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          name, role, active, email, phone, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
         [
           input.name,
           input.role,
-          input.pin || '',
           input.active !== false ? 1 : 0,
           input.email || null,
           input.phone || null,
@@ -194,6 +195,9 @@ class UserService {
       );
 
       const userId = result.lastInsertRowid;
+      if (input.pin) {
+        await authService.setUserPin(userId!, input.pin);
+      }
       
       // Log user creation
       await auditService.log({
@@ -321,8 +325,8 @@ class UserService {
         }
       });
 
-      // Log role change specifically if role changed
-      if (input.role && input.role !== existingUser.role) {
+      // Log role change specifically if role changed; a server records that itself
+      if (input.role && input.role !== existingUser.role && !auditService.isServerMode()) {
         await auditService.log({
           action: AUDIT_ACTIONS.USER_ROLE_CHANGE,
           entity: 'user',
@@ -408,12 +412,7 @@ class UserService {
         throw new Error('PIN must contain only digits');
       }
 
-      await dataService.execute(
-        `UPDATE users 
-         SET pin = ?, pin_attempts = 0, pin_locked_until = NULL, updated_at = ?
-         WHERE id = ?`,
-        [pin, new Date().toISOString(), id]
-      );
+      await authService.setUserPin(id, pin);
 
       // Log PIN reset
       await auditService.log({
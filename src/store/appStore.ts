@@ -61,6 +61,7 @@ interface AppState {
   updateHoldsSettings: (settings: Partial<AppState['holdsSettings']>) => void;
   updateStockSettings: (settings: Partial<AppState['stockSettings']>) => void;
   updateSecuritySettings: (settings: Partial<AppState['securitySettings']>) => void;
+  updateLabelSettings: (settings: Partial<LabelSettings>) => void;
   setCurrentUser: (user: User | null) => void;
   setCurrentSession: (session: Shift | null) => void;
   setTerminal: (terminal: string) => void;
@@ -77,6 +78,11 @@ const defaultSettings: AppSettings = {
   },
   devices: {
     receiptPaper: '80mm',
+    receiptPrinter: {
+      connection: 'browser',
+      host: '',
+      port: 9100,
+    },
     cashDrawerOpenOnCash: true,
     barcodeInputMode: 'keyboard_wedge',
     scaleMode: 'off',
@@ -160,6 +166,7 @@ const defaultSettings: AppSettings = {
     autoUpdateCostPolicy: 'latest',
     expiryReminderDays: 7,
     defaultTaxPercent: 0,
+    receiveTolerancePercent: 0,
   },
   // Shift settings
   shiftSettings: {
@@ -170,6 +177,12 @@ const defaultSettings: AppSettings = {
     xReportFooterEN: 'Thank you',
     zReportFooterEN: 'End of Day',
   },
+  // Data source
+  dataSource: {
+    mode: 'local',
+    serverUrl: '',
+    syncQueueMaxAgeMinutes: 15,
+  },
 };
 
 export const useAppStore = create<AppState>()(
@@ -215,6 +228,9 @@ export const useAppStore = create<AppState>()(
           defaultPresetId: 'product-50x30',
           defaultDPI: 203 as const,
           thermalPrinterName: '',
+          thermalLanguage: 'browser' as const,
+          thermalPrinterHost: '',
+          thermalPrinterPort: 9100,
           a4Default: {
             rows: 7,
             cols: 3,
@@ -280,6 +296,11 @@ export const useAppStore = create<AppState>()(
             securitySettings: { ...state.securitySettings, ...newSecuritySettings },
           })),
         
+        updateLabelSettings: (newLabelSettings) =>
+          set((state) => ({
+            labelSettings: { ...state.labelSettings, ...newLabelSettings },
+          })),
+        
         setCurrentUser: (user) => set({ currentUser: user }),
       
       setCurrentSession: (session) => set({ currentSession: session }),
@@ -296,6 +317,7 @@ export const useAppStore = create<AppState>()(
             holdsSettings: state.holdsSettings,
             stockSettings: state.stockSettings,
             securitySettings: state.securitySettings,
+            labelSettings: state.labelSettings,
             currentUser: state.currentUser,
             currentSession: state.currentSession,
             terminal: state.terminal,
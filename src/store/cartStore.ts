@@ -5,10 +5,13 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { roundCurrency } from '@/lib/currency';
-import { SETTINGS } from '@/config/settings';
+import { computeTaxes } from '@/lib/tax';
+import { taxService } from '@/services/taxService';
 import { pricingService } from '@/services/pricingService';
-import { discountEngine } from '@/services/discountEngine';
+import { discountEngine, AppliedRule } from '@/services/discountEngine';
 import { dataService } from '@/services/dataService';
+import { packPrice, PackUnit } from '@/lib/uom';
+import type { TaxBreakdownLine } from '@/types';
 
 export interface CartItem {
   id: string;
@@ -25,7 +28,10 @@ export interface CartItem {
   line_discount_value?: number;
   line_total: number;
   tax_amount: number;
+  tax_code?: string;
+  applied_rules?: AppliedRule[]; // discount rules and promotions that fired on this line
   unit: string;
+  uom?: PackUnit | null; // pack the line is sold in; qty and the tier prices are then per pack
   stock_qty?: number;
   category_id?: number;
   product?: any;
@@ -42,6 +48,7 @@ export interface CartTotals {
   manual_discount_amount: number;
   subtotal_after_discounts: number;
   tax_total: number;
+  tax_breakdown: TaxBreakdownLine[];
   net_total: number;
 }
 
@@ -55,6 +62,7 @@ interface CartState {
   priceTier: PriceTier;
   customerId: number | null;
   customerName: string;
+  customerTagIds: number[]; // the customer's tags, which customer_tag promotion scopes match
   
   // Manual discount
   manualDiscount: ManualDiscount;
@@ -62,20 +70,19 @@ interface CartState {
   // Totals
   totals: CartTotals;
   
-  // Tax rate
-  taxRate: number;
-  
   // Actions
-  addItem: (product: any, qty?: number) => Promise<void> | void;
+  addItem: (product: any, qty?: number, uom?: PackUnit | null) => Promise<void> | void;
   updateItemQuantity: (itemId: string, qty: number) => Promise<void> | void;
+  changeItemUom: (itemId: string, uom: PackUnit | null) => Promise<void> | void;
   removeItem: (itemId: string) => void;
   updateItemDiscount: (itemId: string, type: 'FIXED_AMOUNT' | 'PERCENTAGE', value: number) => void;
   setPriceTier: (tier: PriceTier) => void;
-  setCustomer: (customerId: number | null, customerName: string) => void;
+  setCustomer: (customerId: number | null, customerName: string, customerTagIds?: number[]) => Promise<void> | void;
   setManualDiscount: (discount: ManualDiscount) => void;
   clearCart: () => void;
   calculateTotals: () => void;
   recomputeAutoDiscounts: () => Promise<void> | void;
+  getCurrentPrice: (product: any, tier?: PriceTier) => number;
 }
 
 const initialTotals: CartTotals = {
@@ -84,9 +91,20 @@ const initialTotals: CartTotals = {
   manual_discount_amount: 0,
   subtotal_after_discounts: 0,
   tax_total: 0,
+  tax_breakdown: [],
   net_total: 0
 };
 
+// A product's tier prices for one of `uom`, or for one base unit
+function packPrices(product: any, uom: PackUnit | null) {
+  return {
+    price_retail: packPrice(product.price_retail, uom, 'Retail'),
+    price_wholesale: packPrice(product.price_wholesale, uom, 'Wholesale'),
+    price_credit: packPrice(product.price_credit, uom, 'Credit'),
+    price_other: packPrice(product.price_other || product.price_retail, uom, 'Other')
+  };
+}
+
 export const useCartStore = create<CartState>()(
   persist(
     (set, get) => ({
@@ -95,14 +113,15 @@ export const useCartStore = create<CartState>()(
       priceTier: 'Retail',
       customerId: null,
       customerName: 'Walk-in Customer (Retail)',
+      customerTagIds: [],
       manualDiscount: { type: 'FIXED_AMOUNT', value: 0 },
       totals: initialTotals,
-      taxRate: SETTINGS.TAX_RATE, // FIX: Use centralized tax rate from settings
 
       // Add item to cart
-      addItem: async (product: any, qty: number = 1) => {
+      addItem: async (product: any, qty: number = 1, uom: PackUnit | null = null) => {
         const state = get();
-        const existingItem = state.items.find(item => item.product_id === product.id);
+        // The same product sold by the pack and loose are separate lines
+        const existingItem = state.items.find(item => item.product_id === product.id && (item.uom?.code ?? null) === (uom?.code ?? null));
         
         if (existingItem) {
           // Update existing item quantity
@@ -111,7 +130,8 @@ export const useCartStore = create<CartState>()(
         } else {
           // Add new item
           const itemId = `${product.id}_${Date.now()}`;
-          const currentPrice = state.getCurrentPrice(product);
+          const prices = packPrices(product, uom);
+          const currentPrice = state.getCurrentPrice(prices);
           
           const newItem: CartItem = {
             id: itemId,
@@ -119,14 +139,16 @@ export const useCartStore = create<CartState>()(
             name: product.name_en,
             sku: product.sku,
             qty: roundCurrency(qty),
-            retail_price: product.price_retail,
-            wholesale_price: product.price_wholesale,
-            credit_price: product.price_credit,
-            other_price: product.price_other || product.price_retail,
+            retail_price: prices.price_retail,
+            wholesale_price: prices.price_wholesale,
+            credit_price: prices.price_credit,
+            other_price: prices.price_other,
             current_price: currentPrice,
             line_total: roundCurrency(qty * currentPrice),
             tax_amount: 0,
-            unit: product.unit,
+            tax_code: product.tax_code,
+            unit: uom?.code ?? product.unit,
+            uom,
             stock_qty: product.stock_qty,
             category_id: Number(product.category_id),
             product
@@ -147,11 +169,27 @@ export const useCartStore = create<CartState>()(
           return;
         }
 
-        // Try tiered pricing recompute
-        try {
-          const state = get();
-          const target = state.items.find(i => i.id === itemId);
-          if (target) {
+        // Simple recompute at the line's current price
+        const applyQty = () => set(state => ({
+          items: state.items.map(item => {
+            if (item.id === itemId) {
+              const lineTotal = roundCurrency(qty * item.current_price);
+              const lineDiscount = item.line_discount_value || 0;
+              const finalLineTotal = roundCurrency(lineTotal - lineDiscount);
+              return { ...item, qty, line_total: finalLineTotal };
+            }
+            return item;
+          })
+        }));
+
+        const state = get();
+        const target = state.items.find(i => i.id === itemId);
+        if (target?.uom) {
+          // Quantity breaks are per base unit; a pack line keeps its pack price
+          applyQty();
+        } else if (target) {
+          // Try tiered pricing recompute
+          try {
             const result = await pricingService.compute({
               product_id: target.product_id,
               qty,
@@ -170,25 +208,43 @@ export const useCartStore = create<CartState>()(
                 return item;
               })
             }));
+          } catch (_) {
+            // fallback to simple recompute
+            applyQty();
           }
-        } catch (_) {
-          // fallback to simple recompute
-          set(state => ({
-            items: state.items.map(item => {
-              if (item.id === itemId) {
-                const lineTotal = roundCurrency(qty * item.current_price);
-                const lineDiscount = item.line_discount_value || 0;
-                const finalLineTotal = roundCurrency(lineTotal - lineDiscount);
-                return { ...item, qty, line_total: finalLineTotal };
-              }
-              return item;
-            })
-          }));
         }
 
         await get().recomputeAutoDiscounts();
       },
 
+      // Sell a line in another pack, or loose when uom is null, repricing it from the product
+      changeItemUom: async (itemId: string, uom: PackUnit | null) => {
+        const target = get().items.find(item => item.id === itemId);
+        if (!target?.product) return;
+
+        const prices = packPrices(target.product, uom);
+        const currentPrice = get().getCurrentPrice(prices);
+        set(state => ({
+          items: state.items.map(item => item.id === itemId
+            ? {
+                ...item,
+                uom,
+                unit: uom?.code ?? target.product.unit,
+                retail_price: prices.price_retail,
+                wholesale_price: prices.price_wholesale,
+                credit_price: prices.price_credit,
+                other_price: prices.price_other,
+                current_price: currentPrice,
+                line_discount_type: undefined,
+                line_discount_value: 0,
+                line_total: roundCurrency(item.qty * currentPrice)
+              }
+            : item)
+        }));
+
+        await get().recomputeAutoDiscounts();
+      },
+
       // Remove item from cart
       removeItem: (itemId: string) => {
         set(state => ({
@@ -258,9 +314,10 @@ export const useCartStore = create<CartState>()(
         get().calculateTotals();
       },
 
-      // Set customer
-      setCustomer: (customerId: number | null, customerName: string) => {
-        set({ customerId, customerName });
+      // Set customer; promotions scoped to customer tags may now apply, or no longer
+      setCustomer: async (customerId: number | null, customerName: string, customerTagIds: number[] = []) => {
+        set({ customerId, customerName, customerTagIds });
+        await get().recomputeAutoDiscounts();
       },
 
       // Set manual discount
@@ -302,19 +359,29 @@ export const useCartStore = create<CartState>()(
         // Calculate subtotal after all discounts
         const subtotal_after_discounts = roundCurrency(gross - item_discounts_total - manual_discount_amount);
         
-        // Calculate tax
-        const tax_total = roundCurrency(subtotal_after_discounts * state.taxRate);
+        // Tax each line under its own tax code; the manual discount is spread across lines first
+        const taxes = computeTaxes(
+          state.items.map(item => ({
+            amount: (item.qty * item.current_price) - (item.line_discount_value || 0),
+            taxCode: item.tax_code ?? item.product?.tax_code
+          })),
+          taxService.getTaxCodes(),
+          manual_discount_amount
+        );
+        const tax_total = taxes.taxTotal;
         
-        // Calculate net total
-        const net_total = roundCurrency(subtotal_after_discounts + tax_total);
+        // Inclusive tax is already inside the shelf price; only exclusive tax is added
+        const net_total = roundCurrency(subtotal_after_discounts + taxes.exclusiveTax);
         
         set({
+          items: state.items.map((item, index) => ({ ...item, tax_amount: taxes.lines[index].tax })),
           totals: {
             gross: roundCurrency(gross),
             item_discounts_total: roundCurrency(item_discounts_total),
             manual_discount_amount: roundCurrency(manual_discount_amount),
             subtotal_after_discounts: roundCurrency(subtotal_after_discounts),
             tax_total: roundCurrency(tax_total),
+            tax_breakdown: taxes.breakdown,
             net_total: roundCurrency(net_total)
           }
         });
@@ -341,30 +408,26 @@ export const useCartStore = create<CartState>()(
           unit_price: Number(it.current_price),
           retail_price: Number(it.retail_price),
           line_discount: Number(it.line_discount_value || 0),
-          tax: Number(it.tax_amount || 0),
+          tax: 0, // taxed per tax code in calculateTotals
           total: Number(it.line_total || (it.qty * it.current_price))
         }));
 
-        const result = await discountEngine.applyRulesToCart({ lines, rules });
+        const result = await discountEngine.applyRulesToCart({ lines, rules, customerTagIds: state.customerTagIds });
 
         set(s => ({
           items: s.items.map((it, idx) => {
             const line = result.lines[idx];
-            const finalLineTotal = (line.unit_price * line.qty) - line.line_discount + line.tax;
-            return { ...it, line_discount_value: line.line_discount, line_total: roundCurrency(finalLineTotal) } as CartItem;
+            const finalLineTotal = (line.unit_price * line.qty) - line.line_discount;
+            return {
+              ...it,
+              line_discount_value: line.line_discount,
+              line_total: roundCurrency(finalLineTotal),
+              applied_rules: line.applied_rules || []
+            } as CartItem;
           })
         }));
 
-        set({
-          totals: {
-            gross: result.totals.gross,
-            item_discounts_total: result.totals.itemDiscounts,
-            manual_discount_amount: 0,
-            subtotal_after_discounts: roundCurrency(result.totals.gross - result.totals.itemDiscounts),
-            tax_total: result.totals.tax,
-            net_total: result.totals.net
-          }
-        });
+        get().calculateTotals();
       },
 
       // Helper function to get current price based on tier (will be enhanced by pricing engine later)
@@ -389,6 +452,7 @@ export const useCartStore = create<CartState>()(
         priceTier: state.priceTier,
         customerId: state.customerId,
         customerName: state.customerName,
+        customerTagIds: state.customerTagIds,
         manualDiscount: state.manualDiscount
       })
     }
@@ -55,6 +55,11 @@ const defaultSettings: AppSettings = {
   },
   devices: {
     receiptPaper: '80mm',
+    receiptPrinter: {
+      connection: 'browser',
+      host: '',
+      port: 9100,
+    },
     cashDrawerOpenOnCash: true,
     barcodeInputMode: 'keyboard_wedge',
     scaleMode: 'off',
@@ -105,6 +110,7 @@ const defaultSettings: AppSettings = {
     autoUpdateCostPolicy: 'latest' as const,
     expiryReminderDays: 14,
     defaultTaxPercent: 0,
+    receiveTolerancePercent: 0,
   },
   
   shiftSettings: {
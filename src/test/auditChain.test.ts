@@ -0,0 +1,102 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+type Archive = typeof import('../../server/src/jobs/auditArchive');
+type Db = typeof import('../../server/src/db')['db'];
+
+// The server keeps its database and audit archives under <cwd>/data; each run gets a fresh one
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pos-audit-chain-'));
+let archive: Archive;
+let db: Db;
+
+function append(action: string, createdAt: string, meta: Record<string, unknown> = {}): number {
+  return Number(db.run('INSERT INTO audit_logs (action, actor_id, actor_name, meta, created_at) VALUES (?, 1, ?, ?, ?)', [
+    action,
+    'Mgr',
+    JSON.stringify(meta),
+    createdAt
+  ]).lastInsertRowid);
+}
+
+// Edit a row the way someone with the database file could, past the append-only trigger
+function tamper(id: number, meta: string) {
+  const trigger = db.get<{ sql: string }>("SELECT sql FROM sqlite_master WHERE name = 'trg_audit_logs_no_update'")!;
+  db.run('DROP TRIGGER trg_audit_logs_no_update');
+  try {
+    db.run('UPDATE audit_logs SET meta = ? WHERE id = ?', [meta, id]);
+  } finally {
+    db.run(trigger.sql);
+  }
+}
+
+describe('Audit log hash chain', () => {
+  let discount: number;
+  let original: string;
+
+  beforeAll(async () => {
+    vi.spyOn(process, 'cwd').mockReturnValue(dir);
+    ({ db } = await import('../../server/src/db'));
+    archive = await import('../../server/src/jobs/auditArchive');
+    append('SHIFT_START', '2026-01-05 08:00:00', { float: 5000 });
+    discount = append('DISCOUNT_OVERRIDE', '2026-01-05 09:30:00', { percent: 8 });
+    append('VOID_FINALIZED', '2026-01-05 11:00:00', { sale_id: 12 });
+    original = db.get<{ meta: string }>('SELECT meta FROM audit_logs WHERE id = ?', [discount])!.meta;
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should chain each appended entry to the one before it', () => {
+    const result = archive.verifyAuditChain();
+
+    expect(result).toMatchObject({ ok: true, checked: 3, breaks: [] });
+    expect(() => db.run('UPDATE audit_logs SET meta = ? WHERE id = ?', ['{}', discount])).toThrow('append-only');
+    expect(() => db.run('DELETE FROM audit_logs WHERE id = ?', [discount])).toThrow('only be removed by archiving');
+  });
+
+  it('should report the entry that was edited, and only that one', () => {
+    tamper(discount, JSON.stringify({ percent: 80 }));
+
+    const result = archive.verifyAuditChain();
+    tamper(discount, original);
+
+    expect(result.ok).toBe(false);
+    expect(result.breaks).toEqual([expect.objectContaining({ id: discount, reason: 'CONTENT_CHANGED' })]);
+    expect(archive.verifyAuditChain().ok).toBe(true);
+  });
+
+  it('should not take an archive row from anyone but the archiver', () => {
+    expect(() =>
+      db.run(
+        `INSERT INTO audit_archives (file, first_id, last_id, entries, first_prev_hash, last_hash, file_sha256)
+          VALUES ('forged.json', 1, 3, 3, '', '', '')`
+      )
+    ).toThrow('only recorded by the archiver');
+    expect(() => db.run('DELETE FROM audit_logs WHERE id = 1')).toThrow('only be removed by archiving');
+  });
+
+  it('should archive expired entries to a signed file and still verify end to end', () => {
+    const recent = append('SHIFT_END', new Date().toISOString().replace('T', ' ').slice(0, 19));
+
+    const archived = archive.archiveAuditLogs(30, { id: 1, name: 'Mgr' });
+
+    expect(archived).toMatchObject({ first_id: 1, last_id: 3, entries: 3 });
+    expect(db.query<{ id: number }>('SELECT id FROM audit_logs ORDER BY id').map(r => r.id)).toEqual([
+      recent,
+      recent + 1 // the AUDIT_ARCHIVE entry
+    ]);
+    const result = archive.verifyAuditChain();
+    expect(result).toMatchObject({ ok: true, checked: 2, anchor_hash: archived!.last_hash, breaks: [] });
+    expect(result.archives).toEqual([{ file: archived!.file, ok: true }]);
+
+    fs.appendFileSync(path.join(dir, 'data', 'audit-archive', archived!.file), ' ');
+    const changed = archive.verifyAuditChain();
+    expect(changed.ok).toBe(false);
+    expect(changed.archives).toEqual([{ file: archived!.file, ok: false, error: 'file has been changed' }]);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AuditService, AuditServiceError } from '../services/auditService';
+import { authService } from '../services/authService';
+import { useAppStore } from '../store/appStore';
+import { jsonResponse } from './serverResponses';
+
+function useDataSource(mode: 'local' | 'server') {
+  const settings = useAppStore.getState().settings;
+  useAppStore.setState({ settings: { ...settings, dataSource: { mode, serverUrl: 'http://pos.local:8250' } } as any });
+}
+
+const serverLog = {
+  id: 42,
+  action: 'DISCOUNT_OVERRIDE',
+  actor_id: 3,
+  actor_name: 'Cash',
+  terminal: 'T1',
+  entity: 'sale',
+  entity_id: '1001',
+  meta: { value: { percent: 8 }, escalated: true },
+  created_at: '2026-10-19 06:11:35',
+  prev_hash: 'a'.repeat(64),
+  hash: 'b'.repeat(64)
+};
+
+describe('Audit Service', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let service: AuditService;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    useDataSource('server');
+    service = new AuditService();
+  });
+
+  afterEach(() => {
+    useDataSource('local');
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('should write entries to the server, which records the signed-in user and chains them', async () => {
+    vi.spyOn(authService, 'getCurrentUser').mockReturnValue({ id: 3, name: 'Cash' } as any);
+    fetchMock.mockResolvedValue(jsonResponse(201, { success: true, log: serverLog }));
+
+    await service.log({ action: 'DISCOUNT_OVERRIDE', entity: 'sale', entityId: 1001, payload: { percent: 8 }, terminal: 'T1' });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://pos.local:8250/api/audit/entries');
+    expect(init.method).toBe('POST');
+    expect(JSON.parse(init.body)).toEqual({
+      action: 'DISCOUNT_OVERRIDE',
+      terminal: 'T1',
+      entity: 'sale',
+      entity_id: '1001',
+      meta: { percent: 8 }
+    });
+  });
+
+  it('should list server entries newest first with their hashes', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { success: true, logs: [serverLog], total: 51, limit: 50, offset: 0 }));
+
+    const result = await service.list({ dateFrom: '2026-10-01', dateTo: '2026-10-19', action: 'DISCOUNT_OVERRIDE', search: 'Cash' });
+
+    expect(result.total).toBe(51);
+    expect(result.hasMore).toBe(true);
+    expect(result.logs[0]).toMatchObject({
+      id: 42,
+      at: '2026-10-19T06:11:35Z',
+      user_id: 3,
+      user_name: 'Cash',
+      payload_json: JSON.stringify(serverLog.meta),
+      prev_hash: serverLog.prev_hash,
+      hash: serverLog.hash
+    });
+    const url = new URL(fetchMock.mock.calls[0][0]);
+    expect(url.pathname).toBe('/api/audit-logs');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      sort: 'id',
+      order: 'desc',
+      limit: '50',
+      offset: '0',
+      from: '2026-10-01',
+      to: '2026-10-19 23:59:59',
+      action: 'DISCOUNT_OVERRIDE',
+      q: 'Cash'
+    });
+  });
+
+  it('should report where the chain breaks', async () => {
+    const result = {
+      ok: false,
+      checked: 12,
+      first_id: 1,
+      last_id: 12,
+      anchor_hash: '0'.repeat(64),
+      head_hash: 'c'.repeat(64),
+      breaks: [{ id: 7, reason: 'CONTENT_CHANGED', previous_id: 6, expected: 'd'.repeat(64), found: 'e'.repeat(64) }],
+      archives: [],
+      verified_at: '2026-10-19T06:20:00.000Z'
+    };
+    fetchMock.mockResolvedValue(jsonResponse(200, { success: true, result }));
+
+    const verification = await service.verifyChain();
+
+    expect(verification.ok).toBe(false);
+    expect(verification.breaks).toEqual([expect.objectContaining({ id: 7, reason: 'CONTENT_CHANGED' })]);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://pos.local:8250/api/audit/verify');
+  });
+
+  it('should request a signed bundle for a date range', async () => {
+    const bundle = { format: 1, kind: 'audit-export', entries: [serverLog], signature: 'c2ln', fingerprint: 'f'.repeat(64) };
+    fetchMock.mockResolvedValue(jsonResponse(200, bundle));
+
+    const result = await service.exportSignedBundle({ dateFrom: '2026-10-01', dateTo: '2026-10-19' });
+
+    expect(result).toEqual(bundle);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://pos.local:8250/api/audit/bundle?from=2026-10-01&to=2026-10-19');
+  });
+
+  it('should archive old entries instead of deleting them', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { success: true, archive: null }));
+
+    const archive = await service.archiveOldLogs(400);
+
+    expect(archive).toBeNull();
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://pos.local:8250/api/audit/archive');
+    expect(init.method).toBe('POST');
+    expect(JSON.parse(init.body)).toEqual({ older_than_days: 400 });
+  });
+
+  it('should surface server refusals with their code', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse(403, { success: false, error: 'AUDIT_EXPORT permission required', code: 'PERMISSION_REQUIRED' })
+    );
+
+    const error = await service.exportSignedBundle().catch(e => e);
+
+    expect(error).toBeInstanceOf(AuditServiceError);
+    expect(error.code).toBe('PERMISSION_REQUIRED');
+    expect(error.status).toBe(403);
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AuthService } from '../services/authService';
+import { database } from '../services/database';
+import { hashPin, verifyPinHash } from '../lib/pinHash';
+import { useAppStore } from '../store/appStore';
+import { apiRequest } from '../utils/api';
+import { jsonResponse } from './serverResponses';
+
+function useDataSource(mode: 'local' | 'server') {
+  const settings = useAppStore.getState().settings;
+  useAppStore.setState({ settings: { ...settings, dataSource: { mode, serverUrl: 'http://pos.local:8250' } } as any });
+}
+
+const session = {
+  success: true,
+  token: 'eyJzdWIiOjF9.c2lnbmF0dXJl',
+  expires_at: '2026-10-19T12:30:00.000Z',
+  user: { id: 1, name: 'Manager', role: 'MANAGER', roles: ['MANAGER'], permissions: ['reports.view'] }
+};
+
+describe('Auth Service', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let service: AuthService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    service = new AuthService();
+  });
+
+  afterEach(() => {
+    service.logout();
+    useDataSource('local');
+    vi.unstubAllGlobals();
+  });
+
+  describe('with a POS server', () => {
+    beforeEach(() => useDataSource('server'));
+
+    it('should log in with a server-verified PIN and send the session with later requests', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse(200, session));
+
+      const result = await service.login('9999');
+
+      expect(result.success).toBe(true);
+      expect(result.user).toMatchObject({ id: 1, name: 'Manager', role: 'MANAGER', permissions: ['reports.view'] });
+      expect(result.user).not.toHaveProperty('pin');
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://pos.local:8250/api/auth/login');
+      expect(JSON.parse(init.body)).toEqual({ pin: '9999' });
+
+      const stored = JSON.parse(localStorage.getItem('auth_state')!);
+      expect(stored.sessionToken).toBe(session.token);
+      expect(JSON.stringify(stored)).not.toContain('9999');
+
+      fetchMock.mockResolvedValueOnce(jsonResponse(200, { success: true }));
+      await apiRequest('http://pos.local:8250/api/products', { headers: { 'X-Tx-Id': 'tx-1' } });
+      expect(fetchMock.mock.calls[1][1].headers).toMatchObject({
+        Authorization: `Bearer ${session.token}`,
+        'X-Tx-Id': 'tx-1'
+      });
+    });
+
+    it('should report attempts left and lockouts from the server', async () => {
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse(401, { success: false, error: 'Invalid PIN', code: 'INVALID_PIN', details: { attempts_left: 1 } })
+      );
+      const invalid = await service.login('0000');
+      expect(invalid).toEqual({ success: false, error: 'Invalid PIN. 1 attempts left before lockout.' });
+
+      const lockedUntil = new Date(Date.now() + 14 * 60 * 1000 + 30 * 1000).toISOString();
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse(429, { success: false, error: 'Locked', code: 'PIN_LOCKED', details: { locked_until: lockedUntil } })
+      );
+      const locked = await service.login('0000');
+      expect(locked.error).toBe('Too many failed attempts. Try again in 15 minutes.');
+      expect(service.isAuthenticated()).toBe(false);
+    });
+
+    it('should escalate with a manager PIN without replacing the current session', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse(200, { ...session, user: { ...session.user, id: 2, name: 'Cashier', role: 'CASHIER', roles: ['CASHIER'] } }));
+      await service.login('1234');
+
+      fetchMock.mockResolvedValueOnce(jsonResponse(200, { success: true, user: session.user }));
+      const result = await service.verifyPinForEscalation('9999', 'MANAGER', undefined, 1);
+
+      expect(result.success).toBe(true);
+      expect(result.user?.name).toBe('Manager');
+      const [url, init] = fetchMock.mock.calls[1];
+      expect(url).toBe('http://pos.local:8250/api/auth/escalate');
+      expect(JSON.parse(init.body)).toEqual({ user_id: 1, pin: '9999', role: 'MANAGER' });
+      expect(service.getCurrentUser()?.name).toBe('Cashier');
+    });
+  });
+
+  describe('limited operations', () => {
+    const cashier = {
+      ...session,
+      user: {
+        id: 2,
+        name: 'Cashier',
+        role: 'CASHIER',
+        roles: ['CASHIER'],
+        permissions: ['DISCOUNT_OVERRIDE'],
+        limits: { DISCOUNT_OVERRIDE: 500 },
+        percent_limits: { DISCOUNT_OVERRIDE: 5 }
+      }
+    };
+    let prompts: CustomEvent[];
+    const onPrompt = (e: Event) => prompts.push(e as CustomEvent);
+
+    beforeEach(async () => {
+      useDataSource('server');
+      prompts = [];
+      window.addEventListener('manager-pin-required', onPrompt);
+      fetchMock.mockResolvedValueOnce(jsonResponse(200, cashier));
+      await service.login('1234');
+    });
+
+    afterEach(() => window.removeEventListener('manager-pin-required', onPrompt));
+
+    it('should allow operations within the user\'s own limits without a manager', async () => {
+      const approval = await service.requireWithinLimit('DISCOUNT_OVERRIDE', { percent: 5 });
+
+      expect(approval).toMatchObject({
+        approved: true,
+        escalated: false,
+        value: { percent: 5 },
+        limit: { amount: 500, percent: 5 },
+        approvedBy: { id: 2, name: 'Cashier' }
+      });
+      expect(prompts).toHaveLength(0);
+    });
+
+    it('should ask for a manager PIN over the limit and report who approved', async () => {
+      const pending = service.requireWithinLimit('DISCOUNT_OVERRIDE', { amount: 750 }, 'Sale discount of 750.00');
+
+      expect(prompts).toHaveLength(1);
+      expect(prompts[0].detail).toMatchObject({ permissions: ['DISCOUNT_OVERRIDE'], reason: 'Sale discount of 750.00' });
+      prompts[0].detail.callback({ success: true, user: { id: 1, name: 'Manager', role: 'MANAGER' } });
+
+      expect(await pending).toMatchObject({
+        approved: true,
+        escalated: true,
+        value: { amount: 750 },
+        limit: { amount: 500, percent: 5 },
+        approvedBy: { id: 1, name: 'Manager' }
+      });
+    });
+
+    it('should have the server check the manager\'s own limit, record the approval and sign it', async () => {
+      const pending = service.requireWithinLimit('DISCOUNT_OVERRIDE', { amount: 750 }, 'Sale discount of 750.00', {
+        action: 'DISCOUNT_OVERRIDE',
+        payload: { subtotal: 1500 }
+      });
+      const { grant, callback } = prompts[0].detail;
+
+      fetchMock.mockResolvedValueOnce(jsonResponse(200, { success: true, user: session.user, approval: 'signed-approval', audit_log_id: 12 }));
+      callback(await service.verifyPinForEscalation('9999', 'MANAGER', grant, 1));
+
+      expect(await pending).toMatchObject({
+        approved: true,
+        approvedBy: { id: 1, name: 'Manager' },
+        approval: 'signed-approval'
+      });
+      const [url, init] = fetchMock.mock.calls[1];
+      expect(url).toBe('http://pos.local:8250/api/auth/escalate');
+      expect(JSON.parse(init.body)).toEqual({
+        user_id: 1,
+        pin: '9999',
+        permission: 'DISCOUNT_OVERRIDE',
+        amount: 750,
+        reason: 'Sale discount of 750.00',
+        action: 'DISCOUNT_OVERRIDE',
+        terminal: 'POS-001',
+        meta: { subtotal: 1500 }
+      });
+      // The server wrote the audit entry; nothing else was sent
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refuse when the manager PIN is cancelled', async () => {
+      const pending = service.requireWithinLimit('PRICE_OVERRIDE', { amount: 10 });
+      prompts[0].detail.callback({ success: false, error: 'Manager authorization cancelled' });
+
+      expect(await pending).toMatchObject({ approved: false, escalated: true, limit: null });
+    });
+  });
+
+  describe('without a server', () => {
+    it('should check PINs against the local users table', async () => {
+      const users = database.tables.get('users');
+      database.tables.set('users', [
+        { id: 7, name: 'Local Manager', role: 'MANAGER', pin_hash: await hashPin('4321'), active: true },
+        { id: 8, name: 'Former Staff', role: 'CASHIER', pin_hash: await hashPin('8765'), active: false }
+      ]);
+      try {
+        const result = await service.login('4321');
+        expect(result.success).toBe(true);
+        expect(result.user).toMatchObject({ id: 7, name: 'Local Manager' });
+        expect(result.user).not.toHaveProperty('pin_hash');
+
+        expect((await service.login('8765')).success).toBe(false);
+        expect((await service.login('1234')).success).toBe(false);
+        expect(fetchMock).not.toHaveBeenCalled();
+      } finally {
+        database.tables.set('users', users ?? []);
+      }
+    });
+
+    it('should keep only the hash of a PIN it sets', async () => {
+      const users = database.tables.get('users');
+      database.tables.set('users', [{ id: 7, name: 'Local Manager', role: 'MANAGER', pin_hash: await hashPin('4321'), active: true }]);
+      try {
+        await service.setUserPin(7, '2468');
+
+        const [user] = database.tables.get('users')!;
+        expect(user).not.toHaveProperty('pin');
+        expect(user.pin_hash).not.toContain('2468');
+        expect(await verifyPinHash('2468', user.pin_hash)).toBe(true);
+        expect((await service.login('4321')).success).toBe(false);
+        expect(fetchMock).not.toHaveBeenCalled();
+      } finally {
+        database.tables.set('users', users ?? []);
+      }
+    });
+  });
+});
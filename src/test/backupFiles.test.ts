@@ -0,0 +1,91 @@
+// @vitest-environment node
+import fs from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { TestServer, startTestServer } from './serverHarness';
+
+type Backup = typeof import('../../server/src/jobs/backup');
+
+// The server's own SQLite driver, to open the restored file beside the live connection
+const Database: typeof import('../../server/node_modules/@types/better-sqlite3') = createRequire(
+  new URL('../../server/package.json', import.meta.url)
+)('better-sqlite3');
+
+describe('Encrypted backups on the server', () => {
+  let server: TestServer;
+  let backup: Backup;
+  let schemaVersion: number;
+  const passphrase = process.env.BACKUP_PASSPHRASE;
+
+  const backupFile = (name: string) => path.join(server.dir, 'data', 'backups', name);
+
+  beforeAll(async () => {
+    server = await startTestServer('pos-backup-files-');
+    backup = await import('../../server/src/jobs/backup');
+    ({ SCHEMA_VERSION: schemaVersion } = await import('../../server/src/migrations'));
+    server.db.run("INSERT INTO products (id, sku, name_en, price_retail) VALUES (1, 'RICE-5', 'Rice 5kg', 1450)");
+  });
+
+  afterEach(() => {
+    process.env.BACKUP_PASSPHRASE = 'correct horse battery staple';
+  });
+
+  afterAll(async () => {
+    if (passphrase === undefined) delete process.env.BACKUP_PASSPHRASE;
+    else process.env.BACKUP_PASSPHRASE = passphrase;
+    await server.close();
+  });
+
+  it('should let the next backup run after one fails before it starts', async () => {
+    process.env.BACKUP_PASSPHRASE = 'correct horse battery staple';
+    vi.spyOn(fs, 'mkdirSync').mockImplementationOnce(() => {
+      throw Object.assign(new Error('EACCES: permission denied'), { code: 'EACCES' });
+    });
+
+    await expect(backup.createBackup()).rejects.toThrow('EACCES');
+    expect(backup.backupRunning()).toBe(false);
+    await expect(backup.createBackup()).resolves.toMatchObject({ schema_version: schemaVersion });
+  });
+
+  it('should refuse a backup with a changed byte, or under another passphrase', async () => {
+    const { file } = await backup.createBackup();
+    const tampered = fs.readFileSync(backupFile(file));
+    tampered[tampered.length - 40] ^= 0xff;
+    fs.writeFileSync(backupFile(file), tampered);
+
+    await expect(backup.restoreBackup(file)).rejects.toMatchObject({ code: 'CHECKSUM_MISMATCH' });
+
+    const intact = await backup.createBackup();
+    process.env.BACKUP_PASSPHRASE = 'wrong passphrase';
+    await expect(backup.restoreBackup(intact.file)).rejects.toMatchObject({ code: 'DECRYPT_FAILED' });
+    expect(fs.readdirSync(path.dirname(backupFile(file))).filter(f => f.startsWith('.'))).toEqual([]);
+  });
+
+  it('should refuse to restore a backup from a newer server', async () => {
+    server.db.run(`PRAGMA user_version = ${schemaVersion + 1}`);
+    try {
+      const { file } = await backup.createBackup();
+      await expect(backup.restoreBackup(file)).rejects.toMatchObject({ code: 'SCHEMA_TOO_NEW' });
+    } finally {
+      server.db.run(`PRAGMA user_version = ${schemaVersion}`);
+    }
+  });
+
+  it('should restore a backup in place of the live database, keeping the one it replaced', async () => {
+    const { file } = await backup.createBackup();
+    server.db.run("UPDATE products SET name_en = 'Changed after the backup' WHERE id = 1");
+
+    const result = await backup.restoreBackup(file);
+
+    const restored = new Database(path.join(server.dir, 'data', 'pos.db'), { readonly: true });
+    try {
+      expect(restored.prepare('SELECT name_en FROM products WHERE id = 1').get()).toEqual({ name_en: 'Rice 5kg' });
+      expect(restored.pragma('user_version', { simple: true })).toBe(schemaVersion);
+    } finally {
+      restored.close();
+    }
+    expect(result).toMatchObject({ file, schema_version: schemaVersion });
+    expect(fs.existsSync(result.previous!)).toBe(true);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { buildCheckoutSale } from '../services/checkoutService';
+import type { CartItem, CartTotals } from '../store/cartStore';
+
+function cartItem(overrides: Partial<CartItem>): CartItem {
+  return {
+    id: 'line',
+    product_id: 1,
+    name: 'Item',
+    sku: 'SKU',
+    qty: 1,
+    retail_price: 100,
+    wholesale_price: 100,
+    credit_price: 100,
+    other_price: 100,
+    current_price: 100,
+    line_total: 100,
+    tax_amount: 0,
+    tax_code: 'EXEMPT',
+    unit: 'pc',
+    ...overrides
+  };
+}
+
+const totals: CartTotals = {
+  gross: 1300,
+  item_discounts_total: 100,
+  manual_discount_amount: 120,
+  subtotal_after_discounts: 1080,
+  tax_total: 0,
+  tax_breakdown: [],
+  net_total: 1080
+};
+
+const cart = {
+  items: [
+    // A carton of 12 sold at 1200, 100 off the line
+    cartItem({
+      product_id: 5,
+      qty: 1,
+      current_price: 1200,
+      line_discount_value: 100,
+      uom: { code: 'CTN', name: 'Carton', conv_to_base: 12, price_override: null }
+    }),
+    cartItem({ product_id: 6, qty: 2, current_price: 50 })
+  ],
+  totals,
+  priceTier: 'Retail' as const,
+  customerId: 9
+};
+
+describe('Checkout Service', () => {
+  describe('buildCheckoutSale', () => {
+    it('should convert pack lines to base units and keep the pack', () => {
+      const { lines } = buildCheckoutSale(cart, [{ method: 'CASH', amount: 1080 }], { cashierId: 3 });
+
+      expect(lines[0]).toMatchObject({ product_id: 5, qty: 12, unit_price: 100, uom: 'CTN', uom_qty: 1 });
+      expect(lines[1]).toMatchObject({ product_id: 6, qty: 2, unit_price: 50 });
+      expect(lines[1].uom).toBeUndefined();
+    });
+
+    it('should stamp lines with the promotion that discounted them', () => {
+      const promoted = {
+        ...cart,
+        items: [
+          cart.items[0],
+          cartItem({
+            product_id: 6,
+            qty: 2,
+            current_price: 50,
+            applied_rules: [{ rule_id: 40, rule_name: 'Buy 1 get 1', discount_amount: 50, promotion_id: 4 }]
+          })
+        ]
+      };
+
+      const { lines } = buildCheckoutSale(promoted, [{ method: 'CASH', amount: 1080 }], { cashierId: 3 });
+
+      expect(lines[0].applied_promotion_id).toBeUndefined();
+      expect(lines[1].applied_promotion_id).toBe(4);
+    });
+
+    it('should spread the cart discount across lines so they add up to the sale', () => {
+      const { sale, lines } = buildCheckoutSale(cart, [{ method: 'CASH', amount: 1080 }], { cashierId: 3 });
+
+      // 120 split over line amounts of 1100 and 100
+      expect(lines[0].line_discount).toBe(210);
+      expect(lines[1].line_discount).toBe(10);
+      expect(lines.reduce((sum, line) => sum + line.total, 0)).toBe(1080);
+      expect(sale).toMatchObject({ gross: 1300, discount: 220, net: 1080, customer_id: 9, cashier_id: 3 });
+      expect(sale.invoice_number).toMatch(/^\d{14}$/);
+    });
+
+    it('should split payments into the sale columns and keep credit as a payment', () => {
+      const { sale, payments } = buildCheckoutSale(
+        cart,
+        [
+          { method: 'CASH', amount: 500 },
+          { method: 'CARD', amount: 0 },
+          { method: 'CREDIT', amount: 580 }
+        ],
+        { cashierId: 3, terminalName: 'POS-002', language: 'SI' }
+      );
+
+      expect(sale).toMatchObject({ pay_cash: 500, pay_card: 0, pay_wallet: 0, terminal_name: 'POS-002', language: 'SI' });
+      expect(payments).toEqual([
+        { method: 'CASH', amount: 500 },
+        { method: 'CREDIT', amount: 580 }
+      ]);
+    });
+  });
+});
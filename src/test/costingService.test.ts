@@ -0,0 +1,31 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { reportService } from '../services/reportService';
+import { db } from '../services/database';
+
+describe('Costing Service', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should work out gross margin from revenue and cost of goods sold', async () => {
+    const query = vi.spyOn(db, 'query').mockResolvedValue([
+      { key: 4, label: 'Samba Rice 5kg', qty: 10, revenue: 14000, cogs: 11500 },
+      { key: 9, label: 'Returned Kettle', qty: -1, revenue: -4500, cogs: -5000 },
+      { key: 12, label: 'Free Sample', qty: 2, revenue: 0, cogs: 80 }
+    ] as any);
+
+    const rows = await reportService.getGrossMargin({
+      from: new Date('2026-10-01T00:00:00'),
+      to: new Date('2026-10-19T23:59:59'),
+      groupBy: 'product'
+    });
+
+    const sql = query.mock.calls[0][0] as string;
+    expect(sql).toContain('COALESCE(sl.unit_cost, sp.cost, 0)');
+    expect(sql).toContain('FROM return_lines rl');
+    expect(rows[0]).toMatchObject({ key: '4', label: 'Samba Rice 5kg', qty: 10, revenue: 14000, cogs: 11500, margin: 2500 });
+    expect(rows[0].margin_pct).toBeCloseTo(17.857, 3);
+    expect(rows[1].margin).toBe(500);
+    expect(rows[2]).toMatchObject({ margin: -80, margin_pct: null });
+  });
+});
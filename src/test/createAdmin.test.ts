@@ -0,0 +1,32 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { TestServer, startTestServer } from './serverHarness';
+
+describe('First admin on a new server', () => {
+  let server: TestServer;
+  let createAdmin: typeof import('../../server/src/createAdmin')['createAdmin'];
+
+  beforeAll(async () => {
+    server = await startTestServer('pos-create-admin-');
+    ({ createAdmin } = await import('../../server/src/createAdmin'));
+  });
+
+  afterAll(() => server.close());
+
+  it('should add an admin who can sign in and manage users', async () => {
+    const id = createAdmin('Store Owner', '2468');
+
+    const token = await server.login('2468');
+    const { status, body } = await server.call(token, 'POST', '/users', { name: 'Cash', role: 'CASHIER', pin: '1234' });
+
+    expect(server.db.get('SELECT role, pin, pin_set FROM users WHERE id = ?', [id])).toEqual({ role: 'ADMIN', pin: null, pin_set: 1 });
+    expect(status).toBe(201);
+    expect(body.user.name).toBe('Cash');
+  });
+
+  it('should refuse once an active admin exists, or for a PIN that is not 4 to 6 digits', () => {
+    expect(() => createAdmin('Intruder', '9999')).toThrow(expect.objectContaining({ code: 'ADMIN_EXISTS' }));
+    expect(() => createAdmin('Owner', '12')).toThrow(expect.objectContaining({ code: 'INVALID_PIN' }));
+    expect(server.db.get<{ n: number }>("SELECT COUNT(*) AS n FROM users WHERE role = 'ADMIN'")!.n).toBe(1);
+  });
+});
@@ -0,0 +1,156 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { TestServer, startTestServer } from './serverHarness';
+
+describe('Customer credit on the server', () => {
+  let server: TestServer;
+  let manager: string;
+  let cashier: string;
+
+  const creditLimit = (id: number) =>
+    server.db.get<{ credit_limit: number }>('SELECT credit_limit FROM customers WHERE id = ?', [id])!.credit_limit;
+
+  beforeAll(async () => {
+    server = await startTestServer('pos-customer-credit-');
+    server.db.run("INSERT INTO users (name, role, pin) VALUES ('Mgr', 'MANAGER', '8888'), ('Cash', 'CASHIER', '1234')");
+    server.db.run("INSERT INTO customers (id, customer_name, credit_limit) VALUES (1, 'Nimal Perera', 5000)");
+    server.db.run("INSERT INTO products (id, sku, name_en, price_retail) VALUES (1, 'RICE-5', 'Rice 5kg', 1450)");
+    manager = await server.login('8888');
+    cashier = await server.login('1234');
+  });
+
+  afterAll(() => server.close());
+
+  const creditSale = (key: string, sale: Record<string, unknown>, amount = 1450, approval?: string) =>
+    server.call(
+      cashier,
+      'POST',
+      '/sales/sync',
+      {
+        sale: { type: 'SALE', net: amount, ...sale },
+        lines: [{ product_id: 1, qty: 1, unit_price: amount, total: amount }],
+        payments: [{ method: 'CREDIT', amount }],
+        approval
+      },
+      { 'Idempotency-Key': key }
+    );
+
+  // The manager's PIN entered at the cashier's terminal for an over-limit charge
+  const overLimitApproval = async (customerId: number, reference: string) => {
+    const { body } = await server.call(cashier, 'POST', '/auth/escalate', {
+      user_id: server.db.get<{ id: number }>("SELECT id FROM users WHERE name = 'Mgr'")!.id,
+      pin: '8888',
+      permission: 'CREDIT_LIMIT_OVERRIDE',
+      amount: 10000,
+      customer_id: customerId,
+      reference
+    });
+    return body.approval as string;
+  };
+
+  it('should let only CREDIT_LIMIT_OVERRIDE change a credit limit, over REST or the SQL bridge', async () => {
+    const patched = await server.call(cashier, 'PATCH', '/customers/1', { credit_limit: 1000000 });
+    const bridged = await server.call(cashier, 'POST', '/sql/execute', {
+      sql: 'UPDATE customers SET credit_limit = ? WHERE id = 1',
+      params: [1000000]
+    });
+    const created = await server.call(cashier, 'POST', '/customers', { customer_name: 'Kamal', credit_limit: 250000 });
+
+    for (const { status, body } of [patched, bridged, created]) {
+      expect(status).toBe(403);
+      expect(body.code).toBe('PERMISSION_REQUIRED');
+    }
+    expect(creditLimit(1)).toBe(5000);
+
+    const allowed = await server.call(manager, 'PATCH', '/customers/1', { credit_limit: 7500 });
+    expect(allowed.status).toBe(200);
+    expect(creditLimit(1)).toBe(7500);
+  });
+
+  it('should let cashiers edit the rest of a customer and add customers without a limit', async () => {
+    const renamed = await server.call(cashier, 'POST', '/sql/execute', {
+      sql: 'UPDATE customers SET customer_name = ?, credit_limit = credit_limit WHERE id = 1',
+      params: ['Nimal K. Perera']
+    });
+    const created = await server.call(cashier, 'POST', '/customers', { customer_name: 'Kamal', credit_limit: 0 });
+
+    expect(renamed.body.changes).toBe(1);
+    expect(created.status).toBe(201);
+  });
+
+  it('should refuse CREDIT payments on a sale without a customer or an invoice number', async () => {
+    const walkIn = await creditSale('credit-walk-in', { invoice_number: 'INV-0001' });
+    const unnumbered = await creditSale('credit-unnumbered', { customer_id: 1 });
+
+    for (const { status, body } of [walkIn, unnumbered]) {
+      expect(status).toBe(400);
+      expect(body.code).toBe('VALIDATION_ERROR');
+    }
+    expect(walkIn.body.details).toEqual([{ field: 'sale.customer_id', message: 'is required for CREDIT payments' }]);
+    expect(unnumbered.body.details).toEqual([{ field: 'sale.invoice_number', message: 'is required for CREDIT payments' }]);
+    expect(server.db.get<{ n: number }>('SELECT COUNT(*) AS n FROM sales')!.n).toBe(0);
+  });
+
+  it('should charge the account as the signed-in user, whoever the sale names as cashier', async () => {
+    const { status } = await creditSale('credit-ok', { customer_id: 1, invoice_number: 'INV-0002', cashier_id: 1 });
+
+    expect(status).toBe(201);
+    const cashierId = server.db.get<{ id: number }>("SELECT id FROM users WHERE name = 'Cash'")!.id;
+    expect(server.db.get('SELECT amount, created_by FROM customer_ledger WHERE customer_id = 1')).toEqual({
+      amount: 1450,
+      created_by: cashierId
+    });
+  });
+
+  it('should take a manager approval once, for the customer and sale it was given for', async () => {
+    const approval = await overLimitApproval(1, 'credit-over-limit');
+
+    const otherSale = await creditSale('credit-other', { customer_id: 1, invoice_number: 'INV-0003' }, 10000, approval);
+    const charged = await creditSale('credit-over-limit', { customer_id: 1, invoice_number: 'INV-0004' }, 10000, approval);
+    const replayed = await creditSale('credit-over-limit', { customer_id: 1, invoice_number: 'INV-0004' }, 10000, approval);
+
+    expect(otherSale.status).toBe(409);
+    expect(otherSale.body.code).toBe('CREDIT_LIMIT_EXCEEDED');
+    expect(charged.status).toBe(201);
+    expect(replayed.body.duplicate).toBe(true);
+    expect(server.db.get('SELECT approved_by FROM customer_ledger WHERE amount = 10000')).toEqual({
+      approved_by: server.db.get<{ id: number }>("SELECT id FROM users WHERE name = 'Mgr'")!.id
+    });
+  });
+
+  it('should refuse an approval a second time, or for another customer', async () => {
+    const other = Number(server.db.run("INSERT INTO customers (customer_name) VALUES ('Sunil Silva')").lastInsertRowid);
+    const approval = await overLimitApproval(1, 'ACC-7');
+    const charge = (customerId: number) =>
+      server.call(cashier, 'POST', `/customers/${customerId}/charges`, { amount: 10000, reference: 'ACC-7', approval });
+
+    const otherCustomer = await charge(other);
+    const first = await charge(1);
+    const again = await charge(1);
+
+    expect(otherCustomer.body.code).toBe('CREDIT_LIMIT_EXCEEDED');
+    expect(first.status).toBe(201);
+    expect(again.status).toBe(409);
+    expect(again.body.code).toBe('APPROVAL_USED');
+  });
+
+  it('should keep the account balance from charges and payments, with a receipt for each payment', async () => {
+    const id = Number(server.db.run("INSERT INTO customers (customer_name, credit_limit) VALUES ('Ruwan Fernando', 3000)").lastInsertRowid);
+
+    const charged = await server.call(cashier, 'POST', `/customers/${id}/charges`, { amount: 1000, reference: 'ACC-8' });
+    const overLimit = await server.call(cashier, 'POST', `/customers/${id}/charges`, { amount: 2500, reference: 'ACC-9' });
+    const paid = await server.call(cashier, 'POST', `/customers/${id}/payments`, { amount: 400, method: 'CASH' });
+    const { body } = await server.call(cashier, 'GET', `/customers/${id}/ledger`);
+    const aged = await server.call(manager, 'GET', '/customers/aged-receivables');
+
+    expect(charged.body.account).toMatchObject({ balance: 1000, available: 2000 });
+    expect(overLimit.status).toBe(409);
+    expect(overLimit.body.details).toMatchObject({ balance: 1000, available: 2000 });
+    expect(paid.body.receipt).toMatchObject({ amount: 400, method: 'CASH', balance_before: 1000, balance_after: 600 });
+    expect(body.entries.map((e: any) => [e.type, e.amount, e.running_balance])).toEqual([
+      ['CHARGE', 1000, 1000],
+      ['PAYMENT', -400, 600]
+    ]);
+    expect(aged.body.rows.find((row: any) => row.customer_id === id)).toMatchObject({ days_0_30: 600, balance: 600 });
+  });
+});
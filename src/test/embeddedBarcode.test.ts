@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EmbeddedBarcodeError,
+  ean13CheckDigit,
+  getEmbeddedBarcodeSettings,
+  parseEmbeddedBarcode,
+  priceCheckDigit4,
+  priceCheckDigit5,
+  validateScheme
+} from '@/lib/embeddedBarcode';
+import { AppSettings, EmbeddedBarcodeSettings } from '@/types';
+
+const devices = (overrides: Partial<AppSettings['devices']>): AppSettings['devices'] => ({
+  receiptPaper: '80mm',
+  cashDrawerOpenOnCash: true,
+  barcodeInputMode: 'keyboard_wedge',
+  scaleMode: 'weight_embedded',
+  ...overrides
+});
+
+const store: EmbeddedBarcodeSettings = {
+  validateCheckDigit: true,
+  schemes: [
+    { prefix: '21', itemCodeLength: 5, kind: 'weight', decimals: 3, valueCheckDigit: false },
+    { prefix: '22', itemCodeLength: 4, kind: 'price', decimals: 2, valueCheckDigit: true },
+    { prefix: '23', itemCodeLength: 5, kind: 'price', decimals: 2, valueCheckDigit: true }
+  ]
+};
+
+describe('embedded barcode check digits', () => {
+  it('should compute EAN-13 and GS1 price check digits', () => {
+    expect(ean13CheckDigit('400638133393')).toBe(1);
+    expect(priceCheckDigit4('2875')).toBe(9);
+    expect(priceCheckDigit5('14685')).toBe(6);
+  });
+});
+
+describe('parseEmbeddedBarcode', () => {
+  it('should read weight labels by prefix', () => {
+    expect(parseEmbeddedBarcode('2112345015002', store)).toMatchObject({ itemCode: '12345', weightKg: 1.5 });
+  });
+
+  it('should read price labels with 5 and 4 digit value check digits', () => {
+    expect(parseEmbeddedBarcode('2212346146856', store)).toMatchObject({ itemCode: '1234', price: 146.85 });
+    expect(parseEmbeddedBarcode('2300042928750', store)).toMatchObject({ itemCode: '00042', price: 28.75 });
+  });
+
+  it('should reject labels with a wrong EAN or value check digit', () => {
+    expect(() => parseEmbeddedBarcode('2112345015003', store)).toThrow(EmbeddedBarcodeError);
+    try {
+      parseEmbeddedBarcode('2212345146857', store);
+      expect.unreachable();
+    } catch (error) {
+      expect((error as EmbeddedBarcodeError).code).toBe('VALUE_CHECK_DIGIT');
+    }
+    expect(parseEmbeddedBarcode('2112345015003', { ...store, validateCheckDigit: false })).toMatchObject({ weightKg: 1.5 });
+  });
+
+  it('should leave codes no scheme claims alone', () => {
+    expect(parseEmbeddedBarcode('4006381333931', store)).toBeNull();
+    expect(parseEmbeddedBarcode('211234501500', store)).toBeNull();
+  });
+
+  it('should follow scaleMode when the store has no schemes of its own', () => {
+    expect(getEmbeddedBarcodeSettings(devices({ scaleMode: 'off', embeddedBarcodes: store })).schemes).toEqual([]);
+    expect(parseEmbeddedBarcode('2512345015000', getEmbeddedBarcodeSettings(devices({})))).toMatchObject({ weightKg: 1.5 });
+    expect(parseEmbeddedBarcode('2512345015000', getEmbeddedBarcodeSettings(devices({ scaleMode: 'price_embedded' }))))
+      .toMatchObject({ price: 15 });
+  });
+
+  it('should flag schemes that do not fit an EAN-13', () => {
+    expect(validateScheme({ prefix: '2', itemCodeLength: 8, kind: 'weight', decimals: 3, valueCheckDigit: false })).toMatch(/fewer than 4/);
+    expect(validateScheme({ prefix: '2', itemCodeLength: 4, kind: 'price', decimals: 2, valueCheckDigit: true })).toMatch(/4 or 5 digit/);
+    expect(validateScheme({ prefix: '29-20', itemCodeLength: 5, kind: 'price', decimals: 2, valueCheckDigit: false })).toMatch(/Prefix/);
+  });
+});
@@ -0,0 +1,60 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { TestServer, startTestServer } from './serverHarness';
+
+describe('Manager escalation on the server', () => {
+  let server: TestServer;
+  let cashier: string;
+  let managerId: number;
+  let deputyId: number;
+
+  const escalate = (token: string | null, userId: number, pin: string) =>
+    server.call(token, 'POST', '/auth/escalate', { user_id: userId, pin, role: 'MANAGER' });
+
+  beforeAll(async () => {
+    server = await startTestServer('pos-escalation-');
+    server.db.run(
+      "INSERT INTO users (name, role, pin) VALUES ('Mgr', 'MANAGER', '8888'), ('Deputy', 'MANAGER', '7777'), ('Cash', 'CASHIER', '1234')"
+    );
+    managerId = server.db.get<{ id: number }>("SELECT id FROM users WHERE name = 'Mgr'")!.id;
+    deputyId = server.db.get<{ id: number }>("SELECT id FROM users WHERE name = 'Deputy'")!.id;
+    cashier = await server.login('1234');
+  });
+
+  afterAll(() => server.close());
+
+  it('should need a signed-in terminal', async () => {
+    const { status, body } = await escalate(null, managerId, '8888');
+
+    expect(status).toBe(401);
+    expect(body.code).toBe('SESSION_REQUIRED');
+  });
+
+  it('should list who can approve, and check only the chosen approver\'s PIN', async () => {
+    const listed = await server.call(cashier, 'GET', '/auth/approvers?role=MANAGER');
+    const otherPin = await escalate(cashier, managerId, '7777');
+    const approved = await escalate(cashier, managerId, '8888');
+
+    expect(listed.body.approvers).toEqual([
+      { id: deputyId, name: 'Deputy', role: 'MANAGER' },
+      { id: managerId, name: 'Mgr', role: 'MANAGER' }
+    ]);
+    expect(otherPin.status).toBe(401);
+    expect(otherPin.body.code).toBe('INVALID_PIN');
+    expect(approved.status).toBe(200);
+    expect(approved.body.user).toMatchObject({ id: managerId, name: 'Mgr' });
+  });
+
+  it('should lock the approver out after too many wrong PINs, from any terminal', async () => {
+    for (let i = 0; i < 5; i++) await escalate(cashier, deputyId, '0000');
+    // Another terminal's address has no failures of its own
+    server.db.run("DELETE FROM pin_lockouts WHERE source NOT LIKE 'user:%'");
+
+    const locked = await escalate(cashier, deputyId, '7777');
+    const others = await escalate(cashier, managerId, '8888');
+
+    expect(locked.status).toBe(429);
+    expect(locked.body.code).toBe('PIN_LOCKED');
+    expect(others.status).toBe(200);
+  });
+});
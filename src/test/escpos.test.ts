@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { EscPosEncoder, TextRasterizer, encodeText, padColumns } from '../lib/escpos';
+import { Thermal58Adapter } from '../adapters/receipt/Thermal58Adapter';
+import { Thermal80Adapter } from '../adapters/receipt/Thermal80Adapter';
+import { CaptureTransport } from '../adapters/receipt/EscPosTransport';
+import { ReceiptPayload } from '../types/receipt';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+function indexOf(haystack: Uint8Array, needle: number[]): number {
+  outer: for (let i = 0; i <= haystack.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+function payload(overrides: Partial<ReceiptPayload['invoice']> = {}, options: Partial<ReceiptPayload['options']> = {}): ReceiptPayload {
+  return {
+    store: { name: 'Lanka Mart', address: '12 Galle Rd, Colombo' },
+    terminalName: 'T1',
+    invoice: {
+      id: 'INV-000123',
+      datetime: '2026-10-19T09:30:00.000Z',
+      language: 'EN',
+      priceTier: 'Retail',
+      items: [
+        { sku: 'RICE5', name_en: 'Samba Rice 5kg', name_si: 'සම්බා සහල් 5kg', unit: 'pc', qty: 2, unitPrice: 1450, lineDiscount: 0, tax: 0, total: 2900 }
+      ],
+      totals: { gross: 2900, discount: 0, tax: 0, net: 2900 },
+      payments: { cash: 3000, card: 0, wallet: 0, change: 100 },
+      ...overrides
+    },
+    options: {
+      paper: '58mm',
+      roundingMode: 'NEAREST_1',
+      footerText: {},
+      showBarcode: true,
+      showQRCode: true,
+      openCashDrawerOnCash: true,
+      ...options
+    }
+  };
+}
+
+describe('ESC/POS encoder', () => {
+  it('should encode styles, barcode, QR, cut and drawer kick as their commands', () => {
+    const bytes = new EscPosEncoder({ columns: 32, widthDots: 384 })
+      .initialize()
+      .align('center')
+      .bold()
+      .size(2)
+      .line('Hi')
+      .barcode('INV1', { height: 50 })
+      .qrcode('INV1')
+      .cut()
+      .pulse()
+      .encode();
+
+    expect(Array.from(bytes.slice(0, 5))).toEqual([ESC, 0x40, ESC, 0x74, 16]);
+    expect(indexOf(bytes, [ESC, 0x61, 1, ESC, 0x45, 1, GS, 0x21, 0x11, ...ascii('Hi'), 0x0a])).toBe(5);
+    expect(indexOf(bytes, [GS, 0x68, 50])).toBeGreaterThan(0);
+    expect(indexOf(bytes, [GS, 0x6b, 73, 6, ...ascii('{BINV1')])).toBeGreaterThan(0);
+    expect(indexOf(bytes, [GS, 0x28, 0x6b, 7, 0, 0x31, 0x50, 0x30, ...ascii('INV1')])).toBeGreaterThan(0);
+    expect(Array.from(bytes.slice(-9))).toEqual([GS, 0x56, 66, 3, ESC, 0x70, 0, 25, 250]);
+  });
+
+  it('should map text to WPC1252 and pad label/amount rows to the paper width', () => {
+    expect(encodeText('Café €5')).toEqual([...ascii('Caf'), 0xe9, 0x20, 0x80, 0x35]);
+    expect(encodeText('✓')).toEqual([0x3f]);
+    expect(padColumns('Net:', 'Rs.2,900.00', 20)).toBe('Net:     Rs.2,900.00');
+    expect(padColumns('A very long item name', '10', 12)).toBe('A very lo 10');
+  });
+
+  it('should send Sinhala and Tamil lines as raster images', () => {
+    const calls: Array<[string, string | undefined]> = [];
+    const rasterize: TextRasterizer = (left, right, options) => {
+      calls.push([left, right]);
+      return { width: options.widthDots, height: 2, data: new Uint8Array((options.widthDots / 8) * 2).fill(0xff) };
+    };
+
+    const bytes = new EscPosEncoder({ columns: 32, widthDots: 384, rasterize })
+      .line('සම්බා සහල්')
+      .row('மொத்தம்:', 'Rs.10.00')
+      .line('Rice')
+      .encode();
+
+    expect(calls).toEqual([['සම්බා සහල්', undefined], ['மொத்தம்:', 'Rs.10.00']]);
+    expect(Array.from(bytes.slice(0, 8))).toEqual([GS, 0x76, 0x30, 0, 48, 0, 2, 0]);
+    expect(Array.from(bytes.slice(-5))).toEqual([...ascii('Rice'), 0x0a]);
+  });
+});
+
+describe('Thermal adapters over ESC/POS', () => {
+  it('should print a cash sale as one job ending in a cut and drawer kick', async () => {
+    const capture = new CaptureTransport();
+    await new Thermal58Adapter(capture, null).print(payload());
+
+    expect(capture.jobs).toHaveLength(1);
+    const job = capture.last!;
+    expect(indexOf(job, ascii('Lanka Mart'))).toBeGreaterThan(0);
+    expect(indexOf(job, ascii(padColumns('  2pc x Rs.1,450.00', 'Rs.2,900.00', 32)))).toBeGreaterThan(0);
+    expect(indexOf(job, ascii(padColumns('Change:', 'Rs.100.00', 32)))).toBeGreaterThan(0);
+    expect(indexOf(job, [GS, 0x6b, 73, 12, ...ascii('{BINV-000123')])).toBeGreaterThan(0);
+    expect(Array.from(job.slice(-9))).toEqual([GS, 0x56, 66, 3, ESC, 0x70, 0, 25, 250]);
+  });
+
+  it('should skip the drawer kick for card sales and use the 80mm line width', async () => {
+    const capture = new CaptureTransport();
+    await new Thermal80Adapter(capture, null).print(
+      payload({ payments: { cash: 0, card: 2900, wallet: 0, change: 0 } }, { paper: '80mm', showBarcode: false, showQRCode: false })
+    );
+
+    const job = capture.last!;
+    expect(indexOf(job, ascii('-'.repeat(48)))).toBeGreaterThan(0);
+    expect(indexOf(job, [GS, 0x6b])).toBe(-1);
+    expect(indexOf(job, [ESC, 0x70])).toBe(-1);
+    expect(Array.from(job.slice(-4))).toEqual([GS, 0x56, 66, 3]);
+  });
+});
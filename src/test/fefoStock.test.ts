@@ -0,0 +1,135 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { TestServer, startTestServer } from './serverHarness';
+
+describe('Batch stock on the server', () => {
+  let server: TestServer;
+  let cashier: string;
+  let manager: string;
+
+  const onHand = () =>
+    Object.fromEntries(
+      server.db.query<{ batch_code: string; qty_on_hand: number }>('SELECT batch_code, qty_on_hand FROM batches ORDER BY id')
+        .map(b => [b.batch_code, b.qty_on_hand])
+    );
+
+  const sync = (key: string, sale: Record<string, unknown>, qty: number) =>
+    server.call(
+      cashier,
+      'POST',
+      '/sales/sync',
+      {
+        sale: { terminal_name: 'POS-001', net: qty * 100, ...sale },
+        lines: [{ product_id: 1, qty, unit_price: 100, total: qty * 100 }],
+        payments: [{ method: 'CASH', amount: Math.abs(qty * 100) }]
+      },
+      { 'Idempotency-Key': key }
+    );
+
+  beforeAll(async () => {
+    server = await startTestServer('pos-fefo-');
+    server.db.run("INSERT INTO users (name, role, pin) VALUES ('Cash', 'CASHIER', '1234'), ('Mgr', 'MANAGER', '8888')");
+    server.db.run("INSERT INTO stores (id, name, code) VALUES (2, 'Branch', 'BR')");
+    server.db.run("INSERT INTO terminals (store_id, name) VALUES (1, 'POS-001')");
+    server.db.run("INSERT INTO products (id, sku, name_en, price_retail) VALUES (1, 'MILK-1', 'Milk 1L', 100)");
+    server.db.run("INSERT INTO grn (id, supplier_id, grn_no, status, store_id) VALUES (1, 1, 'GRN-1', 'POSTED', 1), (2, 1, 'GRN-2', 'POSTED', 2)");
+    server.db.run(
+      `INSERT INTO batches (product_id, batch_code, expiry, qty_on_hand, cost, grn_id) VALUES
+         (1, 'EXPIRED', date('now', '-1 day'), 2, 60, 1),
+         (1, 'SOON', date('now', '+10 days'), 3, 60, 1),
+         (1, 'UNDATED', NULL, 5, 60, 1),
+         (1, 'BRANCH', date('now', '+1 day'), 10, 60, 2)`
+    );
+    cashier = await server.login('1234');
+    manager = await server.login('8888');
+  });
+
+  afterAll(() => server.close());
+
+  it("should take a sale out of its store's batches, earliest expiry first and undated last", async () => {
+    const { status } = await sync('fefo-sale', { invoice_number: 'INV-1' }, 4);
+
+    expect(status).toBe(201);
+    // Expired stock is still on hand until it is written off, so it goes first
+    expect(onHand()).toEqual({ EXPIRED: 0, SOON: 1, UNDATED: 5, BRANCH: 10 });
+    expect(server.db.query('SELECT qty, reason FROM stock_movements ORDER BY id')).toEqual([
+      { qty: -2, reason: 'SALE' },
+      { qty: -2, reason: 'SALE' }
+    ]);
+  });
+
+  it('should leave what the batches cannot cover unallocated, without going negative', async () => {
+    const { status, body } = await sync('fefo-short', { invoice_number: 'INV-2' }, 20);
+
+    expect(status).toBe(201);
+    expect(onHand()).toEqual({ EXPIRED: 0, SOON: 0, UNDATED: 0, BRANCH: 10 });
+    expect(
+      server.db.get(
+        'SELECT SUM(slb.qty) AS qty FROM sale_line_batches slb JOIN sale_lines sl ON sl.id = slb.sale_line_id WHERE sl.sale_id = ?',
+        [body.sale.id]
+      )
+    ).toEqual({ qty: 6 });
+  });
+
+  it('should put a refund back into the batches its sale drew on, never more than the sale took', async () => {
+    const saleId = server.db.get<{ id: number }>("SELECT id FROM sales WHERE invoice_number = 'INV-1'")!.id;
+
+    const partial = await sync('fefo-refund-1', { type: 'REFUND', original_sale_id: saleId }, -3);
+    const rest = await sync('fefo-refund-2', { type: 'REFUND', original_sale_id: saleId }, -3);
+
+    expect(partial.status).toBe(201);
+    expect(rest.status).toBe(201);
+    // Most recently used batch first: SOON gave 2, then EXPIRED the other 2
+    expect(onHand()).toEqual({ EXPIRED: 2, SOON: 2, UNDATED: 0, BRANCH: 10 });
+    expect(server.db.get("SELECT SUM(qty) AS qty FROM stock_movements WHERE reason = 'RETURN'")).toEqual({ qty: 4 });
+  });
+
+  it('should refuse an original sale on anything but a refund of a recorded sale', async () => {
+    const onSale = await sync('fefo-bad-1', { invoice_number: 'INV-3', original_sale_id: 1 }, 1);
+    const unknown = await sync('fefo-bad-2', { type: 'REFUND', original_sale_id: 999 }, -1);
+
+    expect(onSale.body.details).toEqual([{ field: 'sale.original_sale_id', message: 'is only for refunds' }]);
+    expect(unknown.body.details).toEqual([{ field: 'sale.original_sale_id', message: 'must be a recorded sale' }]);
+  });
+
+  it('should not let terminals rewrite which batches a sale used', async () => {
+    const { status, body } = await server.call(cashier, 'POST', '/sql/execute', {
+      sql: 'UPDATE sale_line_batches SET qty_returned = 0'
+    });
+
+    expect(status).toBe(403);
+    expect(body.code).toBe('STATEMENT_NOT_ALLOWED');
+  });
+
+  it("should list a store's batches in stock that expire within the window, expired ones included", async () => {
+    const main = await server.call(manager, 'GET', '/batches/near-expiry?store_id=1');
+    const branch = await server.call(manager, 'GET', '/batches/near-expiry?days=0&store_id=2');
+
+    expect(main.body.days).toBe(14);
+    expect(main.body.batches.map((b: any) => [b.batch_code, b.qty_on_hand, b.days_to_expiry])).toEqual([
+      ['EXPIRED', 2, -1],
+      ['SOON', 2, 10]
+    ]);
+    expect(branch.body.batches).toEqual([]);
+  });
+
+  it('should mark one batch of a product down until it expires, and take the markdown off again', async () => {
+    const soon = await server.call(manager, 'POST', '/batches/2/markdown', { percent: 20 });
+    const expired = await server.call(manager, 'POST', '/batches/1/markdown', { percent: 30 });
+    const branch = await server.call(manager, 'POST', '/batches/4/markdown', { percent: 30 });
+    const rule = server.db.get<Record<string, any>>('SELECT * FROM discount_rules WHERE id = ?', [soon.body.batch.markdown_rule_id])!;
+
+    expect(soon.status).toBe(200);
+    expect(soon.body.batch).toMatchObject({ batch_code: 'SOON', markdown_pct: 20 });
+    expect(rule).toMatchObject({ applies_to: 'PRODUCT', target_id: 1, type: 'PERCENT', value: 20, active: 1 });
+    expect(rule.active_to.slice(0, 10)).toBe(server.db.get<{ expiry: string }>('SELECT expiry FROM batches WHERE id = 2')!.expiry);
+    expect(expired.body.code).toBe('BATCH_NOT_MARKABLE');
+    expect(branch.body.code).toBe('MARKDOWN_EXISTS');
+
+    const removed = await server.call(manager, 'DELETE', '/batches/2/markdown');
+
+    expect(removed.status).toBe(200);
+    expect(server.db.get('SELECT active FROM discount_rules WHERE id = ?', [rule.id])).toEqual({ active: 0 });
+    expect(server.db.get('SELECT markdown_rule_id FROM batches WHERE id = 2')).toEqual({ markdown_rule_id: null });
+  });
+});
@@ -0,0 +1,146 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { TestServer, startTestServer } from './serverHarness';
+
+describe('GRN receiving on the server', () => {
+  let server: TestServer;
+  let manager: string;
+  let poId: number;
+  let lineReceiptStatus: typeof import('../../server/src/routes/purchaseOrders')['lineReceiptStatus'];
+
+  // A GRN keyed in at the terminal, still OPEN; lines are [product_id, qty, unit_cost]
+  const openGrn = (grnNo: string, lines: Array<[number, number, number]>, header: Record<string, unknown> = {}) => {
+    const grn = server.db.run(
+      "INSERT INTO grn (supplier_id, grn_no, status, store_id, po_id, other) VALUES (1, ?, 'OPEN', 1, ?, ?)",
+      [grnNo, header.po_id ?? null, header.other ?? 0]
+    );
+    const id = Number(grn.lastInsertRowid);
+    lines.forEach(([productId, qty, unitCost]) =>
+      server.db.run(
+        'INSERT INTO grn_lines (grn_id, product_id, qty, unit_cost, line_total, batch_no) VALUES (?, ?, ?, ?, ?, ?)',
+        [id, productId, qty, unitCost, qty * unitCost, `${grnNo}-${productId}`]
+      )
+    );
+    return id;
+  };
+
+  const post = (id: number, body: Record<string, unknown> = {}) => server.call(manager, 'POST', `/grn/${id}/post`, body);
+
+  const productCost = (id: number) => server.db.get<{ cost: number }>('SELECT cost FROM products WHERE id = ?', [id])!.cost;
+
+  const poStatus = () => server.db.get<{ status: string }>('SELECT status FROM purchase_orders WHERE id = ?', [poId])!.status;
+
+  beforeAll(async () => {
+    server = await startTestServer('pos-grn-receiving-');
+    server.db.run("INSERT INTO users (name, role, pin) VALUES ('Mgr', 'MANAGER', '8888')");
+    server.db.run("INSERT INTO suppliers (id, supplier_name) VALUES (1, 'Lanka Foods')");
+    server.db.run(
+      `INSERT INTO products (id, sku, name_en, price_retail, cost) VALUES
+         (1, 'RICE-5', 'Rice 5kg', 1450, 1000),
+         (2, 'DHAL-1', 'Dhal 1kg', 450, 300),
+         (3, 'SUGAR-1', 'Sugar 1kg', 320, 250)`
+    );
+    manager = await server.login('8888');
+    ({ lineReceiptStatus } = await import('../../server/src/routes/purchaseOrders'));
+
+    const { body } = await server.call(manager, 'POST', '/purchase-orders', {
+      supplier_id: 1,
+      tolerance_pct: 5,
+      lines: [
+        { product_id: 1, qty: 10, unit_cost: 1000 },
+        { product_id: 2, qty: 20, unit_cost: 300 }
+      ]
+    });
+    poId = body.purchase_order.id;
+  });
+
+  afterAll(() => server.close());
+
+  it('should treat quantities within tolerance as complete and beyond it as over', () => {
+    expect(lineReceiptStatus(100, 0, 5)).toBe('PENDING');
+    expect(lineReceiptStatus(100, 60, 5)).toBe('PARTIAL');
+    expect(lineReceiptStatus(100, 95, 5)).toBe('COMPLETE');
+    expect(lineReceiptStatus(100, 105, 5)).toBe('COMPLETE');
+    expect(lineReceiptStatus(100, 105.5, 5)).toBe('OVER');
+    expect(lineReceiptStatus(12, 11, 0)).toBe('PARTIAL');
+    expect(lineReceiptStatus(0.3, 0.1 + 0.2, 0)).toBe('COMPLETE');
+  });
+
+  it("should post a partial receipt into a batch, the store's stock and the product cost", async () => {
+    const id = openGrn('GRN-1', [[1, 6, 1100]], { po_id: poId });
+
+    const { status } = await post(id);
+
+    expect(status).toBe(200);
+    expect(server.db.query('SELECT product_id, batch_code, qty_on_hand, cost, grn_id FROM batches')).toEqual([
+      { product_id: 1, batch_code: 'GRN-1-1', qty_on_hand: 6, cost: 1100, grn_id: id }
+    ]);
+    expect(server.db.query('SELECT product_id, qty, type, reason, store_id, unit_cost FROM inventory_movements')).toEqual([
+      { product_id: 1, qty: 6, type: 'RECEIVE', reason: 'GRN', store_id: 1, unit_cost: 1100 }
+    ]);
+    expect(server.db.query('SELECT product_id, qty, reason FROM stock_movements')).toEqual([
+      { product_id: 1, qty: 6, reason: 'GRN' }
+    ]);
+    expect(productCost(1)).toBe(1100);
+    expect(server.db.query('SELECT product_id, old_cost, new_cost FROM cost_history')).toEqual([
+      { product_id: 1, old_cost: 1000, new_cost: 1100 }
+    ]);
+    expect(poStatus()).toBe('PARTIAL');
+  });
+
+  it("should refuse a receipt beyond the order's tolerance or of a product not ordered, and write nothing", async () => {
+    // 6 already received + 5 is 11 against 10 ordered, over the 5% tolerance
+    const id = openGrn('GRN-2', [[1, 5, 1100], [3, 2, 250]], { po_id: poId });
+
+    const { status, body } = await post(id);
+
+    expect(status).toBe(409);
+    expect(body.code).toBe('RECEIPT_OUTSIDE_TOLERANCE');
+    expect(body.details).toEqual([
+      expect.objectContaining({ product_id: 1, qty_received_after: 11, receipt_status: 'OVER' }),
+      expect.objectContaining({ product_id: 3, receipt_status: 'NOT_ORDERED' })
+    ]);
+    expect(server.db.get('SELECT status FROM grn WHERE id = ?', [id])).toEqual({ status: 'OPEN' });
+    expect(server.db.get('SELECT COUNT(*) AS n FROM batches')).toEqual({ n: 1 });
+    expect(server.db.get('SELECT SUM(qty) AS qty FROM inventory_movements WHERE product_id = 1')).toEqual({ qty: 6 });
+  });
+
+  it('should land freight by value, average the product costs and close the order once everything is in', async () => {
+    // 4 000 and 6 000 of goods take 200 and 300 of the 500 freight
+    const id = openGrn('GRN-3', [[1, 4, 1000], [2, 20, 300]], { po_id: poId, other: 500 });
+
+    const { status, body } = await post(id, { update_cost_policy: 'average' });
+
+    expect(status).toBe(200);
+    expect(body.lines.map((line: any) => line.landed_cost)).toEqual([200, 300]);
+    expect(server.db.query('SELECT product_id, qty_on_hand, cost FROM batches WHERE grn_id = ? ORDER BY id', [id])).toEqual([
+      { product_id: 1, qty_on_hand: 4, cost: 1050 },
+      { product_id: 2, qty_on_hand: 20, cost: 315 }
+    ]);
+    // The mean of the old cost and the landed cost of this receipt
+    expect(productCost(1)).toBe(1075);
+    expect(productCost(2)).toBe(307.5);
+    expect(server.db.get('SELECT subtotal, other, total, landed_cost_method FROM grn WHERE id = ?', [id])).toEqual({
+      subtotal: 10000,
+      other: 500,
+      total: 10500,
+      landed_cost_method: 'value'
+    });
+    expect(poStatus()).toBe('CLOSED');
+  });
+
+  it('should land charges by quantity when asked, keep product costs under the none policy and post only once', async () => {
+    const id = openGrn('GRN-4', [[1, 2, 1000], [2, 8, 300]], { other: 100 });
+
+    const first = await post(id, { update_cost_policy: 'none', landed_cost_method: 'qty' });
+    const again = await post(id);
+
+    expect(first.status).toBe(200);
+    expect(server.db.query('SELECT cost FROM batches WHERE grn_id = ? ORDER BY id', [id])).toEqual([{ cost: 1010 }, { cost: 310 }]);
+    expect([productCost(1), productCost(2)]).toEqual([1075, 307.5]);
+    expect(server.db.get('SELECT COUNT(*) AS n FROM cost_history')).toEqual({ n: 3 });
+    expect(again.status).toBe(409);
+    expect(again.body.code).toBe('GRN_NOT_OPEN');
+    expect(server.db.get('SELECT SUM(qty_on_hand) AS qty FROM batches WHERE grn_id = ?', [id])).toEqual({ qty: 10 });
+  });
+});
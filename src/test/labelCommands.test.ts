@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { labelService } from '@/services/labelService';
+import { labelPrintAdapter } from '@/services/print/LabelPrintAdapter';
+import { renderTspl, renderZpl } from '@/services/print/labelCommands';
+import { LabelItem, LabelPreset } from '@/types';
+
+const item: LabelItem = {
+  id: 'item-1',
+  sku: 'RICE-SAMBA-5',
+  name_en: 'Samba Rice 5kg',
+  name_si: 'සම්බා සහල් 5kg',
+  name_ta: 'சம்பா அரிசி 5kg',
+  category: 'Rice & Grains',
+  barcode: '4792081012345',
+  unit: 'pc',
+  price_retail: 1450,
+  price_wholesale: 1380,
+  price_credit: 1500,
+  price_other: 1450,
+  qty: 3,
+  price_tier: 'retail',
+  language: 'EN',
+  packedDate: '2026-10-01',
+  expiryDate: '2027-04-01',
+  mrp: 1550,
+  batchNo: 'B2610-07'
+};
+
+const withAllFields = (preset: LabelPreset): LabelPreset => ({
+  ...preset,
+  fields: { ...preset.fields, showMRP: true, showBatch: true, showPackedDate: true, showExpiryDate: true }
+});
+
+describe('Thermal label commands', async () => {
+  const presets = (await labelService.listPresets()).filter(preset => preset.paper === 'THERMAL');
+
+  it('should cover every built-in thermal preset', () => {
+    expect(presets.map(preset => preset.id)).toEqual(['product-50x30', 'shelf-70x38']);
+  });
+
+  for (const preset of presets) {
+    for (const dpi of [203, 300] as const) {
+      it(`should match the golden ZPL and TSPL for ${preset.id} at ${dpi} dpi`, async () => {
+        const batch = { preset, items: [item] };
+        await expect(labelPrintAdapter.renderCommands(batch, 'ZPL', { dpi }))
+          .toMatchFileSnapshot(`./golden/labels/${preset.id}.${dpi}dpi.zpl`);
+        await expect(labelPrintAdapter.renderCommands(batch, 'TSPL', { dpi }))
+          .toMatchFileSnapshot(`./golden/labels/${preset.id}.${dpi}dpi.tspl`);
+      });
+    }
+
+    it(`should match the golden output for ${preset.id} with MRP, batch and dates`, async () => {
+      const batch = { preset: withAllFields(preset), items: [item] };
+      await expect(labelPrintAdapter.renderCommands(batch, 'ZPL', { dpi: 203 }))
+        .toMatchFileSnapshot(`./golden/labels/${preset.id}.all-fields.zpl`);
+      await expect(labelPrintAdapter.renderCommands(batch, 'TSPL', { dpi: 203 }))
+        .toMatchFileSnapshot(`./golden/labels/${preset.id}.all-fields.tspl`);
+    });
+  }
+
+  it('should follow sectionOrder, escape command characters and fall back to CODE128', () => {
+    const [product] = presets;
+    const input = {
+      preset: { ...product, style: { ...product.style, sectionOrder: ['price', 'name', 'barcode'] as LabelPreset['style']['sectionOrder'] } },
+      values: { line1: 'Tea ^100g~ "Gold"', price: 'Rs 450.00' },
+      barcode: 'TEA-100',
+      copies: 2,
+      dpi: 203 as const
+    };
+
+    const zpl = renderZpl(input);
+    expect(zpl.indexOf('Rs 450.00')).toBeLessThan(zpl.indexOf('Tea'));
+    expect(zpl).toContain('^FDTea _5E100g_7E "Gold"^FS');
+    expect(zpl).toContain('^BCN,80,Y,N,N^FDTEA-100^FS');
+    expect(zpl).toContain('^PQ2');
+
+    const tspl = renderTspl(input);
+    expect(tspl).toContain('"Tea ^100g~ \\["]Gold\\["]"');
+    expect(tspl).toContain('"128",80,1,0,');
+    expect(tspl.trimEnd().endsWith('PRINT 1,2')).toBe(true);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AllocatableLine,
+  allocateLandedCost,
+  landedUnitCost,
+  lineWeight,
+  marginImpact,
+  nextProductCost
+} from '@/lib/landedCost';
+
+// 10 rice bags at 100, a case of 24 juice at 720, 2.5 kg of loose dhal at 400
+const rice: AllocatableLine = { qty: 10, unit_cost: 100, weight_kg: 50 };
+const juice: AllocatableLine = { qty: 1, unit_cost: 720, conv_to_base: 24, weight_kg: 30 };
+const dhal: AllocatableLine = { qty: 2.5, unit_cost: 400, unit: 'kg' };
+
+describe('landed cost', () => {
+  it('should spread charges by line value', () => {
+    expect(allocateLandedCost([rice, juice, dhal], 272, 'value')).toEqual([100, 72, 100]);
+  });
+
+  it('should spread charges by weight, weighing kg lines by their quantity', () => {
+    expect(lineWeight(dhal)).toBe(2.5);
+    expect(lineWeight({ qty: 500, unit_cost: 1, unit: 'g' })).toBe(0.5);
+    expect(lineWeight({ qty: 3, unit_cost: 1, unit: 'pc' })).toBe(0);
+    expect(allocateLandedCost([rice, juice, dhal], 165, 'weight')).toEqual([100, 60, 5]);
+  });
+
+  it('should spread charges by base quantity', () => {
+    // 10 + 24 + 2.5 base units
+    expect(allocateLandedCost([rice, juice, dhal], 73, 'qty')).toEqual([20, 48, 5]);
+  });
+
+  it('should give the rounding remainder to the largest line so shares add up', () => {
+    const shares = allocateLandedCost([rice, rice, { ...rice, qty: 11 }], 100, 'value');
+    expect(shares).toEqual([32.26, 32.26, 35.48]);
+    expect(shares.reduce((sum, share) => sum + share, 0)).toBeCloseTo(100, 10);
+  });
+
+  it('should allocate nothing without charges and refuse a basis no line has', () => {
+    expect(allocateLandedCost([rice, juice], 0, 'weight')).toEqual([0, 0]);
+    expect(() => allocateLandedCost([{ qty: 1, unit_cost: 5 }], 50, 'weight')).toThrow(/weight/);
+  });
+
+  it('should cost base units including their share', () => {
+    // (720 + 72) / 24 units in the case
+    expect(landedUnitCost(juice, 72)).toBe(33);
+    expect(landedUnitCost(rice, 0)).toBe(100);
+  });
+
+  it('should apply the cost update policy', () => {
+    expect(nextProductCost(90, 110, 'latest')).toBe(110);
+    expect(nextProductCost(90, 110, 'average')).toBe(100);
+    expect(nextProductCost(null, 110, 'average')).toBe(110);
+    expect(nextProductCost(90, 110, 'none')).toBe(90);
+  });
+
+  it('should preview margins before and after, costing repeated products in line order', () => {
+    const rows = marginImpact(
+      [
+        { ...rice, product_id: 1, price: 125, cost: 90 },
+        { ...rice, product_id: 1, price: 125, cost: 90 }
+      ],
+      200,
+      'value',
+      'average'
+    );
+
+    expect(rows[0]).toMatchObject({ share: 100, landedCost: 110, currentCost: 90, newCost: 100, marginBefore: 28, marginAfter: 20 });
+    // The second line averages onto the cost the first one left
+    expect(rows[1]).toMatchObject({ currentCost: 100, newCost: 105, marginAfter: 16 });
+  });
+});
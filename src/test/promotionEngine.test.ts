@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { discountEngine, CartLine } from '../services/discountEngine';
+import { dataService, DiscountRule, Product, Promotion, PromotionRule } from '../services/dataService';
+import { useCartStore } from '../store/cartStore';
+
+function product(id: number, categoryId: number, price: number): Product {
+  return {
+    id,
+    sku: `SKU${id}`,
+    name_en: `Product ${id}`,
+    unit: 'pc',
+    category_id: categoryId,
+    price_retail: price,
+    price_wholesale: price,
+    price_credit: price,
+    price_other: price,
+    is_scale_item: false,
+    is_active: true,
+    created_at: new Date()
+  };
+}
+
+function line(id: number, item: Product, qty: number): CartLine {
+  return {
+    id,
+    product_id: item.id,
+    product: item,
+    qty,
+    unit_price: item.price_retail,
+    retail_price: item.price_retail,
+    line_discount: 0,
+    tax: 0,
+    total: qty * item.price_retail
+  };
+}
+
+function promotion(id: number, rule: Omit<PromotionRule, 'id' | 'promotion_id'>, extra: Partial<Promotion> = {}): Promotion {
+  return {
+    id,
+    name: `Promo ${id}`,
+    priority: 100,
+    active: true,
+    rules: [{ id: id * 10, promotion_id: id, ...rule }],
+    scopes: [],
+    ...extra
+  };
+}
+
+const bread = product(1, 1, 85);
+const butter = product(2, 1, 300);
+const jam = product(3, 1, 250);
+const rice = product(4, 2, 200);
+
+// A Wednesday
+const now = new Date('2026-03-11T10:00:00');
+
+describe('Discount Engine promotions', () => {
+  beforeEach(() => {
+    vi.spyOn(dataService, 'getDiscountRulesForSKUs').mockResolvedValue([]);
+  });
+
+  it('should give every third bread free on buy 2 get 1', async () => {
+    const result = await discountEngine.applyRulesToCart({
+      lines: [line(1, bread, 7)],
+      rules: [],
+      promotions: [promotion(1, { type: 'BUY_X_GET_Y', params: { buy_qty: 2, get_qty: 1 } }, {
+        scopes: [{ id: 1, promotion_id: 1, scope_type: 'product', target_id: bread.id }]
+      })],
+      now
+    });
+
+    expect(result.lines[0].line_discount).toBe(170);
+    expect(result.lines[0].applied_rules).toEqual([
+      { rule_id: 10, rule_name: 'Promo 1', discount_amount: 170, promotion_id: 1, promotion_type: 'BUY_X_GET_Y' }
+    ]);
+  });
+
+  it('should make the cheapest item of each group free across lines', async () => {
+    const result = await discountEngine.applyRulesToCart({
+      lines: [line(1, butter, 1), line(2, jam, 1), line(3, bread, 1)],
+      rules: [],
+      promotions: [promotion(1, { type: 'CHEAPEST_FREE', params: { group_size: 3 } }, {
+        scopes: [{ id: 1, promotion_id: 1, scope_type: 'category', target_id: 1 }]
+      })],
+      now
+    });
+
+    expect(result.lines.map(l => l.line_discount)).toEqual([0, 0, 85]);
+    expect(result.appliedRules).toHaveLength(1);
+  });
+
+  it('should spread a bundle price over the bundled lines', async () => {
+    const result = await discountEngine.applyRulesToCart({
+      lines: [line(1, butter, 1), line(2, jam, 1)],
+      rules: [],
+      promotions: [promotion(1, { type: 'MIX_AND_MATCH_BUNDLE_PRICE', params: { bundle_qty: 2, bundle_price: 440 } })],
+      now
+    });
+
+    // 550 regular, 110 off, split 300:250
+    expect(result.lines.map(l => l.line_discount)).toEqual([60, 50]);
+    expect(result.totals.itemDiscounts).toBe(110);
+  });
+
+  it('should not let a lower-priority promotion or a discount rule reuse promoted units', async () => {
+    const rule: DiscountRule = {
+      id: 7,
+      name: 'Bread 10%',
+      applies_to: 'PRODUCT',
+      target_id: bread.id,
+      type: 'PERCENT',
+      value: 10,
+      active_from: new Date('2026-01-01'),
+      active_to: new Date('2026-12-31'),
+      priority: 1,
+      reason_required: false,
+      active: true
+    };
+
+    const result = await discountEngine.applyRulesToCart({
+      lines: [line(1, bread, 3), line(2, rice, 1)],
+      rules: [rule],
+      promotions: [
+        promotion(2, { type: 'CHEAPEST_FREE', params: { group_size: 2 } }, { priority: 50 }),
+        promotion(1, { type: 'BUY_X_GET_Y', params: { buy_qty: 2, get_qty: 1 } }, { priority: 10 })
+      ],
+      now
+    });
+
+    // Buy 2 get 1 takes all three breads first, leaving a single rice for the pair deal
+    expect(result.lines[0].line_discount).toBe(85);
+    expect(result.lines[0].applied_rules?.map(r => r.rule_name)).toEqual(['Promo 1']);
+    expect(result.lines[1].line_discount).toBe(0);
+    expect(result.appliedRules.map(r => r.rule_name)).toEqual(['Promo 1']);
+  });
+
+  it('should skip promotions outside their days, dates or customer tags', async () => {
+    const effective = await discountEngine.getEffectivePromotions({
+      now,
+      customerTagIds: [5],
+      promotions: [
+        promotion(1, { type: 'CHEAPEST_FREE', params: { group_size: 2 } }, { days_of_week: '0,6' }),
+        promotion(2, { type: 'CHEAPEST_FREE', params: { group_size: 2 } }, { end_at: '2026-03-01T00:00:00' }),
+        promotion(3, { type: 'CHEAPEST_FREE', params: { group_size: 2 } }, {
+          scopes: [{ id: 1, promotion_id: 3, scope_type: 'customer_tag', target_id: 9 }]
+        }),
+        promotion(4, { type: 'CHEAPEST_FREE', params: { group_size: 2 } }, {
+          days_of_week: '3',
+          scopes: [{ id: 2, promotion_id: 4, scope_type: 'customer_tag', target_id: 5 }]
+        }),
+        promotion(5, { type: 'CHEAPEST_FREE', params: { group_size: 2 } }, { active: false })
+      ]
+    });
+
+    expect(effective.map(p => p.id)).toEqual([4]);
+  });
+
+  it('should warn about promotions with unusable parameters', async () => {
+    const result = await discountEngine.applyRulesToCart({
+      lines: [line(1, bread, 4)],
+      rules: [],
+      promotions: [promotion(1, { type: 'BUY_X_GET_Y', params: { buy_qty: 0, get_qty: 1 } })],
+      now
+    });
+
+    expect(result.lines[0].line_discount).toBe(0);
+    expect(result.warnings).toEqual(['Promotion "Promo 1" has invalid BUY_X_GET_Y parameters']);
+  });
+});
+
+describe('Cart promotions', () => {
+  it('should pass the selected customer\'s tags to the discount engine', async () => {
+    vi.spyOn(dataService, 'getEffectiveDiscountRules').mockResolvedValue([]);
+    vi.spyOn(dataService, 'getPromotions').mockResolvedValue([]);
+    const apply = vi.spyOn(discountEngine, 'applyRulesToCart');
+    useCartStore.setState({ items: [] });
+    await useCartStore.getState().addItem(bread, 1);
+
+    await useCartStore.getState().setCustomer(12, 'Tagged Customer', [5, 7]);
+
+    expect(useCartStore.getState().customerTagIds).toEqual([5, 7]);
+    expect(apply).toHaveBeenLastCalledWith(expect.objectContaining({ customerTagIds: [5, 7] }));
+  });
+});
@@ -0,0 +1,114 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { OutgoingMessage, PermanentDeliveryError, ReminderTransport } from '../../server/src/jobs/reminderTransports';
+
+type Dispatcher = typeof import('../../server/src/jobs/reminderDispatcher');
+type Db = typeof import('../../server/src/db')['db'];
+
+// The server keeps its database under <cwd>/data; each run gets a fresh one
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pos-reminders-'));
+let dispatcher: Dispatcher;
+let db: Db;
+
+function fakeTransport(send: (message: OutgoingMessage) => Promise<void>): ReminderTransport & { sent: OutgoingMessage[] } {
+  const sent: OutgoingMessage[] = [];
+  return {
+    name: 'fake',
+    sent,
+    send: async message => {
+      await send(message);
+      sent.push(message);
+    }
+  };
+}
+
+function queue(channel: 'email' | 'sms'): number {
+  return Number(db.run(
+    "INSERT INTO reminder_queue (customer_id, invoice_id, channel, scheduled_at) VALUES (1, 1, ?, '2026-10-01 09:00:00')",
+    [channel]
+  ).lastInsertRowid);
+}
+
+const reminder = (id: number) => db.get<Record<string, any>>('SELECT * FROM reminder_queue WHERE id = ?', [id])!;
+
+describe('Reminder dispatcher', () => {
+  const now = new Date('2026-10-02T09:00:00Z');
+
+  beforeAll(async () => {
+    vi.spyOn(process, 'cwd').mockReturnValue(dir);
+    ({ db } = await import('../../server/src/db'));
+    dispatcher = await import('../../server/src/jobs/reminderDispatcher');
+    db.run("INSERT INTO customers (id, customer_name, phone, email) VALUES (1, 'Nimal Perera', NULL, 'nimal@example.com')");
+    db.run("INSERT INTO invoices (id, receipt_no, grand_total, created_at) VALUES (1, 'R-1001', 1200, '2026-09-20 10:00:00')");
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    db.run('DELETE FROM reminder_queue');
+  });
+
+  it('should render the default template and mark the reminder sent', async () => {
+    const email = fakeTransport(async () => undefined);
+    const id = queue('email');
+
+    const summary = await dispatcher.dispatchDueReminders({ now, transports: { email, sms: email } });
+
+    expect(summary).toEqual({ processed: 1, sent: 1, retrying: 0, failed: 0 });
+    expect(email.sent[0]).toMatchObject({ channel: 'email', to: 'nimal@example.com', reference: String(id) });
+    expect(email.sent[0].body).toContain('R-1001');
+    expect(reminder(id)).toMatchObject({ status: 'sent', attempts: 1, recipient: 'nimal@example.com', last_error: null });
+  });
+
+  it('should back off after a transient failure', async () => {
+    const email = fakeTransport(async () => {
+      throw new Error('SMTP 421: try again later');
+    });
+    const id = queue('email');
+
+    const summary = await dispatcher.dispatchDueReminders({ now, transports: { email, sms: email } });
+
+    expect(summary.retrying).toBe(1);
+    expect(reminder(id)).toMatchObject({ status: 'queued', attempts: 1, last_error: 'SMTP 421: try again later' });
+    expect(new Date(`${reminder(id).scheduled_at.replace(' ', 'T')}Z`).getTime())
+      .toBe(now.getTime() + dispatcher.backoffDelay(1));
+  });
+
+  it('should fail permanent errors at once, e.g. a customer without a phone number', async () => {
+    const sms = fakeTransport(async () => undefined);
+    const email = fakeTransport(async () => {
+      throw new PermanentDeliveryError('SMTP 550: mailbox unavailable');
+    });
+    const noPhone = queue('sms');
+    const rejected = queue('email');
+
+    const summary = await dispatcher.dispatchDueReminders({ now, transports: { email, sms } });
+
+    expect(summary).toEqual({ processed: 2, sent: 0, retrying: 0, failed: 2 });
+    expect(sms.sent).toHaveLength(0);
+    expect(reminder(noPhone)).toMatchObject({ status: 'failed', last_error: 'Customer has no phone number' });
+    expect(reminder(rejected)).toMatchObject({ status: 'failed', last_error: 'SMTP 550: mailbox unavailable' });
+  });
+
+  it('should leave reminders scheduled later in the queue', async () => {
+    const email = fakeTransport(async () => undefined);
+    const id = queue('email');
+    db.run("UPDATE reminder_queue SET scheduled_at = '2026-10-03 09:00:00' WHERE id = ?", [id]);
+
+    const summary = await dispatcher.dispatchDueReminders({ now, transports: { email, sms: email } });
+
+    expect(summary.processed).toBe(0);
+    expect(reminder(id).status).toBe('queued');
+  });
+
+  it('should report placeholders a template does not know', () => {
+    expect(dispatcher.renderTemplate('Dear {{customer_name}}, {{balnce_due}}', { customer_name: 'Nimal' }))
+      .toEqual({ text: 'Dear Nimal, {{balnce_due}}', missing: ['balnce_due'] });
+  });
+});
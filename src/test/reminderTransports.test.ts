@@ -0,0 +1,193 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import {
+  FileSinkTransport,
+  HttpSmsTransport,
+  OutgoingMessage,
+  PermanentDeliveryError,
+  SmtpTransport
+} from '../../server/src/jobs/reminderTransports';
+
+const message: OutgoingMessage = {
+  channel: 'email',
+  to: 'customer@example.com',
+  subject: 'Payment reminder',
+  body: 'Balance due: 1200.00\n.\nThank you',
+  reference: '42'
+};
+
+interface FakeSmtp {
+  port: number;
+  commands: string[];
+  data: string[];
+  close: () => Promise<void>;
+}
+
+// Accepts everything; advertises `extensions` after EHLO and records what the client sent
+function fakeSmtp(extensions: string[]): Promise<FakeSmtp> {
+  const commands: string[] = [];
+  const data: string[] = [];
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 fake ESMTP\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end < 0) return;
+        data.push(buffer.slice(0, end));
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write('250 queued\r\n');
+      }
+      let index: number;
+      while (!inData && (index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        commands.push(line);
+        const verb = line.split(' ')[0].toUpperCase();
+        if (verb === 'EHLO') {
+          const lines = ['fake', ...extensions];
+          socket.write(lines.map((l, i) => `250${i === lines.length - 1 ? ' ' : '-'}${l}\r\n`).join(''));
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else if (verb === 'AUTH') {
+          socket.write('235 ok\r\n');
+        } else {
+          socket.write('250 ok\r\n');
+        }
+      }
+    });
+  });
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        port: (server.address() as net.AddressInfo).port,
+        commands,
+        data,
+        close: () => new Promise(done => server.close(() => done()))
+      });
+    });
+  });
+}
+
+describe('Reminder transports', () => {
+  describe('SMTP', () => {
+    let server: FakeSmtp;
+
+    afterEach(async () => {
+      await server?.close();
+    });
+
+    it('should send one message with dot-stuffing and CRLF line endings', async () => {
+      server = await fakeSmtp([]);
+      const transport = new SmtpTransport({ host: '127.0.0.1', port: server.port, secure: false, from: 'shop@example.com' });
+
+      await transport.send(message);
+
+      expect(server.commands.slice(1)).toEqual([
+        'MAIL FROM:<shop@example.com>',
+        'RCPT TO:<customer@example.com>',
+        'DATA',
+        'QUIT'
+      ]);
+      expect(server.data[0]).toContain('To: customer@example.com\r\n');
+      expect(server.data[0]).toContain('\r\n\r\nBalance due: 1200.00\r\n..\r\nThank you');
+    });
+
+    it('should not send credentials to a server without STARTTLS', async () => {
+      server = await fakeSmtp(['AUTH PLAIN']);
+      const transport = new SmtpTransport({
+        host: '127.0.0.1',
+        port: server.port,
+        secure: false,
+        user: 'shop',
+        pass: 'secret',
+        from: 'shop@example.com'
+      });
+
+      const error = await transport.send(message).catch(e => e);
+
+      expect(error).toBeInstanceOf(PermanentDeliveryError);
+      expect(error.message).toMatch(/STARTTLS/);
+      expect(server.commands.some(c => c.startsWith('AUTH'))).toBe(false);
+      expect(server.commands.some(c => c.startsWith('MAIL'))).toBe(false);
+    });
+
+    it('should refuse a recipient with a line break before connecting', async () => {
+      const connect = vi.spyOn(net, 'connect');
+      const transport = new SmtpTransport({ host: '127.0.0.1', port: 25, secure: false, from: 'shop@example.com' });
+
+      const error = await transport
+        .send({ ...message, to: 'customer@example.com\r\nRCPT TO:<other@example.com>' })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(PermanentDeliveryError);
+      expect(connect).not.toHaveBeenCalled();
+      connect.mockRestore();
+    });
+  });
+
+  describe('HTTP SMS', () => {
+    let fetchMock: ReturnType<typeof vi.fn>;
+    const transport = new HttpSmsTransport({ url: 'http://sms.local/send', token: 'gateway-token', sender: 'SHOP' });
+    const sms: OutgoingMessage = { channel: 'sms', to: '+94771234567', body: 'Balance due: 1200.00', reference: '7' };
+
+    beforeEach(() => {
+      fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should post the message with the gateway token', async () => {
+      fetchMock.mockResolvedValue(new Response('{}', { status: 202 }));
+
+      await transport.send(sms);
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://sms.local/send');
+      expect(init.headers.Authorization).toBe('Bearer gateway-token');
+      expect(JSON.parse(init.body)).toEqual({ to: '+94771234567', from: 'SHOP', message: 'Balance due: 1200.00', reference: '7' });
+    });
+
+    it('should treat rejected numbers as permanent and gateway outages as retryable', async () => {
+      fetchMock.mockResolvedValueOnce(new Response('invalid number', { status: 400 }));
+      const rejected = await transport.send(sms).catch(e => e);
+      expect(rejected).toBeInstanceOf(PermanentDeliveryError);
+      expect(rejected.message).toBe('SMS gateway responded 400: invalid number');
+
+      fetchMock.mockResolvedValueOnce(new Response('', { status: 503 }));
+      const outage = await transport.send(sms).catch(e => e);
+      expect(outage).toBeInstanceOf(Error);
+      expect(outage).not.toBeInstanceOf(PermanentDeliveryError);
+    });
+  });
+
+  describe('file sink', () => {
+    it('should append each message as a JSON line per channel', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pos-outbox-'));
+      try {
+        const transport = new FileSinkTransport(dir);
+        await transport.send(message);
+        await transport.send({ ...message, reference: '43' });
+
+        const lines = fs.readFileSync(path.join(dir, 'email.jsonl'), 'utf8').trim().split('\n').map(l => JSON.parse(l));
+        expect(lines.map(l => l.reference)).toEqual(['42', '43']);
+        expect(lines[0]).toMatchObject({ to: 'customer@example.com', subject: 'Payment reminder' });
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
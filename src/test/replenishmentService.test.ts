@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildDraftOrders,
+  roundUpToPack,
+  suggestReorderQty
+} from '../services/replenishmentService';
+import type { StockRow } from '../services/inventoryServiceSimple';
+
+function stockRow(overrides: Partial<StockRow> & { id: number }): StockRow {
+  return {
+    sku: `SKU-${overrides.id}`,
+    name_en: `Product ${overrides.id}`,
+    unit: 'pc',
+    current_stock: 0,
+    reorder_level: 0,
+    is_low_stock: false,
+    is_scale_item: false,
+    updated_at: new Date('2026-10-01'),
+    ...overrides
+  };
+}
+
+const options = { windowDays: 28, coverDays: 14, defaultLeadTimeDays: 7 };
+
+describe('Replenishment Service', () => {
+  it('should round up to whole packs or whole units', () => {
+    expect(roundUpToPack(13, 12, 'pc')).toBe(24);
+    expect(roundUpToPack(24, 12, 'pc')).toBe(24);
+    expect(roundUpToPack(2.2, null, 'pc')).toBe(3);
+    expect(roundUpToPack(1.2345, null, 'kg')).toBe(1.235);
+    expect(roundUpToPack(0, 12, 'pc')).toBe(0);
+  });
+
+  it('should order once stock plus what is on order reaches the reorder point', () => {
+    // 2/day over a 5 day lead time on top of a reorder level of 10 gives a reorder point of 20
+    const item = { current_stock: 25, on_order: 0, reorder_level: 10, avg_daily_sales: 2, pack_size: null, unit: 'pc' };
+    expect(suggestReorderQty(item, 5, 14)).toBe(0);
+    expect(suggestReorderQty({ ...item, current_stock: 20 }, 5, 14)).toBe(28);
+    expect(suggestReorderQty({ ...item, current_stock: 12, on_order: 10 }, 5, 14)).toBe(0);
+    expect(suggestReorderQty({ ...item, current_stock: 20, pack_size: 12 }, 5, 14)).toBe(36);
+  });
+
+  it('should ignore products with no reorder level and no sales', () => {
+    const item = { current_stock: 0, on_order: 0, reorder_level: 0, avg_daily_sales: 0, pack_size: null, unit: 'pc' };
+    expect(suggestReorderQty(item, 7, 14)).toBe(0);
+    expect(suggestReorderQty({ ...item, reorder_level: 5, current_stock: 5 }, 7, 14)).toBe(1);
+  });
+
+  it('should group suggestions by preferred supplier using its lead time', () => {
+    const drafts = buildDraftOrders({
+      stock: [
+        stockRow({ id: 1, name_en: 'Tea 100g', current_stock: 4, reorder_level: 10, preferred_supplier_id: 2, cost: 150, pack_size: 24 }),
+        stockRow({ id: 2, name_en: 'Milk Powder', current_stock: 50, reorder_level: 10, preferred_supplier_id: 2 }),
+        stockRow({ id: 3, name_en: 'Biscuits', current_stock: 3, reorder_level: 5, preferred_supplier_id: 3, cost: 80 }),
+        stockRow({ id: 4, name_en: 'Candles', current_stock: 0, reorder_level: 2 })
+      ],
+      soldQty: new Map([[1, 56], [2, 28], [3, 0]]),
+      onOrder: new Map([[3, 10]]),
+      suppliers: [
+        { id: 2, supplier_name: 'Ceylon Traders', lead_time_days: 3 },
+        { id: 3, supplier_name: 'Apex Foods', lead_time_days: null }
+      ]
+    }, options);
+
+    expect(drafts.map(draft => draft.supplier_name)).toEqual(['Ceylon Traders', 'No preferred supplier']);
+
+    const [ceylon, unassigned] = drafts;
+    expect(ceylon.lead_time_days).toBe(3);
+    expect(ceylon.lines).toHaveLength(1);
+    // 2/day: reorder point 10 + 6 = 16, target 16 + 28 = 44, need 40 -> two packs of 24
+    expect(ceylon.lines[0]).toMatchObject({ product_id: 1, avg_daily_sales: 2, reorder_point: 16, suggested_qty: 48, unit_cost: 150 });
+
+    expect(unassigned.supplier_id).toBeNull();
+    expect(unassigned.lines[0]).toMatchObject({ product_id: 4, suggested_qty: 2 });
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { defaultGrants, hasPermission, permissionLimit } from '../security/permissions';
+
+describe('Effective permissions', () => {
+  it('should allow limited permissions up to the granted amount', () => {
+    const grants = {
+      roles: ['CASHIER', 'SENIOR_CASHIER'],
+      permissions: ['TAKE_PAYMENT', 'RETURNS_APPROVE'],
+      limits: { RETURNS_APPROVE: 200 }
+    };
+
+    expect(hasPermission(grants, 'RETURNS_APPROVE')).toBe(true);
+    expect(hasPermission(grants, 'RETURNS_APPROVE', 150)).toBe(true);
+    expect(hasPermission(grants, 'RETURNS_APPROVE', 250)).toBe(false);
+    expect(hasPermission(grants, 'TAKE_PAYMENT', 10000)).toBe(true);
+    expect(hasPermission(grants, 'VOID_FINALIZED')).toBe(false);
+  });
+
+  it('should give ADMIN every permission and fall back to built-in grants', () => {
+    expect(hasPermission({ roles: ['ADMIN'], permissions: [] }, 'BACKUP_RESTORE', 1e9)).toBe(true);
+    expect(hasPermission(defaultGrants('CASHIER'), 'TAKE_PAYMENT')).toBe(true);
+    expect(hasPermission(defaultGrants('CASHIER'), 'RETURNS_APPROVE', 2000)).toBe(true);
+    expect(hasPermission(defaultGrants('CASHIER'), 'RETURNS_APPROVE', 2500)).toBe(false);
+    expect(hasPermission(defaultGrants('CASHIER'), 'VOID_FINALIZED')).toBe(false);
+    expect(hasPermission(defaultGrants('MANAGER'), 'RETURNS_APPROVE', 1e6)).toBe(true);
+  });
+
+  it('should check percentage limits beside amount limits', () => {
+    const cashier = defaultGrants('CASHIER');
+
+    expect(hasPermission(cashier, 'DISCOUNT_OVERRIDE', { percent: 5 })).toBe(true);
+    expect(hasPermission(cashier, 'DISCOUNT_OVERRIDE', { percent: 7.5 })).toBe(false);
+    expect(hasPermission(cashier, 'DISCOUNT_OVERRIDE', { amount: 500 })).toBe(true);
+    expect(hasPermission(cashier, 'DISCOUNT_OVERRIDE', { amount: 450, percent: 6 })).toBe(false);
+    expect(permissionLimit(cashier, 'DISCOUNT_OVERRIDE')).toEqual({ amount: 500, percent: 5 });
+    expect(permissionLimit(defaultGrants('MANAGER'), 'DISCOUNT_OVERRIDE')).toEqual({});
+    expect(permissionLimit(cashier, 'PRICE_OVERRIDE')).toBeNull();
+  });
+});
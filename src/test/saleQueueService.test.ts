@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SaleQueueService, MemorySaleQueueStore } from '../services/saleQueueService';
+import type { Sale, SaleLine } from '../services/dataService';
+import { setSessionToken } from '../utils/api';
+import { useAppStore } from '../store/appStore';
+import { jsonResponse } from './serverResponses';
+
+const sale: Sale = {
+  id: 1001,
+  datetime: new Date('2026-01-15T10:00:00Z'),
+  cashier_id: 1,
+  price_tier: 'Retail',
+  gross: 200,
+  discount: 0,
+  tax: 0,
+  net: 200,
+  pay_cash: 200,
+  pay_card: 0,
+  pay_wallet: 0,
+  language: 'EN',
+  terminal_name: 'POS-001'
+};
+
+const lines: SaleLine[] = [
+  { id: 1, sale_id: 1001, product_id: 1, qty: 2, unit_price: 100, line_discount: 0, tax: 0, total: 200 }
+];
+
+function useDataSource(mode: 'local' | 'server') {
+  const settings = useAppStore.getState().settings;
+  useAppStore.setState({ settings: { ...settings, dataSource: { mode, serverUrl: 'http://pos.local:8250' } } as any });
+}
+
+describe('Sale Queue Service', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let queue: SaleQueueService;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    queue = new SaleQueueService(new MemorySaleQueueStore(), new MemorySaleQueueStore());
+    useDataSource('server');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    setSessionToken(null);
+  });
+
+  it('should send a queued sale and remove it once the server accepts it', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(201, { success: true, sale: { id: 1 }, duplicate: false }));
+
+    setSessionToken('session-token');
+
+    const entry = await queue.enqueue(sale, lines, [{ method: 'CASH', amount: 200 }]);
+    await queue.flush();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://pos.local:8250/api/sales/sync');
+    expect(init.headers['Idempotency-Key']).toBe(entry.idempotencyKey);
+    expect(init.headers.Authorization).toBe('Bearer session-token');
+    expect(JSON.parse(init.body).payments).toEqual([{ method: 'CASH', amount: 200 }]);
+    expect(await queue.list()).toHaveLength(0);
+    expect(queue.getStatus().depth).toBe(0);
+  });
+
+  it('should keep the sale queued while the server is unreachable and retry with the same key', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+    const entry = await queue.enqueue(sale, lines);
+    await queue.flush();
+
+    const pending = await queue.list();
+    expect(pending).toHaveLength(1);
+    expect(pending[0].attempts).toBe(1);
+    expect(queue.getStatus().depth).toBe(1);
+    expect(queue.getStatus().lastError).toMatch(/unreachable/);
+
+    // The first request may have reached the server; it answers with the recorded sale
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { success: true, sale: { id: 1 }, duplicate: true }));
+    await queue.flush();
+
+    expect(fetchMock.mock.calls[1][1].headers['Idempotency-Key']).toBe(entry.idempotencyKey);
+    expect(await queue.list()).toHaveLength(0);
+    expect(queue.getStatus().lastError).toBeNull();
+  });
+
+  it('should move rejected sales to the dead letters without blocking later ones', async () => {
+    // Both sales are finalized while offline
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+    const first = await queue.enqueue({ ...sale, id: 1 }, lines);
+    await queue.flush();
+    await queue.enqueue({ ...sale, id: 2 }, lines);
+    await queue.flush();
+    expect(queue.getStatus().depth).toBe(2);
+
+    fetchMock.mockReset();
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(400, { success: false, error: 'Validation failed', code: 'VALIDATION_ERROR' }))
+      .mockResolvedValueOnce(jsonResponse(201, { success: true, sale: { id: 2 }, duplicate: false }));
+    await queue.flush();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(await queue.list()).toHaveLength(0);
+    const rejected = await queue.listRejected();
+    expect(rejected.map(p => p.idempotencyKey)).toEqual([first.idempotencyKey]);
+    expect(rejected[0].lastError).toBe('Validation failed');
+    expect(rejected[0].rejectedAt).toBeDefined();
+    expect(queue.getStatus()).toMatchObject({ depth: 0, rejected: 1 });
+
+    // Not sent again on the next replay
+    await queue.flush();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should let staff retry a rejected sale with its key, or discard it', async () => {
+    useDataSource('local');
+    const fixable = await queue.enqueue({ ...sale, id: 1 }, lines);
+    const hopeless = await queue.enqueue({ ...sale, id: 2 }, lines);
+
+    useDataSource('server');
+    fetchMock.mockResolvedValue(jsonResponse(400, { success: false, error: 'Validation failed', code: 'VALIDATION_ERROR' }));
+    await queue.flush();
+    expect(queue.getStatus().rejected).toBe(2);
+
+    fetchMock.mockResolvedValue(jsonResponse(201, { success: true, sale: { id: 1 }, duplicate: false }));
+    await queue.retryRejected(fixable.idempotencyKey);
+    await queue.flush();
+    await queue.discardRejected(hopeless.idempotencyKey);
+
+    expect(fetchMock.mock.calls[fetchMock.mock.calls.length - 1][1].headers['Idempotency-Key']).toBe(fixable.idempotencyKey);
+    expect(await queue.listRejected()).toHaveLength(0);
+    expect(queue.getStatus()).toMatchObject({ depth: 0, rejected: 0 });
+  });
+
+  it('should keep sales queued in local mode without contacting a server', async () => {
+    useDataSource('local');
+
+    await queue.enqueue(sale, lines);
+    await queue.flush();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(queue.getStatus().depth).toBe(1);
+
+    // Pointing the terminal at a server sends what was kept
+    useDataSource('server');
+    fetchMock.mockResolvedValue(jsonResponse(201, { success: true, sale: { id: 1 }, duplicate: false }));
+    await queue.flush();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(queue.getStatus().depth).toBe(0);
+  });
+
+  it('should hold the queue when the session has expired rather than giving up on the sale', async () => {
+    // Both sales are finalized while the terminal is not yet pointed at the server
+    useDataSource('local');
+    await queue.enqueue({ ...sale, id: 1 }, lines);
+    await queue.enqueue({ ...sale, id: 2 }, lines);
+
+    useDataSource('server');
+    fetchMock.mockResolvedValue(jsonResponse(401, { success: false, error: 'Sign in again to continue', code: 'SESSION_REQUIRED' }));
+    await queue.flush();
+
+    // Stops at the first sale instead of marking both as rejected
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const pending = await queue.list();
+    expect(pending.map(p => p.attempts)).toEqual([1, 0]);
+    expect(queue.getStatus().lastError).toBe('Sign in again to continue');
+  });
+});
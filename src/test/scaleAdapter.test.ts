@@ -0,0 +1,102 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { ScaleConfig, ScaleReading, SerialScaleAdapter } from '../adapters/ScaleAdapter';
+import { SimulatedSerialPort } from '../adapters/scale/SimulatedSerialPort';
+import { SCALE_PROTOCOLS, convertWeight } from '../adapters/scale/protocols';
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const config = (overrides: Partial<ScaleConfig>): ScaleConfig => ({
+  enabled: true,
+  timeout: 200,
+  unit: 'kg',
+  precision: 3,
+  ...overrides
+});
+
+let adapter: SerialScaleAdapter | undefined;
+
+async function connect(port: SimulatedSerialPort, overrides: Partial<ScaleConfig>) {
+  adapter = new SerialScaleAdapter(config(overrides), async () => port);
+  await adapter.connect();
+  return adapter;
+}
+
+afterEach(async () => {
+  await adapter?.disconnect();
+  adapter = undefined;
+});
+
+describe('Scale protocols', () => {
+  it('should parse CAS frames split across reads and keep the unfinished tail', () => {
+    const { frames, rest } = SCALE_PROTOCOLS.cas.parse('ST,GS,+  1.250kg\r\nUS,NT,-  0.020kg\r\nOL,GS,  ----- kg\r\nST,GS,+ 0.5');
+    expect(frames).toEqual([
+      { weight: 1.25, unit: 'kg', stable: true },
+      { weight: -0.02, unit: 'kg', stable: false },
+      { weight: null, unit: null, stable: false }
+    ]);
+    expect(rest).toBe('ST,GS,+ 0.5');
+  });
+
+  it('should convert between scale units', () => {
+    expect(convertWeight(1.5, 'kg', 'g')).toBe(1500);
+    expect(convertWeight(1, 'lb', 'kg')).toBeCloseTo(0.45359, 5);
+    expect(convertWeight(16, 'oz', 'lb')).toBeCloseTo(1, 6);
+  });
+});
+
+describe('SerialScaleAdapter', () => {
+  it('should stream CAS readings in the configured unit and wait for a repeat before calling them stable', async () => {
+    const port = new SimulatedSerialPort();
+    const scale = await connect(port, { protocol: 'cas', unit: 'g', precision: 0 });
+    const readings: ScaleReading[] = [];
+    scale.onReading(reading => readings.push(reading));
+    await scale.startContinuousReading();
+
+    port.emit('US,GS,+  1.180kg\r\nST,GS,+  1.2');
+    port.emit('30kg\r\nST,GS,+  1.230kg\r\n');
+    await settle();
+
+    expect(port.openedWith).toMatchObject({ baudRate: 9600, dataBits: 8, parity: 'none' });
+    expect(readings.map(reading => [reading.weight, reading.unit, reading.stable])).toEqual([
+      [1180, 'g', false],
+      [1230, 'g', false],
+      [1230, 'g', true]
+    ]);
+
+    await scale.tare();
+    await scale.zero();
+    expect(port.written).toEqual(['T', 'Z']);
+  });
+
+  it('should poll a Toledo 8217 scale, report motion as no weight and tare in software', async () => {
+    const replies = ['\x02?A\r', '\x0201.500\r', '\x0201.500\r'];
+    const port = new SimulatedSerialPort(command => (command === 'W' ? replies.shift() : undefined));
+    const scale = await connect(port, { protocol: 'toledo-8217', scaleUnit: 'lb' });
+
+    expect(await scale.getReading()).toBeNull();
+    expect(await scale.getReading()).toMatchObject({ weight: 0.68, unit: 'kg', stable: true });
+
+    await scale.tare();
+    expect(port.written).toEqual(['W', 'W']);
+    expect(await scale.getReading()).toMatchObject({ weight: 0, stable: true });
+  });
+
+  it('should read Avery NCI status bytes and send its tare and zero commands', async () => {
+    const replies = ['\n  2.000kg\r\n\x41\x40\r\x03', '\n  2.005kg\r\n\x40\x40\r\x03'];
+    const port = new SimulatedSerialPort(command => (command === 'W\r' ? replies.shift() : undefined));
+    const scale = await connect(port, { protocol: 'avery-nci' });
+
+    expect(port.openedWith).toMatchObject({ dataBits: 7, parity: 'even' });
+    expect(await scale.getReading()).toMatchObject({ weight: 2, stable: false });
+    expect(await scale.getReading()).toMatchObject({ weight: 2.005, stable: true });
+
+    await scale.tare();
+    await scale.zero();
+    expect(port.written).toEqual(['W\r', 'W\r', 'T\r', 'Z\r']);
+  });
+
+  it('should time out when the scale stays silent', async () => {
+    const scale = await connect(new SimulatedSerialPort(), { protocol: 'cas', timeout: 20 });
+    expect(await scale.getReading()).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ServerBackupService, ServerBackupError } from '../services/serverBackupService';
+import { jsonResponse } from './serverResponses';
+
+const file = 'pos_backup_2026-10-19T02-00-00-000Z.db.enc';
+
+const schedule = {
+  enabled: true,
+  daily_time: '02:00',
+  keep: 7,
+  last_run_at: '2026-10-19 02:00:01',
+  last_file: file,
+  last_error: null,
+  next_run_at: '2026-10-20T02:00:00.000Z',
+  running: false,
+  passphrase_set: true
+};
+
+describe('Server Backup Service', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let service: ServerBackupService;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    service = new ServerBackupService();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should list backups with the schedule', async () => {
+    const backups = [{ file, bytes: 413747, created_at: '2026-10-19T02:00:01.000Z', manifest: null }];
+    fetchMock.mockResolvedValue(jsonResponse(200, { success: true, backups, schedule }));
+
+    const result = await service.list();
+
+    expect(fetchMock.mock.calls[0][0]).toMatch(/\/api\/backups$/);
+    expect(result).toEqual({ backups, schedule });
+  });
+
+  it('should report why a backup could not be taken', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(503, {
+      success: false,
+      code: 'PASSPHRASE_MISSING',
+      error: 'BACKUP_PASSPHRASE is not set'
+    }));
+
+    const error = await service.runNow().catch(e => e);
+
+    expect(fetchMock.mock.calls[0][1].method).toBe('POST');
+    expect(error).toBeInstanceOf(ServerBackupError);
+    expect(error.code).toBe('PASSPHRASE_MISSING');
+    expect(error.status).toBe(503);
+  });
+
+  it('should verify a backup by name and return a failed check as a result', async () => {
+    const result = { file, ok: false, schema_version: null, error: `${file} could not be decrypted; wrong passphrase or damaged file` };
+    fetchMock.mockResolvedValue(jsonResponse(200, { success: true, result }));
+
+    expect(await service.verify(file)).toEqual(result);
+    expect(fetchMock.mock.calls[0][0]).toMatch(new RegExp(`/api/backups/${file.replace(/\./g, '\\.')}/verify$`));
+  });
+
+  it('should save the schedule', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { success: true, schedule: { ...schedule, daily_time: '23:15', keep: 14 } }));
+
+    const saved = await service.updateSchedule({ enabled: true, daily_time: '23:15', keep: 14 });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toMatch(/\/api\/backups\/schedule$/);
+    expect(init.method).toBe('PUT');
+    expect(JSON.parse(init.body)).toEqual({ enabled: true, daily_time: '23:15', keep: 14 });
+    expect(saved.keep).toBe(14);
+  });
+});
@@ -0,0 +1,74 @@
+import { vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+type Db = typeof import('../../server/src/db')['db'];
+
+export interface TestServer {
+  db: Db;
+  /** Where the server keeps its data/, backups/ and archives/ */
+  dir: string;
+  /** Base URL of the API, e.g. http://127.0.0.1:41234/api */
+  api: string;
+  /** Sign in with a PIN and return the session token */
+  login(pin: string): Promise<string>;
+  /** Call the API as `token`, returning the status and the parsed body */
+  call(
+    token: string | null,
+    method: string,
+    route: string,
+    body?: unknown,
+    headers?: Record<string, string>
+  ): Promise<{ status: number; body: any }>;
+  close(): Promise<void>;
+}
+
+/**
+ * Start the API on a fresh database under a temp dir and a free port; call from beforeAll in a
+ * `@vitest-environment node` file. The server keeps its database under <cwd>/data, so cwd is
+ * pointed at the temp dir before the server modules load.
+ */
+export async function startTestServer(prefix: string): Promise<TestServer> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+  vi.spyOn(process, 'cwd').mockReturnValue(dir);
+  const { db } = await import('../../server/src/db');
+  const { app } = await import('../../server/src/app');
+
+  const server: Server = await new Promise(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const api = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+
+  const call: TestServer['call'] = async (token, method, route, body, headers = {}) => {
+    const response = await fetch(`${api}${route}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...headers
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  return {
+    db,
+    dir,
+    api,
+    call,
+    login: async pin => {
+      const { status, body } = await call(null, 'POST', '/auth/login', { pin });
+      if (status !== 200) throw new Error(`Login failed: ${body.error}`);
+      return body.token;
+    },
+    close: async () => {
+      await new Promise(resolve => server.close(resolve));
+      vi.restoreAllMocks();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  };
+}
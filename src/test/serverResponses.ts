@@ -0,0 +1,7 @@
+/**
+ * Replies from the POS server for tests that stub fetch
+ */
+
+export function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
@@ -7,6 +7,7 @@ vi.mock('../services/database', () => ({
   database: {
     query: vi.fn(),
     execute: vi.fn(),
+    transaction: vi.fn(async (callback: () => Promise<unknown>) => callback()),
   }
 }));
 
@@ -154,12 +155,17 @@ describe('ShiftService', () => {
         .mockResolvedValueOnce([shiftData.header]) // shift query
         .mockResolvedValueOnce(shiftData.movements) // movements query
         .mockResolvedValueOnce(salesData) // sales query
-        .mockResolvedValueOnce(paymentsData); // payments query
+        .mockResolvedValueOnce(paymentsData) // payments query
+        .mockResolvedValueOnce([{ code: 'VAT', taxable: 950, tax: 142.5 }, { code: 'EXEMPT', taxable: 7.5, tax: 0 }]); // tax query
       
       const summary = await shiftService.getShiftSummary(1);
       
       expect(summary.shift).toEqual(shiftData.header);
       expect(summary.sales).toEqual(salesData[0]);
+      expect(summary.taxBreakdown.map(line => [line.code, line.taxable, line.tax])).toEqual([
+        ['VAT', 950, 142.5],
+        ['EXEMPT', 7.5, 0]
+      ]);
       expect(summary.payments).toEqual(paymentsData[0]);
       expect(summary.cashDrawer.opening).toBe(1000);
       expect(summary.cashDrawer.cashIn).toBe(200);
@@ -222,6 +228,134 @@ describe('ShiftService', () => {
       await expect(shiftService.voidShift(1, 'Void reason')).rejects.toThrow('Only open shifts can be voided');
     });
   });
-});
 
+  describe('cash counts', () => {
+    const openShift = { id: 1, terminal_name: 'Terminal 1', cashier_id: 1, opening_cash: 2500, status: 'OPEN' };
+    const openingCount = [
+      { id: 1, shift_id: 1, kind: 'OPENING', movement_id: null, denomination: 1000, quantity: 2 },
+      { id: 2, shift_id: 1, kind: 'OPENING', movement_id: null, denomination: 100, quantity: 5 }
+    ];
+
+    beforeEach(() => {
+      const mockDb = vi.mocked(database);
+      mockDb.query.mockReset();
+      mockDb.execute.mockReset();
+    });
+
+    it('should open a shift with the total of its opening count', async () => {
+      const mockDb = vi.mocked(database);
+      mockDb.query.mockResolvedValueOnce([]); // no active shift
+      mockDb.execute
+        .mockResolvedValueOnce({ lastID: 7 })
+        .mockResolvedValueOnce({ changes: 2 });
+
+      const id = await shiftService.openShift({
+        terminal_name: 'Terminal 1',
+        cashier_id: 1,
+        opening_cash: 0,
+        opening_count: [
+          { denomination: 100, quantity: 5 },
+          { denomination: 1000, quantity: 2 },
+          { denomination: 50, quantity: 0 }
+        ]
+      });
+
+      expect(id).toBe(7);
+      expect(mockDb.execute).toHaveBeenNthCalledWith(1, expect.stringContaining('INSERT INTO shifts'), ['Terminal 1', 1, 2500, null]);
+      expect(mockDb.execute).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining('INSERT INTO shift_cash_counts'),
+        [7, 'OPENING', null, 1000, 2, 7, 'OPENING', null, 100, 5]
+      );
+    });
+
+    it('should record a counted safe drop with its movement', async () => {
+      const mockDb = vi.mocked(database);
+      mockDb.execute
+        .mockResolvedValueOnce({ lastID: 12 })
+        .mockResolvedValueOnce({ changes: 1 });
+
+      await shiftService.addMovement(
+        { shift_id: 1, type: 'DROP', amount: 0, reason: 'Safe' },
+        [{ denomination: 5000, quantity: 4 }]
+      );
+
+      expect(mockDb.execute).toHaveBeenNthCalledWith(1, expect.stringContaining('INSERT INTO shift_movements'), [1, 'DROP', 20000, 'Safe']);
+      expect(mockDb.execute).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining('INSERT INTO shift_cash_counts'),
+        [1, 'DROP', 12, 5000, 4]
+      );
+    });
+
+    it('should close a shift with a closing count and show the difference per denomination', async () => {
+      const mockDb = vi.mocked(database);
+      const movements = [{ id: 12, shift_id: 1, type: 'DROP', amount: 1000 }];
+      const dropCount = [{ id: 3, shift_id: 1, kind: 'DROP', movement_id: 12, denomination: 1000, quantity: 1 }];
+      mockDb.query
+        .mockResolvedValueOnce([openShift]) // shift
+        .mockResolvedValueOnce(movements)
+        .mockResolvedValueOnce([openShift]) // expected cash: shift
+        .mockResolvedValueOnce(movements)
+        .mockResolvedValueOnce([{ invoices: 2, gross: 1800, discount: 0, tax: 0, net: 1800 }])
+        .mockResolvedValueOnce([{ cash: 1800, card: 0, wallet: 0, other: 0 }])
+        .mockResolvedValueOnce([]) // tax
+        .mockResolvedValueOnce([...openingCount, ...dropCount]);
+      mockDb.execute.mockResolvedValue({ changes: 1 });
+
+      // Expected: 2500 + 1800 - 1000 = 3300; counted 3200
+      await shiftService.closeShift(1, [
+        { denomination: 1000, quantity: 2 },
+        { denomination: 500, quantity: 2 },
+        { denomination: 100, quantity: 2 }
+      ]);
+
+      expect(mockDb.execute).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO shift_cash_counts'),
+        [1, 'CLOSING', null, 1000, 2, 1, 'CLOSING', null, 500, 2, 1, 'CLOSING', null, 100, 2]
+      );
+      expect(mockDb.execute).toHaveBeenLastCalledWith(expect.stringContaining('UPDATE shifts'), [3200, -100, undefined, 1]);
+
+      const closingCount = [
+        { id: 4, shift_id: 1, kind: 'CLOSING', movement_id: null, denomination: 1000, quantity: 2 },
+        { id: 5, shift_id: 1, kind: 'CLOSING', movement_id: null, denomination: 500, quantity: 2 },
+        { id: 6, shift_id: 1, kind: 'CLOSING', movement_id: null, denomination: 100, quantity: 2 }
+      ];
+      mockDb.query
+        .mockResolvedValueOnce([{ ...openShift, status: 'CLOSED', declared_cash: 3200, variance_cash: -100 }])
+        .mockResolvedValueOnce(movements)
+        .mockResolvedValueOnce([{ invoices: 2, gross: 1800, discount: 0, tax: 0, net: 1800 }])
+        .mockResolvedValueOnce([{ cash: 1800, card: 0, wallet: 0, other: 0 }])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([...openingCount, ...dropCount, ...closingCount]);
+
+      const summary = await shiftService.zReportData(1);
+
+      expect(summary.cashCount?.lines).toEqual([
+        { denomination: 1000, opening: 2, dropped: 1, counted: 2, countedAmount: 2000, difference: 1000 },
+        { denomination: 500, opening: 0, dropped: 0, counted: 2, countedAmount: 1000, difference: 1000 },
+        { denomination: 100, opening: 5, dropped: 0, counted: 2, countedAmount: 200, difference: -300 }
+      ]);
+      expect(summary.cashCount).toMatchObject({
+        openingTotal: 2500,
+        droppedTotal: 1000,
+        countedTotal: 3200,
+        expectedTakings: 1800,
+        variance: -100
+      });
+    });
+
+    it('should refuse counts that are not whole notes or coins', async () => {
+      const mockDb = vi.mocked(database);
+      mockDb.query.mockResolvedValueOnce([]);
 
+      await expect(shiftService.openShift({
+        terminal_name: 'Terminal 1',
+        cashier_id: 1,
+        opening_cash: 0,
+        opening_count: [{ denomination: 1000, quantity: 1.5 }]
+      })).rejects.toThrow('Failed to open shift');
+      expect(mockDb.execute).not.toHaveBeenCalled();
+    });
+  });
+});
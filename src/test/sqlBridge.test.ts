@@ -0,0 +1,127 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { TestServer, startTestServer } from './serverHarness';
+
+describe('SQL bridge', () => {
+  let server: TestServer;
+  let admin: string;
+  let manager: string;
+  let cashier: string;
+  let auditor: string;
+
+  beforeAll(async () => {
+    server = await startTestServer('pos-sql-bridge-');
+    server.db.run(
+      "INSERT INTO users (name, role, pin) VALUES ('Boss', 'ADMIN', '2468'), ('Mgr', 'MANAGER', '8888'), ('Cash', 'CASHIER', '1234'), ('Aud', 'AUDITOR', '5555')"
+    );
+    server.db.run("INSERT INTO products (id, sku, name_en, price_retail) VALUES (1, 'RICE-5', 'Rice 5kg', 1450)");
+    admin = await server.login('2468');
+    manager = await server.login('8888');
+    cashier = await server.login('1234');
+    auditor = await server.login('5555');
+  });
+
+  afterAll(() => server.close());
+
+  const query = (sql: string) => server.call(admin, 'POST', '/sql/query', { sql });
+
+  it('should keep PIN hashes out of users, whatever a query renames', async () => {
+    const renamed = await query('WITH u(a, b, c, d, e, f, g, h) AS (SELECT * FROM users) SELECT * FROM u');
+    const star = await query('SELECT * FROM users');
+
+    expect(renamed.status).toBe(200);
+    expect(star.status).toBe(200);
+    expect(star.body.rows[0]).toMatchObject({ name: 'Boss', pin: null, pin_set: 1 });
+    expect(JSON.stringify([renamed.body, star.body])).not.toContain('scrypt$');
+  });
+
+  it('should refuse every statement that names user_pins', async () => {
+    const attempts = [
+      'WITH p(a, b) AS (SELECT * FROM user_pins) SELECT b FROM p',
+      'SELECT u.name, x.pin_hash AS h FROM users u JOIN user_pins x ON x.user_id = u.id',
+      'SELECT name, (SELECT pin_hash FROM "user_pins" WHERE user_id = users.id) AS h FROM users',
+      "SELECT id FROM users WHERE id IN (SELECT user_id FROM main.[USER_PINS] WHERE pin_hash LIKE 'scrypt$%')",
+      'DELETE FROM user_pins'
+    ];
+    for (const sql of attempts) {
+      const { status, body } = await query(sql);
+      expect(status).toBe(403);
+      expect(body.code).toBe('STATEMENT_NOT_ALLOWED');
+    }
+    expect(server.db.get<{ n: number }>('SELECT COUNT(*) AS n FROM user_pins')!.n).toBe(4);
+  });
+
+  it('should refuse statements that carry a PIN, which is set over REST instead', async () => {
+    const cashierId = server.db.get<{ id: number }>("SELECT id FROM users WHERE name = 'Cash'")!.id;
+    const attempts = [
+      { sql: "INSERT INTO users (name, role, pin) VALUES ('Temp', 'CASHIER', ?)", params: ['4321'] },
+      { sql: 'UPDATE users SET pin = ? WHERE id = ?', params: ['4321', cashierId] },
+      { sql: 'SELECT id FROM users WHERE PIN IS NULL', params: [] }
+    ];
+    for (const attempt of attempts) {
+      const { status, body } = await server.call(admin, 'POST', '/sql/execute', attempt);
+      expect(status).toBe(403);
+      expect(body.code).toBe('STATEMENT_NOT_ALLOWED');
+    }
+    await expect(server.login('4321')).rejects.toThrow('Login failed');
+
+    const { status } = await server.call(admin, 'PATCH', `/users/${cashierId}`, { pin: '4321' });
+
+    expect(status).toBe(200);
+    expect(await server.login('4321')).toEqual(expect.any(String));
+  });
+
+  it('should never write the tables REST only lists', async () => {
+    const writes = [
+      'INSERT INTO customer_ledger (customer_id, amount) VALUES (1, -500)',
+      "INSERT INTO stock_movements (product_id, qty, reason) VALUES (1, 100, 'ADJUST')",
+      'UPDATE cost_history SET new_cost = 0',
+      'DELETE FROM supplier_return_lines',
+      "INSERT INTO role_permissions (role_id, permission) SELECT id, 'USER_MANAGEMENT' FROM roles WHERE name = 'CASHIER'"
+    ];
+    for (const sql of writes) {
+      const { status, body } = await server.call(admin, 'POST', '/sql/execute', { sql });
+      expect(status).toBe(403);
+      expect(body.code).toBe('STATEMENT_NOT_ALLOWED');
+    }
+  });
+
+  it('should need the REST write permission for the other tables', async () => {
+    const reprice = { sql: 'UPDATE products SET price_retail = ? WHERE id = 1', params: [1] };
+
+    const bridged = await server.call(cashier, 'POST', '/sql/execute', reprice);
+    const rest = await server.call(cashier, 'PATCH', '/products/1', { price_retail: 1 });
+    const read = await server.call(cashier, 'POST', '/sql/query', { sql: 'SELECT price_retail FROM products WHERE id = 1' });
+
+    expect(bridged.status).toBe(403);
+    expect(bridged.body.code).toBe('PERMISSION_REQUIRED');
+    expect(rest.status).toBe(403);
+    expect(read.body.rows).toEqual([{ price_retail: 1450 }]);
+
+    const allowed = await server.call(manager, 'POST', '/sql/execute', { ...reprice, params: [1399] });
+    expect(allowed.body.changes).toBe(1);
+  });
+
+  it('should lend a transaction only to the session that began it, and only for shift counts and returns', async () => {
+    const denied = await server.call(auditor, 'POST', '/sql/tx/begin');
+    const { body } = await server.call(cashier, 'POST', '/sql/tx/begin');
+    const borrowed = await server.call(manager, 'POST', '/sql/query', { sql: 'SELECT 1' }, { 'x-tx-id': body.txId });
+    const ended = await server.call(manager, 'POST', `/sql/tx/${body.txId}/commit`);
+    const rolledBack = await server.call(cashier, 'POST', `/sql/tx/${body.txId}/rollback`);
+
+    expect(denied.status).toBe(403);
+    expect(borrowed.body.code).toBe('TX_NOT_FOUND');
+    expect(ended.body.code).toBe('TX_NOT_FOUND');
+    expect(rolledBack.status).toBe(200);
+  });
+
+  it("should not lose a failed PIN to another terminal's rolled-back transaction", async () => {
+    const { body } = await server.call(cashier, 'POST', '/sql/tx/begin');
+    const login = server.call(null, 'POST', '/auth/login', { pin: '0000' });
+    await new Promise(resolve => setTimeout(resolve, 200));
+    await server.call(cashier, 'POST', `/sql/tx/${body.txId}/rollback`);
+
+    expect((await login).status).toBe(401);
+    expect(server.db.get('SELECT attempts FROM pin_lockouts')).toEqual({ attempts: 1 });
+  });
+});
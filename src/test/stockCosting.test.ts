@@ -0,0 +1,83 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { TestServer, startTestServer } from './serverHarness';
+
+describe('Stock costing on the server', () => {
+  let server: TestServer;
+  let manager: string;
+  let cashier: string;
+
+  // Post a GRN of `qty` of the rice at `unitCost`, then date its receipt `daysAgo`
+  const receive = async (grnNo: string, qty: number, unitCost: number, daysAgo: number) => {
+    const grn = server.db.run("INSERT INTO grn (supplier_id, grn_no, status, store_id) VALUES (1, ?, 'OPEN', 1)", [grnNo]);
+    const id = Number(grn.lastInsertRowid);
+    server.db.run('INSERT INTO grn_lines (grn_id, product_id, qty, unit_cost, line_total) VALUES (?, 1, ?, ?, ?)', [
+      id,
+      qty,
+      unitCost,
+      qty * unitCost
+    ]);
+    const { status } = await server.call(manager, 'POST', `/grn/${id}/post`, {});
+    server.db.run("UPDATE inventory_movements SET created_at = datetime('now', ?) WHERE note = ?", [`-${daysAgo} days`, grnNo]);
+    return status;
+  };
+
+  const valuation = async (query = '') => {
+    const { status, body } = await server.call(manager, 'GET', `/costing/valuation${query}`);
+    expect(status).toBe(200);
+    return body.rows.map(({ qty, unit_cost, value }: any) => ({ qty, unit_cost, value }));
+  };
+
+  beforeAll(async () => {
+    server = await startTestServer('pos-costing-');
+    server.db.run("INSERT INTO users (name, role, pin) VALUES ('Mgr', 'MANAGER', '8888'), ('Cash', 'CASHIER', '1234')");
+    server.db.run("INSERT INTO suppliers (id, supplier_name) VALUES (1, 'Lanka Foods')");
+    server.db.run("INSERT INTO terminals (store_id, name) VALUES (1, 'POS-001')");
+    server.db.run("INSERT INTO products (id, sku, name_en, price_retail, cost) VALUES (1, 'RICE-5', 'Rice 5kg', 200, 100)");
+    manager = await server.login('8888');
+    cashier = await server.login('1234');
+
+    expect(await receive('GRN-1', 10, 100, 3)).toBe(200);
+    expect(await receive('GRN-2', 10, 130, 2)).toBe(200);
+  });
+
+  afterAll(() => server.close());
+
+  it('should cost a synced sale at the weighted average of what was received', async () => {
+    const { status } = await server.call(
+      cashier,
+      'POST',
+      '/sales/sync',
+      {
+        sale: { terminal_name: 'POS-001', invoice_number: 'INV-1', net: 3000 },
+        lines: [{ product_id: 1, qty: 15, unit_price: 200, total: 3000 }],
+        payments: [{ method: 'CASH', amount: 3000 }]
+      },
+      { 'Idempotency-Key': 'costing-sale' }
+    );
+    server.db.run("UPDATE sales SET created_at = datetime('now', '-1 day')");
+
+    expect(status).toBe(201);
+    // (10 x 100 + 10 x 130) / 20
+    expect(server.db.get('SELECT unit_cost FROM sale_lines')).toEqual({ unit_cost: 115 });
+  });
+
+  it('should value what is left at the average, or at the newest receipts under FIFO', async () => {
+    expect(await valuation()).toEqual([{ qty: 5, unit_cost: 115, value: 575 }]);
+    // The sale used up the first receipt and half of the second
+    expect(await valuation('?method=fifo')).toEqual([{ qty: 5, unit_cost: 130, value: 650 }]);
+  });
+
+  it('should value stock as it stood on an earlier date', async () => {
+    const asOf = new Date(Date.now() - 2.5 * 24 * 60 * 60 * 1000).toISOString();
+
+    expect(await valuation(`?as_of=${encodeURIComponent(asOf)}`)).toEqual([{ qty: 10, unit_cost: 100, value: 1000 }]);
+  });
+
+  it('should bring stock found without a cost in at the running average', async () => {
+    server.db.run("INSERT INTO inventory_movements (product_id, qty, type, reason, store_id) VALUES (1, 5, 'ADJUST', 'STOCKTAKE', 1)");
+
+    expect(await valuation()).toEqual([{ qty: 10, unit_cost: 115, value: 1150 }]);
+    expect(await valuation('?method=fifo')).toEqual([{ qty: 10, unit_cost: 122.5, value: 1225 }]);
+  });
+});
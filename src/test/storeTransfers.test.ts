@@ -0,0 +1,105 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { TestServer, startTestServer } from './serverHarness';
+
+describe('Stock transfers on the server', () => {
+  let server: TestServer;
+  let manager: string;
+  let transferId: number;
+
+  // A store's stock is the sum of its inventory movements
+  const stockAt = (storeId: number) =>
+    Object.fromEntries(
+      server.db.query<{ product_id: number; qty: number }>(
+        'SELECT product_id, SUM(qty) AS qty FROM inventory_movements WHERE store_id = ? GROUP BY product_id ORDER BY product_id',
+        [storeId]
+      ).map(row => [row.product_id, row.qty])
+    );
+
+  const transferLines = () =>
+    server.db.query('SELECT product_id, qty, qty_dispatched, qty_received FROM transfer_lines WHERE transfer_id = ? ORDER BY id', [
+      transferId
+    ]);
+
+  beforeAll(async () => {
+    server = await startTestServer('pos-transfers-');
+    server.db.run("INSERT INTO users (name, role, pin) VALUES ('Mgr', 'MANAGER', '8888')");
+    server.db.run("INSERT INTO stores (id, name, code) VALUES (2, 'Branch', 'BR')");
+    server.db.run(
+      "INSERT INTO products (id, sku, name_en, price_retail) VALUES (1, 'RICE-5', 'Rice 5kg', 1450), (2, 'DHAL-1', 'Dhal 1kg', 450), (3, 'SUGAR-1', 'Sugar 1kg', 320)"
+    );
+    server.db.run(
+      "INSERT INTO inventory_movements (product_id, qty, type, reason, note, store_id) VALUES (1, 20, 'RECEIVE', 'GRN', 'GRN-1', 1), (2, 8, 'RECEIVE', 'GRN', 'GRN-1', 1)"
+    );
+    manager = await server.login('8888');
+
+    const { status, body } = await server.call(manager, 'POST', '/transfers', {
+      from_store: 1,
+      to_store: 2,
+      lines: [
+        { product_id: 1, qty: 10 },
+        { product_id: 2, qty: 4 }
+      ]
+    });
+    expect(status).toBe(201);
+    transferId = body.transfer.id;
+  });
+
+  afterAll(() => server.close());
+
+  it('should refuse a transfer within one store, and products that are not on the transfer', async () => {
+    const sameStore = await server.call(manager, 'POST', '/transfers', { from_store: 1, to_store: 1, lines: [{ product_id: 1, qty: 1 }] });
+    const notOnTransfer = await server.call(manager, 'POST', `/transfers/${transferId}/dispatch`, { lines: [{ product_id: 3, qty: 1 }] });
+
+    expect(sameStore.status).toBe(400);
+    expect(sameStore.body.details).toEqual([{ field: 'to_store', message: 'must differ from from_store' }]);
+    expect(notOnTransfer.status).toBe(409);
+    expect(notOnTransfer.body.code).toBe('NOT_ON_TRANSFER');
+    expect(stockAt(1)).toEqual({ 1: 20, 2: 8 });
+  });
+
+  it('should take what was dispatched out of the sending store, with nothing at the other end until it arrives', async () => {
+    // One short on the dhal; the rice goes as requested
+    const { status, body } = await server.call(manager, 'POST', `/transfers/${transferId}/dispatch`, {
+      lines: [{ product_id: 2, qty: 3 }]
+    });
+
+    expect(status).toBe(200);
+    expect(body.transfer.status).toBe('in_transit');
+    expect(stockAt(1)).toEqual({ 1: 10, 2: 5 });
+    expect(stockAt(2)).toEqual({});
+    expect(transferLines()).toEqual([
+      { product_id: 1, qty: 10, qty_dispatched: 10, qty_received: null },
+      { product_id: 2, qty: 4, qty_dispatched: 3, qty_received: null }
+    ]);
+  });
+
+  it('should refuse a receipt above what was dispatched and move nothing', async () => {
+    const { status, body } = await server.call(manager, 'POST', `/transfers/${transferId}/receive`, {
+      lines: [{ product_id: 2, qty: 4 }]
+    });
+
+    expect(status).toBe(409);
+    expect(body.code).toBe('RECEIPT_EXCEEDS_DISPATCH');
+    expect(body.details).toEqual([{ product_id: 2, qty_dispatched: 3, qty_received: 4 }]);
+    expect(stockAt(2)).toEqual({});
+  });
+
+  it('should put what arrived into the receiving store and keep the shortfall on the transfer', async () => {
+    const { status } = await server.call(manager, 'POST', `/transfers/${transferId}/receive`, {
+      lines: [{ product_id: 1, qty: 9 }]
+    });
+    const again = await server.call(manager, 'POST', `/transfers/${transferId}/receive`, {});
+
+    expect(status).toBe(200);
+    expect(stockAt(1)).toEqual({ 1: 10, 2: 5 });
+    expect(stockAt(2)).toEqual({ 1: 9, 2: 3 });
+    expect(transferLines()).toEqual([
+      { product_id: 1, qty: 10, qty_dispatched: 10, qty_received: 9 },
+      { product_id: 2, qty: 4, qty_dispatched: 3, qty_received: 3 }
+    ]);
+    expect(again.status).toBe(409);
+    expect(again.body.code).toBe('TRANSFER_STATUS');
+    expect(stockAt(2)).toEqual({ 1: 9, 2: 3 });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { SupplierReturnDetails, creditOutstanding } from '../services/supplierReturnService';
+import { grnPrintAdapter } from '../adapters/print/GRNPrintAdapter';
+import { SupplierReturn } from '../types';
+
+const supplierReturn: SupplierReturn = {
+  id: 4,
+  return_no: 'RTV-2026-000004',
+  supplier_id: 2,
+  grn_id: 9,
+  store_id: 1,
+  status: 'posted',
+  note: null,
+  total: 1250,
+  credit_received: 500,
+  posted_at: '2026-10-05 10:00:00',
+  credited_at: null,
+  created_at: '2026-10-05 09:30:00'
+};
+
+const details: SupplierReturnDetails = {
+  supplier_return: supplierReturn,
+  supplier: { id: 2, supplier_name: 'Lanka Foods', contact_phone: '0112345678' },
+  grn: { id: 9, grn_no: 'GRN-000009', datetime: '2026-10-01T08:00:00.000Z', status: 'POSTED' },
+  lines: [{
+    id: 1,
+    supplier_return_id: 4,
+    product_id: 11,
+    qty: 25,
+    unit_cost: 50,
+    reason: 'expired',
+    batch_id: 3,
+    sku: 'SKU-11',
+    product_name: 'Yoghurt 80g',
+    barcode: null,
+    unit: 'pc',
+    batch_code: 'B-77',
+    expiry: '2026-10-04'
+  }],
+  credits: [{ id: 1, supplier_return_id: 4, amount: 500, ref: 'CN-1001', note: null, received_at: '2026-10-07 12:00:00' }]
+};
+
+describe('Supplier Return Service', () => {
+  it('should owe nothing on a draft and never less than nothing', () => {
+    expect(creditOutstanding(supplierReturn)).toBe(750);
+    expect(creditOutstanding({ ...supplierReturn, status: 'draft' })).toBe(0);
+    expect(creditOutstanding({ ...supplierReturn, status: 'credited', credit_received: 1250 })).toBe(0);
+    expect(creditOutstanding({ ...supplierReturn, total: 100.3, credit_received: 100.1 })).toBe(0.2);
+  });
+
+  it('should print the lines, reasons and what is still owed on the debit note', () => {
+    const html = grnPrintAdapter.renderDebitNote(details);
+
+    expect(html).toContain('DEBIT NOTE');
+    expect(html).toContain('RTV-2026-000004');
+    expect(html).toContain('GRN-000009');
+    expect(html).toContain('Yoghurt 80g');
+    expect(html).toContain('Expired');
+    expect(html).toContain('CN-1001');
+    expect(html).toMatch(/Outstanding:[\s\S]*LKR 750\.00/);
+  });
+});
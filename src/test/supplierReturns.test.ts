@@ -0,0 +1,108 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { TestServer, startTestServer } from './serverHarness';
+
+describe('Supplier returns on the server', () => {
+  let server: TestServer;
+  let manager: string;
+  let grnId: number;
+  let returnId: number;
+
+  const batchOnHand = () =>
+    server.db.query('SELECT product_id, qty_on_hand FROM batches WHERE grn_id = ? ORDER BY id', [grnId]);
+
+  const storeStock = () =>
+    server.db.query('SELECT product_id, SUM(qty) AS qty FROM inventory_movements WHERE store_id = 1 GROUP BY product_id ORDER BY product_id');
+
+  const draft = (lines: Array<Record<string, unknown>>) =>
+    server.call(manager, 'POST', '/supplier-returns', { supplier_id: 1, grn_id: grnId, lines });
+
+  beforeAll(async () => {
+    server = await startTestServer('pos-supplier-returns-');
+    server.db.run("INSERT INTO users (name, role, pin) VALUES ('Mgr', 'MANAGER', '8888')");
+    server.db.run("INSERT INTO suppliers (id, supplier_name) VALUES (1, 'Lanka Foods'), (2, 'Ceylon Traders')");
+    server.db.run("INSERT INTO products (id, sku, name_en, price_retail) VALUES (1, 'RICE-5', 'Rice 5kg', 1450), (2, 'DHAL-1', 'Dhal 1kg', 450)");
+    manager = await server.login('8888');
+
+    // 2 cases of 6 packs of dhal come in as 12 base units at 50 each
+    grnId = Number(server.db.run("INSERT INTO grn (supplier_id, grn_no, status, store_id) VALUES (1, 'GRN-1', 'OPEN', 1)").lastInsertRowid);
+    server.db.run(
+      `INSERT INTO grn_lines (grn_id, product_id, uom, qty, unit_cost, conv_to_base, line_total) VALUES
+         (?, 1, 'pc', 10, 1000, 1, 10000),
+         (?, 2, 'case', 2, 300, 6, 600)`,
+      [grnId, grnId]
+    );
+    const { status } = await server.call(manager, 'POST', `/grn/${grnId}/post`, {});
+    expect(status).toBe(200);
+  });
+
+  afterAll(() => server.close());
+
+  it('should draft a return against a GRN at its cost per base unit, without touching stock', async () => {
+    const { status, body } = await draft([
+      { product_id: 1, qty: 2, reason: 'damaged' },
+      { product_id: 2, qty: 3, reason: 'expired' }
+    ]);
+    returnId = body.supplier_return.id;
+
+    expect(status).toBe(201);
+    expect(body.supplier_return).toMatchObject({ status: 'draft', store_id: 1, total: 2150 });
+    expect(body.lines.map(({ product_id, qty, unit_cost }: any) => ({ product_id, qty, unit_cost }))).toEqual([
+      { product_id: 1, qty: 2, unit_cost: 1000 },
+      { product_id: 2, qty: 3, unit_cost: 50 }
+    ]);
+    expect(batchOnHand()).toEqual([{ product_id: 1, qty_on_hand: 10 }, { product_id: 2, qty_on_hand: 12 }]);
+  });
+
+  it('should refuse a return of more than the GRN received, or against another supplier\'s GRN', async () => {
+    const over = await draft([{ product_id: 2, qty: 13, reason: 'damaged' }]);
+    const otherSupplier = await server.call(manager, 'POST', '/supplier-returns', {
+      supplier_id: 2,
+      grn_id: grnId,
+      lines: [{ product_id: 1, qty: 1, reason: 'other' }]
+    });
+
+    expect(over.status).toBe(409);
+    expect(over.body.code).toBe('RETURN_EXCEEDS_RECEIPT');
+    expect(over.body.details).toEqual([{ product_id: 2, qty: 13, available: 12 }]);
+    expect(otherSupplier.status).toBe(400);
+    expect(server.db.get('SELECT COUNT(*) AS n FROM supplier_returns')).toEqual({ n: 1 });
+  });
+
+  it("should take posted goods out of the store's stock and the batch they came in, once", async () => {
+    const { status, body } = await server.call(manager, 'POST', `/supplier-returns/${returnId}/post`);
+    const again = await server.call(manager, 'POST', `/supplier-returns/${returnId}/post`);
+
+    expect(status).toBe(200);
+    expect(body.supplier_return.status).toBe('posted');
+    expect(batchOnHand()).toEqual([{ product_id: 1, qty_on_hand: 8 }, { product_id: 2, qty_on_hand: 9 }]);
+    expect(storeStock()).toEqual([{ product_id: 1, qty: 8 }, { product_id: 2, qty: 9 }]);
+    expect(server.db.query("SELECT product_id, qty FROM stock_movements WHERE reason = 'SUPPLIER_RETURN' ORDER BY id")).toEqual([
+      { product_id: 1, qty: -2 },
+      { product_id: 2, qty: -3 }
+    ]);
+    expect(again.status).toBe(409);
+    expect(again.body.code).toBe('RETURN_STATUS');
+    expect(batchOnHand()).toEqual([{ product_id: 1, qty_on_hand: 8 }, { product_id: 2, qty_on_hand: 9 }]);
+  });
+
+  it('should count posted returns against what the GRN received', async () => {
+    const { status, body } = await draft([{ product_id: 2, qty: 10, reason: 'recalled' }]);
+
+    expect(status).toBe(409);
+    expect(body.details).toEqual([{ product_id: 2, qty: 10, available: 9 }]);
+  });
+
+  it('should settle the debit note once the credits reach its total, and refuse more than is outstanding', async () => {
+    const part = await server.call(manager, 'POST', `/supplier-returns/${returnId}/credits`, { amount: 2000, ref: 'CN-1001' });
+    const over = await server.call(manager, 'POST', `/supplier-returns/${returnId}/credits`, { amount: 200 });
+    const rest = await server.call(manager, 'POST', `/supplier-returns/${returnId}/credits`, { amount: 150, ref: 'CN-1002' });
+
+    expect(part.status).toBe(201);
+    expect(part.body.supplier_return).toMatchObject({ status: 'posted', credit_received: 2000 });
+    expect(over.status).toBe(409);
+    expect(over.body).toMatchObject({ code: 'CREDIT_EXCEEDS_OUTSTANDING', details: { outstanding: 150 } });
+    expect(rest.body.supplier_return).toMatchObject({ status: 'credited', credit_received: 2150 });
+    expect(rest.body.credits.map((credit: any) => credit.ref)).toEqual(['CN-1001', 'CN-1002']);
+  });
+});
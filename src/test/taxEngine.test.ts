@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { allocateDiscount, buildTaxBreakdown, computeLineTax, computeTaxes, resolveTaxCode } from '../lib/tax';
+import type { TaxCode } from '../types';
+
+const codes: TaxCode[] = [
+  { code: 'VAT', name: 'VAT', rate: 0.18, kind: 'STANDARD', inclusive: false, active: true },
+  { code: 'VATI', name: 'VAT', rate: 0.18, kind: 'STANDARD', inclusive: true, active: true },
+  { code: 'SSCL', name: 'SSCL', rate: 0.025, kind: 'STANDARD', inclusive: false, active: true },
+  { code: 'ZERO', name: 'Zero-rated', rate: 0, kind: 'ZERO_RATED', inclusive: false, active: true },
+  { code: 'EXEMPT', name: 'Exempt', rate: 0.18, kind: 'EXEMPT', inclusive: false, active: true },
+  { code: 'OLD', name: 'Retired', rate: 0.12, kind: 'STANDARD', inclusive: false, active: false }
+];
+
+describe('Tax Engine', () => {
+  describe('resolveTaxCode', () => {
+    it('should fall back to the default code for empty, unknown or inactive codes', () => {
+      expect(resolveTaxCode(undefined, codes).code).toBe('VAT');
+      expect(resolveTaxCode('NOPE', codes).code).toBe('VAT');
+      expect(resolveTaxCode('OLD', codes).code).toBe('VAT');
+      expect(resolveTaxCode('sscl', codes).code).toBe('SSCL');
+    });
+  });
+
+  describe('computeLineTax', () => {
+    it('should add exclusive tax on top of the line amount', () => {
+      expect(computeLineTax(100, codes[0])).toEqual({ code: 'VAT', taxable: 100, tax: 18, total: 118 });
+    });
+
+    it('should extract inclusive tax from the line amount', () => {
+      expect(computeLineTax(118, codes[1])).toEqual({ code: 'VATI', taxable: 100, tax: 18, total: 118 });
+    });
+
+    it('should charge no tax for zero-rated and exempt codes', () => {
+      expect(computeLineTax(100, codes[3]).tax).toBe(0);
+      // Exempt ignores any rate entered on the code
+      expect(computeLineTax(100, codes[4]).tax).toBe(0);
+    });
+  });
+
+  describe('allocateDiscount', () => {
+    it('should split a cart discount proportionally and keep the exact sum', () => {
+      const shares = allocateDiscount([100, 100, 100], 10);
+      expect(shares).toEqual([3.33, 3.33, 3.34]);
+      expect(shares.reduce((a, b) => a + b, 0)).toBeCloseTo(10, 2);
+    });
+  });
+
+  describe('computeTaxes', () => {
+    it('should tax mixed carts per code and only add exclusive tax to the total', () => {
+      const result = computeTaxes([
+        { amount: 200, taxCode: 'VAT' },
+        { amount: 118, taxCode: 'VATI' },
+        { amount: 50, taxCode: 'EXEMPT' }
+      ], codes);
+
+      expect(result.lines.map(l => l.tax)).toEqual([36, 18, 0]);
+      expect(result.taxTotal).toBe(54);
+      expect(result.exclusiveTax).toBe(36);
+      expect(result.total).toBe(200 + 36 + 118 + 50);
+    });
+
+    it('should apply the cart discount before tax', () => {
+      const result = computeTaxes([{ amount: 100, taxCode: 'VAT' }, { amount: 100, taxCode: 'ZERO' }], codes, 20);
+      expect(result.lines[0].taxable).toBe(90);
+      expect(result.taxTotal).toBe(16.2);
+    });
+  });
+
+  describe('buildTaxBreakdown', () => {
+    it('should group lines by code, counting uncoded lines under the default code', () => {
+      const breakdown = buildTaxBreakdown([
+        { code: 'VAT', taxable: 100, tax: 18 },
+        { code: null, taxable: 50, tax: 9 },
+        { code: 'SSCL', taxable: 40, tax: 1 }
+      ], codes);
+
+      expect(breakdown).toEqual([
+        { code: 'VAT', name: 'VAT', rate: 0.18, inclusive: false, taxable: 150, tax: 27 },
+        { code: 'SSCL', name: 'SSCL', rate: 0.025, inclusive: false, taxable: 40, tax: 1 }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { transferShortfall } from '../services/transferService';
+import { StockTransferLine } from '../types';
+
+const line = (qty_dispatched: number | null, qty_received: number | null): StockTransferLine => ({
+  id: 1,
+  transfer_id: 3,
+  product_id: 11,
+  qty: 10,
+  qty_dispatched,
+  qty_received,
+  sku: 'SKU-11',
+  product_name: 'Rice 1kg',
+  barcode: null,
+  unit: 'pc'
+});
+
+describe('Transfer Service', () => {
+  it('should report the shortfall only once a line has been received', () => {
+    expect(transferShortfall(line(null, null))).toBe(0);
+    expect(transferShortfall(line(8, null))).toBe(0);
+    expect(transferShortfall(line(8, 8))).toBe(0);
+    expect(transferShortfall(line(8, 5.5))).toBe(2.5);
+    expect(transferShortfall(line(0.3, 0.1))).toBe(0.2);
+  });
+});
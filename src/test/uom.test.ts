@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { baseUnitCost, packPrice, PackUnit, toBaseQty, unitSuffix } from '@/lib/uom';
+
+const caseOf24: PackUnit = { code: 'case', name: 'Case', conv_to_base: 24, price_override: 1150 };
+const halfDozen: PackUnit = { code: 'hdz', name: 'Half-dozen', conv_to_base: 6, price_override: null };
+const pack500g: PackUnit = { code: 'pack', name: 'Pack', conv_to_base: 0.5, price_override: null };
+
+describe('units of measure', () => {
+  it('should convert pack quantities to base units', () => {
+    expect(toBaseQty(2, caseOf24)).toBe(48);
+    expect(toBaseQty(3, pack500g)).toBe(1.5);
+    expect(toBaseQty(1.25)).toBe(1.25);
+    expect(toBaseQty(1, null)).toBe(1);
+    // Rounded to the 3 dp stock is kept in
+    expect(toBaseQty(3, { conv_to_base: 0.333333 })).toBe(1);
+  });
+
+  it('should use the override as the retail pack price and the pack size for other tiers', () => {
+    expect(packPrice(50, caseOf24)).toBe(1150);
+    expect(packPrice(45, caseOf24, 'Wholesale')).toBe(1080);
+    expect(packPrice(50, halfDozen)).toBe(300);
+    expect(packPrice(480, pack500g, 'Credit')).toBe(240);
+    expect(packPrice(50, null)).toBe(50);
+    expect(packPrice(50, { ...halfDozen, price_override: 0 })).toBe(0);
+  });
+
+  it('should spread a pack cost over its base units', () => {
+    expect(baseUnitCost(1000, 24)).toBe(41.6667);
+    expect(baseUnitCost(120, 0.5)).toBe(240);
+    expect(baseUnitCost(35.5)).toBe(35.5);
+  });
+
+  it('should run base unit symbols on and space pack names', () => {
+    expect(`2${unitSuffix('pc')}`).toBe('2pc');
+    expect(`1.250${unitSuffix('kg')}`).toBe('1.250kg');
+    expect(`2${unitSuffix('case')}`).toBe('2 case');
+    expect(unitSuffix(undefined)).toBe('');
+  });
+});
@@ -0,0 +1,76 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { TestServer, startTestServer } from './serverHarness';
+
+describe('User role changes in the audit log', () => {
+  let server: TestServer;
+  let admin: string;
+  let adminId: number;
+  let cashierId: number;
+
+  const roleChanges = () =>
+    server.db
+      .query<{ actor_id: number; meta: string }>("SELECT actor_id, meta FROM audit_logs WHERE action = 'USER_ROLE_CHANGE' ORDER BY id")
+      .map(row => ({ actor_id: row.actor_id, ...JSON.parse(row.meta) }));
+
+  beforeAll(async () => {
+    server = await startTestServer('pos-user-roles-');
+    server.db.run("INSERT INTO users (name, role, pin) VALUES ('Boss', 'ADMIN', '2468'), ('Cash', 'CASHIER', '1234')");
+    adminId = server.db.get<{ id: number }>("SELECT id FROM users WHERE name = 'Boss'")!.id;
+    cashierId = server.db.get<{ id: number }>("SELECT id FROM users WHERE name = 'Cash'")!.id;
+    admin = await server.login('2468');
+  });
+
+  afterAll(() => server.close());
+
+  it('should record a role change the Users page makes through the SQL bridge', async () => {
+    // What userService.updateUser sends when a user is saved with a new role
+    const { status } = await server.call(admin, 'POST', '/sql/execute', {
+      sql: 'UPDATE users SET name = ?, role = ?, active = ?, updated_at = ? WHERE id = ?',
+      params: ['Cash', 'MANAGER', 1, new Date().toISOString(), cashierId]
+    });
+
+    expect(status).toBe(200);
+    expect(roleChanges()).toEqual([
+      { actor_id: adminId, user_id: cashierId, user_name: 'Cash', from_role: 'CASHIER', to_role: 'MANAGER', by: 'Boss' }
+    ]);
+  });
+
+  it('should record a role change over REST, and nothing when the role stays', async () => {
+    const renamed = await server.call(admin, 'PATCH', `/users/${cashierId}`, { name: 'Cashier One', role: 'MANAGER' });
+    const demoted = await server.call(admin, 'PUT', `/users/${cashierId}`, { name: 'Cashier One', role: 'CASHIER', active: true });
+
+    expect(renamed.status).toBe(200);
+    expect(demoted.status).toBe(200);
+    expect(roleChanges().slice(1)).toEqual([
+      { actor_id: adminId, user_id: cashierId, user_name: 'Cashier One', from_role: 'MANAGER', to_role: 'CASHIER', by: 'Boss' }
+    ]);
+  });
+
+  it('should not take role changes from terminals', async () => {
+    const { status, body } = await server.call(admin, 'POST', '/audit/entries', {
+      action: 'USER_ROLE_CHANGE',
+      meta: { from_role: 'CASHIER', to_role: 'ADMIN' }
+    });
+
+    expect(status).toBe(403);
+    expect(body.code).toBe('ACTION_RESERVED');
+    expect(roleChanges()).toHaveLength(2);
+  });
+
+  it('should give a user the grants of an extra role on their next sign-in, and record both changes', async () => {
+    const role = await server.call(admin, 'POST', '/rbac/roles', { name: 'SENIOR_CASHIER' });
+    const roleId = role.body.role.id;
+    const grants = await server.call(admin, 'PUT', `/rbac/roles/${roleId}/grants`, {
+      grants: [{ permission: 'CREDIT_LIMIT_OVERRIDE', max_amount: 50000 }]
+    });
+    const assigned = await server.call(admin, 'PUT', `/rbac/users/${cashierId}/roles`, { role_ids: [roleId] });
+    const cashier = await server.login('1234');
+    const created = await server.call(cashier, 'POST', '/customers', { customer_name: 'Kamal', credit_limit: 25000 });
+
+    expect(grants.body.role.grants).toEqual([{ permission: 'CREDIT_LIMIT_OVERRIDE', max_amount: 50000, max_percent: null }]);
+    expect(assigned.body.role_ids).toEqual([roleId]);
+    expect(created.status).toBe(201);
+    expect(roleChanges().slice(2).map(({ change }) => change)).toEqual(['role_created', 'grants_updated', 'user_roles_updated']);
+  });
+});
@@ -16,6 +16,7 @@ export interface Product {
   cost?: number;
   reorder_level?: number;
   preferred_supplier_id?: string;
+  pack_size?: number;
   is_active: boolean;
   created_at: Date;
   // Legacy fields for compatibility
@@ -51,6 +52,7 @@ export interface Supplier {
   contact_email?: string;
   address?: string;
   tax_id?: string;
+  lead_time_days?: number;
   active: boolean;
   created_at: Date;
   // Legacy fields for compatibility
@@ -154,9 +156,18 @@ export interface AppSettings {
   // Device Settings
   devices: {
     receiptPaper: '58mm' | '80mm' | 'A4';
+    // ESC/POS printer on the network (raw TCP, usually port 9100), reached through the POS server
+    receiptPrinter?: {
+      connection: 'browser' | 'network';
+      host: string;
+      port: number;
+    };
     cashDrawerOpenOnCash: boolean;
     barcodeInputMode: 'keyboard_wedge';
+    // 'off' ignores weight/price embedded barcodes; otherwise it picks the default scheme kind
     scaleMode: 'weight_embedded' | 'price_embedded' | 'off';
+    // Store-specific embedded barcode schemes; unset uses the default for scaleMode
+    embeddedBarcodes?: EmbeddedBarcodeSettings;
   };
   
   // Language & Formatting
@@ -214,6 +225,7 @@ export interface AppSettings {
     autoUpdateCostPolicy: 'none' | 'average' | 'latest'; // default 'latest'
     expiryReminderDays: number; // default 14
     defaultTaxPercent: number; // default 0
+    receiveTolerancePercent: number; // default 0; over/under-receipt allowed on new purchase orders
   };
   
   // Shift Settings
@@ -224,10 +236,14 @@ export interface AppSettings {
     sessionTimeoutMinutes: number; // 8h shift hint (no auto-close, only warning)
     xReportFooterEN: string;
     zReportFooterEN: string;
+    cashDenominations?: CashDenominations; // unset counts in LKR notes and coins
   };
   
   // Label Settings
   labelSettings?: LabelSettings;
+
+  // Where DatabaseService reads and writes (this browser only, or the shared LAN server)
+  dataSource?: DataSourceSettings;
   
   // Legacy settings (for backward compatibility)
   currency: string;
@@ -264,6 +280,15 @@ export interface AppSettings {
   };
 }
 
+export type DataSourceMode = 'local' | 'server';
+
+export interface DataSourceSettings {
+  mode: DataSourceMode;
+  serverUrl: string; // e.g. http://192.168.1.10:8250; empty uses VITE_API_BASE_URL
+  syncQueueMaxAgeMinutes?: number; // health check fails when an offline sale waits longer
+  storeId?: number; // server store this terminal sells and moves stock from; unset uses the first store
+}
+
 export interface KeyboardShortcut {
   key: string;
   ctrlKey?: boolean;
@@ -382,10 +407,32 @@ export interface LabelBatch {
   preset: LabelPreset;
 }
 
+/**
+ * Variable-measure EAN-13 printed by a scale: prefix, item code, an optional value check
+ * digit, the weight or price, and the EAN check digit
+ */
+export interface EmbeddedBarcodeScheme {
+  prefix: string;                  // e.g. '21', or a range such as '20-29'
+  itemCodeLength: number;          // digits after the prefix that identify the product (its SKU)
+  kind: 'weight' | 'price';
+  decimals: number;                // 3 for grams in a kg weight, 2 for cents in a price
+  valueCheckDigit: boolean;        // a GS1 price/weight check digit precedes the value
+}
+
+export interface EmbeddedBarcodeSettings {
+  schemes: EmbeddedBarcodeScheme[];
+  validateCheckDigit: boolean;     // reject scans whose EAN-13 check digit is wrong
+}
+
 export interface LabelSettings {
   defaultPresetId: string | null;
   defaultDPI: 203 | 300;
   thermalPrinterName: string;
+  // Printer command language for thermal labels; 'browser' prints the HTML render
+  thermalLanguage?: 'browser' | 'ZPL' | 'TSPL';
+  // Raw TCP address of a ZPL/TSPL label printer, reached through the POS server
+  thermalPrinterHost?: string;
+  thermalPrinterPort?: number;
   a4Default: { 
     rows: number; 
     cols: number; 
@@ -427,6 +474,7 @@ export interface ReturnLine {
   unit_price: number;
   line_refund: number;
   reason_code: ReturnReason;
+  unit_cost?: number | null; // cost per base unit the goods come back at: what the sale line went out at
 }
 
 // Extended types for returns processing
@@ -467,6 +515,9 @@ export interface ReturnValidationResult {
 // GRN (Goods Received Note) Types
 export type GRNStatus = 'OPEN' | 'POSTED' | 'VOID';
 
+// How a GRN's other charges (freight, duty) are spread over its lines
+export type LandedCostMethod = 'value' | 'weight' | 'qty';
+
 export interface GRN {
   id?: number;
   supplier_id: number;
@@ -475,10 +526,13 @@ export interface GRN {
   received_by?: number | null;
   note?: string;
   status?: GRNStatus;
+  po_id?: number | null; // purchase order being received against
+  store_id?: number | null; // store the goods were received into
   subtotal: number;
   tax: number;
   other: number;
   total: number;
+  landed_cost_method?: LandedCostMethod | null; // 'value' when not set
 }
 
 export interface GRNLine {
@@ -491,6 +545,11 @@ export interface GRNLine {
   batch_no?: string | null;
   expiry_date?: string | null; // ISO yyyy-mm-dd
   line_total: number;
+  batch_id?: number | null; // set when the GRN is posted
+  uom?: string | null; // unit qty and unit_cost are in; the product's base unit when not set
+  conv_to_base?: number; // base units per uom, 1 for the base unit
+  weight_kg?: number | null; // weight of the whole line, for allocating charges by weight
+  landed_cost?: number; // share of the GRN's other charges, set when posted
 }
 
 // Extended types for GRN processing
@@ -499,6 +558,136 @@ export interface GRNWithDetails extends GRN {
   lines?: Array<GRNLine & { product?: Product }>;
 }
 
+// Purchase Order Types (kept on the POS server)
+export type PurchaseOrderStatus = 'OPEN' | 'PARTIAL' | 'CLOSED' | 'CANCELLED';
+export type POLineReceiptStatus = 'PENDING' | 'PARTIAL' | 'COMPLETE' | 'OVER';
+
+export interface PurchaseOrder {
+  id: number;
+  po_no: string;
+  supplier_id: number;
+  status: PurchaseOrderStatus;
+  expected_date: string | null;
+  note: string | null;
+  tolerance_pct: number; // percent of each line's qty that may be over/under-received
+  sent_at: string | null;
+  closed_at: string | null;
+  created_at: string;
+}
+
+export interface PurchaseOrderLine {
+  id: number;
+  po_id: number;
+  product_id: number;
+  uom: string;
+  qty: number;
+  unit_cost: number;
+  sku: string | null;
+  product_name: string | null;
+  barcode: string | null;
+  qty_received: number;
+  qty_outstanding: number;
+  receipt_status: POLineReceiptStatus;
+}
+
+// Multi-store Types (kept on the POS server)
+export interface Store {
+  id: number;
+  name: string;
+  code: string | null;
+}
+
+export type TransferStatus = 'requested' | 'in_transit' | 'received';
+
+export interface StockTransfer {
+  id: number;
+  transfer_no: string;
+  from_store: number;
+  to_store: number;
+  status: TransferStatus;
+  note: string | null;
+  dispatched_at: string | null;
+  received_at: string | null;
+  created_at: string;
+}
+
+export interface StockTransferLine {
+  id: number;
+  transfer_id: number;
+  product_id: number;
+  qty: number; // requested
+  qty_dispatched: number | null;
+  qty_received: number | null;
+  sku: string | null;
+  product_name: string | null;
+  barcode: string | null;
+  unit: string | null;
+}
+
+// Units of Measure Types (kept on the POS server)
+export interface Uom {
+  id: number;
+  code: string;
+  name: string;
+}
+
+/** An alternate unit a product is sold or received in; stock is always counted in the product's base unit */
+export interface ProductUom {
+  id: number;
+  product_id: number;
+  uom_id: number;
+  code: string;
+  name: string;
+  conv_to_base: number; // base units in one of this unit, e.g. 24 for a case of 24
+  price_override: number | null; // retail price of one of this unit, instead of conv_to_base x the base price
+  barcode: string | null;
+}
+
+// Supplier Return Types (kept on the POS server)
+export type SupplierReturnStatus = 'draft' | 'posted' | 'credited';
+export type SupplierReturnReason = 'damaged' | 'expired' | 'recalled' | 'other';
+
+/** A return to vendor; its debit note is settled by credits from the supplier */
+export interface SupplierReturn {
+  id: number;
+  return_no: string;
+  supplier_id: number;
+  grn_id: number | null;
+  store_id: number | null;
+  status: SupplierReturnStatus;
+  note: string | null;
+  total: number;
+  credit_received: number;
+  posted_at: string | null;
+  credited_at: string | null;
+  created_at: string;
+}
+
+export interface SupplierReturnLine {
+  id: number;
+  supplier_return_id: number;
+  product_id: number;
+  qty: number; // base units
+  unit_cost: number; // per base unit
+  reason: SupplierReturnReason;
+  batch_id: number | null;
+  sku: string | null;
+  product_name: string | null;
+  barcode: string | null;
+  unit: string | null;
+  batch_code: string | null;
+  expiry: string | null;
+}
+
+export interface SupplierReturnCredit {
+  id: number;
+  supplier_return_id: number;
+  amount: number;
+  ref: string | null;
+  note: string | null;
+  received_at: string;
+}
+
 export interface GRNLabelItem {
   sku: string;
   barcode?: string;
@@ -510,9 +699,35 @@ export interface GRNLabelItem {
   expiry_date?: string;
 }
 
+// Tax Types
+export type TaxKind = 'STANDARD' | 'ZERO_RATED' | 'EXEMPT';
+
+export interface TaxCode {
+  code: string;        // matches Product.tax_code, e.g. 'VAT'
+  name: string;
+  rate: number;        // fraction, e.g. 0.18
+  kind: TaxKind;
+  inclusive: boolean;  // shelf price already contains the tax
+  active: boolean;
+}
+
+export interface TaxBreakdownLine {
+  code: string;
+  name: string;
+  rate: number;
+  inclusive: boolean;
+  taxable: number;     // net of tax
+  tax: number;
+}
+
 // Shift Management Types
 export type ShiftStatus = 'OPEN' | 'CLOSED' | 'VOID';
 
+export interface CashDenominations {
+  notes: number[];
+  coins: number[];
+}
+
 export interface Shift {
   id?: number;
   terminal_name: string;
@@ -608,6 +823,40 @@ export interface ShiftMovement {
   reason?: string | null;
 }
 
+// Drawer counts by denomination; the opening float, each counted safe drop and the closing count
+export type ShiftCashCountKind = 'OPENING' | 'DROP' | 'CLOSING';
+
+export interface CashCountLine {
+  denomination: number;  // face value, e.g. 5000 or 0.5
+  quantity: number;      // notes or coins counted
+}
+
+export interface ShiftCashCount extends CashCountLine {
+  id?: number;
+  shift_id: number;
+  kind: ShiftCashCountKind;
+  movement_id?: number | null;  // the DROP movement a drop count belongs to
+  counted_at?: string;
+}
+
+export interface CashCountDenominationLine {
+  denomination: number;
+  opening: number;    // quantities
+  dropped: number;
+  counted: number;
+  countedAmount: number;
+  difference: number; // (counted - opening + dropped) * denomination: cash taken in this denomination
+}
+
+export interface CashCountSummary {
+  lines: CashCountDenominationLine[];
+  openingTotal: number | null;  // null when the float was entered as one amount
+  droppedTotal: number;
+  countedTotal: number | null;  // null until the shift is closed with a count
+  expectedTakings: number;      // expectedCash - opening + drops: what the differences should add up to
+  variance: number | null;      // countedTotal - expectedCash
+}
+
 export interface ShiftSummary {
   shift: Shift;
   sales: {
@@ -617,6 +866,7 @@ export interface ShiftSummary {
     tax: number;
     net: number;
   };
+  taxBreakdown: TaxBreakdownLine[];
   payments: {
     cash: number;
     card: number;
@@ -634,6 +884,7 @@ export interface ShiftSummary {
     declaredCash?: number | null;
     variance?: number | null;
   };
+  cashCount?: CashCountSummary | null;  // set when any count for the shift was taken by denomination
 }
 
 // Company Profile and License Types
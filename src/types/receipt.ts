@@ -1,3 +1,5 @@
+import type { TaxBreakdownLine } from './index';
+
 export type ReceiptPayload = {
   type?: 'sale' | 'return'; // Distinguish between sales and returns
   store: {
@@ -18,7 +20,7 @@ export type ReceiptPayload = {
       name_en: string;
       name_si?: string;
       name_ta?: string;
-      unit: 'pc' | 'kg';
+      unit: string; // 'pc', 'kg' or the pack sold, such as 'case'
       qty: number; // up to 3 dp for kg
       unitPrice: number; // effective tier price used
       lineDiscount: number; // absolute
@@ -30,6 +32,7 @@ export type ReceiptPayload = {
       discount: number;
       tax: number;
       net: number;
+      taxBreakdown?: TaxBreakdownLine[]; // per tax code; printed instead of the single tax row
     };
     payments: {
       cash: number;
@@ -1,11 +1,24 @@
 /**
  * API utility functions
  */
+import type { DataSourceSettings } from '@/types';
 
 export const getApiBaseUrl = (): string => {
   return import.meta.env.VITE_API_BASE_URL || 'http://localhost:8100';
 };
 
+// LAN server address from the Data Source settings, falling back to the build-time API URL
+export const getServerBaseUrl = (dataSource?: DataSourceSettings): string => {
+  return (dataSource?.serverUrl || getApiBaseUrl()).replace(/\/+$/, '');
+};
+
+// Signed session from the POS server's /api/auth/login; set and cleared by authService
+let sessionToken: string | null = null;
+
+export const setSessionToken = (token: string | null): void => {
+  sessionToken = token;
+};
+
 export const apiRequest = async (endpoint: string, options: RequestInit = {}): Promise<Response> => {
   const baseUrl = getApiBaseUrl();
   const url = endpoint.startsWith('http') ? endpoint : `${baseUrl}${endpoint}`;
@@ -13,12 +26,41 @@ export const apiRequest = async (endpoint: string, options: RequestInit = {}): P
   const defaultOptions: RequestInit = {
     headers: {
       'Content-Type': 'application/json',
+      ...(sessionToken ? { Authorization: `Bearer ${sessionToken}` } : {}),
       ...options.headers,
     },
   };
 
-  return fetch(url, { ...defaultOptions, ...options });
+  return fetch(url, { ...options, headers: defaultOptions.headers });
 };
 
+/** A refused or failed call to the POS server, with the route's error code, HTTP status and details */
+export class ServiceError extends Error {
+  constructor(message: string, public code?: string, public status?: number, public details?: any) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export type ServiceErrorClass = new (message: string, code?: string, status?: number, details?: any) => ServiceError;
 
+// JSON call to a POS server route; an unreachable server and `success: false` replies throw `ErrorClass`
+export const serverRequest = async <T>(
+  baseUrl: string,
+  path: string,
+  options: RequestInit = {},
+  ErrorClass: ServiceErrorClass = ServiceError
+): Promise<T> => {
+  let response: Response;
+  try {
+    response = await apiRequest(`${baseUrl}${path}`, options);
+  } catch {
+    throw new ErrorClass(`POS server unreachable at ${baseUrl}`, 'NETWORK_ERROR');
+  }
 
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || data.success === false) {
+    throw new ErrorClass(data.error || `Server error (${response.status})`, data.code, response.status, data.details);
+  }
+  return data as T;
+};
@@ -5,6 +5,8 @@
  * - Ignores modifier/navigation keys
  */
 
+import { DEFAULT_WEIGHT_SCHEME, parseEmbeddedBarcode } from '@/lib/embeddedBarcode';
+
 export type ScanListener = (code: string) => void;
 
 export interface ScannerBufferOptions {
@@ -75,7 +77,7 @@ export class ScannerBuffer {
   }
 }
 
-// Weighted barcode parsing (EAN-13 with price/weight pattern, configurable if needed)
+// Weighted barcode parsing (EAN-13 with price/weight pattern)
 export interface WeightedParse {
   isWeighted: boolean;
   sku?: string;
@@ -83,27 +85,15 @@ export interface WeightedParse {
 }
 
 /**
- * Simple parser for weighted EAN-13 like 20/21 prefix:
+ * Weighted EAN-13 with the default 20-29 scheme:
  *  - 2 digits prefix (20-29) indicate variable measure
  *  - 5 digits item code
- *  - 5 digits weight (in grams) or price depending on scheme
+ *  - 5 digits weight (in grams)
  *  - 1 digit checksum (ignored here)
+ * Configured schemes, price barcodes and check digits go through parseEmbeddedBarcode.
  */
 export function parseWeightedBarcode(code: string): WeightedParse {
-  if (!/^\d{13}$/.test(code)) return { isWeighted: false };
-  const prefix = code.slice(0, 2);
-  const variablePrefixes = new Set(['20', '21', '22', '23', '24', '25', '26', '27', '28', '29']);
-  if (!variablePrefixes.has(prefix)) return { isWeighted: false };
-  const sku = code.slice(2, 7);
-  const weightPart = code.slice(7, 12); // grams
-  const grams = parseInt(weightPart, 10);
-  if (Number.isNaN(grams)) return { isWeighted: false };
-  const weightKg = grams / 1000;
-  return { isWeighted: true, sku, weightKg };
+  const parsed = parseEmbeddedBarcode(code, { schemes: [DEFAULT_WEIGHT_SCHEME], validateCheckDigit: false });
+  if (!parsed) return { isWeighted: false };
+  return { isWeighted: true, sku: parsed.itemCode, weightKg: parsed.weightKg };
 }
-
-
-
-
-
-